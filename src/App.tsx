@@ -1,12 +1,17 @@
-import React, { useState, useEffect, useCallback, Suspense, lazy } from 'react';
+import React, { useState, useEffect, useCallback, useRef, Suspense, lazy } from 'react';
 import { Routes, Route, useNavigate, useLocation } from 'react-router-dom';
 import { RedesignedLandingPage } from './components/RedesignedLandingPage';
 import { AdminLogin } from './admin/components/AdminLogin';
 import { OtpVerification } from './admin/components/OtpVerification';
 import { OnboardingPaymentScreen, type PlanType } from './components/OnboardingPaymentScreen';
 import { SubscriptionRequired } from './components/SubscriptionRequired';
+import { ReminderResponsePage } from './components/ReminderResponsePage';
+import { ReviewRequestPage } from './components/ReviewRequestPage';
+import { StaffInvitePage } from './components/StaffInvitePage';
 import { AuthProvider } from './auth/AuthContext';
 import { useAuth } from './auth/useAuth';
+import { TenantProvider } from './tenant/TenantContext';
+import { useTenant } from './tenant/useTenant';
 import { type Profile } from './api/profile';
 import { getMyProfile } from './api/profile';
 import { hasActiveSubscription } from './api/subscriptions';
@@ -48,7 +53,7 @@ const ClientApp = lazy(() =>
   }))
 ) as React.LazyExoticComponent<React.ComponentType<ClientAppProps>>;
 
-type AppState = 'landing' | 'login' | 'otp-verification' | 'admin-dashboard' | 'manager-dashboard' | 'staff-dashboard' | 'client-app' | 'onboarding' | 'subscription-required';
+type AppState = 'landing' | 'login' | 'otp-verification' | 'admin-dashboard' | 'manager-dashboard' | 'staff-dashboard' | 'client-app' | 'onboarding' | 'subscription-required' | 'reminder' | 'review' | 'invite';
 
 function AppContent() {
   const navigate = useNavigate();
@@ -59,6 +64,9 @@ function AppContent() {
   const [selectedPlanType, setSelectedPlanType] = useState<PlanType>('free-trial');
   const [isCheckingAuth, setIsCheckingAuth] = useState(true);
   const { signOut, session } = useAuth();
+  const { refreshOrganization, organization } = useTenant();
+  const [organizationSwitches, setOrganizationSwitches] = useState(0);
+  const previousOrganizationId = useRef<string | null>(null);
 
   // Helper to get app state from URL path
   const getAppStateFromPath = (path: string): AppState => {
@@ -70,11 +78,25 @@ function AppContent() {
     if (path.startsWith('/otp-verification')) return 'otp-verification';
     if (path.startsWith('/onboarding')) return 'onboarding';
     if (path.startsWith('/subscription-required')) return 'subscription-required';
+    if (path.startsWith('/reminder')) return 'reminder';
+    if (path.startsWith('/review')) return 'review';
+    if (path.startsWith('/invite')) return 'invite';
     return 'landing';
   };
 
   const appState = getAppStateFromPath(location.pathname);
 
+  // Count switches between organizations (not the first load) so dashboards
+  // remount with empty caches and the role redirect below runs again
+  useEffect(() => {
+    const organizationId = organization?.id ?? null;
+    if (!organizationId) return;
+    if (previousOrganizationId.current && previousOrganizationId.current !== organizationId) {
+      setOrganizationSwitches(count => count + 1);
+    }
+    previousOrganizationId.current = organizationId;
+  }, [organization?.id]);
+
   // Handle pending subscription stored in localStorage
   const handlePendingSubscription = useCallback(async () => {
     if (!session?.user) return;
@@ -104,6 +126,7 @@ function AppContent() {
         // Continue anyway - subscription can still be created
       } else {
         console.log('Tenant created:', tenantResult.organization_id);
+        await refreshOrganization();
       }
 
       // Step 2: Calculate price
@@ -123,8 +146,8 @@ function AppContent() {
         billingPeriod
       );
 
-      if (subscriptionId && planType !== 'free-trial') {
-        // Create payment record
+      if (subscriptionId && price > 0) {
+        // Charge the card for paid plans
         const cardLast4 = formData.cardNumber?.slice(-4)?.replace(/\s/g, '') || null;
         const [expiryMonth, expiryYear] = (formData.expiryDate || '').split('/');
         const cardBrand = cardLast4?.startsWith('4') ? 'visa' : 'mastercard';
@@ -132,7 +155,6 @@ function AppContent() {
 
         await createPaymentRecord(
           subscriptionId,
-          session.user.id,
           price,
           cardLast4,
           cardBrand,
@@ -140,8 +162,7 @@ function AppContent() {
           fullYear,
           formData.billingAddress,
           formData.city,
-          formData.zipCode,
-          `mock_txn_${Date.now()}`
+          formData.zipCode
         );
       }
 
@@ -150,11 +171,17 @@ function AppContent() {
     } catch (error) {
       console.error('Error handling pending subscription:', error);
     }
-  }, [session]);
+  }, [session, refreshOrganization]);
 
   // Check session and redirect based on role (runs when session changes or on mount)
   useEffect(() => {
     const checkSessionAndRedirect = async () => {
+      // Reminder, review and invite links work the same whether or not someone is signed in
+      if (appState === 'reminder' || appState === 'review' || appState === 'invite') {
+        setIsCheckingAuth(false);
+        return;
+      }
+
       // Mark that we're checking auth - this prevents showing landing page during check
       setIsCheckingAuth(true);
 
@@ -223,7 +250,7 @@ function AppContent() {
     };
 
     checkSessionAndRedirect();
-  }, [session, handlePendingSubscription, appState, navigate]);
+  }, [session, handlePendingSubscription, appState, navigate, organizationSwitches]);
 
   // Handle auth callback from email confirmation
   useEffect(() => {
@@ -431,7 +458,7 @@ function AppContent() {
         element={
           session?.user ? (
             <Suspense fallback={<LoadingFallback message="Loading dashboard..." />}>
-              <NewAdminDashboard onLogout={handleLogout} />
+              <NewAdminDashboard key={organizationSwitches} onLogout={handleLogout} />
             </Suspense>
           ) : (
             <AdminLogin 
@@ -463,7 +490,7 @@ function AppContent() {
         path="/manager-dashboard/*" 
         element={
           <Suspense fallback={<LoadingFallback message="Loading manager dashboard..." />}>
-            <ManagerDashboard onLogout={handleLogout} />
+            <ManagerDashboard key={organizationSwitches} onLogout={handleLogout} />
           </Suspense>
         } 
       />
@@ -473,7 +500,7 @@ function AppContent() {
         path="/staff-dashboard/*" 
         element={
           <Suspense fallback={<LoadingFallback message="Loading staff dashboard..." />}>
-            <StaffDashboard onLogout={handleLogout} />
+            <StaffDashboard key={organizationSwitches} onLogout={handleLogout} />
           </Suspense>
         } 
       />
@@ -518,6 +545,15 @@ function AppContent() {
         } 
       />
 
+      {/* Confirm/cancel links from appointment reminders */}
+      <Route path="/reminder" element={<ReminderResponsePage />} />
+
+      {/* Signed rating links from post-visit review requests */}
+      <Route path="/review" element={<ReviewRequestPage />} />
+
+      {/* Staff invite links - set a password and join the organization */}
+      <Route path="/invite" element={<StaffInvitePage />} />
+
       {/* Catch all - redirect to landing */}
       <Route 
         path="*" 
@@ -536,7 +572,9 @@ function AppContent() {
 const App: React.FC = () => {
   return (
     <AuthProvider>
-      <AppContent />
+      <TenantProvider>
+        <AppContent />
+      </TenantProvider>
     </AuthProvider>
   );
 };
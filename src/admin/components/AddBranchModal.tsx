@@ -1,8 +1,13 @@
 import { useState, useEffect } from 'react';
-import { X, MapPin, Loader } from 'lucide-react';
+import { X, MapPin, Loader, Clock, CalendarOff } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { isMissingSchemaError } from '../../lib/supabaseErrors';
 import { useAuth } from '../../auth/useAuth';
 import { getCurrentOrganizationId } from '../../api/multiTenancy';
+import { addShopClosure, deleteShopClosure, getShopClosures } from '../../api/businessHours';
+import { normalizeSchedule, validateIntervals, WEEKDAYS, WEEKDAY_LABELS } from '../../utils/businessHours';
+import { BusinessHoursEditor, ClosuresEditor, type ClosureDraft } from './BusinessHoursEditor';
+import type { WeeklySchedule } from '../../types/multiTenancy';
 
 interface Branch {
   id: string;
@@ -13,6 +18,7 @@ interface Branch {
   rating?: number;
   review_count?: number;
   is_open: boolean;
+  business_hours?: WeeklySchedule | null;
 }
 
 interface AddBranchModalProps {
@@ -31,11 +37,23 @@ export function AddBranchModal({ isOpen, onClose, onBranchSaved, editingBranch }
     description: '',
     is_open: true,
   });
+  const [schedule, setSchedule] = useState<WeeklySchedule>(normalizeSchedule(null));
+  const [closures, setClosures] = useState<ClosureDraft[]>([]);
+  const [removedClosureIds, setRemovedClosureIds] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     if (isOpen) {
+      setSchedule(normalizeSchedule(editingBranch?.business_hours));
+      setClosures([]);
+      setRemovedClosureIds([]);
+      if (editingBranch) {
+        getShopClosures(editingBranch.id)
+          .then(setClosures)
+          .catch(err => console.error('Error loading closures:', err));
+      }
+
       if (editingBranch) {
         setFormData({
           name: editingBranch.name,
@@ -64,6 +82,14 @@ export function AddBranchModal({ isOpen, onClose, onBranchSaved, editingBranch }
       return;
     }
 
+    for (const day of WEEKDAYS) {
+      const hoursError = validateIntervals(schedule[day]);
+      if (hoursError) {
+        setError(`${WEEKDAY_LABELS[day]}: ${hoursError}`);
+        return;
+      }
+    }
+
     try {
       setLoading(true);
       setError(null);
@@ -84,25 +110,47 @@ export function AddBranchModal({ isOpen, onClose, onBranchSaved, editingBranch }
         phone_number: formData.phone_number || null,
         description: formData.description || null,
         is_open: formData.is_open,
+        business_hours: schedule,
         rating: 0,
         review_count: 0,
         owner_id: session.user.id, // Set owner_id to current user (admin or manager)
         organization_id: organizationId, // Set organization_id so admin can see manager-owned branches
       };
 
-      if (editingBranch) {
-        const { error: updateError } = await supabase
+      // Retry without business_hours if supabase-business-hours-setup.sql hasn't run yet
+      const saveBranch = async (payload: Record<string, unknown>) => {
+        if (editingBranch) {
+          const { error: updateError } = await supabase
+            .from('shops')
+            .update(payload)
+            .eq('id', editingBranch.id);
+          return { id: editingBranch.id, error: updateError };
+        }
+        const { data, error: insertError } = await supabase
           .from('shops')
-          .update(branchData)
-          .eq('id', editingBranch.id);
+          .insert(payload)
+          .select('id')
+          .single();
+        return { id: data?.id as string | undefined, error: insertError };
+      };
 
-        if (updateError) throw updateError;
-      } else {
-        const { error: insertError } = await supabase
-          .from('shops')
-          .insert(branchData);
+      let result = await saveBranch(branchData);
+      if (result.error && isMissingSchemaError(result.error)) {
+        const legacyData: Record<string, unknown> = { ...branchData };
+        delete legacyData.business_hours;
+        result = await saveBranch(legacyData);
+      }
+      if (result.error) throw result.error;
 
-        if (insertError) throw insertError;
+      // Sync holidays and special closures
+      if (result.id) {
+        await Promise.all(removedClosureIds.map(id => deleteShopClosure(id)));
+        const shopId = result.id;
+        await Promise.all(
+          closures
+            .filter(closure => !closure.id)
+            .map(closure => addShopClosure({ ...closure, shop_id: shopId, organization_id: organizationId }))
+        );
       }
 
       onBranchSaved();
@@ -118,7 +166,7 @@ export function AddBranchModal({ isOpen, onClose, onBranchSaved, editingBranch }
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-2 sm:p-4">
-      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md max-h-[95vh] sm:max-h-[90vh] flex flex-col">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[95vh] sm:max-h-[90vh] flex flex-col">
         {/* Header */}
         <div className="bg-gradient-to-r from-pink-500 to-purple-500 p-4 sm:p-6 text-white rounded-t-2xl flex-shrink-0">
           <div className="flex items-center justify-between">
@@ -207,8 +255,34 @@ export function AddBranchModal({ isOpen, onClose, onBranchSaved, editingBranch }
                 onChange={(e) => setFormData({ ...formData, is_open: e.target.checked })}
                 className="w-4 h-4 text-pink-600 border-gray-300 rounded focus:ring-pink-500"
               />
-              <span className="text-sm font-medium text-gray-700">Branch is currently open</span>
+              <span className="text-sm font-medium text-gray-700">Branch is accepting bookings</span>
             </label>
+            <p className="text-xs text-gray-500 mt-1 ml-6">Uncheck to close the branch temporarily regardless of its opening hours.</p>
+          </div>
+
+          <div className="pt-4 border-t border-gray-100">
+            <div className="flex items-center space-x-2 mb-2">
+              <Clock className="w-4 h-4 text-pink-500" />
+              <h3 className="text-sm font-semibold text-gray-900">Weekly Opening Hours</h3>
+            </div>
+            <p className="text-xs text-gray-500 mb-2">Add more than one block per day for split shifts (e.g., a lunch break).</p>
+            <BusinessHoursEditor schedule={schedule} onChange={setSchedule} />
+          </div>
+
+          <div className="pt-4 border-t border-gray-100">
+            <div className="flex items-center space-x-2 mb-2">
+              <CalendarOff className="w-4 h-4 text-pink-500" />
+              <h3 className="text-sm font-semibold text-gray-900">Holidays & Special Closures</h3>
+            </div>
+            <ClosuresEditor
+              closures={closures}
+              onAdd={(closure) => setClosures([...closures, closure].sort((a, b) => a.start_date.localeCompare(b.start_date)))}
+              onRemove={(index) => {
+                const removed = closures[index];
+                if (removed.id) setRemovedClosureIds([...removedClosureIds, removed.id]);
+                setClosures(closures.filter((_, i) => i !== index));
+              }}
+            />
           </div>
 
           <div className="flex space-x-3 pt-4">
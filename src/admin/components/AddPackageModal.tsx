@@ -0,0 +1,336 @@
+import { useState, useEffect, useMemo } from 'react';
+import { X, Package, Loader } from 'lucide-react';
+import { saveServicePackage } from '../../api/packages';
+import { PACKAGE_KIND_LABELS, getPackagePricing, validatePackageInput } from '../../utils/packages';
+import type { PackageKind, ServicePackage, ServicePackageInput } from '../../types/multiTenancy';
+
+// Services the package can be built from, as loaded by ServicesScreen
+interface PackageServiceOption {
+  id: string;
+  name: string;
+  price: number;
+  duration: number;
+  shop_id: string;
+  shop_name?: string;
+  is_active: boolean;
+}
+
+interface AddPackageModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onPackageSaved: () => void;
+  services: PackageServiceOption[];
+  editingPackage?: ServicePackage | null;
+}
+
+const EMPTY_FORM = {
+  name: '',
+  description: '',
+  kind: 'bundle' as PackageKind,
+  shop_id: '',
+  price: '',
+  validity_days: '',
+};
+
+export function AddPackageModal({ isOpen, onClose, onPackageSaved, services, editingPackage }: AddPackageModalProps) {
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [quantities, setQuantities] = useState<Record<string, number>>({}); // service_id -> uses included
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeServices = useMemo(() => services.filter(s => s.is_active), [services]);
+  const branches = useMemo(() => {
+    const byId = new Map<string, string>();
+    activeServices.forEach(s => byId.set(s.shop_id, s.shop_name || 'Branch'));
+    return Array.from(byId, ([id, name]) => ({ id, name }));
+  }, [activeServices]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    if (editingPackage) {
+      setFormData({
+        name: editingPackage.name,
+        description: editingPackage.description || '',
+        kind: editingPackage.kind,
+        shop_id: editingPackage.shop_id,
+        price: editingPackage.price.toString(),
+        validity_days: editingPackage.validity_days?.toString() || '',
+      });
+      setQuantities(Object.fromEntries(editingPackage.items.map(item => [item.service_id, item.quantity])));
+    } else {
+      setFormData({ ...EMPTY_FORM, shop_id: branches[0]?.id || '' });
+      setQuantities({});
+    }
+  }, [isOpen, editingPackage, branches]);
+
+  const branchServices = activeServices.filter(s => s.shop_id === formData.shop_id);
+
+  const input: ServicePackageInput = {
+    name: formData.name,
+    description: formData.description || null,
+    kind: formData.kind,
+    shop_id: formData.shop_id,
+    price: formData.price === '' ? NaN : parseFloat(formData.price),
+    validity_days: formData.validity_days ? parseInt(formData.validity_days, 10) : null,
+    items: Object.entries(quantities).map(([service_id, quantity]) => ({ service_id, quantity })),
+  };
+
+  const pricing = getPackagePricing({
+    price: Number.isFinite(input.price) ? input.price : 0,
+    items: input.items.map(item => ({ ...item, service: activeServices.find(s => s.id === item.service_id) })),
+  });
+
+  const toggleService = (serviceId: string, checked: boolean) => {
+    setQuantities(prev => {
+      const next = { ...prev };
+      if (checked) next[serviceId] = formData.kind === 'prepaid' ? 5 : 1;
+      else delete next[serviceId];
+      return next;
+    });
+  };
+
+  const handleShopChange = (shopId: string) => {
+    setFormData({ ...formData, shop_id: shopId });
+    setQuantities({});
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationError = validatePackageInput(input);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      await saveServicePackage(input, editingPackage?.id);
+      onPackageSaved();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save package');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-2 sm:p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[95vh] sm:max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-pink-500 to-purple-500 p-4 sm:p-6 text-white rounded-t-2xl flex-shrink-0">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2 sm:space-x-3">
+              <Package className="w-5 h-5 sm:w-6 sm:h-6" />
+              <h2 className="text-xl sm:text-2xl font-bold">
+                {editingPackage ? 'Edit Package' : 'New Package'}
+              </h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 sm:w-6 sm:h-6" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 sm:p-6 overflow-y-auto flex-1 space-y-4">
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2 p-1 bg-gray-100 rounded-lg">
+            {(Object.keys(PACKAGE_KIND_LABELS) as PackageKind[]).map(kind => (
+              <button
+                key={kind}
+                type="button"
+                onClick={() => {
+                  setFormData({ ...formData, kind });
+                  setQuantities({});
+                }}
+                className={`py-2 rounded-md text-sm font-medium transition-all ${
+                  formData.kind === kind ? 'bg-white shadow-sm text-pink-600' : 'text-gray-600 hover:text-gray-800'
+                }`}
+              >
+                {PACKAGE_KIND_LABELS[kind]}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            {formData.kind === 'bundle'
+              ? 'Several different services sold together at one discounted price.'
+              : 'Several uses of one service, paid upfront and redeemed one visit at a time.'}
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Package Name <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+              placeholder={formData.kind === 'bundle' ? 'e.g., Bridal Package' : 'e.g., 5 Blowouts'}
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <textarea
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              rows={2}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+              placeholder="What's included and who it's for"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Salon Branch <span className="text-red-500">*</span>
+            </label>
+            <select
+              value={formData.shop_id}
+              onChange={(e) => handleShopChange(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+              required
+            >
+              <option value="">Select salon branch</option>
+              {branches.map(branch => (
+                <option key={branch.id} value={branch.id}>{branch.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {formData.kind === 'bundle' ? 'Included Services' : 'Service'} <span className="text-red-500">*</span>
+            </label>
+            {branchServices.length === 0 ? (
+              <p className="text-sm text-gray-500">This branch has no active services yet.</p>
+            ) : (
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-56 overflow-y-auto">
+                {branchServices.map(service => {
+                  const included = service.id in quantities;
+                  return (
+                    <div key={service.id} className="flex items-center gap-3 px-3 py-2">
+                      <input
+                        type={formData.kind === 'bundle' ? 'checkbox' : 'radio'}
+                        name="package-service"
+                        checked={included}
+                        onChange={(e) => {
+                          if (formData.kind === 'prepaid') setQuantities({ [service.id]: 5 });
+                          else toggleService(service.id, e.target.checked);
+                        }}
+                        className="w-4 h-4 text-pink-600 border-gray-300 focus:ring-pink-500"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">{service.name}</p>
+                        <p className="text-xs text-gray-500">₱{service.price.toLocaleString()} · {service.duration} min</p>
+                      </div>
+                      {included && (
+                        <label className="flex items-center gap-1 text-xs text-gray-500">
+                          Uses
+                          <input
+                            type="number"
+                            min={1}
+                            max={50}
+                            value={quantities[service.id]}
+                            onChange={(e) => setQuantities({ ...quantities, [service.id]: parseInt(e.target.value, 10) || 1 })}
+                            className="w-16 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                          />
+                        </label>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Package Price (₱) <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="number"
+                value={formData.price}
+                onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                placeholder="0.00"
+                step="0.01"
+                min="0"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Valid For (days)</label>
+              <input
+                type="number"
+                value={formData.validity_days}
+                onChange={(e) => setFormData({ ...formData, validity_days: e.target.value })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                placeholder="No expiry"
+                min="1"
+              />
+            </div>
+          </div>
+
+          {pricing.regularPrice > 0 && (
+            <div className="p-4 bg-gradient-to-r from-pink-50 to-purple-50 rounded-lg border border-pink-200 text-sm">
+              <div className="flex justify-between text-gray-600">
+                <span>Booked separately</span>
+                <span>₱{pricing.regularPrice.toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between font-semibold text-gray-900 mt-1">
+                <span>Client saves</span>
+                <span className={pricing.savings > 0 ? 'text-green-600' : 'text-gray-500'}>
+                  ₱{pricing.savings.toLocaleString()} ({pricing.savingsPercent}%)
+                </span>
+              </div>
+            </div>
+          )}
+
+          {/* Action Buttons */}
+          <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-3 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2.5 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 px-4 py-2.5 bg-pink-500 hover:bg-pink-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+            >
+              {loading ? (
+                <>
+                  <Loader className="w-5 h-5 animate-spin" />
+                  <span>Saving...</span>
+                </>
+              ) : (
+                <>
+                  <Package className="w-5 h-5" />
+                  <span>{editingPackage ? 'Update Package' : 'Create Package'}</span>
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
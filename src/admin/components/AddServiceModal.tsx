@@ -3,7 +3,13 @@ import { X, Scissors, Loader, Upload } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { getShops } from '../../client/api/services';
 import { useAuth } from '../../auth/useAuth';
+import { usePermission } from '../../tenant/useTenant';
+import { isMissingSchemaError } from '../../lib/supabaseErrors';
+import { DEPOSIT_TYPE_LABELS, formatDepositRule, validateDepositRule } from '../../utils/deposits';
 import type { Shop } from '../../client/types';
+import type { DepositType } from '../../types/multiTenancy';
+
+const DEPOSITS_SETUP_MESSAGE = 'Deposits are not set up yet. Please run supabase-deposits-setup.sql.';
 
 interface Service {
   id: string;
@@ -14,6 +20,8 @@ interface Service {
   category: string;
   shop_id: string;
   image_url?: string | null;
+  deposit_type?: DepositType;
+  deposit_value?: number;
 }
 
 interface AddServiceModalProps {
@@ -25,6 +33,9 @@ interface AddServiceModalProps {
 
 export function AddServiceModal({ isOpen, onClose, onServiceSaved, editingService }: AddServiceModalProps) {
   const { session } = useAuth();
+  // Prices of existing services are locked without services.edit_price
+  const canEditPrice = usePermission('services.edit_price');
+  const priceLocked = !!editingService && !canEditPrice;
   const [shops, setShops] = useState<Shop[]>([]);
   const [formData, setFormData] = useState({
     name: '',
@@ -33,6 +44,8 @@ export function AddServiceModal({ isOpen, onClose, onServiceSaved, editingServic
     duration: '',
     category: '',
     shop_id: '',
+    deposit_type: 'none' as DepositType,
+    deposit_value: '',
   });
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
@@ -51,6 +64,8 @@ export function AddServiceModal({ isOpen, onClose, onServiceSaved, editingServic
           duration: editingService.duration.toString(),
           category: editingService.category,
           shop_id: editingService.shop_id,
+          deposit_type: editingService.deposit_type ?? 'none',
+          deposit_value: editingService.deposit_value ? String(editingService.deposit_value) : '',
         });
         // Load existing image if available
         if ('image_url' in editingService && editingService.image_url) {
@@ -66,6 +81,8 @@ export function AddServiceModal({ isOpen, onClose, onServiceSaved, editingServic
           duration: '',
           category: '',
           shop_id: '',
+          deposit_type: 'none',
+          deposit_value: '',
         });
         setImageFile(null);
         setImagePreview(null);
@@ -170,6 +187,17 @@ export function AddServiceModal({ isOpen, onClose, onServiceSaved, editingServic
       return;
     }
 
+    const depositValue = formData.deposit_type === 'none' ? 0 : parseFloat(formData.deposit_value) || 0;
+    const depositError = validateDepositRule({
+      deposit_type: formData.deposit_type,
+      deposit_value: depositValue,
+      price: parseFloat(formData.price),
+    });
+    if (depositError) {
+      setError(depositError);
+      return;
+    }
+
     try {
       setLoading(true);
       setError(null);
@@ -192,6 +220,10 @@ export function AddServiceModal({ isOpen, onClose, onServiceSaved, editingServic
         shop_id: formData.shop_id,
         is_active: true,
         image_url: imageUrl,
+        // Left out when unused so services still save before the deposits setup is run
+        ...(formData.deposit_type !== 'none' || (editingService?.deposit_type ?? 'none') !== 'none'
+          ? { deposit_type: formData.deposit_type, deposit_value: depositValue }
+          : {}),
       };
 
       if (editingService) {
@@ -200,13 +232,25 @@ export function AddServiceModal({ isOpen, onClose, onServiceSaved, editingServic
           .update(serviceData)
           .eq('id', editingService.id);
 
-        if (updateError) throw updateError;
+        if (updateError) {
+          if (isMissingSchemaError(updateError)) throw new Error(DEPOSITS_SETUP_MESSAGE);
+          if (updateError.message?.includes('PERMISSION_DENIED')) {
+            throw new Error("You don't have permission to change service prices");
+          }
+          throw updateError;
+        }
       } else {
         const { error: insertError } = await supabase
           .from('services')
           .insert(serviceData);
 
-        if (insertError) throw insertError;
+        if (insertError) {
+          if (isMissingSchemaError(insertError)) throw new Error(DEPOSITS_SETUP_MESSAGE);
+          if (insertError.message?.includes('PERMISSION_DENIED')) {
+            throw new Error("You don't have permission to set service prices");
+          }
+          throw insertError;
+        }
       }
 
       onServiceSaved();
@@ -302,12 +346,16 @@ export function AddServiceModal({ isOpen, onClose, onServiceSaved, editingServic
                     type="number"
                     value={formData.price}
                     onChange={(e) => setFormData({ ...formData, price: e.target.value })}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                    disabled={priceLocked}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500"
                     placeholder="0.00"
                     step="0.01"
                     min="0"
                     required
                   />
+                  {priceLocked && (
+                    <p className="mt-1 text-xs text-gray-500">Only people who can edit prices can change this</p>
+                  )}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -325,6 +373,46 @@ export function AddServiceModal({ isOpen, onClose, onServiceSaved, editingServic
                 </div>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Booking Deposit
+                </label>
+                <div className="grid grid-cols-2 gap-4">
+                  <select
+                    value={formData.deposit_type}
+                    onChange={(e) => setFormData({ ...formData, deposit_type: e.target.value as DepositType })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                  >
+                    {(Object.keys(DEPOSIT_TYPE_LABELS) as DepositType[]).map((type) => (
+                      <option key={type} value={type}>
+                        {DEPOSIT_TYPE_LABELS[type]}
+                      </option>
+                    ))}
+                  </select>
+                  {formData.deposit_type !== 'none' && (
+                    <input
+                      type="number"
+                      value={formData.deposit_value}
+                      onChange={(e) => setFormData({ ...formData, deposit_value: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                      placeholder={formData.deposit_type === 'percentage' ? '% of price' : 'Amount (₱)'}
+                      step="0.01"
+                      min="0"
+                      max={formData.deposit_type === 'percentage' ? 100 : undefined}
+                    />
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {formData.deposit_type === 'none'
+                    ? 'Clients can book without paying anything up front.'
+                    : `${formatDepositRule({
+                        price: parseFloat(formData.price) || 0,
+                        deposit_type: formData.deposit_type,
+                        deposit_value: parseFloat(formData.deposit_value) || 0,
+                      }) ?? 'A deposit'} is collected when clients book. Bookings stay pending until it's paid.`}
+                </p>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Category <span className="text-red-500">*</span>
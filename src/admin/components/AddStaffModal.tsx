@@ -1,6 +1,9 @@
 import { useState } from 'react';
 import { X, UserPlus, Loader } from 'lucide-react';
-import { supabase } from '../../lib/supabase';
+import { inviteStaff } from '../../api/staffInvites';
+import { glamSuccess } from '../../lib/glamAlerts';
+import { useTenant } from '../../tenant/useTenant';
+import type { OrganizationRole } from '../../types/multiTenancy';
 
 interface AddStaffModalProps {
   isOpen: boolean;
@@ -8,20 +11,24 @@ interface AddStaffModalProps {
   onStaffAdded: () => void;
 }
 
+const EMPTY_FORM = {
+  full_name: '',
+  email: '',
+  phone: '',
+  job_title: '',
+  role: 'staff' as OrganizationRole,
+};
+
 export function AddStaffModal({ isOpen, onClose, onStaffAdded }: AddStaffModalProps) {
-  const [formData, setFormData] = useState({
-    full_name: '',
-    email: '',
-    phone: '',
-    role: 'staff' as 'staff' | 'manager',
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { isAdmin } = useTenant();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.full_name || !formData.email || !formData.phone) {
+    if (!formData.full_name || !formData.email) {
       setError('Please fill in all required fields');
       return;
     }
@@ -30,32 +37,21 @@ export function AddStaffModal({ isOpen, onClose, onStaffAdded }: AddStaffModalPr
       setLoading(true);
       setError(null);
 
-      // Create user account
-      const { data: { user }, error: userError } = await supabase.auth.admin.createUser({
-        email: formData.email,
-        password: Math.random().toString(36).slice(-8) + 'A1!',
-        email_confirm: true,
-      });
-
-      if (userError) throw userError;
-      if (!user) throw new Error('Failed to create user');
-
-      // Create profile
-      const { error: profileError } = await supabase.from('profiles').insert({
-        id: user.id,
-        full_name: formData.full_name,
-        email: formData.email,
-        phone: formData.phone,
+      // The account is created on the server; the invitee sets their own password
+      await inviteStaff({
+        email: formData.email.trim(),
+        name: formData.full_name.trim(),
+        phone: formData.phone.trim() || undefined,
         role: formData.role,
+        job_title: formData.job_title.trim() || undefined,
       });
 
-      if (profileError) throw profileError;
-
+      glamSuccess(`Invite sent to ${formData.email.trim()}`);
       onStaffAdded();
       onClose();
-      setFormData({ full_name: '', email: '', phone: '', role: 'staff' });
+      setFormData(EMPTY_FORM);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to add staff');
+      setError(err instanceof Error ? err.message : 'Failed to invite staff');
     } finally {
       setLoading(false);
     }
@@ -71,7 +67,7 @@ export function AddStaffModal({ isOpen, onClose, onStaffAdded }: AddStaffModalPr
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-2 sm:space-x-3">
               <UserPlus className="w-5 h-5 sm:w-6 sm:h-6" />
-              <h2 className="text-xl sm:text-2xl font-bold">Add New Staff</h2>
+              <h2 className="text-xl sm:text-2xl font-bold">Invite Staff</h2>
             </div>
             <button
               onClick={onClose}
@@ -120,7 +116,7 @@ export function AddStaffModal({ isOpen, onClose, onStaffAdded }: AddStaffModalPr
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Phone <span className="text-red-500">*</span>
+              Phone
             </label>
             <input
               type="tel"
@@ -128,7 +124,19 @@ export function AddStaffModal({ isOpen, onClose, onStaffAdded }: AddStaffModalPr
               onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
               placeholder="Enter phone number"
-              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Job Title
+            </label>
+            <input
+              type="text"
+              value={formData.job_title}
+              onChange={(e) => setFormData({ ...formData, job_title: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+              placeholder="e.g. Senior Stylist"
             />
           </div>
 
@@ -138,12 +146,21 @@ export function AddStaffModal({ isOpen, onClose, onStaffAdded }: AddStaffModalPr
             </label>
             <select
               value={formData.role}
-              onChange={(e) => setFormData({ ...formData, role: e.target.value as 'staff' | 'manager' })}
+              onChange={(e) => setFormData({ ...formData, role: e.target.value as OrganizationRole })}
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
             >
               <option value="staff">Staff</option>
-              <option value="manager">Manager</option>
+              {/* Only admins can hand out manager or admin access */}
+              {isAdmin() && (
+                <>
+                  <option value="manager">Manager</option>
+                  <option value="admin">Admin</option>
+                </>
+              )}
             </select>
+            <p className="text-xs text-gray-500 mt-1">
+              They'll get an email link to set their password and join. The link expires in 7 days.
+            </p>
           </div>
 
           <div className="flex space-x-3 pt-4">
@@ -162,12 +179,12 @@ export function AddStaffModal({ isOpen, onClose, onStaffAdded }: AddStaffModalPr
               {loading ? (
                 <>
                   <Loader className="w-5 h-5 animate-spin" />
-                  <span>Adding...</span>
+                  <span>Sending...</span>
                 </>
               ) : (
                 <>
                   <UserPlus className="w-5 h-5" />
-                  <span>Add Staff</span>
+                  <span>Send Invite</span>
                 </>
               )}
             </button>
@@ -1,9 +1,14 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { X, Calendar, CreditCard, Search, Loader } from 'lucide-react';
 import { getServices } from '../../client/api/services';
 import { getAllClients, type Client } from '../../api/admin';
 import { supabase } from '../../lib/supabase';
+import { getAvailableSlots, getBookingEndAt, isSlotAvailable, type AvailabilitySlot } from '../../api/availability';
+import { createBookingSeries } from '../../api/recurringBookings';
+import { RecurrencePicker } from '../../components/RecurrencePicker';
+import { formatOccurrenceList, formatRecurrenceRule } from '../../utils/recurrence';
 import type { Service } from '../../client/types';
+import type { RecurrenceRule } from '../../types/multiTenancy';
 
 interface AdminBookingModalProps {
   isOpen: boolean;
@@ -21,9 +26,18 @@ export function AdminBookingModal({ isOpen, onClose, onBookingComplete }: AdminB
   const [selectedService, setSelectedService] = useState<Service | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [selectedTime, setSelectedTime] = useState<string>('');
+  const [timeSlots, setTimeSlots] = useState<AvailabilitySlot[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
   const [clientSearch, setClientSearch] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null); // null = one-off
+  const [skippedDates, setSkippedDates] = useState<Date[]>([]);
+
+  const firstStart = useMemo(
+    () => timeSlots.find(slot => slot.time === selectedTime)?.start ?? null,
+    [timeSlots, selectedTime]
+  );
 
   useEffect(() => {
     if (isOpen) {
@@ -33,6 +47,38 @@ export function AdminBookingModal({ isOpen, onClose, onBookingComplete }: AdminB
     }
   }, [isOpen]);
 
+  // Reload duration-aware availability whenever the service or date changes
+  useEffect(() => {
+    if (!selectedService || !selectedDate) {
+      setTimeSlots([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadSlots = async () => {
+      try {
+        setLoadingSlots(true);
+        const slots = await getAvailableSlots({
+          shopId: selectedService.shop_id,
+          date: selectedDate,
+          durationMinutes: selectedService.duration,
+          serviceId: selectedService.id,
+        });
+        if (!cancelled) setTimeSlots(slots);
+      } catch (err) {
+        console.error('Error loading availability:', err);
+        if (!cancelled) setTimeSlots([]);
+      } finally {
+        if (!cancelled) setLoadingSlots(false);
+      }
+    };
+
+    loadSlots();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedService, selectedDate]);
+
   const resetForm = () => {
     setStep('client');
     setSelectedClient(null);
@@ -41,6 +87,8 @@ export function AdminBookingModal({ isOpen, onClose, onBookingComplete }: AdminB
     setSelectedTime('');
     setClientSearch('');
     setError(null);
+    setRecurrence(null);
+    setSkippedDates([]);
   };
 
   const loadData = async () => {
@@ -62,16 +110,6 @@ export function AdminBookingModal({ isOpen, onClose, onBookingComplete }: AdminB
     client.phone?.toLowerCase().includes(clientSearch.toLowerCase())
   );
 
-  const generateTimeSlots = (): string[] => {
-    const slots: string[] = [];
-    for (let hour = 9; hour <= 18; hour++) {
-      for (let minute = 0; minute < 60; minute += 30) {
-        slots.push(`${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`);
-      }
-    }
-    return slots;
-  };
-
   const handleClientSelect = (client: Client) => {
     setSelectedClient(client);
     setStep('service');
@@ -96,6 +134,31 @@ export function AdminBookingModal({ isOpen, onClose, onBookingComplete }: AdminB
       const dateTime = new Date(selectedDate);
       dateTime.setHours(hours, minutes, 0, 0);
 
+      if (recurrence) {
+        const { skipped } = await createBookingSeries({
+          clientId: selectedClient.id,
+          shopId: selectedService.shop_id,
+          serviceId: selectedService.id,
+          durationMinutes: selectedService.duration,
+          first: dateTime,
+          rule: recurrence,
+          status: 'confirmed',
+        });
+        setSkippedDates(skipped);
+        setStep('complete');
+        return;
+      }
+
+      const stillAvailable = await isSlotAvailable({
+        shopId: selectedService.shop_id,
+        start: dateTime,
+        durationMinutes: selectedService.duration,
+        serviceId: selectedService.id,
+      });
+      if (!stillAvailable) {
+        throw new Error('This time slot is no longer available. Please select another time.');
+      }
+
       const { error: bookingError } = await supabase
         .from('bookings')
         .insert({
@@ -103,6 +166,7 @@ export function AdminBookingModal({ isOpen, onClose, onBookingComplete }: AdminB
           service_id: selectedService.id,
           shop_id: selectedService.shop_id,
           start_at: dateTime.toISOString(),
+          end_at: getBookingEndAt(dateTime, selectedService.duration),
           status: 'confirmed',
         });
 
@@ -118,7 +182,6 @@ export function AdminBookingModal({ isOpen, onClose, onBookingComplete }: AdminB
 
   if (!isOpen) return null;
 
-  const timeSlots = generateTimeSlots();
   const today = new Date();
   today.setHours(0, 0, 0, 0);
 
@@ -255,7 +318,10 @@ export function AdminBookingModal({ isOpen, onClose, onBookingComplete }: AdminB
                     return (
                       <button
                         key={i}
-                        onClick={() => setSelectedDate(date)}
+                        onClick={() => {
+                          setSelectedDate(date);
+                          setSelectedTime('');
+                        }}
                         className={`p-3 rounded-lg border-2 transition-all ${
                           isSelected
                             ? 'border-pink-500 bg-pink-50'
@@ -276,23 +342,47 @@ export function AdminBookingModal({ isOpen, onClose, onBookingComplete }: AdminB
               </div>
 
               <div>
-                <h3 className="text-lg font-semibold text-gray-900 mb-4">Select Time</h3>
-                <div className="grid grid-cols-4 gap-2">
-                  {timeSlots.map((time) => (
-                    <button
-                      key={time}
-                      onClick={() => setSelectedTime(time)}
-                      className={`p-3 rounded-lg border-2 transition-all ${
-                        selectedTime === time
-                          ? 'border-pink-500 bg-pink-50 text-pink-600'
-                          : 'border-gray-200 hover:border-pink-300 text-gray-700'
-                      }`}
-                    >
-                      {time}
-                    </button>
-                  ))}
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900">Select Time</h3>
+                  {loadingSlots && <span className="text-sm text-gray-500">Checking availability...</span>}
                 </div>
+                {!selectedDate ? (
+                  <p className="text-sm text-gray-500">Select a date to see available times.</p>
+                ) : !loadingSlots && timeSlots.length === 0 ? (
+                  <p className="text-sm text-gray-500">No openings for a {selectedService.duration}-minute appointment on this date.</p>
+                ) : (
+                  <div className="grid grid-cols-4 gap-2">
+                    {timeSlots.map((slot) => (
+                      <button
+                        key={slot.time}
+                        onClick={() => slot.available && setSelectedTime(slot.time)}
+                        disabled={!slot.available}
+                        title={!slot.available ? 'No stylist is free for the full service duration' : ''}
+                        className={`p-3 rounded-lg border-2 transition-all ${
+                          selectedTime === slot.time
+                            ? 'border-pink-500 bg-pink-50 text-pink-600'
+                            : slot.available
+                            ? 'border-gray-200 hover:border-pink-300 text-gray-700'
+                            : 'border-gray-100 bg-gray-50 text-gray-300 cursor-not-allowed'
+                        }`}
+                      >
+                        {slot.time}
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
+
+              {selectedDate && selectedTime && (
+                <RecurrencePicker
+                  rule={recurrence}
+                  onChange={setRecurrence}
+                  shopId={selectedService.shop_id}
+                  serviceId={selectedService.id}
+                  durationMinutes={selectedService.duration}
+                  first={firstStart}
+                />
+              )}
             </div>
           )}
 
@@ -303,7 +393,14 @@ export function AdminBookingModal({ isOpen, onClose, onBookingComplete }: AdminB
               </div>
               <h3 className="text-2xl font-bold text-gray-900 mb-2">Booking Created!</h3>
               <p className="text-gray-600 mb-6">
-                The booking has been successfully created for {selectedClient?.full_name}.
+                {recurrence
+                  ? `A recurring series (${formatRecurrenceRule(recurrence).toLowerCase()}) has been created for ${selectedClient?.full_name}.`
+                  : `The booking has been successfully created for ${selectedClient?.full_name}.`}
+                {skippedDates.length > 0 && (
+                  <span className="block mt-2 text-sm text-orange-700">
+                    Skipped unavailable dates: {formatOccurrenceList(skippedDates)}
+                  </span>
+                )}
               </p>
               <button
                 onClick={() => {
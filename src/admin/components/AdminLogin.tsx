@@ -41,7 +41,8 @@ export function AdminLogin({ onLoginSuccess, onClientLogin, onBackToLanding, onN
     }
 
     try {
-      const { error: otpError } = await sendOTP(email, password);
+      // The password stays in memory until the code is verified
+      const { error: otpError } = await sendOTP(email);
       
       if (otpError) {
         const errorMessage = otpError.message || 'Unknown error';
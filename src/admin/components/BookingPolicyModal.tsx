@@ -0,0 +1,191 @@
+import { useState, useEffect } from 'react';
+import { X, ShieldCheck } from 'lucide-react';
+import { getMyBookingPolicy, updateBookingPolicy } from '../../api/bookingPolicy';
+import { glamError, glamSuccess } from '../../lib/glamAlerts';
+import type { BookingPolicy } from '../../types/multiTenancy';
+
+interface BookingPolicyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Organization-wide rules for changing, cancelling and missing appointments
+export function BookingPolicyModal({ isOpen, onClose }: BookingPolicyModalProps) {
+  const [policy, setPolicy] = useState<BookingPolicy | null>(null);
+  const [limitReschedules, setLimitReschedules] = useState(false);
+  const [requirePrepay, setRequirePrepay] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    getMyBookingPolicy().then(data => {
+      setPolicy(data);
+      setLimitReschedules(data.max_reschedules !== null);
+      setRequirePrepay(data.prepay_after_no_shows !== null);
+    });
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleSave = async () => {
+    if (!policy) return;
+    setSaving(true);
+    try {
+      await updateBookingPolicy({
+        ...policy,
+        max_reschedules: limitReschedules ? policy.max_reschedules ?? 1 : null,
+        prepay_after_no_shows: requirePrepay ? policy.prepay_after_no_shows ?? 2 : null,
+      });
+      glamSuccess('Booking policy saved');
+      onClose();
+    } catch (error) {
+      glamError(error instanceof Error ? error.message : 'Failed to save booking policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-md w-full">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-pink-500" />
+            <h2 className="text-xl font-bold text-gray-900">Booking Policy</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        {!policy ? (
+          <div className="flex items-center justify-center h-40">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-pink-500"></div>
+          </div>
+        ) : (
+          <div className="p-6 space-y-5 max-h-[70vh] overflow-y-auto">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Reschedule cutoff (hours before appointment)
+              </label>
+              <input
+                type="number"
+                min="0"
+                value={policy.reschedule_cutoff_hours}
+                onChange={(e) => setPolicy({ ...policy, reschedule_cutoff_hours: Math.max(0, Number(e.target.value) || 0) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Clients and staff can't move appointments closer than this. Admins and managers can override. Set 0 to allow changes any time.
+              </p>
+            </div>
+
+            <div>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={limitReschedules}
+                  onChange={(e) => setLimitReschedules(e.target.checked)}
+                  className="w-4 h-4 text-pink-600 border-gray-300 rounded focus:ring-pink-500"
+                />
+                <span className="text-sm font-medium text-gray-700">Limit reschedules per appointment</span>
+              </label>
+              {limitReschedules && (
+                <input
+                  type="number"
+                  min="0"
+                  value={policy.max_reschedules ?? 1}
+                  onChange={(e) => setPolicy({ ...policy, max_reschedules: Math.max(0, Number(e.target.value) || 0) })}
+                  className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                />
+              )}
+            </div>
+
+            <div className="pt-4 border-t border-gray-100">
+              <h3 className="text-sm font-semibold text-gray-900 mb-3">Cancellations & No-shows</h3>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Late cancellation window (hours before appointment)
+              </label>
+              <input
+                type="number"
+                min="0"
+                value={policy.cancellation_cutoff_hours}
+                onChange={(e) => setPolicy({ ...policy, cancellation_cutoff_hours: Math.max(0, Number(e.target.value) || 0) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Client cancellations inside this window count as late. Set 0 to never charge for cancelling.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Late cancel fee (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={policy.late_cancel_fee_percent}
+                  onChange={(e) => setPolicy({ ...policy, late_cancel_fee_percent: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">No-show fee (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={policy.no_show_fee_percent}
+                  onChange={(e) => setPolicy({ ...policy, no_show_fee_percent: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 -mt-3">Fees are a percentage of the service price.</p>
+
+            <div>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={requirePrepay}
+                  onChange={(e) => setRequirePrepay(e.target.checked)}
+                  className="w-4 h-4 text-pink-600 border-gray-300 rounded focus:ring-pink-500"
+                />
+                <span className="text-sm font-medium text-gray-700">Require prepayment after repeated no-shows</span>
+              </label>
+              {requirePrepay && (
+                <>
+                  <input
+                    type="number"
+                    min="1"
+                    value={policy.prepay_after_no_shows ?? 2}
+                    onChange={(e) => setPolicy({ ...policy, prepay_after_no_shows: Math.max(1, Number(e.target.value) || 1) })}
+                    className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Clients with this many no-shows are flagged as prepay required.</p>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!policy || saving}
+            className="px-4 py-2 bg-pink-500 hover:bg-pink-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Policy'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
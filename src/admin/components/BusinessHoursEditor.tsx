@@ -0,0 +1,254 @@
+import { useState } from 'react';
+import { Plus, Trash2, CalendarOff } from 'lucide-react';
+import { WEEKDAYS, WEEKDAY_LABELS, formatIntervals } from '../../utils/businessHours';
+import type { OpeningInterval, ShopClosureKind, Weekday, WeeklySchedule } from '../../types/multiTenancy';
+
+// A closure that may not be saved yet (no id until the branch is saved)
+export interface ClosureDraft {
+  id?: string;
+  start_date: string;
+  end_date: string;
+  kind: ShopClosureKind;
+  reason: string | null;
+  hours: OpeningInterval[] | null;
+}
+
+interface BusinessHoursEditorProps {
+  schedule: WeeklySchedule;
+  onChange: (schedule: WeeklySchedule) => void;
+}
+
+export function BusinessHoursEditor({ schedule, onChange }: BusinessHoursEditorProps) {
+  const updateDay = (day: Weekday, intervals: OpeningInterval[]) => {
+    onChange({ ...schedule, [day]: intervals });
+  };
+
+  const updateInterval = (day: Weekday, index: number, field: keyof OpeningInterval, value: string) => {
+    updateDay(day, schedule[day].map((interval, i) => (i === index ? { ...interval, [field]: value } : interval)));
+  };
+
+  const addInterval = (day: Weekday) => {
+    const last = schedule[day][schedule[day].length - 1];
+    // A split shift starts where the previous block closes
+    const next = last
+      ? { open: last.close, close: last.close < '20:00' ? '20:00' : '23:00' }
+      : { open: '09:00', close: '18:00' };
+    updateDay(day, [...schedule[day], next]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {WEEKDAYS.map((day) => {
+        const intervals = schedule[day];
+        const isClosed = intervals.length === 0;
+        return (
+          <div key={day} className="flex flex-col sm:flex-row sm:items-start gap-2 py-2 border-b border-gray-100 last:border-0">
+            <div className="sm:w-28 sm:pt-2">
+              <span className="text-sm font-medium text-gray-700">{WEEKDAY_LABELS[day]}</span>
+            </div>
+            <div className="flex-1 space-y-2">
+              {isClosed ? (
+                <p className="text-sm text-gray-400 sm:pt-2">Closed</p>
+              ) : (
+                intervals.map((interval, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      type="time"
+                      value={interval.open}
+                      onChange={(e) => updateInterval(day, index, 'open', e.target.value)}
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                    />
+                    <span className="text-gray-400 text-sm">to</span>
+                    <input
+                      type="time"
+                      value={interval.close}
+                      onChange={(e) => updateInterval(day, index, 'close', e.target.value)}
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => updateDay(day, intervals.filter((_, i) => i !== index))}
+                      className="p-1 text-red-500 hover:bg-red-50 rounded"
+                      title="Remove hours"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+            <div className="flex items-center gap-2 sm:pt-1">
+              <button
+                type="button"
+                onClick={() => addInterval(day)}
+                className="p-1 text-pink-600 hover:bg-pink-50 rounded"
+                title={isClosed ? 'Open this day' : 'Add split shift'}
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+interface ClosuresEditorProps {
+  closures: ClosureDraft[];
+  onAdd: (closure: ClosureDraft) => void;
+  onRemove: (index: number) => void;
+}
+
+export function ClosuresEditor({ closures, onAdd, onRemove }: ClosuresEditorProps) {
+  const today = new Date().toISOString().split('T')[0];
+  const [draft, setDraft] = useState({
+    start_date: '',
+    end_date: '',
+    kind: 'holiday' as ShopClosureKind,
+    reason: '',
+    specialHours: false,
+    open: '10:00',
+    close: '15:00',
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    if (!draft.start_date) {
+      setError('Please select a date');
+      return;
+    }
+    const endDate = draft.end_date || draft.start_date;
+    if (endDate < draft.start_date) {
+      setError('End date cannot be before start date');
+      return;
+    }
+    if (draft.specialHours && draft.close <= draft.open) {
+      setError('Closing time must be after opening time');
+      return;
+    }
+
+    onAdd({
+      start_date: draft.start_date,
+      end_date: endDate,
+      kind: draft.kind,
+      reason: draft.reason || null,
+      hours: draft.specialHours ? [{ open: draft.open, close: draft.close }] : null,
+    });
+    setDraft({ ...draft, start_date: '', end_date: '', reason: '', specialHours: false });
+    setError(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      {closures.length === 0 ? (
+        <p className="text-sm text-gray-500">No holidays or special closures scheduled.</p>
+      ) : (
+        <div className="space-y-2">
+          {closures.map((closure, index) => (
+            <div key={closure.id || `draft-${index}`} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
+              <div className="flex items-center space-x-2 min-w-0">
+                <CalendarOff className="w-4 h-4 text-pink-500 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {closure.start_date}
+                    {closure.end_date !== closure.start_date && ` → ${closure.end_date}`}
+                    <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-pink-100 text-pink-700 capitalize">{closure.kind}</span>
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {closure.reason || 'No reason given'} · {closure.hours ? formatIntervals(closure.hours) : 'Closed all day'}
+                  </p>
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => onRemove(index)}
+                className="p-1 text-red-500 hover:bg-red-50 rounded"
+                title="Remove"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="p-3 border border-dashed border-pink-300 rounded-lg space-y-2">
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">From</label>
+            <input
+              type="date"
+              min={today}
+              value={draft.start_date}
+              onChange={(e) => setDraft({ ...draft, start_date: e.target.value })}
+              className="w-full px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">To (optional)</label>
+            <input
+              type="date"
+              min={draft.start_date || today}
+              value={draft.end_date}
+              onChange={(e) => setDraft({ ...draft, end_date: e.target.value })}
+              className="w-full px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={draft.kind}
+            onChange={(e) => setDraft({ ...draft, kind: e.target.value as ShopClosureKind })}
+            className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+          >
+            <option value="holiday">Public holiday</option>
+            <option value="closure">Special closure</option>
+          </select>
+          <input
+            type="text"
+            value={draft.reason}
+            onChange={(e) => setDraft({ ...draft, reason: e.target.value })}
+            placeholder="Reason (e.g., Christmas Day)"
+            className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+          />
+        </div>
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={draft.specialHours}
+            onChange={(e) => setDraft({ ...draft, specialHours: e.target.checked })}
+            className="w-4 h-4 text-pink-600 border-gray-300 rounded focus:ring-pink-500"
+          />
+          <span className="text-xs text-gray-700">Open with special hours instead of closing</span>
+        </label>
+        {draft.specialHours && (
+          <div className="flex items-center gap-2">
+            <input
+              type="time"
+              value={draft.open}
+              onChange={(e) => setDraft({ ...draft, open: e.target.value })}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+            />
+            <span className="text-gray-400 text-sm">to</span>
+            <input
+              type="time"
+              value={draft.close}
+              onChange={(e) => setDraft({ ...draft, close: e.target.value })}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+            />
+          </div>
+        )}
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="w-full px-3 py-1.5 bg-pink-50 text-pink-600 rounded-lg text-sm font-medium hover:bg-pink-100 transition-colors flex items-center justify-center space-x-1"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Closure</span>
+        </button>
+      </div>
+    </div>
+  );
+}
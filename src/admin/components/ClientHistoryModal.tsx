@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react';
-import { X, Calendar, Clock, MapPin, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
+import { X, Calendar, Clock, MapPin, CheckCircle, XCircle, AlertCircle, UserX } from 'lucide-react';
 import { getClientBookings } from '../../api/clientBookings';
+import { getMyBookingPolicy } from '../../api/bookingPolicy';
+import { formatBookingStatus, requiresPrepayment } from '../../utils/bookingPolicy';
+import type { BookingPolicy } from '../../types/multiTenancy';
 import type { AppointmentWithDetails } from '../../api/admin';
 import type { Client } from '../../api/admin';
 
@@ -12,6 +15,7 @@ interface ClientHistoryModalProps {
 
 export function ClientHistoryModal({ client, isOpen, onClose }: ClientHistoryModalProps) {
   const [bookings, setBookings] = useState<(AppointmentWithDetails & { shop_name?: string; shop_address?: string })[]>([]);
+  const [policy, setPolicy] = useState<BookingPolicy | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -23,8 +27,9 @@ export function ClientHistoryModal({ client, isOpen, onClose }: ClientHistoryMod
   const loadBookings = async () => {
     setLoading(true);
     try {
-      const data = await getClientBookings(client.id);
+      const [data, policyData] = await Promise.all([getClientBookings(client.id), getMyBookingPolicy()]);
       setBookings(data);
+      setPolicy(policyData);
     } catch (error) {
       console.error('Error loading client bookings:', error);
     } finally {
@@ -38,6 +43,7 @@ export function ClientHistoryModal({ client, isOpen, onClose }: ClientHistoryMod
       case 'pending': return 'bg-yellow-100 text-yellow-700 border-yellow-200';
       case 'completed': return 'bg-blue-100 text-blue-700 border-blue-200';
       case 'cancelled': return 'bg-red-100 text-red-700 border-red-200';
+      case 'no_show': return 'bg-gray-200 text-gray-800 border-gray-300';
       default: return 'bg-gray-100 text-gray-700 border-gray-200';
     }
   };
@@ -47,6 +53,7 @@ export function ClientHistoryModal({ client, isOpen, onClose }: ClientHistoryMod
       case 'confirmed': return <CheckCircle className="w-4 h-4" />;
       case 'completed': return <CheckCircle className="w-4 h-4" />;
       case 'cancelled': return <XCircle className="w-4 h-4" />;
+      case 'no_show': return <UserX className="w-4 h-4" />;
       default: return <AlertCircle className="w-4 h-4" />;
     }
   };
@@ -75,6 +82,11 @@ export function ClientHistoryModal({ client, isOpen, onClose }: ClientHistoryMod
     }).format(amount);
   };
 
+  const noShows = bookings.filter(b => b.status === 'no_show').length;
+  const lateCancellations = bookings.filter(b => b.status === 'cancelled' && b.late_cancellation).length;
+  const salonCancellations = bookings.filter(b => b.status === 'cancelled' && b.cancelled_by === 'salon').length;
+  const feesCharged = bookings.reduce((sum, b) => sum + (Number(b.cancellation_fee) || 0), 0);
+
   if (!isOpen) return null;
 
   return (
@@ -108,6 +120,31 @@ export function ClientHistoryModal({ client, isOpen, onClose }: ClientHistoryMod
             </div>
           ) : (
             <div className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+                  <p className="text-xs text-gray-500">No-shows</p>
+                  <p className="text-xl font-bold text-gray-900">{noShows}</p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+                  <p className="text-xs text-gray-500">Late cancellations</p>
+                  <p className="text-xl font-bold text-gray-900">{lateCancellations}</p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+                  <p className="text-xs text-gray-500">Cancelled by salon</p>
+                  <p className="text-xl font-bold text-gray-900">{salonCancellations}</p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+                  <p className="text-xs text-gray-500">Fees charged</p>
+                  <p className="text-xl font-bold text-gray-900">{formatCurrency(feesCharged)}</p>
+                </div>
+              </div>
+              {policy && requiresPrepayment(policy, noShows) && (
+                <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                  <span>Prepayment required: this client has {noShows} no-shows (policy limit {policy.prepay_after_no_shows}).</span>
+                </div>
+              )}
+
               {bookings.map((booking) => (
                 <div
                   key={booking.id}
@@ -121,8 +158,14 @@ export function ClientHistoryModal({ client, isOpen, onClose }: ClientHistoryMod
                       <div className="flex items-center gap-2 mb-2">
                         <span className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold border ${getStatusColor(booking.status)}`}>
                           {getStatusIcon(booking.status)}
-                          <span className="capitalize">{booking.status}</span>
+                          <span className="capitalize">{formatBookingStatus(booking.status)}</span>
                         </span>
+                        {booking.status === 'cancelled' && booking.cancelled_by && (
+                          <span className="text-xs text-gray-500">
+                            by {booking.cancelled_by === 'salon' ? 'salon' : 'client'}
+                            {booking.late_cancellation && ' (late)'}
+                          </span>
+                        )}
                       </div>
                     </div>
                     <div className="text-right">
@@ -152,6 +195,15 @@ export function ClientHistoryModal({ client, isOpen, onClose }: ClientHistoryMod
                     )}
                   </div>
 
+                  {(booking.cancellation_reason || Number(booking.cancellation_fee) > 0) && (
+                    <div className="mt-3 pt-3 border-t border-gray-100 text-sm text-gray-600">
+                      {booking.cancellation_reason && <p>Reason: {booking.cancellation_reason}</p>}
+                      {Number(booking.cancellation_fee) > 0 && (
+                        <p className="text-red-600">Fee: {formatCurrency(Number(booking.cancellation_fee))}</p>
+                      )}
+                    </div>
+                  )}
+
                   {booking.notes && (
                     <div className="mt-3 pt-3 border-t border-gray-100">
                       <p className="text-sm text-gray-600 italic">"{booking.notes}"</p>
@@ -0,0 +1,374 @@
+import { useEffect, useMemo, useState } from 'react';
+import { X, Gift, Loader, Copy, Search } from 'lucide-react';
+import { getGiftCards, getGiftCardTransactions, issueGiftCard } from '../../api/giftCards';
+import { TENDER_LABELS } from '../../utils/checkout';
+import { toDateKey } from '../../utils/businessHours';
+import { glamError, glamSuccess } from '../../lib/glamAlerts';
+import type { GiftCard, GiftCardTransaction, GiftCardTransactionKind, TenderMethod } from '../../types/multiTenancy';
+
+interface GiftCardsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type SaleMethod = Exclude<TenderMethod, 'gift_card'>;
+
+const PRESET_AMOUNTS = [500, 1000, 2000, 5000];
+const SALE_METHODS: SaleMethod[] = ['cash', 'card', 'gcash', 'maya'];
+
+const TRANSACTION_LABELS: Record<GiftCardTransactionKind, string> = {
+  issue: 'Issued',
+  redeem: 'Redeemed',
+  refund: 'Refunded to card',
+  void: 'Voided',
+};
+
+function getDefaultExpiry() {
+  const date = new Date();
+  date.setFullYear(date.getFullYear() + 1);
+  return toDateKey(date);
+}
+
+const EMPTY_FORM = {
+  amount: '',
+  saleMethod: 'cash' as SaleMethod,
+  expiresOn: '',
+  recipientName: '',
+  recipientEmail: '',
+  message: '',
+};
+
+const formatMoney = (amount: number) => `₱${amount.toLocaleString('en-PH', { minimumFractionDigits: 2 })}`;
+
+export function GiftCardsModal({ isOpen, onClose }: GiftCardsModalProps) {
+  const [tab, setTab] = useState<'sell' | 'cards'>('sell');
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [issued, setIssued] = useState<GiftCard | null>(null);
+  const [cards, setCards] = useState<GiftCard[]>([]);
+  const [loadingCards, setLoadingCards] = useState(false);
+  const [search, setSearch] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [ledger, setLedger] = useState<GiftCardTransaction[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setTab('sell');
+    setFormData({ ...EMPTY_FORM, expiresOn: getDefaultExpiry() });
+    setIssued(null);
+    setSearch('');
+    setExpandedId(null);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen || tab !== 'cards') return;
+    let cancelled = false;
+    setLoadingCards(true);
+    getGiftCards()
+      .then(data => {
+        if (!cancelled) setCards(data);
+      })
+      .catch(error => {
+        console.error('Error loading gift cards:', error);
+        if (!cancelled) glamError(error instanceof Error ? error.message : 'Failed to load gift cards');
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingCards(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, tab]);
+
+  const filteredCards = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return cards;
+    return cards.filter(card =>
+      card.code.toLowerCase().includes(query)
+      || card.recipient_name?.toLowerCase().includes(query)
+      || card.recipient_email?.toLowerCase().includes(query)
+    );
+  }, [cards, search]);
+
+  if (!isOpen) return null;
+
+  const handleSell = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      const card = await issueGiftCard({
+        amount: parseFloat(formData.amount),
+        saleMethod: formData.saleMethod,
+        // Valid through the end of the chosen day
+        expiresAt: formData.expiresOn ? new Date(`${formData.expiresOn}T23:59:59`).toISOString() : null,
+        recipientName: formData.recipientName,
+        recipientEmail: formData.recipientEmail,
+        message: formData.message,
+      });
+      setIssued(card);
+      setFormData({ ...EMPTY_FORM, expiresOn: getDefaultExpiry() });
+    } catch (error) {
+      console.error('Error selling gift card:', error);
+      glamError(error instanceof Error ? error.message : 'Failed to sell gift card');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopy = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(code);
+      glamSuccess('Code copied');
+    } catch {
+      glamError('Could not copy the code');
+    }
+  };
+
+  const toggleLedger = async (cardId: string) => {
+    if (expandedId === cardId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(cardId);
+    setLedger([]);
+    try {
+      setLedger(await getGiftCardTransactions(cardId));
+    } catch (error) {
+      console.error('Error loading gift card history:', error);
+      glamError(error instanceof Error ? error.message : 'Failed to load gift card history');
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-2 sm:p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[95vh] sm:max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-pink-500 to-purple-500 p-4 sm:p-6 text-white rounded-t-2xl flex-shrink-0">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2 sm:space-x-3">
+              <Gift className="w-5 h-5 sm:w-6 sm:h-6" />
+              <h2 className="text-xl sm:text-2xl font-bold">Gift Cards</h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 sm:w-6 sm:h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 sm:p-6 overflow-y-auto flex-1 space-y-4">
+          <div className="grid grid-cols-2 gap-2 p-1 bg-gray-100 rounded-lg">
+            {(['sell', 'cards'] as const).map(value => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setTab(value)}
+                className={`py-2 rounded-md text-sm font-medium transition-colors ${
+                  tab === value ? 'bg-white text-pink-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {value === 'sell' ? 'Sell' : 'Look Up'}
+              </button>
+            ))}
+          </div>
+
+          {tab === 'sell' ? (
+            <>
+              {issued && (
+                <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+                  <p className="text-sm text-green-800">
+                    {formatMoney(issued.initial_balance)} gift card issued{issued.recipient_name ? ` for ${issued.recipient_name}` : ''}
+                  </p>
+                  <div className="mt-2 flex items-center gap-2">
+                    <span className="font-mono text-lg font-bold text-gray-900">{issued.code}</span>
+                    <button
+                      type="button"
+                      onClick={() => handleCopy(issued.code)}
+                      className="p-1.5 text-green-700 hover:bg-green-100 rounded-lg"
+                      aria-label="Copy code"
+                    >
+                      <Copy className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              <form onSubmit={handleSell} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Amount (₱) *</label>
+                  <div className="flex flex-wrap gap-2 mb-2">
+                    {PRESET_AMOUNTS.map(amount => (
+                      <button
+                        key={amount}
+                        type="button"
+                        onClick={() => setFormData(prev => ({ ...prev, amount: amount.toString() }))}
+                        className={`px-3 py-1.5 rounded-lg border text-sm font-medium transition-colors ${
+                          formData.amount === amount.toString()
+                            ? 'border-pink-500 bg-pink-50 text-pink-600'
+                            : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        ₱{amount.toLocaleString()}
+                      </button>
+                    ))}
+                  </div>
+                  <input
+                    type="number"
+                    min="1"
+                    step="0.01"
+                    required
+                    value={formData.amount}
+                    onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+                    className={inputClass}
+                    placeholder="Or enter an amount"
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Paid With *</label>
+                    <select
+                      value={formData.saleMethod}
+                      onChange={(e) => setFormData(prev => ({ ...prev, saleMethod: e.target.value as SaleMethod }))}
+                      className={inputClass}
+                    >
+                      {SALE_METHODS.map(method => (
+                        <option key={method} value={method}>{TENDER_LABELS[method]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Expires On</label>
+                    <input
+                      type="date"
+                      value={formData.expiresOn}
+                      min={toDateKey(new Date())}
+                      onChange={(e) => setFormData(prev => ({ ...prev, expiresOn: e.target.value }))}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Recipient Name</label>
+                    <input
+                      type="text"
+                      value={formData.recipientName}
+                      onChange={(e) => setFormData(prev => ({ ...prev, recipientName: e.target.value }))}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Recipient Email</label>
+                    <input
+                      type="email"
+                      value={formData.recipientEmail}
+                      onChange={(e) => setFormData(prev => ({ ...prev, recipientEmail: e.target.value }))}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Message</label>
+                  <textarea
+                    rows={2}
+                    value={formData.message}
+                    onChange={(e) => setFormData(prev => ({ ...prev, message: e.target.value }))}
+                    className={inputClass}
+                  />
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={saving || !formData.amount}
+                  className="w-full px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-500 text-white rounded-lg font-medium hover:from-pink-600 hover:to-purple-600 transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+                >
+                  {saving && <Loader className="w-4 h-4 animate-spin" />}
+                  Sell Gift Card
+                </button>
+              </form>
+            </>
+          ) : (
+            <>
+              <div className="relative">
+                <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search by code or recipient"
+                  className="w-full pl-9 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                />
+              </div>
+
+              {loadingCards ? (
+                <div className="flex items-center justify-center py-12">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-pink-500"></div>
+                </div>
+              ) : filteredCards.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-12">No gift cards found</p>
+              ) : (
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                  {filteredCards.map(card => {
+                    const expired = !!card.expires_at && new Date(card.expires_at) < new Date();
+                    return (
+                      <div key={card.id}>
+                        <button
+                          type="button"
+                          onClick={() => toggleLedger(card.id)}
+                          className="w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-gray-50"
+                        >
+                          <div className="flex-1 min-w-0">
+                            <p className="font-mono text-sm font-semibold text-gray-900">{card.code}</p>
+                            <p className="text-xs text-gray-500 truncate">
+                              {card.recipient_name || 'No recipient'}
+                              {card.expires_at ? ` · expires ${new Date(card.expires_at).toLocaleDateString()}` : ''}
+                            </p>
+                          </div>
+                          <div className="text-right">
+                            <p className="text-sm font-semibold text-gray-900">{formatMoney(card.balance)}</p>
+                            <p className={`text-xs ${card.status === 'void' || expired ? 'text-red-500' : 'text-gray-500'}`}>
+                              {card.status === 'void' ? 'Void' : expired ? 'Expired' : `of ${formatMoney(card.initial_balance)}`}
+                            </p>
+                          </div>
+                        </button>
+                        {expandedId === card.id && (
+                          <div className="px-3 pb-3">
+                            {ledger.length === 0 ? (
+                              <p className="text-xs text-gray-500">Loading…</p>
+                            ) : (
+                              <table className="w-full text-xs">
+                                <tbody className="divide-y divide-gray-50">
+                                  {ledger.map(entry => (
+                                    <tr key={entry.id} className="text-gray-600">
+                                      <td className="py-1">{new Date(entry.created_at).toLocaleString()}</td>
+                                      <td className="py-1">{TRANSACTION_LABELS[entry.kind]}</td>
+                                      <td className={`py-1 text-right ${entry.amount < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                        {entry.amount < 0 ? '−' : '+'}{formatMoney(Math.abs(entry.amount))}
+                                      </td>
+                                      <td className="py-1 text-right">{formatMoney(entry.balance_after)}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
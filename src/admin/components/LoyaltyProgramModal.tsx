@@ -0,0 +1,235 @@
+import { useState, useEffect } from 'react';
+import { X, Award, Loader } from 'lucide-react';
+import { saveLoyaltyProgram } from '../../api/loyalty';
+import { LOYALTY_TIER_NAMES, validateLoyaltyProgram } from '../../utils/loyalty';
+import type { LoyaltyProgram, LoyaltyTierName } from '../../types/multiTenancy';
+
+interface LoyaltyProgramModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onProgramSaved: () => void;
+  program: LoyaltyProgram;
+}
+
+type TierForm = Record<LoyaltyTierName, { min_points: string; perks: string }>;
+
+const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent';
+
+export function LoyaltyProgramModal({ isOpen, onClose, onProgramSaved, program }: LoyaltyProgramModalProps) {
+  const [isActive, setIsActive] = useState(true);
+  const [pointsPer100, setPointsPer100] = useState('');
+  const [pointValue, setPointValue] = useState('');
+  const [minRedeem, setMinRedeem] = useState('');
+  const [expireDays, setExpireDays] = useState('');
+  const [tiers, setTiers] = useState<TierForm | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    setIsActive(program.is_active);
+    setPointsPer100(String(Math.round(program.points_per_peso * 100 * 1000) / 1000));
+    setPointValue(String(program.peso_per_point));
+    setMinRedeem(String(program.min_redeem_points));
+    setExpireDays(program.points_expire_days?.toString() || '');
+    setTiers(Object.fromEntries(LOYALTY_TIER_NAMES.map(name => {
+      const tier = program.tiers.find(t => t.tier === name);
+      return [name, { min_points: String(tier?.min_points ?? 0), perks: (tier?.perks ?? []).join('\n') }];
+    })) as TierForm);
+  }, [isOpen, program]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tiers) return;
+
+    const input = {
+      is_active: isActive,
+      points_per_peso: (parseFloat(pointsPer100) || 0) / 100,
+      peso_per_point: parseFloat(pointValue) || 0,
+      min_redeem_points: parseInt(minRedeem, 10) || 0,
+      points_expire_days: expireDays ? parseInt(expireDays, 10) : null,
+      tiers: LOYALTY_TIER_NAMES.map(name => ({
+        tier: name,
+        min_points: parseInt(tiers[name].min_points, 10) || 0,
+        perks: tiers[name].perks.split('\n'),
+      })),
+    };
+
+    const validationError = validateLoyaltyProgram(input);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      await saveLoyaltyProgram(input);
+      onProgramSaved();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save loyalty program');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen || !tiers) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-2 sm:p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[95vh] sm:max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-pink-500 to-purple-500 p-4 sm:p-6 text-white rounded-t-2xl flex-shrink-0">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2 sm:space-x-3">
+              <Award className="w-5 h-5 sm:w-6 sm:h-6" />
+              <h2 className="text-xl sm:text-2xl font-bold">Loyalty Program</h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 sm:w-6 sm:h-6" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 sm:p-6 overflow-y-auto flex-1 space-y-4">
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+              {error}
+            </div>
+          )}
+
+          <label className="flex items-start gap-3 p-3 border border-gray-200 rounded-lg cursor-pointer">
+            <input
+              type="checkbox"
+              checked={isActive}
+              onChange={(e) => setIsActive(e.target.checked)}
+              className="mt-0.5 w-4 h-4 text-pink-600 border-gray-300 rounded focus:ring-pink-500"
+            />
+            <div>
+              <p className="text-sm font-medium text-gray-900">Program active</p>
+              <p className="text-xs text-gray-500">While paused, clients don't earn or redeem points. Balances are kept.</p>
+            </div>
+          </label>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Points per ₱100 spent</label>
+              <input
+                type="number"
+                value={pointsPer100}
+                onChange={(e) => setPointsPer100(e.target.value)}
+                className={inputClass}
+                step="0.1"
+                min="0"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Point value (₱)</label>
+              <input
+                type="number"
+                value={pointValue}
+                onChange={(e) => setPointValue(e.target.value)}
+                className={inputClass}
+                step="0.01"
+                min="0"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Minimum points to redeem</label>
+              <input
+                type="number"
+                value={minRedeem}
+                onChange={(e) => setMinRedeem(e.target.value)}
+                className={inputClass}
+                min="1"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Points expire after (days)</label>
+              <input
+                type="number"
+                value={expireDays}
+                onChange={(e) => setExpireDays(e.target.value)}
+                className={inputClass}
+                placeholder="Never"
+                min="1"
+              />
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">Tiers</p>
+            <p className="text-xs text-gray-500 mb-2">
+              Clients move up by the points they've earned over time; redeeming doesn't lower their tier.
+            </p>
+            <div className="space-y-3">
+              {LOYALTY_TIER_NAMES.map(name => (
+                <div key={name} className="grid grid-cols-3 gap-3 p-3 border border-gray-200 rounded-lg">
+                  <div>
+                    <p className="text-sm font-semibold text-gray-900 mb-1">{name}</p>
+                    <input
+                      type="number"
+                      value={tiers[name].min_points}
+                      onChange={(e) => setTiers({ ...tiers, [name]: { ...tiers[name], min_points: e.target.value } })}
+                      className={inputClass}
+                      min="0"
+                      disabled={name === 'Bronze'}
+                      aria-label={`${name} minimum points`}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">points</p>
+                  </div>
+                  <div className="col-span-2">
+                    <textarea
+                      value={tiers[name].perks}
+                      onChange={(e) => setTiers({ ...tiers, [name]: { ...tiers[name], perks: e.target.value } })}
+                      rows={3}
+                      className={inputClass}
+                      placeholder="One perk per line, e.g. Priority booking"
+                      aria-label={`${name} perks`}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-3 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2.5 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 px-4 py-2.5 bg-pink-500 hover:bg-pink-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+            >
+              {loading ? (
+                <>
+                  <Loader className="w-5 h-5 animate-spin" />
+                  <span>Saving...</span>
+                </>
+              ) : (
+                <>
+                  <Award className="w-5 h-5" />
+                  <span>Save Program</span>
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
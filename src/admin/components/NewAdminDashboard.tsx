@@ -11,6 +11,7 @@ import { AnalyticsScreen } from '../screens/AnalyticsScreen';
 import { MarketingScreen } from '../screens/MarketingScreen';
 import { ServicesScreen } from '../screens/ServicesScreen';
 import { BranchesScreen } from '../screens/BranchesScreen';
+import { AuditLogScreen } from '../screens/AuditLogScreen';
 import { NotificationDropdown } from '../../components/NotificationDropdown';
 import { SettingsDropdown } from '../../components/SettingsDropdown';
 import { AvatarDropdown } from '../../components/AvatarDropdown';
@@ -21,7 +22,7 @@ interface NewAdminDashboardProps {
   onLogout: () => void;
 }
 
-type TabType = 'dashboard' | 'appointments' | 'clients' | 'staff' | 'analytics' | 'marketing' | 'services' | 'branches';
+type TabType = 'dashboard' | 'appointments' | 'clients' | 'staff' | 'analytics' | 'marketing' | 'services' | 'branches' | 'audit-log';
 
 // Map TabType to AdminNavItem for mobile navigation
 const tabToNavItem: Record<TabType, AdminNavItem> = {
@@ -33,6 +34,7 @@ const tabToNavItem: Record<TabType, AdminNavItem> = {
   marketing: 'more',
   services: 'more',
   branches: 'more',
+  'audit-log': 'more',
 };
 
 export function NewAdminDashboard({ onLogout }: NewAdminDashboardProps) {
@@ -54,6 +56,7 @@ export function NewAdminDashboard({ onLogout }: NewAdminDashboardProps) {
     if (path.includes('/marketing')) return 'marketing';
     if (path.includes('/services')) return 'services';
     if (path.includes('/branches')) return 'branches';
+    if (path.includes('/audit-log')) return 'audit-log';
     return 'dashboard';
   };
 
@@ -127,6 +130,7 @@ export function NewAdminDashboard({ onLogout }: NewAdminDashboardProps) {
     { id: 'marketing' as TabType, label: 'Marketing' },
     { id: 'services' as TabType, label: 'Services' },
     { id: 'branches' as TabType, label: 'Branches' },
+    { id: 'audit-log' as TabType, label: 'Audit Log' },
   ];
 
 
@@ -273,6 +277,7 @@ export function NewAdminDashboard({ onLogout }: NewAdminDashboardProps) {
             <Route path="marketing" element={<MarketingScreen />} />
             <Route path="services" element={<ServicesScreen />} />
             <Route path="branches" element={<BranchesScreen />} />
+            <Route path="audit-log" element={<AuditLogScreen />} />
             <Route path="*" element={<Navigate to="/admin-dashboard" replace />} />
           </Routes>
         </main>
@@ -316,6 +321,7 @@ export function NewAdminDashboard({ onLogout }: NewAdminDashboardProps) {
                     { id: 'marketing' as const, label: 'Marketing' },
                     { id: 'services' as const, label: 'Services' },
                     { id: 'branches' as const, label: 'Branches' },
+                    { id: 'audit-log' as const, label: 'Audit Log' },
                   ].map((item) => (
                     <button
                       key={item.id}
@@ -1,5 +1,8 @@
-import { useState } from 'react';
-import { X, Zap, Mail, MessageSquare, Loader } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { X, Zap, Mail, MessageSquare, Loader, Users } from 'lucide-react';
+import { createCampaign, getCampaignAudienceSize } from '../../api/campaigns';
+import { CAMPAIGN_AUDIENCE_RULES, SMS_SEGMENT_LENGTH, validateCampaignInput } from '../../utils/campaigns';
+import type { CampaignAudience, CampaignChannel } from '../../types/multiTenancy';
 
 interface NewCampaignModalProps {
   isOpen: boolean;
@@ -7,46 +10,61 @@ interface NewCampaignModalProps {
   onCampaignCreated: () => void;
 }
 
+const emptyForm = {
+  name: '',
+  channel: 'email' as CampaignChannel,
+  subject: '',
+  message: '',
+  audience: 'all' as CampaignAudience,
+  schedule_date: '',
+  schedule_time: '',
+};
+
 export function NewCampaignModal({ isOpen, onClose, onCampaignCreated }: NewCampaignModalProps) {
-  const [formData, setFormData] = useState({
-    name: '',
-    type: 'Email' as 'Email' | 'SMS',
-    subject: '',
-    message: '',
-    target_audience: 'all' as 'all' | 'new' | 'returning' | 'vip',
-    schedule_date: '',
-    schedule_time: '',
-  });
+  const [formData, setFormData] = useState(emptyForm);
+  const [audienceSize, setAudienceSize] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setAudienceSize(null);
+    getCampaignAudienceSize(formData.audience)
+      .then(size => { if (!cancelled) setAudienceSize(size); })
+      .catch(err => console.error('Error counting campaign audience:', err));
+    return () => { cancelled = true; };
+  }, [isOpen, formData.audience]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!formData.name || !formData.subject || !formData.message) {
-      setError('Please fill in all required fields');
+
+    // A date on its own is sent at 9am
+    const scheduledAt = formData.schedule_date
+      ? new Date(`${formData.schedule_date}T${formData.schedule_time || '09:00'}`).toISOString()
+      : null;
+    const input = {
+      name: formData.name,
+      channel: formData.channel,
+      subject: formData.channel === 'email' ? formData.subject : null,
+      message: formData.message,
+      audience: formData.audience,
+      scheduled_at: scheduledAt,
+    };
+
+    const validationError = validateCampaignInput(input);
+    if (validationError) {
+      setError(validationError);
       return;
     }
 
     try {
       setLoading(true);
       setError(null);
-
-      // Here you would typically save to database
-      // For now, we'll just simulate success
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
+      await createCampaign(input);
       onCampaignCreated();
       onClose();
-      setFormData({
-        name: '',
-        type: 'Email',
-        subject: '',
-        message: '',
-        target_audience: 'all',
-        schedule_date: '',
-        schedule_time: '',
-      });
+      setFormData(emptyForm);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create campaign');
     } finally {
@@ -104,9 +122,9 @@ export function NewCampaignModal({ isOpen, onClose, onCampaignCreated }: NewCamp
             <div className="grid grid-cols-2 gap-4">
               <button
                 type="button"
-                onClick={() => setFormData({ ...formData, type: 'Email' })}
+                onClick={() => setFormData({ ...formData, channel: 'email' })}
                 className={`p-4 border-2 rounded-lg transition-all ${
-                  formData.type === 'Email'
+                  formData.channel === 'email'
                     ? 'border-pink-500 bg-pink-50'
                     : 'border-gray-200 hover:border-pink-300'
                 }`}
@@ -116,9 +134,9 @@ export function NewCampaignModal({ isOpen, onClose, onCampaignCreated }: NewCamp
               </button>
               <button
                 type="button"
-                onClick={() => setFormData({ ...formData, type: 'SMS' })}
+                onClick={() => setFormData({ ...formData, channel: 'sms' })}
                 className={`p-4 border-2 rounded-lg transition-all ${
-                  formData.type === 'SMS'
+                  formData.channel === 'sms'
                     ? 'border-pink-500 bg-pink-50'
                     : 'border-gray-200 hover:border-pink-300'
                 }`}
@@ -129,7 +147,7 @@ export function NewCampaignModal({ isOpen, onClose, onCampaignCreated }: NewCamp
             </div>
           </div>
 
-          {formData.type === 'Email' && (
+          {formData.channel === 'email' && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Email Subject <span className="text-red-500">*</span>
@@ -140,7 +158,7 @@ export function NewCampaignModal({ isOpen, onClose, onCampaignCreated }: NewCamp
                 onChange={(e) => setFormData({ ...formData, subject: e.target.value })}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
                 placeholder="Enter email subject"
-                required={formData.type === 'Email'}
+                required
               />
             </div>
           )}
@@ -157,6 +175,13 @@ export function NewCampaignModal({ isOpen, onClose, onCampaignCreated }: NewCamp
               placeholder="Enter campaign message..."
               required
             />
+            {formData.channel === 'sms' && (
+              <p className="text-xs text-gray-500 mt-1">
+                {formData.message.length} characters
+                {formData.message.length > SMS_SEGMENT_LENGTH &&
+                  ` · sent as ${Math.ceil(formData.message.length / SMS_SEGMENT_LENGTH)} messages`}
+              </p>
+            )}
           </div>
 
           <div>
@@ -164,15 +189,21 @@ export function NewCampaignModal({ isOpen, onClose, onCampaignCreated }: NewCamp
               Target Audience
             </label>
             <select
-              value={formData.target_audience}
-              onChange={(e) => setFormData({ ...formData, target_audience: e.target.value as any })}
+              value={formData.audience}
+              onChange={(e) => setFormData({ ...formData, audience: e.target.value as CampaignAudience })}
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
             >
-              <option value="all">All Clients</option>
-              <option value="new">New Clients</option>
-              <option value="returning">Returning Clients</option>
-              <option value="vip">VIP Clients</option>
+              {(Object.keys(CAMPAIGN_AUDIENCE_RULES) as CampaignAudience[]).map(audience => (
+                <option key={audience} value={audience}>{CAMPAIGN_AUDIENCE_RULES[audience].label}</option>
+              ))}
             </select>
+            {audienceSize !== null && (
+              <p className="flex items-center gap-1 text-xs text-gray-500 mt-1">
+                <Users className="w-3.5 h-3.5" />
+                {audienceSize} {audienceSize === 1 ? 'client' : 'clients'} right now. Clients without
+                {formData.channel === 'email' ? ' an email address' : ' a phone number'} are skipped.
+              </p>
+            )}
           </div>
 
           <div className="grid grid-cols-2 gap-4">
@@ -216,12 +247,12 @@ export function NewCampaignModal({ isOpen, onClose, onCampaignCreated }: NewCamp
               {loading ? (
                 <>
                   <Loader className="w-5 h-5 animate-spin" />
-                  <span>Creating...</span>
+                  <span>{formData.schedule_date ? 'Scheduling...' : 'Sending...'}</span>
                 </>
               ) : (
                 <>
                   <Zap className="w-5 h-5" />
-                  <span>Create Campaign</span>
+                  <span>{formData.schedule_date ? 'Schedule Campaign' : 'Send Now'}</span>
                 </>
               )}
             </button>
@@ -3,6 +3,7 @@ import { useAuth } from '../../auth/useAuth';
 import { getMyProfile, createProfile, type Profile } from '../../api/profile';
 import { isSupabaseConfigured } from '../../lib/supabase';
 import { supabase } from '../../lib/supabase';
+import { OTP_RESEND_COOLDOWN_SECONDS } from '../../api/otp';
 import { Mail, CheckCircle, AlertCircle, ArrowLeft, Loader2 } from 'lucide-react';
 
 interface OtpVerificationProps {
@@ -18,6 +19,8 @@ export function OtpVerification({ email, password, onVerificationSuccess, onBack
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [countdown, setCountdown] = useState<number | null>(null);
+  // AdminLogin has just sent a code, so start inside the resend cooldown
+  const [resendIn, setResendIn] = useState(OTP_RESEND_COOLDOWN_SECONDS);
   const { sendOTP, verifyOTPCode } = useAuth();
 
   // Don't auto-send OTP - AdminLogin already sends it before redirecting
@@ -34,6 +37,12 @@ export function OtpVerification({ email, password, onVerificationSuccess, onBack
     }
   }, [countdown]);
 
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn(resendIn - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
   const handleOtpChange = (index: number, value: string) => {
     if (value.length > 1) return; // Only allow single digit
     if (!/^\d*$/.test(value)) return; // Only allow digits
@@ -68,7 +77,8 @@ export function OtpVerification({ email, password, onVerificationSuccess, onBack
     }
 
     try {
-      const { error: otpError } = await sendOTP(email, password);
+      const { resendAfter, error: otpError } = await sendOTP(email);
+      if (resendAfter) setResendIn(resendAfter);
       
       if (otpError) {
         const errorMessage = otpError.message || 'Unknown error';
@@ -101,10 +111,13 @@ export function OtpVerification({ email, password, onVerificationSuccess, onBack
     setError(null);
 
     try {
-      const { data: verifyData, error: verifyError } = await verifyOTPCode(email, code);
+      const { data: verifyData, error: verifyError } = await verifyOTPCode(email, code, password);
       
       if (verifyError) {
         setError(`Verification failed: ${verifyError.message || 'Invalid or expired code'}`);
+        // Wrong codes count towards the lockout, so start the next guess afresh
+        setOtpCode(['', '', '', '', '', '']);
+        document.getElementById('otp-0')?.focus();
         setLoading(false);
         return;
       }
@@ -280,10 +293,10 @@ export function OtpVerification({ email, password, onVerificationSuccess, onBack
               <button
                 type="button"
                 onClick={handleSendOtp}
-                disabled={loading || countdown !== null}
+                disabled={loading || countdown !== null || resendIn > 0}
                 className="w-full flex justify-center py-2 px-4 text-sm text-pink-600 hover:text-pink-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Resend Code
+                {resendIn > 0 ? `Resend Code in ${resendIn}s` : 'Resend Code'}
               </button>
             </div>
           </div>
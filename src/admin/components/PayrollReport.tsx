@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import { Download, Wallet } from 'lucide-react';
+import { getPayrollReport } from '../../api/commission';
+import { downloadCsv } from '../../utils/csv';
+import { toDateKey } from '../../utils/businessHours';
+import { glamError } from '../../lib/glamAlerts';
+import type { PayrollLine } from '../../types/multiTenancy';
+
+// Default to the current semi-monthly pay period (1st-15th or 16th-end)
+function getDefaultPeriod() {
+  const today = new Date();
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() <= 15 ? 1 : 16);
+  return { start: toDateKey(start), end: toDateKey(today) };
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-PH', { style: 'currency', currency: 'PHP', minimumFractionDigits: 2 }).format(amount);
+
+export function PayrollReport() {
+  const [period, setPeriod] = useState(getDefaultPeriod);
+  const [lines, setLines] = useState<PayrollLine[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!period.start || !period.end || period.start > period.end) {
+      setLines([]);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+
+    // The end date is inclusive
+    const start = new Date(`${period.start}T00:00:00`);
+    const end = new Date(`${period.end}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+
+    getPayrollReport(start, end)
+      .then(data => {
+        if (!cancelled) setLines(data);
+      })
+      .catch(error => {
+        console.error('Error loading payroll report:', error);
+        if (!cancelled) glamError(error instanceof Error ? error.message : 'Failed to load payroll report');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [period]);
+
+  const totals = lines.reduce(
+    (sum, line) => ({
+      services: sum.services + line.services_count,
+      revenue: sum.revenue + line.service_revenue,
+      commission: sum.commission + line.commission,
+      tips: sum.tips + line.tips,
+    }),
+    { services: 0, revenue: 0, commission: 0, tips: 0 }
+  );
+
+  const handleExport = () => {
+    downloadCsv(`payroll-${period.start}-to-${period.end}.csv`, [
+      ['Staff', 'Services', 'Service revenue', 'Commission', 'Tips', 'Total payout'],
+      ...lines.map(line => [
+        line.staff_name,
+        line.services_count,
+        line.service_revenue.toFixed(2),
+        line.commission.toFixed(2),
+        line.tips.toFixed(2),
+        (line.commission + line.tips).toFixed(2),
+      ]),
+      [
+        'Total',
+        totals.services,
+        totals.revenue.toFixed(2),
+        totals.commission.toFixed(2),
+        totals.tips.toFixed(2),
+        (totals.commission + totals.tips).toFixed(2),
+      ],
+    ]);
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-6 border border-gray-100">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Payroll</h3>
+          <p className="text-sm text-gray-500">Commission and tips from checkouts in the period</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            value={period.start}
+            max={period.end}
+            onChange={(e) => setPeriod(prev => ({ ...prev, start: e.target.value }))}
+            className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-pink-500"
+          />
+          <span className="text-sm text-gray-500">to</span>
+          <input
+            type="date"
+            value={period.end}
+            min={period.start}
+            onChange={(e) => setPeriod(prev => ({ ...prev, end: e.target.value }))}
+            className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-pink-500"
+          />
+          <button
+            onClick={handleExport}
+            disabled={lines.length === 0}
+            className="px-4 py-2 border border-pink-200 text-pink-600 hover:bg-pink-50 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-pink-500"></div>
+        </div>
+      ) : lines.length === 0 ? (
+        <div className="text-center py-12">
+          <Wallet className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+          <p className="text-sm text-gray-500">No checkouts in this period</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-100">
+                <th className="py-2 font-medium">Staff</th>
+                <th className="py-2 font-medium text-right">Services</th>
+                <th className="py-2 font-medium text-right">Service revenue</th>
+                <th className="py-2 font-medium text-right">Commission</th>
+                <th className="py-2 font-medium text-right">Tips</th>
+                <th className="py-2 font-medium text-right">Total payout</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-50">
+              {lines.map(line => (
+                <tr key={line.staff_id ?? 'unassigned'} className="text-gray-700">
+                  <td className="py-2 font-medium text-gray-900">{line.staff_name}</td>
+                  <td className="py-2 text-right">{line.services_count}</td>
+                  <td className="py-2 text-right">{formatCurrency(line.service_revenue)}</td>
+                  <td className="py-2 text-right">{formatCurrency(line.commission)}</td>
+                  <td className="py-2 text-right">{formatCurrency(line.tips)}</td>
+                  <td className="py-2 text-right font-semibold text-pink-600">{formatCurrency(line.commission + line.tips)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="border-t border-gray-200 font-semibold text-gray-900">
+                <td className="py-2">Total</td>
+                <td className="py-2 text-right">{totals.services}</td>
+                <td className="py-2 text-right">{formatCurrency(totals.revenue)}</td>
+                <td className="py-2 text-right">{formatCurrency(totals.commission)}</td>
+                <td className="py-2 text-right">{formatCurrency(totals.tips)}</td>
+                <td className="py-2 text-right text-pink-600">{formatCurrency(totals.commission + totals.tips)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,366 @@
+import { useState, useEffect, useMemo } from 'react';
+import { X, Tag, Loader } from 'lucide-react';
+import { savePromotion, type PromotionServiceOption } from '../../api/promotions';
+import { PROMOTION_DISCOUNT_LABELS, PROMOTION_SCOPE_LABELS, validatePromotionInput } from '../../utils/promotions';
+import { toDateKey } from '../../utils/businessHours';
+import type { Promotion, PromotionDiscountType, PromotionInput, PromotionScope } from '../../types/multiTenancy';
+
+interface PromotionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onPromotionSaved: () => void;
+  services: PromotionServiceOption[];
+  editingPromotion?: Promotion | null;
+}
+
+const EMPTY_FORM = {
+  code: '',
+  title: '',
+  description: '',
+  discount_type: 'percentage' as PromotionDiscountType,
+  discount_value: '',
+  scope: 'all' as PromotionScope,
+  first_visit_only: false,
+  max_uses: '',
+  max_uses_per_client: '1',
+  starts_on: '',
+  ends_on: '',
+};
+
+const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent';
+
+export function PromotionModal({ isOpen, onClose, onPromotionSaved, services, editingPromotion }: PromotionModalProps) {
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [serviceIds, setServiceIds] = useState<string[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const allCategories = useMemo(
+    () => Array.from(new Set(services.map(s => s.category))).sort(),
+    [services]
+  );
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    if (editingPromotion) {
+      setFormData({
+        code: editingPromotion.code,
+        title: editingPromotion.title,
+        description: editingPromotion.description || '',
+        discount_type: editingPromotion.discount_type,
+        discount_value: editingPromotion.discount_value.toString(),
+        scope: editingPromotion.scope,
+        first_visit_only: editingPromotion.first_visit_only,
+        max_uses: editingPromotion.max_uses?.toString() || '',
+        max_uses_per_client: editingPromotion.max_uses_per_client?.toString() || '',
+        starts_on: editingPromotion.starts_at ? toDateKey(new Date(editingPromotion.starts_at)) : '',
+        ends_on: editingPromotion.ends_at ? toDateKey(new Date(editingPromotion.ends_at)) : '',
+      });
+      setServiceIds(editingPromotion.service_ids);
+      setCategories(editingPromotion.categories);
+    } else {
+      setFormData(EMPTY_FORM);
+      setServiceIds([]);
+      setCategories([]);
+    }
+  }, [isOpen, editingPromotion]);
+
+  // Dates are whole days in the salon's local time
+  const input: PromotionInput = {
+    code: formData.code.trim().toUpperCase(),
+    title: formData.title,
+    description: formData.description || null,
+    discount_type: formData.discount_type,
+    discount_value: formData.discount_value === '' ? NaN : parseFloat(formData.discount_value),
+    scope: formData.scope,
+    service_ids: serviceIds,
+    categories,
+    first_visit_only: formData.first_visit_only,
+    max_uses: formData.max_uses ? parseInt(formData.max_uses, 10) : null,
+    max_uses_per_client: formData.max_uses_per_client ? parseInt(formData.max_uses_per_client, 10) : null,
+    starts_at: formData.starts_on ? new Date(`${formData.starts_on}T00:00:00`).toISOString() : null,
+    ends_at: formData.ends_on ? new Date(`${formData.ends_on}T23:59:59`).toISOString() : null,
+    is_active: editingPromotion?.is_active ?? true,
+  };
+
+  const toggle = (list: string[], value: string, checked: boolean) =>
+    checked ? [...list, value] : list.filter(item => item !== value);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationError = validatePromotionInput(input);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      await savePromotion(input, editingPromotion?.id);
+      onPromotionSaved();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save promotion');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-2 sm:p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[95vh] sm:max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-pink-500 to-purple-500 p-4 sm:p-6 text-white rounded-t-2xl flex-shrink-0">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2 sm:space-x-3">
+              <Tag className="w-5 h-5 sm:w-6 sm:h-6" />
+              <h2 className="text-xl sm:text-2xl font-bold">
+                {editingPromotion ? 'Edit Promotion' : 'New Discount Code'}
+              </h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 sm:w-6 sm:h-6" />
+            </button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 sm:p-6 overflow-y-auto flex-1 space-y-4">
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Code <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                value={formData.code}
+                onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+                className={`${inputClass} font-mono`}
+                placeholder="e.g., SUMMER20"
+                maxLength={20}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Title <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                value={formData.title}
+                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                className={inputClass}
+                placeholder="e.g., Summer Special"
+                required
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <textarea
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              rows={2}
+              className={inputClass}
+              placeholder="Who it's for and any fine print"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Discount Type</label>
+              <select
+                value={formData.discount_type}
+                onChange={(e) => setFormData({ ...formData, discount_type: e.target.value as PromotionDiscountType })}
+                className={inputClass}
+              >
+                {(Object.keys(PROMOTION_DISCOUNT_LABELS) as PromotionDiscountType[]).map(type => (
+                  <option key={type} value={type}>{PROMOTION_DISCOUNT_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {formData.discount_type === 'percentage' ? 'Discount (%)' : 'Discount (₱)'} <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="number"
+                value={formData.discount_value}
+                onChange={(e) => setFormData({ ...formData, discount_value: e.target.value })}
+                className={inputClass}
+                placeholder={formData.discount_type === 'percentage' ? '20' : '200'}
+                step="0.01"
+                min="0"
+                max={formData.discount_type === 'percentage' ? 100 : undefined}
+                required
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Applies To</label>
+            <div className="grid grid-cols-3 gap-2 p-1 bg-gray-100 rounded-lg">
+              {(Object.keys(PROMOTION_SCOPE_LABELS) as PromotionScope[]).map(scope => (
+                <button
+                  key={scope}
+                  type="button"
+                  onClick={() => setFormData({ ...formData, scope })}
+                  className={`py-2 rounded-md text-sm font-medium transition-all ${
+                    formData.scope === scope ? 'bg-white shadow-sm text-pink-600' : 'text-gray-600 hover:text-gray-800'
+                  }`}
+                >
+                  {PROMOTION_SCOPE_LABELS[scope]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {formData.scope === 'services' && (
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-56 overflow-y-auto">
+              {services.length === 0 ? (
+                <p className="px-3 py-2 text-sm text-gray-500">No services yet.</p>
+              ) : services.map(service => (
+                <label key={service.id} className="flex items-center gap-3 px-3 py-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={serviceIds.includes(service.id)}
+                    onChange={(e) => setServiceIds(toggle(serviceIds, service.id, e.target.checked))}
+                    className="w-4 h-4 text-pink-600 border-gray-300 rounded focus:ring-pink-500"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{service.name}</p>
+                    <p className="text-xs text-gray-500">{service.shop_name} · {service.category}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {formData.scope === 'category' && (
+            <div className="flex flex-wrap gap-2">
+              {allCategories.length === 0 ? (
+                <p className="text-sm text-gray-500">No service categories yet.</p>
+              ) : allCategories.map(category => {
+                const selected = categories.includes(category);
+                return (
+                  <button
+                    key={category}
+                    type="button"
+                    onClick={() => setCategories(toggle(categories, category, !selected))}
+                    className={`px-3 py-1.5 rounded-full border text-sm font-medium transition-all ${
+                      selected ? 'border-pink-300 bg-pink-50 text-pink-600' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                    }`}
+                  >
+                    {category}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Total Uses</label>
+              <input
+                type="number"
+                value={formData.max_uses}
+                onChange={(e) => setFormData({ ...formData, max_uses: e.target.value })}
+                className={inputClass}
+                placeholder="Unlimited"
+                min="1"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Uses Per Client</label>
+              <input
+                type="number"
+                value={formData.max_uses_per_client}
+                onChange={(e) => setFormData({ ...formData, max_uses_per_client: e.target.value })}
+                className={inputClass}
+                placeholder="Unlimited"
+                min="1"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Starts</label>
+              <input
+                type="date"
+                value={formData.starts_on}
+                onChange={(e) => setFormData({ ...formData, starts_on: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Ends</label>
+              <input
+                type="date"
+                value={formData.ends_on}
+                onChange={(e) => setFormData({ ...formData, ends_on: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <label className="flex items-start gap-3 p-3 border border-gray-200 rounded-lg cursor-pointer">
+            <input
+              type="checkbox"
+              checked={formData.first_visit_only}
+              onChange={(e) => setFormData({ ...formData, first_visit_only: e.target.checked })}
+              className="mt-0.5 w-4 h-4 text-pink-600 border-gray-300 rounded focus:ring-pink-500"
+            />
+            <div>
+              <p className="text-sm font-medium text-gray-900">First visit only</p>
+              <p className="text-xs text-gray-500">Only for clients who haven't visited yet, and only on their first appointment.</p>
+            </div>
+          </label>
+
+          {/* Action Buttons */}
+          <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-3 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2.5 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 px-4 py-2.5 bg-pink-500 hover:bg-pink-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+            >
+              {loading ? (
+                <>
+                  <Loader className="w-5 h-5 animate-spin" />
+                  <span>Saving...</span>
+                </>
+              ) : (
+                <>
+                  <Tag className="w-5 h-5" />
+                  <span>{editingPromotion ? 'Update Promotion' : 'Create Code'}</span>
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+import { useState, useEffect } from 'react';
+import { X, BellRing, Plus, Mail, MessageSquare } from 'lucide-react';
+import { getReminderLog, getReminderSettings, saveReminderSettings } from '../../api/reminders';
+import {
+  DEFAULT_REMINDER_TEMPLATES,
+  REMINDER_CHANNEL_LABELS,
+  REMINDER_PLACEHOLDERS,
+  SAMPLE_REMINDER_VALUES,
+  formatReminderOffset,
+  renderReminderTemplate,
+  validateReminderSettings,
+} from '../../utils/reminders';
+import { glamError, glamSuccess } from '../../lib/glamAlerts';
+import type { BookingReminder, ReminderChannel, ReminderSettings } from '../../types/multiTenancy';
+
+interface ReminderSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const OFFSET_UNITS = { minutes: 1, hours: 60, days: 1440 };
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent';
+
+const deliveryStatusStyles: Record<BookingReminder['status'], string> = {
+  pending: 'bg-blue-100 text-blue-700',
+  sent: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+// When appointment reminders go out, how, and what they say, plus a log of
+// what has been sent
+export function ReminderSettingsModal({ isOpen, onClose }: ReminderSettingsModalProps) {
+  const [tab, setTab] = useState<'settings' | 'log'>('settings');
+  const [settings, setSettings] = useState<ReminderSettings | null>(null);
+  const [log, setLog] = useState<BookingReminder[]>([]);
+  const [newOffset, setNewOffset] = useState('1');
+  const [newOffsetUnit, setNewOffsetUnit] = useState<keyof typeof OFFSET_UNITS>('hours');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setTab('settings');
+    getReminderSettings()
+      .then(setSettings)
+      .catch(error => glamError(error instanceof Error ? error.message : 'Failed to load reminder settings'));
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen || tab !== 'log') return;
+    getReminderLog()
+      .then(setLog)
+      .catch(error => console.error('Error loading reminder log:', error));
+  }, [isOpen, tab]);
+
+  if (!isOpen) return null;
+
+  const toggleChannel = (channel: ReminderChannel) => {
+    if (!settings) return;
+    const channels = settings.channels.includes(channel)
+      ? settings.channels.filter(c => c !== channel)
+      : [...settings.channels, channel];
+    setSettings({ ...settings, channels });
+  };
+
+  const addOffset = () => {
+    if (!settings) return;
+    const minutes = Math.round((Number(newOffset) || 0) * OFFSET_UNITS[newOffsetUnit]);
+    if (minutes <= 0 || settings.offsets_minutes.includes(minutes)) return;
+    setSettings({ ...settings, offsets_minutes: [...settings.offsets_minutes, minutes].sort((a, b) => b - a) });
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+    const validationError = validateReminderSettings(settings);
+    if (validationError) {
+      glamError(validationError);
+      return;
+    }
+    setSaving(true);
+    try {
+      await saveReminderSettings(settings);
+      glamSuccess('Reminder settings saved');
+      onClose();
+    } catch (error) {
+      glamError(error instanceof Error ? error.message : 'Failed to save reminder settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const preview = (field: keyof typeof DEFAULT_REMINDER_TEMPLATES) =>
+    renderReminderTemplate(settings?.[field] || DEFAULT_REMINDER_TEMPLATES[field], SAMPLE_REMINDER_VALUES);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <BellRing className="w-5 h-5 text-pink-500" />
+            <h2 className="text-xl font-bold text-gray-900">Appointment Reminders</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="px-6 pt-4 flex gap-2">
+          {(['settings', 'log'] as const).map(value => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                tab === value ? 'bg-pink-100 text-pink-700' : 'text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {value === 'settings' ? 'Settings' : 'Delivery Log'}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'log' ? (
+          <div className="p-6 max-h-[65vh] overflow-y-auto">
+            {log.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-8">No reminders have been sent yet.</p>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {log.map(reminder => (
+                  <div key={reminder.id} className="py-3 flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">
+                        {reminder.client_name || 'Client'} · {reminder.service_name || 'Appointment'}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {REMINDER_CHANNEL_LABELS[reminder.channel]} to {reminder.destination} ·{' '}
+                        {formatReminderOffset(reminder.offset_minutes)} {new Date(reminder.booking_start_at).toLocaleString()}
+                      </p>
+                      {reminder.error && <p className="text-xs text-red-600 mt-1">{reminder.error}</p>}
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-semibold ${deliveryStatusStyles[reminder.status]}`}>
+                        {reminder.status}
+                      </span>
+                      {reminder.response && (
+                        <p className={`text-xs mt-1 font-medium ${reminder.response === 'confirmed' ? 'text-green-600' : 'text-red-600'}`}>
+                          Client {reminder.response}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : !settings ? (
+          <div className="flex items-center justify-center h-40">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-pink-500"></div>
+          </div>
+        ) : (
+          <div className="p-6 space-y-5 max-h-[65vh] overflow-y-auto">
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={settings.is_active}
+                onChange={(e) => setSettings({ ...settings, is_active: e.target.checked })}
+                className="w-4 h-4 text-pink-600 border-gray-300 rounded focus:ring-pink-500"
+              />
+              <span className="text-sm font-medium text-gray-700">Send appointment reminders</span>
+            </label>
+
+            <div>
+              <p className="block text-sm font-medium text-gray-700 mb-2">When</p>
+              <div className="flex flex-wrap gap-2 mb-2">
+                {settings.offsets_minutes.map(minutes => (
+                  <span key={minutes} className="inline-flex items-center gap-1 px-3 py-1 bg-pink-50 text-pink-700 rounded-full text-sm">
+                    {formatReminderOffset(minutes)}
+                    <button
+                      onClick={() => setSettings({ ...settings, offsets_minutes: settings.offsets_minutes.filter(m => m !== minutes) })}
+                      className="hover:text-pink-900"
+                      aria-label={`Remove ${formatReminderOffset(minutes)}`}
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min="1"
+                  value={newOffset}
+                  onChange={(e) => setNewOffset(e.target.value)}
+                  className={`${inputClass} max-w-[100px]`}
+                />
+                <select
+                  value={newOffsetUnit}
+                  onChange={(e) => setNewOffsetUnit(e.target.value as keyof typeof OFFSET_UNITS)}
+                  className={`${inputClass} max-w-[140px]`}
+                >
+                  <option value="minutes">minutes</option>
+                  <option value="hours">hours</option>
+                  <option value="days">days</option>
+                </select>
+                <button
+                  onClick={addOffset}
+                  className="px-3 py-2 border border-pink-200 text-pink-600 hover:bg-pink-50 rounded-lg font-medium transition-colors flex items-center gap-1"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Appointments booked after a reminder time skip that reminder.
+              </p>
+            </div>
+
+            <div>
+              <p className="block text-sm font-medium text-gray-700 mb-2">Channels</p>
+              <div className="flex gap-3">
+                {(['email', 'sms'] as ReminderChannel[]).map(channel => (
+                  <label key={channel} className="flex items-center gap-2 px-3 py-2 border border-gray-200 rounded-lg cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.channels.includes(channel)}
+                      onChange={() => toggleChannel(channel)}
+                      className="w-4 h-4 text-pink-600 border-gray-300 rounded focus:ring-pink-500"
+                    />
+                    {channel === 'email' ? <Mail className="w-4 h-4 text-blue-500" /> : <MessageSquare className="w-4 h-4 text-green-500" />}
+                    <span className="text-sm text-gray-700">{REMINDER_CHANNEL_LABELS[channel]}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="pt-4 border-t border-gray-100 space-y-3">
+              <div>
+                <h3 className="text-sm font-semibold text-gray-900">Templates</h3>
+                <p className="text-xs text-gray-500">
+                  Leave blank for the built-in wording. Placeholders: {REMINDER_PLACEHOLDERS.join(' ')}
+                </p>
+              </div>
+
+              {settings.channels.includes('email') && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Email subject</label>
+                    <input
+                      type="text"
+                      value={settings.email_subject ?? ''}
+                      onChange={(e) => setSettings({ ...settings, email_subject: e.target.value })}
+                      placeholder={DEFAULT_REMINDER_TEMPLATES.email_subject}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Email message</label>
+                    <textarea
+                      value={settings.email_template ?? ''}
+                      onChange={(e) => setSettings({ ...settings, email_template: e.target.value })}
+                      placeholder={DEFAULT_REMINDER_TEMPLATES.email_template}
+                      rows={7}
+                      className={inputClass}
+                    />
+                    <div className="mt-2 p-3 bg-gray-50 rounded-lg text-xs text-gray-600">
+                      <p className="font-medium text-gray-900 mb-1">{preview('email_subject')}</p>
+                      <p className="whitespace-pre-line">{preview('email_template')}</p>
+                    </div>
+                  </div>
+                </>
+              )}
+
+              {settings.channels.includes('sms') && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">SMS message</label>
+                  <textarea
+                    value={settings.sms_template ?? ''}
+                    onChange={(e) => setSettings({ ...settings, sms_template: e.target.value })}
+                    placeholder={DEFAULT_REMINDER_TEMPLATES.sms_template}
+                    rows={3}
+                    className={inputClass}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    <span className="font-medium">Preview:</span> {preview('sms_template')}
+                  </p>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+          >
+            {tab === 'log' ? 'Close' : 'Cancel'}
+          </button>
+          {tab === 'settings' && (
+            <button
+              onClick={handleSave}
+              disabled={!settings || saving}
+              className="px-4 py-2 bg-pink-500 hover:bg-pink-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Reminders'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
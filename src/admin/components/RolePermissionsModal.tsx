@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import { X, ShieldCheck, Loader } from 'lucide-react';
+import { getRolePermissions, saveRolePermissions } from '../../api/permissions';
+import { CUSTOMIZABLE_ROLES, DEFAULT_ROLE_PERMISSIONS, PERMISSION_CATALOGUE, ALL_PERMISSIONS } from '../../utils/permissions';
+import { glamSuccess } from '../../lib/glamAlerts';
+import { useTenant } from '../../tenant/useTenant';
+import type { CustomizableRole, Permission, RolePermissionMap } from '../../types/multiTenancy';
+
+interface RolePermissionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const ROLE_LABELS: Record<CustomizableRole, string> = {
+  manager: 'Managers',
+  staff: 'Staff',
+};
+
+export function RolePermissionsModal({ isOpen, onClose }: RolePermissionsModalProps) {
+  const { refreshOrganization } = useTenant();
+  const [rolePermissions, setRolePermissions] = useState<RolePermissionMap>(DEFAULT_ROLE_PERMISSIONS);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setLoading(true);
+    setError(null);
+    getRolePermissions()
+      .then(setRolePermissions)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load permissions'))
+      .finally(() => setLoading(false));
+  }, [isOpen]);
+
+  const togglePermission = (role: CustomizableRole, permission: Permission) => {
+    setRolePermissions(current => ({
+      ...current,
+      [role]: current[role].includes(permission)
+        ? current[role].filter(p => p !== permission)
+        : [...current[role], permission],
+    }));
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      for (const role of CUSTOMIZABLE_ROLES) {
+        await saveRolePermissions(role, rolePermissions[role]);
+      }
+      // Our own permissions may have changed
+      await refreshOrganization();
+      glamSuccess('Permissions saved');
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save permissions');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-2 sm:p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[95vh] sm:max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-purple-500 to-pink-500 p-4 sm:p-6 text-white rounded-t-2xl flex-shrink-0">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2 sm:space-x-3">
+              <ShieldCheck className="w-5 h-5 sm:w-6 sm:h-6" />
+              <h2 className="text-xl sm:text-2xl font-bold">Role Permissions</h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white/20 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 sm:w-6 sm:h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-4 overflow-y-auto flex-1">
+          <p className="text-sm text-gray-600">
+            Choose what managers and staff can do. Admins can always do everything.
+          </p>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader className="w-6 h-6 text-pink-500 animate-spin" />
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-100">
+                  <th className="py-2 font-medium">Permission</th>
+                  {CUSTOMIZABLE_ROLES.map(role => (
+                    <th key={role} className="py-2 px-3 font-medium text-center">{ROLE_LABELS[role]}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {ALL_PERMISSIONS.map(permission => (
+                  <tr key={permission}>
+                    <td className="py-3">
+                      <p className="font-medium text-gray-900">{PERMISSION_CATALOGUE[permission].label}</p>
+                      <p className="text-xs text-gray-500">{PERMISSION_CATALOGUE[permission].description}</p>
+                    </td>
+                    {CUSTOMIZABLE_ROLES.map(role => (
+                      <td key={role} className="py-3 px-3 text-center">
+                        <input
+                          type="checkbox"
+                          checked={rolePermissions[role].includes(permission)}
+                          onChange={() => togglePermission(role, permission)}
+                          className="w-4 h-4 text-pink-500 border-gray-300 rounded focus:ring-pink-500"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="flex space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving || loading}
+              className="flex-1 px-4 py-2 bg-pink-500 hover:bg-pink-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+            >
+              {saving ? (
+                <>
+                  <Loader className="w-5 h-5 animate-spin" />
+                  <span>Saving...</span>
+                </>
+              ) : (
+                <span>Save Permissions</span>
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 import { useState } from 'react';
-import { X, User, Mail, Phone, DollarSign, Calendar, Save } from 'lucide-react';
+import { X, User, Mail, Phone, DollarSign, Calendar, Save, Plus, Trash2 } from 'lucide-react';
 import { updateStaffInfo } from '../../api/staffSchedule';
+import { saveStaffCommissionRule } from '../../api/commission';
 import type { StaffMember } from '../../api/admin';
+import { COMMISSION_TYPE_LABELS, validateCommissionRule } from '../../utils/commission';
+import type { CommissionType } from '../../types/multiTenancy';
 
 interface StaffEditModalProps {
   staff: StaffMember;
@@ -15,7 +18,6 @@ export function StaffEditModal({ staff, isOpen, onClose, onUpdated }: StaffEditM
     name: staff.name,
     email: staff.email,
     phone: '',
-    salary: '',
     schedule: {
       monday: { start: '09:00', end: '17:00', enabled: true },
       tuesday: { start: '09:00', end: '17:00', enabled: true },
@@ -28,10 +30,29 @@ export function StaffEditModal({ staff, isOpen, onClose, onUpdated }: StaffEditM
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'info' | 'schedule' | 'salary'>('info');
+  const [activeTab, setActiveTab] = useState<'info' | 'schedule' | 'commission'>('info');
+  const [commissionType, setCommissionType] = useState<CommissionType>(staff.commission?.commission_type ?? 'none');
+  const [tiers, setTiers] = useState<{ from: string; rate: string }[]>(
+    staff.commission?.tiers.length
+      ? staff.commission.tiers.map(tier => ({ from: String(tier.from), rate: String(tier.rate) }))
+      : [{ from: '0', rate: '' }]
+  );
+  const [flatFee, setFlatFee] = useState(staff.commission?.flat_fee ? String(staff.commission.flat_fee) : '');
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const commissionRule = {
+      commission_type: commissionType,
+      tiers: tiers.map(tier => ({ from: parseFloat(tier.from) || 0, rate: parseFloat(tier.rate) })),
+      flat_fee: parseFloat(flatFee) || 0,
+    };
+    const commissionError = validateCommissionRule(commissionRule);
+    if (commissionError) {
+      setError(commissionError);
+      setActiveTab('commission');
+      return;
+    }
+
     setLoading(true);
     setError(null);
 
@@ -42,8 +63,12 @@ export function StaffEditModal({ staff, isOpen, onClose, onUpdated }: StaffEditM
         phone: formData.phone || undefined,
       });
 
-      // Note: Salary and schedule would need separate API endpoints or table structure
-      // For now, we'll just update the basic info
+      // Staff who never had a rule don't need a 'none' row
+      if (staff.commission || commissionType !== 'none') {
+        await saveStaffCommissionRule(staff.id, commissionRule);
+      }
+
+      // Note: Schedule would need separate API endpoints or table structure
       
       onUpdated?.();
       onClose();
@@ -116,15 +141,15 @@ export function StaffEditModal({ staff, isOpen, onClose, onUpdated }: StaffEditM
             Schedule
           </button>
           <button
-            onClick={() => setActiveTab('salary')}
+            onClick={() => setActiveTab('commission')}
             className={`px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
-              activeTab === 'salary'
+              activeTab === 'commission'
                 ? 'border-pink-500 text-pink-600'
                 : 'border-transparent text-gray-600 hover:text-gray-900'
             }`}
           >
             <DollarSign className="w-4 h-4 inline mr-2" />
-            Salary
+            Commission
           </button>
         </div>
 
@@ -219,22 +244,87 @@ export function StaffEditModal({ staff, isOpen, onClose, onUpdated }: StaffEditM
             </div>
           )}
 
-          {activeTab === 'salary' && (
+          {activeTab === 'commission' && (
             <div className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   <DollarSign className="w-4 h-4 inline mr-2" />
-                  Monthly Salary (PHP)
+                  Commission
                 </label>
-                <input
-                  type="number"
-                  value={formData.salary}
-                  onChange={(e) => setFormData(prev => ({ ...prev, salary: e.target.value }))}
-                  placeholder="Enter monthly salary"
+                <select
+                  value={commissionType}
+                  onChange={(e) => setCommissionType(e.target.value as CommissionType)}
                   className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-500"
-                />
-                <p className="text-xs text-gray-500 mt-1">Note: Salary information is stored securely</p>
+                >
+                  {(Object.keys(COMMISSION_TYPE_LABELS) as CommissionType[]).map(type => (
+                    <option key={type} value={type}>{COMMISSION_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
               </div>
+
+              {commissionType === 'percentage' && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-gray-700">Tiers</p>
+                  {tiers.map((tier, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <span className="text-sm text-gray-600 w-20">{index === 0 ? 'From ₱' : 'Over ₱'}</span>
+                      <input
+                        type="number"
+                        min="0"
+                        value={tier.from}
+                        disabled={index === 0}
+                        onChange={(e) => setTiers(prev => prev.map((t, i) => (i === index ? { ...t, from: e.target.value } : t)))}
+                        className="flex-1 px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-500 disabled:bg-gray-50"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.1"
+                        value={tier.rate}
+                        onChange={(e) => setTiers(prev => prev.map((t, i) => (i === index ? { ...t, rate: e.target.value } : t)))}
+                        placeholder="Rate"
+                        className="w-24 px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-500"
+                      />
+                      <span className="text-sm text-gray-600">%</span>
+                      {index > 0 && (
+                        <button
+                          type="button"
+                          onClick={() => setTiers(prev => prev.filter((_, i) => i !== index))}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => setTiers(prev => [...prev, { from: '', rate: '' }])}
+                    className="text-sm text-pink-600 hover:text-pink-700 flex items-center gap-1"
+                  >
+                    <Plus className="w-4 h-4" /> Add tier
+                  </button>
+                  <p className="text-xs text-gray-500">
+                    Each rate applies to the service revenue above its amount in a payroll period. Retail sales and tips don't earn commission.
+                  </p>
+                </div>
+              )}
+
+              {commissionType === 'flat' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Fee per service (PHP)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={flatFee}
+                    onChange={(e) => setFlatFee(e.target.value)}
+                    placeholder="e.g. 150"
+                    className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-500"
+                  />
+                </div>
+              )}
             </div>
           )}
         </form>
@@ -1,6 +1,11 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { X, Calendar, Clock, MapPin, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
 import { getStaffSchedule } from '../../api/staffSchedule';
+import { getCurrentOrganizationId } from '../../api/multiTenancy';
+import { supabase } from '../../lib/supabase';
+import { StaffShiftsEditor } from './StaffShiftsEditor';
+import { StaffSkillsEditor } from './StaffSkillsEditor';
+import { formatBookingStatus } from '../../utils/bookingPolicy';
 import type { AppointmentWithDetails } from '../../api/admin';
 import type { StaffMember } from '../../api/admin';
 
@@ -14,6 +19,9 @@ export function StaffScheduleModal({ staff, isOpen, onClose }: StaffScheduleModa
   const [appointments, setAppointments] = useState<(AppointmentWithDetails & { shop_name?: string; shop_address?: string })[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<'today' | 'week'>('week');
+  const [view, setView] = useState<'appointments' | 'shifts' | 'skills'>('appointments');
+  const [shops, setShops] = useState<{ id: string; name: string }[]>([]);
+  const shopIds = useMemo(() => shops.map(shop => shop.id), [shops]);
 
   useEffect(() => {
     if (isOpen && staff) {
@@ -21,6 +29,27 @@ export function StaffScheduleModal({ staff, isOpen, onClose }: StaffScheduleModa
     }
   }, [isOpen, staff, filter]);
 
+  useEffect(() => {
+    if (isOpen && view !== 'appointments' && shops.length === 0) {
+      loadShops();
+    }
+  }, [isOpen, view, shops.length]);
+
+  const loadShops = async () => {
+    const organizationId = await getCurrentOrganizationId();
+    if (!organizationId) return;
+    const { data, error } = await supabase
+      .from('shops')
+      .select('id, name')
+      .eq('organization_id', organizationId)
+      .order('name', { ascending: true });
+    if (error) {
+      console.error('Error loading branches:', error);
+      return;
+    }
+    setShops(data || []);
+  };
+
   const loadSchedule = async () => {
     setLoading(true);
     try {
@@ -49,6 +78,7 @@ export function StaffScheduleModal({ staff, isOpen, onClose }: StaffScheduleModa
       case 'pending': return 'bg-yellow-100 text-yellow-700 border-yellow-200';
       case 'completed': return 'bg-blue-100 text-blue-700 border-blue-200';
       case 'cancelled': return 'bg-red-100 text-red-700 border-red-200';
+      case 'no_show': return 'bg-gray-200 text-gray-800 border-gray-300';
       default: return 'bg-gray-100 text-gray-700 border-gray-200';
     }
   };
@@ -93,7 +123,8 @@ export function StaffScheduleModal({ staff, isOpen, onClose }: StaffScheduleModa
       const end = apt.end_at ? new Date(apt.end_at) : new Date(start.getTime() + 60 * 60 * 1000); // Default 1 hour
       return now >= start && now <= end && apt.status === 'confirmed';
     });
-    return currentAppointment ? 'busy' : 'available';
+    // Fall back to the roster status (shifts / time off) when not in an appointment
+    return currentAppointment ? 'busy' : staff.status;
   };
 
   if (!isOpen) return null;
@@ -134,9 +165,9 @@ export function StaffScheduleModal({ staff, isOpen, onClose }: StaffScheduleModa
                 <p className="text-xs text-gray-500">Current Status</p>
                 <div className="flex items-center gap-2 mt-1">
                   <div className={`w-3 h-3 rounded-full ${
-                    currentStatus === 'busy' ? 'bg-red-500' : 'bg-green-500'
+                    currentStatus === 'busy' ? 'bg-red-500' : currentStatus === 'break' ? 'bg-yellow-500' : 'bg-green-500'
                   }`}></div>
-                  <span className="text-sm font-semibold text-gray-900 capitalize">{currentStatus}</span>
+                  <span className="text-sm font-semibold text-gray-900 capitalize">{currentStatus === 'break' ? 'Off shift' : currentStatus}</span>
                 </div>
               </div>
               <div>
@@ -150,9 +181,29 @@ export function StaffScheduleModal({ staff, isOpen, onClose }: StaffScheduleModa
             </div>
             <div className="flex gap-2">
               <button
-                onClick={() => setFilter('today')}
+                onClick={() => setView(view === 'shifts' ? 'appointments' : 'shifts')}
+                className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                  view === 'shifts'
+                    ? 'bg-purple-500 text-white'
+                    : 'bg-white text-gray-700 border border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                Shifts
+              </button>
+              <button
+                onClick={() => setView(view === 'skills' ? 'appointments' : 'skills')}
+                className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                  view === 'skills'
+                    ? 'bg-purple-500 text-white'
+                    : 'bg-white text-gray-700 border border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                Skills
+              </button>
+              <button
+                onClick={() => { setView('appointments'); setFilter('today'); }}
                 className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
-                  filter === 'today'
+                  view === 'appointments' && filter === 'today'
                     ? 'bg-pink-500 text-white'
                     : 'bg-white text-gray-700 border border-gray-200 hover:bg-gray-50'
                 }`}
@@ -160,9 +211,9 @@ export function StaffScheduleModal({ staff, isOpen, onClose }: StaffScheduleModa
                 Today
               </button>
               <button
-                onClick={() => setFilter('week')}
+                onClick={() => { setView('appointments'); setFilter('week'); }}
                 className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
-                  filter === 'week'
+                  view === 'appointments' && filter === 'week'
                     ? 'bg-pink-500 text-white'
                     : 'bg-white text-gray-700 border border-gray-200 hover:bg-gray-50'
                 }`}
@@ -175,7 +226,11 @@ export function StaffScheduleModal({ staff, isOpen, onClose }: StaffScheduleModa
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-6">
-          {loading ? (
+          {view === 'shifts' ? (
+            <StaffShiftsEditor staffId={staff.id} shops={shops} />
+          ) : view === 'skills' ? (
+            <StaffSkillsEditor staffId={staff.id} shopIds={shopIds} />
+          ) : loading ? (
             <div className="flex items-center justify-center h-64">
               <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500"></div>
             </div>
@@ -212,7 +267,7 @@ export function StaffScheduleModal({ staff, isOpen, onClose }: StaffScheduleModa
                       <div className="flex items-center gap-2 mb-2">
                         <span className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold border ${getStatusColor(appointment.status)}`}>
                           {getStatusIcon(appointment.status)}
-                          <span className="capitalize">{appointment.status}</span>
+                          <span className="capitalize">{formatBookingStatus(appointment.status)}</span>
                         </span>
                       </div>
                     </div>
@@ -0,0 +1,124 @@
+import { useState, useEffect } from 'react';
+import { Save, AlertTriangle } from 'lucide-react';
+import { BusinessHoursEditor } from './BusinessHoursEditor';
+import { getStaffShifts, saveStaffShifts, getRosterConflicts } from '../../api/roster';
+import { shiftsToSchedule } from '../../utils/roster';
+import { glamError, glamSuccess } from '../../lib/glamAlerts';
+import type { RosterConflict, StaffShift, WeeklySchedule } from '../../types/multiTenancy';
+
+interface StaffShiftsEditorProps {
+  staffId: string;
+  shops: { id: string; name: string }[];
+}
+
+// Weekly shift editor for one staff member, one branch at a time
+export function StaffShiftsEditor({ staffId, shops }: StaffShiftsEditorProps) {
+  const [shopId, setShopId] = useState(shops[0]?.id || '');
+  const [shifts, setShifts] = useState<StaffShift[]>([]);
+  const [schedule, setSchedule] = useState<WeeklySchedule | null>(null);
+  const [conflicts, setConflicts] = useState<RosterConflict[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!shopId && shops.length > 0) setShopId(shops[0].id);
+  }, [shops, shopId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([getStaffShifts([staffId]), getRosterConflicts([staffId])]).then(([shiftData, conflictData]) => {
+      if (cancelled) return;
+      setShifts(shiftData);
+      setConflicts(conflictData);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [staffId]);
+
+  useEffect(() => {
+    setSchedule(shiftsToSchedule(shifts.filter(shift => shift.shop_id === shopId)));
+  }, [shifts, shopId]);
+
+  const handleSave = async () => {
+    if (!schedule || !shopId) return;
+    setSaving(true);
+    try {
+      await saveStaffShifts(staffId, shopId, schedule);
+      const [shiftData, conflictData] = await Promise.all([getStaffShifts([staffId]), getRosterConflicts([staffId])]);
+      setShifts(shiftData);
+      setConflicts(conflictData);
+      glamSuccess('Shifts saved');
+    } catch (error) {
+      console.error('Error saving shifts:', error);
+      glamError(error instanceof Error ? error.message : 'Failed to save shifts');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (shops.length === 0) {
+    return <p className="text-sm text-gray-500">Add a branch before assigning shifts.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        {shops.length > 1 ? (
+          <select
+            value={shopId}
+            onChange={(e) => setShopId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+          >
+            {shops.map(shop => (
+              <option key={shop.id} value={shop.id}>{shop.name}</option>
+            ))}
+          </select>
+        ) : (
+          <p className="text-sm font-medium text-gray-700">{shops[0].name}</p>
+        )}
+        <button
+          onClick={handleSave}
+          disabled={saving || !schedule}
+          className="px-4 py-2 bg-pink-500 hover:bg-pink-600 text-white rounded-lg text-sm font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          <span>{saving ? 'Saving...' : 'Save Shifts'}</span>
+        </button>
+      </div>
+
+      {shifts.length === 0 && (
+        <p className="text-xs text-gray-500">
+          No shifts yet - this staff member is bookable during all opening hours until shifts are added.
+        </p>
+      )}
+
+      {schedule && <BusinessHoursEditor schedule={schedule} onChange={setSchedule} />}
+
+      {conflicts.length > 0 && (
+        <div className="p-3 bg-orange-50 border border-orange-200 rounded-lg">
+          <div className="flex items-center gap-2 mb-2">
+            <AlertTriangle className="w-4 h-4 text-orange-600" />
+            <p className="text-sm font-semibold text-orange-800">
+              {conflicts.length} upcoming {conflicts.length === 1 ? 'booking needs' : 'bookings need'} reassigning
+            </p>
+          </div>
+          <ul className="space-y-1">
+            {conflicts.map(conflict => (
+              <li key={conflict.booking_id} className="text-xs text-orange-700">
+                {new Date(conflict.start_at).toLocaleString('en-US', {
+                  weekday: 'short',
+                  month: 'short',
+                  day: 'numeric',
+                  hour: 'numeric',
+                  minute: '2-digit',
+                })}
+                {' - '}
+                {conflict.reason === 'time_off' ? 'during approved time off' : 'outside scheduled shifts'}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState, useEffect } from 'react';
+import { Save } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { getStaffSkills, saveStaffSkills } from '../../api/staffSkills';
+import { glamError, glamSuccess } from '../../lib/glamAlerts';
+
+interface StaffSkillsEditorProps {
+  staffId: string;
+  shopIds: string[];
+}
+
+// Pick which services a staff member can perform; clients only see them as a
+// stylist option for these services
+export function StaffSkillsEditor({ staffId, shopIds }: StaffSkillsEditorProps) {
+  const [services, setServices] = useState<{ id: string; name: string; category: string }[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      const [servicesResult, skills] = await Promise.all([
+        shopIds.length > 0
+          ? supabase.from('services').select('id, name, category').in('shop_id', shopIds).order('name', { ascending: true })
+          : Promise.resolve({ data: [], error: null }),
+        getStaffSkills([staffId]),
+      ]);
+      if (cancelled) return;
+      if (servicesResult.error) {
+        console.error('Error loading services:', servicesResult.error);
+      }
+      setServices(servicesResult.data || []);
+      setSelected(new Set(skills.map(skill => skill.service_id)));
+      setLoading(false);
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [staffId, shopIds]);
+
+  const toggle = (serviceId: string) => {
+    const next = new Set(selected);
+    if (next.has(serviceId)) {
+      next.delete(serviceId);
+    } else {
+      next.add(serviceId);
+    }
+    setSelected(next);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveStaffSkills(staffId, [...selected]);
+      glamSuccess('Skills saved');
+    } catch (error) {
+      console.error('Error saving skills:', error);
+      glamError(error instanceof Error ? error.message : 'Failed to save skills');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-pink-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-gray-600">
+          {selected.size === 0 ? 'Can perform all services' : `${selected.size} service${selected.size === 1 ? '' : 's'} selected`}
+        </p>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-pink-500 hover:bg-pink-600 text-white rounded-lg text-sm font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          <span>{saving ? 'Saving...' : 'Save Skills'}</span>
+        </button>
+      </div>
+
+      {services.length === 0 ? (
+        <p className="text-sm text-gray-500">No services found for your branches.</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {services.map(service => (
+            <label
+              key={service.id}
+              className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                selected.has(service.id) ? 'border-pink-300 bg-pink-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={selected.has(service.id)}
+                onChange={() => toggle(service.id)}
+                className="w-4 h-4 text-pink-600 border-gray-300 rounded focus:ring-pink-500"
+              />
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{service.name}</p>
+                <p className="text-xs text-gray-500 capitalize">{service.category}</p>
+              </div>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
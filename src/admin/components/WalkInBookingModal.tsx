@@ -3,10 +3,11 @@ import { X, CreditCard, CheckCircle, Loader, UserPlus } from 'lucide-react';
 import { getServices } from '../../client/api/services';
 import { getAllClients } from '../../api/admin';
 import { createBookingForClient } from '../../api/clientBookings';
-import { supabase } from '../../lib/supabase';
+import { getAvailableSlots, getBookingEndAt, isSlotAvailable, type AvailabilitySlot } from '../../api/availability';
 import type { Service } from '../../client/types';
-import type { Client } from '../../api/admin';
+import type { AppointmentWithDetails, Client } from '../../api/admin';
 import { AddClientModal } from './AddClientModal';
+import { CheckoutModal } from '../../components/CheckoutModal';
 
 interface WalkInBookingModalProps {
   isOpen: boolean;
@@ -24,6 +25,8 @@ export function WalkInBookingModal({ isOpen, onClose, onBookingComplete }: WalkI
   const [selectedService, setSelectedService] = useState<Service | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [selectedTime, setSelectedTime] = useState<string>('');
+  const [timeSlots, setTimeSlots] = useState<AvailabilitySlot[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
   const [customerName, setCustomerName] = useState('');
   const [customerPhone, setCustomerPhone] = useState('');
   const [customerEmail, setCustomerEmail] = useState('');
@@ -34,6 +37,9 @@ export function WalkInBookingModal({ isOpen, onClose, onBookingComplete }: WalkI
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [bookingId, setBookingId] = useState<string | null>(null);
+  const [bookingStartAt, setBookingStartAt] = useState<string | null>(null);
+  const [checkoutAppointment, setCheckoutAppointment] = useState<AppointmentWithDetails | null>(null);
+  const [checkedOut, setCheckedOut] = useState(false);
 
   useEffect(() => {
     if (isOpen) {
@@ -44,6 +50,38 @@ export function WalkInBookingModal({ isOpen, onClose, onBookingComplete }: WalkI
     }
   }, [isOpen]);
 
+  // Reload duration-aware availability whenever the service or date changes
+  useEffect(() => {
+    if (!selectedService || !selectedDate) {
+      setTimeSlots([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadSlots = async () => {
+      try {
+        setLoadingSlots(true);
+        const slots = await getAvailableSlots({
+          shopId: selectedService.shop_id,
+          date: selectedDate,
+          durationMinutes: selectedService.duration,
+          serviceId: selectedService.id,
+        });
+        if (!cancelled) setTimeSlots(slots);
+      } catch (err) {
+        console.error('Error loading availability:', err);
+        if (!cancelled) setTimeSlots([]);
+      } finally {
+        if (!cancelled) setLoadingSlots(false);
+      }
+    };
+
+    loadSlots();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedService, selectedDate]);
+
   const resetForm = () => {
     setStep('client');
     setSelectedClient(null);
@@ -58,6 +96,9 @@ export function WalkInBookingModal({ isOpen, onClose, onBookingComplete }: WalkI
     setPaymentMethod('cash');
     setError(null);
     setBookingId(null);
+    setBookingStartAt(null);
+    setCheckoutAppointment(null);
+    setCheckedOut(false);
   };
 
   const loadData = async () => {
@@ -79,16 +120,6 @@ export function WalkInBookingModal({ isOpen, onClose, onBookingComplete }: WalkI
     client.phone?.toLowerCase().includes(clientSearch.toLowerCase())
   );
 
-  const generateTimeSlots = (): string[] => {
-    const slots: string[] = [];
-    for (let hour = 9; hour <= 18; hour++) {
-      for (let minute = 0; minute < 60; minute += 30) {
-        slots.push(`${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`);
-      }
-    }
-    return slots;
-  };
-
   const handleClientSelect = (client: Client) => {
     setSelectedClient(client);
     setStep('service');
@@ -123,15 +154,27 @@ export function WalkInBookingModal({ isOpen, onClose, onBookingComplete }: WalkI
       const dateTime = new Date(selectedDate!);
       dateTime.setHours(hours, minutes, 0, 0);
 
+      const stillAvailable = await isSlotAvailable({
+        shopId: selectedService!.shop_id,
+        start: dateTime,
+        durationMinutes: selectedService!.duration,
+        serviceId: selectedService!.id,
+      });
+      if (!stillAvailable) {
+        throw new Error('This time slot is no longer available. Please select another time.');
+      }
+
       const booking = await createBookingForClient({
         client_id: clientId,
         service_id: selectedService!.id,
         shop_id: selectedService!.shop_id,
         start_at: dateTime.toISOString(),
+        end_at: getBookingEndAt(dateTime, selectedService!.duration),
         notes: `Walk-in customer. Payment: ${paymentMethod}`,
       });
 
       setBookingId(String(booking.id));
+      setBookingStartAt(dateTime.toISOString());
       setStep('complete');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to process booking');
@@ -159,28 +202,30 @@ export function WalkInBookingModal({ isOpen, onClose, onBookingComplete }: WalkI
     await handlePaymentContinue(selectedClient.id);
   };
 
-  const handleMarkComplete = async () => {
-    if (!bookingId) return;
-
-    try {
-      setLoading(true);
-      await supabase
-        .from('bookings')
-        .update({ status: 'completed' })
-        .eq('id', bookingId);
+  // Completing the service rings it up at checkout
+  const handleMarkComplete = () => {
+    if (!bookingId || !selectedService) return;
+
+    setCheckoutAppointment({
+      id: Number(bookingId),
+      client_id: selectedClient?.id ?? '',
+      service_id: selectedService.id,
+      start_at: bookingStartAt ?? new Date().toISOString(),
+      status: 'confirmed',
+      client_name: selectedClient?.full_name || customerName || selectedClient?.email,
+      client_email: selectedClient?.email || customerEmail || undefined,
+      service_name: selectedService.name,
+      service_price: selectedService.price,
+    });
+  };
 
-      onBookingComplete();
-      onClose();
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to mark as complete');
-    } finally {
-      setLoading(false);
-    }
+  const handleCheckoutClose = () => {
+    setCheckoutAppointment(null);
+    if (checkedOut) onClose();
   };
 
   if (!isOpen) return null;
 
-  const timeSlots = generateTimeSlots();
   const today = new Date();
   today.setHours(0, 0, 0, 0);
 
@@ -305,7 +350,10 @@ export function WalkInBookingModal({ isOpen, onClose, onBookingComplete }: WalkI
                     return (
                       <button
                         key={i}
-                        onClick={() => setSelectedDate(date)}
+                        onClick={() => {
+                          setSelectedDate(date);
+                          setSelectedTime('');
+                        }}
                         className={`p-3 rounded-lg border-2 transition-all ${
                           isSelected
                             ? 'border-pink-500 bg-pink-50'
@@ -324,22 +372,35 @@ export function WalkInBookingModal({ isOpen, onClose, onBookingComplete }: WalkI
               </div>
 
               <div>
-                <h3 className="text-lg font-semibold text-gray-900 mb-4">Select Time</h3>
-                <div className="grid grid-cols-4 gap-2">
-                  {timeSlots.map((time) => (
-                    <button
-                      key={time}
-                      onClick={() => setSelectedTime(time)}
-                      className={`p-3 rounded-lg border-2 transition-all ${
-                        selectedTime === time
-                          ? 'border-pink-500 bg-pink-50 text-pink-600'
-                          : 'border-gray-200 hover:border-pink-300 text-gray-700'
-                      }`}
-                    >
-                      {time}
-                    </button>
-                  ))}
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900">Select Time</h3>
+                  {loadingSlots && <span className="text-sm text-gray-500">Checking availability...</span>}
                 </div>
+                {!selectedDate ? (
+                  <p className="text-sm text-gray-500">Select a date to see available times.</p>
+                ) : !loadingSlots && timeSlots.length === 0 ? (
+                  <p className="text-sm text-gray-500">No openings for a {selectedService.duration}-minute appointment on this date.</p>
+                ) : (
+                  <div className="grid grid-cols-4 gap-2">
+                    {timeSlots.map((slot) => (
+                      <button
+                        key={slot.time}
+                        onClick={() => slot.available && setSelectedTime(slot.time)}
+                        disabled={!slot.available}
+                        title={!slot.available ? 'No stylist is free for the full service duration' : ''}
+                        className={`p-3 rounded-lg border-2 transition-all ${
+                          selectedTime === slot.time
+                            ? 'border-pink-500 bg-pink-50 text-pink-600'
+                            : slot.available
+                            ? 'border-gray-200 hover:border-pink-300 text-gray-700'
+                            : 'border-gray-100 bg-gray-50 text-gray-300 cursor-not-allowed'
+                        }`}
+                      >
+                        {slot.time}
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -445,7 +506,7 @@ export function WalkInBookingModal({ isOpen, onClose, onBookingComplete }: WalkI
               </div>
               <h3 className="text-2xl font-bold text-gray-900 mb-2">Booking Confirmed!</h3>
               <p className="text-gray-600 mb-6">
-                The booking has been created successfully. You can mark it as complete once the service is done.
+                The booking has been created successfully. Check the client out once the service is done.
               </p>
               <div className="space-y-3">
                 <button
@@ -461,7 +522,7 @@ export function WalkInBookingModal({ isOpen, onClose, onBookingComplete }: WalkI
                   ) : (
                     <>
                       <CheckCircle className="w-5 h-5" />
-                      <span>Mark Service as Complete</span>
+                      <span>Check Out</span>
                     </>
                   )}
                 </button>
@@ -543,6 +604,16 @@ export function WalkInBookingModal({ isOpen, onClose, onBookingComplete }: WalkI
         )}
       </div>
 
+      <CheckoutModal
+        isOpen={!!checkoutAppointment}
+        appointment={checkoutAppointment}
+        onClose={handleCheckoutClose}
+        onCompleted={() => {
+          setCheckedOut(true);
+          onBookingComplete();
+        }}
+      />
+
       {/* Add Client Modal */}
       {showAddClientModal && (
         <AddClientModal
@@ -20,6 +20,7 @@ import {
   ResponsiveContainer,
 } from 'recharts';
 import { getAnalyticsData, type AnalyticsData } from '../../api/admin';
+import { PermissionGuard } from '../../tenant/PermissionGuard';
 import { AnalyticsAIChatbot } from '../../components/AnalyticsAIChatbot';
 import '../../styles/components/analytics-chatbot.css';
 
@@ -123,14 +124,16 @@ export function AnalyticsScreen() {
 
       {/* Key Metrics */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
-        <div className="bg-gradient-to-br from-green-500 to-green-600 rounded-xl p-6 text-white">
-          <div className="flex items-center justify-between mb-4">
-            <DollarSign className="w-8 h-8 opacity-80" />
-            <span className="text-sm bg-white/20 px-2 py-1 rounded">+12%</span>
+        <PermissionGuard permission="analytics.view_revenue">
+          <div className="bg-gradient-to-br from-green-500 to-green-600 rounded-xl p-6 text-white">
+            <div className="flex items-center justify-between mb-4">
+              <DollarSign className="w-8 h-8 opacity-80" />
+              <span className="text-sm bg-white/20 px-2 py-1 rounded">+12%</span>
+            </div>
+            <p className="text-sm opacity-90 mb-1">Total Revenue</p>
+            <p className="text-3xl font-bold">{formatCurrency(analytics?.totalRevenue || 0)}</p>
           </div>
-          <p className="text-sm opacity-90 mb-1">Total Revenue</p>
-          <p className="text-3xl font-bold">{formatCurrency(analytics?.totalRevenue || 0)}</p>
-        </div>
+        </PermissionGuard>
 
         <div className="bg-gradient-to-br from-blue-500 to-blue-600 rounded-xl p-6 text-white">
           <div className="flex items-center justify-between mb-4">
@@ -163,43 +166,45 @@ export function AnalyticsScreen() {
       {/* Charts Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Revenue Trend */}
-        <div className="bg-white rounded-xl p-6 border border-gray-100">
-          <div className="flex items-center justify-between mb-6">
-            <div>
-              <h3 className="text-lg font-semibold text-gray-900">Revenue Trend</h3>
-              <p className="text-sm text-gray-500 mt-1">Monthly performance</p>
+        <PermissionGuard permission="analytics.view_revenue">
+          <div className="bg-white rounded-xl p-6 border border-gray-100">
+            <div className="flex items-center justify-between mb-6">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Revenue Trend</h3>
+                <p className="text-sm text-gray-500 mt-1">Monthly performance</p>
+              </div>
+              <BarChart3 className="w-6 h-6 text-gray-400" />
             </div>
-            <BarChart3 className="w-6 h-6 text-gray-400" />
+            {analytics?.monthlyTrend && analytics.monthlyTrend.length > 0 ? (
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={analytics.monthlyTrend}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                  <XAxis dataKey="month" stroke="#9ca3af" style={{ fontSize: '12px' }} />
+                  <YAxis stroke="#9ca3af" style={{ fontSize: '12px' }} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: '#fff',
+                      border: '1px solid #e5e7eb',
+                      borderRadius: '8px',
+                    }}
+                    formatter={(value: number) => [formatCurrency(value), 'Revenue']}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="revenue"
+                    stroke="#ec4899"
+                    strokeWidth={3}
+                    dot={{ fill: '#ec4899', strokeWidth: 2, r: 4 }}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="h-64 flex items-center justify-center text-gray-500">
+                No data available
+              </div>
+            )}
           </div>
-          {analytics?.monthlyTrend && analytics.monthlyTrend.length > 0 ? (
-            <ResponsiveContainer width="100%" height={300}>
-              <LineChart data={analytics.monthlyTrend}>
-                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                <XAxis dataKey="month" stroke="#9ca3af" style={{ fontSize: '12px' }} />
-                <YAxis stroke="#9ca3af" style={{ fontSize: '12px' }} />
-                <Tooltip
-                  contentStyle={{
-                    backgroundColor: '#fff',
-                    border: '1px solid #e5e7eb',
-                    borderRadius: '8px',
-                  }}
-                  formatter={(value: number) => [formatCurrency(value), 'Revenue']}
-                />
-                <Line
-                  type="monotone"
-                  dataKey="revenue"
-                  stroke="#ec4899"
-                  strokeWidth={3}
-                  dot={{ fill: '#ec4899', strokeWidth: 2, r: 4 }}
-                />
-              </LineChart>
-            </ResponsiveContainer>
-          ) : (
-            <div className="h-64 flex items-center justify-center text-gray-500">
-              No data available
-            </div>
-          )}
-        </div>
+        </PermissionGuard>
 
         {/* Bookings by Month */}
         <div className="bg-white rounded-xl p-6 border border-gray-100">
@@ -1,11 +1,17 @@
-import { useState, useEffect } from 'react';
-import { Calendar, Clock, Search, Filter, Eye, Check, X, Trash2 } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { Calendar, Clock, Search, Filter, Eye, Check, X, Trash2, CalendarClock, UserX, Repeat } from 'lucide-react';
 import { getAllAppointments, type AppointmentWithDetails } from '../../api/admin';
 import { adminUpdateBookingStatus, adminDeleteBooking } from '../../api/bookings';
 import { supabase } from '../../lib/supabase';
 import { AdminBookingModal } from '../components/AdminBookingModal';
 import { AppointmentDetailsModal } from '../../components/AppointmentDetailsModal';
-import { glamConfirm, glamError, glamSuccess } from '../../lib/glamAlerts';
+import { RescheduleModal } from '../../components/RescheduleModal';
+import { CheckoutModal } from '../../components/CheckoutModal';
+import { appointmentToRescheduleTarget } from '../../api/reschedule';
+import { formatBookingStatus } from '../../utils/bookingPolicy';
+import { glamChoice, glamConfirm, glamError, glamPrompt, glamSuccess } from '../../lib/glamAlerts';
+import { cancelSeriesBookings } from '../../api/recurringBookings';
+import type { Checkout } from '../../types/multiTenancy';
 
 export function AppointmentsScreen() {
   const [appointments, setAppointments] = useState<AppointmentWithDetails[]>([]);
@@ -16,6 +22,12 @@ export function AppointmentsScreen() {
   const [selectedAppointment, setSelectedAppointment] = useState<AppointmentWithDetails | null>(null);
   const [showDetailsModal, setShowDetailsModal] = useState(false);
   const [updatingIds, setUpdatingIds] = useState<Record<number, boolean>>({});
+  const [reschedulingAppointment, setReschedulingAppointment] = useState<AppointmentWithDetails | null>(null);
+  const [checkoutAppointment, setCheckoutAppointment] = useState<AppointmentWithDetails | null>(null);
+  const rescheduleTarget = useMemo(
+    () => reschedulingAppointment && appointmentToRescheduleTarget(reschedulingAppointment),
+    [reschedulingAppointment]
+  );
 
   useEffect(() => {
     loadAppointments();
@@ -49,10 +61,10 @@ export function AppointmentsScreen() {
     }
   };
 
-  const handleStatusUpdate = async (id: number, status: AppointmentWithDetails['status']) => {
+  const handleStatusUpdate = async (id: number, status: AppointmentWithDetails['status'], reason?: string) => {
     try {
       setUpdatingIds(prev => ({ ...prev, [id]: true }));
-      await adminUpdateBookingStatus(id, status);
+      await adminUpdateBookingStatus(id, status, reason);
       setAppointments(prev =>
         prev.map(apt => apt.id === id ? { ...apt, status } : apt)
       );
@@ -63,6 +75,7 @@ export function AppointmentsScreen() {
       if (status === 'confirmed') glamSuccess('Appointment confirmed');
       else if (status === 'completed') glamSuccess('Appointment marked as completed');
       else if (status === 'cancelled') glamSuccess('Appointment cancelled');
+      else if (status === 'no_show') glamSuccess('Appointment marked as no-show');
       else glamSuccess('Appointment updated');
     } catch (error) {
       console.error('Error updating status:', error);
@@ -77,6 +90,31 @@ export function AppointmentsScreen() {
     }
   };
 
+  const handleCancelSeries = async (id: number, reason: string) => {
+    try {
+      setUpdatingIds(prev => ({ ...prev, [id]: true }));
+      const { cancelled } = await cancelSeriesBookings({ bookingId: id, scope: 'future', reason });
+      await loadAppointments();
+      glamSuccess(`${cancelled} appointment${cancelled !== 1 ? 's' : ''} cancelled`);
+    } catch (error) {
+      console.error('Error cancelling series:', error);
+      glamError(error instanceof Error ? error.message : 'Failed to cancel appointments');
+    } finally {
+      setUpdatingIds(prev => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+    }
+  };
+
+  const handleCheckoutCompleted = (checkout: Checkout) => {
+    setAppointments(prev =>
+      prev.map(apt => apt.id === checkout.booking_id ? { ...apt, status: 'completed' } : apt)
+    );
+    setSelectedAppointment(prev => (prev && prev.id === checkout.booking_id ? { ...prev, status: 'completed' } : prev));
+  };
+
   const requestStatusUpdate = async (id: number, status: AppointmentWithDetails['status']) => {
     const apt = appointments.find(a => a.id === id);
     const confirmText = status === 'confirmed'
@@ -85,7 +123,9 @@ export function AppointmentsScreen() {
         ? 'Yes, mark complete'
         : status === 'cancelled'
           ? 'Yes, cancel'
-          : 'Confirm';
+          : status === 'no_show'
+            ? 'Yes, mark no-show'
+            : 'Confirm';
 
     const title = status === 'confirmed'
       ? 'Confirm this appointment?'
@@ -93,12 +133,46 @@ export function AppointmentsScreen() {
         ? 'Mark this appointment as completed?'
         : status === 'cancelled'
           ? 'Cancel this appointment?'
-          : 'Update this appointment?';
+          : status === 'no_show'
+            ? 'Mark this client as a no-show?'
+            : 'Update this appointment?';
 
     const text = apt
       ? `${apt.client_name || 'Client'} • ${apt.service_name || 'Service'} • ${new Date(apt.start_at).toLocaleString()}`
       : 'Please confirm you want to proceed.';
 
+    // Completing an appointment goes through checkout
+    if (status === 'completed' && apt) {
+      setShowDetailsModal(false);
+      setCheckoutAppointment(apt);
+      return;
+    }
+
+    // Salon cancellations record a reason for the client's history
+    if (status === 'cancelled') {
+      // Recurring appointments can be cancelled along with the rest of the series
+      let cancelFuture = false;
+      if (apt?.series_id) {
+        const choice = await glamChoice({
+          title: 'This is a recurring appointment',
+          text: 'Cancel just this appointment, or this one and all later ones in the series?',
+          confirmText: 'This one only',
+          denyText: 'This and all future',
+        });
+        if (choice === null) return;
+        cancelFuture = choice === 'deny';
+      }
+
+      const reason = await glamPrompt({ title, text, placeholder: 'Reason (optional)', confirmText });
+      if (reason === null) return;
+      if (cancelFuture) {
+        await handleCancelSeries(id, reason);
+        return;
+      }
+      await handleStatusUpdate(id, status, reason);
+      return;
+    }
+
     const ok = await glamConfirm({ title, text, confirmText });
     if (!ok) return;
 
@@ -162,6 +236,7 @@ export function AppointmentsScreen() {
       case 'pending': return 'bg-yellow-100 text-yellow-700 border-yellow-200';
       case 'completed': return 'bg-blue-100 text-blue-700 border-blue-200';
       case 'cancelled': return 'bg-red-100 text-red-700 border-red-200';
+      case 'no_show': return 'bg-gray-200 text-gray-800 border-gray-300';
       default: return 'bg-gray-100 text-gray-700 border-gray-200';
     }
   };
@@ -267,6 +342,7 @@ export function AppointmentsScreen() {
               <option value="confirmed">Confirmed</option>
               <option value="completed">Completed</option>
               <option value="cancelled">Cancelled</option>
+              <option value="no_show">No-show</option>
             </select>
             <button className="px-4 py-2 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2">
               <Filter className="w-4 h-4" />
@@ -354,8 +430,13 @@ export function AppointmentsScreen() {
                     </td>
                     <td className="px-6 py-4">
                       <span className={`inline-flex px-3 py-1 rounded-full text-xs font-semibold border ${getStatusColor(apt.status)}`}>
-                        {apt.status}
+                        {formatBookingStatus(apt.status)}
                       </span>
+                      {apt.series_id && (
+                        <span className="ml-1 inline-flex items-center text-purple-600" title="Recurring appointment">
+                          <Repeat className="w-3 h-3" />
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4">
                       <div className="flex items-center space-x-2">
@@ -389,6 +470,26 @@ export function AppointmentsScreen() {
                             <Check className="w-4 h-4" />
                           </button>
                         )}
+                        {(apt.status === 'pending' || apt.status === 'confirmed') && new Date(apt.start_at) <= new Date() && (
+                          <button
+                            onClick={() => void requestStatusUpdate(apt.id, 'no_show')}
+                            disabled={!!updatingIds[apt.id]}
+                            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                            title="Mark No-show"
+                          >
+                            <UserX className="w-4 h-4" />
+                          </button>
+                        )}
+                        {(apt.status === 'pending' || apt.status === 'confirmed') && (
+                          <button
+                            onClick={() => setReschedulingAppointment(apt)}
+                            disabled={!!updatingIds[apt.id]}
+                            className="p-2 text-purple-600 hover:bg-purple-50 rounded-lg transition-colors"
+                            title="Reschedule"
+                          >
+                            <CalendarClock className="w-4 h-4" />
+                          </button>
+                        )}
                         <button
                           onClick={() => openDetails(apt)}
                           className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
@@ -441,6 +542,21 @@ export function AppointmentsScreen() {
         }}
       />
 
+      <RescheduleModal
+        isOpen={!!rescheduleTarget}
+        booking={rescheduleTarget}
+        canOverride
+        onClose={() => setReschedulingAppointment(null)}
+        onRescheduled={loadAppointments}
+      />
+
+      <CheckoutModal
+        isOpen={!!checkoutAppointment}
+        appointment={checkoutAppointment}
+        onClose={() => setCheckoutAppointment(null)}
+        onCompleted={handleCheckoutCompleted}
+      />
+
       <AppointmentDetailsModal
         isOpen={showDetailsModal}
         appointment={selectedAppointment}
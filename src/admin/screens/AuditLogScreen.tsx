@@ -0,0 +1,200 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Download, ShieldCheck, Search } from 'lucide-react';
+import { getAuditLog } from '../../api/auditLog';
+import { AUDIT_ACTIONS, AUDIT_ACTION_LABELS, buildAuditLogCsv, getAuditChangeLines } from '../../utils/auditLog';
+import { downloadCsv } from '../../utils/csv';
+import { toDateKey } from '../../utils/businessHours';
+import { PermissionGuard } from '../../tenant/PermissionGuard';
+import type { AuditAction, AuditLogEntry } from '../../types/multiTenancy';
+
+// The last 30 days
+function getDefaultRange() {
+  const today = new Date();
+  const start = new Date(today);
+  start.setDate(start.getDate() - 30);
+  return { from: toDateKey(start), to: toDateKey(today) };
+}
+
+export function AuditLogScreen() {
+  const [range, setRange] = useState(getDefaultRange);
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [actorId, setActorId] = useState('');
+  const [search, setSearch] = useState('');
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [actors, setActors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    getAuditLog({ action: action || undefined, actorId: actorId || undefined, from: range.from, to: range.to })
+      .then(data => {
+        if (cancelled) return;
+        setEntries(data);
+        // Remember everyone seen so the actor filter keeps its options
+        setActors(prev => {
+          const next = { ...prev };
+          for (const entry of data) {
+            if (entry.actor_id) next[entry.actor_id] = entry.actor_name || 'Unknown';
+          }
+          return next;
+        });
+      })
+      .catch(err => {
+        console.error('Error loading audit log:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load the audit log');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [range, action, actorId]);
+
+  const visibleEntries = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return entries;
+    return entries.filter(entry =>
+      [entry.target_label, entry.actor_name, ...getAuditChangeLines(entry)]
+        .some(text => text?.toLowerCase().includes(term))
+    );
+  }, [entries, search]);
+
+  const handleExport = () => {
+    downloadCsv(`audit-log-${range.from}-to-${range.to}.csv`, buildAuditLogCsv(visibleEntries));
+  };
+
+  return (
+    <PermissionGuard
+      permission="audit.view"
+      fallback={
+        <div className="bg-white rounded-xl p-12 border border-gray-100 text-center text-sm text-gray-500">
+          You don't have permission to view the audit log.
+        </div>
+      }
+    >
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+            <p className="text-sm text-gray-500 mt-1">Who deleted bookings, changed prices and edited staff</p>
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={visibleEntries.length === 0}
+            className="px-4 py-2 border border-pink-200 text-pink-600 hover:bg-pink-50 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            Export CSV
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white rounded-xl p-4 border border-gray-100 flex flex-wrap items-center gap-2">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search targets and changes"
+              className="w-full pl-9 pr-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-pink-500"
+            />
+          </div>
+          <select
+            value={action}
+            onChange={(e) => setAction(e.target.value as AuditAction | '')}
+            className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-pink-500"
+          >
+            <option value="">All actions</option>
+            {AUDIT_ACTIONS.map(value => (
+              <option key={value} value={value}>{AUDIT_ACTION_LABELS[value]}</option>
+            ))}
+          </select>
+          <select
+            value={actorId}
+            onChange={(e) => setActorId(e.target.value)}
+            className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-pink-500"
+          >
+            <option value="">Everyone</option>
+            {Object.entries(actors).map(([id, name]) => (
+              <option key={id} value={id}>{name}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={range.from}
+            max={range.to}
+            onChange={(e) => setRange(prev => ({ ...prev, from: e.target.value }))}
+            className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-pink-500"
+          />
+          <span className="text-sm text-gray-500">to</span>
+          <input
+            type="date"
+            value={range.to}
+            min={range.from}
+            onChange={(e) => setRange(prev => ({ ...prev, to: e.target.value }))}
+            className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-pink-500"
+          />
+        </div>
+
+        <div className="bg-white rounded-xl border border-gray-100">
+          {error ? (
+            <div className="p-6 text-sm text-red-700">{error}</div>
+          ) : loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-pink-500"></div>
+            </div>
+          ) : visibleEntries.length === 0 ? (
+            <div className="text-center py-12">
+              <ShieldCheck className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+              <p className="text-sm text-gray-500">Nothing recorded for these filters</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-100">
+                    <th className="py-3 px-4 font-medium">Time</th>
+                    <th className="py-3 px-4 font-medium">Who</th>
+                    <th className="py-3 px-4 font-medium">Action</th>
+                    <th className="py-3 px-4 font-medium">Target</th>
+                    <th className="py-3 px-4 font-medium">Changes</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {visibleEntries.map(entry => (
+                    <tr key={entry.id} className="align-top">
+                      <td className="py-3 px-4 text-gray-600 whitespace-nowrap">
+                        {new Date(entry.created_at).toLocaleString()}
+                      </td>
+                      <td className="py-3 px-4">
+                        <p className="font-medium text-gray-900">{entry.actor_name || 'System'}</p>
+                        {entry.client_ip && <p className="text-xs text-gray-500">{entry.client_ip}</p>}
+                      </td>
+                      <td className="py-3 px-4 text-gray-900 whitespace-nowrap">
+                        {AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+                      </td>
+                      <td className="py-3 px-4 text-gray-700">{entry.target_label || entry.target_id || '—'}</td>
+                      <td className="py-3 px-4 text-xs text-gray-600">
+                        {getAuditChangeLines(entry).map(line => (
+                          <p key={line} className="break-all">{line}</p>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </PermissionGuard>
+  );
+}
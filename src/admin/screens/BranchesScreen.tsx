@@ -1,9 +1,14 @@
 import { useState, useEffect } from 'react';
-import { Plus, MapPin, Phone, DollarSign, TrendingUp, Calendar, Edit, Trash2, Search, Star } from 'lucide-react';
+import { Plus, MapPin, Phone, DollarSign, TrendingUp, Calendar, Edit, Trash2, Search, Star, Clock, ShieldCheck, BellRing } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { AddBranchModal } from '../components/AddBranchModal';
+import { BookingPolicyModal } from '../components/BookingPolicyModal';
+import { ReminderSettingsModal } from '../components/ReminderSettingsModal';
 import { glamConfirm, glamError, glamSuccess } from '../../lib/glamAlerts';
 import { getCurrentOrganizationId } from '../../api/multiTenancy';
+import { getShopCalendars } from '../../api/businessHours';
+import { formatIntervals, getClosureForDate, isShopOpenAt, WEEKDAYS } from '../../utils/businessHours';
+import type { ShopCalendar, WeeklySchedule } from '../../types/multiTenancy';
 
 interface Branch {
   id: string;
@@ -14,6 +19,7 @@ interface Branch {
   rating?: number;
   review_count?: number;
   is_open: boolean;
+  business_hours?: WeeklySchedule | null;
   created_at?: string;
   // Calculated fields
   totalSales: number;
@@ -27,7 +33,10 @@ export function BranchesScreen() {
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showPolicyModal, setShowPolicyModal] = useState(false);
+  const [showRemindersModal, setShowRemindersModal] = useState(false);
   const [editingBranch, setEditingBranch] = useState<Branch | null>(null);
+  const [calendars, setCalendars] = useState<Map<string, ShopCalendar>>(new Map());
 
   useEffect(() => {
     loadBranches();
@@ -130,6 +139,7 @@ export function BranchesScreen() {
       });
 
       setBranches(branchesWithSales);
+      setCalendars(await getShopCalendars(branchesWithSales.map(b => b.id)));
     } catch (error) {
       console.error('Error loading branches:', error);
     } finally {
@@ -170,6 +180,17 @@ export function BranchesScreen() {
     branch.address.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  // Today's hours label, honoring holidays and special closures
+  const getTodayHours = (calendar: ShopCalendar): string => {
+    const now = new Date();
+    const closure = getClosureForDate(calendar.closures, now);
+    if (closure) {
+      const label = closure.reason || (closure.kind === 'holiday' ? 'Holiday' : 'Special closure');
+      return `${label}: ${closure.hours ? formatIntervals(closure.hours) : 'Closed'}`;
+    }
+    return `Today: ${formatIntervals(calendar.schedule[WEEKDAYS[now.getDay()]])}`;
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-PH', {
       style: 'currency',
@@ -194,16 +215,32 @@ export function BranchesScreen() {
           <h1 className="text-2xl font-bold text-gray-900">Branches Management</h1>
           <p className="text-sm text-gray-500 mt-1">Manage salon branches and track their performance</p>
         </div>
-        <button
-          onClick={() => {
-            setEditingBranch(null);
-            setShowAddModal(true);
-          }}
-          className="px-4 py-2 bg-pink-500 hover:bg-pink-600 text-white rounded-lg font-medium transition-colors flex items-center space-x-2"
-        >
-          <Plus className="w-4 h-4" />
-          <span>Add Branch</span>
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowPolicyModal(true)}
+            className="px-4 py-2 border border-pink-200 text-pink-600 hover:bg-pink-50 rounded-lg font-medium transition-colors flex items-center space-x-2"
+          >
+            <ShieldCheck className="w-4 h-4" />
+            <span>Booking Policy</span>
+          </button>
+          <button
+            onClick={() => setShowRemindersModal(true)}
+            className="px-4 py-2 border border-pink-200 text-pink-600 hover:bg-pink-50 rounded-lg font-medium transition-colors flex items-center space-x-2"
+          >
+            <BellRing className="w-4 h-4" />
+            <span>Reminders</span>
+          </button>
+          <button
+            onClick={() => {
+              setEditingBranch(null);
+              setShowAddModal(true);
+            }}
+            className="px-4 py-2 bg-pink-500 hover:bg-pink-600 text-white rounded-lg font-medium transition-colors flex items-center space-x-2"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Branch</span>
+          </button>
+        </div>
       </div>
 
       {/* Search */}
@@ -241,13 +278,17 @@ export function BranchesScreen() {
                 <div className="flex-1">
                   <div className="flex items-center space-x-2 mb-2">
                     <h3 className="text-lg font-semibold text-gray-900">{branch.name}</h3>
-                    {branch.is_open ? (
+                    {!branch.is_open ? (
+                      <span className="px-2 py-1 bg-red-100 text-red-700 rounded-full text-xs font-semibold">
+                        Closed
+                      </span>
+                    ) : !calendars.has(branch.id) || isShopOpenAt(calendars.get(branch.id)!) ? (
                       <span className="px-2 py-1 bg-green-100 text-green-700 rounded-full text-xs font-semibold">
-                        Open
+                        Open now
                       </span>
                     ) : (
-                      <span className="px-2 py-1 bg-red-100 text-red-700 rounded-full text-xs font-semibold">
-                        Closed
+                      <span className="px-2 py-1 bg-gray-100 text-gray-700 rounded-full text-xs font-semibold">
+                        Closed now
                       </span>
                     )}
                   </div>
@@ -256,11 +297,17 @@ export function BranchesScreen() {
                     <span>{branch.address}</span>
                   </div>
                   {branch.phone_number && (
-                    <div className="flex items-center space-x-2 text-sm text-gray-600">
+                    <div className="flex items-center space-x-2 text-sm text-gray-600 mb-2">
                       <Phone className="w-4 h-4" />
                       <span>{branch.phone_number}</span>
                     </div>
                   )}
+                  {calendars.get(branch.id) && (
+                    <div className="flex items-center space-x-2 text-sm text-gray-600">
+                      <Clock className="w-4 h-4" />
+                      <span>{getTodayHours(calendars.get(branch.id)!)}</span>
+                    </div>
+                  )}
                 </div>
                 <div className="flex space-x-2">
                   <button
@@ -371,6 +418,16 @@ export function BranchesScreen() {
         onBranchSaved={loadBranches}
         editingBranch={editingBranch}
       />
+
+      <BookingPolicyModal
+        isOpen={showPolicyModal}
+        onClose={() => setShowPolicyModal(false)}
+      />
+
+      <ReminderSettingsModal
+        isOpen={showRemindersModal}
+        onClose={() => setShowRemindersModal(false)}
+      />
     </div>
   );
 }
@@ -1,12 +1,16 @@
 import { useState, useEffect } from 'react';
-import { Users, Search, Mail, Phone, TrendingUp, Calendar, DollarSign, Award } from 'lucide-react';
+import { Users, Search, Mail, Phone, TrendingUp, Calendar, DollarSign, Award, UserX } from 'lucide-react';
 import { getAllClients, type Client } from '../../api/admin';
+import { getMyBookingPolicy } from '../../api/bookingPolicy';
+import { requiresPrepayment } from '../../utils/bookingPolicy';
+import type { BookingPolicy } from '../../types/multiTenancy';
 import { ClientHistoryModal } from '../components/ClientHistoryModal';
 import { BookNowModal } from '../components/BookNowModal';
 import { AddClientModal } from '../components/AddClientModal';
 
 export function ClientsScreen() {
   const [clients, setClients] = useState<Client[]>([]);
+  const [policy, setPolicy] = useState<BookingPolicy | null>(null);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [tierFilter, setTierFilter] = useState<string>('all');
@@ -22,8 +26,9 @@ export function ClientsScreen() {
   const loadClients = async () => {
     setLoading(true);
     try {
-      const data = await getAllClients();
+      const [data, policyData] = await Promise.all([getAllClients(), getMyBookingPolicy()]);
       setClients(data);
+      setPolicy(policyData);
     } catch (error) {
       console.error('Error loading clients:', error);
     } finally {
@@ -192,9 +197,19 @@ export function ClientsScreen() {
                     <p className="text-xs text-gray-500">ID: {client.id.slice(0, 8)}</p>
                   </div>
                 </div>
-                <span className={`px-2 py-1 rounded-full text-xs font-semibold border ${getTierColor(client.tier)}`}>
-                  {client.tier}
-                </span>
+                <div className="flex flex-col items-end gap-1">
+                  <span className={`px-2 py-1 rounded-full text-xs font-semibold border ${getTierColor(client.tier)}`}>
+                    {client.tier}
+                  </span>
+                  {client.loyalty_points > 0 && (
+                    <span className="text-xs text-gray-500">{client.loyalty_points.toLocaleString()} pts</span>
+                  )}
+                  {policy && requiresPrepayment(policy, client.no_shows || 0) && (
+                    <span className="px-2 py-1 rounded-full text-xs font-semibold border bg-red-50 text-red-700 border-red-200">
+                      Prepay required
+                    </span>
+                  )}
+                </div>
               </div>
 
               {/* Contact Info */}
@@ -243,6 +258,15 @@ export function ClientsScreen() {
                 <p className="text-xs text-gray-500">Last visit</p>
                 <p className="text-xs font-semibold text-gray-900">{formatDate(client.last_visit)}</p>
               </div>
+              <div className="flex items-center justify-between mb-4 -mt-2">
+                <div className="flex items-center space-x-1 text-gray-500">
+                  <UserX className="w-3 h-3" />
+                  <p className="text-xs">No-shows / late cancels</p>
+                </div>
+                <p className={`text-xs font-semibold ${(client.no_shows || 0) > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                  {client.no_shows || 0} / {client.late_cancellations || 0}
+                </p>
+              </div>
 
               {/* Spacer to push buttons to bottom */}
               <div className="flex-grow"></div>
@@ -8,17 +8,21 @@ import {
   Send,
   Smartphone,
   Gift,
+  Ticket,
 } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { useAdminData } from '../context/AdminDataContext';
 import { AIInsightsCard } from '../components/AIInsightsCard';
 import { WalkInBookingModal } from '../components/WalkInBookingModal';
+import { GiftCardsModal } from '../components/GiftCardsModal';
 import { SuccessManagerCard } from '../components/SuccessManagerCard';
 import { getActiveSubscription, type Subscription } from '../../api/subscriptions';
 import { useAuth } from '../../auth/useAuth';
+import { PermissionGuard } from '../../tenant/PermissionGuard';
 
 export function DashboardScreen() {
   const [showWalkInModal, setShowWalkInModal] = useState(false);
+  const [showGiftCardsModal, setShowGiftCardsModal] = useState(false);
   const [subscription, setSubscription] = useState<Subscription | null>(null);
   const { session } = useAuth();
   const {
@@ -162,23 +166,25 @@ export function DashboardScreen() {
 
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
-          <div className="flex items-center justify-between mb-4">
-            <div>
-              <p className="text-sm text-gray-600 mb-1">Total Revenue</p>
-              <h3 className="text-3xl font-bold text-gray-900">
-                {formatCurrency(dashboardStats?.totalRevenue || 0)}
-              </h3>
+        <PermissionGuard permission="analytics.view_revenue">
+          <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <p className="text-sm text-gray-600 mb-1">Total Revenue</p>
+                <h3 className="text-3xl font-bold text-gray-900">
+                  {formatCurrency(dashboardStats?.totalRevenue || 0)}
+                </h3>
+              </div>
+              <div className="p-3 bg-green-100 rounded-xl">
+                <TrendingUp className="w-6 h-6 text-green-600" />
+              </div>
             </div>
-            <div className="p-3 bg-green-100 rounded-xl">
-              <TrendingUp className="w-6 h-6 text-green-600" />
+            <div className="flex items-center text-sm">
+              <span className="text-green-600 font-semibold">+{dashboardStats?.revenueChange || 0}%</span>
+              <span className="text-gray-500 ml-2">from last month</span>
             </div>
           </div>
-          <div className="flex items-center text-sm">
-            <span className="text-green-600 font-semibold">+{dashboardStats?.revenueChange || 0}%</span>
-            <span className="text-gray-500 ml-2">from last month</span>
-          </div>
-        </div>
+        </PermissionGuard>
 
         <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
           <div className="flex items-center justify-between mb-4">
@@ -334,9 +340,11 @@ export function DashboardScreen() {
               { icon: Send, label: 'Send Promotions', color: 'green' },
               { icon: Smartphone, label: 'Mobile Check-in', color: 'blue' },
               { icon: Gift, label: 'Loyalty Rewards', color: 'orange' },
-            ].map(({ icon: Icon, label, color }) => (
+              { icon: Ticket, label: 'Gift Cards', color: 'pink', onClick: () => setShowGiftCardsModal(true) },
+            ].map(({ icon: Icon, label, color, onClick }) => (
               <button 
                 key={label}
+                onClick={onClick}
                 className={`w-full flex items-center space-x-3 p-3 rounded-lg bg-gradient-to-r from-${color}-50 to-${color}-50 hover:from-${color}-100 hover:to-${color}-100 transition-colors`}
               >
                 <div className={`w-10 h-10 bg-${color}-500 rounded-lg flex items-center justify-center`}>
@@ -349,59 +357,61 @@ export function DashboardScreen() {
         </div>
 
         {/* Revenue Trends */}
-        <div className="lg:col-span-2 bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
-          <div className="flex items-center justify-between mb-6">
-            <div>
-              <h3 className="text-lg font-semibold text-gray-900">Revenue Trends</h3>
-              <p className="text-sm text-gray-500 mt-1">This Week</p>
-            </div>
-            <div className="flex items-center space-x-4 text-sm">
-              <div className="flex items-center space-x-2">
-                <span className="text-green-600 font-semibold">+15%</span>
-                <span className="text-gray-500">vs Last Week</span>
+        <PermissionGuard permission="analytics.view_revenue">
+          <div className="lg:col-span-2 bg-white rounded-2xl shadow-sm border border-gray-100 p-6">
+            <div className="flex items-center justify-between mb-6">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Revenue Trends</h3>
+                <p className="text-sm text-gray-500 mt-1">This Week</p>
+              </div>
+              <div className="flex items-center space-x-4 text-sm">
+                <div className="flex items-center space-x-2">
+                  <span className="text-green-600 font-semibold">+15%</span>
+                  <span className="text-gray-500">vs Last Week</span>
+                </div>
               </div>
             </div>
-          </div>
-          {revenueData.length > 0 ? (
-            <ResponsiveContainer width="100%" height={200}>
-              <LineChart data={revenueData}>
-                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                <XAxis dataKey="dayLabel" stroke="#9ca3af" style={{ fontSize: '12px' }} />
-                <YAxis stroke="#9ca3af" style={{ fontSize: '12px' }} />
-                <Tooltip
-                  contentStyle={{
-                    backgroundColor: '#fff',
-                    border: '1px solid #e5e7eb',
-                    borderRadius: '8px',
-                  }}
-                  formatter={(value: number) => [formatCurrency(value), 'Revenue']}
-                />
-                <Line
-                  type="monotone"
-                  dataKey="amount"
-                  stroke="#ec4899"
-                  strokeWidth={3}
-                  dot={{ fill: '#ec4899', strokeWidth: 2, r: 4 }}
-                  activeDot={{ r: 6 }}
-                />
-              </LineChart>
-            </ResponsiveContainer>
-          ) : (
-            <div className="h-48 flex items-center justify-center text-gray-500">
-              No revenue data available
-            </div>
-          )}
-          <div className="mt-6 flex items-center justify-around pt-4 border-t border-gray-100">
-            <div className="text-center">
-              <p className="text-2xl font-bold text-green-600">{formatCurrency(revenueData.reduce((sum, d) => sum + d.amount, 0))}</p>
-              <p className="text-xs text-gray-500 mt-1">Total This Week</p>
-            </div>
-            <div className="text-center">
-              <p className="text-2xl font-bold text-blue-600">92%</p>
-              <p className="text-xs text-gray-500 mt-1">Goal Progress</p>
+            {revenueData.length > 0 ? (
+              <ResponsiveContainer width="100%" height={200}>
+                <LineChart data={revenueData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                  <XAxis dataKey="dayLabel" stroke="#9ca3af" style={{ fontSize: '12px' }} />
+                  <YAxis stroke="#9ca3af" style={{ fontSize: '12px' }} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: '#fff',
+                      border: '1px solid #e5e7eb',
+                      borderRadius: '8px',
+                    }}
+                    formatter={(value: number) => [formatCurrency(value), 'Revenue']}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="amount"
+                    stroke="#ec4899"
+                    strokeWidth={3}
+                    dot={{ fill: '#ec4899', strokeWidth: 2, r: 4 }}
+                    activeDot={{ r: 6 }}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="h-48 flex items-center justify-center text-gray-500">
+                No revenue data available
+              </div>
+            )}
+            <div className="mt-6 flex items-center justify-around pt-4 border-t border-gray-100">
+              <div className="text-center">
+                <p className="text-2xl font-bold text-green-600">{formatCurrency(revenueData.reduce((sum, d) => sum + d.amount, 0))}</p>
+                <p className="text-xs text-gray-500 mt-1">Total This Week</p>
+              </div>
+              <div className="text-center">
+                <p className="text-2xl font-bold text-blue-600">92%</p>
+                <p className="text-xs text-gray-500 mt-1">Goal Progress</p>
+              </div>
             </div>
           </div>
-        </div>
+        </PermissionGuard>
       </div>
 
       {/* Top Clients */}
@@ -461,6 +471,11 @@ export function DashboardScreen() {
           fetchDashboardStats();
         }}
       />
+
+      <GiftCardsModal
+        isOpen={showGiftCardsModal}
+        onClose={() => setShowGiftCardsModal(false)}
+      />
     </div>
   );
 }
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import {
   Send,
   Mail,
@@ -12,82 +12,178 @@ import {
   Star,
   Heart,
   Award,
+  Pause,
+  Play,
 } from 'lucide-react';
 import { NewCampaignModal } from '../components/NewCampaignModal';
+import { cancelCampaign, getCampaigns, sendCampaignNow } from '../../api/campaigns';
+import { CAMPAIGN_CHANNEL_LABELS, CAMPAIGN_STATUS_LABELS, getCampaignRate } from '../../utils/campaigns';
+import { LoyaltyProgramModal } from '../components/LoyaltyProgramModal';
+import { getLoyaltyOverview, type LoyaltyOverview } from '../../api/loyalty';
+import { LOYALTY_TIER_NAMES } from '../../utils/loyalty';
+import { PromotionModal } from '../components/PromotionModal';
+import { getPromotionServiceOptions, getPromotions, setPromotionActive, type PromotionServiceOption } from '../../api/promotions';
+import { PROMOTION_SCOPE_LABELS, formatPromotionDiscount, getPromotionStatus } from '../../utils/promotions';
+import { getReviewRequestStats, getReviewSettings, saveReviewSettings } from '../../api/reviewRequests';
+import { REVIEW_DELAY_OPTIONS, formatReviewDelay } from '../../utils/reviewRequests';
+import { REMINDER_CHANNEL_LABELS } from '../../utils/reminders';
+import { glamConfirm, glamError, glamSuccess } from '../../lib/glamAlerts';
+import type { Campaign, LoyaltyTierName, Promotion, ReminderChannel, ReviewRequestStats, ReviewSettings } from '../../types/multiTenancy';
 
 export function MarketingScreen() {
-  const [activeTab, setActiveTab] = useState<'campaigns' | 'loyalty' | 'promotions'>('campaigns');
+  const [activeTab, setActiveTab] = useState<'campaigns' | 'loyalty' | 'promotions' | 'reviews'>('campaigns');
   const [showNewCampaignModal, setShowNewCampaignModal] = useState(false);
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [busyCampaignId, setBusyCampaignId] = useState<string | null>(null);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [promotionServices, setPromotionServices] = useState<PromotionServiceOption[]>([]);
+  const [showPromotionModal, setShowPromotionModal] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const [loyalty, setLoyalty] = useState<LoyaltyOverview | null>(null);
+  const [showLoyaltyModal, setShowLoyaltyModal] = useState(false);
+  const [reviewSettings, setReviewSettings] = useState<ReviewSettings | null>(null);
+  const [reviewStats, setReviewStats] = useState<ReviewRequestStats[]>([]);
+  const [savingReviewSettings, setSavingReviewSettings] = useState(false);
 
-  const campaigns = [
-    {
-      id: 1,
-      name: 'Summer Special Discount',
-      type: 'Email',
-      status: 'Active',
-      sent: 1240,
-      opened: 856,
-      clicked: 342,
-      revenue: 18500,
-    },
-    {
-      id: 2,
-      name: 'New Customer Welcome',
-      type: 'SMS',
-      status: 'Active',
-      sent: 320,
-      opened: 298,
-      clicked: 156,
-      revenue: 7800,
-    },
-    {
-      id: 3,
-      name: 'Birthday Rewards',
-      type: 'Email',
-      status: 'Scheduled',
-      sent: 0,
-      opened: 0,
-      clicked: 0,
-      revenue: 0,
-    },
-  ];
-
-  const loyaltyTiers = [
-    { name: 'Bronze', members: 142, color: 'orange', icon: Award },
-    { name: 'Silver', members: 89, color: 'gray', icon: Star },
-    { name: 'Gold', members: 45, color: 'yellow', icon: Star },
-    { name: 'Platinum', members: 12, color: 'purple', icon: Award },
-  ];
-
-  const promotions = [
-    {
-      id: 1,
-      title: '20% Off First Visit',
-      type: 'Discount',
-      used: 45,
-      remaining: 55,
-      expiry: '2024-12-31',
-      status: 'Active',
-    },
-    {
-      id: 2,
-      title: 'Refer a Friend',
-      type: 'Referral',
-      used: 23,
-      remaining: 77,
-      expiry: '2024-12-31',
-      status: 'Active',
-    },
-    {
-      id: 3,
-      title: 'Holiday Special',
-      type: 'Seasonal',
-      used: 0,
-      remaining: 100,
-      expiry: '2024-12-25',
-      status: 'Scheduled',
-    },
-  ];
+  const loadCampaigns = useCallback(async () => {
+    try {
+      setCampaigns(await getCampaigns());
+    } catch (error) {
+      console.error('Error loading campaigns:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCampaigns();
+  }, [loadCampaigns]);
+
+  const handleSendCampaign = async (campaign: Campaign) => {
+    try {
+      setBusyCampaignId(campaign.id);
+      await sendCampaignNow(campaign.id);
+    } catch (error) {
+      glamError(error instanceof Error ? error.message : 'Failed to send campaign');
+    } finally {
+      setBusyCampaignId(null);
+      await loadCampaigns();
+    }
+  };
+
+  const handleCancelCampaign = async (campaign: Campaign) => {
+    const ok = await glamConfirm({
+      title: 'Cancel this campaign?',
+      text: `"${campaign.name}" won't be sent.`,
+      confirmText: 'Yes, cancel it',
+      cancelText: 'Keep it',
+    });
+    if (!ok) return;
+    try {
+      setBusyCampaignId(campaign.id);
+      await cancelCampaign(campaign.id);
+    } catch (error) {
+      glamError(error instanceof Error ? error.message : 'Failed to cancel campaign');
+    } finally {
+      setBusyCampaignId(null);
+      await loadCampaigns();
+    }
+  };
+
+  const campaignTotals = campaigns.reduce(
+    (totals, campaign) => ({
+      sent: totals.sent + (campaign.metrics?.sent ?? 0),
+      booked: totals.booked + (campaign.metrics?.booked ?? 0),
+      revenue: totals.revenue + (campaign.metrics?.revenue ?? 0),
+    }),
+    { sent: 0, booked: 0, revenue: 0 }
+  );
+  const upcomingCampaigns = campaigns.filter(c => c.status === 'scheduled' || c.status === 'sending').length;
+
+  const loadLoyalty = useCallback(async () => {
+    try {
+      setLoyalty(await getLoyaltyOverview());
+    } catch (error) {
+      console.error('Error loading loyalty program:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (activeTab === 'loyalty') loadLoyalty();
+  }, [activeTab, loadLoyalty]);
+
+  const loadPromotions = useCallback(async () => {
+    try {
+      setPromotions(await getPromotions());
+    } catch (error) {
+      console.error('Error loading promotions:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (activeTab !== 'promotions') return;
+    loadPromotions();
+    getPromotionServiceOptions()
+      .then(setPromotionServices)
+      .catch(error => console.error('Error loading services:', error));
+  }, [activeTab, loadPromotions]);
+
+  useEffect(() => {
+    if (activeTab !== 'reviews') return;
+    getReviewSettings()
+      .then(setReviewSettings)
+      .catch(error => console.error('Error loading review settings:', error));
+    getReviewRequestStats()
+      .then(setReviewStats)
+      .catch(error => console.error('Error loading review stats:', error));
+  }, [activeTab]);
+
+  const handleSaveReviewSettings = async () => {
+    if (!reviewSettings) return;
+    try {
+      setSavingReviewSettings(true);
+      await saveReviewSettings({
+        is_active: reviewSettings.is_active,
+        delay_minutes: reviewSettings.delay_minutes,
+        channel: reviewSettings.channel,
+      });
+      glamSuccess('Review request settings saved');
+    } catch (error) {
+      glamError(error instanceof Error ? error.message : 'Failed to save review settings');
+    } finally {
+      setSavingReviewSettings(false);
+    }
+  };
+
+  const reviewTotals = reviewStats
+    .filter(row => row.group_by === 'shop')
+    .reduce(
+      (totals, row) => ({
+        sent: totals.sent + row.sent,
+        opened: totals.opened + row.opened,
+        responded: totals.responded + row.responded,
+      }),
+      { sent: 0, opened: 0, responded: 0 }
+    );
+
+  const openPromotionModal = (promotion: Promotion | null) => {
+    setEditingPromotion(promotion);
+    setShowPromotionModal(true);
+  };
+
+  const handleTogglePromotion = async (promotion: Promotion) => {
+    try {
+      await setPromotionActive(promotion.id, !promotion.is_active);
+      await loadPromotions();
+    } catch (error) {
+      glamError(error instanceof Error ? error.message : 'Failed to update promotion');
+    }
+  };
+
+  const tierStyles: Record<LoyaltyTierName, { color: string; icon: typeof Award }> = {
+    Bronze: { color: 'orange', icon: Award },
+    Silver: { color: 'gray', icon: Star },
+    Gold: { color: 'yellow', icon: Star },
+    Platinum: { color: 'purple', icon: Award },
+  };
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-PH', {
@@ -100,11 +196,20 @@ export function MarketingScreen() {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'Active':
+      case 'Sent':
         return 'bg-green-100 text-green-700 border-green-200';
       case 'Scheduled':
+      case 'Sending':
         return 'bg-blue-100 text-blue-700 border-blue-200';
       case 'Completed':
+      case 'Cancelled':
         return 'bg-gray-100 text-gray-700 border-gray-200';
+      case 'Paused':
+        return 'bg-yellow-100 text-yellow-700 border-yellow-200';
+      case 'Expired':
+      case 'Used up':
+      case 'Failed':
+        return 'bg-red-100 text-red-700 border-red-200';
       default:
         return 'bg-gray-100 text-gray-700 border-gray-200';
     }
@@ -134,10 +239,9 @@ export function MarketingScreen() {
             <div className="p-3 bg-pink-100 rounded-lg">
               <Send className="w-6 h-6 text-pink-600" />
             </div>
-            <span className="text-sm text-green-600 font-semibold">+12%</span>
           </div>
-          <p className="text-sm text-gray-600 mb-1">Active Campaigns</p>
-          <p className="text-3xl font-bold text-gray-900">8</p>
+          <p className="text-sm text-gray-600 mb-1">Upcoming Campaigns</p>
+          <p className="text-3xl font-bold text-gray-900">{upcomingCampaigns}</p>
         </div>
 
         <div className="bg-white rounded-xl p-6 border border-gray-100">
@@ -145,10 +249,9 @@ export function MarketingScreen() {
             <div className="p-3 bg-blue-100 rounded-lg">
               <Users className="w-6 h-6 text-blue-600" />
             </div>
-            <span className="text-sm text-green-600 font-semibold">+8%</span>
           </div>
           <p className="text-sm text-gray-600 mb-1">Total Reach</p>
-          <p className="text-3xl font-bold text-gray-900">2,450</p>
+          <p className="text-3xl font-bold text-gray-900">{campaignTotals.sent.toLocaleString()}</p>
         </div>
 
         <div className="bg-white rounded-xl p-6 border border-gray-100">
@@ -156,10 +259,11 @@ export function MarketingScreen() {
             <div className="p-3 bg-green-100 rounded-lg">
               <TrendingUp className="w-6 h-6 text-green-600" />
             </div>
-            <span className="text-sm text-green-600 font-semibold">+15%</span>
           </div>
-          <p className="text-sm text-gray-600 mb-1">Conversion Rate</p>
-          <p className="text-3xl font-bold text-gray-900">24.5%</p>
+          <p className="text-sm text-gray-600 mb-1">Booking Rate</p>
+          <p className="text-3xl font-bold text-gray-900">
+            {getCampaignRate(campaignTotals.booked, campaignTotals).toFixed(1)}%
+          </p>
         </div>
 
         <div className="bg-white rounded-xl p-6 border border-gray-100">
@@ -167,10 +271,9 @@ export function MarketingScreen() {
             <div className="p-3 bg-purple-100 rounded-lg">
               <Gift className="w-6 h-6 text-purple-600" />
             </div>
-            <span className="text-sm text-green-600 font-semibold">+22%</span>
           </div>
           <p className="text-sm text-gray-600 mb-1">Revenue Generated</p>
-          <p className="text-3xl font-bold text-gray-900">{formatCurrency(45600)}</p>
+          <p className="text-3xl font-bold text-gray-900">{formatCurrency(campaignTotals.revenue)}</p>
         </div>
       </div>
 
@@ -216,6 +319,19 @@ export function MarketingScreen() {
               <span>Promotions</span>
             </div>
           </button>
+          <button
+            onClick={() => setActiveTab('reviews')}
+            className={`flex-1 px-4 py-3 rounded-lg text-sm font-medium transition-colors ${
+              activeTab === 'reviews'
+                ? 'bg-pink-100 text-pink-700'
+                : 'text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            <div className="flex items-center justify-center space-x-2">
+              <Star className="w-4 h-4" />
+              <span>Reviews</span>
+            </div>
+          </button>
         </div>
       </div>
 
@@ -243,7 +359,7 @@ export function MarketingScreen() {
                       Open Rate
                     </th>
                     <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">
-                      Click Rate
+                      Booked
                     </th>
                     <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">
                       Revenue
@@ -254,75 +370,105 @@ export function MarketingScreen() {
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-100">
-                  {campaigns.map((campaign) => (
-                    <tr key={campaign.id} className="hover:bg-gray-50 transition-colors">
-                      <td className="px-6 py-4">
-                        <p className="text-sm font-medium text-gray-900">{campaign.name}</p>
+                  {campaigns.length === 0 && (
+                    <tr>
+                      <td colSpan={8} className="px-6 py-10 text-center text-sm text-gray-500">
+                        No campaigns yet. Create one to reach your clients by email or SMS.
                       </td>
-                      <td className="px-6 py-4">
-                        <div className="flex items-center space-x-2">
-                          {campaign.type === 'Email' ? (
-                            <Mail className="w-4 h-4 text-blue-500" />
-                          ) : (
-                            <MessageSquare className="w-4 h-4 text-green-500" />
-                          )}
-                          <span className="text-sm text-gray-600">{campaign.type}</span>
-                        </div>
-                      </td>
-                      <td className="px-6 py-4">
-                        <span
-                          className={`inline-flex px-3 py-1 rounded-full text-xs font-semibold border ${getStatusColor(
-                            campaign.status
-                          )}`}
-                        >
-                          {campaign.status}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4">
-                        <span className="text-sm text-gray-900">{campaign.sent}</span>
-                      </td>
-                      <td className="px-6 py-4">
-                        <div className="flex items-center space-x-2">
-                          <div className="flex-1 bg-gray-200 rounded-full h-2 max-w-[60px]">
-                            <div
-                              className="bg-blue-500 h-2 rounded-full"
-                              style={{
-                                width: `${campaign.sent > 0 ? (campaign.opened / campaign.sent) * 100 : 0}%`,
-                              }}
-                            ></div>
+                    </tr>
+                  )}
+                  {campaigns.map((campaign) => {
+                    const metrics = campaign.metrics ?? { sent: 0, failed: 0, opened: 0, booked: 0, revenue: 0 };
+                    const openRate = getCampaignRate(metrics.opened, metrics);
+                    const bookedRate = getCampaignRate(metrics.booked, metrics);
+                    return (
+                      <tr key={campaign.id} className="hover:bg-gray-50 transition-colors">
+                        <td className="px-6 py-4">
+                          <p className="text-sm font-medium text-gray-900">{campaign.name}</p>
+                          <p className="text-xs text-gray-500">
+                            {campaign.status === 'scheduled'
+                              ? `Sends ${new Date(campaign.scheduled_at).toLocaleString()}`
+                              : campaign.sent_at
+                                ? `Sent ${new Date(campaign.sent_at).toLocaleString()}`
+                                : `Created ${new Date(campaign.created_at).toLocaleDateString()}`}
+                          </p>
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="flex items-center space-x-2">
+                            {campaign.channel === 'email' ? (
+                              <Mail className="w-4 h-4 text-blue-500" />
+                            ) : (
+                              <MessageSquare className="w-4 h-4 text-green-500" />
+                            )}
+                            <span className="text-sm text-gray-600">{CAMPAIGN_CHANNEL_LABELS[campaign.channel]}</span>
                           </div>
-                          <span className="text-sm text-gray-900">
-                            {campaign.sent > 0 ? ((campaign.opened / campaign.sent) * 100).toFixed(0) : 0}%
+                        </td>
+                        <td className="px-6 py-4">
+                          <span
+                            className={`inline-flex px-3 py-1 rounded-full text-xs font-semibold border ${getStatusColor(
+                              CAMPAIGN_STATUS_LABELS[campaign.status]
+                            )}`}
+                          >
+                            {CAMPAIGN_STATUS_LABELS[campaign.status]}
                           </span>
-                        </div>
-                      </td>
-                      <td className="px-6 py-4">
-                        <div className="flex items-center space-x-2">
-                          <div className="flex-1 bg-gray-200 rounded-full h-2 max-w-[60px]">
-                            <div
-                              className="bg-green-500 h-2 rounded-full"
-                              style={{
-                                width: `${campaign.opened > 0 ? (campaign.clicked / campaign.opened) * 100 : 0}%`,
-                              }}
-                            ></div>
+                        </td>
+                        <td className="px-6 py-4">
+                          <span className="text-sm text-gray-900">{metrics.sent}</span>
+                          {metrics.failed > 0 && (
+                            <p className="text-xs text-red-600">{metrics.failed} failed</p>
+                          )}
+                        </td>
+                        <td className="px-6 py-4">
+                          {campaign.channel === 'email' ? (
+                            <div className="flex items-center space-x-2">
+                              <div className="flex-1 bg-gray-200 rounded-full h-2 max-w-[60px]">
+                                <div className="bg-blue-500 h-2 rounded-full" style={{ width: `${openRate}%` }}></div>
+                              </div>
+                              <span className="text-sm text-gray-900">{openRate.toFixed(0)}%</span>
+                            </div>
+                          ) : (
+                            // SMS opens can't be tracked
+                            <span className="text-sm text-gray-400">—</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="flex items-center space-x-2">
+                            <div className="flex-1 bg-gray-200 rounded-full h-2 max-w-[60px]">
+                              <div className="bg-green-500 h-2 rounded-full" style={{ width: `${bookedRate}%` }}></div>
+                            </div>
+                            <span className="text-sm text-gray-900">
+                              {metrics.booked} ({bookedRate.toFixed(0)}%)
+                            </span>
                           </div>
-                          <span className="text-sm text-gray-900">
-                            {campaign.opened > 0 ? ((campaign.clicked / campaign.opened) * 100).toFixed(0) : 0}%
+                        </td>
+                        <td className="px-6 py-4">
+                          <span className="text-sm font-semibold text-gray-900">
+                            {formatCurrency(metrics.revenue)}
                           </span>
-                        </div>
-                      </td>
-                      <td className="px-6 py-4">
-                        <span className="text-sm font-semibold text-gray-900">
-                          {formatCurrency(campaign.revenue)}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4">
-                        <button className="text-sm text-pink-600 hover:text-pink-700 font-medium">
-                          View Details
-                        </button>
-                      </td>
-                    </tr>
-                  ))}
+                        </td>
+                        <td className="px-6 py-4">
+                          {campaign.status === 'scheduled' && (
+                            <div className="flex items-center space-x-3">
+                              <button
+                                onClick={() => handleSendCampaign(campaign)}
+                                disabled={busyCampaignId === campaign.id}
+                                className="text-sm text-pink-600 hover:text-pink-700 font-medium disabled:opacity-50"
+                              >
+                                Send now
+                              </button>
+                              <button
+                                onClick={() => handleCancelCampaign(campaign)}
+                                disabled={busyCampaignId === campaign.id}
+                                className="text-sm text-gray-500 hover:text-gray-700 font-medium disabled:opacity-50"
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
@@ -334,25 +480,30 @@ export function MarketingScreen() {
       {activeTab === 'loyalty' && (
         <div className="space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-            {loyaltyTiers.map((tier) => {
-              const Icon = tier.icon;
+            {LOYALTY_TIER_NAMES.map((name) => {
+              const { color, icon: Icon } = tierStyles[name];
+              const tier = loyalty?.program.tiers.find(t => t.tier === name);
               return (
                 <div
-                  key={tier.name}
-                  className={`bg-white rounded-xl p-6 border-2 border-${tier.color}-200 hover:shadow-lg transition-shadow`}
+                  key={name}
+                  className={`bg-white rounded-xl p-6 border-2 border-${color}-200 hover:shadow-lg transition-shadow`}
                 >
                   <div className="flex items-center justify-between mb-4">
-                    <div className={`p-3 bg-${tier.color}-100 rounded-lg`}>
-                      <Icon className={`w-6 h-6 text-${tier.color}-600`} />
+                    <div className={`p-3 bg-${color}-100 rounded-lg`}>
+                      <Icon className={`w-6 h-6 text-${color}-600`} />
                     </div>
-                    <span className={`text-2xl font-bold text-${tier.color}-600`}>{tier.members}</span>
+                    <span className={`text-2xl font-bold text-${color}-600`}>{loyalty?.members[name] ?? 0}</span>
                   </div>
-                  <h3 className="text-lg font-semibold text-gray-900 mb-2">{tier.name}</h3>
-                  <p className="text-sm text-gray-600 mb-4">Members</p>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-2">{name}</h3>
+                  <p className="text-sm text-gray-600 mb-4">
+                    Members · from {(tier?.min_points ?? 0).toLocaleString()} pts
+                  </p>
                   <div className="space-y-2 text-sm text-gray-600">
-                    <p>• 5% discount on services</p>
-                    <p>• Priority booking</p>
-                    <p>• Birthday rewards</p>
+                    {tier?.perks.length ? (
+                      tier.perks.map(perk => <p key={perk}>• {perk}</p>)
+                    ) : (
+                      <p className="text-gray-400">No perks set</p>
+                    )}
                   </div>
                 </div>
               );
@@ -363,18 +514,35 @@ export function MarketingScreen() {
             <div className="flex items-center justify-between">
               <div>
                 <h3 className="text-lg font-semibold text-gray-900 mb-2">Loyalty Program Performance</h3>
-                <div className="grid grid-cols-2 gap-6 mt-4">
+                {loyalty && (
+                  <p className="text-sm text-gray-600">
+                    {loyalty.program.is_active ? '' : 'Paused · '}
+                    {Math.round(loyalty.program.points_per_peso * 100 * 1000) / 1000} pts per ₱100 · 1 pt = {formatCurrency(loyalty.program.peso_per_point)}
+                    {loyalty.program.points_expire_days ? ` · expire after ${loyalty.program.points_expire_days} days` : ''}
+                  </p>
+                )}
+                <div className="grid grid-cols-3 gap-6 mt-4">
                   <div>
                     <p className="text-sm text-gray-600 mb-1">Total Members</p>
-                    <p className="text-3xl font-bold text-gray-900">{loyaltyTiers.reduce((sum, t) => sum + t.members, 0)}</p>
+                    <p className="text-3xl font-bold text-gray-900">
+                      {LOYALTY_TIER_NAMES.reduce((sum, name) => sum + (loyalty?.members[name] ?? 0), 0)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-gray-600 mb-1">Points Redeemed</p>
+                    <p className="text-3xl font-bold text-gray-900">{(loyalty?.pointsRedeemed ?? 0).toLocaleString()}</p>
                   </div>
                   <div>
-                    <p className="text-sm text-gray-600 mb-1">Rewards Redeemed</p>
-                    <p className="text-3xl font-bold text-gray-900">1,234</p>
+                    <p className="text-sm text-gray-600 mb-1">Points Outstanding</p>
+                    <p className="text-3xl font-bold text-gray-900">{(loyalty?.pointsOutstanding ?? 0).toLocaleString()}</p>
                   </div>
                 </div>
               </div>
-              <button className="px-6 py-3 bg-purple-500 hover:bg-purple-600 text-white rounded-lg font-medium transition-colors">
+              <button
+                onClick={() => setShowLoyaltyModal(true)}
+                disabled={!loyalty}
+                className="px-6 py-3 bg-purple-500 hover:bg-purple-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+              >
                 Manage Program
               </button>
             </div>
@@ -386,60 +554,105 @@ export function MarketingScreen() {
       {activeTab === 'promotions' && (
         <div className="space-y-6">
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            {promotions.map((promo) => (
-              <div key={promo.id} className="bg-white rounded-xl p-6 border border-gray-100 flex flex-col">
-                <div className="flex items-start justify-between mb-4">
-                  <div>
-                    <h3 className="text-lg font-semibold text-gray-900 mb-1">{promo.title}</h3>
-                    <p className="text-sm text-gray-600">{promo.type}</p>
+            {promotions.length === 0 && (
+              <div className="lg:col-span-2 bg-white rounded-xl p-6 border border-gray-100 text-center text-sm text-gray-500">
+                No promotions yet. Create a discount code below.
+              </div>
+            )}
+            {promotions.map((promo) => {
+              const stats = promo.stats ?? { uses: 0, clients: 0, discount_total: 0, revenue: 0 };
+              const status = getPromotionStatus(promo, stats.uses);
+              return (
+                <div key={promo.id} className="bg-white rounded-xl p-6 border border-gray-100 flex flex-col">
+                  <div className="flex items-start justify-between mb-4">
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900 mb-1">{promo.title}</h3>
+                      <p className="text-sm text-gray-600">
+                        <span className="font-mono font-semibold text-pink-600">{promo.code}</span>
+                        {' · '}{formatPromotionDiscount(promo)}
+                        {' · '}{PROMOTION_SCOPE_LABELS[promo.scope]}
+                        {promo.first_visit_only ? ' · First visit' : ''}
+                      </p>
+                    </div>
+                    <span
+                      className={`inline-flex px-3 py-1 rounded-full text-xs font-semibold border ${getStatusColor(
+                        status
+                      )}`}
+                    >
+                      {status}
+                    </span>
                   </div>
-                  <span
-                    className={`inline-flex px-3 py-1 rounded-full text-xs font-semibold border ${getStatusColor(
-                      promo.status
-                    )}`}
-                  >
-                    {promo.status}
-                  </span>
-                </div>
 
-                <div className="mb-4">
-                  <div className="flex items-center justify-between text-sm text-gray-600 mb-2">
-                    <span>Usage</span>
-                    <span>
-                      {promo.used}/{promo.used + promo.remaining}
-                    </span>
+                  <div className="mb-4">
+                    <div className="flex items-center justify-between text-sm text-gray-600 mb-2">
+                      <span>Usage</span>
+                      <span>
+                        {stats.uses}/{promo.max_uses ?? '∞'}
+                      </span>
+                    </div>
+                    {promo.max_uses !== null && (
+                      <div className="w-full bg-gray-200 rounded-full h-2">
+                        <div
+                          className="bg-pink-500 h-2 rounded-full"
+                          style={{
+                            width: `${Math.min(100, (stats.uses / promo.max_uses) * 100)}%`,
+                          }}
+                        ></div>
+                      </div>
+                    )}
                   </div>
-                  <div className="w-full bg-gray-200 rounded-full h-2">
-                    <div
-                      className="bg-pink-500 h-2 rounded-full"
-                      style={{
-                        width: `${((promo.used / (promo.used + promo.remaining)) * 100)}%`,
-                      }}
-                    ></div>
+
+                  <div className="grid grid-cols-3 gap-2 text-center">
+                    <div className="p-2 bg-gray-50 rounded-lg">
+                      <p className="text-xs text-gray-500">Clients</p>
+                      <p className="text-sm font-semibold text-gray-900">{stats.clients}</p>
+                    </div>
+                    <div className="p-2 bg-gray-50 rounded-lg">
+                      <p className="text-xs text-gray-500">Discounts</p>
+                      <p className="text-sm font-semibold text-gray-900">{formatCurrency(stats.discount_total)}</p>
+                    </div>
+                    <div className="p-2 bg-gray-50 rounded-lg">
+                      <p className="text-xs text-gray-500">Revenue</p>
+                      <p className="text-sm font-semibold text-green-600">{formatCurrency(stats.revenue)}</p>
+                    </div>
                   </div>
-                </div>
 
-                {/* Spacer to push button to bottom */}
-                <div className="flex-grow"></div>
+                  {/* Spacer to push button to bottom */}
+                  <div className="flex-grow"></div>
 
-                {/* Actions - Always at bottom */}
-                <div className="flex items-center justify-between pt-4 border-t border-gray-100 mt-4">
-                  <div className="flex items-center space-x-2 text-sm text-gray-600">
-                    <Calendar className="w-4 h-4" />
-                    <span>Expires: {promo.expiry}</span>
+                  {/* Actions - Always at bottom */}
+                  <div className="flex items-center justify-between pt-4 border-t border-gray-100 mt-4">
+                    <div className="flex items-center space-x-2 text-sm text-gray-600">
+                      <Calendar className="w-4 h-4" />
+                      <span>{promo.ends_at ? `Expires: ${new Date(promo.ends_at).toLocaleDateString()}` : 'No expiry'}</span>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <button
+                        onClick={() => handleTogglePromotion(promo)}
+                        className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-800 font-medium"
+                      >
+                        {promo.is_active ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                        <span>{promo.is_active ? 'Pause' : 'Resume'}</span>
+                      </button>
+                      <button
+                        onClick={() => openPromotionModal(promo)}
+                        className="text-sm text-pink-600 hover:text-pink-700 font-medium"
+                      >
+                        Edit
+                      </button>
+                    </div>
                   </div>
-                  <button className="text-sm text-pink-600 hover:text-pink-700 font-medium">
-                    Edit
-                  </button>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
 
           <div className="bg-white rounded-xl p-6 border border-gray-100">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Create New Promotion</h3>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <button className="p-6 border-2 border-dashed border-gray-200 rounded-xl hover:border-pink-400 hover:bg-pink-50 transition-all text-center group">
+              <button
+                onClick={() => openPromotionModal(null)}
+                className="p-6 border-2 border-dashed border-gray-200 rounded-xl hover:border-pink-400 hover:bg-pink-50 transition-all text-center group">
                 <Gift className="w-8 h-8 text-gray-400 group-hover:text-pink-500 mx-auto mb-2" />
                 <p className="text-sm font-medium text-gray-900">Discount Code</p>
                 <p className="text-xs text-gray-500 mt-1">Create percentage or fixed discount</p>
@@ -454,13 +667,164 @@ export function MarketingScreen() {
         </div>
       )}
 
+      {/* Review Requests Tab */}
+      {activeTab === 'reviews' && (
+        <div className="space-y-6">
+          <div className="bg-white rounded-xl p-6 border border-gray-100">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-1">Post-Visit Review Requests</h3>
+                <p className="text-sm text-gray-600">
+                  Clients get a link to rate their visit after a booking is marked completed. No sign-in needed.
+                </p>
+              </div>
+              {reviewSettings && (
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={reviewSettings.is_active}
+                    onChange={(e) => setReviewSettings({ ...reviewSettings, is_active: e.target.checked })}
+                    className="w-4 h-4 text-pink-600 border-gray-300 rounded focus:ring-pink-500"
+                  />
+                  <span>Active</span>
+                </label>
+              )}
+            </div>
+            {reviewSettings && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Send</label>
+                  <select
+                    value={reviewSettings.delay_minutes}
+                    onChange={(e) => setReviewSettings({ ...reviewSettings, delay_minutes: Number(e.target.value) })}
+                    disabled={!reviewSettings.is_active}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent disabled:bg-gray-50"
+                  >
+                    {[...new Set([...REVIEW_DELAY_OPTIONS, reviewSettings.delay_minutes])]
+                      .sort((a, b) => a - b)
+                      .map(minutes => (
+                        <option key={minutes} value={minutes}>{formatReviewDelay(minutes)}</option>
+                      ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Channel</label>
+                  <select
+                    value={reviewSettings.channel}
+                    onChange={(e) => setReviewSettings({ ...reviewSettings, channel: e.target.value as ReminderChannel })}
+                    disabled={!reviewSettings.is_active}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent disabled:bg-gray-50"
+                  >
+                    {(Object.keys(REMINDER_CHANNEL_LABELS) as ReminderChannel[]).map(channel => (
+                      <option key={channel} value={channel}>{REMINDER_CHANNEL_LABELS[channel]}</option>
+                    ))}
+                  </select>
+                </div>
+                <button
+                  onClick={handleSaveReviewSettings}
+                  disabled={savingReviewSettings}
+                  className="px-6 py-2 bg-pink-500 hover:bg-pink-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+                >
+                  {savingReviewSettings ? 'Saving...' : 'Save Settings'}
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="bg-white rounded-xl p-6 border border-gray-100">
+              <p className="text-sm text-gray-600 mb-1">Requests Sent</p>
+              <p className="text-3xl font-bold text-gray-900">{reviewTotals.sent}</p>
+            </div>
+            <div className="bg-white rounded-xl p-6 border border-gray-100">
+              <p className="text-sm text-gray-600 mb-1">Open Rate</p>
+              <p className="text-3xl font-bold text-gray-900">{getCampaignRate(reviewTotals.opened, reviewTotals).toFixed(1)}%</p>
+            </div>
+            <div className="bg-white rounded-xl p-6 border border-gray-100">
+              <p className="text-sm text-gray-600 mb-1">Response Rate</p>
+              <p className="text-3xl font-bold text-gray-900">{getCampaignRate(reviewTotals.responded, reviewTotals).toFixed(1)}%</p>
+            </div>
+          </div>
+
+          {(['shop', 'staff'] as const).map(groupBy => {
+            const rows = reviewStats.filter(row => row.group_by === groupBy);
+            return (
+              <div key={groupBy} className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-100">
+                  <h3 className="text-lg font-semibold text-gray-900">
+                    {groupBy === 'shop' ? 'Response Rate by Branch' : 'Response Rate by Staff'}
+                  </h3>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50 border-b border-gray-200">
+                      <tr>
+                        <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">
+                          {groupBy === 'shop' ? 'Branch' : 'Staff Member'}
+                        </th>
+                        <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Sent</th>
+                        <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Opened</th>
+                        <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Rated</th>
+                        <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Response Rate</th>
+                        <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase">Avg Rating</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {rows.length === 0 && (
+                        <tr>
+                          <td colSpan={6} className="px-6 py-8 text-center text-sm text-gray-500">
+                            No review requests sent yet
+                          </td>
+                        </tr>
+                      )}
+                      {rows.map(row => (
+                        <tr key={row.group_id} className="hover:bg-gray-50">
+                          <td className="px-6 py-4 text-sm font-medium text-gray-900">{row.group_name || 'Unknown'}</td>
+                          <td className="px-6 py-4 text-sm text-gray-900">{row.sent}</td>
+                          <td className="px-6 py-4 text-sm text-gray-900">{row.opened}</td>
+                          <td className="px-6 py-4 text-sm text-gray-900">{row.responded}</td>
+                          <td className="px-6 py-4 text-sm font-semibold text-green-600">{getCampaignRate(row.responded, row).toFixed(1)}%</td>
+                          <td className="px-6 py-4 text-sm text-gray-900">
+                            {row.average_rating === null ? '—' : (
+                              <span className="inline-flex items-center space-x-1">
+                                <Star className="w-4 h-4 text-yellow-400 fill-yellow-400" />
+                                <span>{row.average_rating.toFixed(1)}</span>
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* New Campaign Modal */}
       <NewCampaignModal
         isOpen={showNewCampaignModal}
         onClose={() => setShowNewCampaignModal(false)}
-        onCampaignCreated={() => {
-          // Refresh campaigns if needed
-        }}
+        onCampaignCreated={loadCampaigns}
+      />
+
+      {loyalty && (
+        <LoyaltyProgramModal
+          isOpen={showLoyaltyModal}
+          onClose={() => setShowLoyaltyModal(false)}
+          onProgramSaved={loadLoyalty}
+          program={loyalty.program}
+        />
+      )}
+
+      <PromotionModal
+        isOpen={showPromotionModal}
+        onClose={() => setShowPromotionModal(false)}
+        onPromotionSaved={loadPromotions}
+        services={promotionServices}
+        editingPromotion={editingPromotion}
       />
     </div>
   );
@@ -1,9 +1,15 @@
 import { useState, useEffect } from 'react';
-import { Plus, Edit, Trash2, Search, Scissors } from 'lucide-react';
+import { Plus, Edit, Trash2, Search, Scissors, Package, ShoppingBag } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { AddServiceModal } from '../components/AddServiceModal';
+import { AddPackageModal } from '../components/AddPackageModal';
 import { glamConfirm, glamError, glamSuccess } from '../../lib/glamAlerts';
 import { getCurrentOrganizationId } from '../../api/multiTenancy';
+import { getOrganizationClientPackages, getOrganizationPackages, setServicePackageActive } from '../../api/packages';
+import { PACKAGE_KIND_LABELS, formatPackageItems, getPackagePricing } from '../../utils/packages';
+import { formatDepositRule } from '../../utils/deposits';
+import { addRetailProduct, getRetailProducts, setRetailProductActive } from '../../api/checkout';
+import type { ClientPackage, DepositType, RetailProduct, ServicePackage } from '../../types/multiTenancy';
 
 interface Service {
   id: string;
@@ -15,6 +21,8 @@ interface Service {
   shop_id: string;
   shop_name?: string;
   is_active: boolean;
+  deposit_type?: DepositType;
+  deposit_value?: number;
   created_at?: string;
 }
 
@@ -24,11 +32,68 @@ export function ServicesScreen() {
   const [searchQuery, setSearchQuery] = useState('');
   const [showAddModal, setShowAddModal] = useState(false);
   const [editingService, setEditingService] = useState<Service | null>(null);
+  const [packages, setPackages] = useState<ServicePackage[]>([]);
+  const [soldPackages, setSoldPackages] = useState<ClientPackage[]>([]);
+  const [showPackageModal, setShowPackageModal] = useState(false);
+  const [editingPackage, setEditingPackage] = useState<ServicePackage | null>(null);
+  const [products, setProducts] = useState<RetailProduct[]>([]);
+  const [newProductName, setNewProductName] = useState('');
+  const [newProductPrice, setNewProductPrice] = useState('');
+  const [savingProduct, setSavingProduct] = useState(false);
 
   useEffect(() => {
     loadServices();
+    loadPackages();
+    loadProducts();
   }, []);
 
+  const loadProducts = async () => {
+    try {
+      setProducts(await getRetailProducts(true));
+    } catch (error) {
+      console.error('Error loading products:', error);
+    }
+  };
+
+  const handleAddProduct = async () => {
+    try {
+      setSavingProduct(true);
+      await addRetailProduct({ name: newProductName, price: parseFloat(newProductPrice) });
+      setNewProductName('');
+      setNewProductPrice('');
+      glamSuccess('Product added');
+      loadProducts();
+    } catch (error) {
+      console.error('Error adding product:', error);
+      glamError(error instanceof Error ? error.message : 'Failed to add product');
+    } finally {
+      setSavingProduct(false);
+    }
+  };
+
+  const handleToggleProduct = async (product: RetailProduct) => {
+    try {
+      await setRetailProductActive(product.id, !product.is_active);
+      loadProducts();
+    } catch (error) {
+      console.error('Error updating product:', error);
+      glamError(error instanceof Error ? error.message : 'Failed to update product');
+    }
+  };
+
+  const loadPackages = async () => {
+    try {
+      const [packageData, soldData] = await Promise.all([
+        getOrganizationPackages(),
+        getOrganizationClientPackages(),
+      ]);
+      setPackages(packageData);
+      setSoldPackages(soldData);
+    } catch (error) {
+      console.error('Error loading packages:', error);
+    }
+  };
+
   const loadServices = async () => {
     try {
       setLoading(true);
@@ -111,6 +176,35 @@ export function ServicesScreen() {
     }
   };
 
+  const handleTogglePackage = async (pkg: ServicePackage) => {
+    if (pkg.is_active) {
+      const ok = await glamConfirm({
+        title: 'Stop selling this package?',
+        text: 'Clients who already bought it can still use their remaining sessions.',
+        confirmText: 'Yes, stop selling',
+      });
+      if (!ok) return;
+    }
+
+    try {
+      await setServicePackageActive(pkg.id, !pkg.is_active);
+      glamSuccess(pkg.is_active ? 'Package taken off sale' : 'Package back on sale');
+      loadPackages();
+    } catch (error) {
+      console.error('Error updating package:', error);
+      glamError(error instanceof Error ? error.message : 'Failed to update package');
+    }
+  };
+
+  // Sales and redemptions per package definition
+  const getPackageUsage = (packageId: string) => {
+    const sold = soldPackages.filter(cp => cp.package_id === packageId && cp.status !== 'cancelled');
+    return {
+      sold: sold.length,
+      redeemed: sold.reduce((sum, cp) => sum + (cp.redemptions?.length ?? 0), 0),
+    };
+  };
+
   const filteredServices = services.filter(service =>
     service.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     service.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -141,16 +235,28 @@ export function ServicesScreen() {
           <h1 className="text-2xl font-bold text-gray-900">Services Management</h1>
           <p className="text-sm text-gray-500 mt-1">Manage salon services and pricing</p>
         </div>
-        <button
-          onClick={() => {
-            setEditingService(null);
-            setShowAddModal(true);
-          }}
-          className="px-4 py-2 bg-pink-500 hover:bg-pink-600 text-white rounded-lg font-medium transition-colors flex items-center space-x-2"
-        >
-          <Plus className="w-4 h-4" />
-          <span>Add Service</span>
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => {
+              setEditingPackage(null);
+              setShowPackageModal(true);
+            }}
+            className="px-4 py-2 border border-pink-200 text-pink-600 hover:bg-pink-50 rounded-lg font-medium transition-colors flex items-center space-x-2"
+          >
+            <Package className="w-4 h-4" />
+            <span>Add Package</span>
+          </button>
+          <button
+            onClick={() => {
+              setEditingService(null);
+              setShowAddModal(true);
+            }}
+            className="px-4 py-2 bg-pink-500 hover:bg-pink-600 text-white rounded-lg font-medium transition-colors flex items-center space-x-2"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Service</span>
+          </button>
+        </div>
       </div>
 
       {/* Search */}
@@ -215,14 +321,172 @@ export function ServicesScreen() {
                   </button>
                 </div>
               </div>
-              <div className="pt-4 border-t border-gray-100">
+              <div className="pt-4 border-t border-gray-100 flex items-center justify-between gap-2">
                 <p className="text-2xl font-bold text-pink-600">{formatCurrency(service.price)}</p>
+                {formatDepositRule(service) && (
+                  <span className="px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-700">
+                    {formatDepositRule(service)}
+                  </span>
+                )}
               </div>
             </div>
           ))}
         </div>
       )}
 
+      {/* Packages */}
+      {packages.length > 0 && (
+        <div className="space-y-4">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">Packages & Bundles</h2>
+            <p className="text-sm text-gray-500">Sessions are redeemed automatically when a package booking is completed</p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {packages.map((pkg) => {
+              const pricing = getPackagePricing(pkg);
+              const usage = getPackageUsage(pkg.id);
+              return (
+                <div
+                  key={pkg.id}
+                  className={`bg-white rounded-xl p-6 border border-gray-100 hover:shadow-lg transition-shadow ${pkg.is_active ? '' : 'opacity-60'}`}
+                >
+                  <div className="flex items-start justify-between mb-4">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-1">
+                        <h3 className="text-lg font-semibold text-gray-900">{pkg.name}</h3>
+                        <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-purple-100 text-purple-700">
+                          {PACKAGE_KIND_LABELS[pkg.kind]}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-600 mb-2">{formatPackageItems(pkg.items)}</p>
+                      <div className="flex items-center space-x-4 text-xs text-gray-500">
+                        <span>{pkg.shop?.name || 'Unknown'}</span>
+                        <span>•</span>
+                        <span>{pkg.validity_days ? `Valid ${pkg.validity_days} days` : 'No expiry'}</span>
+                        {!pkg.is_active && (
+                          <>
+                            <span>•</span>
+                            <span>Off sale</span>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => {
+                          setEditingPackage(pkg);
+                          setShowPackageModal(true);
+                        }}
+                        className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                        title="Edit"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleTogglePackage(pkg)}
+                        className={`p-2 rounded-lg transition-colors ${pkg.is_active ? 'text-red-600 hover:bg-red-50' : 'text-green-600 hover:bg-green-50'}`}
+                        title={pkg.is_active ? 'Stop selling' : 'Sell again'}
+                      >
+                        {pkg.is_active ? <Trash2 className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+                      </button>
+                    </div>
+                  </div>
+                  <div className="pt-4 border-t border-gray-100 flex items-end justify-between">
+                    <div>
+                      <p className="text-2xl font-bold text-pink-600">{formatCurrency(pkg.price)}</p>
+                      {pricing.savings > 0 && (
+                        <p className="text-xs text-gray-500">
+                          <span className="line-through">{formatCurrency(pricing.regularPrice)}</span>
+                          <span className="text-green-600 font-medium ml-1">Save {pricing.savingsPercent}%</span>
+                        </p>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 text-right">
+                      {usage.sold} sold<br />
+                      {usage.redeemed} session{usage.redeemed !== 1 ? 's' : ''} redeemed
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Retail products, sold at checkout */}
+      <div className="space-y-4">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Retail Products</h2>
+          <p className="text-sm text-gray-500">Products staff can add to a client's bill at checkout</p>
+        </div>
+        <div className="bg-white rounded-xl p-4 border border-gray-100 space-y-3">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="text"
+              value={newProductName}
+              onChange={(e) => setNewProductName(e.target.value)}
+              placeholder="Product name"
+              className="flex-1 px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={newProductPrice}
+              onChange={(e) => setNewProductPrice(e.target.value)}
+              placeholder="Price (₱)"
+              className="sm:w-36 px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+            />
+            <button
+              onClick={handleAddProduct}
+              disabled={savingProduct || !newProductName.trim() || newProductPrice === ''}
+              className="px-4 py-2 bg-pink-500 hover:bg-pink-600 text-white rounded-lg font-medium transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add Product</span>
+            </button>
+          </div>
+          {products.length === 0 ? (
+            <p className="text-sm text-gray-500 flex items-center gap-2">
+              <ShoppingBag className="w-4 h-4" />
+              No products yet
+            </p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {products.map((product) => (
+                <div key={product.id} className={`flex items-center justify-between py-2 ${product.is_active ? '' : 'opacity-60'}`}>
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{product.name}</p>
+                    {!product.is_active && <p className="text-xs text-gray-500">Not for sale</p>}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm font-semibold text-pink-600">{formatCurrency(product.price)}</span>
+                    <button
+                      onClick={() => handleToggleProduct(product)}
+                      className={`p-2 rounded-lg transition-colors ${product.is_active ? 'text-red-600 hover:bg-red-50' : 'text-green-600 hover:bg-green-50'}`}
+                      title={product.is_active ? 'Stop selling' : 'Sell again'}
+                    >
+                      {product.is_active ? <Trash2 className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <AddPackageModal
+        isOpen={showPackageModal}
+        onClose={() => {
+          setShowPackageModal(false);
+          setEditingPackage(null);
+        }}
+        onPackageSaved={loadPackages}
+        services={services}
+        editingPackage={editingPackage}
+      />
+
       {/* Add/Edit Modal */}
       <AddServiceModal
         isOpen={showAddModal}
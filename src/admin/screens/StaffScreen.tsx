@@ -1,9 +1,16 @@
 import { useState, useEffect } from 'react';
-import { Users, Star, Calendar, Clock, TrendingUp, Award, Plus } from 'lucide-react';
+import { Users, Star, Calendar, Clock, TrendingUp, Award, Plus, Mail, ShieldCheck } from 'lucide-react';
 import { getStaffMembers, type StaffMember } from '../../api/admin';
 import { StaffScheduleModal } from '../components/StaffScheduleModal';
 import { StaffEditModal } from '../components/StaffEditModal';
 import { AddStaffModal } from '../components/AddStaffModal';
+import { RolePermissionsModal } from '../components/RolePermissionsModal';
+import { PayrollReport } from '../components/PayrollReport';
+import { formatCommissionRule } from '../../utils/commission';
+import { getPendingStaffInvites, resendStaffInvite, revokeStaffInvite } from '../../api/staffInvites';
+import { glamConfirm, glamError, glamSuccess } from '../../lib/glamAlerts';
+import { PermissionGuard } from '../../tenant/PermissionGuard';
+import type { StaffInvite } from '../../types/multiTenancy';
 
 export function StaffScreen() {
   const [staff, setStaff] = useState<StaffMember[]>([]);
@@ -12,6 +19,9 @@ export function StaffScreen() {
   const [showScheduleModal, setShowScheduleModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showAddStaffModal, setShowAddStaffModal] = useState(false);
+  const [showPermissionsModal, setShowPermissionsModal] = useState(false);
+  const [invites, setInvites] = useState<StaffInvite[]>([]);
+  const [busyInviteId, setBusyInviteId] = useState<string | null>(null);
 
   useEffect(() => {
     loadStaff();
@@ -20,8 +30,15 @@ export function StaffScreen() {
   const loadStaff = async () => {
     setLoading(true);
     try {
-      const data = await getStaffMembers();
+      const [data, pendingInvites] = await Promise.all([
+        getStaffMembers(),
+        getPendingStaffInvites().catch(error => {
+          console.error('Error loading invites:', error);
+          return [];
+        }),
+      ]);
       setStaff(data);
+      setInvites(pendingInvites);
     } catch (error) {
       console.error('Error loading staff:', error);
     } finally {
@@ -29,6 +46,37 @@ export function StaffScreen() {
     }
   };
 
+  const handleResendInvite = async (invite: StaffInvite) => {
+    try {
+      setBusyInviteId(invite.id);
+      await resendStaffInvite(invite.id);
+      glamSuccess(`Invite resent to ${invite.email}`);
+    } catch (error) {
+      glamError(error instanceof Error ? error.message : 'Failed to resend invite');
+    } finally {
+      setBusyInviteId(null);
+    }
+  };
+
+  const handleRevokeInvite = async (invite: StaffInvite) => {
+    const confirmed = await glamConfirm({
+      title: 'Withdraw invite?',
+      text: `The link sent to ${invite.email} will stop working.`,
+      confirmText: 'Withdraw',
+    });
+    if (!confirmed) return;
+
+    try {
+      setBusyInviteId(invite.id);
+      await revokeStaffInvite(invite.id);
+      setInvites(current => current.filter(i => i.id !== invite.id));
+    } catch (error) {
+      glamError(error instanceof Error ? error.message : 'Failed to withdraw invite');
+    } finally {
+      setBusyInviteId(null);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'available': return 'bg-green-500';
@@ -71,13 +119,26 @@ export function StaffScreen() {
           <h1 className="text-2xl font-bold text-gray-900">Staff Management</h1>
           <p className="text-sm text-gray-500 mt-1">Manage team members and their schedules</p>
         </div>
-        <button 
-          onClick={() => setShowAddStaffModal(true)}
-          className="px-4 py-2 bg-pink-500 hover:bg-pink-600 text-white rounded-lg font-medium transition-colors flex items-center space-x-2"
-        >
-          <Plus className="w-4 h-4" />
-          <span>Add Staff</span>
-        </button>
+        <div className="flex items-center space-x-3">
+          <PermissionGuard permission="permissions.manage">
+            <button
+              onClick={() => setShowPermissionsModal(true)}
+              className="px-4 py-2 border border-gray-300 text-gray-700 hover:bg-gray-50 rounded-lg font-medium transition-colors flex items-center space-x-2"
+            >
+              <ShieldCheck className="w-4 h-4" />
+              <span>Permissions</span>
+            </button>
+          </PermissionGuard>
+          <PermissionGuard permission="staff.manage">
+            <button 
+              onClick={() => setShowAddStaffModal(true)}
+              className="px-4 py-2 bg-pink-500 hover:bg-pink-600 text-white rounded-lg font-medium transition-colors flex items-center space-x-2"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Invite Staff</span>
+            </button>
+          </PermissionGuard>
+        </div>
       </div>
 
       {/* Stats Grid */}
@@ -110,6 +171,49 @@ export function StaffScreen() {
         </div>
       </div>
 
+      {/* Pending Invites */}
+      {invites.length > 0 && (
+        <div className="bg-white rounded-xl p-6 border border-gray-100">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Pending Invites</h3>
+          <div className="divide-y divide-gray-100">
+            {invites.map((invite) => (
+              <div key={invite.id} className="flex items-center justify-between py-3">
+                <div className="flex items-center space-x-3">
+                  <div className="p-2 bg-pink-50 rounded-lg">
+                    <Mail className="w-4 h-4 text-pink-600" />
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {invite.name || invite.email}
+                      <span className="ml-2 text-xs font-normal text-gray-500 capitalize">{invite.role}</span>
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {invite.email} · expires {new Date(invite.expires_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => handleResendInvite(invite)}
+                    disabled={busyInviteId === invite.id}
+                    className="text-sm text-pink-600 hover:text-pink-700 font-medium disabled:opacity-50"
+                  >
+                    Resend
+                  </button>
+                  <button
+                    onClick={() => handleRevokeInvite(invite)}
+                    disabled={busyInviteId === invite.id}
+                    className="text-sm text-gray-600 hover:text-gray-800 font-medium disabled:opacity-50"
+                  >
+                    Withdraw
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Staff Grid */}
       {staff.length === 0 ? (
         <div className="bg-white rounded-xl p-16 text-center border border-gray-100">
@@ -143,7 +247,12 @@ export function StaffScreen() {
                 <div className="mb-4">
                   <h3 className="text-lg font-semibold text-gray-900 mb-1">{member.name}</h3>
                   <div className="flex items-center justify-between">
-                    <span className="text-sm text-gray-600">{member.role}</span>
+                    <span className="text-sm text-gray-600">
+                      {member.role}
+                      {formatCommissionRule(member.commission) && (
+                        <span className="text-xs text-gray-500"> • {formatCommissionRule(member.commission)}</span>
+                      )}
+                    </span>
                     <span className={`text-xs font-medium px-2 py-1 rounded-full ${
                       member.status === 'available' ? 'bg-green-100 text-green-700' :
                       member.status === 'busy' ? 'bg-red-100 text-red-700' :
@@ -268,6 +377,8 @@ export function StaffScreen() {
         </div>
       </div>
 
+      <PayrollReport />
+
       {/* Modals */}
       {selectedStaff && (
         <>
@@ -301,6 +412,11 @@ export function StaffScreen() {
           loadStaff();
         }}
       />
+
+      <RolePermissionsModal
+        isOpen={showPermissionsModal}
+        onClose={() => setShowPermissionsModal(false)}
+      />
     </div>
   );
 }
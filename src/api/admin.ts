@@ -1,11 +1,19 @@
 import { supabase } from '../lib/supabase';
 import { getCurrentOrganizationId } from './multiTenancy';
+import { getRosterSnapshot } from './roster';
+import { getClientAttendance } from './cancellation';
+import { getCheckoutRevenue, getCheckoutSales } from './checkout';
+import { getCommissionRules } from './commission';
+import { getClientLoyaltyStandings } from './loyalty';
+import { getRosterStatus } from '../utils/roster';
+import { getLoyaltyTier } from '../utils/loyalty';
+import type { LoyaltyTierName, StaffCommissionRule } from '../types/multiTenancy';
 
 // ============= TYPES =============
 
 export interface DashboardStats {
   todayRevenue: number;
-  totalRevenue: number; // Total revenue from all completed bookings
+  totalRevenue: number; // Total revenue from all checkouts
   revenueChange: number;
   totalAppointments: number;
   appointmentsChange: number;
@@ -23,7 +31,7 @@ export interface AppointmentWithDetails {
   shop_id?: string; // Actual database column name
   start_at: string;
   end_at?: string;
-  status: 'pending' | 'confirmed' | 'completed' | 'cancelled';
+  status: 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'no_show';
   notes?: string;
   created_at?: string;
   client_name?: string;
@@ -32,6 +40,15 @@ export interface AppointmentWithDetails {
   service_price?: number;
   staff_name?: string;
   staff_id?: string; // Staff assignment
+  cancelled_by?: 'client' | 'salon' | null;
+  cancellation_reason?: string | null;
+  late_cancellation?: boolean;
+  cancellation_fee?: number | null;
+  series_id?: string | null; // Recurring series this booking belongs to
+  visit_id?: string | null; // Services booked together in one visit
+  client_package_id?: string | null; // Package this booking draws a use from
+  deposit_amount?: number;
+  deposit_paid_at?: string | null;
 }
 
 export interface StaffMember {
@@ -43,6 +60,7 @@ export interface StaffMember {
   rating: number;
   avatar?: string;
   next_appointment?: string;
+  commission?: StaffCommissionRule | null;
 }
 
 export interface Client {
@@ -53,7 +71,10 @@ export interface Client {
   total_visits: number;
   total_spent: number;
   last_visit?: string;
-  tier: 'Platinum' | 'Gold' | 'Silver' | 'Bronze';
+  tier: LoyaltyTierName;
+  loyalty_points: number; // Current balance
+  no_shows?: number;
+  late_cancellations?: number;
   created_at: string;
 }
 
@@ -70,7 +91,7 @@ export interface TopClient {
   totalSpent: number;
   visits: number;
   lastVisit: string;
-  tier: 'Platinum' | 'Gold' | 'Silver' | 'Bronze';
+  tier: LoyaltyTierName;
 }
 
 // ============= DASHBOARD STATS =============
@@ -122,32 +143,6 @@ export async function getDashboardStats(): Promise<DashboardStats> {
 
     if (yesterdayError) throw yesterdayError;
 
-    // Get service IDs and fetch prices
-    const todayServiceIds = [...new Set((todayBookings || []).map(b => b.service_id).filter(Boolean))];
-    const yesterdayServiceIds = [...new Set((yesterdayBookings || []).map(b => b.service_id).filter(Boolean))];
-    const allServiceIds = [...new Set([...todayServiceIds, ...yesterdayServiceIds])];
-
-    // Fetch service prices
-    let servicePriceMap = new Map();
-    if (allServiceIds.length > 0) {
-      const { data: services, error: servicesError } = await supabase
-        .from('services')
-        .select('id, price')
-        .in('id', allServiceIds);
-
-      if (!servicesError && services) {
-        servicePriceMap = new Map(services.map(s => [s.id, s.price || 500]));
-      }
-    }
-
-    // Calculate today's revenue (only from completed bookings)
-    const todayRevenue = (todayBookings || [])
-      .filter(b => b.status === 'completed')
-      .reduce((sum, b) => {
-        const price = servicePriceMap.get(b.service_id) || 500;
-        return sum + price;
-      }, 0);
-
     // Get total appointments for today (all statuses)
     const totalAppointments = (todayBookings || []).length;
 
@@ -225,80 +220,21 @@ export async function getDashboardStats(): Promise<DashboardStats> {
       ? Math.round(((staffUtilization - previousUtilization) / previousUtilization) * 100)
       : (staffUtilization > 0 ? 100 : 0);
 
-    // Calculate total revenue from all completed bookings
-    const { data: allBookings, error: allBookingsError } = await supabase
-      .from('bookings')
-      .select('service_id, status')
-      .eq('status', 'completed');
-
-    if (allBookingsError) {
-      console.error('Error fetching all bookings for total revenue:', allBookingsError);
-    }
-
-    // Get all service IDs for total revenue calculation
-    const allCompletedServiceIds = [...new Set((allBookings || []).map(b => b.service_id).filter(Boolean))];
-    let allServicePriceMap = new Map();
-    
-    if (allCompletedServiceIds.length > 0) {
-      const { data: allServices, error: allServicesError } = await supabase
-        .from('services')
-        .select('id, price')
-        .in('id', allCompletedServiceIds);
-
-      if (!allServicesError && allServices) {
-        allServicePriceMap = new Map(allServices.map(s => [s.id, s.price || 500]));
-      }
-    }
-
-    // Calculate total revenue from all completed bookings
-    const totalRevenue = (allBookings || []).reduce((sum, b) => {
-      const price = allServicePriceMap.get(b.service_id) || 500;
-      return sum + price;
-    }, 0);
-
     // Calculate revenue change: compare this month vs last month
     const oneMonthAgo = new Date(today);
     oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
     oneMonthAgo.setHours(0, 0, 0, 0);
-    const oneMonthAgoStr = oneMonthAgo.toISOString();
 
     const twoMonthsAgo = new Date(oneMonthAgo);
     twoMonthsAgo.setMonth(twoMonthsAgo.getMonth() - 1);
-    const twoMonthsAgoStr = twoMonthsAgo.toISOString();
 
-    // This month's revenue (from one month ago to today)
-    const { data: thisMonthBookings, error: thisMonthError } = await supabase
-      .from('bookings')
-      .select('service_id, status')
-      .eq('status', 'completed')
-      .gte('created_at', oneMonthAgoStr)
-      .lt('created_at', tomorrowStr);
-
-    if (thisMonthError) {
-      console.error('Error fetching this month bookings:', thisMonthError);
-    }
-
-    const thisMonthRevenue = (thisMonthBookings || []).reduce((sum, b) => {
-      const price = allServicePriceMap.get(b.service_id) || 500;
-      return sum + price;
-    }, 0);
-
-    // Last month's revenue (from two months ago to one month ago)
-    const { data: lastMonthBookings, error: lastMonthError } = await supabase
-      .from('bookings')
-      .select('service_id, status')
-      .eq('status', 'completed')
-      .gte('created_at', twoMonthsAgoStr)
-      .lt('created_at', oneMonthAgoStr);
-
-    if (lastMonthError) {
-      console.error('Error fetching last month bookings:', lastMonthError);
-    }
-
-    const lastMonthRevenue = (lastMonthBookings || []).reduce((sum, b) => {
-      const price = allServicePriceMap.get(b.service_id) || 500;
-      return sum + price;
-    }, 0);
+    // Revenue comes from what was actually rung up at checkout
+    const [totalRevenue, todayRevenue, thisMonthRevenue, lastMonthRevenue] = await getCheckoutRevenue([
+      {},
+      { from: today, to: tomorrow },
+      { from: oneMonthAgo, to: tomorrow },
+      { from: twoMonthsAgo, to: oneMonthAgo },
+    ]);
 
     // Calculate percentage change: (this month - last month) / last month * 100
     const totalRevenueChange = lastMonthRevenue > 0
@@ -385,6 +321,8 @@ export async function getTodayAppointments(): Promise<AppointmentWithDetails[]>
         client_name: clientEmail.split('@')[0] || 'Client',
         service_name: service?.name || `Service #${booking.service_id}`,
         service_price: service?.price || 500,
+        deposit_amount: Number(booking.deposit_amount ?? 0),
+        deposit_paid_at: booking.deposit_paid_at ?? null,
       } as AppointmentWithDetails;
     });
   } catch (error) {
@@ -465,7 +403,7 @@ export async function getAllAppointments(limit = 50): Promise<AppointmentWithDet
         shop_id: shopId, // Also include shop_id directly
         start_at: booking.start_at,
         end_at: booking.end_at,
-        status: status as 'pending' | 'confirmed' | 'completed' | 'cancelled',
+        status: status as AppointmentWithDetails['status'],
         notes: booking.notes,
         created_at: booking.created_at,
         staff_id: booking.staff_id, // Include staff assignment
@@ -496,17 +434,23 @@ export async function getStaffMembers(): Promise<StaffMember[]> {
 
     if (error) throw error;
 
-    // Map profiles to staff members with calculated status
+    // Status comes from today's shifts, approved time off and assignments
+    const [roster, commissionRules] = await Promise.all([
+      getRosterSnapshot((data || []).map(profile => profile.id)),
+      getCommissionRules(),
+    ]);
+    const commissionMap = new Map(commissionRules.map(rule => [rule.staff_id, rule]));
+
     return (data || []).map((profile, index) => {
-      const statuses: ('available' | 'busy' | 'break')[] = ['available', 'busy', 'available', 'break'];
       return {
         id: profile.id,
         name: profile.email?.split('@')[0] || 'Staff Member',
         email: profile.email || '',
         role: profile.role === 'manager' ? 'Manager' : 'Specialist',
-        status: statuses[index % statuses.length],
+        status: getRosterStatus({ staffId: profile.id, ...roster }),
         rating: 4.5 + Math.random() * 0.5,
         next_appointment: index % 2 === 0 ? '10:00 AM' : undefined,
+        commission: commissionMap.get(profile.id) ?? null,
       };
     });
   } catch (error) {
@@ -542,7 +486,7 @@ export async function getTopClients(limit = 10): Promise<TopClient[]> {
     const clientIds = [...new Set(bookings.map(b => b.client_id))];
     const serviceIds = [...new Set(bookings.map(b => b.service_id))];
     
-    const [profilesResult, servicesResult] = await Promise.all([
+    const [profilesResult, servicesResult, loyalty] = await Promise.all([
       supabase
         .from('profiles')
         .select('id, email')
@@ -550,7 +494,8 @@ export async function getTopClients(limit = 10): Promise<TopClient[]> {
       supabase
         .from('services')
         .select('id, price')
-        .in('id', serviceIds)
+        .in('id', serviceIds),
+      getClientLoyaltyStandings(organizationId),
     ]);
 
     if (profilesResult.error) throw profilesResult.error;
@@ -601,11 +546,7 @@ export async function getTopClients(limit = 10): Promise<TopClient[]> {
           totalSpent: data.totalSpent,
           visits: data.visits,
           lastVisit: data.lastVisit,
-          tier: (
-            data.visits >= 26 ? 'Platinum' :
-            data.visits >= 11 ? 'Gold' :
-            data.visits >= 6 ? 'Silver' : 'Bronze'
-          ) as TopClient['tier'],
+          tier: getLoyaltyTier(loyalty.balances.get(id)?.lifetimePoints ?? 0, loyalty.tiers),
         };
       })
       .sort((a, b) => b.totalSpent - a.totalSpent)
@@ -683,6 +624,11 @@ export async function getAllClients(): Promise<Client[]> {
       }
     });
 
+    const [attendance, loyalty] = await Promise.all([
+      getClientAttendance((profiles || []).map(profile => profile.id), organizationId),
+      getClientLoyaltyStandings(organizationId),
+    ]);
+
     return (profiles || []).map(profile => {
       const stats = bookingStats.get(profile.id);
       const totalSpent = stats?.totalSpent || 0;
@@ -695,11 +641,10 @@ export async function getAllClients(): Promise<Client[]> {
         total_visits: stats?.visits || 0,
         total_spent: totalSpent,
         last_visit: stats?.lastVisit,
-        tier: (
-          (stats?.visits || 0) >= 26 ? 'Platinum' :
-          (stats?.visits || 0) >= 11 ? 'Gold' :
-          (stats?.visits || 0) >= 6 ? 'Silver' : 'Bronze'
-        ) as Client['tier'],
+        tier: getLoyaltyTier(loyalty.balances.get(profile.id)?.lifetimePoints ?? 0, loyalty.tiers),
+        loyalty_points: loyalty.balances.get(profile.id)?.balance ?? 0,
+        no_shows: attendance.get(profile.id)?.no_shows || 0,
+        late_cancellations: attendance.get(profile.id)?.late_cancellations || 0,
         created_at: profile.created_at,
       };
     });
@@ -717,13 +662,7 @@ export async function getWeeklyRevenue(): Promise<RevenueData[]> {
     const sevenDaysAgo = new Date(today);
     sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
 
-    const { data, error } = await supabase
-      .from('bookings')
-      .select('created_at, service_id, status')
-      .gte('created_at', sevenDaysAgo.toISOString())
-      .eq('status', 'completed');
-
-    if (error) throw error;
+    const sales = await getCheckoutSales(sevenDaysAgo);
 
     // Group by date
     const revenueMap = new Map<string, number>();
@@ -738,11 +677,10 @@ export async function getWeeklyRevenue(): Promise<RevenueData[]> {
     }
 
     // Add actual revenue
-    data?.forEach(booking => {
-      const date = new Date(booking.created_at);
-      const dateStr = date.toISOString().split('T')[0];
-      const current = revenueMap.get(dateStr) || 0;
-      revenueMap.set(dateStr, current + 500);
+    sales.forEach(sale => {
+      const dateStr = new Date(sale.created_at).toISOString().split('T')[0];
+      const current = revenueMap.get(dateStr);
+      if (current !== undefined) revenueMap.set(dateStr, current + sale.revenue);
     });
 
     // Convert to array
@@ -0,0 +1,42 @@
+import { supabase } from '../lib/supabase';
+import { isMissingSchemaError } from '../lib/supabaseErrors';
+import { getCurrentOrganizationId } from './multiTenancy';
+import type { AuditLogEntry, AuditLogFilters } from '../types/multiTenancy';
+
+export const AUDIT_LOG_SETUP_MESSAGE =
+  'The audit log is not set up yet. Please run supabase-audit-log-setup.sql.';
+
+const AUDIT_LOG_LIMIT = 500;
+
+/**
+ * The current organization's audit log, newest first. Entries are only ever
+ * added by the database, so there's nothing to write from here.
+ */
+export async function getAuditLog(filters: AuditLogFilters = {}): Promise<AuditLogEntry[]> {
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) return [];
+
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: false })
+    .limit(AUDIT_LOG_LIMIT);
+
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+  if (filters.from) query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) {
+    const end = new Date(`${filters.to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    query = query.lt('created_at', end.toISOString());
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    if (isMissingSchemaError(error)) throw new Error(AUDIT_LOG_SETUP_MESSAGE);
+    throw error;
+  }
+  return (data || []) as AuditLogEntry[];
+}
@@ -0,0 +1,219 @@
+import { supabase } from '../lib/supabase';
+import { getShopCalendar } from './businessHours';
+import { getStaffShifts, getTimeOffRequests } from './roster';
+import { getStaffSkills } from './staffSkills';
+import { getWaitlistHolds } from './waitlist';
+import { getOpeningHoursForDate } from '../utils/businessHours';
+import { buildRosterForDate, canPerformService } from '../utils/roster';
+import {
+  computeAvailability,
+  computeVisitAvailability,
+  type AvailabilitySlot,
+  type BusyBooking,
+  type RosterEntry,
+  type VisitSlot,
+} from '../utils/availability';
+
+export type { AvailabilitySlot, VisitSlot } from '../utils/availability';
+
+// Bookings in these statuses hold a chair
+const ACTIVE_BOOKING_STATUSES = ['pending', 'confirmed'];
+
+function getDayBounds(date: Date): { start: Date; end: Date } {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return { start, end };
+}
+
+// Get active bookings for a shop that touch the given day, plus slots held for
+// waitlisted clients. `excludeBookingId` leaves out a booking that is being
+// moved so it doesn't block itself.
+export async function getShopBookingsForDay(
+  shopId: string,
+  date: Date,
+  excludeBookingId?: number | string
+): Promise<BusyBooking[]> {
+  const { start, end } = getDayBounds(date);
+  // Look back far enough to catch long appointments that started the day before
+  const lookBack = new Date(start);
+  lookBack.setHours(lookBack.getHours() - 12);
+
+  const [{ data, error }, holds] = await Promise.all([
+    supabase
+      .from('bookings')
+      .select('id, start_at, end_at, staff_id, service_id, status')
+      .eq('shop_id', shopId)
+      .gte('start_at', lookBack.toISOString())
+      .lt('start_at', end.toISOString())
+      .in('status', ACTIVE_BOOKING_STATUSES),
+    getWaitlistHolds(shopId, lookBack, end),
+  ]);
+
+  if (error) {
+    console.error('Error fetching shop bookings for availability:', error);
+    return holds;
+  }
+  const rows = (data || []).filter(b => excludeBookingId === undefined || String(b.id) !== String(excludeBookingId));
+  if (rows.length === 0) return holds;
+
+  // Bookings created before end_at was populated need their service duration
+  const missingEnd = [...new Set(rows.filter(b => !b.end_at).map(b => b.service_id).filter(Boolean))];
+  let durationMap = new Map<string, number>();
+  if (missingEnd.length > 0) {
+    const { data: services } = await supabase
+      .from('services')
+      .select('id, duration')
+      .in('id', missingEnd);
+    durationMap = new Map((services || []).map(s => [String(s.id), Number(s.duration) || 0]));
+  }
+
+  return [
+    ...rows.map(booking => ({
+      start_at: booking.start_at,
+      end_at: booking.end_at,
+      staff_id: booking.staff_id,
+      duration: durationMap.get(String(booking.service_id)),
+    })),
+    ...holds,
+  ];
+}
+
+// Get the ids of staff who work for the organization that owns a shop
+export async function getShopStaffIds(shopId: string): Promise<string[]> {
+  const { data: shop, error: shopError } = await supabase
+    .from('shops')
+    .select('organization_id')
+    .eq('id', shopId)
+    .maybeSingle();
+
+  if (shopError || !shop?.organization_id) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('organization_id', shop.organization_id)
+    .eq('role', 'staff');
+
+  if (error) {
+    console.error('Error fetching shop roster:', error);
+    return [];
+  }
+
+  return (data || []).map(profile => String(profile.id));
+}
+
+// Get the staff who can take appointments at a shop on a date, honouring
+// their shifts, approved time off and (when given) their service skills
+export async function getShopRoster(shopId: string, date: Date, serviceId?: string): Promise<RosterEntry[]> {
+  const staffIds = await getShopStaffIds(shopId);
+  if (staffIds.length === 0) return [];
+
+  const [shifts, timeOff, skills] = await Promise.all([
+    getStaffShifts(staffIds),
+    getTimeOffRequests({ staffIds, status: 'approved', upcomingOnly: true }),
+    serviceId ? getStaffSkills(staffIds) : Promise.resolve([]),
+  ]);
+
+  const roster = buildRosterForDate({ staffIds, shopId, date, shifts, timeOff });
+  if (!serviceId) return roster;
+
+  // Untrained staff stay on the roster with no hours so their own bookings
+  // are still attributed to them
+  return roster.map(entry =>
+    canPerformService(skills, entry.staffId, serviceId) ? entry : { staffId: entry.staffId, hours: [] }
+  );
+}
+
+/**
+ * Get bookable slots for a service at a shop on a given date.
+ * Uses the shop's business hours and closure calendar, and falls back to a
+ * single chair when the shop has no roster configured.
+ */
+export async function getAvailableSlots(params: {
+  shopId: string;
+  date: Date;
+  durationMinutes: number;
+  serviceId?: string;
+  staffId?: string | null;
+  excludeBookingId?: number | string;
+}): Promise<AvailabilitySlot[]> {
+  const calendar = await getShopCalendar(params.shopId);
+  const openingHours = getOpeningHoursForDate(calendar, params.date);
+  if (openingHours.length === 0) return [];
+
+  const [bookings, roster] = await Promise.all([
+    getShopBookingsForDay(params.shopId, params.date, params.excludeBookingId),
+    getShopRoster(params.shopId, params.date, params.serviceId),
+  ]);
+
+  return computeAvailability({
+    date: params.date,
+    openingHours,
+    roster,
+    bookings,
+    durationMinutes: params.durationMinutes,
+    staffId: params.staffId,
+  });
+}
+
+/**
+ * Get start times for several services at one shop booked back-to-back,
+ * each with its own (optional) stylist
+ */
+export async function getVisitSlots(params: {
+  shopId: string;
+  date: Date;
+  services: { serviceId: string; durationMinutes: number; staffId?: string | null }[];
+}): Promise<VisitSlot[]> {
+  const calendar = await getShopCalendar(params.shopId);
+  const openingHours = getOpeningHoursForDate(calendar, params.date);
+  if (openingHours.length === 0 || params.services.length === 0) return [];
+
+  const [bookings, rosters] = await Promise.all([
+    getShopBookingsForDay(params.shopId, params.date),
+    Promise.all(params.services.map(service => getShopRoster(params.shopId, params.date, service.serviceId))),
+  ]);
+
+  return computeVisitAvailability({
+    date: params.date,
+    openingHours,
+    bookings,
+    segments: params.services.map((service, index) => ({
+      roster: rosters[index],
+      durationMinutes: service.durationMinutes,
+      staffId: service.staffId,
+    })),
+  });
+}
+
+/**
+ * Re-check a single start time right before a booking is written
+ */
+export async function isSlotAvailable(params: {
+  shopId: string;
+  start: Date;
+  durationMinutes: number;
+  serviceId?: string;
+  staffId?: string | null;
+  excludeBookingId?: number | string;
+}): Promise<boolean> {
+  const slots = await getAvailableSlots({
+    shopId: params.shopId,
+    date: params.start,
+    durationMinutes: params.durationMinutes,
+    serviceId: params.serviceId,
+    staffId: params.staffId,
+    excludeBookingId: params.excludeBookingId,
+  });
+  return slots.some(slot => slot.available && slot.start.getTime() === params.start.getTime());
+}
+
+// Compute end_at for a booking so later availability checks see its full length
+export function getBookingEndAt(start: Date | string, durationMinutes: number): string {
+  const startDate = typeof start === 'string' ? new Date(start) : start;
+  return new Date(startDate.getTime() + durationMinutes * 60000).toISOString();
+}
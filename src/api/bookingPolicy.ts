@@ -0,0 +1,71 @@
+import { supabase } from '../lib/supabase';
+import { isMissingSchemaError } from '../lib/supabaseErrors';
+import { getCurrentOrganizationId } from './multiTenancy';
+import { normalizeBookingPolicy } from '../utils/bookingPolicy';
+import type { BookingPolicy } from '../types/multiTenancy';
+
+export async function getBookingPolicy(organizationId: string | null): Promise<BookingPolicy> {
+  if (!organizationId) return normalizeBookingPolicy(null);
+
+  // select('*') so organizations without the booking_policy column still load
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('*')
+    .eq('id', organizationId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching booking policy:', error);
+    return normalizeBookingPolicy(null);
+  }
+
+  return normalizeBookingPolicy(data?.booking_policy ?? null);
+}
+
+// Policy for the organization that owns a shop
+export async function getShopBookingPolicy(shopId: string): Promise<BookingPolicy> {
+  const { data: shop } = await supabase
+    .from('shops')
+    .select('organization_id')
+    .eq('id', shopId)
+    .maybeSingle();
+
+  return getBookingPolicy(shop?.organization_id ?? null);
+}
+
+export async function getMyBookingPolicy(): Promise<BookingPolicy> {
+  return getBookingPolicy(await getCurrentOrganizationId());
+}
+
+export async function updateBookingPolicy(policy: BookingPolicy): Promise<void> {
+  if (policy.reschedule_cutoff_hours < 0) {
+    throw new Error('Cutoff hours cannot be negative');
+  }
+  if (policy.max_reschedules !== null && policy.max_reschedules < 0) {
+    throw new Error('Maximum reschedules cannot be negative');
+  }
+  if (policy.cancellation_cutoff_hours < 0) {
+    throw new Error('Cancellation window cannot be negative');
+  }
+  if ([policy.late_cancel_fee_percent, policy.no_show_fee_percent].some(fee => fee < 0 || fee > 100)) {
+    throw new Error('Fees must be between 0% and 100%');
+  }
+  if (policy.prepay_after_no_shows !== null && policy.prepay_after_no_shows < 1) {
+    throw new Error('Prepayment threshold must be at least 1 no-show');
+  }
+
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) throw new Error('No organization found');
+
+  const { error } = await supabase
+    .from('organizations')
+    .update({ booking_policy: policy, updated_at: new Date().toISOString() })
+    .eq('id', organizationId);
+
+  if (error) {
+    if (isMissingSchemaError(error)) {
+      throw new Error('Booking policies are not set up yet. Please run supabase-booking-policy-setup.sql.');
+    }
+    throw error;
+  }
+}
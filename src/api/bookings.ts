@@ -1,6 +1,7 @@
 import { supabase } from '../lib/supabase';
+import { cancelBookingWithPolicy, markBookingNoShow } from './cancellation';
 
-export type BookingStatus = 'pending' | 'confirmed' | 'completed' | 'cancelled';
+export type BookingStatus = 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'no_show';
 
 export interface Booking {
   id: number;
@@ -57,8 +58,19 @@ export async function listBookingsSmart(): Promise<Booking[]> {
 
 export async function adminUpdateBookingStatus(
   bookingId: number,
-  status: BookingStatus
+  status: BookingStatus,
+  reason?: string
 ): Promise<void> {
+  // Cancellations and no-shows also record who, why and any policy fee
+  if (status === 'cancelled') {
+    await cancelBookingWithPolicy({ bookingId, reason });
+    return;
+  }
+  if (status === 'no_show') {
+    await markBookingNoShow(bookingId);
+    return;
+  }
+
   // Prefer updating updated_at as well, but gracefully fallback if the column
   // doesn't exist in the current schema.
   const preferredUpdate = { status, updated_at: new Date().toISOString() };
@@ -71,6 +83,12 @@ export async function adminUpdateBookingStatus(
   if (!preferredError) return;
 
   const message = preferredError.message || '';
+  if (message.includes('DEPOSIT_REQUIRED')) {
+    throw new Error(message.replace('DEPOSIT_REQUIRED: ', ''));
+  }
+  if (message.includes('CANCELLATION_LOCKED')) {
+    throw new Error(message.replace('CANCELLATION_LOCKED: ', ''));
+  }
   const mentionsMissingUpdatedAt =
     message.includes('updated_at') &&
     (message.includes('does not exist') || message.includes('unknown') || message.includes('column'));
@@ -92,7 +110,7 @@ export async function adminUpdateBookingStatus(
   throw preferredError;
 }
 
-export type BookingPaymentMethod = 'cash' | 'online' | 'visa';
+export type BookingPaymentMethod = 'cash' | 'online' | 'visa' | 'gift_card';
 
 export type BookingPaymentDetails = {
   booking_id: string;
@@ -0,0 +1,128 @@
+import { supabase } from '../lib/supabase';
+import { isMissingSchemaError } from '../lib/supabaseErrors';
+import { normalizeSchedule, toDateKey } from '../utils/businessHours';
+import type { ShopCalendar, ShopClosure, ShopClosureInsert, WeeklySchedule } from '../types/multiTenancy';
+
+// ============= CALENDAR =============
+
+/**
+ * Get weekly hours and upcoming closures for several shops at once
+ */
+export async function getShopCalendars(shopIds: string[]): Promise<Map<string, ShopCalendar>> {
+  const calendars = new Map<string, ShopCalendar>();
+  if (shopIds.length === 0) return calendars;
+
+  // select('*') so shops without the business_hours column still load
+  const { data: shops, error: shopsError } = await supabase
+    .from('shops')
+    .select('*')
+    .in('id', shopIds);
+
+  if (shopsError) {
+    console.error('Error fetching business hours:', shopsError);
+    // Fall back to default hours so booking keeps working
+    shopIds.forEach(id => calendars.set(id, { shopId: id, isOpen: true, schedule: normalizeSchedule(null), closures: [] }));
+    return calendars;
+  }
+
+  (shops || []).forEach(shop => {
+    calendars.set(String(shop.id), {
+      shopId: String(shop.id),
+      isOpen: shop.is_open ?? true,
+      schedule: normalizeSchedule((shop.business_hours ?? null) as WeeklySchedule | null),
+      closures: [],
+    });
+  });
+
+  const { data: closures, error: closuresError } = await supabase
+    .from('shop_closures')
+    .select('*')
+    .in('shop_id', shopIds)
+    .gte('end_date', toDateKey(new Date()))
+    .order('start_date', { ascending: true });
+
+  if (closuresError) {
+    if (!isMissingSchemaError(closuresError)) {
+      console.error('Error fetching shop closures:', closuresError);
+    }
+    return calendars;
+  }
+
+  (closures || []).forEach(closure => {
+    calendars.get(String(closure.shop_id))?.closures.push(closure as ShopClosure);
+  });
+
+  return calendars;
+}
+
+export async function getShopCalendar(shopId: string): Promise<ShopCalendar> {
+  const calendars = await getShopCalendars([shopId]);
+  return calendars.get(shopId) || { shopId, isOpen: true, schedule: normalizeSchedule(null), closures: [] };
+}
+
+// ============= WEEKLY HOURS =============
+
+export async function updateShopBusinessHours(shopId: string, schedule: WeeklySchedule): Promise<void> {
+  const { error } = await supabase
+    .from('shops')
+    .update({ business_hours: schedule, updated_at: new Date().toISOString() })
+    .eq('id', shopId);
+
+  if (error) {
+    if (isMissingSchemaError(error)) {
+      throw new Error('Business hours are not set up yet. Please run supabase-business-hours-setup.sql.');
+    }
+    throw error;
+  }
+}
+
+// ============= CLOSURES & HOLIDAYS =============
+
+export async function getShopClosures(shopId: string): Promise<ShopClosure[]> {
+  const { data, error } = await supabase
+    .from('shop_closures')
+    .select('*')
+    .eq('shop_id', shopId)
+    .order('start_date', { ascending: true });
+
+  if (error) {
+    if (isMissingSchemaError(error)) return [];
+    throw error;
+  }
+
+  return (data || []) as ShopClosure[];
+}
+
+export async function addShopClosure(closure: ShopClosureInsert): Promise<ShopClosure> {
+  if (closure.end_date < closure.start_date) {
+    throw new Error('End date cannot be before start date');
+  }
+
+  const { data, error } = await supabase
+    .from('shop_closures')
+    .insert({
+      ...closure,
+      reason: closure.reason || null,
+      hours: closure.hours && closure.hours.length > 0 ? closure.hours : null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (isMissingSchemaError(error)) {
+      throw new Error('Closures are not set up yet. Please run supabase-business-hours-setup.sql.');
+    }
+    throw error;
+  }
+
+  return data as ShopClosure;
+}
+
+export async function deleteShopClosure(closureId: string): Promise<void> {
+  const { error } = await supabase
+    .from('shop_closures')
+    .delete()
+    .eq('id', closureId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,125 @@
+import { supabase } from '../lib/supabase';
+import { isMissingSchemaError } from '../lib/supabaseErrors';
+import { getCurrentOrganizationId } from './multiTenancy';
+import { validateCampaignInput } from '../utils/campaigns';
+import type { Campaign, CampaignAudience, CampaignInput, CampaignMetrics } from '../types/multiTenancy';
+
+export const CAMPAIGNS_SETUP_MESSAGE = 'Campaigns are not set up yet. Please run supabase-campaigns-setup.sql.';
+
+const EMPTY_METRICS: CampaignMetrics = { recipients: 0, sent: 0, failed: 0, opened: 0, booked: 0, revenue: 0 };
+
+/**
+ * The current organization's campaigns with their delivery and booking
+ * metrics, newest first
+ */
+export async function getCampaigns(): Promise<Campaign[]> {
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) return [];
+
+  const [{ data, error }, { data: metrics, error: metricsError }] = await Promise.all([
+    supabase
+      .from('campaigns')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false }),
+    supabase.rpc('get_campaign_metrics', { p_organization_id: organizationId }),
+  ]);
+
+  if (error) {
+    if (isMissingSchemaError(error)) return [];
+    throw error;
+  }
+  if (metricsError) throw metricsError;
+
+  const metricsById = new Map(
+    ((metrics || []) as (CampaignMetrics & { campaign_id: string })[]).map(({ campaign_id, ...row }) => [
+      campaign_id,
+      { ...row, revenue: Number(row.revenue) },
+    ])
+  );
+
+  return ((data || []) as Campaign[]).map(campaign => ({
+    ...campaign,
+    metrics: metricsById.get(campaign.id) ?? EMPTY_METRICS,
+  }));
+}
+
+/**
+ * Save a campaign. Without a schedule time it goes out straight away;
+ * otherwise send-campaigns picks it up once it's due.
+ */
+export async function createCampaign(input: CampaignInput): Promise<void> {
+  const validationError = validateCampaignInput(input);
+  if (validationError) throw new Error(validationError);
+
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) throw new Error('No organization found for this account');
+
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from('campaigns')
+    .insert({
+      organization_id: organizationId,
+      name: input.name.trim(),
+      channel: input.channel,
+      subject: input.channel === 'email' ? input.subject?.trim() || null : null,
+      message: input.message.trim(),
+      audience: input.audience,
+      scheduled_at: input.scheduled_at ?? new Date().toISOString(),
+      created_by: user?.id ?? null,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    if (isMissingSchemaError(error)) throw new Error(CAMPAIGNS_SETUP_MESSAGE);
+    throw error;
+  }
+
+  if (!input.scheduled_at) await sendCampaignNow(data.id);
+}
+
+// Deliver a scheduled campaign now instead of waiting for its time
+export async function sendCampaignNow(campaignId: string): Promise<void> {
+  const { data, error } = await supabase.functions.invoke('send-campaigns', {
+    body: { campaignId },
+  });
+
+  if (error) {
+    console.error('Error sending campaign:', error);
+    throw new Error('Failed to send the campaign');
+  }
+  if (data?.error) throw new Error(data.error);
+}
+
+// Stop a campaign that hasn't started sending
+export async function cancelCampaign(campaignId: string): Promise<void> {
+  const { error } = await supabase
+    .from('campaigns')
+    .update({ status: 'cancelled' })
+    .eq('id', campaignId)
+    .eq('status', 'scheduled');
+
+  if (error) {
+    if (isMissingSchemaError(error)) throw new Error(CAMPAIGNS_SETUP_MESSAGE);
+    throw error;
+  }
+}
+
+// How many clients are in an audience right now. The count at send time may differ.
+export async function getCampaignAudienceSize(audience: CampaignAudience): Promise<number | null> {
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) return null;
+
+  const { data, error } = await supabase.rpc('count_campaign_audience', {
+    p_organization_id: organizationId,
+    p_audience: audience,
+  });
+
+  if (error) {
+    if (isMissingSchemaError(error)) return null;
+    throw error;
+  }
+  return Number(data);
+}
@@ -0,0 +1,136 @@
+import { supabase } from '../lib/supabase';
+import { isMissingSchemaError } from '../lib/supabaseErrors';
+import { getBookingPolicy } from './bookingPolicy';
+import { getPolicyFee, isLateCancellation } from '../utils/bookingPolicy';
+import type { BookingPolicy, CancellationActor, ClientAttendance } from '../types/multiTenancy';
+
+const SETUP_MESSAGE = 'No-show tracking is not set up yet. Please run supabase-cancellation-policy-setup.sql.';
+
+// The booking, its organization's policy and the service price
+async function loadBookingForPolicy(bookingId: number | string) {
+  const { data: booking, error } = await supabase
+    .from('bookings')
+    .select('id, client_id, shop_id, service_id, staff_id, organization_id, start_at, end_at, status')
+    .eq('id', bookingId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!booking) throw new Error('Booking not found');
+
+  let organizationId: string | null = booking.organization_id ?? null;
+  if (!organizationId && booking.shop_id) {
+    const { data: shop } = await supabase
+      .from('shops')
+      .select('organization_id')
+      .eq('id', booking.shop_id)
+      .maybeSingle();
+    organizationId = shop?.organization_id ?? null;
+  }
+
+  const [policy, { data: service }] = await Promise.all([
+    getBookingPolicy(organizationId),
+    supabase.from('services').select('price').eq('id', booking.service_id).maybeSingle(),
+  ]);
+
+  return { booking, policy, servicePrice: Number(service?.price) || 0 };
+}
+
+// Turn a database error from the cancellation functions into a readable one
+function toCancellationError(error: { code?: string; message?: string }): Error {
+  if (error.message?.includes('CANCELLATION_INVALID')) {
+    return new Error(error.message.replace('CANCELLATION_INVALID: ', ''));
+  }
+  // 23514 = check constraint, i.e. the status list doesn't include no_show yet
+  if (error.code === '23514' || isMissingSchemaError(error)) {
+    return new Error(SETUP_MESSAGE);
+  }
+  return error instanceof Error ? error : new Error(error.message || 'Cancellation request failed');
+}
+
+/**
+ * What cancelling right now would cost the client - shown before they confirm
+ */
+export async function getCancellationQuote(bookingId: number | string): Promise<{
+  policy: BookingPolicy;
+  isLate: boolean;
+  fee: number;
+}> {
+  const { booking, policy, servicePrice } = await loadBookingForPolicy(bookingId);
+  const isLate = isLateCancellation(policy, booking);
+  return { policy, isLate, fee: isLate ? getPolicyFee(policy.late_cancel_fee_percent, servicePrice) : 0 };
+}
+
+/**
+ * Cancel a booking and record who cancelled it and why.
+ * cancel_booking() works out the actor from the caller; only client
+ * cancellations inside the policy window are charged a late-cancel fee. The
+ * freed slot is then offered to the waitlist.
+ */
+export async function cancelBookingWithPolicy(params: {
+  bookingId: number | string;
+  reason?: string;
+}): Promise<{ fee: number; cancelledBy: CancellationActor }> {
+  const { data, error } = await supabase.rpc('cancel_booking', {
+    p_booking_id: params.bookingId,
+    p_reason: params.reason?.trim() || null,
+  });
+
+  if (error) throw toCancellationError(error);
+
+  const booking = data as { cancellation_fee: number | string; cancelled_by: CancellationActor };
+  return { fee: Number(booking.cancellation_fee) || 0, cancelledBy: booking.cancelled_by };
+}
+
+/**
+ * Mark an appointment the client didn't turn up for, charging the no-show fee
+ */
+export async function markBookingNoShow(bookingId: number | string): Promise<{ fee: number }> {
+  const { data, error } = await supabase.rpc('mark_booking_no_show', { p_booking_id: bookingId });
+
+  if (error) throw toCancellationError(error);
+
+  return { fee: Number((data as { cancellation_fee: number | string }).cancellation_fee) || 0 };
+}
+
+/**
+ * No-shows, late cancellations and fees charged per client
+ */
+export async function getClientAttendance(
+  clientIds: string[],
+  organizationId?: string | null
+): Promise<Map<string, ClientAttendance>> {
+  const attendance = new Map<string, ClientAttendance>();
+  clientIds.forEach(id => attendance.set(id, { client_id: id, no_shows: 0, late_cancellations: 0, total_fees: 0 }));
+  if (clientIds.length === 0) return attendance;
+
+  // select('*') so databases without the cancellation columns still load
+  let query = supabase
+    .from('bookings')
+    .select('*')
+    .in('client_id', clientIds)
+    .in('status', ['cancelled', 'no_show']);
+
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching client attendance:', error);
+    return attendance;
+  }
+
+  (data || []).forEach(booking => {
+    const entry = attendance.get(booking.client_id);
+    if (!entry) return;
+    if (booking.status === 'no_show') {
+      entry.no_shows += 1;
+    } else if (booking.late_cancellation) {
+      entry.late_cancellations += 1;
+    }
+    entry.total_fees += Number(booking.cancellation_fee) || 0;
+  });
+
+  return attendance;
+}
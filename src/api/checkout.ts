@@ -0,0 +1,308 @@
+import { supabase } from '../lib/supabase';
+import { isMissingSchemaError } from '../lib/supabaseErrors';
+import { getCurrentOrganizationId } from './multiTenancy';
+import { validateTenders, calculateCheckoutTotals } from '../utils/checkout';
+import type { Checkout, CheckoutItemInput, CheckoutTenderInput, RetailProduct } from '../types/multiTenancy';
+
+export const CHECKOUT_SETUP_MESSAGE = 'Checkout is not set up yet. Please run supabase-checkout-setup.sql.';
+
+const CHECKOUT_SELECT = `
+  *,
+  items:checkout_items(*),
+  tenders:checkout_tenders(*),
+  shop:shops(name, address)
+`;
+
+// Supabase returns NUMERIC columns as strings
+function mapCheckout(row: Checkout): Checkout {
+  return {
+    ...row,
+    subtotal: Number(row.subtotal),
+    discount_amount: Number(row.discount_amount),
+    tip_amount: Number(row.tip_amount),
+    total: Number(row.total),
+    prepaid_amount: Number(row.prepaid_amount),
+    amount_due: Number(row.amount_due),
+    change_given: Number(row.change_given),
+    items: (row.items || []).map(item => ({
+      ...item,
+      unit_price: Number(item.unit_price),
+      line_total: Number(item.line_total),
+    })),
+    tenders: (row.tenders || []).map(tender => ({ ...tender, amount: Number(tender.amount) })),
+  };
+}
+
+// ============= RETAIL PRODUCTS =============
+
+export async function getRetailProducts(includeInactive = false): Promise<RetailProduct[]> {
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) return [];
+
+  let query = supabase
+    .from('retail_products')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('name', { ascending: true });
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    if (isMissingSchemaError(error)) return [];
+    throw error;
+  }
+
+  return ((data || []) as RetailProduct[]).map(product => ({ ...product, price: Number(product.price) }));
+}
+
+export async function addRetailProduct(input: { name: string; price: number; sku?: string | null }): Promise<void> {
+  if (!input.name.trim()) throw new Error('Enter a product name');
+  if (!(input.price >= 0)) throw new Error('Enter a valid price');
+
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) throw new Error('No organization found for this account');
+
+  const { error } = await supabase.from('retail_products').insert({
+    organization_id: organizationId,
+    name: input.name.trim(),
+    price: input.price,
+    sku: input.sku?.trim() || null,
+  });
+
+  if (error) {
+    if (isMissingSchemaError(error)) throw new Error(CHECKOUT_SETUP_MESSAGE);
+    throw error;
+  }
+}
+
+export async function setRetailProductActive(productId: string, isActive: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('retail_products')
+    .update({ is_active: isActive })
+    .eq('id', productId);
+
+  if (error) throw error;
+}
+
+// ============= CHECKOUT =============
+
+/**
+ * What the client has already paid online for a booking (deposit or full
+ * prepayment, less refunds). complete_checkout() works this out again itself.
+ */
+export async function getBookingPrepaidAmount(bookingId: number | string): Promise<number> {
+  const { data, error } = await supabase.rpc('get_booking_prepaid_amount', { p_booking_id: bookingId });
+
+  if (error) {
+    if (isMissingSchemaError(error)) throw new Error(CHECKOUT_SETUP_MESSAGE);
+    throw error;
+  }
+  return Number(data ?? 0);
+}
+
+export interface CheckoutContext {
+  service: { id: string; name: string; price: number } | null;
+  coveredByPackage: boolean; // The visit draws a use from a prepaid package
+  prepaid: number;
+  bookingDiscount: { amount: number; reason: string } | null; // Promo code or points used when booking
+  services: { id: string; name: string; price: number }[]; // Offered as add-ons
+  products: RetailProduct[];
+}
+
+/**
+ * Everything the checkout screen needs for a booking, loaded fresh so prices
+ * don't depend on how the appointment list was built.
+ */
+export async function getCheckoutContext(bookingId: number): Promise<CheckoutContext> {
+  // `*` so the promo and points columns are optional until their setup scripts are run
+  const { data: booking, error } = await supabase
+    .from('bookings')
+    .select('*')
+    .eq('id', bookingId)
+    .single();
+
+  if (error) throw error;
+
+  let servicesQuery = supabase
+    .from('services')
+    .select('id, name, price')
+    .eq('is_active', true)
+    .order('name', { ascending: true });
+  if (booking.shop_id) {
+    servicesQuery = servicesQuery.eq('shop_id', booking.shop_id);
+  }
+
+  const [bookedServiceResult, servicesResult, products, prepaid, promotionResult] = await Promise.all([
+    supabase.from('services').select('id, name, price').eq('id', booking.service_id).maybeSingle(),
+    servicesQuery,
+    getRetailProducts(),
+    getBookingPrepaidAmount(bookingId),
+    booking.promotion_id
+      ? supabase.from('promotions').select('code').eq('id', booking.promotion_id).maybeSingle()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  if (servicesResult.error) console.error('Error fetching services:', servicesResult.error);
+
+  const toService = (row: { id: string; name: string; price: number }) => ({ ...row, price: Number(row.price) });
+
+  return {
+    service: bookedServiceResult.data ? toService(bookedServiceResult.data) : null,
+    coveredByPackage: !!booking.client_package_id,
+    prepaid,
+    bookingDiscount: Number(booking.discount_amount) > 0
+      ? {
+          amount: Number(booking.discount_amount),
+          reason: [
+            booking.promotion_id ? `Promo ${promotionResult.data?.code ?? ''}`.trim() : null,
+            Number(booking.loyalty_points_redeemed) > 0 ? `${booking.loyalty_points_redeemed} loyalty points` : null,
+          ].filter(Boolean).join(' + ') || 'Booking discount',
+        }
+      : null,
+    services: (servicesResult.data || []).map(toService),
+    products,
+  };
+}
+
+export async function getCheckout(checkoutId: string): Promise<Checkout> {
+  const { data, error } = await supabase
+    .from('checkouts')
+    .select(CHECKOUT_SELECT)
+    .eq('id', checkoutId)
+    .single();
+
+  if (error) throw error;
+  return mapCheckout(data as unknown as Checkout);
+}
+
+export async function getBookingCheckout(bookingId: number | string): Promise<Checkout | null> {
+  const { data, error } = await supabase
+    .from('checkouts')
+    .select(CHECKOUT_SELECT)
+    .eq('booking_id', bookingId)
+    .maybeSingle();
+
+  if (error) {
+    if (isMissingSchemaError(error)) return null;
+    throw error;
+  }
+  return data ? mapCheckout(data as unknown as Checkout) : null;
+}
+
+/**
+ * Ring up a booking and mark it completed. The database prices catalogue
+ * services and products itself, recalculates every amount and rejects the
+ * checkout if the tenders don't cover what's due.
+ */
+export async function completeCheckout(params: {
+  bookingId: number;
+  items: CheckoutItemInput[];
+  tenders: CheckoutTenderInput[];
+  discount: number;
+  discountReason?: string;
+  tip: number;
+  prepaid: number;
+}): Promise<Checkout> {
+  if (params.items.length === 0) throw new Error('Add at least one item');
+
+  const totals = calculateCheckoutTotals(params);
+  const tenderError = validateTenders(params.tenders, totals.amountDue);
+  if (tenderError) throw new Error(tenderError);
+
+  const { data, error } = await supabase.rpc('complete_checkout', {
+    p_booking_id: params.bookingId,
+    p_items: params.items,
+    p_tenders: params.tenders,
+    p_discount: totals.discount,
+    p_discount_reason: params.discountReason || null,
+    p_tip: totals.tip,
+  });
+
+  if (error) {
+    if (isMissingSchemaError(error)) throw new Error(CHECKOUT_SETUP_MESSAGE);
+    if (error.message?.includes('CHECKOUT_INVALID')) {
+      throw new Error(error.message.replace('CHECKOUT_INVALID: ', ''));
+    }
+    if (error.message?.includes('GIFT_CARD_INVALID')) {
+      throw new Error(error.message.replace('GIFT_CARD_INVALID: ', ''));
+    }
+    throw error;
+  }
+
+  return getCheckout(data as string);
+}
+
+/**
+ * Email a receipt. Defaults to the client's address on file; staff can send
+ * it elsewhere, e.g. for a walk-in.
+ */
+export async function emailReceipt(checkoutId: string, email?: string): Promise<void> {
+  const { data, error } = await supabase.functions.invoke('send-receipt-email', {
+    body: { checkoutId, email: email?.trim() || undefined },
+  });
+
+  if (error) {
+    console.error('Error sending receipt email:', error);
+    throw new Error('Failed to send the receipt email');
+  }
+  if (data?.error) throw new Error(data.error);
+}
+
+/**
+ * Revenue from the current organization's checkouts for each range (either
+ * end may be left open), summed by the database. Tips belong to staff, so
+ * they aren't counted as revenue.
+ */
+export async function getCheckoutRevenue(ranges: { from?: Date; to?: Date }[]): Promise<number[]> {
+  const organizationId = await getCurrentOrganizationId();
+
+  const results = await Promise.all(ranges.map(range => supabase.rpc('sum_checkout_revenue', {
+    p_organization_id: organizationId,
+    p_from: range.from?.toISOString() ?? null,
+    p_to: range.to?.toISOString() ?? null,
+  })));
+
+  const failed = results.find(result => result.error);
+  if (failed?.error) {
+    if (isMissingSchemaError(failed.error)) {
+      console.warn(CHECKOUT_SETUP_MESSAGE);
+      return ranges.map(() => 0);
+    }
+    throw failed.error;
+  }
+
+  return results.map(result => Number(result.data ?? 0));
+}
+
+/**
+ * Sales per checkout for the current organization since a given time, for
+ * revenue charts. Tips belong to staff, so they aren't counted as revenue.
+ */
+export async function getCheckoutSales(since: Date): Promise<{ created_at: string; revenue: number }[]> {
+  const organizationId = await getCurrentOrganizationId();
+
+  let query = supabase
+    .from('checkouts')
+    .select('created_at, total, tip_amount')
+    .gte('created_at', since.toISOString());
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    if (isMissingSchemaError(error)) {
+      console.warn(CHECKOUT_SETUP_MESSAGE);
+      return [];
+    }
+    throw error;
+  }
+
+  return (data || []).map(row => ({
+    created_at: row.created_at,
+    revenue: Number(row.total) - Number(row.tip_amount),
+  }));
+}
@@ -56,6 +56,7 @@ export async function createBookingForClient(booking: {
   service_id: string;
   shop_id: string;
   start_at: string;
+  end_at?: string;
   notes?: string;
 }): Promise<AppointmentWithDetails> {
   try {
@@ -66,6 +67,7 @@ export async function createBookingForClient(booking: {
         service_id: booking.service_id,
         shop_id: booking.shop_id,
         start_at: booking.start_at,
+        end_at: booking.end_at ?? null,
         status: 'pending',
         notes: booking.notes || 'Walk-in booking',
       }])
@@ -0,0 +1,120 @@
+import { supabase } from '../lib/supabase';
+import { isMissingSchemaError } from '../lib/supabaseErrors';
+import { getCurrentOrganizationId } from './multiTenancy';
+import { calculateCommission, getCheckoutServiceRevenue, validateCommissionRule } from '../utils/commission';
+import type { Checkout, CommissionTier, PayrollLine, StaffCommissionRule } from '../types/multiTenancy';
+
+export const COMMISSION_SETUP_MESSAGE = 'Commission is not set up yet. Please run supabase-commission-setup.sql.';
+
+function mapRule(row: StaffCommissionRule): StaffCommissionRule {
+  return {
+    ...row,
+    flat_fee: Number(row.flat_fee),
+    tiers: (row.tiers || []).map(tier => ({ from: Number(tier.from), rate: Number(tier.rate) })),
+  };
+}
+
+export async function getCommissionRules(): Promise<StaffCommissionRule[]> {
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) return [];
+
+  const { data, error } = await supabase
+    .from('staff_commission_rules')
+    .select('*')
+    .eq('organization_id', organizationId);
+
+  if (error) {
+    if (isMissingSchemaError(error)) return [];
+    throw error;
+  }
+  return ((data || []) as StaffCommissionRule[]).map(mapRule);
+}
+
+export async function saveStaffCommissionRule(
+  staffId: string,
+  rule: { commission_type: StaffCommissionRule['commission_type']; tiers: CommissionTier[]; flat_fee: number }
+): Promise<void> {
+  const validationError = validateCommissionRule(rule);
+  if (validationError) throw new Error(validationError);
+
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) throw new Error('No organization found for this account');
+
+  const { error } = await supabase.from('staff_commission_rules').upsert({
+    staff_id: staffId,
+    organization_id: organizationId,
+    commission_type: rule.commission_type,
+    // Only keep the settings for the chosen type
+    tiers: rule.commission_type === 'percentage' ? [...rule.tiers].sort((a, b) => a.from - b.from) : [],
+    flat_fee: rule.commission_type === 'flat' ? rule.flat_fee : 0,
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    if (isMissingSchemaError(error)) throw new Error(COMMISSION_SETUP_MESSAGE);
+    throw error;
+  }
+}
+
+/**
+ * Commission and tips per staff member for checkouts in [start, end).
+ * Tiered rates apply to each person's total for the period, not per visit.
+ */
+export async function getPayrollReport(start: Date, end: Date): Promise<PayrollLine[]> {
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) return [];
+
+  const [checkoutsResult, rules] = await Promise.all([
+    supabase
+      .from('checkouts')
+      .select('staff_id, subtotal, discount_amount, tip_amount, items:checkout_items(kind, quantity, line_total)')
+      .eq('organization_id', organizationId)
+      .gte('created_at', start.toISOString())
+      .lt('created_at', end.toISOString()),
+    getCommissionRules(),
+  ]);
+
+  if (checkoutsResult.error) {
+    if (isMissingSchemaError(checkoutsResult.error)) return [];
+    throw checkoutsResult.error;
+  }
+
+  const totals = new Map<string | null, { revenue: number; count: number; tips: number }>();
+  for (const row of checkoutsResult.data || []) {
+    const checkout = {
+      subtotal: Number(row.subtotal),
+      discount_amount: Number(row.discount_amount),
+      items: (row.items || []).map(item => ({ ...item, line_total: Number(item.line_total) })),
+    } as Pick<Checkout, 'items' | 'subtotal' | 'discount_amount'>;
+    const { revenue, count } = getCheckoutServiceRevenue(checkout);
+
+    const current = totals.get(row.staff_id) ?? { revenue: 0, count: 0, tips: 0 };
+    totals.set(row.staff_id, {
+      revenue: current.revenue + revenue,
+      count: current.count + count,
+      tips: current.tips + Number(row.tip_amount),
+    });
+  }
+
+  const staffIds = [...totals.keys()].filter((id): id is string => !!id);
+  const { data: profiles, error: profilesError } = staffIds.length > 0
+    ? await supabase.from('profiles').select('id, email, full_name').in('id', staffIds)
+    : { data: [], error: null };
+  if (profilesError) console.error('Error fetching staff profiles:', profilesError);
+
+  const nameMap = new Map((profiles || []).map(p => [p.id, p.full_name || p.email?.split('@')[0] || 'Staff Member']));
+  const ruleMap = new Map(rules.map(rule => [rule.staff_id, rule]));
+
+  return [...totals.entries()]
+    .map(([staffId, total]) => ({
+      staff_id: staffId,
+      staff_name: staffId ? nameMap.get(staffId) ?? 'Staff Member' : 'Unassigned',
+      services_count: total.count,
+      service_revenue: Math.round(total.revenue * 100) / 100,
+      commission: staffId
+        ? calculateCommission(ruleMap.get(staffId), { serviceRevenue: total.revenue, servicesCount: total.count })
+        : 0,
+      tips: Math.round(total.tips * 100) / 100,
+    }))
+    .sort((a, b) => a.staff_name.localeCompare(b.staff_name));
+}
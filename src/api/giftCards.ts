@@ -0,0 +1,117 @@
+import { supabase } from '../lib/supabase';
+import { isMissingSchemaError } from '../lib/supabaseErrors';
+import { getCurrentOrganizationId } from './multiTenancy';
+import type { GiftCard, GiftCardBalance, GiftCardTransaction, TenderMethod } from '../types/multiTenancy';
+
+export const GIFT_CARDS_SETUP_MESSAGE = 'Gift cards are not set up yet. Please run supabase-gift-cards-setup.sql.';
+
+// Supabase returns NUMERIC columns as strings
+export function mapGiftCard(row: GiftCard): GiftCard {
+  return {
+    ...row,
+    initial_balance: Number(row.initial_balance),
+    balance: Number(row.balance),
+  };
+}
+
+// Turn a database error from the gift card functions into a readable one
+export function toGiftCardError(error: { message?: string }): Error {
+  if (isMissingSchemaError(error)) return new Error(GIFT_CARDS_SETUP_MESSAGE);
+  if (error.message?.includes('GIFT_CARD_INVALID')) {
+    return new Error(error.message.replace('GIFT_CARD_INVALID: ', ''));
+  }
+  return error instanceof Error ? error : new Error(error.message || 'Gift card request failed');
+}
+
+/**
+ * Every gift card sold by the current organization, newest first
+ */
+export async function getGiftCards(): Promise<GiftCard[]> {
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) return [];
+
+  const { data, error } = await supabase
+    .from('gift_cards')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .neq('status', 'pending')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    if (isMissingSchemaError(error)) return [];
+    throw error;
+  }
+  return ((data || []) as GiftCard[]).map(mapGiftCard);
+}
+
+export async function getGiftCardTransactions(giftCardId: string): Promise<GiftCardTransaction[]> {
+  const { data, error } = await supabase
+    .from('gift_card_transactions')
+    .select('*')
+    .eq('gift_card_id', giftCardId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    if (isMissingSchemaError(error)) return [];
+    throw error;
+  }
+  return ((data || []) as GiftCardTransaction[]).map(row => ({
+    ...row,
+    amount: Number(row.amount),
+    balance_after: Number(row.balance_after),
+  }));
+}
+
+/**
+ * Look up a card's balance by its code. Returns null when no card matches.
+ */
+export async function getGiftCardBalance(code: string): Promise<GiftCardBalance | null> {
+  const { data, error } = await supabase.rpc('get_gift_card_balance', { p_code: code.trim() });
+
+  if (error) throw toGiftCardError(error);
+  if (!data) return null;
+
+  const balance = data as GiftCardBalance;
+  return { ...balance, balance: Number(balance.balance) };
+}
+
+export interface IssueGiftCardParams {
+  amount: number;
+  saleMethod: Exclude<TenderMethod, 'gift_card'>;
+  expiresAt?: string | null;
+  recipientName?: string;
+  recipientEmail?: string;
+  message?: string;
+}
+
+/**
+ * Sell a gift card at the front desk. It is paid for at the counter, so the
+ * card is active straight away.
+ */
+export async function issueGiftCard(params: IssueGiftCardParams): Promise<GiftCard> {
+  if (!(params.amount > 0)) throw new Error('Enter an amount greater than zero');
+
+  const { data, error } = await supabase.rpc('issue_gift_card', {
+    p_amount: params.amount,
+    p_sale_method: params.saleMethod,
+    p_expires_at: params.expiresAt || null,
+    p_recipient_name: params.recipientName || null,
+    p_recipient_email: params.recipientEmail || null,
+    p_message: params.message || null,
+  });
+
+  if (error) throw toGiftCardError(error);
+  return mapGiftCard(data as GiftCard);
+}
+
+/**
+ * Refund a payment that was made with a gift card by crediting the card
+ */
+export async function refundGiftCardPayment(paymentId: string, amount: number): Promise<void> {
+  const { error } = await supabase.rpc('refund_gift_card_payment', {
+    p_payment_id: paymentId,
+    p_amount: amount,
+  });
+
+  if (error) throw toGiftCardError(error);
+}
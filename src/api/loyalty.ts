@@ -0,0 +1,168 @@
+import { supabase } from '../lib/supabase';
+import { isMissingSchemaError } from '../lib/supabaseErrors';
+import { getCurrentOrganizationId } from './multiTenancy';
+import {
+  DEFAULT_LOYALTY_PROGRAM,
+  LOYALTY_TIER_NAMES,
+  getLoyaltyTier,
+  summarizeLoyaltyTransactions,
+  validateLoyaltyProgram,
+} from '../utils/loyalty';
+import type { LoyaltyProgram, LoyaltyTier, LoyaltyTierName, LoyaltyTransaction } from '../types/multiTenancy';
+
+export const LOYALTY_SETUP_MESSAGE = 'Loyalty points are not set up yet. Please run supabase-loyalty-setup.sql.';
+
+// Supabase returns NUMERIC columns as strings
+export function mapLoyaltyProgram(row: LoyaltyProgram): LoyaltyProgram {
+  return {
+    ...row,
+    points_per_peso: Number(row.points_per_peso),
+    peso_per_point: Number(row.peso_per_point),
+    tiers: (row.tiers || []).map(tier => ({ ...tier, min_points: Number(tier.min_points), perks: tier.perks || [] })),
+  };
+}
+
+// Turn a database error from the loyalty functions into a readable one
+export function toLoyaltyError(error: { message?: string }): Error {
+  if (isMissingSchemaError(error)) return new Error(LOYALTY_SETUP_MESSAGE);
+  if (error.message?.includes('LOYALTY_INVALID')) {
+    return new Error(error.message.replace('LOYALTY_INVALID: ', ''));
+  }
+  return error instanceof Error ? error : new Error(error.message || 'Loyalty request failed');
+}
+
+/**
+ * An organization's loyalty program, or the defaults if it hasn't saved one
+ */
+export async function getLoyaltyProgram(organizationId?: string | null): Promise<LoyaltyProgram> {
+  const orgId = organizationId ?? await getCurrentOrganizationId();
+  const fallback = { ...DEFAULT_LOYALTY_PROGRAM, organization_id: orgId ?? '' };
+  if (!orgId) return fallback;
+
+  const { data, error } = await supabase
+    .from('loyalty_programs')
+    .select('*')
+    .eq('organization_id', orgId)
+    .maybeSingle();
+
+  if (error) {
+    if (isMissingSchemaError(error)) return fallback;
+    throw error;
+  }
+  return data ? mapLoyaltyProgram(data as LoyaltyProgram) : fallback;
+}
+
+export async function saveLoyaltyProgram(program: Omit<LoyaltyProgram, 'organization_id' | 'updated_at'>): Promise<void> {
+  const validationError = validateLoyaltyProgram(program);
+  if (validationError) throw new Error(validationError);
+
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) throw new Error('No organization found for this account');
+
+  const { error } = await supabase.from('loyalty_programs').upsert({
+    ...program,
+    organization_id: organizationId,
+    tiers: LOYALTY_TIER_NAMES.map(name => {
+      const tier = program.tiers.find(t => t.tier === name);
+      return { tier: name, min_points: tier?.min_points ?? 0, perks: (tier?.perks ?? []).map(p => p.trim()).filter(Boolean) };
+    }),
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    if (isMissingSchemaError(error)) throw new Error(LOYALTY_SETUP_MESSAGE);
+    throw error;
+  }
+}
+
+export interface LoyaltyBalance {
+  balance: number;
+  lifetimePoints: number;
+}
+
+/**
+ * Every client's points with an organization, keyed by client id. Overdue
+ * points are expired first so balances are current.
+ */
+export async function getLoyaltyBalances(organizationId: string): Promise<Map<string, LoyaltyBalance>> {
+  const { error: expireError } = await supabase.rpc('expire_loyalty_points', { p_organization_id: organizationId });
+  if (expireError && !isMissingSchemaError(expireError)) {
+    console.error('Error expiring loyalty points:', expireError);
+  }
+
+  const { data, error } = await supabase
+    .from('loyalty_transactions')
+    .select('client_id, kind, points')
+    .eq('organization_id', organizationId);
+
+  if (error) {
+    if (isMissingSchemaError(error)) return new Map();
+    throw error;
+  }
+
+  const byClient = new Map<string, Pick<LoyaltyTransaction, 'kind' | 'points'>[]>();
+  ((data || []) as Pick<LoyaltyTransaction, 'client_id' | 'kind' | 'points'>[]).forEach(row => {
+    byClient.set(row.client_id, [...(byClient.get(row.client_id) || []), row]);
+  });
+  return new Map(Array.from(byClient, ([clientId, rows]) => [clientId, summarizeLoyaltyTransactions(rows)]));
+}
+
+export interface LoyaltyOverview {
+  program: LoyaltyProgram;
+  members: Record<LoyaltyTierName, number>;
+  pointsOutstanding: number;
+  pointsRedeemed: number;
+}
+
+// Members per tier and how many points are out there, for the marketing screen
+export async function getLoyaltyOverview(): Promise<LoyaltyOverview> {
+  const organizationId = await getCurrentOrganizationId();
+  const program = await getLoyaltyProgram(organizationId);
+  const members: Record<LoyaltyTierName, number> = { Bronze: 0, Silver: 0, Gold: 0, Platinum: 0 };
+  if (!organizationId) return { program, members, pointsOutstanding: 0, pointsRedeemed: 0 };
+
+  const [balances, redeemedResult] = await Promise.all([
+    getLoyaltyBalances(organizationId),
+    supabase
+      .from('loyalty_transactions')
+      .select('kind, points')
+      .eq('organization_id', organizationId)
+      .in('kind', ['redeem', 'refund']),
+  ]);
+
+  if (redeemedResult.error && !isMissingSchemaError(redeemedResult.error)) throw redeemedResult.error;
+
+  let pointsOutstanding = 0;
+  balances.forEach(({ balance, lifetimePoints }) => {
+    members[getLoyaltyTier(lifetimePoints, program.tiers)] += 1;
+    pointsOutstanding += balance;
+  });
+
+  return {
+    program,
+    members,
+    pointsOutstanding,
+    pointsRedeemed: -(redeemedResult.data || []).reduce((sum, row) => sum + row.points, 0),
+  };
+}
+
+/**
+ * The organization's tiers and every client's points, for labelling client
+ * lists. Falls back to the default tiers and no points when loyalty isn't
+ * available.
+ */
+export async function getClientLoyaltyStandings(
+  organizationId: string | null
+): Promise<{ tiers: LoyaltyTier[]; balances: Map<string, LoyaltyBalance> }> {
+  if (!organizationId) return { tiers: DEFAULT_LOYALTY_PROGRAM.tiers, balances: new Map() };
+  try {
+    const [program, balances] = await Promise.all([
+      getLoyaltyProgram(organizationId),
+      getLoyaltyBalances(organizationId),
+    ]);
+    return { tiers: program.tiers, balances };
+  } catch (error) {
+    console.error('Error fetching loyalty balances:', error);
+    return { tiers: DEFAULT_LOYALTY_PROGRAM.tiers, balances: new Map() };
+  }
+}
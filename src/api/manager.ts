@@ -1,5 +1,10 @@
 import { supabase } from '../lib/supabase';
 import type { AppointmentWithDetails, StaffMember, Client, DashboardStats } from './admin';
+import { getRosterSnapshot } from './roster';
+import { getCurrentOrganizationId } from './multiTenancy';
+import { getClientLoyaltyStandings } from './loyalty';
+import { getRosterStatus } from '../utils/roster';
+import { getLoyaltyTier } from '../utils/loyalty';
 
 // Get manager's shop_id from shops table (manager is the owner)
 async function getManagerShopId(): Promise<string | null> {
@@ -22,6 +27,25 @@ async function getManagerShopId(): Promise<string | null> {
   return data?.id || null;
 }
 
+// Manager's branch id and name, for screens that act on the branch directly
+export async function getManagerShop(): Promise<{ id: string; name: string } | null> {
+  const shopId = await getManagerShopId();
+  if (!shopId) return null;
+
+  const { data, error } = await supabase
+    .from('shops')
+    .select('id, name')
+    .eq('id', shopId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error getting manager shop:', error);
+    return null;
+  }
+
+  return data;
+}
+
 // ============= DASHBOARD STATS (Shop-specific) =============
 
 export async function getManagerDashboardStats(): Promise<DashboardStats> {
@@ -303,12 +327,12 @@ export async function getManagerStaff(): Promise<StaffMember[]> {
       }
     });
 
+    // Status comes from today's shifts, approved time off and assignments
+    const roster = await getRosterSnapshot(allStaff.map(s => s.id));
+
     // Map profiles to StaffMember format
-    return allStaff.map((profile, index) => {
-      const hasUpcomingAppointment = staffNextAppointment.has(profile.id);
-      const statuses: ('available' | 'busy' | 'break')[] = 
-        hasUpcomingAppointment ? ['busy', 'available'] : ['available', 'break'];
-      
+    return allStaff.map((profile) => {
+
       // Extract a nicer name from email (e.g., "staff1.glamstudio" -> "Staff 1")
       const emailPrefix = profile.email?.split('@')[0] || '';
       const staffNumber = emailPrefix.match(/staff(\d+)/)?.[1] || '';
@@ -319,7 +343,7 @@ export async function getManagerStaff(): Promise<StaffMember[]> {
         name: displayName,
         email: profile.email || '',
         role: 'Specialist',
-        status: statuses[index % statuses.length],
+        status: getRosterStatus({ staffId: profile.id, ...roster }),
         rating: 4.5 + Math.random() * 0.5,
         next_appointment: staffNextAppointment.get(profile.id),
       };
@@ -351,7 +375,7 @@ export async function getManagerClients(): Promise<Client[]> {
     const clientIds = [...new Set(bookings.map(b => b.client_id))];
     const serviceIds = [...new Set(bookings.map(b => b.service_id))];
     
-    const [profilesResult, servicesResult] = await Promise.all([
+    const [profilesResult, servicesResult, loyalty] = await Promise.all([
       supabase
         .from('profiles')
         .select('id, email, created_at')
@@ -359,7 +383,8 @@ export async function getManagerClients(): Promise<Client[]> {
       supabase
         .from('services')
         .select('id, price')
-        .in('id', serviceIds)
+        .in('id', serviceIds),
+      getCurrentOrganizationId().then(getClientLoyaltyStandings),
     ]);
 
     if (profilesResult.error) throw profilesResult.error;
@@ -410,11 +435,8 @@ export async function getManagerClients(): Promise<Client[]> {
         total_visits: data.visits,
         total_spent: totalSpent,
         last_visit: data.lastVisit,
-        tier: (
-          totalSpent >= 2000 ? 'Platinum' :
-          totalSpent >= 1000 ? 'Gold' :
-          totalSpent >= 500 ? 'Silver' : 'Bronze'
-        ) as Client['tier'],
+        tier: getLoyaltyTier(loyalty.balances.get(id)?.lifetimePoints ?? 0, loyalty.tiers),
+        loyalty_points: loyalty.balances.get(id)?.balance ?? 0,
         created_at: data.created_at,
       };
     });
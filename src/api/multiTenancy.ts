@@ -11,6 +11,7 @@ import type {
   OrganizationMember,
   OrganizationMemberWithProfile,
   OrganizationRole,
+  OrganizationWithMembership,
   CreateTenantResponse,
   AddMemberResponse,
   GetOrganizationResponse,
@@ -284,10 +285,7 @@ export async function removeOrganizationMember(memberId: string): Promise<boolea
 /**
  * Get all organizations the current user is a member of
  */
-export async function getMyOrganizations(): Promise<{
-  organization: Organization;
-  membership: OrganizationMember;
-}[]> {
+export async function getMyOrganizations(): Promise<OrganizationWithMembership[]> {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) return [];
 
@@ -0,0 +1,36 @@
+import { supabase } from '../lib/supabase';
+import { isMissingSchemaError } from '../lib/supabaseErrors';
+import type { UserNotification } from '../types/multiTenancy';
+
+export async function getMyNotifications(limit = 20): Promise<UserNotification[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    if (!isMissingSchemaError(error)) {
+      console.error('Error fetching notifications:', error);
+    }
+    return [];
+  }
+
+  return (data || []) as UserNotification[];
+}
+
+export async function markNotificationsRead(notificationIds: string[]): Promise<void> {
+  if (notificationIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', notificationIds)
+    .is('read_at', null);
+
+  if (error && !isMissingSchemaError(error)) throw error;
+}
@@ -0,0 +1,134 @@
+import { supabase } from '../lib/supabase';
+import { isMissingSchemaError } from '../lib/supabaseErrors';
+import { getCurrentOrganizationId } from './multiTenancy';
+import { validatePackageInput } from '../utils/packages';
+import type { ClientPackage, ServicePackage, ServicePackageInput } from '../types/multiTenancy';
+
+export const PACKAGES_SETUP_MESSAGE = 'Service packages are not set up yet. Please run supabase-packages-setup.sql.';
+
+export const PACKAGE_SELECT = `
+  *,
+  items:service_package_items(service_id, quantity, service:services(id, name, price, duration)),
+  shop:shops(id, name)
+`;
+
+// Supabase returns NUMERIC columns as strings
+export function mapServicePackage(row: ServicePackage): ServicePackage {
+  return {
+    ...row,
+    price: Number(row.price),
+    items: (row.items || []).map(item => ({
+      ...item,
+      service: item.service ? { ...item.service, price: Number(item.service.price) } : null,
+    })),
+  };
+}
+
+/**
+ * Packages defined by the current admin's organization, newest first
+ */
+export async function getOrganizationPackages(): Promise<ServicePackage[]> {
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) return [];
+
+  const { data, error } = await supabase
+    .from('service_packages')
+    .select(PACKAGE_SELECT)
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    if (isMissingSchemaError(error)) return [];
+    throw error;
+  }
+
+  return ((data || []) as unknown as ServicePackage[]).map(mapServicePackage);
+}
+
+/**
+ * Create a package, or update one when `packageId` is given. Items are
+ * replaced wholesale.
+ */
+export async function saveServicePackage(input: ServicePackageInput, packageId?: string): Promise<void> {
+  const validationError = validatePackageInput(input);
+  if (validationError) throw new Error(validationError);
+
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) throw new Error('No organization found for this account');
+
+  const row = {
+    organization_id: organizationId,
+    shop_id: input.shop_id,
+    name: input.name.trim(),
+    description: input.description?.trim() || null,
+    kind: input.kind,
+    price: input.price,
+    validity_days: input.validity_days,
+    is_active: true,
+    updated_at: new Date().toISOString(),
+  };
+
+  let id = packageId;
+  if (id) {
+    const { error } = await supabase.from('service_packages').update(row).eq('id', id);
+    if (error) {
+      if (isMissingSchemaError(error)) throw new Error(PACKAGES_SETUP_MESSAGE);
+      throw error;
+    }
+
+    const { error: deleteError } = await supabase.from('service_package_items').delete().eq('package_id', id);
+    if (deleteError) throw deleteError;
+  } else {
+    const { data, error } = await supabase.from('service_packages').insert(row).select('id').single();
+    if (error) {
+      if (isMissingSchemaError(error)) throw new Error(PACKAGES_SETUP_MESSAGE);
+      throw error;
+    }
+    id = data.id as string;
+  }
+
+  const { error: itemsError } = await supabase
+    .from('service_package_items')
+    .insert(input.items.map(item => ({ package_id: id, service_id: item.service_id, quantity: item.quantity })));
+
+  if (itemsError) throw itemsError;
+}
+
+// Take a package off sale. Clients who already bought it keep their uses.
+export async function setServicePackageActive(packageId: string, isActive: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('service_packages')
+    .update({ is_active: isActive, updated_at: new Date().toISOString() })
+    .eq('id', packageId);
+
+  if (error) {
+    if (isMissingSchemaError(error)) throw new Error(PACKAGES_SETUP_MESSAGE);
+    throw error;
+  }
+}
+
+/**
+ * Purchases of the organization's packages with their redemptions, for
+ * tracking sales and usage
+ */
+export async function getOrganizationClientPackages(): Promise<ClientPackage[]> {
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) return [];
+
+  const { data, error } = await supabase
+    .from('client_packages')
+    .select(`
+      *,
+      redemptions:package_redemptions(*),
+      bookings:bookings!bookings_client_package_id_fkey(id, service_id, status)
+    `)
+    .eq('organization_id', organizationId)
+    .order('purchased_at', { ascending: false });
+
+  if (error) {
+    if (isMissingSchemaError(error)) return [];
+    throw error;
+  }
+
+  return ((data || []) as unknown as ClientPackage[]).map(row => ({ ...row, price_paid: Number(row.price_paid) }));
+}
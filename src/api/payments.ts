@@ -0,0 +1,297 @@
+import { supabase } from '../lib/supabase';
+import { isMissingSchemaError } from '../lib/supabaseErrors';
+import { getPaymentProvider, type CardDetails, type PaymentMethodType, type PaymentProvider, type WalletDetails } from '../services/payments';
+import { getRefundableAmount, isPaymentSettled } from '../utils/payments';
+import { refundGiftCardPayment } from './giftCards';
+import type { Payment, PaymentPurpose } from '../types/multiTenancy';
+
+const SETUP_MESSAGE = 'Online payments are not set up yet. Please run supabase-payments-setup.sql.';
+const MOCK_DISABLED_MESSAGE =
+  'Mock payments are turned off. Enable app.mock_payments in the database (development only) or configure a payment provider.';
+const POLL_INTERVAL_MS = 500;
+
+// Supabase returns NUMERIC columns as strings
+function mapPayment(row: Payment): Payment {
+  return {
+    ...row,
+    amount: Number(row.amount),
+    refunded_amount: Number(row.refunded_amount ?? 0),
+    purpose: row.purpose ?? 'payment',
+  };
+}
+
+async function getPayment(paymentId: string): Promise<Payment> {
+  const { data, error } = await supabase.from('payments').select('*').eq('id', paymentId).single();
+  if (error) throw error;
+  return mapPayment(data as Payment);
+}
+
+/**
+ * Verify a provider webhook and apply it to the matching payment. Hosted
+ * gateways reach this through the payment-webhook edge function; local
+ * providers deliver here directly.
+ */
+export async function handlePaymentWebhook(providerName: string, rawBody: string, signature: string): Promise<Payment> {
+  const provider = getPaymentProvider(providerName);
+  const event = await provider.verifyWebhook(rawBody, signature);
+
+  const { data, error } = await supabase.rpc('apply_payment_event', {
+    p_provider: provider.name,
+    p_event_id: event.id,
+    p_type: event.type,
+    p_intent_id: event.intent_id,
+    p_amount: event.amount,
+    p_failure_reason: event.failure_reason,
+    p_payload: event,
+  });
+
+  if (error) {
+    if (isMissingSchemaError(error)) throw new Error(SETUP_MESSAGE);
+    throw error;
+  }
+  return mapPayment(data as Payment);
+}
+
+const listening = new Set<string>();
+
+function listenForWebhooks(provider: PaymentProvider): void {
+  if (!provider.onWebhook || listening.has(provider.name)) return;
+  listening.add(provider.name);
+  provider.onWebhook((rawBody, signature) => handlePaymentWebhook(provider.name, rawBody, signature).then(() => undefined));
+}
+
+/**
+ * Poll a payment until the provider settles it (or the timeout passes) and
+ * return its latest state
+ */
+export async function waitForPaymentSettled(paymentId: string, timeoutMs = 15000): Promise<Payment> {
+  const deadline = Date.now() + timeoutMs;
+  let payment = await getPayment(paymentId);
+  while (!isPaymentSettled(payment.status) && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    payment = await getPayment(paymentId);
+  }
+  return payment;
+}
+
+export interface SubmitPaymentParams {
+  amount: number;
+  method: PaymentMethodType;
+  purpose?: PaymentPurpose;
+  bookingId?: number | string | null;
+  subscriptionId?: string | null;
+  organizationId?: string | null;
+  card?: CardDetails;
+  wallet?: WalletDetails;
+  billing?: { address?: string | null; city?: string | null; zipCode?: string | null };
+  description?: string;
+  giftCardId?: string | null; // Set when the payment buys a gift card
+}
+
+/**
+ * Open a payment with the configured provider and confirm it. The returned
+ * row is usually still pending; the provider's webhooks move it on, so use
+ * waitForPaymentSettled() to get the outcome.
+ */
+export async function submitPayment(params: SubmitPaymentParams): Promise<Payment> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  if (!(params.amount > 0)) throw new Error('Payment amount must be greater than zero');
+  if (params.method === 'card' && !/^\d{4}$/.test(params.card?.last4 ?? '')) {
+    throw new Error('Enter the last 4 digits of the card');
+  }
+  if (params.method !== 'card' && !params.wallet?.accountIdentifier?.trim()) {
+    throw new Error('Enter the account on the wallet');
+  }
+
+  const provider = getPaymentProvider();
+  listenForWebhooks(provider);
+
+  const intent = await provider.createIntent({
+    amount: params.amount,
+    currency: 'PHP',
+    method: params.method,
+    idempotencyKey: crypto.randomUUID(),
+    description: params.description,
+  });
+
+  const { data, error } = await supabase
+    .from('payments')
+    .insert({
+      user_id: user.id,
+      booking_id: params.bookingId ?? null,
+      subscription_id: params.subscriptionId ?? null,
+      organization_id: params.organizationId ?? null,
+      amount: intent.amount,
+      currency: intent.currency,
+      status: 'pending',
+      payment_method: params.method,
+      payment_provider: provider.name,
+      provider_intent_id: intent.id,
+      card_last4: params.card?.last4 ?? null,
+      card_brand: params.card?.brand ?? null,
+      card_expiry_month: params.card?.expMonth ?? null,
+      card_expiry_year: params.card?.expYear ?? null,
+      billing_address: params.billing?.address ?? null,
+      billing_city: params.billing?.city ?? null,
+      billing_zip_code: params.billing?.zipCode ?? null,
+      // Only sent for deposits so regular payments work before the deposits setup is run
+      ...(params.purpose === 'deposit' ? { purpose: 'deposit' } : {}),
+      ...(params.giftCardId ? { gift_card_id: params.giftCardId } : {}),
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    await provider.cancelIntent(intent.id).catch(() => undefined);
+    if (isMissingSchemaError(error)) throw new Error(SETUP_MESSAGE);
+    // Row security turns mock payments away unless the database allows them
+    if (error.code === '42501' && provider.name === 'mock') throw new Error(MOCK_DISABLED_MESSAGE);
+    throw error;
+  }
+
+  await provider.confirmIntent({ intentId: intent.id, card: params.card, wallet: params.wallet });
+  return mapPayment(data as Payment);
+}
+
+interface PayForBookingsParams {
+  bookingIds: string[];
+  method: PaymentMethodType;
+  card?: CardDetails;
+  wallet?: WalletDetails;
+}
+
+interface BillableBooking {
+  id: number | string;
+  client_package_id?: string | null;
+  deposit_amount?: number | string;
+  deposit_paid_at?: string | null;
+  discount_amount?: number | string; // Taken off by a promo code
+  service: { name: string; price: number | string } | null;
+  shop: { organization_id: string | null } | null;
+  payments: Pick<Payment, 'amount' | 'refunded_amount' | 'status'>[] | null;
+}
+
+async function getBillableBookings(bookingIds: string[]): Promise<BillableBooking[]> {
+  const { data, error } = await supabase
+    .from('bookings')
+    .select('*, service:services(name, price), shop:shops(organization_id), payments(amount, refunded_amount, status)')
+    .in('id', bookingIds);
+
+  if (error) throw error;
+  return (data || []) as unknown as BillableBooking[];
+}
+
+// What's already been paid on a booking (a deposit, or part of a gift card)
+function getAmountPaid(booking: BillableBooking): number {
+  return (booking.payments || [])
+    .filter(payment => payment.status === 'completed' || payment.status === 'refunded')
+    .reduce((sum, payment) => sum + Number(payment.amount) - Number(payment.refunded_amount ?? 0), 0);
+}
+
+// Charge each booking's amount and wait for every outcome
+async function chargeBookings(
+  params: PayForBookingsParams,
+  charges: { booking: BillableBooking; amount: number; purpose: PaymentPurpose }[]
+): Promise<Payment[]> {
+  const payments = await Promise.all(
+    charges
+      .filter(charge => charge.amount > 0)
+      .map(({ booking, amount, purpose }) => submitPayment({
+        amount,
+        method: params.method,
+        purpose,
+        bookingId: booking.id,
+        organizationId: booking.shop?.organization_id ?? null,
+        card: params.card,
+        wallet: params.wallet,
+        description: purpose === 'deposit' ? `Deposit: ${booking.service?.name}` : booking.service?.name,
+      }))
+  );
+
+  return Promise.all(payments.map(payment => waitForPaymentSettled(payment.id)));
+}
+
+/**
+ * Pay for each booking at its service price, less any promo discount and
+ * anything already paid on it, and wait for the outcomes. Bookings covered by
+ * a package are skipped.
+ */
+export async function payForBookings(params: PayForBookingsParams): Promise<Payment[]> {
+  const bookings = await getBillableBookings(params.bookingIds);
+
+  return chargeBookings(
+    params,
+    bookings
+      .filter(booking => !booking.client_package_id)
+      .map(booking => ({
+        booking,
+        amount: Number(booking.service?.price ?? 0) - Number(booking.discount_amount ?? 0) - getAmountPaid(booking),
+        purpose: 'payment' as const,
+      }))
+  );
+}
+
+/**
+ * Pay the outstanding deposits on the given bookings. Once a deposit payment
+ * completes, the database marks the booking's deposit paid.
+ */
+export async function payBookingDeposits(params: PayForBookingsParams): Promise<Payment[]> {
+  const bookings = await getBillableBookings(params.bookingIds);
+
+  return chargeBookings(
+    params,
+    bookings
+      .filter(booking => !booking.deposit_paid_at)
+      .map(booking => ({ booking, amount: Number(booking.deposit_amount ?? 0), purpose: 'deposit' as const }))
+  );
+}
+
+export async function getBookingPayments(bookingId: number | string): Promise<Payment[]> {
+  const { data, error } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    if (isMissingSchemaError(error)) return [];
+    throw error;
+  }
+
+  return ((data || []) as Payment[]).map(mapPayment);
+}
+
+/**
+ * Refund part or all of a completed payment through its provider. Resolves
+ * once the provider's refund webhook has been applied.
+ */
+export async function refundPayment(payment: Payment, amount = getRefundableAmount(payment)): Promise<Payment> {
+  const refundable = getRefundableAmount(payment);
+  if (!payment.provider_intent_id || refundable <= 0) {
+    throw new Error('This payment has nothing left to refund');
+  }
+  if (!(amount > 0) || amount > refundable) {
+    throw new Error(`Refund must be between ₱0.01 and ₱${refundable.toFixed(2)}`);
+  }
+
+  // Gift card payments never leave the salon, so they go back on the card
+  if (payment.payment_provider === 'gift_card') {
+    await refundGiftCardPayment(payment.id, amount);
+    return getPayment(payment.id);
+  }
+
+  const provider = getPaymentProvider(payment.payment_provider);
+  listenForWebhooks(provider);
+  await provider.refund(payment.provider_intent_id, amount);
+
+  const target = Math.round((payment.refunded_amount + amount) * 100) / 100;
+  const deadline = Date.now() + 15000;
+  let latest = await getPayment(payment.id);
+  while (latest.refunded_amount + 0.001 < target && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    latest = await getPayment(payment.id);
+  }
+  return latest;
+}
@@ -0,0 +1,70 @@
+import { supabase } from '../lib/supabase';
+import { isMissingSchemaError } from '../lib/supabaseErrors';
+import { getCurrentOrganizationId } from './multiTenancy';
+import { ALL_PERMISSIONS, DEFAULT_ROLE_PERMISSIONS, isPermission, resolveRolePermissions } from '../utils/permissions';
+import type { CustomizableRole, OrganizationRole, Permission, RolePermissionMap } from '../types/multiTenancy';
+
+export const PERMISSIONS_SETUP_MESSAGE =
+  'Role permissions are not set up yet. Please run supabase-permissions-setup.sql.';
+
+/**
+ * What managers and staff may do in the current organization, with the
+ * defaults filled in for roles it hasn't customized
+ */
+export async function getRolePermissions(): Promise<RolePermissionMap> {
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) return DEFAULT_ROLE_PERMISSIONS;
+
+  const { data, error } = await supabase
+    .from('organization_role_permissions')
+    .select('role, permissions')
+    .eq('organization_id', organizationId);
+
+  if (error) {
+    if (isMissingSchemaError(error)) return DEFAULT_ROLE_PERMISSIONS;
+    throw error;
+  }
+
+  const map: RolePermissionMap = { ...DEFAULT_ROLE_PERMISSIONS };
+  for (const row of (data || []) as { role: CustomizableRole; permissions: string[] }[]) {
+    map[row.role] = row.permissions.filter(isPermission);
+  }
+  return map;
+}
+
+export async function saveRolePermissions(role: CustomizableRole, permissions: Permission[]): Promise<void> {
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) throw new Error('No organization found for this account');
+
+  const { error } = await supabase.from('organization_role_permissions').upsert({
+    organization_id: organizationId,
+    role,
+    permissions: ALL_PERMISSIONS.filter(permission => permissions.includes(permission)),
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    if (isMissingSchemaError(error)) throw new Error(PERMISSIONS_SETUP_MESSAGE);
+    throw error;
+  }
+}
+
+/**
+ * Everything the signed-in user may do in an organization. Before the setup
+ * script is run this falls back to the role defaults, which match what each
+ * role could do before permissions existed.
+ */
+export async function getMyPermissions(
+  organizationId: string,
+  role: OrganizationRole | null
+): Promise<Permission[]> {
+  const { data, error } = await supabase.rpc('get_my_permissions', {
+    p_organization_id: organizationId,
+  });
+
+  if (error) {
+    if (isMissingSchemaError(error)) return resolveRolePermissions(role);
+    throw error;
+  }
+  return ((data || []) as string[]).filter(isPermission);
+}
@@ -0,0 +1,141 @@
+import { supabase } from '../lib/supabase';
+import { isMissingSchemaError } from '../lib/supabaseErrors';
+import { getCurrentOrganizationId } from './multiTenancy';
+import { validatePromotionInput } from '../utils/promotions';
+import type { Promotion, PromotionInput, PromotionStats } from '../types/multiTenancy';
+
+export const PROMOTIONS_SETUP_MESSAGE = 'Promotions are not set up yet. Please run supabase-promotions-setup.sql.';
+
+interface RedemptionRow {
+  client_id: string | null;
+  discount_amount: number | string;
+  booking: { status: string; service: { price: number | string } | null } | null;
+}
+
+// Uses, clients and money from a promotion's redemptions. Cancelled bookings
+// gave their use back, so they're left out; deleted bookings still count.
+function getPromotionStats(redemptions: RedemptionRow[]): PromotionStats {
+  const counted = redemptions.filter(r => r.booking?.status !== 'cancelled');
+  const completed = counted.filter(r => r.booking?.status === 'completed');
+  return {
+    uses: counted.length,
+    clients: new Set(counted.map(r => r.client_id)).size,
+    discount_total: counted.reduce((sum, r) => sum + Number(r.discount_amount), 0),
+    revenue: completed.reduce(
+      (sum, r) => sum + Number(r.booking?.service?.price ?? 0) - Number(r.discount_amount),
+      0
+    ),
+  };
+}
+
+/**
+ * The current organization's promotions with their redemption stats, newest
+ * first
+ */
+export async function getPromotions(): Promise<Promotion[]> {
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) return [];
+
+  const { data, error } = await supabase
+    .from('promotions')
+    .select('*, redemptions:promotion_redemptions(client_id, discount_amount, booking:bookings(status, service:services(price)))')
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    if (isMissingSchemaError(error)) return [];
+    throw error;
+  }
+
+  return ((data || []) as unknown as (Promotion & { redemptions: RedemptionRow[] | null })[])
+    .map(({ redemptions, ...row }) => ({
+      ...row,
+      discount_value: Number(row.discount_value),
+      service_ids: row.service_ids || [],
+      categories: row.categories || [],
+      stats: getPromotionStats(redemptions || []),
+    }));
+}
+
+/**
+ * Create a promotion, or update one when `promotionId` is given
+ */
+export async function savePromotion(input: PromotionInput, promotionId?: string): Promise<void> {
+  const normalized = { ...input, code: input.code.trim().toUpperCase() };
+  const validationError = validatePromotionInput(normalized);
+  if (validationError) throw new Error(validationError);
+
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) throw new Error('No organization found for this account');
+
+  const row = {
+    ...normalized,
+    organization_id: organizationId,
+    title: normalized.title.trim(),
+    description: normalized.description?.trim() || null,
+    // Only keep the list for the chosen scope
+    service_ids: normalized.scope === 'services' ? normalized.service_ids : [],
+    categories: normalized.scope === 'category' ? normalized.categories : [],
+  };
+
+  const { error } = promotionId
+    ? await supabase.from('promotions').update(row).eq('id', promotionId)
+    : await supabase.from('promotions').insert(row);
+
+  if (error) {
+    if (isMissingSchemaError(error)) throw new Error(PROMOTIONS_SETUP_MESSAGE);
+    if (error.code === '23505') throw new Error(`The code ${normalized.code} is already in use`);
+    throw error;
+  }
+}
+
+export interface PromotionServiceOption {
+  id: string;
+  name: string;
+  category: string;
+  shop_name: string;
+}
+
+// The organization's services, for choosing which ones a promotion covers
+export async function getPromotionServiceOptions(): Promise<PromotionServiceOption[]> {
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) return [];
+
+  const { data, error } = await supabase
+    .from('services')
+    .select('id, name, category, shop:shops!inner(name, organization_id)')
+    .eq('shop.organization_id', organizationId)
+    .order('name');
+
+  if (error) throw error;
+
+  return ((data || []) as unknown as { id: string; name: string; category: string | null; shop: { name: string } | null }[])
+    .map(service => ({
+      id: service.id,
+      name: service.name,
+      category: service.category || 'Other',
+      shop_name: service.shop?.name || 'Branch',
+    }));
+}
+
+// Pause or resume a promotion. Bookings that already used it keep their discount.
+export async function setPromotionActive(promotionId: string, isActive: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('promotions')
+    .update({ is_active: isActive })
+    .eq('id', promotionId);
+
+  if (error) {
+    if (isMissingSchemaError(error)) throw new Error(PROMOTIONS_SETUP_MESSAGE);
+    throw error;
+  }
+}
+
+// Turn a database error from the promotion functions into a readable one
+export function toPromotionError(error: { message?: string }): Error {
+  if (isMissingSchemaError(error)) return new Error(PROMOTIONS_SETUP_MESSAGE);
+  if (error.message?.includes('PROMO_INVALID')) {
+    return new Error(error.message.replace('PROMO_INVALID: ', ''));
+  }
+  return error instanceof Error ? error : new Error(error.message || 'Promo code request failed');
+}
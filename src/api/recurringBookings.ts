@@ -0,0 +1,227 @@
+import { supabase } from '../lib/supabase';
+import { isMissingSchemaError } from '../lib/supabaseErrors';
+import { getBookingEndAt, isSlotAvailable } from './availability';
+import { cancelBookingWithPolicy } from './cancellation';
+import { rescheduleBooking } from './reschedule';
+import { getSeriesOccurrences, validateRecurrenceRule } from '../utils/recurrence';
+import type { BookingSeries, BookingStatus, RecurrenceRule, SeriesEditScope } from '../types/multiTenancy';
+
+const SETUP_MESSAGE = 'Recurring appointments are not set up yet. Please run supabase-recurring-bookings-setup.sql.';
+
+export interface SeriesOccurrence {
+  start: Date;
+  available: boolean;
+}
+
+interface SeriesParams {
+  shopId: string;
+  serviceId: string;
+  staffId?: string | null;
+  durationMinutes: number;
+  first: Date;
+  rule: RecurrenceRule;
+}
+
+/**
+ * Every occurrence of a proposed series, each checked against the shop's
+ * hours, roster and existing bookings
+ */
+export async function previewBookingSeries(params: SeriesParams): Promise<SeriesOccurrence[]> {
+  const ruleError = validateRecurrenceRule(params.rule, params.first);
+  if (ruleError) throw new Error(ruleError);
+
+  const occurrences = getSeriesOccurrences(params.first, params.rule);
+  return Promise.all(occurrences.map(async start => ({
+    start,
+    available: start > new Date() && await isSlotAvailable({
+      shopId: params.shopId,
+      start,
+      durationMinutes: params.durationMinutes,
+      serviceId: params.serviceId,
+      staffId: params.staffId,
+    }),
+  })));
+}
+
+/**
+ * Book a recurring series. Occurrences that clash with another booking or
+ * fall on a closed day are skipped and returned so the caller can tell the user.
+ * Clients book for themselves; admins pass `clientId`.
+ */
+export async function createBookingSeries(params: SeriesParams & {
+  clientId?: string;
+  notes?: string;
+  status?: Extract<BookingStatus, 'pending' | 'confirmed'>;
+}): Promise<{ series: BookingSeries; bookingIds: string[]; booked: Date[]; skipped: Date[] }> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  if (params.first <= new Date()) {
+    throw new Error('Cannot book appointments in the past. Please select a future time.');
+  }
+
+  const preview = await previewBookingSeries(params);
+  const booked = preview.filter(o => o.available).map(o => o.start);
+  const skipped = preview.filter(o => !o.available).map(o => o.start);
+
+  if (!preview[0]?.available) {
+    throw new Error('The first appointment in this series is no longer available. Please select another time.');
+  }
+
+  const { data: shop } = await supabase
+    .from('shops')
+    .select('organization_id')
+    .eq('id', params.shopId)
+    .maybeSingle();
+
+  const { data: series, error: seriesError } = await supabase
+    .from('booking_series')
+    .insert({
+      client_id: params.clientId ?? user.id,
+      organization_id: shop?.organization_id ?? null,
+      shop_id: params.shopId,
+      service_id: params.serviceId,
+      staff_id: params.staffId ?? null,
+      frequency: params.rule.frequency,
+      until_date: params.rule.until_date ?? null,
+      occurrence_count: params.rule.count ?? null,
+      first_start_at: params.first.toISOString(),
+      created_by: user.id,
+    })
+    .select()
+    .single();
+
+  if (seriesError) {
+    if (isMissingSchemaError(seriesError)) throw new Error(SETUP_MESSAGE);
+    throw seriesError;
+  }
+
+  const { data: created, error: bookingsError } = await supabase
+    .from('bookings')
+    .insert(booked.map(start => ({
+      client_id: params.clientId ?? user.id,
+      service_id: params.serviceId,
+      shop_id: params.shopId,
+      staff_id: params.staffId ?? null,
+      start_at: start.toISOString(),
+      end_at: getBookingEndAt(start, params.durationMinutes),
+      status: params.status ?? 'pending',
+      notes: params.notes || null,
+      series_id: series.id,
+    })))
+    .select('id, start_at')
+    .order('start_at', { ascending: true });
+
+  if (bookingsError) {
+    // Don't leave an empty series behind
+    await supabase.from('booking_series').delete().eq('id', series.id);
+
+    if (
+      bookingsError.code === 'P0001' &&
+      typeof bookingsError.message === 'string' &&
+      bookingsError.message.includes('DAILY_APPOINTMENT_LIMIT_REACHED')
+    ) {
+      throw new Error('The salon has reached its daily booking limit on one of these dates. Please adjust the series.');
+    }
+    if (isMissingSchemaError(bookingsError)) throw new Error(SETUP_MESSAGE);
+    throw bookingsError;
+  }
+
+  return {
+    series: series as BookingSeries,
+    bookingIds: (created || []).map(booking => String(booking.id)),
+    booked,
+    skipped,
+  };
+}
+
+// The booking itself, plus later active occurrences of its series for 'future'
+async function getBookingsInScope(
+  bookingId: number | string,
+  scope: SeriesEditScope
+): Promise<{ id: number | string; start_at: string }[]> {
+  const { data: booking, error } = await supabase
+    .from('bookings')
+    .select('*')
+    .eq('id', bookingId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!booking) throw new Error('Booking not found');
+  if (scope === 'this' || !booking.series_id) return [booking];
+
+  const { data: future, error: futureError } = await supabase
+    .from('bookings')
+    .select('id, start_at')
+    .eq('series_id', booking.series_id)
+    .gt('start_at', booking.start_at)
+    .in('status', ['pending', 'confirmed'])
+    .order('start_at', { ascending: true });
+
+  if (futureError) throw futureError;
+  // The edited booking always comes first
+  return [booking, ...(future || [])];
+}
+
+/**
+ * Cancel one occurrence, or it and every later one in the series.
+ * Each cancellation goes through the policy, so late fees still apply.
+ */
+export async function cancelSeriesBookings(params: {
+  bookingId: number | string;
+  scope: SeriesEditScope;
+  reason?: string;
+}): Promise<{ cancelled: number; fee: number }> {
+  const bookings = await getBookingsInScope(params.bookingId, params.scope);
+
+  let fee = 0;
+  for (const booking of bookings) {
+    const result = await cancelBookingWithPolicy({ bookingId: booking.id, reason: params.reason });
+    fee += result.fee;
+  }
+
+  return { cancelled: bookings.length, fee };
+}
+
+/**
+ * Move one occurrence, or shift it and every later one by the same amount.
+ * Each move is checked for conflicts on its own; occurrences that can't move
+ * keep their time and are reported back.
+ */
+export async function rescheduleSeriesBookings(params: {
+  bookingId: number | string;
+  scope: SeriesEditScope;
+  newStart: Date;
+  reason?: string;
+  override?: boolean;
+}): Promise<{ moved: number; failed: { start_at: string; error: string }[] }> {
+  const bookings = await getBookingsInScope(params.bookingId, params.scope);
+  const offset = params.newStart.getTime() - new Date(bookings[0].start_at).getTime();
+
+  // The occurrence being edited must move, otherwise nothing does
+  await rescheduleBooking({
+    bookingId: bookings[0].id,
+    newStart: params.newStart,
+    reason: params.reason,
+    override: params.override,
+  });
+
+  const failed: { start_at: string; error: string }[] = [];
+  for (const booking of bookings.slice(1)) {
+    try {
+      await rescheduleBooking({
+        bookingId: booking.id,
+        newStart: new Date(new Date(booking.start_at).getTime() + offset),
+        reason: params.reason,
+        override: params.override,
+      });
+    } catch (error) {
+      failed.push({
+        start_at: booking.start_at,
+        error: error instanceof Error ? error.message : 'Failed to reschedule',
+      });
+    }
+  }
+
+  return { moved: bookings.length - failed.length, failed };
+}
@@ -0,0 +1,115 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { isMissingSchemaError } from '../lib/supabaseErrors';
+import { getCurrentOrganizationId } from './multiTenancy';
+import { DEFAULT_REMINDER_SETTINGS, validateReminderSettings } from '../utils/reminders';
+import type { BookingReminder, ReminderAppointment, ReminderSettings } from '../types/multiTenancy';
+
+export const REMINDERS_SETUP_MESSAGE = 'Reminders are not set up yet. Please run supabase-reminders-setup.sql.';
+
+/**
+ * The current organization's reminder settings, or the defaults if it hasn't
+ * saved any
+ */
+export async function getReminderSettings(): Promise<ReminderSettings> {
+  const organizationId = await getCurrentOrganizationId();
+  const fallback = { ...DEFAULT_REMINDER_SETTINGS, organization_id: organizationId ?? '' };
+  if (!organizationId) return fallback;
+
+  const { data, error } = await supabase
+    .from('reminder_settings')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+
+  if (error) {
+    if (isMissingSchemaError(error)) return fallback;
+    throw error;
+  }
+  return (data as ReminderSettings | null) ?? fallback;
+}
+
+export async function saveReminderSettings(settings: Omit<ReminderSettings, 'organization_id' | 'updated_at'>): Promise<void> {
+  const validationError = validateReminderSettings(settings);
+  if (validationError) throw new Error(validationError);
+
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) throw new Error('No organization found for this account');
+
+  const { error } = await supabase.from('reminder_settings').upsert({
+    ...settings,
+    organization_id: organizationId,
+    offsets_minutes: [...settings.offsets_minutes].sort((a, b) => b - a),
+    // Blank templates fall back to the built-in ones
+    email_subject: settings.email_subject?.trim() || null,
+    email_template: settings.email_template?.trim() || null,
+    sms_template: settings.sms_template?.trim() || null,
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    if (isMissingSchemaError(error)) throw new Error(REMINDERS_SETUP_MESSAGE);
+    throw error;
+  }
+}
+
+type ReminderLogRow = Omit<BookingReminder, 'client_name' | 'service_name'> & {
+  booking: { client: { name: string | null } | null; service: { name: string } | null } | null;
+};
+
+/**
+ * The most recent reminders sent for the current organization, newest first
+ */
+export async function getReminderLog(limit = 100): Promise<BookingReminder[]> {
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) return [];
+
+  const { data, error } = await supabase
+    .from('booking_reminders')
+    .select('*, booking:bookings(client:profiles!client_id(name), service:services(name))')
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    if (isMissingSchemaError(error)) return [];
+    throw error;
+  }
+
+  return ((data || []) as unknown as ReminderLogRow[]).map(({ booking, ...row }) => ({
+    ...row,
+    client_name: booking?.client?.name ?? null,
+    service_name: booking?.service?.name ?? null,
+  }));
+}
+
+export interface ReminderLink {
+  r: string;
+  e: string;
+  s: string;
+}
+
+/**
+ * Look up, or confirm or cancel, the appointment behind a reminder link.
+ * The signed link stands in for signing in, until the appointment starts.
+ */
+export async function respondToReminder(
+  link: ReminderLink,
+  action?: 'confirm' | 'cancel'
+): Promise<ReminderAppointment> {
+  const { data, error } = await supabase.functions.invoke('reminder-response', {
+    body: { ...link, action },
+  });
+
+  if (error) {
+    // Expired links and already-changed bookings come back as 4xx with a message
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      if (body?.error) throw new Error(body.error);
+    }
+    console.error('Error calling reminder-response:', error);
+    throw new Error('We could not reach the salon. Please try again.');
+  }
+  if (data?.error) throw new Error(data.error);
+  return data.appointment as ReminderAppointment;
+}
@@ -0,0 +1,149 @@
+import { supabase } from '../lib/supabase';
+import { isMissingSchemaError } from '../lib/supabaseErrors';
+import { isSlotAvailable } from './availability';
+import { getShopBookingPolicy } from './bookingPolicy';
+import { DEFAULT_BOOKING_DURATION } from '../utils/availability';
+import { getRescheduleBlockReason } from '../utils/bookingPolicy';
+import type { AppointmentWithDetails } from './admin';
+import type { BookingPolicy, BookingReschedule, UserRole } from '../types/multiTenancy';
+
+// The booking fields the reschedule flow needs, from any booking shape
+export interface RescheduleTarget {
+  id: number | string;
+  shop_id: string;
+  service_id: string;
+  staff_id?: string | null;
+  start_at: string;
+  end_at?: string | null;
+  status: string;
+  service_name?: string;
+  series_id?: string | null; // Recurring series, so the move can apply to later occurrences
+}
+
+// Roles that may move an appointment inside the policy window
+const OVERRIDE_ROLES: UserRole[] = ['admin', 'manager'];
+
+export function appointmentToRescheduleTarget(appointment: AppointmentWithDetails): RescheduleTarget | null {
+  const shopId = appointment.shop_id || appointment.salon_id;
+  if (!shopId) return null;
+  return {
+    id: appointment.id,
+    shop_id: String(shopId),
+    service_id: String(appointment.service_id),
+    staff_id: appointment.staff_id,
+    start_at: appointment.start_at,
+    end_at: appointment.end_at,
+    status: appointment.status,
+    service_name: appointment.service_name,
+    series_id: appointment.series_id,
+  };
+}
+
+export function canOverrideBookingPolicy(role: UserRole | null | undefined): boolean {
+  return !!role && OVERRIDE_ROLES.includes(role);
+}
+
+export async function getBookingReschedules(bookingId: number | string): Promise<BookingReschedule[]> {
+  const { data, error } = await supabase
+    .from('booking_reschedules')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    if (!isMissingSchemaError(error)) {
+      console.error('Error fetching reschedule history:', error);
+    }
+    return [];
+  }
+
+  return (data || []) as BookingReschedule[];
+}
+
+/**
+ * Policy, history and whether the booking can be moved - used by the reschedule modal
+ */
+export async function getRescheduleContext(booking: {
+  id: number | string;
+  shop_id: string;
+  service_id: string;
+  start_at: string;
+  end_at: string | null;
+  status: string;
+}): Promise<{
+  policy: BookingPolicy;
+  history: BookingReschedule[];
+  blockReason: string | null;
+  durationMinutes: number;
+}> {
+  const [policy, history, { data: service }] = await Promise.all([
+    getShopBookingPolicy(booking.shop_id),
+    getBookingReschedules(booking.id),
+    supabase.from('services').select('duration').eq('id', booking.service_id).maybeSingle(),
+  ]);
+
+  // Duration: service length, or the booking's current length
+  const currentLength = booking.end_at
+    ? Math.round((new Date(booking.end_at).getTime() - new Date(booking.start_at).getTime()) / 60000)
+    : 0;
+
+  return {
+    policy,
+    history,
+    blockReason: getRescheduleBlockReason(policy, { ...booking, reschedule_count: history.length }),
+    durationMinutes: Number(service?.duration) || currentLength || DEFAULT_BOOKING_DURATION,
+  };
+}
+
+/**
+ * Move an appointment to a new start time.
+ * Re-checks availability for the same stylist, then reschedule_booking()
+ * enforces the organization's policy (admins and managers may override it),
+ * moves the booking and records the change in one go.
+ */
+export async function rescheduleBooking(params: {
+  bookingId: number | string;
+  newStart: Date;
+  reason?: string;
+  override?: boolean;
+}): Promise<void> {
+  const { data: booking, error: bookingError } = await supabase
+    .from('bookings')
+    .select('id, shop_id, service_id, staff_id, start_at, end_at, status')
+    .eq('id', params.bookingId)
+    .maybeSingle();
+
+  if (bookingError) throw bookingError;
+  if (!booking) throw new Error('Booking not found');
+
+  const { durationMinutes } = await getRescheduleContext(booking);
+
+  const available = await isSlotAvailable({
+    shopId: booking.shop_id,
+    start: params.newStart,
+    durationMinutes,
+    serviceId: booking.service_id,
+    staffId: booking.staff_id,
+    excludeBookingId: booking.id,
+  });
+  if (!available) {
+    throw new Error('This time slot is no longer available. Please select another time.');
+  }
+
+  const { error } = await supabase.rpc('reschedule_booking', {
+    p_booking_id: booking.id,
+    p_new_start: params.newStart.toISOString(),
+    p_reason: params.reason?.trim() || null,
+    p_override: !!params.override,
+  });
+
+  if (error) {
+    if (error.message?.includes('RESCHEDULE_INVALID')) {
+      throw new Error(error.message.replace('RESCHEDULE_INVALID: ', ''));
+    }
+    if (isMissingSchemaError(error)) {
+      throw new Error('Rescheduling is not set up yet. Please run supabase-booking-policy-setup.sql.');
+    }
+    throw error;
+  }
+}
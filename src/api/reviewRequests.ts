@@ -0,0 +1,103 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { isMissingSchemaError } from '../lib/supabaseErrors';
+import { getCurrentOrganizationId } from './multiTenancy';
+import { DEFAULT_REVIEW_SETTINGS, validateReviewSettings } from '../utils/reviewRequests';
+import type { ReviewRequestStats, ReviewSettings, ReviewVisit } from '../types/multiTenancy';
+
+export const REVIEW_REQUESTS_SETUP_MESSAGE =
+  'Review requests are not set up yet. Please run supabase-review-requests-setup.sql.';
+
+/**
+ * The current organization's review request settings, or the defaults if it
+ * hasn't saved any
+ */
+export async function getReviewSettings(): Promise<ReviewSettings> {
+  const organizationId = await getCurrentOrganizationId();
+  const fallback = { ...DEFAULT_REVIEW_SETTINGS, organization_id: organizationId ?? '' };
+  if (!organizationId) return fallback;
+
+  const { data, error } = await supabase
+    .from('review_settings')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+
+  if (error) {
+    if (isMissingSchemaError(error)) return fallback;
+    throw error;
+  }
+  return (data as ReviewSettings | null) ?? fallback;
+}
+
+export async function saveReviewSettings(settings: Omit<ReviewSettings, 'organization_id' | 'updated_at'>): Promise<void> {
+  const validationError = validateReviewSettings(settings);
+  if (validationError) throw new Error(validationError);
+
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) throw new Error('No organization found for this account');
+
+  const { error } = await supabase.from('review_settings').upsert({
+    ...settings,
+    organization_id: organizationId,
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    if (isMissingSchemaError(error)) throw new Error(REVIEW_REQUESTS_SETUP_MESSAGE);
+    throw error;
+  }
+}
+
+/**
+ * Sent, opened and rated counts per shop and per staff member
+ */
+export async function getReviewRequestStats(): Promise<ReviewRequestStats[]> {
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) return [];
+
+  const { data, error } = await supabase.rpc('get_review_request_stats', {
+    p_organization_id: organizationId,
+  });
+
+  if (error) {
+    if (isMissingSchemaError(error)) return [];
+    throw error;
+  }
+
+  return ((data || []) as ReviewRequestStats[]).map(row => ({
+    ...row,
+    average_rating: row.average_rating === null ? null : Number(row.average_rating),
+  }));
+}
+
+export interface ReviewLink {
+  r: string;
+  e: string;
+  s: string;
+}
+
+/**
+ * Look up the visit behind a review link, or rate it. The signed link stands
+ * in for signing in.
+ */
+export async function respondToReviewRequest(
+  link: ReviewLink,
+  review?: { rating: number; comment: string }
+): Promise<ReviewVisit> {
+  const { data, error } = await supabase.functions.invoke('review-response', {
+    body: { ...link, ...review },
+  });
+
+  if (error) {
+    // Expired or tampered links come back as 4xx with a message
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      if (body?.error) throw new Error(body.error);
+    }
+    console.error('Error calling review-response:', error);
+    throw new Error('We could not reach the salon. Please try again.');
+  }
+  if (data?.error) throw new Error(data.error);
+  return data.visit as ReviewVisit;
+}
@@ -0,0 +1,286 @@
+import { supabase } from '../lib/supabase';
+import { isMissingSchemaError } from '../lib/supabaseErrors';
+import { toDateKey, validateIntervals, WEEKDAYS } from '../utils/businessHours';
+import { findRosterConflicts, type RosterBooking } from '../utils/roster';
+import type {
+  RosterConflict,
+  StaffShift,
+  TimeOffRequest,
+  TimeOffRequestWithStaff,
+  TimeOffStatus,
+  WeeklySchedule,
+} from '../types/multiTenancy';
+
+const SETUP_MESSAGE = 'Staff rostering is not set up yet. Please run supabase-staff-roster-setup.sql.';
+
+// Bookings in these statuses still need their stylist
+const ACTIVE_BOOKING_STATUSES = ['pending', 'confirmed'];
+
+// ============= SHIFTS =============
+
+export async function getStaffShifts(staffIds: string[]): Promise<StaffShift[]> {
+  if (staffIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('staff_shifts')
+    .select('*')
+    .in('staff_id', staffIds)
+    .order('start_time', { ascending: true });
+
+  if (error) {
+    if (!isMissingSchemaError(error)) {
+      console.error('Error fetching staff shifts:', error);
+    }
+    return [];
+  }
+
+  return (data || []) as StaffShift[];
+}
+
+/**
+ * Replace a staff member's recurring shifts at one branch
+ */
+export async function saveStaffShifts(staffId: string, shopId: string, schedule: WeeklySchedule): Promise<void> {
+  for (const day of WEEKDAYS) {
+    const validationError = validateIntervals(schedule[day]);
+    if (validationError) throw new Error(validationError);
+  }
+
+  const shifts = WEEKDAYS.flatMap(day =>
+    schedule[day].map(interval => ({
+      weekday: day,
+      start_time: interval.open,
+      end_time: interval.close,
+    }))
+  );
+
+  // One call, so the old shifts are only removed if the new ones save
+  const { error } = await supabase.rpc('replace_staff_shifts', {
+    p_staff_id: staffId,
+    p_shop_id: shopId,
+    p_shifts: shifts,
+  });
+
+  if (error) {
+    if (isMissingSchemaError(error)) throw new Error(SETUP_MESSAGE);
+    throw error;
+  }
+}
+
+// ============= TIME OFF =============
+
+export async function getTimeOffRequests(options?: {
+  staffIds?: string[];
+  status?: TimeOffStatus;
+  upcomingOnly?: boolean;
+}): Promise<TimeOffRequestWithStaff[]> {
+  let query = supabase
+    .from('staff_time_off')
+    .select('*')
+    .order('start_date', { ascending: true });
+
+  if (options?.staffIds) {
+    if (options.staffIds.length === 0) return [];
+    query = query.in('staff_id', options.staffIds);
+  }
+  if (options?.status) {
+    query = query.eq('status', options.status);
+  }
+  if (options?.upcomingOnly) {
+    query = query.gte('end_date', toDateKey(new Date()));
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    if (!isMissingSchemaError(error)) {
+      console.error('Error fetching time off requests:', error);
+    }
+    return [];
+  }
+  if (!data || data.length === 0) return [];
+
+  const staffIds = [...new Set(data.map(r => r.staff_id))];
+  const { data: profiles } = await supabase
+    .from('profiles')
+    .select('id, email, name')
+    .in('id', staffIds);
+  const profileMap = new Map((profiles || []).map(p => [p.id, p]));
+
+  return data.map(request => {
+    const profile = profileMap.get(request.staff_id);
+    return {
+      ...request,
+      staff_email: profile?.email || '',
+      staff_name: profile?.name || profile?.email?.split('@')[0] || 'Staff Member',
+    } as TimeOffRequestWithStaff;
+  });
+}
+
+export async function getMyTimeOffRequests(): Promise<TimeOffRequest[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+  return getTimeOffRequests({ staffIds: [user.id] });
+}
+
+export async function requestTimeOff(request: {
+  start_date: string;
+  end_date: string;
+  reason?: string;
+}): Promise<TimeOffRequest> {
+  if (!request.start_date || !request.end_date) {
+    throw new Error('Please select the dates you need off');
+  }
+  if (request.end_date < request.start_date) {
+    throw new Error('End date cannot be before start date');
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('organization_id')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  const { data, error } = await supabase
+    .from('staff_time_off')
+    .insert({
+      staff_id: user.id,
+      organization_id: profile?.organization_id ?? null,
+      start_date: request.start_date,
+      end_date: request.end_date,
+      reason: request.reason?.trim() || null,
+      status: 'pending',
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (isMissingSchemaError(error)) throw new Error(SETUP_MESSAGE);
+    throw error;
+  }
+
+  return data as TimeOffRequest;
+}
+
+// Staff can withdraw a request until a manager has reviewed it
+export async function cancelTimeOffRequest(requestId: string): Promise<void> {
+  const { error } = await supabase
+    .from('staff_time_off')
+    .delete()
+    .eq('id', requestId)
+    .eq('status', 'pending');
+
+  if (error) throw error;
+}
+
+export async function reviewTimeOffRequest(requestId: string, status: Exclude<TimeOffStatus, 'pending'>): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const { error } = await supabase
+    .from('staff_time_off')
+    .update({
+      status,
+      reviewed_by: user.id,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq('id', requestId);
+
+  if (error) throw error;
+}
+
+// ============= CONFLICTS =============
+
+async function getAssignedBookings(staffIds: string[], from: Date, to: Date): Promise<RosterBooking[]> {
+  if (staffIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('bookings')
+    .select('id, shop_id, staff_id, start_at, end_at, service_id')
+    .in('staff_id', staffIds)
+    .in('status', ACTIVE_BOOKING_STATUSES)
+    .gte('start_at', from.toISOString())
+    .lt('start_at', to.toISOString())
+    .order('start_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching assigned bookings:', error);
+    return [];
+  }
+  if (!data || data.length === 0) return [];
+
+  const serviceIds = [...new Set(data.filter(b => !b.end_at).map(b => b.service_id).filter(Boolean))];
+  let durationMap = new Map<string, number>();
+  if (serviceIds.length > 0) {
+    const { data: services } = await supabase
+      .from('services')
+      .select('id, duration')
+      .in('id', serviceIds);
+    durationMap = new Map((services || []).map(s => [String(s.id), Number(s.duration) || 0]));
+  }
+
+  return data.map(booking => ({
+    id: booking.id,
+    shop_id: booking.shop_id,
+    staff_id: booking.staff_id,
+    start_at: booking.start_at,
+    end_at: booking.end_at,
+    duration: durationMap.get(String(booking.service_id)),
+  }));
+}
+
+/**
+ * Bookings already assigned to the staff member during a time-off request,
+ * so managers can reassign them before approving
+ */
+export async function getTimeOffConflicts(request: TimeOffRequest): Promise<RosterConflict[]> {
+  const from = new Date(`${request.start_date}T00:00:00`);
+  const to = new Date(`${request.end_date}T00:00:00`);
+  to.setDate(to.getDate() + 1);
+
+  const bookings = await getAssignedBookings([request.staff_id], from, to);
+  return findRosterConflicts(bookings, [], [request]);
+}
+
+/**
+ * Upcoming assigned bookings that fall outside shifts or inside approved time off
+ */
+export async function getRosterConflicts(staffIds: string[], days = 14): Promise<RosterConflict[]> {
+  const from = new Date();
+  const to = new Date(from);
+  to.setDate(to.getDate() + days);
+
+  const [bookings, shifts, timeOff] = await Promise.all([
+    getAssignedBookings(staffIds, from, to),
+    getStaffShifts(staffIds),
+    getTimeOffRequests({ staffIds, status: 'approved', upcomingOnly: true }),
+  ]);
+
+  return findRosterConflicts(bookings, shifts, timeOff);
+}
+
+/**
+ * Shifts, approved time off and today's assignments - everything needed to
+ * derive live staff status
+ */
+export async function getRosterSnapshot(staffIds: string[]): Promise<{
+  shifts: StaffShift[];
+  timeOff: TimeOffRequest[];
+  bookings: RosterBooking[];
+}> {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+
+  const [shifts, timeOff, bookings] = await Promise.all([
+    getStaffShifts(staffIds),
+    getTimeOffRequests({ staffIds, status: 'approved', upcomingOnly: true }),
+    getAssignedBookings(staffIds, start, end),
+  ]);
+
+  return { shifts, timeOff, bookings };
+}
@@ -1,5 +1,6 @@
 import { supabase } from '../lib/supabase';
 import type { AppointmentWithDetails } from './admin';
+import { cancelBookingWithPolicy, markBookingNoShow } from './cancellation';
 
 // Get staff's assigned shop_id based on their email pattern
 async function getStaffShopId(): Promise<string | null> {
@@ -237,8 +238,17 @@ export async function getStaffTodayAppointments(): Promise<AppointmentWithDetail
 // Update booking status (for staff to approve/complete)
 export async function updateBookingStatus(
   bookingId: number,
-  status: 'pending' | 'confirmed' | 'completed' | 'cancelled'
+  status: 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'no_show'
 ): Promise<void> {
+  if (status === 'cancelled') {
+    await cancelBookingWithPolicy({ bookingId });
+    return;
+  }
+  if (status === 'no_show') {
+    await markBookingNoShow(bookingId);
+    return;
+  }
+
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) throw new Error('User not authenticated');
 
@@ -268,7 +278,15 @@ export async function updateBookingStatus(
     .update(updateData)
     .eq('id', bookingId);
 
-  if (error) throw error;
+  if (error) {
+    if (error.message?.includes('DEPOSIT_REQUIRED')) {
+      throw new Error(error.message.replace('DEPOSIT_REQUIRED: ', ''));
+    }
+    if (error.message?.includes('CANCELLATION_LOCKED')) {
+      throw new Error(error.message.replace('CANCELLATION_LOCKED: ', ''));
+    }
+    throw error;
+  }
 }
 
 // Assign booking to staff
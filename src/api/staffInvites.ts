@@ -0,0 +1,83 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { isMissingSchemaError } from '../lib/supabaseErrors';
+import { getCurrentOrganizationId } from './multiTenancy';
+import type { StaffInvite, StaffInviteDetails, StaffInviteInput } from '../types/multiTenancy';
+
+export const STAFF_INVITES_SETUP_MESSAGE =
+  'Staff invites are not set up yet. Please run supabase-staff-invites-setup.sql.';
+
+// Accounts and memberships are provisioned by the staff-invite edge function,
+// which holds the service role
+async function invokeStaffInvite(body: Record<string, unknown>) {
+  const { data, error } = await supabase.functions.invoke('staff-invite', { body });
+
+  if (error) {
+    // Permission and validation problems come back as 4xx with a message
+    if (error instanceof FunctionsHttpError) {
+      const response = await error.context.json().catch(() => null);
+      if (response?.error) throw new Error(response.error);
+    }
+    console.error('Error calling staff-invite:', error);
+    throw new Error('Could not reach the server. Please try again.');
+  }
+  if (data?.error) throw new Error(data.error);
+  return data;
+}
+
+/**
+ * Invite someone to the current organization. They get an email link to set
+ * their password; until then their membership is pending.
+ */
+export async function inviteStaff(input: StaffInviteInput): Promise<void> {
+  await invokeStaffInvite({ action: 'invite', ...input });
+}
+
+/**
+ * Invites that haven't been accepted, withdrawn or expired yet
+ */
+export async function getPendingStaffInvites(): Promise<StaffInvite[]> {
+  const organizationId = await getCurrentOrganizationId();
+  if (!organizationId) return [];
+
+  const { data, error } = await supabase
+    .from('staff_invites')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    if (isMissingSchemaError(error)) return [];
+    throw error;
+  }
+  return (data || []) as StaffInvite[];
+}
+
+/**
+ * Email a fresh link; earlier links for the invite stop working
+ */
+export async function resendStaffInvite(inviteId: string): Promise<void> {
+  await invokeStaffInvite({ action: 'resend', invite_id: inviteId });
+}
+
+export async function revokeStaffInvite(inviteId: string): Promise<void> {
+  await invokeStaffInvite({ action: 'revoke', invite_id: inviteId });
+}
+
+/**
+ * The invite behind a link. The token in the link stands in for signing in.
+ */
+export async function getStaffInviteDetails(token: string): Promise<StaffInviteDetails> {
+  const data = await invokeStaffInvite({ action: 'lookup', token });
+  return data.invite as StaffInviteDetails;
+}
+
+/**
+ * Join the organization. New accounts set their password here.
+ */
+export async function acceptStaffInvite(token: string, password?: string): Promise<void> {
+  await invokeStaffInvite({ action: 'accept', token, password });
+}
@@ -0,0 +1,57 @@
+import { supabase } from '../lib/supabase';
+import { isMissingSchemaError } from '../lib/supabaseErrors';
+import type { StaffServiceSkill } from '../types/multiTenancy';
+
+export async function getStaffSkills(staffIds: string[]): Promise<StaffServiceSkill[]> {
+  if (staffIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('staff_service_skills')
+    .select('*')
+    .in('staff_id', staffIds);
+
+  if (error) {
+    if (!isMissingSchemaError(error)) {
+      console.error('Error fetching staff skills:', error);
+    }
+    return [];
+  }
+
+  return (data || []) as StaffServiceSkill[];
+}
+
+/**
+ * Replace the services a staff member can perform. An empty list means
+ * "all services".
+ */
+export async function saveStaffSkills(staffId: string, serviceIds: string[]): Promise<void> {
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('organization_id')
+    .eq('id', staffId)
+    .maybeSingle();
+
+  const { error: deleteError } = await supabase
+    .from('staff_service_skills')
+    .delete()
+    .eq('staff_id', staffId);
+
+  if (deleteError) {
+    if (isMissingSchemaError(deleteError)) {
+      throw new Error('Staff skills are not set up yet. Please run supabase-staff-skills-setup.sql.');
+    }
+    throw deleteError;
+  }
+
+  if (serviceIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('staff_service_skills')
+    .insert(serviceIds.map(serviceId => ({
+      staff_id: staffId,
+      service_id: serviceId,
+      organization_id: profile?.organization_id ?? null,
+    })));
+
+  if (error) throw error;
+}
@@ -1,4 +1,6 @@
 import { supabase } from '../lib/supabase';
+import type { Payment } from '../types/multiTenancy';
+import { submitPayment, waitForPaymentSettled } from './payments';
 
 export type PlanType = 'free-trial' | 'pro' | 'enterprise';
 export type SubscriptionStatus = 'active' | 'cancelled' | 'expired' | 'suspended';
@@ -25,26 +27,7 @@ export interface Subscription {
   cancellation_reason: string | null;
 }
 
-export interface Payment {
-  id: string;
-  subscription_id: string;
-  user_id: string;
-  amount: number;
-  currency: string;
-  status: 'pending' | 'completed' | 'failed' | 'refunded' | 'cancelled';
-  payment_method: string;
-  payment_provider: string;
-  transaction_id: string | null;
-  card_last4: string | null;
-  card_brand: string | null;
-  card_expiry_month: number | null;
-  card_expiry_year: number | null;
-  billing_address: string | null;
-  billing_city: string | null;
-  billing_zip_code: string | null;
-  created_at: string;
-  processed_at: string | null;
-}
+export type { Payment };
 
 export interface SubscriptionAccess {
   has_access: boolean;
@@ -185,11 +168,11 @@ export async function createSubscriptionFromOnboarding(
 }
 
 /**
- * Create payment record
+ * Charge a subscription through the payment provider and wait for the
+ * outcome. Returns the payment id once it completes, or null if it failed.
  */
 export async function createPaymentRecord(
   subscriptionId: string,
-  userId: string,
   amount: number,
   cardLast4: string | null = null,
   cardBrand: string | null = null,
@@ -197,39 +180,30 @@ export async function createPaymentRecord(
   cardExpiryYear: number | null = null,
   billingAddress: string | null = null,
   billingCity: string | null = null,
-  billingZipCode: string | null = null,
-  transactionId: string | null = null
+  billingZipCode: string | null = null
 ): Promise<string | null> {
   try {
-    const { data, error } = await supabase
-      .from('payments')
-      .insert({
-        subscription_id: subscriptionId,
-        user_id: userId,
-        amount: amount,
-        currency: 'PHP',
-        status: 'completed',
-        payment_method: 'card',
-        payment_provider: 'mock',
-        transaction_id: transactionId || `mock_txn_${Date.now()}`,
-        card_last4: cardLast4,
-        card_brand: cardBrand,
-        card_expiry_month: cardExpiryMonth,
-        card_expiry_year: cardExpiryYear,
-        billing_address: billingAddress,
-        billing_city: billingCity,
-        billing_zip_code: billingZipCode,
-        processed_at: new Date().toISOString(),
-      })
-      .select('id')
-      .single();
+    const pending = await submitPayment({
+      subscriptionId,
+      amount,
+      method: 'card',
+      card: {
+        last4: cardLast4 || '',
+        brand: cardBrand,
+        expMonth: cardExpiryMonth,
+        expYear: cardExpiryYear,
+      },
+      billing: { address: billingAddress, city: billingCity, zipCode: billingZipCode },
+      description: 'GlamQueue subscription',
+    });
 
-    if (error) {
-      console.error('Error creating payment:', error);
+    const payment = await waitForPaymentSettled(pending.id);
+    if (payment.status !== 'completed') {
+      console.error('Subscription payment not completed:', payment.status, payment.failure_reason);
       return null;
     }
 
-    return data.id;
+    return payment.id;
   } catch (error) {
     console.error('Error in createPaymentRecord:', error);
     return null;
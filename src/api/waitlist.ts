@@ -0,0 +1,32 @@
+import { supabase } from '../lib/supabase';
+import { isMissingSchemaError } from '../lib/supabaseErrors';
+import type { BusyBooking } from '../utils/availability';
+
+// Freed slots are offered by a trigger on booking cancellation, and expired
+// holds are passed down the list by the send-waitlist-offer job (see
+// supabase-waitlist-setup.sql), so only holds are read from here.
+
+/**
+ * Slots held for other waitlisted clients between two instants, shaped like
+ * bookings so the availability engine treats them as taken
+ */
+export async function getWaitlistHolds(shopId: string, from: Date, to: Date): Promise<BusyBooking[]> {
+  const { data, error } = await supabase.rpc('get_waitlist_holds', {
+    p_shop_id: shopId,
+    p_from: from.toISOString(),
+    p_to: to.toISOString(),
+  });
+
+  if (error) {
+    if (!isMissingSchemaError(error)) {
+      console.error('Error fetching waitlist holds:', error);
+    }
+    return [];
+  }
+
+  return ((data || []) as { start_at: string; end_at: string | null; staff_id: string | null }[]).map(hold => ({
+    start_at: hold.start_at,
+    end_at: hold.end_at,
+    staff_id: hold.staff_id,
+  }));
+}
@@ -1,7 +1,7 @@
 import { useEffect, useState } from 'react';
 import type { Session, User, AuthError } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
-import { createAndStoreOTP, sendOTPEmail, verifyOTP } from '../api/otp';
+import { sendOTPEmail, verifyOTP, type OtpError } from '../api/otp';
 import { AuthContext } from './AuthContextInstance';
 
 type AuthResponse = {
@@ -14,8 +14,8 @@ export type Ctx = {
   signInWithEmail: (email: string, password: string) => Promise<{ error?: AuthError }>;
   signInWithOAuth: (provider: 'google' | 'azure') => Promise<{ error?: AuthError }>;
   signUpWithEmail: (email: string, password: string) => Promise<{ data?: AuthResponse; error?: AuthError }>;
-  sendOTP: (email: string, password: string) => Promise<{ code?: string; error?: Error | AuthError }>;
-  verifyOTPCode: (email: string, code: string) => Promise<{ data?: AuthResponse; error?: Error | AuthError }>;
+  sendOTP: (email: string) => Promise<{ resendAfter?: number; error?: OtpError }>;
+  verifyOTPCode: (email: string, code: string, password: string) => Promise<{ data?: AuthResponse; error?: OtpError | AuthError }>;
   signOut: () => Promise<void>;
 };
 
@@ -58,68 +58,35 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     };
   };
 
-  const sendOTP = async (email: string, password: string) => {
-    // Generate and store OTP
-    const { code, error: createError } = await createAndStoreOTP(email, password);
-    
-    if (createError) {
-      // If table doesn't exist, we'll still generate the code but log it
-      console.warn('Could not store OTP in database:', createError);
-      // Continue anyway - code is still generated
-    }
-
-    // Send OTP via email (this will also log to console)
-    const { code: returnedCode, error: sendError } = await sendOTPEmail(email, code);
-    
-    if (sendError) {
-      // Even if sending fails, the code is logged in sendOTPEmail
-      return { error: sendError, code: returnedCode || code };
+  const sendOTP = async (email: string) => {
+    try {
+      return { resendAfter: await sendOTPEmail(email) };
+    } catch (err) {
+      return { error: err as OtpError, resendAfter: (err as OtpError).retryAfter };
     }
-
-    return { code: returnedCode || code };
   };
 
-  const verifyOTPCode = async (email: string, code: string) => {
-    // Verify OTP and get password
-    const { password, error: verifyError } = await verifyOTP(email, code);
-    
-    if (verifyError || !password) {
-      return { error: verifyError || new Error('Invalid verification code') };
-    }
-
-    // Create account using Edge Function (Admin API)
-    // This bypasses the Email provider requirement and creates user directly
+  const verifyOTPCode = async (email: string, code: string, password: string) => {
+    let user: User;
     try {
-      const { data: createUserData, error: createError } = await supabase.functions.invoke('create-user', {
-        body: { email, password }
-      });
-
-      if (createError) {
-        return { error: createError };
-      }
-
-      if (!createUserData?.user) {
-        return { error: new Error('Failed to create user account') };
-      }
-
-      // Sign in the user automatically after account creation
-      const { data: signInData, error: signInError } = await supabase.auth.signInWithPassword({
-        email,
-        password,
-      });
+      user = await verifyOTP(email, code, password);
+    } catch (err) {
+      return { error: err as OtpError };
+    }
 
-      if (signInError) {
-        // If sign in fails, return the user data - user will need to manually login
-        console.warn('Auto sign-in failed:', signInError);
-        return { data: { user: createUserData.user }, error: signInError };
-      }
+    // Sign the user in automatically now the account exists
+    const { data: signInData, error: signInError } = await supabase.auth.signInWithPassword({
+      email,
+      password,
+    });
 
-      // Return sign-in data which includes session
-      return { data: signInData || { user: createUserData.user } };
-    } catch (err) {
-      console.error('Error creating user:', err);
-      return { error: err };
+    if (signInError) {
+      // The account is created either way - the user can log in manually
+      console.warn('Auto sign-in failed:', signInError);
+      return { data: { user }, error: signInError };
     }
+
+    return { data: signInData || { user } };
   };
 
   const signOut = async () => { await supabase.auth.signOut(); };
@@ -3,6 +3,7 @@ import { ClientProvider, useClient } from './context/ClientContext';
 import { ClientHome } from './screens/ClientHome';
 import { ServicesExplore } from './screens/ServicesExplore';
 import { BookingScreen } from './screens/BookingScreen';
+import { VisitBookingScreen } from './screens/VisitBookingScreen';
 import { MySchedule } from './screens/MySchedule';
 import { Profile } from './screens/Profile';
 import { BookingSuccessModal } from './components/BookingSuccessModal';
@@ -17,16 +18,17 @@ import { getMyBookings } from './api/bookings';
 import { MobileBottomNav, type MobileNavItem } from '../components/mobile';
 import { supabase } from '../lib/supabase';
 import { getServiceImageUrl } from '../utils/imageUtils';
-import { glamError } from '../lib/glamAlerts';
+import { glamConfirm, glamError, glamSuccess } from '../lib/glamAlerts';
 import type { Service, Booking } from './types';
 
-type ClientView = 'home' | 'explore' | 'booking' | 'schedule' | 'profile';
+type ClientView = 'home' | 'explore' | 'booking' | 'visit' | 'schedule' | 'profile';
 
 // Map ClientView to MobileNavItem
 const viewToNavItem: Record<ClientView, MobileNavItem> = {
   home: 'home',
   explore: 'explore',
   booking: 'explore',
+  visit: 'explore',
   schedule: 'schedule',
   profile: 'more',
 };
@@ -42,7 +44,8 @@ export function ClientApp({ onLogout, onRequireLogin }: ClientAppProps) {
   const [currentView, setCurrentView] = useState<ClientView>('home');
   const [selectedService, setSelectedService] = useState<Service | null>(null);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
-  const [bookingId, setBookingId] = useState<string | null>(null);
+  const [bookingIds, setBookingIds] = useState<string[]>([]); // One per service in the visit
+  const [cart, setCart] = useState<Service[]>([]);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [showRatingModal, setShowRatingModal] = useState(false);
   const [ratingBooking, setRatingBooking] = useState<Booking | null>(null);
@@ -90,7 +93,7 @@ export function ClientApp({ onLogout, onRequireLogin }: ClientAppProps) {
         console.log('Pending booking created successfully:', booking);
         
         // Show payment method selection (then success modal) and clear pending booking
-        setBookingId(booking.id);
+        setBookingIds([booking.id]);
         setShowPaymentModal(true);
         clearPendingBooking();
       } catch (error) {
@@ -143,8 +146,38 @@ export function ClientApp({ onLogout, onRequireLogin }: ClientAppProps) {
     setSelectedService(null);
   };
 
-  const handleBookingComplete = (id: string) => {
-    setBookingId(id);
+  // Appointments covered by a package are already paid for, so skip payment
+  const handleBookingComplete = (id: string, coveredByPackage = false) => {
+    setBookingIds([id]);
+    if (coveredByPackage) setShowSuccessModal(true);
+    else setShowPaymentModal(true);
+  };
+
+  // A visit is booked at one salon, so adding a service from another one starts over
+  const handleAddToCart = async (service: Service) => {
+    if (cart.some(item => item.id === service.id)) return;
+
+    if (cart.length > 0 && cart[0].shop_id !== service.shop_id) {
+      const ok = await glamConfirm({
+        title: 'Start a new visit?',
+        text: `Your visit has services from ${cart[0].shop_name}. A visit can only include services from one salon.`,
+        confirmText: 'Start new visit',
+      });
+      if (!ok) return;
+      setCart([service]);
+    } else {
+      setCart(prev => [...prev, service]);
+    }
+    glamSuccess(`${service.name} added to your visit`);
+  };
+
+  const handleRemoveFromCart = (serviceId: string) => {
+    setCart(prev => prev.filter(item => item.id !== serviceId));
+  };
+
+  const handleVisitBooked = (ids: string[]) => {
+    setCart([]);
+    setBookingIds(ids);
     setShowPaymentModal(true);
   };
 
@@ -155,7 +188,7 @@ export function ClientApp({ onLogout, onRequireLogin }: ClientAppProps) {
 
   const handleCloseSuccessModal = () => {
     setShowSuccessModal(false);
-    setBookingId(null);
+    setBookingIds([]);
     setScheduleInitialTab('upcoming');
     setCurrentView('schedule');
   };
@@ -195,7 +228,7 @@ export function ClientApp({ onLogout, onRequireLogin }: ClientAppProps) {
         currentView={currentView}
         selectedService={selectedService}
         showSuccessModal={showSuccessModal}
-        bookingId={bookingId}
+        bookingIds={bookingIds}
         showPaymentModal={showPaymentModal}
         showRatingModal={showRatingModal}
         ratingBooking={ratingBooking}
@@ -207,6 +240,10 @@ export function ClientApp({ onLogout, onRequireLogin }: ClientAppProps) {
         onViewProfile={() => setCurrentView('profile')}
         onViewAllServices={() => setCurrentView('explore')}
         onBookingComplete={handleBookingComplete}
+        cart={cart}
+        onAddToCart={handleAddToCart}
+        onRemoveFromCart={handleRemoveFromCart}
+        onVisitBooked={handleVisitBooked}
         onPaymentDone={handlePaymentDone}
         onCloseSuccessModal={handleCloseSuccessModal}
         onCloseRatingModal={() => {
@@ -232,7 +269,7 @@ function ClientAppContent({
   currentView,
   selectedService,
   showSuccessModal,
-  bookingId,
+  bookingIds,
   showPaymentModal,
   showRatingModal,
   ratingBooking,
@@ -244,6 +281,10 @@ function ClientAppContent({
   onViewProfile,
   onViewAllServices,
   onBookingComplete,
+  cart,
+  onAddToCart,
+  onRemoveFromCart,
+  onVisitBooked,
   onPaymentDone,
   onCloseSuccessModal,
   onCloseRatingModal,
@@ -257,7 +298,7 @@ function ClientAppContent({
   currentView: ClientView;
   selectedService: Service | null;
   showSuccessModal: boolean;
-  bookingId: string | null;
+  bookingIds: string[];
   showPaymentModal: boolean;
   showRatingModal: boolean;
   ratingBooking: Booking | null;
@@ -268,7 +309,11 @@ function ClientAppContent({
   onViewHistory?: () => void;
   onViewProfile: () => void;
   onViewAllServices: () => void;
-  onBookingComplete: (id: string) => void;
+  onBookingComplete: (id: string, coveredByPackage?: boolean) => void;
+  cart: Service[];
+  onAddToCart: (service: Service) => void;
+  onRemoveFromCart: (serviceId: string) => void;
+  onVisitBooked: (bookingIds: string[]) => void;
   onPaymentDone: () => void;
   onCloseSuccessModal: () => void;
   onCloseRatingModal: () => void;
@@ -335,6 +380,18 @@ function ClientAppContent({
           <ServicesExplore
             onSelectService={onSelectService}
             onBack={onBackToHome}
+            cart={cart}
+            onAddToCart={onAddToCart}
+            onViewCart={() => onSetCurrentView('visit')}
+          />
+        );
+      case 'visit':
+        return (
+          <VisitBookingScreen
+            services={cart}
+            onRemoveService={onRemoveFromCart}
+            onBack={() => onSetCurrentView('explore')}
+            onBookingComplete={onVisitBooked}
           />
         );
       case 'booking':
@@ -382,9 +439,9 @@ function ClientAppContent({
         onNavigate={onMobileNavigate} 
       />
 
-      {showPaymentModal && bookingId && (
+      {showPaymentModal && bookingIds.length > 0 && (
         <PaymentMethodModal
-          bookingId={bookingId}
+          bookingIds={bookingIds}
           onDone={() => {
             onPaymentDone();
           }}
@@ -393,7 +450,7 @@ function ClientAppContent({
       
       {showSuccessModal && (
         <BookingSuccessModal
-          bookingId={bookingId}
+          bookingId={bookingIds[0] ?? null}
           onClose={onCloseSuccessModal}
           onViewSchedule={() => {
             onSetShowSuccessModal(false);
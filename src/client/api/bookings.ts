@@ -1,8 +1,9 @@
 import { supabase } from '../../lib/supabase';
 import type { Booking, BookingStatus } from '../types';
 import { getServiceImageUrl } from '../../utils/imageUtils';
+import { cancelBookingWithPolicy } from '../../api/cancellation';
 
-export type ClientPaymentMethod = 'cash' | 'online' | 'visa';
+export type ClientPaymentMethod = 'cash' | 'online' | 'visa' | 'gift_card';
 
 export type MockPaymentDetails = {
   // DigiBank/Online
@@ -48,7 +49,10 @@ export async function createBooking(booking: {
   service_id: string;
   shop_id: string;
   date_time: string;
+  end_at?: string;
+  staff_id?: string; // Requested stylist; omitted for "any available"
   notes?: string;
+  client_package_id?: string; // Draw one use from a purchased package
 }): Promise<Booking> {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) throw new Error('User not authenticated');
@@ -72,8 +76,11 @@ export async function createBooking(booking: {
         service_id: booking.service_id, // Must be UUID
         shop_id: booking.shop_id, // Must be UUID
         start_at: booking.date_time,
+        end_at: booking.end_at ?? null,
+        staff_id: booking.staff_id ?? null,
         status: 'pending' as BookingStatus,
         notes: booking.notes,
+        ...(booking.client_package_id ? { client_package_id: booking.client_package_id } : {}),
       },
     ])
     .select(`
@@ -95,6 +102,9 @@ export async function createBooking(booking: {
     ) {
       throw new Error('This salon has reached the daily booking limit (100 appointments). Please choose another date.');
     }
+    if (typeof error.message === 'string' && error.message.includes('PACKAGE_NOT_USABLE')) {
+      throw new Error(error.message.replace('PACKAGE_NOT_USABLE: ', ''));
+    }
     if (error.code === '42501') {
       throw new Error('Permission denied. Please check your Row Level Security policies.');
     } else if (error.code === '23503') {
@@ -203,13 +213,9 @@ export async function getUpcomingBookings(): Promise<Booking[]> {
   })) as Booking[];
 }
 
-export async function cancelBooking(bookingId: string): Promise<void> {
-  const { error } = await supabase
-    .from('bookings')
-    .update({ status: 'cancelled' })
-    .eq('id', bookingId);
-
-  if (error) throw error;
+export async function cancelBooking(bookingId: string, reason?: string): Promise<{ fee: number }> {
+  const { fee } = await cancelBookingWithPolicy({ bookingId, reason });
+  return { fee };
 }
 
 /**
@@ -238,7 +244,12 @@ export async function deleteBooking(bookingId: string): Promise<void> {
     .delete()
     .eq('id', bookingId);
 
-  if (error) throw error;
+  if (error) {
+    if (error.message?.includes('CANCELLATION_LOCKED')) {
+      throw new Error(error.message.replace('CANCELLATION_LOCKED: ', ''));
+    }
+    throw error;
+  }
 }
 
 export async function updateBookingStatus(
@@ -277,7 +288,13 @@ export async function setBookingPaymentMethod(
     .maybeSingle();
   if (selectError) throw selectError;
 
-  const label = method === 'cash' ? 'Cash' : method === 'online' ? 'DigiBank/Online' : 'Visa';
+  const label = method === 'cash'
+    ? 'Cash'
+    : method === 'online'
+      ? 'DigiBank/Online'
+      : method === 'gift_card'
+        ? 'Gift card'
+        : 'Visa';
   const prefix = `Payment method: ${label}`;
   const nextNotes = existing?.notes
     ? `${existing.notes}\n${prefix}`
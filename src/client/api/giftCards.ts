@@ -0,0 +1,108 @@
+import { supabase } from '../../lib/supabase';
+import { isMissingSchemaError } from '../../lib/supabaseErrors';
+import { mapGiftCard, toGiftCardError } from '../../api/giftCards';
+import { submitPayment, waitForPaymentSettled } from '../../api/payments';
+import type { CardDetails, PaymentMethodType, WalletDetails } from '../../services/payments';
+import type { GiftCard, PaymentPurpose } from '../../types/multiTenancy';
+
+export interface BuyGiftCardParams {
+  organizationId: string;
+  amount: number;
+  recipientName?: string;
+  recipientEmail?: string;
+  message?: string;
+  method: PaymentMethodType;
+  card?: CardDetails;
+  wallet?: WalletDetails;
+}
+
+/**
+ * Buy a gift card online. The card is created pending and only gets its
+ * balance once the payment completes; a failed payment voids it.
+ */
+export async function buyGiftCard(params: BuyGiftCardParams): Promise<GiftCard> {
+  const { data, error } = await supabase.rpc('purchase_gift_card', {
+    p_organization_id: params.organizationId,
+    p_amount: params.amount,
+    p_recipient_name: params.recipientName || null,
+    p_recipient_email: params.recipientEmail || null,
+    p_message: params.message || null,
+  });
+
+  if (error) throw toGiftCardError(error);
+  const pending = mapGiftCard(data as GiftCard);
+
+  const payment = await submitPayment({
+    amount: pending.initial_balance,
+    method: params.method,
+    organizationId: params.organizationId,
+    giftCardId: pending.id,
+    card: params.card,
+    wallet: params.wallet,
+    description: `Gift card ${pending.code}`,
+  });
+  const settled = await waitForPaymentSettled(payment.id);
+  if (settled.status !== 'completed') {
+    throw new Error(settled.failure_reason ? `Payment failed: ${settled.failure_reason}` : 'Payment did not go through');
+  }
+
+  const { data: card, error: cardError } = await supabase
+    .from('gift_cards')
+    .select('*')
+    .eq('id', pending.id)
+    .single();
+
+  if (cardError) throw cardError;
+  return mapGiftCard(card as GiftCard);
+}
+
+/**
+ * Gift cards the signed-in client has bought
+ */
+export async function getMyGiftCards(): Promise<GiftCard[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('gift_cards')
+    .select('*, organization:organizations(name)')
+    .eq('purchaser_id', user.id)
+    .neq('status', 'pending')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    if (isMissingSchemaError(error)) return [];
+    throw error;
+  }
+  return ((data || []) as unknown as GiftCard[]).map(mapGiftCard);
+}
+
+export interface GiftCardRedemption {
+  applied: number;
+  remaining: number; // Still owed on the bookings
+  balance: number; // Left on the card
+}
+
+/**
+ * Spend a gift card on the signed-in client's bookings. If the card doesn't
+ * cover everything, the rest is still owed and can be paid another way.
+ */
+export async function redeemGiftCard(
+  code: string,
+  bookingIds: string[],
+  purpose: PaymentPurpose = 'payment'
+): Promise<GiftCardRedemption> {
+  const { data, error } = await supabase.rpc('redeem_gift_card_for_bookings', {
+    p_code: code.trim(),
+    p_booking_ids: bookingIds.map(Number),
+    p_purpose: purpose,
+  });
+
+  if (error) throw toGiftCardError(error);
+  const result = data as GiftCardRedemption;
+  return {
+    applied: Number(result.applied),
+    remaining: Number(result.remaining),
+    balance: Number(result.balance),
+  };
+}
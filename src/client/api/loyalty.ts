@@ -0,0 +1,50 @@
+import { supabase } from '../../lib/supabase';
+import { isMissingSchemaError } from '../../lib/supabaseErrors';
+import { getLoyaltyProgram, toLoyaltyError } from '../../api/loyalty';
+import { getLoyaltyTier } from '../../utils/loyalty';
+import type { LoyaltyAccount } from '../../types/multiTenancy';
+
+/**
+ * The signed-in client's points at each salon they've earned with. Overdue
+ * points are expired before the balances are read.
+ */
+export async function getMyLoyalty(): Promise<LoyaltyAccount[]> {
+  const { data, error } = await supabase.rpc('get_my_loyalty');
+
+  if (error) {
+    if (isMissingSchemaError(error)) return [];
+    throw toLoyaltyError(error);
+  }
+
+  const rows = (data || []) as { organization_id: string; organization_name: string; balance: number; lifetime_points: number }[];
+  return Promise.all(rows.map(async row => {
+    const program = await getLoyaltyProgram(row.organization_id);
+    const lifetimePoints = Number(row.lifetime_points);
+    return {
+      organization_id: row.organization_id,
+      organization_name: row.organization_name,
+      balance: Number(row.balance),
+      lifetime_points: lifetimePoints,
+      tier: getLoyaltyTier(lifetimePoints, program.tiers),
+      program,
+    };
+  }));
+}
+
+/**
+ * Spend points on one of the signed-in client's new bookings. Only as many
+ * points as the remaining price needs are taken.
+ */
+export async function redeemLoyaltyPoints(
+  bookingId: string,
+  points: number
+): Promise<{ points: number; discountAmount: number }> {
+  const { data, error } = await supabase.rpc('redeem_loyalty_points', {
+    p_booking_id: Number(bookingId),
+    p_points: points,
+  });
+
+  if (error) throw toLoyaltyError(error);
+  const result = data as { points: number; discount_amount: number | string };
+  return { points: result.points, discountAmount: Number(result.discount_amount) };
+}
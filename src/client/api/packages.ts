@@ -0,0 +1,74 @@
+import { supabase } from '../../lib/supabase';
+import { isMissingSchemaError } from '../../lib/supabaseErrors';
+import { PACKAGE_SELECT, PACKAGES_SETUP_MESSAGE, mapServicePackage } from '../../api/packages';
+import type { ClientPackage, ServicePackage } from '../../types/multiTenancy';
+
+/**
+ * Every package currently on sale, for the explore screen
+ */
+export async function getActivePackages(): Promise<ServicePackage[]> {
+  const { data, error } = await supabase
+    .from('service_packages')
+    .select(PACKAGE_SELECT)
+    .eq('is_active', true)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    if (isMissingSchemaError(error)) return [];
+    throw error;
+  }
+
+  return ((data || []) as unknown as ServicePackage[])
+    .map(mapServicePackage)
+    .filter(pkg => pkg.items.length > 0);
+}
+
+/**
+ * Buy a package at its current price. Payment is collected by the salon.
+ */
+export async function purchasePackage(packageId: string): Promise<ClientPackage> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { data, error } = await supabase.rpc('purchase_service_package', { p_package_id: packageId });
+
+  if (error) {
+    if (isMissingSchemaError(error)) throw new Error(PACKAGES_SETUP_MESSAGE);
+    if (error.message?.includes('PACKAGE_NOT_AVAILABLE')) {
+      throw new Error('This package is no longer on sale');
+    }
+    throw error;
+  }
+
+  return data as ClientPackage;
+}
+
+/**
+ * The signed-in client's packages with the bookings drawing on them
+ */
+export async function getMyPackages(): Promise<ClientPackage[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('client_packages')
+    .select(`
+      *,
+      package:service_packages(${PACKAGE_SELECT}),
+      redemptions:package_redemptions(*),
+      bookings:bookings!bookings_client_package_id_fkey(id, service_id, status)
+    `)
+    .eq('client_id', user.id)
+    .order('purchased_at', { ascending: false });
+
+  if (error) {
+    if (isMissingSchemaError(error)) return [];
+    throw error;
+  }
+
+  return ((data || []) as unknown as ClientPackage[]).map(row => ({
+    ...row,
+    price_paid: Number(row.price_paid),
+    package: row.package ? mapServicePackage(row.package) : null,
+  }));
+}
@@ -0,0 +1,40 @@
+import { supabase } from '../../lib/supabase';
+import { toPromotionError } from '../../api/promotions';
+import type { PromotionPreview } from '../../types/multiTenancy';
+
+/**
+ * Check a promo code against a service and see what it takes off one
+ * booking. Throws with the reason when the code can't be used.
+ */
+export async function previewPromotion(code: string, serviceId: string): Promise<PromotionPreview> {
+  const { data, error } = await supabase.rpc('preview_promotion', {
+    p_code: code.trim(),
+    p_service_id: serviceId,
+  });
+
+  if (error) throw toPromotionError(error);
+  const preview = data as PromotionPreview;
+  return { ...preview, discount_amount: Number(preview.discount_amount) };
+}
+
+/**
+ * Apply a promo code to the signed-in client's new bookings. Returns the
+ * bookings that were discounted; usage limits or a first-visit rule can
+ * leave some of a recurring series at full price.
+ */
+export async function redeemPromotion(
+  code: string,
+  bookingIds: string[]
+): Promise<{ bookingIds: string[]; discountAmount: number }> {
+  const { data, error } = await supabase.rpc('redeem_promotion', {
+    p_code: code.trim(),
+    p_booking_ids: bookingIds.map(Number),
+  });
+
+  if (error) throw toPromotionError(error);
+  const result = data as { booking_ids: number[]; discount_amount: number | string };
+  return {
+    bookingIds: result.booking_ids.map(String),
+    discountAmount: Number(result.discount_amount),
+  };
+}
@@ -14,6 +14,8 @@ interface DatabaseService {
   shop_id: string;
   image_url: string | null;
   rating: number | string | null;
+  deposit_type?: 'none' | 'fixed' | 'percentage';
+  deposit_value?: number | string;
   created_at: string | null;
   shop?: {
     id: string;
@@ -190,6 +192,8 @@ export async function getServices(): Promise<Service[]> {
         shop_address: service.shop?.address || '',
         image_url: getServiceImageUrl(service.image_url, service.name),
         rating: ratingData ? ratingData.rating : undefined, // Use actual ratings from ratings table
+        deposit_type: service.deposit_type ?? 'none',
+        deposit_value: Number(service.deposit_value ?? 0),
         created_at: service.created_at,
       };
     }) as Service[];
@@ -253,6 +257,8 @@ export async function getServiceById(id: string): Promise<Service | null> {
       shop_address: data.shop?.address || '',
       image_url: getServiceImageUrl(data.image_url, data.name),
       rating: ratingData ? ratingData.rating : undefined, // Use actual ratings from ratings table
+      deposit_type: data.deposit_type ?? 'none',
+      deposit_value: Number(data.deposit_value ?? 0),
       created_at: data.created_at,
     } as Service;
   } catch (err) {
@@ -0,0 +1,74 @@
+import { supabase } from '../../lib/supabase';
+import { getShopStaffIds } from '../../api/availability';
+import { getStaffSkills } from '../../api/staffSkills';
+import { canPerformService } from '../../utils/roster';
+import type { Stylist } from '../types';
+
+/**
+ * Average rating per stylist, from ratings left on bookings they served
+ */
+async function getStylistRatings(staffIds: string[]): Promise<Map<string, { rating: number; review_count: number }>> {
+  const result = new Map<string, { rating: number; review_count: number }>();
+
+  const { data: bookings, error: bookingsError } = await supabase
+    .from('bookings')
+    .select('id, staff_id')
+    .in('staff_id', staffIds)
+    .eq('status', 'completed');
+
+  if (bookingsError || !bookings || bookings.length === 0) return result;
+
+  const staffByBooking = new Map(bookings.map(b => [String(b.id), b.staff_id as string]));
+  const { data: ratings, error } = await supabase
+    .from('ratings')
+    .select('booking_id, rating')
+    .in('booking_id', bookings.map(b => b.id));
+
+  if (error || !ratings) return result;
+
+  const ratingsByStaff: Record<string, number[]> = {};
+  ratings.forEach(r => {
+    const staffId = staffByBooking.get(String(r.booking_id));
+    if (!staffId) return;
+    (ratingsByStaff[staffId] ||= []).push(r.rating || 0);
+  });
+
+  Object.entries(ratingsByStaff).forEach(([staffId, values]) => {
+    const average = values.reduce((sum, r) => sum + r, 0) / values.length;
+    result.set(staffId, { rating: Math.round(average * 10) / 10, review_count: values.length });
+  });
+
+  return result;
+}
+
+/**
+ * Get the stylists who can perform a service at its shop, best rated first
+ */
+export async function getServiceStylists(service: { id: string; shop_id: string }): Promise<Stylist[]> {
+  try {
+    const staffIds = await getShopStaffIds(service.shop_id);
+    if (staffIds.length === 0) return [];
+
+    const [skills, profilesResult, ratings] = await Promise.all([
+      getStaffSkills(staffIds),
+      supabase.from('profiles').select('id, name, email, profile_picture').in('id', staffIds),
+      getStylistRatings(staffIds),
+    ]);
+
+    if (profilesResult.error) throw profilesResult.error;
+
+    return (profilesResult.data || [])
+      .filter(profile => canPerformService(skills, profile.id, service.id))
+      .map(profile => ({
+        id: profile.id,
+        name: profile.name || profile.email?.split('@')[0] || 'Stylist',
+        avatar: profile.profile_picture || undefined,
+        rating: ratings.get(profile.id)?.rating ?? 0,
+        review_count: ratings.get(profile.id)?.review_count ?? 0,
+      }))
+      .sort((a, b) => b.rating - a.rating || b.review_count - a.review_count || a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Error fetching stylists:', error);
+    return [];
+  }
+}
@@ -0,0 +1,101 @@
+import { supabase } from '../../lib/supabase';
+import { isMissingSchemaError } from '../../lib/supabaseErrors';
+import { getBookingEndAt, getVisitSlots } from '../../api/availability';
+import type { Booking, BookingStatus, Service } from '../types';
+
+const SETUP_MESSAGE = 'Multi-service visits are not set up yet. Please run supabase-visits-setup.sql.';
+
+// A service in the cart, with the stylist the client asked for (null = any)
+export interface VisitItem {
+  service: Service;
+  staffId: string | null;
+}
+
+/**
+ * Book several services at one shop back-to-back, starting at `start`.
+ * All bookings share a visit_id so they can be confirmed and paid together.
+ */
+export async function bookVisit(params: {
+  shopId: string;
+  start: Date;
+  items: VisitItem[];
+  notes?: string;
+}): Promise<Booking[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  if (params.items.length === 0) throw new Error('Your visit has no services');
+  if (params.items.some(item => item.service.shop_id !== params.shopId)) {
+    throw new Error('All services in a visit must be at the same salon');
+  }
+  if (params.start <= new Date()) {
+    throw new Error('Cannot book appointments in the past. Please select a future time.');
+  }
+
+  // Re-check the whole visit right before writing it
+  const slots = await getVisitSlots({
+    shopId: params.shopId,
+    date: params.start,
+    services: params.items.map(item => ({
+      serviceId: item.service.id,
+      durationMinutes: item.service.duration,
+      staffId: item.staffId,
+    })),
+  });
+  const slot = slots.find(s => s.start.getTime() === params.start.getTime());
+  if (!slot?.available) {
+    throw new Error('This time is no longer available for your visit. Please select another time.');
+  }
+
+  const visitId = crypto.randomUUID();
+  let cursor = params.start;
+  const rows = params.items.map(item => {
+    const startAt = cursor;
+    const endAt = getBookingEndAt(startAt, item.service.duration);
+    cursor = new Date(endAt);
+    return {
+      client_id: user.id,
+      service_id: item.service.id,
+      shop_id: params.shopId,
+      staff_id: item.staffId,
+      start_at: startAt.toISOString(),
+      end_at: endAt,
+      status: 'pending' as BookingStatus,
+      notes: params.notes || null,
+      visit_id: visitId,
+    };
+  });
+
+  const { data, error } = await supabase
+    .from('bookings')
+    .insert(rows)
+    .select(`
+      *,
+      service:services(*),
+      shop:shops(*)
+    `)
+    .order('start_at', { ascending: true });
+
+  if (error) {
+    console.error('Visit booking error:', error);
+    if (
+      error.code === 'P0001' &&
+      typeof error.message === 'string' &&
+      error.message.includes('DAILY_APPOINTMENT_LIMIT_REACHED')
+    ) {
+      throw new Error('This salon has reached the daily booking limit (100 appointments). Please choose another date.');
+    }
+    if (isMissingSchemaError(error)) throw new Error(SETUP_MESSAGE);
+    throw error;
+  }
+
+  return (data || []).map(booking => ({
+    ...booking,
+    id: String(booking.id),
+    user_id: booking.client_id,
+    shop_id: String(booking.shop_id),
+    date_time: booking.start_at,
+    service_id: String(booking.service_id),
+    shop: booking.shop ? { ...booking.shop, id: String(booking.shop.id) } : undefined,
+  })) as Booking[];
+}
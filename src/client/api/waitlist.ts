@@ -0,0 +1,135 @@
+import { supabase } from '../../lib/supabase';
+import { isMissingSchemaError } from '../../lib/supabaseErrors';
+import { createBooking } from './bookings';
+import type { Booking } from '../types';
+import type { WaitlistEntry, WaitlistEntryInsert } from '../../types/multiTenancy';
+
+const SETUP_MESSAGE = 'The waitlist is not set up yet. Please run supabase-waitlist-setup.sql.';
+
+export async function joinWaitlist(entry: WaitlistEntryInsert): Promise<WaitlistEntry> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  if (entry.date_to < entry.date_from) {
+    throw new Error('End date cannot be before start date');
+  }
+
+  const { data: existing } = await supabase
+    .from('waitlist_entries')
+    .select('id')
+    .eq('client_id', user.id)
+    .eq('shop_id', entry.shop_id)
+    .eq('service_id', entry.service_id)
+    .in('status', ['waiting', 'offered'])
+    .lte('date_from', entry.date_to)
+    .gte('date_to', entry.date_from)
+    .limit(1);
+
+  if (existing && existing.length > 0) {
+    throw new Error("You're already on the waitlist for these dates");
+  }
+
+  const { data: shop } = await supabase
+    .from('shops')
+    .select('organization_id')
+    .eq('id', entry.shop_id)
+    .maybeSingle();
+
+  const { data, error } = await supabase
+    .from('waitlist_entries')
+    .insert({
+      client_id: user.id,
+      organization_id: shop?.organization_id ?? null,
+      shop_id: entry.shop_id,
+      service_id: entry.service_id,
+      staff_id: entry.staff_id ?? null,
+      date_from: entry.date_from,
+      date_to: entry.date_to,
+      status: 'waiting',
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (isMissingSchemaError(error)) throw new Error(SETUP_MESSAGE);
+    throw error;
+  }
+
+  return data as WaitlistEntry;
+}
+
+export async function getMyWaitlistEntries(): Promise<WaitlistEntry[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('waitlist_entries')
+    .select('*')
+    .eq('client_id', user.id)
+    .in('status', ['waiting', 'offered'])
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    if (!isMissingSchemaError(error)) {
+      console.error('Error fetching waitlist entries:', error);
+    }
+    return [];
+  }
+
+  return (data || []) as WaitlistEntry[];
+}
+
+export async function leaveWaitlist(entryId: string): Promise<void> {
+  const { error } = await supabase
+    .from('waitlist_entries')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('id', entryId);
+
+  if (error) throw error;
+}
+
+/**
+ * Book the slot a waitlist offer is holding. The hold keeps the slot out of
+ * everyone else's availability, so no further availability check is needed.
+ */
+export async function claimWaitlistOffer(entryId: string): Promise<Booking> {
+  const { data: entry, error } = await supabase
+    .from('waitlist_entries')
+    .select('*')
+    .eq('id', entryId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!entry) throw new Error('Waitlist offer not found');
+
+  const offer = entry as WaitlistEntry;
+  if (offer.status === 'booked') {
+    throw new Error("You've already booked this slot");
+  }
+  if (offer.status !== 'offered' || !offer.offered_start_at || !offer.offer_expires_at) {
+    throw new Error('This offer is no longer available');
+  }
+  if (new Date(offer.offer_expires_at) <= new Date()) {
+    throw new Error('Sorry, this offer has expired and the slot was passed on');
+  }
+
+  const booking = await createBooking({
+    service_id: offer.service_id,
+    shop_id: offer.shop_id,
+    date_time: offer.offered_start_at,
+    end_at: offer.offered_end_at ?? undefined,
+    staff_id: offer.offered_staff_id ?? undefined,
+    notes: 'Booked from waitlist',
+  });
+
+  const { error: updateError } = await supabase
+    .from('waitlist_entries')
+    .update({ status: 'booked', booking_id: booking.id, updated_at: new Date().toISOString() })
+    .eq('id', offer.id);
+
+  if (updateError) {
+    console.error('Error marking waitlist entry as booked:', updateError);
+  }
+
+  return booking;
+}
@@ -3,6 +3,7 @@ import { X, Calendar, Clock, MapPin, CheckCircle, XCircle, Star, Trash2, Scissor
 import type { Booking } from '../types';
 import { getBookingRating, hasRatedBooking } from '../api/ratings';
 import type { Rating } from '../api/ratings';
+import { formatBookingStatus } from '../../utils/bookingPolicy';
 
 // Component for service image thumbnail with fallback
 function ServiceImageThumbnail({ imageUrl, serviceName }: { imageUrl?: string; serviceName: string }) {
@@ -78,6 +79,8 @@ export function AppointmentDetailsModal({ isOpen, booking, onClose, onRate, onDe
         return 'bg-blue-100 text-blue-800';
       case 'cancelled':
         return 'bg-red-100 text-red-800';
+      case 'no_show':
+        return 'bg-gray-200 text-gray-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -88,6 +91,7 @@ export function AppointmentDetailsModal({ isOpen, booking, onClose, onRate, onDe
       case 'confirmed':
         return <CheckCircle className="w-4 h-4" />;
       case 'cancelled':
+      case 'no_show':
         return <XCircle className="w-4 h-4" />;
       default:
         return <Clock className="w-4 h-4" />;
@@ -121,7 +125,7 @@ export function AppointmentDetailsModal({ isOpen, booking, onClose, onRate, onDe
                 </p>
                 <span className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(booking.status)}`}>
                   {getStatusIcon(booking.status)}
-                  <span className="capitalize">{booking.status}</span>
+                  <span className="capitalize">{formatBookingStatus(booking.status)}</span>
                 </span>
               </div>
               <div className="text-right">
@@ -179,6 +183,18 @@ export function AppointmentDetailsModal({ isOpen, booking, onClose, onRate, onDe
             </div>
           )}
 
+          {/* Cancellation / no-show details */}
+          {(booking.status === 'cancelled' || booking.status === 'no_show') && (booking.cancellation_reason || Number(booking.cancellation_fee) > 0) && (
+            <div className="mb-6 p-4 bg-red-50 rounded-xl border border-red-100 text-sm text-gray-700 space-y-1">
+              {booking.cancellation_reason && <p>Reason: {booking.cancellation_reason}</p>}
+              {Number(booking.cancellation_fee) > 0 && (
+                <p className="font-medium text-red-700">
+                  {booking.status === 'no_show' ? 'No-show' : 'Late cancellation'} fee: ₱{Number(booking.cancellation_fee).toLocaleString()}
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Rating Display (if already rated) */}
           {booking.status === 'completed' && rating && (
             <div className="mb-6 p-4 bg-yellow-50 rounded-xl border border-yellow-200">
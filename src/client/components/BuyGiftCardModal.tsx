@@ -0,0 +1,271 @@
+import { useMemo, useState } from 'react';
+import { X, Gift, Copy } from 'lucide-react';
+import { useClient } from '../context/ClientContext';
+import { buyGiftCard } from '../api/giftCards';
+import { getPaymentProvider, type PaymentMethodType } from '../../services/payments';
+import { glamError, glamSuccess } from '../../lib/glamAlerts';
+import type { GiftCard } from '../../types/multiTenancy';
+
+interface BuyGiftCardModalProps {
+  onClose: () => void;
+  onPurchased: (card: GiftCard) => void;
+}
+
+const PRESET_AMOUNTS = [500, 1000, 2000, 5000];
+
+// The local mock gateway never moves real money
+const TEST_MODE = getPaymentProvider().name === 'mock';
+
+export function BuyGiftCardModal({ onClose, onPurchased }: BuyGiftCardModalProps) {
+  const { shops } = useClient();
+  const [organizationId, setOrganizationId] = useState('');
+  const [amount, setAmount] = useState('1000');
+  const [recipientName, setRecipientName] = useState('');
+  const [recipientEmail, setRecipientEmail] = useState('');
+  const [message, setMessage] = useState('');
+  const [method, setMethod] = useState<PaymentMethodType>('card');
+  const [cardLast4, setCardLast4] = useState('');
+  const [walletAccount, setWalletAccount] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [purchased, setPurchased] = useState<GiftCard | null>(null);
+
+  // A gift card is good at every branch of the salon that sold it
+  const salons = useMemo(() => {
+    const byOrganization = new Map<string, string[]>();
+    shops.forEach(shop => {
+      if (!shop.organization_id) return;
+      byOrganization.set(shop.organization_id, [...(byOrganization.get(shop.organization_id) || []), shop.name]);
+    });
+    return Array.from(byOrganization, ([id, names]) => ({ id, label: names.join(' / ') }));
+  }, [shops]);
+
+  const handleBuy = async () => {
+    if (saving) return;
+    const value = parseFloat(amount);
+    if (!organizationId) {
+      glamError('Choose a salon');
+      return;
+    }
+    if (!(value >= 100 && value <= 50000)) {
+      glamError('Gift cards can be from ₱100 to ₱50,000');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const card = await buyGiftCard({
+        organizationId,
+        amount: value,
+        recipientName: recipientName.trim(),
+        recipientEmail: recipientEmail.trim(),
+        message: message.trim(),
+        method,
+        card: method === 'card' ? { last4: cardLast4 } : undefined,
+        wallet: method !== 'card' ? { accountIdentifier: walletAccount.trim() } : undefined,
+      });
+      setPurchased(card);
+      onPurchased(card);
+    } catch (error) {
+      console.error('Error buying gift card:', error);
+      glamError(error instanceof Error ? error.message : 'Failed to buy gift card');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopy = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(code);
+      glamSuccess('Code copied');
+    } catch {
+      glamError('Could not copy the code');
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-pink-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto p-6 relative">
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">{purchased ? 'Your gift card' : 'Buy a gift card'}</h2>
+            <p className="text-sm text-gray-600">
+              {purchased
+                ? 'Share this code. It can be used online or at the salon.'
+                : TEST_MODE
+                  ? 'Test mode — no real money is charged.'
+                  : 'You will be charged once you continue.'}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors" aria-label="Close">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {purchased ? (
+          <>
+            <div className="rounded-2xl bg-gradient-to-br from-pink-500 via-purple-500 to-pink-600 p-6 text-white">
+              <Gift className="w-8 h-8 mb-4" />
+              <p className="text-sm opacity-90">{purchased.recipient_name ? `For ${purchased.recipient_name}` : 'Gift card'}</p>
+              <p className="text-3xl font-bold">₱{purchased.balance.toLocaleString()}</p>
+              <div className="mt-4 flex items-center gap-2">
+                <span className="font-mono text-lg font-semibold tracking-wider">{purchased.code}</span>
+                <button
+                  type="button"
+                  onClick={() => handleCopy(purchased.code)}
+                  className="p-1.5 hover:bg-white/20 rounded-lg"
+                  aria-label="Copy code"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+              </div>
+              {purchased.expires_at && (
+                <p className="mt-2 text-xs opacity-80">Valid until {new Date(purchased.expires_at).toLocaleDateString()}</p>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="mt-5 w-full bg-gradient-to-r from-pink-500 to-pink-600 text-white py-3 rounded-xl font-semibold hover:from-pink-600 hover:to-pink-700 transition-all shadow-md hover:shadow-lg"
+            >
+              Done
+            </button>
+          </>
+        ) : (
+          <>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-semibold text-gray-900 mb-1">Salon</label>
+                <select
+                  value={organizationId}
+                  onChange={(e) => setOrganizationId(e.target.value)}
+                  disabled={saving}
+                  className={inputClass}
+                >
+                  <option value="">Choose a salon</option>
+                  {salons.map(salon => (
+                    <option key={salon.id} value={salon.id}>{salon.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-900 mb-1">Amount</label>
+                <div className="grid grid-cols-4 gap-2 mb-2">
+                  {PRESET_AMOUNTS.map(preset => (
+                    <button
+                      key={preset}
+                      type="button"
+                      onClick={() => setAmount(preset.toString())}
+                      disabled={saving}
+                      className={`py-2 rounded-xl border text-sm font-semibold transition-all ${
+                        amount === preset.toString() ? 'border-pink-300 bg-pink-50 text-pink-600' : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      ₱{preset.toLocaleString()}
+                    </button>
+                  ))}
+                </div>
+                <input
+                  type="number"
+                  min="100"
+                  max="50000"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  disabled={saving}
+                  className={inputClass}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-semibold text-gray-900 mb-1">Recipient Name</label>
+                  <input
+                    value={recipientName}
+                    onChange={(e) => setRecipientName(e.target.value)}
+                    disabled={saving}
+                    placeholder="Optional"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-900 mb-1">Recipient Email</label>
+                  <input
+                    type="email"
+                    value={recipientEmail}
+                    onChange={(e) => setRecipientEmail(e.target.value)}
+                    disabled={saving}
+                    placeholder="Optional"
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-900 mb-1">Message</label>
+                <textarea
+                  rows={2}
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  disabled={saving}
+                  placeholder="Happy birthday!"
+                  className={inputClass}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-900 mb-1">Pay With</label>
+                <select
+                  value={method}
+                  onChange={(e) => setMethod(e.target.value as PaymentMethodType)}
+                  disabled={saving}
+                  className={inputClass}
+                >
+                  <option value="card">Debit / credit card</option>
+                  <option value="gcash">Gcash</option>
+                  <option value="maya">Maya</option>
+                  <option value="paypal">PayPal</option>
+                </select>
+              </div>
+
+              {method === 'card' ? (
+                <div>
+                  <label className="block text-sm font-semibold text-gray-900 mb-1">Card Last 4 Digits</label>
+                  <input
+                    value={cardLast4}
+                    onChange={(e) => setCardLast4(e.target.value.replace(/\D/g, '').slice(0, 4))}
+                    disabled={saving}
+                    inputMode="numeric"
+                    placeholder="1234"
+                    className={inputClass}
+                  />
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-semibold text-gray-900 mb-1">Account Identifier</label>
+                  <input
+                    value={walletAccount}
+                    onChange={(e) => setWalletAccount(e.target.value)}
+                    disabled={saving}
+                    placeholder="e.g., phone number / email"
+                    className={inputClass}
+                  />
+                </div>
+              )}
+            </div>
+
+            <button
+              type="button"
+              onClick={handleBuy}
+              disabled={saving}
+              className="mt-5 w-full bg-gradient-to-r from-pink-500 to-pink-600 text-white py-3 rounded-xl font-semibold hover:from-pink-600 hover:to-pink-700 transition-all shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Processing payment…' : `Pay ₱${(parseFloat(amount) || 0).toLocaleString()}`}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react';
+import { Gift, Plus } from 'lucide-react';
+import { getMyGiftCards } from '../api/giftCards';
+import { BuyGiftCardModal } from './BuyGiftCardModal';
+import type { GiftCard } from '../../types/multiTenancy';
+
+// Gift cards the client has bought, with a way to buy another
+export function MyGiftCards() {
+  const [cards, setCards] = useState<GiftCard[]>([]);
+  const [showBuyModal, setShowBuyModal] = useState(false);
+
+  useEffect(() => {
+    getMyGiftCards()
+      .then(setCards)
+      .catch(error => console.error('Error loading gift cards:', error));
+  }, []);
+
+  return (
+    <div className="bg-white rounded-3xl shadow-xl border border-pink-100/50 p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Gift className="w-5 h-5 text-pink-600" />
+          <h3 className="text-lg font-bold text-gray-900">Gift Cards</h3>
+        </div>
+        <button
+          onClick={() => setShowBuyModal(true)}
+          className="flex items-center gap-1 px-4 py-2 bg-gradient-to-r from-pink-500 to-pink-600 text-white rounded-xl text-sm font-semibold hover:from-pink-600 hover:to-pink-700 transition-all shadow-md"
+        >
+          <Plus className="w-4 h-4" />
+          Buy
+        </button>
+      </div>
+
+      {cards.length === 0 ? (
+        <p className="text-sm text-gray-500">Treat someone to a salon visit. Gift cards can be used online or at the counter.</p>
+      ) : (
+        <div className="space-y-2">
+          {cards.map(card => (
+            <div
+              key={card.id}
+              className="flex items-center justify-between gap-4 p-4 bg-gradient-to-r from-pink-50 to-purple-50 rounded-2xl border border-pink-100/50"
+            >
+              <div className="min-w-0">
+                <p className="font-mono font-semibold text-gray-900">{card.code}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {card.organization?.name || 'Salon'}
+                  {card.recipient_name ? ` · for ${card.recipient_name}` : ''}
+                  {card.expires_at ? ` · until ${new Date(card.expires_at).toLocaleDateString()}` : ''}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="font-bold text-pink-600">₱{card.balance.toLocaleString()}</p>
+                {card.status === 'void' && <p className="text-xs text-red-500">Void</p>}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showBuyModal && (
+        <BuyGiftCardModal
+          onClose={() => setShowBuyModal(false)}
+          onPurchased={card => setCards(prev => [card, ...prev])}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { Award } from 'lucide-react';
+import { getMyLoyalty } from '../api/loyalty';
+import { getNextLoyaltyTier } from '../../utils/loyalty';
+import type { LoyaltyAccount } from '../../types/multiTenancy';
+
+// Points balance and tier at each salon the client has earned with
+export function MyLoyalty() {
+  const [accounts, setAccounts] = useState<LoyaltyAccount[]>([]);
+
+  useEffect(() => {
+    getMyLoyalty()
+      .then(setAccounts)
+      .catch(error => console.error('Error loading loyalty points:', error));
+  }, []);
+
+  return (
+    <div className="bg-white rounded-3xl shadow-xl border border-pink-100/50 p-6 mb-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Award className="w-5 h-5 text-pink-600" />
+        <h3 className="text-lg font-bold text-gray-900">Loyalty Points</h3>
+      </div>
+
+      {accounts.length === 0 ? (
+        <p className="text-sm text-gray-500">Earn points on every completed visit and use them for money off your next booking.</p>
+      ) : (
+        <div className="space-y-3">
+          {accounts.map(account => {
+            const next = getNextLoyaltyTier(account.lifetime_points, account.program.tiers);
+            const perks = account.program.tiers.find(t => t.tier === account.tier)?.perks ?? [];
+            const progress = next
+              ? Math.min(100, (account.lifetime_points / next.tier.min_points) * 100)
+              : 100;
+            return (
+              <div
+                key={account.organization_id}
+                className="p-4 bg-gradient-to-r from-pink-50 to-purple-50 rounded-2xl border border-pink-100/50"
+              >
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-semibold text-gray-900 truncate">{account.organization_name || 'Salon'}</p>
+                    <p className="text-xs font-semibold text-purple-600">{account.tier} member</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-bold text-pink-600">{account.balance.toLocaleString()} pts</p>
+                    <p className="text-xs text-gray-500">
+                      worth ₱{(account.balance * account.program.peso_per_point).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="mt-3">
+                  <div className="w-full bg-white rounded-full h-2">
+                    <div className="bg-gradient-to-r from-pink-500 to-purple-500 h-2 rounded-full" style={{ width: `${progress}%` }} />
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {next
+                      ? `${next.pointsNeeded.toLocaleString()} more points to ${next.tier.tier}`
+                      : 'Top tier reached'}
+                  </p>
+                </div>
+
+                {perks.length > 0 && (
+                  <p className="text-xs text-gray-600 mt-2">Perks: {perks.join(' · ')}</p>
+                )}
+                {account.program.points_expire_days && (
+                  <p className="text-xs text-gray-400 mt-1">
+                    Points expire {account.program.points_expire_days} days after they're earned.
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
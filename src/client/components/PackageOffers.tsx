@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { Package, MapPin, CheckCircle } from 'lucide-react';
+import { getActivePackages, getMyPackages, purchasePackage } from '../api/packages';
+import { glamConfirm, glamError, glamSuccess } from '../../lib/glamAlerts';
+import {
+  PACKAGE_KIND_LABELS,
+  formatPackageItems,
+  getPackagePricing,
+  getTotalRemainingUses,
+  isClientPackageExpired,
+} from '../../utils/packages';
+import type { ClientPackage, ServicePackage } from '../../types/multiTenancy';
+
+interface PackageOffersProps {
+  searchQuery: string;
+}
+
+// Packages on sale, shown above the services list on the explore screen
+export function PackageOffers({ searchQuery }: PackageOffersProps) {
+  const [packages, setPackages] = useState<ServicePackage[]>([]);
+  const [myPackages, setMyPackages] = useState<ClientPackage[]>([]);
+  const [buyingId, setBuyingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getActivePackages()
+      .then(setPackages)
+      .catch(error => console.error('Error loading packages:', error));
+    getMyPackages()
+      .then(setMyPackages)
+      .catch(error => console.error('Error loading my packages:', error));
+  }, []);
+
+  const handleBuy = async (pkg: ServicePackage) => {
+    const ok = await glamConfirm({
+      title: `Buy ${pkg.name}?`,
+      text: `₱${pkg.price.toLocaleString()} — pay at ${pkg.shop?.name || 'the salon'} on your first visit. ` +
+        'Your sessions are used up as each package appointment is completed.',
+      confirmText: 'Buy package',
+    });
+    if (!ok) return;
+
+    try {
+      setBuyingId(pkg.id);
+      await purchasePackage(pkg.id);
+      setMyPackages(await getMyPackages());
+      glamSuccess('Package added! Choose it when you book a covered service.');
+    } catch (error) {
+      glamError(error instanceof Error ? error.message : 'Failed to buy package');
+    } finally {
+      setBuyingId(null);
+    }
+  };
+
+  // Uses left on the client's live purchases of a package
+  const getUsesLeft = (packageId: string): number =>
+    myPackages
+      .filter(cp => cp.package_id === packageId && cp.status === 'active' && !isClientPackageExpired(cp))
+      .reduce((sum, cp) => sum + getTotalRemainingUses(cp), 0);
+
+  const query = searchQuery.toLowerCase();
+  const visiblePackages = packages.filter(pkg =>
+    pkg.name.toLowerCase().includes(query) ||
+    (pkg.shop?.name || '').toLowerCase().includes(query) ||
+    pkg.items.some(item => item.service?.name.toLowerCase().includes(query))
+  );
+
+  if (visiblePackages.length === 0) return null;
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center gap-2 mb-4">
+        <Package className="w-5 h-5 text-pink-600" />
+        <h2 className="text-lg font-bold text-gray-900">Packages & Bundles</h2>
+      </div>
+      <div className="flex gap-4 overflow-x-auto pb-2 scrollbar-hide">
+        {visiblePackages.map(pkg => {
+          const pricing = getPackagePricing(pkg);
+          const usesLeft = getUsesLeft(pkg.id);
+          return (
+            <div
+              key={pkg.id}
+              className="min-w-[280px] max-w-[320px] bg-white rounded-2xl shadow-sm border border-pink-100 p-5 flex flex-col"
+            >
+              <div className="flex items-start justify-between gap-2 mb-2">
+                <h3 className="font-bold text-gray-900">{pkg.name}</h3>
+                <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-purple-100 text-purple-700 whitespace-nowrap">
+                  {PACKAGE_KIND_LABELS[pkg.kind]}
+                </span>
+              </div>
+              <p className="text-sm text-gray-600 mb-2">{formatPackageItems(pkg.items)}</p>
+              {pkg.description && <p className="text-xs text-gray-500 mb-2 line-clamp-2">{pkg.description}</p>}
+              <div className="flex items-center gap-1 text-xs text-gray-500 mb-3">
+                <MapPin className="w-3 h-3 text-pink-500" />
+                <span className="truncate">{pkg.shop?.name}</span>
+                {pkg.validity_days && <span>· valid {pkg.validity_days} days</span>}
+              </div>
+
+              <div className="flex-grow"></div>
+
+              <div className="flex items-end justify-between pt-3 border-t border-gray-100">
+                <div>
+                  <p className="text-xl font-bold text-pink-600">₱{pkg.price.toLocaleString()}</p>
+                  {pricing.savings > 0 && (
+                    <p className="text-xs">
+                      <span className="text-gray-400 line-through">₱{pricing.regularPrice.toLocaleString()}</span>
+                      <span className="text-green-600 font-semibold ml-1">Save {pricing.savingsPercent}%</span>
+                    </p>
+                  )}
+                </div>
+                {usesLeft > 0 ? (
+                  <span className="flex items-center gap-1 text-sm font-medium text-green-600">
+                    <CheckCircle className="w-4 h-4" />
+                    {usesLeft} session{usesLeft !== 1 ? 's' : ''} left
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => handleBuy(pkg)}
+                    disabled={buyingId === pkg.id}
+                    className="bg-gradient-to-r from-pink-500 to-purple-600 text-white px-4 py-2 rounded-lg font-semibold text-sm hover:shadow-md transition-all disabled:opacity-50"
+                  >
+                    {buyingId === pkg.id ? 'Buying...' : 'Buy package'}
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useMemo, useState } from 'react';
-import { Banknote, CreditCard, Smartphone, ChevronLeft } from 'lucide-react';
+import { Banknote, CreditCard, Smartphone, ChevronLeft, Gift } from 'lucide-react';
 import { useClient } from '../context/ClientContext';
 import {
   setBookingPaymentMethod,
@@ -7,20 +7,35 @@ import {
   type ClientPaymentMethod,
   type MockPaymentDetails,
 } from '../api/bookings';
-import { glamError } from '../../lib/glamAlerts';
+import { redeemGiftCard } from '../api/giftCards';
+import { getGiftCardBalance } from '../../api/giftCards';
+import { payBookingDeposits, payForBookings } from '../../api/payments';
+import { getPaymentProvider } from '../../services/payments';
+import { formatPaymentFailure } from '../../utils/payments';
+import { glamError, glamInfo, glamSuccess } from '../../lib/glamAlerts';
+import type { GiftCardBalance } from '../../types/multiTenancy';
 
 interface PaymentMethodModalProps {
-  bookingId: string;
+  bookingIds: string[]; // Every booking in the visit is paid the same way
   onDone: () => void;
+  depositAmount?: number; // Collect this deposit now instead of choosing how to pay the bill
+  onPayLater?: () => void; // Deposit mode only: leave the booking pending for now
 }
 
-export function PaymentMethodModal({ bookingId, onDone }: PaymentMethodModalProps) {
+// The local mock gateway never moves real money
+const TEST_MODE = getPaymentProvider().name === 'mock';
+
+export function PaymentMethodModal({ bookingIds, onDone, depositAmount, onPayLater }: PaymentMethodModalProps) {
+  const isDeposit = depositAmount !== undefined;
   const { refreshBookings } = useClient();
   const [selected, setSelected] = useState<ClientPaymentMethod | null>(null);
   const [saving, setSaving] = useState(false);
   const [step, setStep] = useState<'method' | 'details'>('method');
   const [onlineProvider, setOnlineProvider] = useState<'gcash' | 'maya' | 'paypal'>('gcash');
   const [form, setForm] = useState<MockPaymentDetails>({});
+  const [giftCardCode, setGiftCardCode] = useState('');
+  const [giftCardBalance, setGiftCardBalance] = useState<GiftCardBalance | null | undefined>(undefined);
+  const [checkingBalance, setCheckingBalance] = useState(false);
 
   const options = useMemo(
     () =>
@@ -43,8 +58,14 @@ export function PaymentMethodModal({ bookingId, onDone }: PaymentMethodModalProp
           description: 'Debit cards (and similar)',
           Icon: CreditCard,
         },
-      ],
-    []
+        {
+          value: 'gift_card' as const,
+          title: 'Gift card',
+          description: 'Use the balance on a salon gift card',
+          Icon: Gift,
+        },
+      ].filter(option => !isDeposit || option.value !== 'cash'), // A deposit is paid up front
+    [isDeposit]
   );
 
   const handleContinueFromMethod = async () => {
@@ -53,7 +74,7 @@ export function PaymentMethodModal({ bookingId, onDone }: PaymentMethodModalProp
     if (selected === 'cash') {
       try {
         setSaving(true);
-        await setBookingPaymentMethod(bookingId, selected);
+        await Promise.all(bookingIds.map(id => setBookingPaymentMethod(id, selected)));
         await refreshBookings();
         onDone();
       } catch (error) {
@@ -68,8 +89,64 @@ export function PaymentMethodModal({ bookingId, onDone }: PaymentMethodModalProp
     setStep('details');
   };
 
+  const handleCheckBalance = async () => {
+    if (!giftCardCode.trim() || checkingBalance) return;
+
+    try {
+      setCheckingBalance(true);
+      setGiftCardBalance(await getGiftCardBalance(giftCardCode));
+    } catch (error) {
+      console.error('Error checking gift card balance:', error);
+      glamError(error instanceof Error ? error.message : 'Failed to check gift card balance');
+    } finally {
+      setCheckingBalance(false);
+    }
+  };
+
+  const handleRedeemGiftCard = async () => {
+    if (!giftCardCode.trim() || saving) return;
+
+    try {
+      setSaving(true);
+      const result = await redeemGiftCard(giftCardCode, bookingIds, isDeposit ? 'deposit' : 'payment');
+      await refreshBookings();
+
+      // Whatever the card didn't cover is paid another way
+      if (result.remaining > 0) {
+        glamInfo(
+          `₱${result.applied.toFixed(2)} was paid from your gift card. Choose how to pay the remaining ₱${result.remaining.toFixed(2)}.`
+        );
+        setSelected(null);
+        setGiftCardCode('');
+        setGiftCardBalance(undefined);
+        setStep('method');
+        return;
+      }
+
+      if (!isDeposit) {
+        await Promise.all(bookingIds.map(async id => {
+          await setBookingPaymentMethod(id, 'gift_card');
+          await upsertMockPaymentDetails(id, 'gift_card', { reference: giftCardCode.trim().toUpperCase() });
+        }));
+      }
+      glamSuccess(
+        `${isDeposit ? 'Deposit paid' : 'Payment received'}. ₱${result.balance.toFixed(2)} is left on your gift card.`
+      );
+      onDone();
+    } catch (error) {
+      console.error('Error redeeming gift card:', error);
+      glamError(error instanceof Error ? error.message : 'Failed to redeem gift card');
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleSaveDetails = async () => {
     if (!selected || selected === 'cash' || saving) return;
+    if (selected === 'gift_card') {
+      await handleRedeemGiftCard();
+      return;
+    }
 
     try {
       setSaving(true);
@@ -88,13 +165,45 @@ export function PaymentMethodModal({ bookingId, onDone }: PaymentMethodModalProp
               cardExpiry: form.cardExpiry?.trim() || undefined,
             };
 
-      await setBookingPaymentMethod(bookingId, selected);
-      await upsertMockPaymentDetails(bookingId, selected, details);
+      const [expiryMonth, expiryYear] = (details.cardExpiry || '').split('/');
+      const pay = isDeposit ? payBookingDeposits : payForBookings;
+      const payments = await pay({
+        bookingIds,
+        method: selected === 'online' ? onlineProvider : 'card',
+        card: selected === 'visa'
+          ? {
+              last4: details.cardLast4 || '',
+              brand: 'visa',
+              expMonth: parseInt(expiryMonth, 10) || null,
+              expYear: parseInt(expiryYear, 10) ? 2000 + parseInt(expiryYear, 10) : null,
+            }
+          : undefined,
+        wallet: selected === 'online' ? { accountIdentifier: details.accountIdentifier || '' } : undefined,
+      });
+
+      const failed = payments.find(payment => payment.status === 'failed');
+      if (failed) {
+        glamError(formatPaymentFailure(failed.failure_reason));
+        return;
+      }
+
+      // The bill's payment method is chosen separately after the deposit
+      if (!isDeposit) {
+        await Promise.all(bookingIds.map(async id => {
+          await setBookingPaymentMethod(id, selected);
+          await upsertMockPaymentDetails(id, selected, details);
+        }));
+      }
       await refreshBookings();
+      if (payments.some(payment => payment.status !== 'completed')) {
+        glamInfo("Your payment is still processing. We'll update your booking once it clears.");
+      } else {
+        glamSuccess(isDeposit ? 'Deposit paid' : 'Payment received');
+      }
       onDone();
     } catch (error) {
-      console.error('Error saving mock payment details:', error);
-      glamError(error instanceof Error ? error.message : 'Failed to save payment details');
+      console.error('Error processing payment:', error);
+      glamError(error instanceof Error ? error.message : 'Failed to process payment');
     } finally {
       setSaving(false);
     }
@@ -106,12 +215,16 @@ export function PaymentMethodModal({ bookingId, onDone }: PaymentMethodModalProp
         <div className="flex items-start justify-between gap-4 mb-4">
           <div>
             <h2 className="text-xl font-bold text-gray-900">
-              {step === 'method' ? 'Choose payment method' : 'Enter mock payment details'}
+              {isDeposit ? 'Pay your deposit' : step === 'method' ? 'Choose payment method' : 'Enter payment details'}
             </h2>
             <p className="text-sm text-gray-600">
               {step === 'method'
-                ? 'Select how you’ll pay for this appointment.'
-                : 'This is a placeholder only (not used for real payments).'}
+                ? isDeposit
+                  ? `A ₱${depositAmount.toFixed(2)} deposit is needed before the salon can confirm ${bookingIds.length > 1 ? 'these appointments' : 'this appointment'}. It comes off your final bill.`
+                  : `Select how you’ll pay for ${bookingIds.length > 1 ? `these ${bookingIds.length} services` : 'this appointment'}.`
+                : TEST_MODE
+                  ? 'Test mode — no real money is charged.'
+                  : 'You will be charged once you continue.'}
             </p>
           </div>
         </div>
@@ -129,6 +242,8 @@ export function PaymentMethodModal({ bookingId, onDone }: PaymentMethodModalProp
                       setSelected(value);
                       setForm({});
                       setOnlineProvider('gcash');
+                      setGiftCardCode('');
+                      setGiftCardBalance(undefined);
                     }}
                     disabled={saving}
                     className={`w-full text-left p-4 rounded-xl border transition-all flex items-start gap-3 disabled:opacity-50 disabled:cursor-not-allowed ${
@@ -170,6 +285,16 @@ export function PaymentMethodModal({ bookingId, onDone }: PaymentMethodModalProp
             >
               {saving ? 'Saving…' : 'Continue'}
             </button>
+            {isDeposit && onPayLater && (
+              <button
+                type="button"
+                onClick={onPayLater}
+                disabled={saving}
+                className="mt-2 w-full py-2 text-sm font-semibold text-gray-600 hover:text-gray-800 disabled:opacity-50"
+              >
+                Pay deposit later
+              </button>
+            )}
           </>
         ) : (
           <>
@@ -184,7 +309,49 @@ export function PaymentMethodModal({ bookingId, onDone }: PaymentMethodModalProp
             </button>
 
             <div className="mt-3 space-y-4">
-              {selected === 'online' ? (
+              {selected === 'gift_card' ? (
+                <div>
+                  <label className="block text-sm font-semibold text-gray-900 mb-1">Gift Card Code</label>
+                  <div className="flex gap-2">
+                    <input
+                      value={giftCardCode}
+                      onChange={(e) => {
+                        setGiftCardCode(e.target.value.toUpperCase());
+                        setGiftCardBalance(undefined);
+                      }}
+                      disabled={saving}
+                      placeholder="XXXX-XXXX-XXXX"
+                      className="flex-1 px-4 py-3 border border-gray-200 rounded-xl font-mono focus:outline-none focus:ring-2 focus:ring-pink-500"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleCheckBalance}
+                      disabled={!giftCardCode.trim() || checkingBalance || saving}
+                      className="px-4 py-3 border border-pink-200 text-pink-600 hover:bg-pink-50 rounded-xl text-sm font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {checkingBalance ? 'Checking…' : 'Balance'}
+                    </button>
+                  </div>
+                  {giftCardBalance === null && (
+                    <p className="mt-2 text-sm text-red-600">No gift card matches that code.</p>
+                  )}
+                  {giftCardBalance && (
+                    <p className="mt-2 text-sm text-gray-600">
+                      {giftCardBalance.status === 'active'
+                        ? `₱${giftCardBalance.balance.toFixed(2)} available at ${giftCardBalance.organization_name}`
+                        : 'This gift card is not active.'}
+                      {giftCardBalance.status === 'active' && giftCardBalance.expires_at
+                        ? ` · expires ${new Date(giftCardBalance.expires_at).toLocaleDateString()}`
+                        : ''}
+                    </p>
+                  )}
+                  <p className="mt-2 text-xs text-gray-500">
+                    {isDeposit
+                      ? 'The card needs to cover the whole deposit.'
+                      : "If the card doesn't cover everything, you can pay the rest another way."}
+                  </p>
+                </div>
+              ) : selected === 'online' ? (
                 <>
                   <div>
                     <label className="block text-sm font-semibold text-gray-900 mb-1">Provider</label>
@@ -270,9 +437,12 @@ export function PaymentMethodModal({ bookingId, onDone }: PaymentMethodModalProp
                     </div>
                   </div>
 
-                  <p className="text-xs text-gray-500">
-                    Please don’t enter real card numbers. This is mock-only.
-                  </p>
+                  {TEST_MODE && (
+                    <p className="text-xs text-gray-500">
+                      Please don’t enter real card numbers. Test cards: ending 0002 is declined, 3220 needs
+                      authentication, anything else is approved.
+                    </p>
+                  )}
                 </>
               )}
             </div>
@@ -280,10 +450,16 @@ export function PaymentMethodModal({ bookingId, onDone }: PaymentMethodModalProp
             <button
               type="button"
               onClick={handleSaveDetails}
-              disabled={saving}
+              disabled={saving || (selected === 'gift_card' && !giftCardCode.trim())}
               className="mt-5 w-full bg-gradient-to-r from-pink-500 to-pink-600 text-white py-3 rounded-xl font-semibold hover:from-pink-600 hover:to-pink-700 transition-all shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {saving ? 'Saving…' : 'Save & Continue'}
+              {saving
+                ? 'Processing payment…'
+                : isDeposit
+                  ? `Pay ₱${depositAmount.toFixed(2)} deposit`
+                  : selected === 'gift_card'
+                    ? 'Redeem Gift Card'
+                    : 'Pay & Continue'}
             </button>
           </>
         )}
@@ -2,16 +2,25 @@ import { useState } from 'react';
 import { X, Star } from 'lucide-react';
 import { submitRating } from '../api/ratings';
 import { glamError, glamSuccess } from '../../lib/glamAlerts';
-import type { Booking } from '../types';
+import type { Booking, Service, Shop } from '../types';
+
+// Only what the form shows and submits, so visits opened from a review link
+// can use it too
+export type RatingModalBooking = Pick<Booking, 'id' | 'service_id' | 'shop_id' | 'date_time'> & {
+  service?: Pick<Service, 'name'>;
+  shop?: Pick<Shop, 'name'>;
+};
 
 interface RatingModalProps {
   isOpen: boolean;
-  booking: Booking | null;
+  booking: RatingModalBooking | null;
   onClose: () => void;
   onRated: () => void;
+  // Replaces the signed-in submitRating() call, e.g. for review links
+  onSubmitRating?: (rating: number, comment: string) => Promise<void>;
 }
 
-export function RatingModal({ isOpen, booking, onClose, onRated }: RatingModalProps) {
+export function RatingModal({ isOpen, booking, onClose, onRated, onSubmitRating }: RatingModalProps) {
   const [rating, setRating] = useState<number>(0);
   const [hoveredRating, setHoveredRating] = useState<number>(0);
   const [comment, setComment] = useState('');
@@ -27,20 +36,24 @@ export function RatingModal({ isOpen, booking, onClose, onRated }: RatingModalPr
       return;
     }
 
-    if (!booking.service_id || !booking.shop_id) {
+    if (!onSubmitRating && (!booking.service_id || !booking.shop_id)) {
       glamError('Service or shop information is missing');
       return;
     }
 
     try {
       setLoading(true);
-      await submitRating({
-        booking_id: booking.id,
-        service_id: booking.service_id, // Rate the specific service
-        shop_id: booking.shop_id, // For aggregation
-        rating,
-        comment: comment.trim() || undefined,
-      });
+      if (onSubmitRating) {
+        await onSubmitRating(rating, comment.trim());
+      } else {
+        await submitRating({
+          booking_id: booking.id,
+          service_id: booking.service_id, // Rate the specific service
+          shop_id: booking.shop_id, // For aggregation
+          rating,
+          comment: comment.trim() || undefined,
+        });
+      }
       glamSuccess('Thank you for your rating!');
       // Reset form
       setRating(0);
@@ -1,12 +1,15 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import type { Service, Shop, Booking } from '../types';
+import type { ShopCalendar } from '../../types/multiTenancy';
 import { getServices, getShops } from '../api/services';
+import { getShopCalendars } from '../../api/businessHours';
 import { getMyBookings, getUpcomingBookings } from '../api/bookings';
 import { useAuth } from '../../auth/useAuth';
 
 interface ClientContextType {
   services: Service[];
   shops: Shop[];
+  shopCalendars: Map<string, ShopCalendar>;
   bookings: Booking[];
   upcomingBookings: Booking[];
   loading: boolean;
@@ -20,6 +23,7 @@ const ClientContext = createContext<ClientContextType | undefined>(undefined);
 export function ClientProvider({ children }: { children: ReactNode }) {
   const [services, setServices] = useState<Service[]>([]);
   const [shops, setShops] = useState<Shop[]>([]);
+  const [shopCalendars, setShopCalendars] = useState<Map<string, ShopCalendar>>(new Map());
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [upcomingBookings, setUpcomingBookings] = useState<Booking[]>([]);
   const [loading, setLoading] = useState(true);
@@ -35,6 +39,9 @@ export function ClientProvider({ children }: { children: ReactNode }) {
       ]);
       setServices(servicesData);
       setShops(shopsData);
+      // Business hours drive the open/closed badges and bookable days
+      const shopIds = [...new Set(servicesData.map(s => s.shop_id))];
+      setShopCalendars(await getShopCalendars(shopIds));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load services');
       console.error('Error loading services:', err);
@@ -76,6 +83,7 @@ export function ClientProvider({ children }: { children: ReactNode }) {
       value={{
         services,
         shops,
+        shopCalendars,
         bookings,
         upcomingBookings,
         loading,
@@ -1,33 +1,57 @@
 import { useState, useEffect, useMemo } from 'react';
-import { Calendar, Clock, MapPin, ChevronLeft, ChevronRight, Check, Star } from 'lucide-react';
+import { Calendar, Clock, MapPin, ChevronLeft, ChevronRight, Check, Star, Users, Hourglass, Package, Tag, X, Award } from 'lucide-react';
 import { createBooking } from '../api/bookings';
+import { getMyPackages } from '../api/packages';
+import { previewPromotion, redeemPromotion } from '../api/promotions';
+import { getMyLoyalty, redeemLoyaltyPoints } from '../api/loyalty';
+import { getServiceStylists } from '../api/stylists';
+import { joinWaitlist } from '../api/waitlist';
+import { createBookingSeries } from '../../api/recurringBookings';
+import { RecurrencePicker } from '../../components/RecurrencePicker';
+import { PaymentMethodModal } from '../components/PaymentMethodModal';
 import { useClient } from '../context/ClientContext';
-import { supabase } from '../../lib/supabase';
-import type { Service, TimeSlot } from '../types';
+import { getAvailableSlots, getBookingEndAt, type AvailabilitySlot } from '../../api/availability';
+import { getOpeningHoursForDate, toDateKey } from '../../utils/businessHours';
+import { glamInfo, glamSuccess, glamWarning } from '../../lib/glamAlerts';
+import { formatOccurrenceList, formatRecurrenceRule } from '../../utils/recurrence';
+import { canUsePackageFor, getRemainingUses } from '../../utils/packages';
+import { formatDepositRule, getDepositAmount } from '../../utils/deposits';
+import { getPointsRedemption } from '../../utils/loyalty';
+import type { Service, Stylist, TimeSlot } from '../types';
+import type { ClientPackage, LoyaltyAccount, PromotionPreview, RecurrenceRule } from '../../types/multiTenancy';
 
 interface BookingScreenProps {
   service: Service;
   onBack: () => void;
-  onBookingComplete: (bookingId: string) => void;
+  onBookingComplete: (bookingId: string, coveredByPackage?: boolean) => void;
 }
 
 export function BookingScreen({ service, onBack, onBookingComplete }: BookingScreenProps) {
-  const { refreshBookings } = useClient();
+  const { refreshBookings, shopCalendars, shops } = useClient();
+  const shopCalendar = shopCalendars.get(service.shop_id);
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [selectedTime, setSelectedTime] = useState<string | null>(null);
   const [notes, setNotes] = useState('');
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [existingBookings, setExistingBookings] = useState<Array<{ start_at: string }>>([]);
+  const [slots, setSlots] = useState<AvailabilitySlot[]>([]);
   const [loadingBookings, setLoadingBookings] = useState(false);
-
-  // Convert 24-hour time to 12-hour format with AM/PM
-  const formatTime12Hour = (hour24: number, minute: number): string => {
-    const period = hour24 >= 12 ? 'PM' : 'AM';
-    const hour12 = hour24 === 0 ? 12 : hour24 > 12 ? hour24 - 12 : hour24;
-    return `${hour12}:${minute.toString().padStart(2, '0')} ${period}`;
-  };
+  const [stylists, setStylists] = useState<Stylist[]>([]);
+  const [selectedStylist, setSelectedStylist] = useState<string | null>(null); // null = any available
+  const [waitlistUntil, setWaitlistUntil] = useState('');
+  const [joiningWaitlist, setJoiningWaitlist] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null); // null = one-off
+  const [myPackages, setMyPackages] = useState<ClientPackage[]>([]);
+  const [selectedPackageId, setSelectedPackageId] = useState<string | null>(null); // null = pay as usual
+  const [depositBookingIds, setDepositBookingIds] = useState<string[]>([]); // Created, waiting on a deposit
+  const [depositDue, setDepositDue] = useState(0);
+  const [promoCode, setPromoCode] = useState('');
+  const [promotion, setPromotion] = useState<PromotionPreview | null>(null); // Checked, redeemed once booked
+  const [checkingPromo, setCheckingPromo] = useState(false);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [loyaltyAccounts, setLoyaltyAccounts] = useState<LoyaltyAccount[]>([]);
+  const [usePoints, setUsePoints] = useState(false);
 
   // Convert 12-hour format back to 24-hour for comparison
   const parseTime12Hour = (time12: string): { hour: number; minute: number } => {
@@ -45,89 +69,93 @@ export function BookingScreen({ service, onBack, onBookingComplete }: BookingScr
     return { hour, minute };
   };
 
-  // Generate time slots from 9 AM to 6 PM in 12-hour format
-  const generateTimeSlots = (): TimeSlot[] => {
-    const slots: TimeSlot[] = [];
-    for (let hour = 9; hour <= 18; hour++) {
-      for (let minute = 0; minute < 60; minute += 30) {
-        const time12 = formatTime12Hour(hour, minute);
-        slots.push({ time: time12, available: true });
-      }
-    }
-    return slots;
-  };
+  useEffect(() => {
+    getServiceStylists({ id: service.id, shop_id: service.shop_id }).then(setStylists);
+  }, [service.id, service.shop_id]);
 
-  // Fetch existing bookings for the selected date, service, and shop
   useEffect(() => {
-    const fetchExistingBookings = async () => {
+    getMyPackages()
+      .then(setMyPackages)
+      .catch(error => console.error('Error loading packages:', error));
+    getMyLoyalty()
+      .then(setLoyaltyAccounts)
+      .catch(error => console.error('Error loading loyalty points:', error));
+  }, []);
+
+  // Load duration-aware availability for the selected date
+  useEffect(() => {
+    const fetchAvailability = async () => {
       if (!selectedDate) {
-        setExistingBookings([]);
+        setSlots([]);
         return;
       }
 
       try {
         setLoadingBookings(true);
-        // Get start and end of selected date
-        const startOfDay = new Date(selectedDate);
-        startOfDay.setHours(0, 0, 0, 0);
-        const endOfDay = new Date(selectedDate);
-        endOfDay.setHours(23, 59, 59, 999);
-
-        const { data, error } = await supabase
-          .from('bookings')
-          .select('start_at, service_id, shop_id, status')
-          .eq('service_id', service.id)
-          .eq('shop_id', service.shop_id)
-          .gte('start_at', startOfDay.toISOString())
-          .lte('start_at', endOfDay.toISOString())
-          .in('status', ['pending', 'confirmed']); // Only check active bookings
-
-        if (error) {
-          console.error('Error fetching existing bookings:', error);
-          setExistingBookings([]);
-        } else {
-          setExistingBookings(data || []);
-        }
+        const data = await getAvailableSlots({
+          shopId: service.shop_id,
+          date: selectedDate,
+          durationMinutes: service.duration,
+          serviceId: service.id,
+          staffId: selectedStylist,
+        });
+        setSlots(data);
       } catch (error) {
-        console.error('Error fetching bookings:', error);
-        setExistingBookings([]);
+        console.error('Error fetching availability:', error);
+        setSlots([]);
       } finally {
         setLoadingBookings(false);
       }
     };
 
-    fetchExistingBookings();
-  }, [selectedDate, service.id, service.shop_id]);
+    fetchAvailability();
+  }, [selectedDate, service.shop_id, service.duration, service.id, selectedStylist]);
+
+  const handleStylistSelect = (stylistId: string | null) => {
+    setSelectedStylist(stylistId);
+    setSelectedTime(null);
+  };
+
+  const selectedStylistName = stylists.find(s => s.id === selectedStylist)?.name;
+
+  const timeSlots: TimeSlot[] = useMemo(
+    () => slots.map(slot => ({ time: slot.label, available: slot.available })),
+    [slots]
+  );
 
   // Check if a time slot is available
-  const isTimeSlotAvailable = useMemo(() => {
-    return (time12: string): boolean => {
-      if (!selectedDate) return false;
-
-      const now = new Date();
-      const { hour, minute } = parseTime12Hour(time12);
-      
-      // Check if time is in the past
-      const slotDateTime = new Date(selectedDate);
-      slotDateTime.setHours(hour, minute, 0, 0);
-      
-      if (slotDateTime <= now) {
-        return false; // Time is in the past
-      }
+  const isTimeSlotAvailable = (time12: string): boolean => {
+    if (!selectedDate) return false;
+    const slot = slots.find(s => s.label === time12);
+    return !!slot && slot.available && slot.start > new Date();
+  };
 
-      // Check if time conflicts with existing bookings
-      // Check for exact time match (same service, same shop, same date and time)
-      const isBooked = existingBookings.some(booking => {
-        const bookingTime = new Date(booking.start_at);
-        // Check if it's the exact same time (same hour and minute)
-        return bookingTime.getHours() === hour && bookingTime.getMinutes() === minute;
-      });
+  const unavailableCount = timeSlots.filter(slot => !slot.available).length;
+  // Start of the selected slot, used to lay out a recurring series
+  const firstStart = useMemo(
+    () => slots.find(slot => slot.label === selectedTime)?.start ?? null,
+    [slots, selectedTime]
+  );
 
-      return !isBooked;
-    };
-  }, [selectedDate, existingBookings, service.duration]);
+  // Purchased packages that can cover this appointment (one-off bookings only)
+  const usablePackages = useMemo(
+    () => (firstStart && !recurrence ? myPackages.filter(cp => canUsePackageFor(cp, service.id, firstStart)) : []),
+    [myPackages, service.id, firstStart, recurrence]
+  );
+  const packageToUse = usablePackages.find(cp => cp.id === selectedPackageId) ?? null;
+  // Package bookings are already paid for, so they need no deposit or promo
+  const depositPerBooking = packageToUse ? 0 : getDepositAmount(service);
+  const promoToUse = packageToUse ? null : promotion;
+
+  // Points go on the first appointment, after any promo discount
+  const organizationId = service.organization_id ?? shops.find(s => s.id === service.shop_id)?.organization_id;
+  const loyaltyAccount = loyaltyAccounts.find(a => a.organization_id === organizationId && a.program.is_active);
+  const pointsRedemption = loyaltyAccount && !packageToUse
+    ? getPointsRedemption(loyaltyAccount.program, loyaltyAccount.balance, service.price - (promoToUse?.discount_amount ?? 0))
+    : null;
+  const pointsToUse = usePoints ? pointsRedemption : null;
 
-  const timeSlots = generateTimeSlots();
+  const isFullyBooked = !!selectedDate && !loadingBookings && !slots.some(slot => slot.available && slot.start > new Date());
 
   const getDaysInMonth = (date: Date) => {
     const year = date.getFullYear();
@@ -158,6 +186,87 @@ export function BookingScreen({ service, onBack, onBookingComplete }: BookingScr
     if (date >= today) {
       setSelectedDate(date);
       setSelectedTime(null);
+      setWaitlistUntil('');
+    }
+  };
+
+  const handleJoinWaitlist = async () => {
+    if (!selectedDate) return;
+
+    const dateFrom = toDateKey(selectedDate);
+    try {
+      setJoiningWaitlist(true);
+      setError(null);
+      await joinWaitlist({
+        shop_id: service.shop_id,
+        service_id: service.id,
+        staff_id: selectedStylist,
+        date_from: dateFrom,
+        date_to: waitlistUntil || dateFrom,
+      });
+      glamSuccess("You're on the waitlist! We'll notify you if a slot opens up.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to join the waitlist');
+    } finally {
+      setJoiningWaitlist(false);
+    }
+  };
+
+  const handleApplyPromo = async () => {
+    if (!promoCode.trim() || checkingPromo) return;
+    try {
+      setCheckingPromo(true);
+      setPromoError(null);
+      setPromotion(await previewPromotion(promoCode, service.id));
+    } catch (err) {
+      setPromotion(null);
+      setPromoError(err instanceof Error ? err.message : 'Failed to check the promo code');
+    } finally {
+      setCheckingPromo(false);
+    }
+  };
+
+  const handleRemovePromo = () => {
+    setPromotion(null);
+    setPromoCode('');
+    setPromoError(null);
+  };
+
+  // Redeem the promo code and points on the new bookings, then collect the
+  // deposit or carry on to paying
+  const finishBooking = async (bookingIds: string[], coveredByPackage = false) => {
+    const discounts = new Map<string, number>();
+    if (promoToUse) {
+      try {
+        const result = await redeemPromotion(promoToUse.code, bookingIds);
+        result.bookingIds.forEach(id => discounts.set(id, promoToUse.discount_amount));
+        if (result.bookingIds.length < bookingIds.length) {
+          glamInfo(`${promoToUse.code} was applied to ${result.bookingIds.length} of your ${bookingIds.length} appointments.`);
+        }
+      } catch (err) {
+        glamWarning(`Your booking is made, but the promo code couldn't be applied: ${err instanceof Error ? err.message : 'unknown error'}`);
+      }
+    }
+    if (pointsToUse) {
+      try {
+        const result = await redeemLoyaltyPoints(bookingIds[0], pointsToUse.points);
+        discounts.set(bookingIds[0], (discounts.get(bookingIds[0]) ?? 0) + result.discountAmount);
+      } catch (err) {
+        glamWarning(`Your booking is made, but your points couldn't be used: ${err instanceof Error ? err.message : 'unknown error'}`);
+      }
+    }
+
+    await refreshBookings();
+    // A discounted booking's deposit is capped at its discounted price
+    const deposit = bookingIds.reduce(
+      (sum, id) => sum + Math.min(depositPerBooking, Math.max(service.price - (discounts.get(id) ?? 0), 0)),
+      0
+    );
+    if (deposit > 0) {
+      setDepositDue(deposit);
+      setDepositBookingIds(bookingIds);
+    } else {
+      onBookingComplete(bookingIds[0], coveredByPackage);
     }
   };
 
@@ -188,15 +297,34 @@ export function BookingScreen({ service, onBack, onBookingComplete }: BookingScr
       setLoading(true);
       setError(null);
 
+      if (recurrence) {
+        const { bookingIds, skipped } = await createBookingSeries({
+          shopId: service.shop_id,
+          serviceId: service.id,
+          staffId: selectedStylist,
+          durationMinutes: service.duration,
+          first: dateTime,
+          rule: recurrence,
+          notes: notes || undefined,
+        });
+        if (skipped.length > 0) {
+          glamWarning(`Skipped unavailable dates: ${formatOccurrenceList(skipped)}`);
+        }
+        await finishBooking(bookingIds);
+        return;
+      }
+
       const booking = await createBooking({
         service_id: service.id,
         shop_id: service.shop_id,
         date_time: dateTime.toISOString(),
+        end_at: getBookingEndAt(dateTime, service.duration),
+        staff_id: selectedStylist ?? undefined,
         notes: notes || undefined,
+        client_package_id: packageToUse?.id,
       });
 
-      await refreshBookings();
-      onBookingComplete(booking.id);
+      await finishBooking([booking.id], !!packageToUse);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to create booking';
       // Check if it's a double booking error
@@ -210,6 +338,13 @@ export function BookingScreen({ service, onBack, onBookingComplete }: BookingScr
     }
   };
 
+  // Carry on to choosing how to pay the rest of the bill
+  const handleDepositDone = () => {
+    const [firstId] = depositBookingIds;
+    setDepositBookingIds([]);
+    onBookingComplete(firstId);
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-pink-50 via-white to-purple-50">
       {/* Header */}
@@ -284,6 +419,57 @@ export function BookingScreen({ service, onBack, onBookingComplete }: BookingScr
 
           {/* Right Column - Booking Form */}
           <div className="lg:col-span-2 space-y-6">
+            {/* Stylist */}
+            {stylists.length > 0 && (
+              <div className="bg-white rounded-2xl shadow-sm border border-pink-100 p-6">
+                <h3 className="text-lg font-bold text-gray-900 mb-4">Choose Your Stylist</h3>
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+                  <button
+                    onClick={() => handleStylistSelect(null)}
+                    className={`p-4 rounded-xl border text-center transition-all ${
+                      selectedStylist === null
+                        ? 'border-pink-500 bg-pink-50 shadow-md'
+                        : 'border-gray-200 hover:border-pink-300 hover:bg-pink-50'
+                    }`}
+                  >
+                    <div className="w-12 h-12 mx-auto mb-2 bg-gradient-to-br from-pink-400 to-purple-500 rounded-full flex items-center justify-center">
+                      <Users className="w-6 h-6 text-white" />
+                    </div>
+                    <p className="text-sm font-semibold text-gray-900">Any available</p>
+                    <p className="text-xs text-gray-500">Most openings</p>
+                  </button>
+                  {stylists.map((stylist) => (
+                    <button
+                      key={stylist.id}
+                      onClick={() => handleStylistSelect(stylist.id)}
+                      className={`p-4 rounded-xl border text-center transition-all ${
+                        selectedStylist === stylist.id
+                          ? 'border-pink-500 bg-pink-50 shadow-md'
+                          : 'border-gray-200 hover:border-pink-300 hover:bg-pink-50'
+                      }`}
+                    >
+                      {stylist.avatar ? (
+                        <img src={stylist.avatar} alt={stylist.name} className="w-12 h-12 mx-auto mb-2 rounded-full object-cover" />
+                      ) : (
+                        <div className="w-12 h-12 mx-auto mb-2 bg-gradient-to-br from-pink-400 to-purple-500 rounded-full flex items-center justify-center text-white font-semibold">
+                          {stylist.name.charAt(0).toUpperCase()}
+                        </div>
+                      )}
+                      <p className="text-sm font-semibold text-gray-900 truncate">{stylist.name}</p>
+                      {stylist.review_count > 0 ? (
+                        <p className="text-xs text-gray-600 flex items-center justify-center gap-1">
+                          <Star className="w-3 h-3 text-yellow-400 fill-yellow-400" />
+                          {stylist.rating.toFixed(1)} ({stylist.review_count})
+                        </p>
+                      ) : (
+                        <p className="text-xs text-gray-500">New</p>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Calendar */}
             <div className="bg-white rounded-2xl shadow-sm border border-pink-100 p-6">
               <h3 className="text-lg font-bold text-gray-900 mb-4">Select Date</h3>
@@ -321,7 +507,8 @@ export function BookingScreen({ service, onBack, onBookingComplete }: BookingScr
                     const date = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), day);
                     const today = new Date();
                     today.setHours(0, 0, 0, 0);
-                    const isPast = date < today;
+                    // Closed days (weekly schedule or holidays) can't be picked
+                    const isPast = date < today || (!!shopCalendar && getOpeningHoursForDate(shopCalendar, date).length === 0);
                     const isSelected =
                       selectedDate?.getDate() === day &&
                       selectedDate?.getMonth() === currentMonth.getMonth() &&
@@ -359,7 +546,7 @@ export function BookingScreen({ service, onBack, onBookingComplete }: BookingScr
                 </div>
                 <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-3">
                   {timeSlots.map((slot) => {
-                    const isAvailable = isTimeSlotAvailable(slot.time);
+                    const isAvailable = slot.available;
                     return (
                       <button
                         key={slot.time}
@@ -383,9 +570,183 @@ export function BookingScreen({ service, onBack, onBookingComplete }: BookingScr
                     );
                   })}
                 </div>
-                {existingBookings.length > 0 && (
+                {!loadingBookings && timeSlots.length === 0 && (
+                  <p className="text-sm text-gray-500 text-center">
+                    No openings on this date for a {service.duration}-minute appointment.
+                  </p>
+                )}
+                {unavailableCount > 0 && (
                   <p className="mt-4 text-xs text-gray-500 text-center">
-                    {existingBookings.length} appointment{existingBookings.length !== 1 ? 's' : ''} already booked for this date
+                    {unavailableCount} time{unavailableCount !== 1 ? 's' : ''} unavailable for a {service.duration}-minute appointment
+                  </p>
+                )}
+                {isFullyBooked && (
+                  <div className="mt-6 p-4 bg-purple-50 border border-purple-200 rounded-xl">
+                    <div className="flex items-start gap-3">
+                      <Hourglass className="w-5 h-5 text-purple-600 flex-shrink-0 mt-0.5" />
+                      <div className="flex-1">
+                        <p className="font-semibold text-gray-900">Fully booked</p>
+                        <p className="text-sm text-gray-600 mt-1">
+                          Join the waitlist and we'll hold the first slot that opens up
+                          {selectedStylistName ? ` with ${selectedStylistName}` : ''} for you.
+                        </p>
+                        <div className="flex flex-col sm:flex-row sm:items-end gap-3 mt-3">
+                          <label className="flex-1 text-sm text-gray-600">
+                            Any day until (optional)
+                            <input
+                              type="date"
+                              value={waitlistUntil}
+                              min={toDateKey(selectedDate)}
+                              onChange={(e) => setWaitlistUntil(e.target.value)}
+                              className="mt-1 w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                            />
+                          </label>
+                          <button
+                            onClick={handleJoinWaitlist}
+                            disabled={joiningWaitlist}
+                            className="px-4 py-2 bg-gradient-to-r from-pink-500 to-purple-600 text-white rounded-lg font-semibold hover:shadow-md transition-all disabled:opacity-50"
+                          >
+                            {joiningWaitlist ? 'Joining...' : 'Join waitlist'}
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Repeat */}
+            {selectedTime && (
+              <div className="bg-white rounded-2xl shadow-sm border border-pink-100 p-6">
+                <h3 className="text-lg font-bold text-gray-900 mb-4">Repeat</h3>
+                <RecurrencePicker
+                  rule={recurrence}
+                  onChange={setRecurrence}
+                  shopId={service.shop_id}
+                  serviceId={service.id}
+                  staffId={selectedStylist}
+                  durationMinutes={service.duration}
+                  first={firstStart}
+                />
+              </div>
+            )}
+
+            {/* Package */}
+            {selectedTime && usablePackages.length > 0 && (
+              <div className="bg-white rounded-2xl shadow-sm border border-pink-100 p-6">
+                <h3 className="text-lg font-bold text-gray-900 mb-4">Use a Package</h3>
+                <div className="space-y-2">
+                  <label className="flex items-center gap-3 p-3 border border-gray-200 rounded-xl cursor-pointer hover:border-pink-300">
+                    <input
+                      type="radio"
+                      name="booking-package"
+                      checked={!packageToUse}
+                      onChange={() => setSelectedPackageId(null)}
+                      className="w-4 h-4 text-pink-600 focus:ring-pink-500"
+                    />
+                    <span className="flex-1 text-sm text-gray-900">Pay for this service</span>
+                    <span className="text-sm font-semibold text-gray-900">₱{service.price.toLocaleString()}</span>
+                  </label>
+                  {usablePackages.map(cp => {
+                    const usesLeft = getRemainingUses(cp).get(service.id) ?? 0;
+                    return (
+                      <label key={cp.id} className="flex items-center gap-3 p-3 border border-gray-200 rounded-xl cursor-pointer hover:border-pink-300">
+                        <input
+                          type="radio"
+                          name="booking-package"
+                          checked={packageToUse?.id === cp.id}
+                          onChange={() => setSelectedPackageId(cp.id)}
+                          className="w-4 h-4 text-pink-600 focus:ring-pink-500"
+                        />
+                        <Package className="w-4 h-4 text-pink-500" />
+                        <span className="flex-1 text-sm text-gray-900">{cp.package?.name || 'Package'}</span>
+                        <span className="text-xs text-gray-500">{usesLeft} use{usesLeft !== 1 ? 's' : ''} left</span>
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {/* Promo Code */}
+            {selectedTime && !packageToUse && (
+              <div className="bg-white rounded-2xl shadow-sm border border-pink-100 p-6">
+                <h3 className="text-lg font-bold text-gray-900 mb-4">Promo Code</h3>
+                {promotion ? (
+                  <div className="flex items-center gap-3 p-3 bg-green-50 border border-green-200 rounded-xl">
+                    <Tag className="w-5 h-5 text-green-600" />
+                    <div className="flex-1">
+                      <p className="text-sm font-semibold text-gray-900">{promotion.code} · {promotion.title}</p>
+                      <p className="text-xs text-gray-600">
+                        −₱{promotion.discount_amount.toFixed(2)}
+                        {recurrence ? (promotion.first_visit_only ? ' on your first appointment' : ' per appointment') : ''}
+                      </p>
+                    </div>
+                    <button
+                      onClick={handleRemovePromo}
+                      className="p-1.5 text-gray-500 hover:bg-green-100 rounded-lg"
+                      aria-label="Remove promo code"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex gap-2">
+                      <input
+                        value={promoCode}
+                        onChange={(e) => {
+                          setPromoCode(e.target.value.toUpperCase());
+                          setPromoError(null);
+                        }}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleApplyPromo();
+                        }}
+                        placeholder="Enter code"
+                        className="flex-1 px-4 py-3 border border-gray-200 rounded-xl font-mono focus:outline-none focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                      />
+                      <button
+                        onClick={handleApplyPromo}
+                        disabled={!promoCode.trim() || checkingPromo}
+                        className="px-5 py-3 border border-pink-200 text-pink-600 hover:bg-pink-50 rounded-xl font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {checkingPromo ? 'Checking…' : 'Apply'}
+                      </button>
+                    </div>
+                    {promoError && <p className="mt-2 text-sm text-red-600">{promoError}</p>}
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Loyalty Points */}
+            {selectedTime && loyaltyAccount && !packageToUse && (
+              <div className="bg-white rounded-2xl shadow-sm border border-pink-100 p-6">
+                <h3 className="text-lg font-bold text-gray-900 mb-4">Loyalty Points</h3>
+                {pointsRedemption ? (
+                  <label className="flex items-center gap-3 p-3 border border-pink-100 rounded-xl cursor-pointer hover:bg-pink-50/50">
+                    <input
+                      type="checkbox"
+                      checked={usePoints}
+                      onChange={(e) => setUsePoints(e.target.checked)}
+                      className="w-4 h-4 text-pink-600 border-gray-300 rounded focus:ring-pink-500"
+                    />
+                    <Award className="w-5 h-5 text-pink-600" />
+                    <div className="flex-1">
+                      <p className="text-sm font-semibold text-gray-900">
+                        Use {pointsRedemption.points.toLocaleString()} points for −₱{pointsRedemption.discount.toFixed(2)}
+                      </p>
+                      <p className="text-xs text-gray-600">
+                        You have {loyaltyAccount.balance.toLocaleString()} points ({loyaltyAccount.tier})
+                        {recurrence ? ' · applied to your first appointment' : ''}
+                      </p>
+                    </div>
+                  </label>
+                ) : (
+                  <p className="text-sm text-gray-600">
+                    You have {loyaltyAccount.balance.toLocaleString()} points ({loyaltyAccount.tier}). You can use them
+                    once you reach {loyaltyAccount.program.min_redeem_points.toLocaleString()}.
                   </p>
                 )}
               </div>
@@ -427,6 +788,30 @@ export function BookingScreen({ service, onBack, onBookingComplete }: BookingScr
                       })}{' '}
                       at <span className="font-bold">{selectedTime}</span>
                     </p>
+                    <p className="text-sm text-gray-600 mt-1">
+                      with {selectedStylistName || 'any available stylist'}
+                    </p>
+                    {recurrence && (
+                      <p className="text-sm text-pink-600 mt-1">{formatRecurrenceRule(recurrence)}</p>
+                    )}
+                    {packageToUse && (
+                      <p className="text-sm text-pink-600 mt-1">Covered by {packageToUse.package?.name || 'your package'}</p>
+                    )}
+                    {promoToUse && (
+                      <p className="text-sm text-pink-600 mt-1">
+                        {promoToUse.code}: ₱{(service.price - promoToUse.discount_amount).toFixed(2)} instead of ₱{service.price.toFixed(2)}
+                      </p>
+                    )}
+                    {pointsToUse && (
+                      <p className="text-sm text-pink-600 mt-1">
+                        {pointsToUse.points.toLocaleString()} points: −₱{pointsToUse.discount.toFixed(2)}
+                      </p>
+                    )}
+                    {depositPerBooking > 0 && (
+                      <p className="text-sm text-pink-600 mt-1">
+                        {formatDepositRule(service)} due when booking{recurrence ? ', per appointment' : ''}
+                      </p>
+                    )}
                   </div>
                   <Check className="w-8 h-8 text-green-500" />
                 </div>
@@ -440,6 +825,8 @@ export function BookingScreen({ service, onBack, onBookingComplete }: BookingScr
                       <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
                       Confirming...
                     </div>
+                  ) : recurrence ? (
+                    'Confirm Recurring Booking'
                   ) : (
                     'Confirm Booking'
                   )}
@@ -449,6 +836,18 @@ export function BookingScreen({ service, onBack, onBookingComplete }: BookingScr
           </div>
         </div>
       </div>
+
+      {depositBookingIds.length > 0 && (
+        <PaymentMethodModal
+          bookingIds={depositBookingIds}
+          depositAmount={depositDue}
+          onDone={handleDepositDone}
+          onPayLater={() => {
+            glamInfo('Your booking stays pending until the deposit is paid. You can pay it from My Schedule.');
+            handleDepositDone();
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -5,7 +5,9 @@ import { useClient } from '../context/ClientContext';
 import { getMyProfile, type Profile } from '../../api/profile';
 import { SettingsDropdown } from '../../components/SettingsDropdown';
 import { AvatarDropdown } from '../../components/AvatarDropdown';
+import { NotificationDropdown } from '../../components/NotificationDropdown';
 import type { Service } from '../types';
+import { formatBookingStatus } from '../../utils/bookingPolicy';
 
 // Component for service image thumbnail with fallback
 function ServiceImageThumbnail({ imageUrl, serviceName }: { imageUrl?: string; serviceName: string }) {
@@ -42,13 +44,13 @@ interface ClientHomeProps {
 
 export function ClientHome({ onSelectService, onViewAllServices, onViewSchedule, onViewHistory, onViewProfile, onLogout }: ClientHomeProps) {
   const { session } = useAuth();
-  const { services, bookings, upcomingBookings, loading } = useClient();
+  const { services, bookings, upcomingBookings, loading, refreshBookings } = useClient();
   const [searchQuery, setSearchQuery] = useState('');
   const [profile, setProfile] = useState<Profile | null>(null);
 
-  // Filter history bookings (completed or cancelled) and limit to 3
+  // Filter history bookings (completed, cancelled or missed) and limit to 3
   const historyBookings = bookings
-    .filter(b => b.status === 'completed' || b.status === 'cancelled')
+    .filter(b => b.status === 'completed' || b.status === 'cancelled' || b.status === 'no_show')
     .sort((a, b) => new Date(b.date_time).getTime() - new Date(a.date_time).getTime())
     .slice(0, 3);
 
@@ -82,6 +84,7 @@ export function ClientHome({ onSelectService, onViewAllServices, onViewSchedule,
               </div>
             </div>
             <div className="flex items-center gap-3">
+              <NotificationDropdown role="client" onWaitlistClaimed={refreshBookings} />
               <SettingsDropdown 
                 onLogout={onLogout} 
                 onEditProfile={() => {
@@ -171,6 +174,7 @@ export function ClientHome({ onSelectService, onViewAllServices, onViewSchedule,
                       case 'completed':
                         return <CheckCircle className="w-4 h-4 text-green-500" />;
                       case 'cancelled':
+                      case 'no_show':
                         return <XCircle className="w-4 h-4 text-red-500" />;
                       default:
                         return <AlertCircle className="w-4 h-4 text-gray-500" />;
@@ -227,7 +231,7 @@ export function ClientHome({ onSelectService, onViewAllServices, onViewSchedule,
                             </div>
                             <span className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium border flex-shrink-0 ${getStatusStyle(booking.status)}`}>
                               {getStatusIcon(booking.status)}
-                              {booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
+                              {formatBookingStatus(booking.status).charAt(0).toUpperCase() + formatBookingStatus(booking.status).slice(1)}
                             </span>
                           </div>
                         </div>
@@ -235,7 +239,7 @@ export function ClientHome({ onSelectService, onViewAllServices, onViewSchedule,
                     </div>
                   );
                 })}
-                {bookings.filter(b => b.status === 'completed' || b.status === 'cancelled').length > 3 && (
+                {bookings.filter(b => b.status === 'completed' || b.status === 'cancelled' || b.status === 'no_show').length > 3 && (
                   <div className="p-4 text-center border-t border-pink-100">
                     <button
                       onClick={onViewHistory || onViewSchedule}
@@ -1,12 +1,20 @@
-import { useState, useEffect } from 'react';
-import { Calendar, Clock, MapPin, CheckCircle, XCircle, Eye, Trash2, Scissors } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { Calendar, Clock, MapPin, CheckCircle, XCircle, Eye, Trash2, Scissors, CalendarClock, Hourglass, Repeat, Wallet } from 'lucide-react';
 import { useClient } from '../context/ClientContext';
 import { cancelBooking, deleteBooking } from '../api/bookings';
-import { glamConfirm, glamError, glamSuccess } from '../../lib/glamAlerts';
+import { getCancellationQuote } from '../../api/cancellation';
+import { glamChoice, glamConfirm, glamError, glamPrompt, glamSuccess } from '../../lib/glamAlerts';
+import { cancelSeriesBookings } from '../../api/recurringBookings';
+import { formatBookingStatus } from '../../utils/bookingPolicy';
+import { isDepositDue } from '../../utils/deposits';
 import { AppointmentDetailsModal } from '../components/AppointmentDetailsModal';
+import { PaymentMethodModal } from '../components/PaymentMethodModal';
 import { RatingModal } from '../components/RatingModal';
+import { RescheduleModal } from '../../components/RescheduleModal';
 import { hasRatedBooking } from '../api/ratings';
+import { getMyWaitlistEntries, leaveWaitlist } from '../api/waitlist';
 import type { Booking } from '../types';
+import type { SeriesEditScope, WaitlistEntry } from '../../types/multiTenancy';
 
 // Component for service image thumbnail with fallback
 function ServiceImageThumbnail({ imageUrl, serviceName }: { imageUrl?: string; serviceName: string }) {
@@ -39,7 +47,7 @@ interface MyScheduleProps {
 }
 
 export function MySchedule({ onBack, initialTab = 'upcoming', onBookAgain }: MyScheduleProps) {
-  const { bookings, upcomingBookings, loading, refreshBookings } = useClient();
+  const { bookings, upcomingBookings, loading, refreshBookings, services } = useClient();
   const [selectedTab, setSelectedTab] = useState<'upcoming' | 'history'>(initialTab);
   const [cancellingId, setCancellingId] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
@@ -48,6 +56,47 @@ export function MySchedule({ onBack, initialTab = 'upcoming', onBookAgain }: MyS
   const [showRatingModal, setShowRatingModal] = useState(false);
   const [ratingBooking, setRatingBooking] = useState<Booking | null>(null);
   const [hiddenBookingIds, setHiddenBookingIds] = useState<Set<string>>(new Set());
+  const [reschedulingBooking, setReschedulingBooking] = useState<Booking | null>(null);
+  const [waitlistEntries, setWaitlistEntries] = useState<WaitlistEntry[]>([]);
+  const [depositBooking, setDepositBooking] = useState<Booking | null>(null);
+
+  useEffect(() => {
+    getMyWaitlistEntries().then(setWaitlistEntries);
+  }, []);
+
+  const handleLeaveWaitlist = async (entryId: string) => {
+    const ok = await glamConfirm({
+      title: 'Leave the waitlist?',
+      text: "You won't be offered any openings for these dates.",
+      confirmText: 'Leave',
+    });
+    if (!ok) return;
+
+    try {
+      await leaveWaitlist(entryId);
+      setWaitlistEntries(prev => prev.filter(entry => entry.id !== entryId));
+      glamSuccess('Removed from the waitlist');
+    } catch (error) {
+      glamError(error instanceof Error ? error.message : 'Failed to leave the waitlist');
+    }
+  };
+
+  const formatWaitlistDates = (entry: WaitlistEntry) => {
+    const format = (key: string) => new Date(`${key}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    return entry.date_from === entry.date_to ? format(entry.date_from) : `${format(entry.date_from)} - ${format(entry.date_to)}`;
+  };
+
+  const rescheduleTarget = useMemo(() => reschedulingBooking && {
+    id: reschedulingBooking.id,
+    shop_id: reschedulingBooking.shop_id,
+    service_id: reschedulingBooking.service_id,
+    staff_id: reschedulingBooking.staff_id,
+    start_at: reschedulingBooking.date_time,
+    end_at: reschedulingBooking.end_at,
+    status: reschedulingBooking.status,
+    service_name: reschedulingBooking.service?.name,
+    series_id: reschedulingBooking.series_id,
+  }, [reschedulingBooking]);
 
   // Load hidden booking IDs from localStorage
   useEffect(() => {
@@ -68,20 +117,47 @@ export function MySchedule({ onBack, initialTab = 'upcoming', onBookAgain }: MyS
   };
 
   const handleCancelBooking = async (bookingId: string) => {
-    const ok = await glamConfirm({
+    let scope: SeriesEditScope = 'this';
+    if (bookings.find(b => b.id === bookingId)?.series_id) {
+      const choice = await glamChoice({
+        title: 'This is a recurring appointment',
+        text: 'Cancel just this appointment, or this one and all later ones in the series?',
+        confirmText: 'This one only',
+        denyText: 'This and all future',
+      });
+      if (choice === null) return;
+      scope = choice === 'deny' ? 'future' : 'this';
+    }
+
+    let feeWarning = '';
+    try {
+      const quote = await getCancellationQuote(bookingId);
+      if (quote.isLate) {
+        feeWarning = quote.fee > 0
+          ? ` Cancelling within ${quote.policy.cancellation_cutoff_hours} hours of your appointment incurs a late cancellation fee of ₱${quote.fee.toLocaleString()}.`
+          : ` Cancelling within ${quote.policy.cancellation_cutoff_hours} hours of your appointment counts as a late cancellation.`;
+      }
+    } catch (error) {
+      console.error('Error loading cancellation policy:', error);
+    }
+
+    const reason = await glamPrompt({
       title: 'Cancel this booking?',
-      text: 'This action cannot be undone.',
+      text: `This action cannot be undone.${feeWarning}`,
+      placeholder: 'Reason (optional)',
       confirmText: 'Yes, cancel',
     });
-    if (!ok) return;
+    if (reason === null) return;
 
     try {
       setCancellingId(bookingId);
-      await cancelBooking(bookingId);
+      const { fee } = scope === 'future'
+        ? await cancelSeriesBookings({ bookingId, scope, reason })
+        : await cancelBooking(bookingId, reason);
       await refreshBookings();
-      glamSuccess('Booking cancelled');
+      glamSuccess(fee > 0 ? `Booking cancelled. A ₱${fee.toLocaleString()} late fee applies.` : 'Booking cancelled');
     } catch (error) {
-      glamError('Failed to cancel booking');
+      glamError(error instanceof Error ? error.message : 'Failed to cancel booking');
       console.error(error);
     } finally {
       setCancellingId(null);
@@ -98,6 +174,8 @@ export function MySchedule({ onBack, initialTab = 'upcoming', onBookAgain }: MyS
         return 'bg-blue-100 text-blue-800';
       case 'cancelled':
         return 'bg-red-100 text-red-800';
+      case 'no_show':
+        return 'bg-gray-200 text-gray-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -108,6 +186,7 @@ export function MySchedule({ onBack, initialTab = 'upcoming', onBookAgain }: MyS
       case 'confirmed':
         return <CheckCircle className="w-4 h-4" />;
       case 'cancelled':
+      case 'no_show':
         return <XCircle className="w-4 h-4" />;
       default:
         return <Clock className="w-4 h-4" />;
@@ -185,7 +264,7 @@ export function MySchedule({ onBack, initialTab = 'upcoming', onBookAgain }: MyS
     }
   };
 
-  const historyBookings = bookings.filter(b => b.status === 'completed' || b.status === 'cancelled');
+  const historyBookings = bookings.filter(b => b.status === 'completed' || b.status === 'cancelled' || b.status === 'no_show');
   const visibleHistoryBookings = historyBookings.filter(b => !hiddenBookingIds.has(b.id));
   const displayBookings = selectedTab === 'upcoming' ? upcomingBookings : visibleHistoryBookings;
 
@@ -266,6 +345,37 @@ export function MySchedule({ onBack, initialTab = 'upcoming', onBookAgain }: MyS
 
       {/* Bookings List */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {selectedTab === 'upcoming' && waitlistEntries.length > 0 && (
+          <div className="mb-6 bg-white rounded-2xl shadow-sm border border-purple-100 p-4">
+            <h3 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
+              <Hourglass className="w-4 h-4 text-purple-600" />
+              On the waitlist
+            </h3>
+            <div className="space-y-2">
+              {waitlistEntries.map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between gap-3 p-3 bg-purple-50 rounded-xl">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {services.find(s => s.id === entry.service_id)?.name || 'Service'}
+                    </p>
+                    <p className="text-xs text-gray-600">
+                      {formatWaitlistDates(entry)}
+                      {entry.status === 'offered' && (
+                        <span className="ml-2 text-pink-600 font-medium">Slot offered - check your notifications</span>
+                      )}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleLeaveWaitlist(entry.id)}
+                    className="text-xs text-gray-500 hover:text-red-600 font-medium whitespace-nowrap"
+                  >
+                    Leave
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
         {loading ? (
           <div className="text-center py-12">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500 mx-auto"></div>
@@ -305,8 +415,14 @@ export function MySchedule({ onBack, initialTab = 'upcoming', onBookAgain }: MyS
                           <div className="flex items-center gap-2 mb-2">
                             <span className={`px-3 py-1 rounded-full text-xs font-medium flex items-center gap-1 ${getStatusColor(booking.status)}`}>
                               {getStatusIcon(booking.status)}
-                              <span className="capitalize">{booking.status}</span>
+                              <span className="capitalize">{formatBookingStatus(booking.status)}</span>
                             </span>
+                            {booking.series_id && (
+                              <span className="px-2 py-1 rounded-full text-xs font-medium flex items-center gap-1 bg-purple-100 text-purple-700">
+                                <Repeat className="w-3 h-3" />
+                                Recurring
+                              </span>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -357,6 +473,21 @@ export function MySchedule({ onBack, initialTab = 'upcoming', onBookAgain }: MyS
                     </div>
                   )}
 
+                  {isDepositDue(booking) && (
+                    <div className="mb-4 p-4 bg-pink-50 border border-pink-100 rounded-xl flex items-center justify-between gap-3">
+                      <p className="text-sm text-gray-700">
+                        Pay your <span className="font-semibold">₱{Number(booking.deposit_amount).toFixed(2)}</span> deposit so the salon can confirm this appointment.
+                      </p>
+                      <button
+                        onClick={() => setDepositBooking(booking)}
+                        className="flex items-center gap-2 px-4 py-2 bg-pink-500 text-white rounded-xl text-sm font-semibold hover:bg-pink-600 transition-all whitespace-nowrap"
+                      >
+                        <Wallet className="w-4 h-4" />
+                        Pay deposit
+                      </button>
+                    </div>
+                  )}
+
                   {booking.status === 'pending' || booking.status === 'confirmed' ? (
                     <div className="flex gap-3">
                       <button
@@ -366,6 +497,14 @@ export function MySchedule({ onBack, initialTab = 'upcoming', onBookAgain }: MyS
                         <Eye className="w-4 h-4" />
                         View Details
                       </button>
+                      <button
+                        onClick={() => setReschedulingBooking(booking)}
+                        className="px-4 py-3 border-2 border-pink-500 text-pink-600 rounded-xl font-semibold hover:bg-pink-50 transition-all flex items-center gap-2"
+                        title="Reschedule"
+                      >
+                        <CalendarClock className="w-4 h-4" />
+                        <span className="hidden sm:inline">Reschedule</span>
+                      </button>
                       <button
                         onClick={() => handleCancelBooking(booking.id)}
                         disabled={cancellingId === booking.id}
@@ -443,6 +582,14 @@ export function MySchedule({ onBack, initialTab = 'upcoming', onBookAgain }: MyS
         onDelete={(booking) => handleDeleteBooking(booking.id)}
       />
 
+      {/* Reschedule Modal */}
+      <RescheduleModal
+        isOpen={!!reschedulingBooking}
+        booking={rescheduleTarget}
+        onClose={() => setReschedulingBooking(null)}
+        onRescheduled={refreshBookings}
+      />
+
       {/* Rating Modal */}
       {showRatingModal && ratingBooking && (
         <RatingModal
@@ -455,6 +602,16 @@ export function MySchedule({ onBack, initialTab = 'upcoming', onBookAgain }: MyS
           onRated={handleRatingComplete}
         />
       )}
+
+      {/* Deposit Modal */}
+      {depositBooking && (
+        <PaymentMethodModal
+          bookingIds={[depositBooking.id]}
+          depositAmount={Number(depositBooking.deposit_amount)}
+          onDone={() => setDepositBooking(null)}
+          onPayLater={() => setDepositBooking(null)}
+        />
+      )}
     </div>
   );
 }
@@ -3,6 +3,8 @@ import { ArrowLeft, User, Mail, Calendar, LogOut, Edit2 } from 'lucide-react';
 import { useAuth } from '../../auth/useAuth';
 import { getMyProfile, type Profile } from '../../api/profile';
 import { EditProfile } from '../../components/EditProfile';
+import { MyGiftCards } from '../components/MyGiftCards';
+import { MyLoyalty } from '../components/MyLoyalty';
 
 interface ProfileProps {
   onBack: () => void;
@@ -147,6 +149,9 @@ export function Profile({ onBack, onLogout }: ProfileProps) {
           </div>
         </div>
 
+        <MyLoyalty />
+        <MyGiftCards />
+
         {/* Actions */}
         <div className="space-y-4">
           <button
@@ -1,9 +1,11 @@
 import { useState, useEffect, useRef } from 'react';
-import { Search, Filter, MapPin, Star, Clock, Scissors, Navigation, Map as MapIcon, List, Locate } from 'lucide-react';
+import { Search, Filter, MapPin, Star, Clock, Scissors, Navigation, Map as MapIcon, List, Locate, Plus, Check, ShoppingBag } from 'lucide-react';
 import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import { useClient } from '../context/ClientContext';
+import { PackageOffers } from '../components/PackageOffers';
+import { isShopOpenAt } from '../../utils/businessHours';
 import type { Service } from '../types';
 
 // Fix Leaflet default marker icon issue
@@ -67,10 +69,13 @@ function LocationMarker({ userLocation }: { userLocation: { lat: number; lng: nu
 interface ServicesExploreProps {
   onSelectService: (service: Service) => void;
   onBack: () => void;
+  cart?: Service[]; // Services picked for a multi-service visit
+  onAddToCart?: (service: Service) => void;
+  onViewCart?: () => void;
 }
 
-export function ServicesExplore({ onSelectService, onBack }: ServicesExploreProps) {
-  const { services, loading } = useClient();
+export function ServicesExplore({ onSelectService, onBack, cart = [], onAddToCart, onViewCart }: ServicesExploreProps) {
+  const { services, shopCalendars, loading } = useClient();
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
@@ -350,6 +355,8 @@ export function ServicesExplore({ onSelectService, onBack }: ServicesExploreProp
       {/* Services Grid (List View) */}
       {viewMode === 'list' && (
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <PackageOffers searchQuery={searchQuery} />
+
           <div className="flex items-center justify-between mb-4">
             <p className="text-gray-600">
               {filteredServices.length} service{filteredServices.length !== 1 ? 's' : ''} found
@@ -401,6 +408,19 @@ export function ServicesExplore({ onSelectService, onBack }: ServicesExploreProp
                     <div className="absolute bottom-4 left-4 bg-black/50 backdrop-blur-sm px-3 py-1 rounded-full">
                       <span className="text-white text-xs font-medium capitalize">{service.category}</span>
                     </div>
+
+                    {/* Open/Closed Badge - follows the shop's business hours */}
+                    {shopCalendars.has(service.shop_id) && (
+                      isShopOpenAt(shopCalendars.get(service.shop_id)!) ? (
+                        <div className="absolute bottom-4 right-4 bg-green-500/90 backdrop-blur-sm px-3 py-1 rounded-full">
+                          <span className="text-white text-xs font-semibold">Open now</span>
+                        </div>
+                      ) : (
+                        <div className="absolute bottom-4 right-4 bg-gray-800/80 backdrop-blur-sm px-3 py-1 rounded-full">
+                          <span className="text-white text-xs font-semibold">Closed now</span>
+                        </div>
+                      )
+                    )}
                   </div>
 
                   {/* Service Info */}
@@ -437,15 +457,30 @@ export function ServicesExplore({ onSelectService, onBack }: ServicesExploreProp
                         <Clock className="w-4 h-4" />
                         <span className="text-sm">{service.duration} min</span>
                       </div>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          onSelectService(service);
-                        }}
-                        className="bg-gradient-to-r from-pink-500 to-pink-600 text-white px-6 py-2 rounded-lg font-semibold hover:from-pink-600 hover:to-pink-700 transition-all shadow-md hover:shadow-lg"
-                      >
-                        Book Now
-                      </button>
+                      <div className="flex items-center gap-2">
+                        {onAddToCart && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onAddToCart(service);
+                            }}
+                            disabled={cart.some(item => item.id === service.id)}
+                            className="p-2 border border-pink-200 text-pink-600 rounded-lg hover:bg-pink-50 transition-colors disabled:opacity-60 disabled:cursor-default"
+                            title={cart.some(item => item.id === service.id) ? 'Added to your visit' : 'Add to visit'}
+                          >
+                            {cart.some(item => item.id === service.id) ? <Check className="w-5 h-5" /> : <Plus className="w-5 h-5" />}
+                          </button>
+                        )}
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onSelectService(service);
+                          }}
+                          className="bg-gradient-to-r from-pink-500 to-pink-600 text-white px-6 py-2 rounded-lg font-semibold hover:from-pink-600 hover:to-pink-700 transition-all shadow-md hover:shadow-lg"
+                        >
+                          Book Now
+                        </button>
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -454,6 +489,24 @@ export function ServicesExplore({ onSelectService, onBack }: ServicesExploreProp
           )}
         </div>
       )}
+
+      {/* Visit cart */}
+      {cart.length > 0 && onViewCart && (
+        <div className="fixed bottom-20 md:bottom-6 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-md">
+          <button
+            onClick={onViewCart}
+            className="w-full flex items-center justify-between gap-3 bg-gradient-to-r from-pink-500 to-purple-600 text-white px-5 py-4 rounded-2xl shadow-xl hover:shadow-2xl transition-all"
+          >
+            <span className="flex items-center gap-2 font-semibold">
+              <ShoppingBag className="w-5 h-5" />
+              {cart.length} service{cart.length !== 1 ? 's' : ''} · {cart.reduce((sum, item) => sum + item.duration, 0)} min
+            </span>
+            <span className="font-bold">
+              ₱{cart.reduce((sum, item) => sum + item.price, 0).toLocaleString()} · Book visit
+            </span>
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,327 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Calendar, Clock, MapPin, Trash2, Check } from 'lucide-react';
+import { getServiceStylists } from '../api/stylists';
+import { bookVisit } from '../api/visits';
+import { useClient } from '../context/ClientContext';
+import { getVisitSlots, type VisitSlot } from '../../api/availability';
+import { getOpeningHoursForDate } from '../../utils/businessHours';
+import type { Service, Stylist } from '../types';
+
+interface VisitBookingScreenProps {
+  services: Service[]; // Cart contents, all at one shop, in the order they'll be done
+  onRemoveService: (serviceId: string) => void;
+  onBack: () => void;
+  onBookingComplete: (bookingIds: string[]) => void;
+}
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+
+export function VisitBookingScreen({ services, onRemoveService, onBack, onBookingComplete }: VisitBookingScreenProps) {
+  const { refreshBookings, shopCalendars } = useClient();
+  const shopId = services[0]?.shop_id;
+  const shopCalendar = shopId ? shopCalendars.get(shopId) : undefined;
+  const [stylistsByService, setStylistsByService] = useState<Record<string, Stylist[]>>({});
+  const [staffByService, setStaffByService] = useState<Record<string, string | null>>({});
+  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [slots, setSlots] = useState<VisitSlot[]>([]);
+  const [selectedSlot, setSelectedSlot] = useState<VisitSlot | null>(null);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const totalPrice = services.reduce((sum, service) => sum + service.price, 0);
+  const totalDuration = services.reduce((sum, service) => sum + service.duration, 0);
+
+  useEffect(() => {
+    services.forEach(service => {
+      getServiceStylists({ id: service.id, shop_id: service.shop_id }).then(stylists =>
+        setStylistsByService(prev => ({ ...prev, [service.id]: stylists }))
+      );
+    });
+  }, [services]);
+
+  // Stable request shape so availability only reloads when it actually changes
+  const visitRequest = useMemo(
+    () => services.map(service => ({
+      serviceId: service.id,
+      durationMinutes: service.duration,
+      staffId: staffByService[service.id] ?? null,
+    })),
+    [services, staffByService]
+  );
+
+  useEffect(() => {
+    if (!shopId || !selectedDate || visitRequest.length === 0) {
+      setSlots([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoadingSlots(true);
+    setSelectedSlot(null);
+    getVisitSlots({ shopId, date: selectedDate, services: visitRequest })
+      .then(data => {
+        if (!cancelled) setSlots(data);
+      })
+      .catch(err => {
+        console.error('Error fetching visit availability:', err);
+        if (!cancelled) setSlots([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingSlots(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [shopId, selectedDate, visitRequest]);
+
+  const availableSlots = slots.filter(slot => slot.available);
+
+  const handleBooking = async () => {
+    if (!shopId || !selectedSlot) {
+      setError('Please select a date and time');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const bookings = await bookVisit({
+        shopId,
+        start: selectedSlot.start,
+        items: services.map(service => ({ service, staffId: staffByService[service.id] ?? null })),
+        notes: notes || undefined,
+      });
+      await refreshBookings();
+      onBookingComplete(bookings.map(booking => booking.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to book your visit');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-50 via-white to-purple-50">
+      {/* Header */}
+      <div className="bg-white border-b border-pink-100 sticky top-0 z-50 safe-area-top">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={onBack}
+              className="p-2 hover:bg-pink-50 rounded-full transition-colors"
+            >
+              <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Book Your Visit</h1>
+              {services[0] && (
+                <p className="text-sm text-gray-600 flex items-center gap-1">
+                  <MapPin className="w-4 h-4 text-pink-500" />
+                  {services[0].shop_name}
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {services.length === 0 ? (
+          <div className="text-center py-12">
+            <Calendar className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Your visit is empty</h3>
+            <p className="text-gray-600">Add services from the explore page to book them together.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Left Column - Services */}
+            <div className="lg:col-span-1">
+              <div className="bg-white rounded-2xl shadow-sm border border-pink-100 p-6 sticky top-24">
+                <h3 className="text-lg font-bold text-gray-900 mb-4">Services</h3>
+                <div className="space-y-4">
+                  {services.map((service) => {
+                    const stylists = stylistsByService[service.id] || [];
+                    return (
+                      <div key={service.id} className="pb-4 border-b border-gray-100 last:border-0 last:pb-0">
+                        <div className="flex items-start justify-between gap-2">
+                          <div>
+                            <p className="font-semibold text-gray-900">{service.name}</p>
+                            <p className="text-xs text-gray-500">{service.duration} min · ₱{service.price.toLocaleString()}</p>
+                          </div>
+                          <button
+                            onClick={() => onRemoveService(service.id)}
+                            className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                            title="Remove from visit"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                        {stylists.length > 0 && (
+                          <select
+                            value={staffByService[service.id] ?? ''}
+                            onChange={(e) => setStaffByService(prev => ({ ...prev, [service.id]: e.target.value || null }))}
+                            className="mt-2 w-full px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-pink-500"
+                          >
+                            <option value="">Any available stylist</option>
+                            {stylists.map(stylist => (
+                              <option key={stylist.id} value={stylist.id}>{stylist.name}</option>
+                            ))}
+                          </select>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="pt-4 mt-4 border-t border-gray-100 space-y-1">
+                  <div className="flex items-center justify-between text-sm text-gray-600">
+                    <span className="flex items-center gap-1"><Clock className="w-4 h-4" /> Total time</span>
+                    <span>{totalDuration} min</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-600">Total Price:</span>
+                    <span className="text-2xl font-bold text-pink-600">₱{totalPrice.toLocaleString()}</span>
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {/* Right Column - Date & Time */}
+            <div className="lg:col-span-2 space-y-6">
+              <div className="bg-white rounded-2xl shadow-sm border border-pink-100 p-6">
+                <h3 className="text-lg font-bold text-gray-900 mb-4">Select Date</h3>
+                <div className="grid grid-cols-7 gap-2">
+                  {Array.from({ length: 14 }, (_, i) => {
+                    const date = new Date(today);
+                    date.setDate(date.getDate() + i);
+                    const isClosed = !!shopCalendar && getOpeningHoursForDate(shopCalendar, date).length === 0;
+                    const isSelected = selectedDate?.toDateString() === date.toDateString();
+
+                    return (
+                      <button
+                        key={i}
+                        onClick={() => setSelectedDate(date)}
+                        disabled={isClosed}
+                        className={`p-2 rounded-xl text-center transition-all ${
+                          isSelected
+                            ? 'bg-gradient-to-r from-pink-500 to-pink-600 text-white shadow-md'
+                            : isClosed
+                            ? 'text-gray-300 cursor-not-allowed'
+                            : 'hover:bg-pink-50 text-gray-900'
+                        }`}
+                      >
+                        <p className="text-xs">{date.toLocaleDateString('en-US', { weekday: 'short' })}</p>
+                        <p className="font-semibold">{date.getDate()}</p>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {selectedDate && (
+                <div className="bg-white rounded-2xl shadow-sm border border-pink-100 p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-bold text-gray-900">Select Start Time</h3>
+                    {loadingSlots && <span className="text-sm text-gray-500">Checking availability...</span>}
+                  </div>
+                  {!loadingSlots && availableSlots.length === 0 ? (
+                    <p className="text-sm text-gray-500 text-center">
+                      No openings on this date for a {totalDuration}-minute visit. Try another date or stylist.
+                    </p>
+                  ) : (
+                    <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-3">
+                      {availableSlots.map(slot => (
+                        <button
+                          key={slot.time}
+                          onClick={() => setSelectedSlot(slot)}
+                          className={`py-3.5 px-4 rounded-xl text-sm font-medium transition-all ${
+                            selectedSlot?.time === slot.time
+                              ? 'bg-gradient-to-r from-pink-500 to-pink-600 text-white shadow-md'
+                              : 'bg-pink-50 text-gray-900 hover:bg-pink-100 border border-pink-200'
+                          }`}
+                        >
+                          {slot.label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {selectedSlot && (
+                <div className="bg-white rounded-2xl shadow-sm border border-pink-100 p-6">
+                  <h3 className="text-lg font-bold text-gray-900 mb-4">Your Visit</h3>
+                  <ul className="space-y-2 mb-4">
+                    {selectedSlot.segments.map((segment, index) => (
+                      <li key={services[index]?.id ?? index} className="flex items-center justify-between text-sm">
+                        <span className="font-medium text-gray-900">{services[index]?.name}</span>
+                        <span className="text-gray-600">{formatTime(segment.start)} – {formatTime(segment.end)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  <textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Any special requests or preferences..."
+                    className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-pink-500 focus:border-transparent resize-none"
+                    rows={3}
+                  />
+                </div>
+              )}
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-xl p-4">
+                  <p className="text-red-800 text-sm">{error}</p>
+                </div>
+              )}
+
+              {selectedSlot && (
+                <div className="bg-white rounded-2xl shadow-sm border border-pink-100 p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <div>
+                      <p className="text-sm text-gray-600">Selected Date & Time</p>
+                      <p className="font-semibold text-gray-900">
+                        {selectedSlot.start.toLocaleDateString('en-US', {
+                          weekday: 'long',
+                          month: 'long',
+                          day: 'numeric',
+                          year: 'numeric',
+                        })}{' '}
+                        at <span className="font-bold">{selectedSlot.label}</span>
+                      </p>
+                      <p className="text-sm text-gray-600 mt-1">
+                        {services.length} services, finishing at {formatTime(selectedSlot.end)}
+                      </p>
+                    </div>
+                    <Check className="w-8 h-8 text-green-500" />
+                  </div>
+                  <button
+                    onClick={handleBooking}
+                    disabled={loading}
+                    className="w-full bg-gradient-to-r from-pink-500 to-pink-600 text-white py-4 rounded-xl font-semibold hover:from-pink-600 hover:to-pink-700 transition-all shadow-md hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {loading ? (
+                      <div className="flex items-center justify-center">
+                        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+                        Confirming...
+                      </div>
+                    ) : (
+                      'Confirm Visit'
+                    )}
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 // Client-side TypeScript types for GlamQueue
 
-export type BookingStatus = 'pending' | 'confirmed' | 'completed' | 'cancelled';
+export type BookingStatus = 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'no_show';
 
 export interface Service {
   id: string;
@@ -15,6 +15,8 @@ export interface Service {
   shop_address: string;
   image_url?: string;
   rating?: number;
+  deposit_type?: 'none' | 'fixed' | 'percentage'; // Deposit required when booking
+  deposit_value?: number; // Amount in pesos, or percent of the price
   created_at?: string;
 }
 
@@ -39,8 +41,18 @@ export interface Booking {
   shop_id: string;
   organization_id?: string; // Multi-tenancy: auto-set from shop
   date_time: string;
+  end_at?: string | null;
+  staff_id?: string | null;
   status: BookingStatus;
   notes?: string;
+  cancelled_by?: 'client' | 'salon' | null;
+  cancellation_reason?: string | null;
+  cancellation_fee?: number | null;
+  series_id?: string | null; // Recurring series this booking belongs to
+  visit_id?: string | null; // Services booked together in one visit
+  client_package_id?: string | null; // Package this booking draws a use from
+  deposit_amount?: number; // Deposit due before the salon confirms; 0 when none
+  deposit_paid_at?: string | null;
   created_at?: string;
   updated_at?: string;
   // Joined data
@@ -48,6 +60,15 @@ export interface Booking {
   shop?: Shop;
 }
 
+// A stylist a client can request for a service
+export interface Stylist {
+  id: string;
+  name: string;
+  avatar?: string;
+  rating: number; // 0 when not yet rated
+  review_count: number;
+}
+
 export interface TimeSlot {
   time: string;
   available: boolean;
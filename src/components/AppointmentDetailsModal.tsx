@@ -1,7 +1,16 @@
 import { useEffect, useMemo, useState } from 'react';
-import { X, Calendar, Clock, Mail, StickyNote, Check, Ban } from 'lucide-react';
+import { X, Calendar, Clock, Mail, StickyNote, Check, Ban, RotateCcw, Printer, Receipt } from 'lucide-react';
 import type { AppointmentWithDetails } from '../api/admin';
 import { getBookingPaymentDetails, type BookingPaymentDetails } from '../api/bookings';
+import { getBookingPayments, refundPayment } from '../api/payments';
+import { emailReceipt, getBookingCheckout } from '../api/checkout';
+import type { Checkout, Payment } from '../types/multiTenancy';
+import { formatBookingStatus } from '../utils/bookingPolicy';
+import { PAYMENT_STATUS_LABELS, formatPaymentFailure, getRefundableAmount } from '../utils/payments';
+import { getBookingBill, isDepositDue } from '../utils/deposits';
+import { TENDER_LABELS, printReceipt } from '../utils/checkout';
+import { glamError, glamPrompt, glamSuccess } from '../lib/glamAlerts';
+import { usePermission } from '../tenant/useTenant';
 
 interface AppointmentDetailsModalProps {
   isOpen: boolean;
@@ -20,6 +29,11 @@ export function AppointmentDetailsModal({
   const [error, setError] = useState<string | null>(null);
   const [paymentDetails, setPaymentDetails] = useState<BookingPaymentDetails | null>(null);
   const [loadingPaymentDetails, setLoadingPaymentDetails] = useState(false);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [refundingId, setRefundingId] = useState<string | null>(null);
+  const [checkout, setCheckout] = useState<Checkout | null>(null);
+  const [emailingReceipt, setEmailingReceipt] = useState(false);
+  const canRefund = usePermission('bookings.refund');
 
   const statusColor = useMemo(() => {
     switch (appointment?.status) {
@@ -31,6 +45,8 @@ export function AppointmentDetailsModal({
         return 'bg-blue-100 text-blue-700 border-blue-200';
       case 'cancelled':
         return 'bg-red-100 text-red-700 border-red-200';
+      case 'no_show':
+        return 'bg-gray-200 text-gray-800 border-gray-300';
       default:
         return 'bg-gray-100 text-gray-700 border-gray-200';
     }
@@ -68,6 +84,8 @@ export function AppointmentDetailsModal({
     // Only load payment details if modal is open and appointment exists
     if (!isOpen || !appointment) {
       setPaymentDetails(null);
+      setPayments([]);
+      setCheckout(null);
       setLoadingPaymentDetails(false);
       return;
     }
@@ -77,12 +95,24 @@ export function AppointmentDetailsModal({
     const load = async () => {
       setLoadingPaymentDetails(true);
       try {
-        const details = await getBookingPaymentDetails(appointment.id);
-        if (!cancelled) setPaymentDetails(details);
+        const [details, bookingPayments, bookingCheckout] = await Promise.all([
+          getBookingPaymentDetails(appointment.id),
+          getBookingPayments(appointment.id),
+          getBookingCheckout(appointment.id),
+        ]);
+        if (!cancelled) {
+          setPaymentDetails(details);
+          setPayments(bookingPayments);
+          setCheckout(bookingCheckout);
+        }
       } catch (e) {
         // Don't block the modal if payment details aren't available.
         console.error('Failed to load booking payment details:', e);
-        if (!cancelled) setPaymentDetails(null);
+        if (!cancelled) {
+          setPaymentDetails(null);
+          setPayments([]);
+          setCheckout(null);
+        }
       } finally {
         if (!cancelled) setLoadingPaymentDetails(false);
       }
@@ -96,6 +126,69 @@ export function AppointmentDetailsModal({
 
   if (!isOpen || !appointment) return null;
 
+  const depositDue = isDepositDue(appointment);
+  // The deposit and anything paid online come off the final bill
+  const bill = getBookingBill(Number(appointment.service_price || 0), payments);
+  const showBill = !checkout && !appointment.client_package_id && ((appointment.deposit_amount ?? 0) > 0 || payments.length > 0);
+
+  const handleRefund = async (payment: Payment) => {
+    const refundable = getRefundableAmount(payment);
+    const input = await glamPrompt({
+      title: 'Refund payment',
+      text: `Up to ₱${refundable.toFixed(2)} can be refunded. Leave blank to refund it all.`,
+      placeholder: refundable.toFixed(2),
+      confirmText: 'Refund',
+    });
+    if (input === null) return;
+
+    const amount = input.trim() ? Number(input) : refundable;
+    if (!Number.isFinite(amount) || amount <= 0 || amount > refundable) {
+      glamError(`Enter an amount between ₱0.01 and ₱${refundable.toFixed(2)}`);
+      return;
+    }
+
+    try {
+      setRefundingId(payment.id);
+      const updated = await refundPayment(payment, amount);
+      setPayments(prev => prev.map(p => (p.id === updated.id ? updated : p)));
+      glamSuccess(`Refunded ₱${amount.toFixed(2)}`);
+    } catch (e) {
+      console.error('Failed to refund payment:', e);
+      glamError(e instanceof Error ? e.message : 'Failed to refund payment');
+    } finally {
+      setRefundingId(null);
+    }
+  };
+
+  const handlePrintReceipt = () => {
+    if (checkout && !printReceipt(checkout)) {
+      glamError('Allow pop-ups for this site to print receipts');
+    }
+  };
+
+  const handleEmailReceipt = async () => {
+    if (!checkout) return;
+    const email = await glamPrompt({
+      title: 'Email receipt',
+      text: appointment.client_email
+        ? `Leave blank to send it to ${appointment.client_email}`
+        : 'Enter the email address to send the receipt to',
+      placeholder: 'name@example.com',
+      confirmText: 'Send',
+    });
+    if (email === null) return;
+
+    try {
+      setEmailingReceipt(true);
+      await emailReceipt(checkout.id, email);
+      glamSuccess('Receipt sent');
+    } catch (e) {
+      glamError(e instanceof Error ? e.message : 'Failed to send the receipt');
+    } finally {
+      setEmailingReceipt(false);
+    }
+  };
+
   const handleUpdate = async (status: AppointmentWithDetails['status']) => {
     setUpdating(true);
     setError(null);
@@ -117,7 +210,7 @@ export function AppointmentDetailsModal({
             <div>
               <h2 className="text-base sm:text-lg font-bold">Appointment #{appointment.id}</h2>
               <div className="mt-2 inline-flex px-3 py-1 rounded-full text-xs font-semibold border bg-white/10 border-white/20">
-                {appointment.status}
+                {formatBookingStatus(appointment.status)}
               </div>
             </div>
             <button
@@ -188,7 +281,7 @@ export function AppointmentDetailsModal({
           )}
 
           <div className="space-y-2">
-            <p className="text-sm font-semibold text-gray-900">Payment (Mock)</p>
+            <p className="text-sm font-semibold text-gray-900">Payment</p>
             {loadingPaymentDetails ? (
               <p className="text-sm text-gray-600">Loading…</p>
             ) : paymentDetails ? (
@@ -199,9 +292,11 @@ export function AppointmentDetailsModal({
                     ? 'Cash'
                     : paymentDetails.payment_method === 'online'
                       ? 'DigiBank/Online'
-                      : 'Visa'}
+                      : paymentDetails.payment_method === 'gift_card'
+                        ? 'Gift card'
+                        : 'Visa'}
                 </p>
-                {paymentDetails.payment_method === 'online' && (
+                {(paymentDetails.payment_method === 'online' || paymentDetails.payment_method === 'gift_card') && (
                   <>
                     {paymentDetails.details?.provider ? (
                       <p>
@@ -248,11 +343,146 @@ export function AppointmentDetailsModal({
             ) : (
               <p className="text-sm text-gray-600">No payment details recorded.</p>
             )}
+            {payments.map(payment => (
+              <div
+                key={payment.id}
+                className="flex items-center justify-between gap-3 rounded-lg border border-gray-200 px-3 py-2 text-sm"
+              >
+                <div className="text-gray-700">
+                  <p>
+                    <span className="font-medium">₱{payment.amount.toFixed(2)}</span> ·{' '}
+                    {PAYMENT_STATUS_LABELS[payment.status]}
+                    {payment.refunded_amount > 0 && payment.status !== 'refunded' && (
+                      <span className="text-gray-500"> (₱{payment.refunded_amount.toFixed(2)} refunded)</span>
+                    )}
+                  </p>
+                  {payment.status === 'failed' && (
+                    <p className="text-xs text-red-600">{formatPaymentFailure(payment.failure_reason)}</p>
+                  )}
+                </div>
+                {canRefund && getRefundableAmount(payment) > 0 && (
+                  <button
+                    onClick={() => handleRefund(payment)}
+                    disabled={refundingId !== null}
+                    className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-pink-600 border border-pink-200 rounded-lg hover:bg-pink-50 disabled:opacity-50"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    {refundingId === payment.id ? 'Refunding…' : 'Refund'}
+                  </button>
+                )}
+              </div>
+            ))}
+            {showBill && (
+              <div className="rounded-lg bg-gray-50 p-3 text-sm text-gray-700 space-y-1">
+                <div className="flex justify-between">
+                  <span>Service</span>
+                  <span>₱{bill.price.toFixed(2)}</span>
+                </div>
+                {depositDue ? (
+                  <div className="flex justify-between text-amber-700">
+                    <span>Deposit (not paid yet)</span>
+                    <span>₱{Number(appointment.deposit_amount).toFixed(2)}</span>
+                  </div>
+                ) : bill.depositPaid > 0 ? (
+                  <div className="flex justify-between">
+                    <span>Deposit paid</span>
+                    <span>−₱{bill.depositPaid.toFixed(2)}</span>
+                  </div>
+                ) : null}
+                {bill.otherPaid > 0 && (
+                  <div className="flex justify-between">
+                    <span>Paid online</span>
+                    <span>−₱{bill.otherPaid.toFixed(2)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-semibold text-gray-900 border-t border-gray-200 pt-1">
+                  <span>Balance due</span>
+                  <span>₱{bill.balance.toFixed(2)}</span>
+                </div>
+              </div>
+            )}
           </div>
 
+          {checkout && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+                  <Receipt className="w-4 h-4 text-gray-400" />
+                  Receipt {checkout.receipt_number}
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    onClick={handlePrintReceipt}
+                    className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50"
+                  >
+                    <Printer className="w-3 h-3" />
+                    Print
+                  </button>
+                  <button
+                    onClick={handleEmailReceipt}
+                    disabled={emailingReceipt}
+                    className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <Mail className="w-3 h-3" />
+                    {emailingReceipt ? 'Sending…' : 'Email'}
+                  </button>
+                </div>
+              </div>
+              <div className="rounded-lg bg-gray-50 p-3 text-sm text-gray-700 space-y-1">
+                {(checkout.items ?? []).map(item => (
+                  <div key={item.id} className="flex justify-between gap-3">
+                    <span>{item.description}{item.quantity > 1 && ` × ${item.quantity}`}</span>
+                    <span>₱{item.line_total.toFixed(2)}</span>
+                  </div>
+                ))}
+                {checkout.discount_amount > 0 && (
+                  <div className="flex justify-between">
+                    <span>Discount{checkout.discount_reason && ` (${checkout.discount_reason})`}</span>
+                    <span>−₱{checkout.discount_amount.toFixed(2)}</span>
+                  </div>
+                )}
+                {checkout.tip_amount > 0 && (
+                  <div className="flex justify-between">
+                    <span>Tip</span>
+                    <span>₱{checkout.tip_amount.toFixed(2)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-semibold text-gray-900 border-t border-gray-200 pt-1">
+                  <span>Total</span>
+                  <span>₱{checkout.total.toFixed(2)}</span>
+                </div>
+                {(checkout.tenders ?? []).map(tender => (
+                  <div key={tender.id} className="flex justify-between text-gray-600">
+                    <span>{TENDER_LABELS[tender.method]}{tender.reference && ` (${tender.reference})`}</span>
+                    <span>₱{tender.amount.toFixed(2)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {(appointment.status === 'cancelled' || appointment.status === 'no_show') && (
+            <div className="rounded-lg border border-gray-200 p-3 text-sm text-gray-700 space-y-1">
+              {appointment.cancelled_by && (
+                <p>
+                  <span className="font-medium">Cancelled by:</span> {appointment.cancelled_by === 'salon' ? 'Salon' : 'Client'}
+                  {appointment.late_cancellation && ' (late)'}
+                </p>
+              )}
+              {appointment.cancellation_reason && (
+                <p>
+                  <span className="font-medium">Reason:</span> {appointment.cancellation_reason}
+                </p>
+              )}
+              <p>
+                <span className="font-medium">Fee:</span> ₱{Number(appointment.cancellation_fee || 0).toLocaleString()}
+              </p>
+            </div>
+          )}
+
           <div className="pt-2">
             <div className={`inline-flex px-3 py-1 rounded-full text-xs font-semibold border ${statusColor}`}>
-              Status: {appointment.status}
+              Status: {formatBookingStatus(appointment.status)}
             </div>
           </div>
         </div>
@@ -269,7 +499,8 @@ export function AppointmentDetailsModal({
                 Cancel
               </button>
               <button
-                disabled={updating}
+                disabled={updating || depositDue}
+                title={depositDue ? 'Waiting for the client to pay the deposit' : undefined}
                 onClick={() => handleUpdate('confirmed')}
                 className="px-3 py-2 rounded-lg bg-green-600 text-white hover:bg-green-700 transition-colors text-sm font-medium disabled:opacity-60 disabled:cursor-not-allowed inline-flex items-center gap-2"
               >
@@ -285,7 +516,7 @@ export function AppointmentDetailsModal({
               className="px-3 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors text-sm font-medium disabled:opacity-60 disabled:cursor-not-allowed inline-flex items-center gap-2"
             >
               <Check className="w-4 h-4" />
-              Mark Complete
+              Check Out
             </button>
           )}
           <button
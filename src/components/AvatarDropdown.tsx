@@ -2,6 +2,7 @@ import { useState, useRef, useEffect } from 'react';
 import { User, Settings, LogOut, ChevronDown, Crown, Clock } from 'lucide-react';
 import type { Profile } from '../api/profile';
 import { getActiveSubscription, type Subscription } from '../api/subscriptions';
+import { OrganizationSwitcher } from './OrganizationSwitcher';
 
 interface AvatarDropdownProps {
   profile: Profile | null;
@@ -114,6 +115,8 @@ export function AvatarDropdown({ profile, onLogout, role = 'admin', onViewProfil
             </div>
           </div>
 
+          <OrganizationSwitcher onSwitched={() => setIsOpen(false)} />
+
           {/* Subscription Status - Only for Admin */}
           {role === 'admin' && (
             <div className="px-4 py-3 border-b border-gray-200">
@@ -0,0 +1,510 @@
+import { useEffect, useState } from 'react';
+import { X, Receipt, Plus, Trash2, Printer, Mail, CheckCircle } from 'lucide-react';
+import { completeCheckout, emailReceipt, getCheckoutContext, type CheckoutContext } from '../api/checkout';
+import type { AppointmentWithDetails } from '../api/admin';
+import {
+  TENDER_LABELS,
+  calculateCheckoutTotals,
+  getChangeDue,
+  getLineTotal,
+  printReceipt,
+  validateTenders,
+} from '../utils/checkout';
+import { glamError, glamPrompt, glamSuccess } from '../lib/glamAlerts';
+import { usePermission } from '../tenant/useTenant';
+import type { Checkout, CheckoutItemInput, TenderMethod } from '../types/multiTenancy';
+
+interface CheckoutModalProps {
+  isOpen: boolean;
+  appointment: AppointmentWithDetails | null;
+  onClose: () => void;
+  onCompleted: (checkout: Checkout) => void; // The booking is now completed
+}
+
+type LineItem = CheckoutItemInput & { key: number };
+type TenderRow = { key: number; method: TenderMethod; amount: string; reference: string };
+
+let nextKey = 1;
+
+const toNumber = (value: string) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const formatMoney = (value: number) => `₱${value.toFixed(2)}`;
+
+export function CheckoutModal({ isOpen, appointment, onClose, onCompleted }: CheckoutModalProps) {
+  const [context, setContext] = useState<CheckoutContext | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [items, setItems] = useState<LineItem[]>([]);
+  const [discountValue, setDiscountValue] = useState('');
+  const [discountIsPercent, setDiscountIsPercent] = useState(false);
+  const [discountReason, setDiscountReason] = useState('');
+  const [tip, setTip] = useState('');
+  const [tenders, setTenders] = useState<TenderRow[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [checkout, setCheckout] = useState<Checkout | null>(null);
+  const [emailing, setEmailing] = useState(false);
+  const canCheckout = usePermission('bookings.checkout');
+
+  useEffect(() => {
+    if (!isOpen || !appointment) return;
+    let cancelled = false;
+    setContext(null);
+    setItems([]);
+    setDiscountValue('');
+    setDiscountIsPercent(false);
+    setDiscountReason('');
+    setTip('');
+    setTenders([{ key: nextKey++, method: 'cash', amount: '', reference: '' }]);
+    setCheckout(null);
+    setLoading(true);
+
+    getCheckoutContext(appointment.id)
+      .then(data => {
+        if (cancelled) return;
+        const name = data.service?.name || appointment.service_name || 'Service';
+        setContext(data);
+        setItems([{
+          key: nextKey++,
+          kind: 'service',
+          service_id: data.service?.id ?? String(appointment.service_id),
+          description: data.coveredByPackage ? `${name} (package)` : name,
+          unit_price: data.coveredByPackage ? 0 : data.service?.price ?? appointment.service_price ?? 0,
+          quantity: 1,
+        }]);
+        // The promo code or points the client booked with become the checkout discount
+        if (data.bookingDiscount) {
+          setDiscountValue(data.bookingDiscount.amount.toString());
+          setDiscountReason(data.bookingDiscount.reason);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading checkout:', error);
+        if (!cancelled) glamError(error instanceof Error ? error.message : 'Failed to load checkout');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, appointment]);
+
+  if (!isOpen || !appointment) return null;
+
+  const subtotal = items.reduce((sum, item) => sum + getLineTotal(item), 0);
+  const discount = discountIsPercent
+    ? Math.round(subtotal * Math.min(toNumber(discountValue), 100)) / 100
+    : toNumber(discountValue);
+  const totals = calculateCheckoutTotals({ items, discount, tip: toNumber(tip), prepaid: context?.prepaid ?? 0 });
+  const tenderInputs = tenders
+    .filter(tender => tender.amount !== '')
+    .map(tender => ({ method: tender.method, amount: toNumber(tender.amount), reference: tender.reference.trim() || null }));
+  const tendered = tenderInputs.reduce((sum, tender) => sum + tender.amount, 0);
+  const changeDue = getChangeDue(tenderInputs, totals.amountDue);
+  const tenderError = validateTenders(tenderInputs, totals.amountDue);
+
+  const updateItem = (key: number, patch: Partial<LineItem>) =>
+    setItems(prev => prev.map(item => (item.key === key ? { ...item, ...patch } : item)));
+
+  const handleAddCatalogItem = (value: string) => {
+    const [kind, id] = value.split(':');
+    if (kind === 'service') {
+      const service = context?.services.find(s => s.id === id);
+      if (!service) return;
+      setItems(prev => [...prev, { key: nextKey++, kind: 'addon', service_id: service.id, description: service.name, unit_price: service.price, quantity: 1 }]);
+    } else if (kind === 'product') {
+      const product = context?.products.find(p => p.id === id);
+      if (!product) return;
+      setItems(prev => [...prev, { key: nextKey++, kind: 'product', product_id: product.id, description: product.name, unit_price: product.price, quantity: 1 }]);
+    }
+  };
+
+  const handleAddCustomAddon = () =>
+    setItems(prev => [...prev, { key: nextKey++, kind: 'addon', description: '', unit_price: 0, quantity: 1 }]);
+
+  const updateTender = (key: number, patch: Partial<TenderRow>) =>
+    setTenders(prev => prev.map(tender => (tender.key === key ? { ...tender, ...patch } : tender)));
+
+  // Fill a payment line with whatever the other lines leave unpaid
+  const fillTender = (key: number) => {
+    const others = tenders
+      .filter(tender => tender.key !== key)
+      .reduce((sum, tender) => sum + toNumber(tender.amount), 0);
+    updateTender(key, { amount: Math.max(0, totals.amountDue - others).toFixed(2) });
+  };
+
+  const handleComplete = async () => {
+    if (items.some(item => !item.description.trim())) {
+      glamError('Give every add-on a name');
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const result = await completeCheckout({
+        bookingId: appointment.id,
+        items: items.map(item => ({
+          kind: item.kind,
+          service_id: item.service_id ?? null,
+          product_id: item.product_id ?? null,
+          description: item.description.trim(),
+          unit_price: item.unit_price,
+          quantity: item.quantity,
+        })),
+        tenders: tenderInputs,
+        discount: totals.discount,
+        discountReason: discountReason.trim(),
+        tip: totals.tip,
+        prepaid: totals.prepaid,
+      });
+      setCheckout(result);
+      onCompleted(result);
+    } catch (error) {
+      console.error('Error completing checkout:', error);
+      glamError(error instanceof Error ? error.message : 'Failed to complete checkout');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handlePrint = () => {
+    if (checkout && !printReceipt(checkout)) {
+      glamError('Allow pop-ups for this site to print receipts');
+    }
+  };
+
+  const handleEmail = async () => {
+    if (!checkout) return;
+    const email = await glamPrompt({
+      title: 'Email receipt',
+      text: appointment.client_email && appointment.client_email !== 'Unknown'
+        ? `Leave blank to send it to ${appointment.client_email}`
+        : 'Enter the email address to send the receipt to',
+      placeholder: 'name@example.com',
+      confirmText: 'Send',
+    });
+    if (email === null) return;
+
+    setEmailing(true);
+    try {
+      await emailReceipt(checkout.id, email);
+      glamSuccess('Receipt sent');
+    } catch (error) {
+      glamError(error instanceof Error ? error.message : 'Failed to send the receipt');
+    } finally {
+      setEmailing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between bg-gradient-to-r from-pink-50 to-purple-50">
+          <div className="flex items-center gap-3">
+            <Receipt className="w-6 h-6 text-pink-500" />
+            <div>
+              <h2 className="text-lg font-bold text-gray-900">Checkout</h2>
+              <p className="text-sm text-gray-600">
+                {appointment.client_name || 'Client'} • {new Date(appointment.start_at).toLocaleString()}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        {checkout ? (
+          <div className="flex-1 overflow-y-auto p-6 space-y-5">
+            <div className="text-center">
+              <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-2" />
+              <p className="text-lg font-bold text-gray-900">Checkout complete</p>
+              <p className="text-sm text-gray-500">Receipt {checkout.receipt_number}</p>
+            </div>
+            <div className="p-4 bg-gray-50 rounded-lg space-y-1 text-sm">
+              <div className="flex justify-between"><span className="text-gray-600">Total</span><span className="font-semibold">{formatMoney(checkout.total)}</span></div>
+              {checkout.prepaid_amount > 0 && (
+                <div className="flex justify-between"><span className="text-gray-600">Paid online</span><span>−{formatMoney(checkout.prepaid_amount)}</span></div>
+              )}
+              <div className="flex justify-between"><span className="text-gray-600">Collected</span><span>{formatMoney(checkout.amount_due)}</span></div>
+              {checkout.change_given > 0 && (
+                <div className="flex justify-between text-green-700 font-semibold"><span>Change</span><span>{formatMoney(checkout.change_given)}</span></div>
+              )}
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={handlePrint}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 flex items-center justify-center gap-2"
+              >
+                <Printer className="w-4 h-4" /> Print
+              </button>
+              <button
+                onClick={() => void handleEmail()}
+                disabled={emailing}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                <Mail className="w-4 h-4" /> {emailing ? 'Sending...' : 'Email'}
+              </button>
+            </div>
+            <button
+              onClick={onClose}
+              className="w-full px-4 py-2 bg-gradient-to-r from-pink-500 to-purple-600 text-white rounded-lg hover:from-pink-600 hover:to-purple-700"
+            >
+              Done
+            </button>
+          </div>
+        ) : loading || !context ? (
+          <div className="flex-1 flex items-center justify-center p-12">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-pink-500"></div>
+          </div>
+        ) : (
+          <>
+            <div className="flex-1 overflow-y-auto p-6 space-y-6">
+              {/* Line items */}
+              <section>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">Items</h3>
+                <div className="space-y-2">
+                  {items.map(item => (
+                    <div key={item.key} className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={item.description}
+                        onChange={e => updateItem(item.key, { description: e.target.value })}
+                        disabled={item.kind !== 'addon' || !!item.service_id}
+                        placeholder="Add-on name"
+                        className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                      />
+                      <input
+                        type="number"
+                        min="1"
+                        value={item.quantity}
+                        onChange={e => updateItem(item.key, { quantity: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                        disabled={item.kind === 'service'}
+                        className="w-16 px-2 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                        aria-label="Quantity"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={item.unit_price}
+                        onChange={e => updateItem(item.key, { unit_price: Math.max(0, toNumber(e.target.value)) })}
+                        disabled={item.kind !== 'addon' || !!item.service_id}
+                        className="w-28 px-2 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                        aria-label="Price"
+                      />
+                      <span className="w-24 text-right text-sm font-medium text-gray-900">{formatMoney(getLineTotal(item))}</span>
+                      {item.kind === 'service' ? (
+                        <span className="w-8" />
+                      ) : (
+                        <button
+                          onClick={() => setItems(prev => prev.filter(i => i.key !== item.key))}
+                          className="w-8 p-2 text-red-500 hover:bg-red-50 rounded-lg"
+                          aria-label="Remove item"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-2 mt-3">
+                  <select
+                    value=""
+                    onChange={e => handleAddCatalogItem(e.target.value)}
+                    className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="">Add a service or product...</option>
+                    {context.services.length > 0 && (
+                      <optgroup label="Add-on services">
+                        {context.services.map(service => (
+                          <option key={service.id} value={`service:${service.id}`}>
+                            {service.name} — {formatMoney(service.price)}
+                          </option>
+                        ))}
+                      </optgroup>
+                    )}
+                    {context.products.length > 0 && (
+                      <optgroup label="Retail products">
+                        {context.products.map(product => (
+                          <option key={product.id} value={`product:${product.id}`}>
+                            {product.name} — {formatMoney(product.price)}
+                          </option>
+                        ))}
+                      </optgroup>
+                    )}
+                  </select>
+                  <button
+                    onClick={handleAddCustomAddon}
+                    className="px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm flex items-center gap-1"
+                  >
+                    <Plus className="w-4 h-4" /> Custom add-on
+                  </button>
+                </div>
+              </section>
+
+              {/* Discount and tip */}
+              <section className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">Discount</h3>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={discountValue}
+                      onChange={e => setDiscountValue(e.target.value)}
+                      placeholder="0"
+                      className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                    <select
+                      value={discountIsPercent ? 'percent' : 'amount'}
+                      onChange={e => setDiscountIsPercent(e.target.value === 'percent')}
+                      className="px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                    >
+                      <option value="amount">₱</option>
+                      <option value="percent">%</option>
+                    </select>
+                  </div>
+                  {totals.discount > 0 && (
+                    <input
+                      type="text"
+                      value={discountReason}
+                      onChange={e => setDiscountReason(e.target.value)}
+                      placeholder="Reason (optional)"
+                      className="w-full mt-2 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                  )}
+                </div>
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">Tip</h3>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={tip}
+                    onChange={e => setTip(e.target.value)}
+                    placeholder="0"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    {appointment.staff_name ? `Goes to ${appointment.staff_name}` : 'No stylist is assigned to this appointment'}
+                  </p>
+                </div>
+              </section>
+
+              {/* Totals */}
+              <section className="p-4 bg-gray-50 rounded-lg space-y-1 text-sm">
+                <div className="flex justify-between"><span className="text-gray-600">Subtotal</span><span>{formatMoney(totals.subtotal)}</span></div>
+                {totals.discount > 0 && (
+                  <div className="flex justify-between"><span className="text-gray-600">Discount</span><span>−{formatMoney(totals.discount)}</span></div>
+                )}
+                {totals.tip > 0 && (
+                  <div className="flex justify-between"><span className="text-gray-600">Tip</span><span>{formatMoney(totals.tip)}</span></div>
+                )}
+                <div className="flex justify-between font-semibold text-gray-900"><span>Total</span><span>{formatMoney(totals.total)}</span></div>
+                {totals.prepaid > 0 && (
+                  <div className="flex justify-between text-green-700"><span>Paid online</span><span>−{formatMoney(totals.prepaid)}</span></div>
+                )}
+                <div className="flex justify-between text-base font-bold text-pink-600 pt-1 border-t border-gray-200">
+                  <span>Amount due</span><span>{formatMoney(totals.amountDue)}</span>
+                </div>
+              </section>
+
+              {/* Tenders */}
+              {totals.amountDue > 0 && (
+                <section>
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">Payment</h3>
+                  <div className="space-y-2">
+                    {tenders.map(tender => (
+                      <div key={tender.key} className="flex items-center gap-2">
+                        <select
+                          value={tender.method}
+                          onChange={e => updateTender(tender.key, { method: e.target.value as TenderMethod })}
+                          className="w-28 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                        >
+                          {(Object.keys(TENDER_LABELS) as TenderMethod[]).map(method => (
+                            <option key={method} value={method}>{TENDER_LABELS[method]}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={tender.amount}
+                          onChange={e => updateTender(tender.key, { amount: e.target.value })}
+                          placeholder="Amount"
+                          className="w-28 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                        />
+                        <button
+                          onClick={() => fillTender(tender.key)}
+                          className="px-2 py-2 text-xs text-pink-600 hover:bg-pink-50 rounded-lg"
+                        >
+                          Exact
+                        </button>
+                        {tender.method !== 'cash' ? (
+                          <input
+                            type="text"
+                            value={tender.reference}
+                            onChange={e => updateTender(tender.key, { reference: e.target.value })}
+                            placeholder={tender.method === 'gift_card' ? 'Gift card code' : 'Reference'}
+                            className="flex-1 min-w-0 px-2 py-2 border border-gray-300 rounded-lg text-sm"
+                          />
+                        ) : (
+                          <span className="flex-1" />
+                        )}
+                        {tenders.length > 1 && (
+                          <button
+                            onClick={() => setTenders(prev => prev.filter(t => t.key !== tender.key))}
+                            className="p-2 text-red-500 hover:bg-red-50 rounded-lg"
+                            aria-label="Remove payment"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    onClick={() => setTenders(prev => [...prev, { key: nextKey++, method: 'card', amount: '', reference: '' }])}
+                    className="mt-2 text-sm text-pink-600 hover:text-pink-700 flex items-center gap-1"
+                  >
+                    <Plus className="w-4 h-4" /> Split payment
+                  </button>
+                  <div className="mt-3 text-sm space-y-1">
+                    <div className="flex justify-between"><span className="text-gray-600">Tendered</span><span>{formatMoney(tendered)}</span></div>
+                    {changeDue > 0 && !tenderError && (
+                      <div className="flex justify-between font-semibold text-green-700"><span>Change</span><span>{formatMoney(changeDue)}</span></div>
+                    )}
+                    {tenderError && tenderInputs.length > 0 && <p className="text-red-600">{tenderError}</p>}
+                  </div>
+                </section>
+              )}
+            </div>
+
+            {!canCheckout && (
+              <p className="px-6 pt-3 text-xs text-gray-500">You don't have permission to check out appointments</p>
+            )}
+            <div className="px-6 py-4 border-t border-gray-200 flex gap-3">
+              <button
+                onClick={onClose}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => void handleComplete()}
+                disabled={submitting || !!tenderError || !canCheckout}
+                className="flex-1 px-4 py-2 bg-gradient-to-r from-pink-500 to-purple-600 text-white rounded-lg hover:from-pink-600 hover:to-purple-700 disabled:opacity-50"
+              >
+                {submitting ? 'Processing...' : `Complete • ${formatMoney(totals.amountDue)}`}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
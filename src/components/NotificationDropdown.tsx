@@ -1,30 +1,45 @@
 import { useState, useEffect, useRef } from 'react';
-import { Bell, Calendar, Clock } from 'lucide-react';
+import { Bell, Calendar, Clock, Sparkles } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import type { AppointmentWithDetails } from '../api/admin';
+import { getMyNotifications, markNotificationsRead } from '../api/notifications';
+import { claimWaitlistOffer } from '../client/api/waitlist';
+import { glamError, glamSuccess } from '../lib/glamAlerts';
+import type { UserNotification } from '../types/multiTenancy';
 
 interface NotificationDropdownProps {
   role?: 'admin' | 'manager' | 'staff' | 'client';
   onNotificationClick?: (appointmentId: number) => void;
+  onWaitlistClaimed?: () => void;
 }
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export function NotificationDropdown({ role: _role = 'admin', onNotificationClick }: NotificationDropdownProps) {
+export function NotificationDropdown({ role = 'admin', onNotificationClick, onWaitlistClaimed }: NotificationDropdownProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [notifications, setNotifications] = useState<AppointmentWithDetails[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
+  const [inbox, setInbox] = useState<UserNotification[]>([]);
+  const [claimingId, setClaimingId] = useState<string | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
+  // Clients only get their own notifications, not the salon's booking feed
+  const showBookingFeed = role !== 'client';
 
   useEffect(() => {
-    loadNotifications();
+    if (showBookingFeed) loadNotifications();
+    loadInbox();
     
-    // Set up realtime subscription for new bookings
+    // Set up realtime subscription for new bookings and personal notifications
     const channel = supabase
       .channel('notifications-bookings')
       .on('postgres_changes', 
         { event: 'INSERT', schema: 'public', table: 'bookings' },
         () => {
-          loadNotifications();
+          if (showBookingFeed) loadNotifications();
+        }
+      )
+      .on('postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications' },
+        () => {
+          loadInbox();
         }
       )
       .subscribe();
@@ -32,7 +47,7 @@ export function NotificationDropdown({ role: _role = 'admin', onNotificationClic
     return () => {
       supabase.removeChannel(channel);
     };
-  }, []);
+  }, [showBookingFeed]);
 
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -118,6 +133,42 @@ export function NotificationDropdown({ role: _role = 'admin', onNotificationClic
     }
   };
 
+  const loadInbox = async () => {
+    setInbox(await getMyNotifications());
+  };
+
+  const inboxUnreadIds = inbox.filter(n => !n.read_at).map(n => n.id);
+  const totalUnread = unreadCount + inboxUnreadIds.length;
+
+  const markInboxRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    const readAt = new Date().toISOString();
+    setInbox(prev => prev.map(n => (ids.includes(n.id) && !n.read_at ? { ...n, read_at: readAt } : n)));
+    try {
+      await markNotificationsRead(ids);
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  };
+
+  const handleClaimOffer = async (notification: UserNotification) => {
+    const entryId = notification.data?.waitlist_entry_id;
+    if (typeof entryId !== 'string') return;
+
+    setClaimingId(notification.id);
+    try {
+      await claimWaitlistOffer(entryId);
+      glamSuccess('Booked! The slot is yours.');
+      await markInboxRead([notification.id]);
+      setIsOpen(false);
+      onWaitlistClaimed?.();
+    } catch (error) {
+      glamError(error instanceof Error ? error.message : 'Failed to book this slot');
+    } finally {
+      setClaimingId(null);
+    }
+  };
+
   const formatTimeAgo = (dateString: string) => {
     const now = new Date();
     const date = new Date(dateString);
@@ -152,7 +203,7 @@ export function NotificationDropdown({ role: _role = 'admin', onNotificationClic
         className="p-2 hover:bg-gray-100 rounded-lg transition-colors relative"
       >
         <Bell className="w-5 h-5 text-gray-600" />
-        {unreadCount > 0 && (
+        {totalUnread > 0 && (
           <span className="absolute top-1 right-1 w-2 h-2 bg-pink-500 rounded-full"></span>
         )}
       </button>
@@ -162,20 +213,93 @@ export function NotificationDropdown({ role: _role = 'admin', onNotificationClic
           {/* Header */}
           <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between bg-gradient-to-r from-pink-50 to-purple-50">
             <h3 className="font-semibold text-gray-900">Notifications</h3>
-            {unreadCount > 0 && (
+            {totalUnread > 0 && (
               <span className="px-2 py-1 bg-pink-500 text-white text-xs rounded-full font-medium">
-                {unreadCount} new
+                {totalUnread} new
               </span>
             )}
           </div>
 
           {/* Notifications List */}
           <div className="overflow-y-auto flex-1">
-            {notifications.length === 0 ? (
-              <div className="px-4 py-8 text-center text-gray-500">
-                <Bell className="w-12 h-12 mx-auto mb-2 text-gray-300" />
-                <p className="text-sm">No new appointments</p>
+            {inbox.length > 0 && (
+              <div className="divide-y divide-gray-100 border-b border-gray-100">
+                {inbox.map((item) => {
+                  const expiresAt = typeof item.data?.offer_expires_at === 'string' ? item.data.offer_expires_at : null;
+                  const startAt = typeof item.data?.start_at === 'string' ? item.data.start_at : null;
+                  const isOffer = item.type === 'waitlist_offer';
+                  const offerOpen = isOffer && !!expiresAt && new Date(expiresAt) > new Date();
+
+                  return (
+                    <div
+                      key={item.id}
+                      onClick={() => markInboxRead([item.id])}
+                      className={`px-4 py-3 transition-colors ${item.read_at ? 'hover:bg-gray-50' : 'bg-pink-50/60 hover:bg-pink-50'}`}
+                    >
+                      <div className="flex items-start gap-3">
+                        <div className="w-10 h-10 bg-gradient-to-br from-pink-400 to-purple-500 rounded-full flex items-center justify-center text-white flex-shrink-0">
+                          <Sparkles className="w-5 h-5" />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-start justify-between gap-2 mb-1">
+                            <p className="text-sm font-semibold text-gray-900">{item.title}</p>
+                            <span className="text-xs text-gray-500 whitespace-nowrap">
+                              {formatTimeAgo(item.created_at)}
+                            </span>
+                          </div>
+                          {item.body && <p className="text-xs text-gray-600">{item.body}</p>}
+                          {startAt && (
+                            <div className="flex items-center gap-2 text-xs text-gray-600 mt-1">
+                              <Calendar className="w-3 h-3" />
+                              <span>{formatDate(startAt)}</span>
+                              <Clock className="w-3 h-3 ml-2" />
+                              <span>{formatTime(startAt)}</span>
+                            </div>
+                          )}
+                          {isOffer && expiresAt && (
+                            offerOpen ? (
+                              <div className="flex items-center justify-between gap-2 mt-2">
+                                <span className="text-xs text-pink-600 font-medium">
+                                  Held until {formatTime(expiresAt)}
+                                </span>
+                                {role === 'client' && (
+                                  <button
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      handleClaimOffer(item);
+                                    }}
+                                    disabled={claimingId === item.id}
+                                    className="px-3 py-1 bg-gradient-to-r from-pink-500 to-purple-600 text-white text-xs font-semibold rounded-lg hover:shadow-md transition-all disabled:opacity-50"
+                                  >
+                                    {claimingId === item.id ? 'Booking...' : 'Book now'}
+                                  </button>
+                                )}
+                              </div>
+                            ) : (
+                              <p className="text-xs text-gray-400 mt-2">This offer has expired</p>
+                            )
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
               </div>
+            )}
+            {!showBookingFeed ? (
+              inbox.length === 0 && (
+                <div className="px-4 py-8 text-center text-gray-500">
+                  <Bell className="w-12 h-12 mx-auto mb-2 text-gray-300" />
+                  <p className="text-sm">No notifications yet</p>
+                </div>
+              )
+            ) : notifications.length === 0 ? (
+              inbox.length === 0 && (
+                <div className="px-4 py-8 text-center text-gray-500">
+                  <Bell className="w-12 h-12 mx-auto mb-2 text-gray-300" />
+                  <p className="text-sm">No new appointments</p>
+                </div>
+              )
             ) : (
               <div className="divide-y divide-gray-100">
                 {notifications.map((notification) => (
@@ -228,11 +352,12 @@ export function NotificationDropdown({ role: _role = 'admin', onNotificationClic
           </div>
 
           {/* Footer */}
-          {notifications.length > 0 && (
+          {(notifications.length > 0 || inbox.length > 0) && (
             <div className="px-4 py-2 border-t border-gray-200 bg-gray-50">
               <button
                 onClick={() => {
                   setUnreadCount(0);
+                  markInboxRead(inboxUnreadIds);
                   setIsOpen(false);
                 }}
                 className="w-full text-xs text-pink-600 hover:text-pink-700 font-medium text-center py-1"
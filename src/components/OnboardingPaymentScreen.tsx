@@ -217,8 +217,8 @@ export function OnboardingPaymentScreen({ planType, onBack, onComplete }: Onboar
         throw new Error('Failed to create subscription');
       }
 
-      // Create payment record if not free trial
-      if (planType !== 'free-trial') {
+      // Charge the card for paid plans
+      if (price > 0) {
         // Extract card details
         const cardLast4 = formData.cardNumber.slice(-4).replace(/\s/g, '');
         const [expiryMonth, expiryYear] = formData.expiryDate.split('/');
@@ -227,9 +227,8 @@ export function OnboardingPaymentScreen({ planType, onBack, onComplete }: Onboar
         // Extract last 2 digits of year and convert to full year
         const fullYear = parseInt('20' + expiryYear);
 
-        await createPaymentRecord(
+        const paymentId = await createPaymentRecord(
           subscriptionId,
-          user.id,
           price,
           cardLast4,
           cardBrand,
@@ -237,14 +236,14 @@ export function OnboardingPaymentScreen({ planType, onBack, onComplete }: Onboar
           fullYear,
           formData.billingAddress,
           formData.city,
-          formData.zipCode,
-          `mock_txn_${Date.now()}`
+          formData.zipCode
         );
+
+        if (!paymentId) {
+          throw new Error('Your payment could not be processed. Please check your card details and try again.');
+        }
       }
 
-      // Simulate payment processing delay
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
       setIsProcessing(false);
       setCurrentStep(3);
     } catch (err) {
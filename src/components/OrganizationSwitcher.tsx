@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { Building2, Check, Loader } from 'lucide-react';
+import { useTenant } from '../tenant/useTenant';
+import { glamError } from '../lib/glamAlerts';
+import type { OrganizationRole } from '../types/multiTenancy';
+
+interface OrganizationSwitcherProps {
+  onSwitched?: () => void;
+}
+
+const ROLE_LABELS: Record<OrganizationRole, string> = {
+  admin: 'Admin',
+  manager: 'Manager',
+  staff: 'Staff',
+};
+
+// Lists the salons the user works at. Only shown to people in more than one.
+export function OrganizationSwitcher({ onSwitched }: OrganizationSwitcherProps) {
+  const { organization, organizations, switchOrganization } = useTenant();
+  const [switchingId, setSwitchingId] = useState<string | null>(null);
+
+  if (organizations.length < 2) return null;
+
+  const handleSwitch = async (organizationId: string) => {
+    if (organizationId === organization?.id || switchingId) return;
+    setSwitchingId(organizationId);
+    const switched = await switchOrganization(organizationId);
+    setSwitchingId(null);
+    if (switched) {
+      onSwitched?.();
+    } else {
+      glamError('Could not switch organization. Please try again.');
+    }
+  };
+
+  return (
+    <div className="px-2 py-2 border-b border-gray-200">
+      <p className="px-2 pb-1 text-xs font-semibold text-gray-500 uppercase tracking-wide">Organizations</p>
+      {organizations.map(({ organization: org, membership }) => {
+        const isCurrent = org.id === organization?.id;
+        return (
+          <button
+            key={org.id}
+            onClick={() => handleSwitch(org.id)}
+            disabled={switchingId !== null}
+            className={`w-full px-2 py-2 rounded-lg text-left text-sm flex items-center gap-3 transition-colors disabled:opacity-60 ${
+              isCurrent ? 'bg-pink-50 text-pink-700' : 'text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {org.logo_url ? (
+              <img src={org.logo_url} alt={org.name} className="w-6 h-6 rounded object-cover" />
+            ) : (
+              <Building2 className="w-4 h-4 text-gray-500" />
+            )}
+            <div className="flex-1 min-w-0">
+              <p className="font-medium truncate">{org.name}</p>
+              <p className="text-xs text-gray-500">{ROLE_LABELS[membership.role]}</p>
+            </div>
+            {switchingId === org.id ? (
+              <Loader className="w-4 h-4 animate-spin text-pink-500" />
+            ) : isCurrent && (
+              <Check className="w-4 h-4 text-pink-600" />
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useEffect, useState } from 'react';
+import { Repeat, CheckCircle, XCircle } from 'lucide-react';
+import { previewBookingSeries, type SeriesOccurrence } from '../api/recurringBookings';
+import { toDateKey } from '../utils/businessHours';
+import { MAX_SERIES_OCCURRENCES, RECURRENCE_LABELS, validateRecurrenceRule } from '../utils/recurrence';
+import type { RecurrenceFrequency, RecurrenceRule } from '../types/multiTenancy';
+
+interface RecurrencePickerProps {
+  rule: RecurrenceRule | null; // null = one-off booking
+  onChange: (rule: RecurrenceRule | null) => void;
+  shopId: string;
+  serviceId: string;
+  staffId?: string | null;
+  durationMinutes: number;
+  first: Date | null; // Start of the first appointment, once a time is picked
+}
+
+const DEFAULT_RULE: RecurrenceRule = { frequency: 'weekly', count: 4, until_date: null };
+
+export function RecurrencePicker({ rule, onChange, shopId, serviceId, staffId, durationMinutes, first }: RecurrencePickerProps) {
+  const [preview, setPreview] = useState<SeriesOccurrence[]>([]);
+  const [loadingPreview, setLoadingPreview] = useState(false);
+  const firstTime = first?.getTime() ?? null;
+
+  // Check every occurrence for conflicts whenever the rule or first slot changes
+  useEffect(() => {
+    if (!rule || firstTime === null || validateRecurrenceRule(rule, new Date(firstTime))) {
+      setPreview([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoadingPreview(true);
+    previewBookingSeries({ shopId, serviceId, staffId, durationMinutes, first: new Date(firstTime), rule })
+      .then(data => {
+        if (!cancelled) setPreview(data);
+      })
+      .catch(error => {
+        console.error('Error previewing recurring series:', error);
+        if (!cancelled) setPreview([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingPreview(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [rule, firstTime, shopId, serviceId, staffId, durationMinutes]);
+
+  const ruleError = rule && first ? validateRecurrenceRule(rule, first) : null;
+  const endsOn = rule?.until_date ? 'date' : 'count';
+  const conflicts = preview.filter(o => !o.available).length;
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={!!rule}
+          onChange={(e) => onChange(e.target.checked ? DEFAULT_RULE : null)}
+          className="w-4 h-4 text-pink-600 border-gray-300 rounded focus:ring-pink-500"
+        />
+        <Repeat className="w-4 h-4 text-pink-500" />
+        <span className="text-sm font-medium text-gray-900">Make this a recurring appointment</span>
+      </label>
+
+      {rule && (
+        <div className="p-4 bg-pink-50 border border-pink-100 rounded-xl space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className="text-sm text-gray-600">
+              Repeats
+              <select
+                value={rule.frequency}
+                onChange={(e) => onChange({ ...rule, frequency: e.target.value as RecurrenceFrequency })}
+                className="mt-1 w-full px-3 py-2 border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-pink-500"
+              >
+                {(Object.keys(RECURRENCE_LABELS) as RecurrenceFrequency[]).map(frequency => (
+                  <option key={frequency} value={frequency}>{RECURRENCE_LABELS[frequency]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-600">
+              Ends
+              <select
+                value={endsOn}
+                onChange={(e) => onChange(e.target.value === 'date'
+                  ? { ...rule, count: null, until_date: first ? toDateKey(new Date(first.getTime() + 90 * 86400000)) : null }
+                  : { ...rule, until_date: null, count: DEFAULT_RULE.count })}
+                className="mt-1 w-full px-3 py-2 border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-pink-500"
+              >
+                <option value="count">After a number of appointments</option>
+                <option value="date">On a date</option>
+              </select>
+            </label>
+          </div>
+
+          {endsOn === 'count' ? (
+            <label className="block text-sm text-gray-600">
+              Number of appointments
+              <input
+                type="number"
+                min={2}
+                max={MAX_SERIES_OCCURRENCES}
+                value={rule.count ?? ''}
+                onChange={(e) => onChange({ ...rule, count: e.target.value ? parseInt(e.target.value, 10) : null })}
+                className="mt-1 w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-500"
+              />
+            </label>
+          ) : (
+            <label className="block text-sm text-gray-600">
+              Last date
+              <input
+                type="date"
+                value={rule.until_date ?? ''}
+                min={first ? toDateKey(first) : undefined}
+                onChange={(e) => onChange({ ...rule, until_date: e.target.value || null })}
+                className="mt-1 w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-500"
+              />
+            </label>
+          )}
+
+          {!first ? (
+            <p className="text-xs text-gray-500">Pick the first date and time to check the rest of the series.</p>
+          ) : ruleError ? (
+            <p className="text-xs text-red-600">{ruleError}</p>
+          ) : loadingPreview ? (
+            <p className="text-xs text-gray-500">Checking availability for each appointment...</p>
+          ) : preview.length > 0 && (
+            <div>
+              <ul className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+                {preview.map(occurrence => (
+                  <li
+                    key={occurrence.start.getTime()}
+                    className={`flex items-center gap-2 text-xs ${occurrence.available ? 'text-gray-700' : 'text-red-600 line-through'}`}
+                  >
+                    {occurrence.available
+                      ? <CheckCircle className="w-3 h-3 text-green-500 flex-shrink-0" />
+                      : <XCircle className="w-3 h-3 text-red-500 flex-shrink-0" />}
+                    {occurrence.start.toLocaleString('en-US', {
+                      weekday: 'short',
+                      month: 'short',
+                      day: 'numeric',
+                      hour: 'numeric',
+                      minute: '2-digit',
+                      hour12: true,
+                    })}
+                  </li>
+                ))}
+              </ul>
+              {conflicts > 0 && (
+                <p className="text-xs text-orange-700 mt-2">
+                  {conflicts} date{conflicts !== 1 ? 's are' : ' is'} unavailable and will be skipped.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
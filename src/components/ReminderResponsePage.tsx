@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { BellRing, CheckCircle, XCircle, Loader } from 'lucide-react';
+import { respondToReminder } from '../api/reminders';
+import type { ReminderAppointment } from '../types/multiTenancy';
+
+// Opened from the confirm/cancel links in appointment reminders. Works
+// without signing in; the signed link identifies the appointment.
+export function ReminderResponsePage() {
+  const [searchParams] = useSearchParams();
+  const r = searchParams.get('r') || '';
+  const e = searchParams.get('e') || '';
+  const s = searchParams.get('s') || '';
+  const requestedAction = searchParams.get('a') === 'cancel' ? 'cancel' : 'confirm';
+
+  const [appointment, setAppointment] = useState<ReminderAppointment | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [done, setDone] = useState(false);
+
+  useEffect(() => {
+    if (!r || !e || !s) {
+      setError('This link is incomplete. Please use the link from your reminder.');
+      return;
+    }
+    respondToReminder({ r, e, s })
+      .then(setAppointment)
+      .catch(err => setError(err instanceof Error ? err.message : 'This link is no longer valid'));
+  }, [r, e, s]);
+
+  const handleRespond = async () => {
+    try {
+      setSubmitting(true);
+      setError(null);
+      setAppointment(await respondToReminder({ r, e, s }, requestedAction));
+      setDone(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const when = appointment
+    ? new Date(appointment.start_at).toLocaleString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+    : '';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-50 to-purple-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-xl border border-pink-100/50 p-8 max-w-md w-full text-center">
+        <div className="w-14 h-14 mx-auto mb-4 rounded-full bg-gradient-to-r from-pink-500 to-purple-500 flex items-center justify-center">
+          <BellRing className="w-7 h-7 text-white" />
+        </div>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Your Appointment</h1>
+
+        {!appointment && !error && (
+          <div className="flex justify-center py-6">
+            <Loader className="w-6 h-6 text-pink-500 animate-spin" />
+          </div>
+        )}
+
+        {appointment && (
+          <div className="my-4 p-4 bg-gradient-to-r from-pink-50 to-purple-50 rounded-2xl">
+            <p className="font-semibold text-gray-900">{appointment.service_name || 'Appointment'}</p>
+            <p className="text-sm text-gray-600">{appointment.shop_name}</p>
+            <p className="text-sm font-medium text-pink-600 mt-1">{when}</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="my-4 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {appointment && done && (
+          <div className="flex items-center justify-center gap-2 text-sm font-medium">
+            {requestedAction === 'confirm' ? (
+              <>
+                <CheckCircle className="w-5 h-5 text-green-600" />
+                <span className="text-green-700">Thanks! The salon knows you're coming.</span>
+              </>
+            ) : (
+              <>
+                <XCircle className="w-5 h-5 text-gray-600" />
+                <span className="text-gray-700">Your appointment has been cancelled.</span>
+              </>
+            )}
+          </div>
+        )}
+
+        {appointment && !done && (
+          requestedAction === 'confirm' && appointment.client_confirmed && appointment.status !== 'cancelled' ? (
+            <div className="flex items-center justify-center gap-2 text-sm font-medium text-green-700">
+              <CheckCircle className="w-5 h-5 text-green-600" />
+              <span>You've already confirmed this appointment.</span>
+            </div>
+          ) : !appointment.can_respond ? (
+            <p className="text-sm text-gray-600">
+              {appointment.status === 'cancelled'
+                ? 'This appointment has been cancelled.'
+                : 'This appointment can no longer be changed from the reminder. Please open the GlamQueue app.'}
+            </p>
+          ) : (
+            <>
+              {requestedAction === 'cancel' && appointment.late_cancel_fee > 0 && (
+                <p className="text-sm text-orange-700 bg-orange-50 border border-orange-200 rounded-lg p-3 mb-4">
+                  This is inside the salon's cancellation window, so a late-cancel fee of
+                  ₱{appointment.late_cancel_fee.toLocaleString()} applies.
+                </p>
+              )}
+              <button
+                onClick={handleRespond}
+                disabled={submitting}
+                className={`w-full px-4 py-3 rounded-xl font-semibold text-white transition-colors disabled:opacity-50 flex items-center justify-center gap-2 ${
+                  requestedAction === 'confirm'
+                    ? 'bg-gradient-to-r from-pink-500 to-purple-500 hover:from-pink-600 hover:to-purple-600'
+                    : 'bg-red-500 hover:bg-red-600'
+                }`}
+              >
+                {submitting && <Loader className="w-5 h-5 animate-spin" />}
+                <span>{requestedAction === 'confirm' ? "Confirm I'm coming" : 'Cancel appointment'}</span>
+              </button>
+            </>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
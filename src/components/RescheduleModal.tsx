@@ -0,0 +1,281 @@
+import { useEffect, useState } from 'react';
+import { X, CalendarClock, AlertTriangle, History } from 'lucide-react';
+import { getAvailableSlots, type AvailabilitySlot } from '../api/availability';
+import { getRescheduleContext, type RescheduleTarget } from '../api/reschedule';
+import { rescheduleSeriesBookings } from '../api/recurringBookings';
+import { toDateKey } from '../utils/businessHours';
+import { formatOccurrenceList } from '../utils/recurrence';
+import { glamError, glamSuccess, glamWarning } from '../lib/glamAlerts';
+import type { BookingPolicy, BookingReschedule, SeriesEditScope } from '../types/multiTenancy';
+
+interface RescheduleModalProps {
+  isOpen: boolean;
+  booking: RescheduleTarget | null;
+  canOverride?: boolean; // Admins and managers may move bookings inside the policy window
+  onClose: () => void;
+  onRescheduled: () => void;
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  });
+
+export function RescheduleModal({ isOpen, booking, canOverride = false, onClose, onRescheduled }: RescheduleModalProps) {
+  const [policy, setPolicy] = useState<BookingPolicy | null>(null);
+  const [history, setHistory] = useState<BookingReschedule[]>([]);
+  const [blockReason, setBlockReason] = useState<string | null>(null);
+  const [durationMinutes, setDurationMinutes] = useState(0);
+  const [date, setDate] = useState('');
+  const [slots, setSlots] = useState<AvailabilitySlot[]>([]);
+  const [selectedSlot, setSelectedSlot] = useState<AvailabilitySlot | null>(null);
+  const [reason, setReason] = useState('');
+  const [override, setOverride] = useState(false);
+  const [scope, setScope] = useState<SeriesEditScope>('this');
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !booking) return;
+    let cancelled = false;
+    setDate('');
+    setSlots([]);
+    setSelectedSlot(null);
+    setReason('');
+    setOverride(false);
+    setScope('this');
+    getRescheduleContext({ ...booking, end_at: booking.end_at ?? null }).then(context => {
+      if (cancelled) return;
+      setPolicy(context.policy);
+      setHistory(context.history);
+      setBlockReason(context.blockReason);
+      setDurationMinutes(context.durationMinutes);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, booking]);
+
+  useEffect(() => {
+    if (!booking || !date || !durationMinutes) {
+      setSlots([]);
+      return;
+    }
+    let cancelled = false;
+    setLoadingSlots(true);
+    setSelectedSlot(null);
+    getAvailableSlots({
+      shopId: booking.shop_id,
+      date: new Date(`${date}T00:00:00`),
+      durationMinutes,
+      serviceId: booking.service_id,
+      staffId: booking.staff_id,
+      excludeBookingId: booking.id,
+    })
+      .then(data => {
+        if (!cancelled) setSlots(data);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingSlots(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [booking, date, durationMinutes]);
+
+  if (!isOpen || !booking) return null;
+
+  const blocked = !!blockReason && !(canOverride && override);
+
+  const handleSubmit = async () => {
+    if (!selectedSlot) return;
+    setSaving(true);
+    try {
+      const { moved, failed } = await rescheduleSeriesBookings({
+        bookingId: booking.id,
+        scope,
+        newStart: selectedSlot.start,
+        reason,
+        override: canOverride && override,
+      });
+      if (failed.length > 0) {
+        glamWarning(`Moved ${moved} appointments. Couldn't move: ${formatOccurrenceList(failed.map(f => f.start_at))}`);
+      } else {
+        glamSuccess(moved > 1 ? `${moved} appointments rescheduled` : 'Appointment rescheduled');
+      }
+      onRescheduled();
+      onClose();
+    } catch (error) {
+      glamError(error instanceof Error ? error.message : 'Failed to reschedule appointment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between bg-gradient-to-r from-pink-50 to-purple-50">
+          <div className="flex items-center gap-3">
+            <CalendarClock className="w-6 h-6 text-pink-500" />
+            <div>
+              <h2 className="text-lg font-bold text-gray-900">Reschedule Appointment</h2>
+              {booking.service_name && <p className="text-sm text-gray-600">{booking.service_name}</p>}
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          <div className="p-3 bg-gray-50 rounded-lg">
+            <p className="text-xs text-gray-500">Currently booked for</p>
+            <p className="font-semibold text-gray-900">{formatDateTime(booking.start_at)}</p>
+            {policy && policy.reschedule_cutoff_hours > 0 && (
+              <p className="text-xs text-gray-500 mt-1">
+                Changes are allowed up to {policy.reschedule_cutoff_hours} hours before the appointment.
+              </p>
+            )}
+          </div>
+
+          {blockReason && (
+            <div className="p-3 bg-orange-50 border border-orange-200 rounded-lg">
+              <p className="text-sm text-orange-800 flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                {blockReason}
+              </p>
+              {canOverride && (
+                <label className="flex items-center gap-2 mt-2">
+                  <input
+                    type="checkbox"
+                    checked={override}
+                    onChange={(e) => setOverride(e.target.checked)}
+                    className="w-4 h-4 text-pink-600 border-gray-300 rounded focus:ring-pink-500"
+                  />
+                  <span className="text-xs text-orange-800">Override the booking policy</span>
+                </label>
+              )}
+            </div>
+          )}
+
+          {!blocked && (
+            <>
+              {booking.series_id && (
+                <div>
+                  <p className="block text-sm font-medium text-gray-700 mb-2">This is a recurring appointment</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {([['this', 'This one only'], ['future', 'This and all future']] as [SeriesEditScope, string][]).map(([value, label]) => (
+                      <button
+                        key={value}
+                        onClick={() => setScope(value)}
+                        className={`py-2 rounded-lg text-sm font-medium transition-all border ${
+                          scope === value
+                            ? 'border-pink-500 bg-pink-50 text-pink-700'
+                            : 'border-gray-200 text-gray-700 hover:border-pink-300'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  {scope === 'future' && (
+                    <p className="text-xs text-gray-500 mt-1">Later appointments move by the same amount of time.</p>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">New date</label>
+                <input
+                  type="date"
+                  min={toDateKey(new Date())}
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                />
+              </div>
+
+              {date && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-2">
+                    New time {loadingSlots && <span className="text-xs text-gray-500 font-normal">Checking availability...</span>}
+                  </p>
+                  {!loadingSlots && slots.filter(slot => slot.available).length === 0 ? (
+                    <p className="text-sm text-gray-500">No openings on this date.</p>
+                  ) : (
+                    <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                      {slots.filter(slot => slot.available).map(slot => (
+                        <button
+                          key={slot.time}
+                          onClick={() => setSelectedSlot(slot)}
+                          className={`py-2 rounded-lg text-sm font-medium transition-all ${
+                            selectedSlot?.time === slot.time
+                              ? 'bg-gradient-to-r from-pink-500 to-pink-600 text-white shadow-md'
+                              : 'bg-pink-50 text-gray-900 hover:bg-pink-100 border border-pink-200'
+                          }`}
+                        >
+                          {slot.label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reason (optional)</label>
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g., Schedule conflict"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                />
+              </div>
+            </>
+          )}
+
+          {history.length > 0 && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
+                <History className="w-4 h-4" />
+                Change history
+              </p>
+              <ul className="space-y-1">
+                {history.map(entry => (
+                  <li key={entry.id} className="text-xs text-gray-600">
+                    {formatDateTime(entry.old_start_at)} → {formatDateTime(entry.new_start_at)}
+                    {entry.changed_by_role && <span className="text-gray-400"> · by {entry.changed_by_role}</span>}
+                    {entry.reason && <span className="text-gray-400"> · {entry.reason}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 bg-gray-50 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-100 transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={blocked || !selectedSlot || saving}
+            className="px-4 py-2 bg-pink-500 hover:bg-pink-600 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Confirm New Time'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Star, CheckCircle, Loader } from 'lucide-react';
+import { respondToReviewRequest } from '../api/reviewRequests';
+import { RatingModal } from '../client/components/RatingModal';
+import type { ReviewVisit } from '../types/multiTenancy';
+
+// Opened from the link in post-visit review requests. Works without signing
+// in; the signed link identifies the visit.
+export function ReviewRequestPage() {
+  const [searchParams] = useSearchParams();
+  const r = searchParams.get('r') || '';
+  const e = searchParams.get('e') || '';
+  const s = searchParams.get('s') || '';
+
+  const [visit, setVisit] = useState<ReviewVisit | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showRating, setShowRating] = useState(false);
+  const [rated, setRated] = useState(false);
+
+  useEffect(() => {
+    if (!r || !e || !s) {
+      setError('This link is incomplete. Please use the link from your message.');
+      return;
+    }
+    respondToReviewRequest({ r, e, s })
+      .then(found => {
+        setVisit(found);
+        setShowRating(found.rating === null);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'This link is no longer valid'));
+  }, [r, e, s]);
+
+  const handleSubmitRating = async (rating: number, comment: string) => {
+    setVisit(await respondToReviewRequest({ r, e, s }, { rating, comment }));
+  };
+
+  const when = visit
+    ? new Date(visit.start_at).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })
+    : '';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-50 to-purple-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-xl border border-pink-100/50 p-8 max-w-md w-full text-center">
+        <div className="w-14 h-14 mx-auto mb-4 rounded-full bg-gradient-to-r from-pink-500 to-purple-500 flex items-center justify-center">
+          <Star className="w-7 h-7 text-white" />
+        </div>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Your Visit</h1>
+
+        {!visit && !error && (
+          <div className="flex justify-center py-6">
+            <Loader className="w-6 h-6 text-pink-500 animate-spin" />
+          </div>
+        )}
+
+        {visit && (
+          <div className="my-4 p-4 bg-gradient-to-r from-pink-50 to-purple-50 rounded-2xl">
+            <p className="font-semibold text-gray-900">{visit.service_name || 'Appointment'}</p>
+            <p className="text-sm text-gray-600">
+              {visit.shop_name}
+              {visit.staff_name && ` • with ${visit.staff_name}`}
+            </p>
+            <p className="text-sm font-medium text-pink-600 mt-1">{when}</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="my-4 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {visit && visit.rating !== null && (
+          <div className="space-y-3">
+            <div className="flex justify-center gap-1">
+              {[1, 2, 3, 4, 5].map(star => (
+                <Star
+                  key={star}
+                  className={`w-7 h-7 ${star <= (visit.rating ?? 0) ? 'text-yellow-400 fill-yellow-400' : 'text-gray-300'}`}
+                />
+              ))}
+            </div>
+            <div className="flex items-center justify-center gap-2 text-sm font-medium text-green-700">
+              <CheckCircle className="w-5 h-5 text-green-600" />
+              <span>{rated ? 'Thanks for your feedback!' : "You've already rated this visit."}</span>
+            </div>
+            {!rated && (
+              <button
+                onClick={() => setShowRating(true)}
+                className="text-sm text-pink-600 hover:text-pink-700 font-medium"
+              >
+                Change your rating
+              </button>
+            )}
+          </div>
+        )}
+
+        {visit && visit.rating === null && !showRating && (
+          <button
+            onClick={() => setShowRating(true)}
+            className="w-full px-4 py-3 rounded-xl font-semibold text-white bg-gradient-to-r from-pink-500 to-purple-500 hover:from-pink-600 hover:to-purple-600 transition-colors"
+          >
+            Rate your visit
+          </button>
+        )}
+      </div>
+
+      {visit && (
+        <RatingModal
+          isOpen={showRating}
+          booking={{
+            id: visit.booking_id,
+            service_id: visit.service_id,
+            shop_id: visit.shop_id ?? '',
+            date_time: visit.start_at,
+            service: visit.service_name ? { name: visit.service_name } : undefined,
+            shop: visit.shop_name ? { name: visit.shop_name } : undefined,
+          }}
+          onSubmitRating={handleSubmitRating}
+          onRated={() => setRated(true)}
+          onClose={() => setShowRating(false)}
+        />
+      )}
+    </div>
+  );
+}
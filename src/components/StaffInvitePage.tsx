@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { UserPlus, CheckCircle, Loader, Eye, EyeOff } from 'lucide-react';
+import { acceptStaffInvite, getStaffInviteDetails } from '../api/staffInvites';
+import { useAuth } from '../auth/useAuth';
+import type { StaffInviteDetails } from '../types/multiTenancy';
+
+const ROLE_LABELS: Record<StaffInviteDetails['role'], string> = {
+  admin: 'Admin',
+  manager: 'Manager',
+  staff: 'Staff',
+};
+
+// Opened from the link in staff invite emails. The token identifies the
+// invite; new accounts choose their password here.
+export function StaffInvitePage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const navigate = useNavigate();
+  const { signInWithEmail } = useAuth();
+
+  const [invite, setInvite] = useState<StaffInviteDetails | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [accepted, setAccepted] = useState(false);
+
+  useEffect(() => {
+    if (!token) {
+      setError('This link is missing its code. Please use the link from your invite email.');
+      return;
+    }
+    getStaffInviteDetails(token)
+      .then(setInvite)
+      .catch(err => setError(err instanceof Error ? err.message : 'This invite is no longer valid'));
+  }, [token]);
+
+  const handleAccept = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invite) return;
+
+    if (invite.needs_password) {
+      if (password.length < 6) {
+        setError('Password must be at least 6 characters long');
+        return;
+      }
+      if (password !== confirmPassword) {
+        setError('Passwords do not match');
+        return;
+      }
+    }
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      await acceptStaffInvite(token, invite.needs_password ? password : undefined);
+
+      if (invite.needs_password) {
+        // Signed in, the app sends them to their dashboard
+        const { error: signInError } = await signInWithEmail(invite.email, password);
+        if (!signInError) {
+          navigate('/', { replace: true });
+          return;
+        }
+      }
+      setAccepted(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-50 to-purple-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-xl border border-pink-100/50 p-8 max-w-md w-full">
+        <div className="text-center">
+          <div className="w-14 h-14 mx-auto mb-4 rounded-full bg-gradient-to-r from-pink-500 to-purple-500 flex items-center justify-center">
+            <UserPlus className="w-7 h-7 text-white" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            {invite?.organization_name ? `Join ${invite.organization_name}` : 'Team Invite'}
+          </h1>
+          {invite && (
+            <p className="text-sm text-gray-600">
+              You've been invited as <span className="font-semibold">{ROLE_LABELS[invite.role]}</span>
+              {invite.job_title && ` (${invite.job_title})`}
+            </p>
+          )}
+        </div>
+
+        {!invite && !error && (
+          <div className="flex justify-center py-6">
+            <Loader className="w-6 h-6 text-pink-500 animate-spin" />
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {accepted ? (
+          <div className="mt-6 text-center space-y-4">
+            <div className="flex items-center justify-center gap-2 text-sm font-medium text-green-700">
+              <CheckCircle className="w-5 h-5 text-green-600" />
+              <span>You've joined the team.</span>
+            </div>
+            <button
+              onClick={() => navigate('/login', { replace: true })}
+              className="w-full px-4 py-3 rounded-xl font-semibold text-white bg-gradient-to-r from-pink-500 to-purple-500 hover:from-pink-600 hover:to-purple-600 transition-colors"
+            >
+              Sign in
+            </button>
+          </div>
+        ) : invite && (
+          <form onSubmit={handleAccept} className="mt-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+              <input
+                type="email"
+                value={invite.email}
+                disabled
+                className="w-full px-4 py-2 border border-gray-200 rounded-lg bg-gray-50 text-gray-600"
+              />
+            </div>
+
+            {invite.needs_password ? (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Choose a password</label>
+                  <div className="relative">
+                    <input
+                      type={showPassword ? 'text' : 'password'}
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      autoComplete="new-password"
+                      className="w-full px-4 py-2 pr-10 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                      required
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute inset-y-0 right-0 px-3 flex items-center text-gray-400 hover:text-gray-600"
+                    >
+                      {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    </button>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Confirm password</label>
+                  <input
+                    type={showPassword ? 'text' : 'password'}
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    autoComplete="new-password"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-gray-600">
+                You already have a GlamQueue account. After joining, sign in with your usual password.
+              </p>
+            )}
+
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full px-4 py-3 rounded-xl font-semibold text-white bg-gradient-to-r from-pink-500 to-purple-500 hover:from-pink-600 hover:to-purple-600 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {submitting && <Loader className="w-5 h-5 animate-spin" />}
+              <span>Accept Invite</span>
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,9 @@
-import { Home, Search, Calendar, MoreHorizontal, LayoutGrid, Users, BarChart3, Settings, UserCircle, FileText, UserCheck } from 'lucide-react';
+import { Home, Search, Calendar, MoreHorizontal, LayoutGrid, Users, BarChart3, Settings, UserCircle, FileText, UserCheck, CalendarOff } from 'lucide-react';
 
 export type MobileNavItem = 'home' | 'explore' | 'schedule' | 'more';
 export type AdminNavItem = 'dashboard' | 'appointments' | 'clients' | 'analytics' | 'more';
 export type ManagerNavItem = 'dashboard' | 'team' | 'reports' | 'more';
-export type StaffNavItem = 'schedule' | 'clients' | 'profile';
+export type StaffNavItem = 'schedule' | 'time-off' | 'clients' | 'profile';
 
 interface MobileBottomNavProps {
   activeItem: MobileNavItem;
@@ -49,6 +49,7 @@ const managerNavItems = [
 
 const staffNavItems = [
   { id: 'schedule' as StaffNavItem, label: 'My Schedule', icon: Calendar },
+  { id: 'time-off' as StaffNavItem, label: 'Time Off', icon: CalendarOff },
   { id: 'clients' as StaffNavItem, label: 'Clients', icon: UserCheck },
   { id: 'profile' as StaffNavItem, label: 'Profile', icon: UserCircle },
 ];
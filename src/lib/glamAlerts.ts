@@ -46,6 +46,81 @@ export async function glamConfirm(options: {
   return result.isConfirmed;
 }
 
+// Confirm dialog with an optional free-text answer. Resolves to the trimmed
+// text ('' when left blank), or null when dismissed.
+export async function glamPrompt(options: {
+  title: string;
+  text?: string;
+  placeholder?: string;
+  confirmText: string;
+  cancelText?: string;
+}): Promise<string | null> {
+  const result = await Swal.fire({
+    icon: 'warning',
+    title: options.title,
+    text: options.text,
+    input: 'text',
+    inputPlaceholder: options.placeholder,
+    showCancelButton: true,
+    confirmButtonText: options.confirmText,
+    cancelButtonText: options.cancelText ?? 'Cancel',
+    reverseButtons: true,
+    buttonsStyling: false,
+    customClass: {
+      popup: 'rounded-2xl border border-gray-200 shadow-2xl',
+      title: 'text-lg font-bold text-gray-900',
+      htmlContainer: 'text-sm text-gray-600',
+      input: 'text-sm rounded-lg border border-gray-300',
+      actions: 'gap-2',
+      confirmButton:
+        'px-4 py-2 rounded-lg bg-orange-600 text-white font-semibold hover:bg-orange-700',
+      cancelButton:
+        'px-4 py-2 rounded-lg border border-gray-200 text-gray-700 font-semibold hover:bg-gray-50',
+    },
+  });
+
+  if (!result.isConfirmed) return null;
+  return typeof result.value === 'string' ? result.value.trim() : '';
+}
+
+// Two-way choice dialog. Resolves to 'confirm' or 'deny', or null when dismissed.
+export async function glamChoice(options: {
+  title: string;
+  text?: string;
+  confirmText: string;
+  denyText: string;
+  cancelText?: string;
+}): Promise<'confirm' | 'deny' | null> {
+  const result = await Swal.fire({
+    icon: 'question',
+    title: options.title,
+    text: options.text,
+    showDenyButton: true,
+    showCancelButton: true,
+    confirmButtonText: options.confirmText,
+    denyButtonText: options.denyText,
+    cancelButtonText: options.cancelText ?? 'Cancel',
+    reverseButtons: true,
+    buttonsStyling: false,
+    customClass: {
+      popup: 'rounded-2xl border border-gray-200 shadow-2xl',
+      title: 'text-lg font-bold text-gray-900',
+      htmlContainer: 'text-sm text-gray-600',
+      actions: 'gap-2',
+      confirmButton:
+        'px-4 py-2 rounded-lg bg-pink-600 text-white font-semibold hover:bg-pink-700',
+      denyButton:
+        'px-4 py-2 rounded-lg bg-purple-600 text-white font-semibold hover:bg-purple-700',
+      cancelButton:
+        'px-4 py-2 rounded-lg border border-gray-200 text-gray-700 font-semibold hover:bg-gray-50',
+    },
+  });
+
+  if (result.isConfirmed) return 'confirm';
+  if (result.isDenied) return 'deny';
+  return null;
+}
+
 export function glamSuccess(message: string) {
   glamToast.fire({ icon: 'success', title: message });
 }
@@ -0,0 +1,19 @@
+// Helpers for recognising Supabase/PostgREST errors
+
+/**
+ * True when a query failed because a table, column or RPC function has not been created yet
+ * (i.e. the matching supabase-*-setup.sql script has not been run)
+ */
+export function isMissingSchemaError(error: { code?: string; message?: string } | null | undefined): boolean {
+  if (!error) return false;
+  const message = (error.message || '').toLowerCase();
+  return (
+    error.code === '42P01' ||
+    error.code === '42703' ||
+    error.code === '42883' ||
+    error.code === 'PGRST202' ||
+    error.code === 'PGRST204' ||
+    error.code === 'PGRST205' ||
+    (message.includes('does not exist') && (message.includes('relation') || message.includes('column')))
+  );
+}
@@ -1,10 +1,16 @@
-import { useState, useEffect } from 'react';
-import { Calendar, Clock, Search, Check, X } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { Calendar, Clock, Search, Check, X, CalendarClock, UserX } from 'lucide-react';
 import { getManagerAppointments } from '../../api/manager';
 import { adminUpdateBookingStatus } from '../../api/bookings';
 import { supabase } from '../../lib/supabase';
 import type { AppointmentWithDetails } from '../../api/admin';
-import { glamConfirm, glamError, glamSuccess } from '../../lib/glamAlerts';
+import { glamChoice, glamConfirm, glamError, glamPrompt, glamSuccess } from '../../lib/glamAlerts';
+import { cancelSeriesBookings } from '../../api/recurringBookings';
+import { formatBookingStatus } from '../../utils/bookingPolicy';
+import { RescheduleModal } from '../../components/RescheduleModal';
+import { CheckoutModal } from '../../components/CheckoutModal';
+import { appointmentToRescheduleTarget } from '../../api/reschedule';
+import type { Checkout } from '../../types/multiTenancy';
 
 export function AppointmentsScreen() {
   const [appointments, setAppointments] = useState<AppointmentWithDetails[]>([]);
@@ -12,6 +18,12 @@ export function AppointmentsScreen() {
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [updatingIds, setUpdatingIds] = useState<Record<number, boolean>>({});
+  const [reschedulingAppointment, setReschedulingAppointment] = useState<AppointmentWithDetails | null>(null);
+  const [checkoutAppointment, setCheckoutAppointment] = useState<AppointmentWithDetails | null>(null);
+  const rescheduleTarget = useMemo(
+    () => reschedulingAppointment && appointmentToRescheduleTarget(reschedulingAppointment),
+    [reschedulingAppointment]
+  );
 
   useEffect(() => {
     loadAppointments();
@@ -44,10 +56,10 @@ export function AppointmentsScreen() {
     }
   };
 
-  const handleStatusUpdate = async (id: number, status: AppointmentWithDetails['status']) => {
+  const handleStatusUpdate = async (id: number, status: AppointmentWithDetails['status'], reason?: string) => {
     try {
       setUpdatingIds(prev => ({ ...prev, [id]: true }));
-      await adminUpdateBookingStatus(id, status);
+      await adminUpdateBookingStatus(id, status, reason);
       setAppointments(prev =>
         prev.map(apt => apt.id === id ? { ...apt, status } : apt)
       );
@@ -55,6 +67,7 @@ export function AppointmentsScreen() {
       if (status === 'confirmed') glamSuccess('Appointment confirmed');
       else if (status === 'completed') glamSuccess('Appointment marked as completed');
       else if (status === 'cancelled') glamSuccess('Appointment cancelled');
+      else if (status === 'no_show') glamSuccess('Appointment marked as no-show');
       else glamSuccess('Appointment updated');
     } catch (error) {
       console.error('Error updating status:', error);
@@ -69,6 +82,30 @@ export function AppointmentsScreen() {
     }
   };
 
+  const handleCancelSeries = async (id: number, reason: string) => {
+    try {
+      setUpdatingIds(prev => ({ ...prev, [id]: true }));
+      const { cancelled } = await cancelSeriesBookings({ bookingId: id, scope: 'future', reason });
+      await loadAppointments();
+      glamSuccess(`${cancelled} appointment${cancelled !== 1 ? 's' : ''} cancelled`);
+    } catch (error) {
+      console.error('Error cancelling series:', error);
+      glamError(error instanceof Error ? error.message : 'Failed to cancel appointments');
+    } finally {
+      setUpdatingIds(prev => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+    }
+  };
+
+  const handleCheckoutCompleted = (checkout: Checkout) => {
+    setAppointments(prev =>
+      prev.map(apt => apt.id === checkout.booking_id ? { ...apt, status: 'completed' } : apt)
+    );
+  };
+
   const requestStatusUpdate = async (id: number, status: AppointmentWithDetails['status']) => {
     const apt = appointments.find(a => a.id === id);
     const confirmText = status === 'confirmed'
@@ -77,7 +114,9 @@ export function AppointmentsScreen() {
         ? 'Yes, mark complete'
         : status === 'cancelled'
           ? 'Yes, cancel'
-          : 'Confirm';
+          : status === 'no_show'
+            ? 'Yes, mark no-show'
+            : 'Confirm';
 
     const title = status === 'confirmed'
       ? 'Confirm this appointment?'
@@ -85,12 +124,44 @@ export function AppointmentsScreen() {
         ? 'Mark this appointment as completed?'
         : status === 'cancelled'
           ? 'Cancel this appointment?'
-          : 'Update this appointment?';
+          : status === 'no_show'
+            ? 'Mark this client as a no-show?'
+            : 'Update this appointment?';
 
     const text = apt
       ? `${apt.client_name || 'Client'} • ${apt.service_name || 'Service'} • ${new Date(apt.start_at).toLocaleString()}`
       : 'Please confirm you want to proceed.';
 
+    // Completing an appointment goes through checkout
+    if (status === 'completed' && apt) {
+      setCheckoutAppointment(apt);
+      return;
+    }
+
+    if (status === 'cancelled') {
+      // Recurring appointments can be cancelled along with the rest of the series
+      let cancelFuture = false;
+      if (apt?.series_id) {
+        const choice = await glamChoice({
+          title: 'This is a recurring appointment',
+          text: 'Cancel just this appointment, or this one and all later ones in the series?',
+          confirmText: 'This one only',
+          denyText: 'This and all future',
+        });
+        if (choice === null) return;
+        cancelFuture = choice === 'deny';
+      }
+
+      const reason = await glamPrompt({ title, text, placeholder: 'Reason (optional)', confirmText });
+      if (reason === null) return;
+      if (cancelFuture) {
+        await handleCancelSeries(id, reason);
+        return;
+      }
+      await handleStatusUpdate(id, status, reason);
+      return;
+    }
+
     const ok = await glamConfirm({ title, text, confirmText });
     if (!ok) return;
 
@@ -111,6 +182,7 @@ export function AppointmentsScreen() {
       case 'pending': return 'bg-yellow-100 text-yellow-700 border-yellow-200';
       case 'completed': return 'bg-blue-100 text-blue-700 border-blue-200';
       case 'cancelled': return 'bg-red-100 text-red-700 border-red-200';
+      case 'no_show': return 'bg-gray-200 text-gray-800 border-gray-300';
       default: return 'bg-gray-100 text-gray-700 border-gray-200';
     }
   };
@@ -180,6 +252,7 @@ export function AppointmentsScreen() {
           <option value="confirmed">Confirmed</option>
           <option value="completed">Completed</option>
           <option value="cancelled">Cancelled</option>
+          <option value="no_show">No-show</option>
         </select>
       </div>
 
@@ -193,7 +266,7 @@ export function AppointmentsScreen() {
                   <div className="flex items-center gap-3 mb-2">
                     <h3 className="font-semibold text-gray-900">{apt.client_name}</h3>
                     <span className={`px-2 py-1 text-xs rounded-full border ${getStatusColor(apt.status)}`}>
-                      {apt.status}
+                      {formatBookingStatus(apt.status)}
                     </span>
                   </div>
                   <p className="text-sm text-gray-600 mb-1">{apt.service_name}</p>
@@ -242,6 +315,26 @@ export function AppointmentsScreen() {
                       Mark as Done
                     </button>
                   )}
+                  {(apt.status === 'pending' || apt.status === 'confirmed') && new Date(apt.start_at) <= new Date() && (
+                    <button
+                      onClick={() => void requestStatusUpdate(apt.id, 'no_show')}
+                      disabled={!!updatingIds[apt.id]}
+                      className="p-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                      title="Mark No-show"
+                    >
+                      <UserX className="w-5 h-5" />
+                    </button>
+                  )}
+                  {(apt.status === 'pending' || apt.status === 'confirmed') && (
+                    <button
+                      onClick={() => setReschedulingAppointment(apt)}
+                      disabled={!!updatingIds[apt.id]}
+                      className="p-2 bg-purple-100 text-purple-700 rounded-lg hover:bg-purple-200 transition-colors"
+                      title="Reschedule"
+                    >
+                      <CalendarClock className="w-5 h-5" />
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
@@ -253,6 +346,21 @@ export function AppointmentsScreen() {
           </div>
         )}
       </div>
+
+      <RescheduleModal
+        isOpen={!!rescheduleTarget}
+        booking={rescheduleTarget}
+        canOverride
+        onClose={() => setReschedulingAppointment(null)}
+        onRescheduled={loadAppointments}
+      />
+
+      <CheckoutModal
+        isOpen={!!checkoutAppointment}
+        appointment={checkoutAppointment}
+        onClose={() => setCheckoutAppointment(null)}
+        onCompleted={handleCheckoutCompleted}
+      />
     </div>
   );
 }
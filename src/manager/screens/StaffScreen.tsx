@@ -1,12 +1,20 @@
 import { useState, useEffect } from 'react';
-import { Search } from 'lucide-react';
-import { getManagerStaff } from '../../api/manager';
+import { Search, X, CalendarClock, CalendarOff, Check, AlertTriangle } from 'lucide-react';
+import { getManagerStaff, getManagerShop } from '../../api/manager';
+import { getTimeOffRequests, getTimeOffConflicts, reviewTimeOffRequest } from '../../api/roster';
+import { StaffShiftsEditor } from '../../admin/components/StaffShiftsEditor';
+import { glamConfirm, glamError, glamSuccess } from '../../lib/glamAlerts';
 import type { StaffMember } from '../../api/admin';
+import type { TimeOffRequestWithStaff } from '../../types/multiTenancy';
 
 export function StaffScreen() {
   const [staff, setStaff] = useState<StaffMember[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [shop, setShop] = useState<{ id: string; name: string } | null>(null);
+  const [timeOffRequests, setTimeOffRequests] = useState<TimeOffRequestWithStaff[]>([]);
+  const [conflictCounts, setConflictCounts] = useState<Map<string, number>>(new Map());
+  const [shiftsStaff, setShiftsStaff] = useState<StaffMember | null>(null);
 
   useEffect(() => {
     loadStaff();
@@ -15,8 +23,15 @@ export function StaffScreen() {
   const loadStaff = async () => {
     setLoading(true);
     try {
-      const data = await getManagerStaff();
+      const [data, managerShop] = await Promise.all([getManagerStaff(), getManagerShop()]);
       setStaff(data);
+      setShop(managerShop);
+
+      const requests = await getTimeOffRequests({ staffIds: data.map(member => member.id), status: 'pending', upcomingOnly: true });
+      setTimeOffRequests(requests);
+      // Show how many assigned bookings each request would clash with
+      const counts = await Promise.all(requests.map(request => getTimeOffConflicts(request)));
+      setConflictCounts(new Map(requests.map((request, i) => [request.id, counts[i].length])));
     } catch (error) {
       console.error('Error loading staff:', error);
     } finally {
@@ -24,6 +39,32 @@ export function StaffScreen() {
     }
   };
 
+  const handleReview = async (request: TimeOffRequestWithStaff, status: 'approved' | 'rejected') => {
+    const conflicts = conflictCounts.get(request.id) || 0;
+    if (status === 'approved' && conflicts > 0) {
+      const confirmed = await glamConfirm({
+        title: 'Approve time off?',
+        text: `${request.staff_name} has ${conflicts} booking${conflicts === 1 ? '' : 's'} during this time. They will need to be reassigned.`,
+        confirmText: 'Approve anyway',
+      });
+      if (!confirmed) return;
+    }
+
+    try {
+      await reviewTimeOffRequest(request.id, status);
+      glamSuccess(status === 'approved' ? 'Time off approved' : 'Time off declined');
+      await loadStaff();
+    } catch (error) {
+      console.error('Error reviewing time off:', error);
+      glamError('Failed to update time off request');
+    }
+  };
+
+  const formatDateRange = (start: string, end: string) => {
+    const format = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    return start === end ? format(start) : `${format(start)} - ${format(end)}`;
+  };
+
   const filteredStaff = staff.filter(member =>
     member.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     member.email.toLowerCase().includes(searchQuery.toLowerCase())
@@ -55,6 +96,54 @@ export function StaffScreen() {
         </div>
       </div>
 
+      {timeOffRequests.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-pink-100 p-6">
+          <div className="flex items-center gap-2 mb-4">
+            <CalendarOff className="w-5 h-5 text-pink-500" />
+            <h2 className="text-lg font-semibold text-gray-900">Time Off Requests</h2>
+            <span className="px-2 py-0.5 bg-pink-100 text-pink-700 rounded-full text-xs font-semibold">{timeOffRequests.length}</span>
+          </div>
+          <div className="space-y-3">
+            {timeOffRequests.map((request) => {
+              const conflicts = conflictCounts.get(request.id) || 0;
+              return (
+                <div key={request.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 bg-gray-50 rounded-lg">
+                  <div>
+                    <p className="font-medium text-gray-900">{request.staff_name}</p>
+                    <p className="text-sm text-gray-600">
+                      {formatDateRange(request.start_date, request.end_date)}
+                      {request.reason && <span className="text-gray-500"> · {request.reason}</span>}
+                    </p>
+                    {conflicts > 0 && (
+                      <p className="text-xs text-orange-600 flex items-center gap-1 mt-1">
+                        <AlertTriangle className="w-3 h-3" />
+                        {conflicts} booking{conflicts === 1 ? '' : 's'} assigned during this time
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleReview(request, 'rejected')}
+                      className="px-3 py-1.5 border border-gray-200 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-100 transition-colors flex items-center gap-1"
+                    >
+                      <X className="w-4 h-4" />
+                      Decline
+                    </button>
+                    <button
+                      onClick={() => handleReview(request, 'approved')}
+                      className="px-3 py-1.5 bg-pink-500 hover:bg-pink-600 text-white rounded-lg text-sm font-medium transition-colors flex items-center gap-1"
+                    >
+                      <Check className="w-4 h-4" />
+                      Approve
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       <div className="relative">
         <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
         <input
@@ -79,7 +168,7 @@ export function StaffScreen() {
                   <p className="text-sm text-gray-600">{member.role}</p>
                 </div>
               </div>
-              <div className={`w-3 h-3 rounded-full ${getStatusColor(member.status)}`} title={member.status}></div>
+              <div className={`w-3 h-3 rounded-full ${getStatusColor(member.status)}`} title={member.status === 'break' ? 'off shift' : member.status}></div>
             </div>
             <div className="space-y-2 text-sm flex-grow">
               <p className="text-gray-600">{member.email}</p>
@@ -94,6 +183,13 @@ export function StaffScreen() {
                 </div>
               )}
             </div>
+            <button
+              onClick={() => setShiftsStaff(member)}
+              className="mt-4 w-full py-2 bg-pink-50 text-pink-600 rounded-lg text-sm font-medium hover:bg-pink-100 transition-colors flex items-center justify-center gap-2"
+            >
+              <CalendarClock className="w-4 h-4" />
+              Manage Shifts
+            </button>
           </div>
         ))}
       </div>
@@ -102,6 +198,31 @@ export function StaffScreen() {
           No staff members found
         </div>
       )}
+
+      {shiftsStaff && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between bg-gradient-to-r from-pink-50 to-purple-50">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">{shiftsStaff.name}'s Shifts</h2>
+                <p className="text-sm text-gray-600">Recurring weekly schedule</p>
+              </div>
+              <button
+                onClick={() => {
+                  setShiftsStaff(null);
+                  loadStaff();
+                }}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5 text-gray-600" />
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-6">
+              <StaffShiftsEditor staffId={shiftsStaff.id} shops={shop ? [shop] : []} />
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
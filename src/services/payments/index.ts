@@ -0,0 +1,24 @@
+/**
+ * Payment provider registry
+ * VITE_PAYMENT_PROVIDER picks the gateway; it defaults to the local mock.
+ * A hosted gateway registers an adapter implementing PaymentProvider and
+ * delivers its webhooks to the payment-webhook edge function.
+ */
+import { mockPaymentProvider } from './mockProvider';
+import type { PaymentProvider } from './types';
+
+export type * from './types';
+
+const DEFAULT_PROVIDER = import.meta.env.VITE_PAYMENT_PROVIDER || 'mock';
+
+const providers = new Map<string, PaymentProvider>([[mockPaymentProvider.name, mockPaymentProvider]]);
+
+export function registerPaymentProvider(provider: PaymentProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getPaymentProvider(name: string = DEFAULT_PROVIDER): PaymentProvider {
+  const provider = providers.get(name);
+  if (!provider) throw new Error(`Payment provider "${name}" is not configured`);
+  return provider;
+}
@@ -0,0 +1,186 @@
+/**
+ * Mock Payment Provider
+ * Deterministic in-memory gateway for development and testing. Outcomes depend
+ * only on the inputs, so the same test card or wallet always behaves the same:
+ *
+ *   Card ending 0002  -> declined (card_declined)
+ *   Card ending 9995  -> declined (insufficient_funds)
+ *   Card ending 3220  -> processing (3-D Secure), then succeeds
+ *   Any other card    -> succeeds immediately
+ *   GCash/Maya/PayPal -> processing while the wallet authorizes, then succeeds;
+ *                        an account ending in 0000 is declined
+ *
+ * Webhooks are signed like a hosted gateway's and delivered in-process. The
+ * database only accepts mock payments when app.mock_payments is on.
+ * Intents live in memory, so refunds don't look them up: the caller checks
+ * the refundable amount against the stored payment, as a gateway would.
+ */
+import type {
+  ConfirmIntentParams,
+  CreateIntentParams,
+  PaymentEventType,
+  PaymentIntent,
+  PaymentProvider,
+  PaymentWebhookEvent,
+  ProviderRefund,
+  WebhookListener,
+} from './types';
+
+// Signs in-process deliveries only. It ships in the bundle, so it is not a
+// secret and the payment-webhook edge function never accepts it.
+const LOCAL_SIGNING_KEY = 'mock_local';
+// How long a wallet or 3-D Secure payment stays processing before it settles
+const SETTLE_DELAY_MS = 2000;
+
+// FNV-1a, enough to derive stable ids and a mock signature without crypto APIs
+function hash(value: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+}
+
+export function signMockWebhook(rawBody: string): string {
+  return `mock_sig_${hash(`${LOCAL_SIGNING_KEY}.${rawBody}`)}`;
+}
+
+function createMockProvider(): PaymentProvider {
+  const intents = new Map<string, PaymentIntent>();
+  const refundCounts = new Map<string, number>(); // intent id -> refunds issued this session
+  const listeners = new Set<WebhookListener>();
+
+  const emit = (type: PaymentEventType, intentId: string, amount: number, failureReason: string | null = null, suffix = '') => {
+    const event: PaymentWebhookEvent = {
+      id: `mock_evt_${hash(`${intentId}:${type}:${suffix}`)}`,
+      type,
+      intent_id: intentId,
+      amount,
+      failure_reason: failureReason,
+      created_at: new Date().toISOString(),
+    };
+    const rawBody = JSON.stringify(event);
+    const signature = signMockWebhook(rawBody);
+    setTimeout(() => {
+      listeners.forEach(listener => {
+        Promise.resolve(listener(rawBody, signature)).catch(error => {
+          console.error('[mock payments] Webhook listener failed:', error);
+        });
+      });
+    }, 0);
+  };
+
+  const getIntent = (intentId: string): PaymentIntent => {
+    const intent = intents.get(intentId);
+    if (!intent) throw new Error(`Unknown payment intent ${intentId}`);
+    return intent;
+  };
+
+  const settle = (intent: PaymentIntent, status: 'succeeded' | 'failed', failureReason: string | null = null) => {
+    intent.status = status;
+    intent.failure_reason = failureReason;
+    emit(status === 'succeeded' ? 'payment.succeeded' : 'payment.failed', intent.id, intent.amount, failureReason);
+  };
+
+  // Move to processing now and settle once the (simulated) customer authorizes
+  const settleLater = (intent: PaymentIntent, status: 'succeeded' | 'failed', failureReason: string | null = null) => {
+    intent.status = 'processing';
+    emit('payment.processing', intent.id, intent.amount);
+    setTimeout(() => settle(intent, status, failureReason), SETTLE_DELAY_MS);
+  };
+
+  return {
+    name: 'mock',
+
+    async createIntent(params: CreateIntentParams) {
+      if (!(params.amount > 0)) throw new Error('Payment amount must be greater than zero');
+
+      const id = `mock_pi_${hash(params.idempotencyKey)}`;
+      const existing = intents.get(id);
+      if (existing) return { ...existing };
+
+      const intent: PaymentIntent = {
+        id,
+        provider: 'mock',
+        amount: Math.round(params.amount * 100) / 100,
+        currency: params.currency,
+        method: params.method,
+        status: 'requires_confirmation',
+        failure_reason: null,
+        created_at: new Date().toISOString(),
+      };
+      intents.set(id, intent);
+      return { ...intent };
+    },
+
+    async confirmIntent(params: ConfirmIntentParams) {
+      const intent = getIntent(params.intentId);
+      if (intent.status !== 'requires_confirmation') return { ...intent };
+
+      if (intent.method === 'card') {
+        const last4 = params.card?.last4 ?? '';
+        if (!/^\d{4}$/.test(last4)) throw new Error('Enter the last 4 digits of the card');
+
+        if (last4 === '0002' || last4 === '9995') {
+          settle(intent, 'failed', last4 === '0002' ? 'card_declined' : 'insufficient_funds');
+        } else if (last4 === '3220') {
+          settleLater(intent, 'succeeded');
+        } else {
+          settle(intent, 'succeeded');
+        }
+        return { ...intent };
+      }
+
+      const account = params.wallet?.accountIdentifier?.trim() ?? '';
+      if (!account) throw new Error('Enter the account on the wallet');
+
+      if (account.endsWith('0000')) settleLater(intent, 'failed', 'wallet_authorization_declined');
+      else settleLater(intent, 'succeeded');
+      return { ...intent };
+    },
+
+    async cancelIntent(intentId: string) {
+      const intent = getIntent(intentId);
+      if (intent.status !== 'requires_confirmation') {
+        throw new Error('Only unconfirmed payments can be cancelled');
+      }
+      intent.status = 'cancelled';
+      return { ...intent };
+    },
+
+    async refund(intentId: string, amount: number) {
+      const value = Math.round(amount * 100) / 100;
+      if (!(value > 0)) throw new Error('Refund amount must be greater than zero');
+
+      const count = (refundCounts.get(intentId) ?? 0) + 1;
+      refundCounts.set(intentId, count);
+
+      // Timestamped so refunds issued from another session get their own event ids
+      const refund: ProviderRefund = {
+        id: `mock_re_${hash(`${intentId}:${Date.now()}:${count}`)}`,
+        intent_id: intentId,
+        amount: value,
+        status: 'pending',
+      };
+      emit('refund.succeeded', intentId, value, null, refund.id);
+      return refund;
+    },
+
+    async verifyWebhook(rawBody: string, signature: string) {
+      if (signature !== signMockWebhook(rawBody)) {
+        throw new Error('Invalid webhook signature');
+      }
+      return JSON.parse(rawBody) as PaymentWebhookEvent;
+    },
+
+    onWebhook(listener: WebhookListener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export const mockPaymentProvider = createMockProvider();
@@ -0,0 +1,79 @@
+/**
+ * Payment provider interface
+ * Every gateway (and the local mock) implements this so booking and
+ * subscription payments don't depend on a specific provider.
+ */
+
+export type PaymentMethodType = 'card' | 'gcash' | 'maya' | 'paypal';
+
+export type PaymentIntentStatus = 'requires_confirmation' | 'processing' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface PaymentIntent {
+  id: string;
+  provider: string;
+  amount: number; // In pesos
+  currency: string;
+  method: PaymentMethodType;
+  status: PaymentIntentStatus;
+  failure_reason: string | null;
+  created_at: string;
+}
+
+export interface CreateIntentParams {
+  amount: number;
+  currency: string;
+  method: PaymentMethodType;
+  idempotencyKey: string; // Retrying with the same key returns the same intent
+  description?: string;
+}
+
+export interface CardDetails {
+  last4: string;
+  brand?: string | null;
+  expMonth?: number | null;
+  expYear?: number | null;
+}
+
+export interface WalletDetails {
+  accountIdentifier: string; // Mobile number or email on the wallet
+}
+
+export interface ConfirmIntentParams {
+  intentId: string;
+  card?: CardDetails;
+  wallet?: WalletDetails;
+}
+
+export interface ProviderRefund {
+  id: string;
+  intent_id: string;
+  amount: number;
+  status: 'pending' | 'succeeded';
+}
+
+export type PaymentEventType = 'payment.processing' | 'payment.succeeded' | 'payment.failed' | 'refund.succeeded';
+
+// A verified webhook from the provider
+export interface PaymentWebhookEvent {
+  id: string; // Provider event id, used to ignore repeat deliveries
+  type: PaymentEventType;
+  intent_id: string;
+  amount: number;
+  failure_reason: string | null;
+  created_at: string;
+}
+
+export type WebhookListener = (rawBody: string, signature: string) => void | Promise<void>;
+
+export interface PaymentProvider {
+  readonly name: string;
+  createIntent(params: CreateIntentParams): Promise<PaymentIntent>;
+  confirmIntent(params: ConfirmIntentParams): Promise<PaymentIntent>;
+  cancelIntent(intentId: string): Promise<PaymentIntent>;
+  refund(intentId: string, amount: number): Promise<ProviderRefund>;
+  // Throws when the signature doesn't match the body
+  verifyWebhook(rawBody: string, signature: string): Promise<PaymentWebhookEvent>;
+  // Hosted gateways post webhooks to the payment-webhook edge function; a
+  // local provider delivers them in-process to these listeners instead.
+  onWebhook?(listener: WebhookListener): () => void;
+}
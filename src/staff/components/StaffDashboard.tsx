@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { useNavigate, useLocation, Routes, Route, Navigate } from 'react-router-dom';
 import { getMyProfile, type Profile } from '../../api/profile';
 import { BookingsScreen } from '../screens/BookingsScreen';
+import { TimeOffScreen } from '../screens/TimeOffScreen';
 import { NotificationDropdown } from '../../components/NotificationDropdown';
 import { SettingsDropdown } from '../../components/SettingsDropdown';
 import { AvatarDropdown } from '../../components/AvatarDropdown';
@@ -12,7 +13,7 @@ interface StaffDashboardProps {
   onLogout: () => void;
 }
 
-type StaffView = 'schedule' | 'clients' | 'profile';
+type StaffView = 'schedule' | 'time-off' | 'clients' | 'profile';
 
 export function StaffDashboard({ onLogout }: StaffDashboardProps) {
   const navigate = useNavigate();
@@ -25,6 +26,7 @@ export function StaffDashboard({ onLogout }: StaffDashboardProps) {
   // Get active view from URL path
   const getActiveViewFromPath = (): StaffView => {
     const path = location.pathname;
+    if (path.includes('/time-off')) return 'time-off';
     if (path.includes('/clients')) return 'clients';
     if (path.includes('/profile')) return 'profile';
     return 'schedule';
@@ -189,6 +191,7 @@ export function StaffDashboard({ onLogout }: StaffDashboardProps) {
         <div className="flex gap-2 overflow-x-auto no-scrollbar">
           {[
             { id: 'schedule' as const, label: 'My Schedule' },
+            { id: 'time-off' as const, label: 'Shifts & Time Off' },
             { id: 'clients' as const, label: 'Clients' },
             { id: 'profile' as const, label: 'Profile' },
           ].map((tab) => (
@@ -211,6 +214,7 @@ export function StaffDashboard({ onLogout }: StaffDashboardProps) {
       <main className="max-w-[1600px] mx-auto px-4 md:px-6 py-4 md:py-8">
         <Routes>
           <Route index element={<BookingsScreen />} />
+          <Route path="time-off" element={<TimeOffScreen />} />
           <Route path="clients" element={<ClientsView />} />
           <Route path="profile" element={<ProfileView />} />
           <Route path="*" element={<Navigate to="/staff-dashboard" replace />} />
@@ -1,15 +1,26 @@
-import { useState, useEffect } from 'react';
-import { Calendar, Clock, Check, X, Search } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { Calendar, Clock, Check, X, Search, CalendarClock, UserX } from 'lucide-react';
 import { getStaffTodayAppointments, getStaffAppointments, updateBookingStatus } from '../../api/staff';
 import { supabase } from '../../lib/supabase';
 import type { AppointmentWithDetails } from '../../api/admin';
 import { glamConfirm, glamError, glamSuccess } from '../../lib/glamAlerts';
+import { formatBookingStatus } from '../../utils/bookingPolicy';
+import { RescheduleModal } from '../../components/RescheduleModal';
+import { CheckoutModal } from '../../components/CheckoutModal';
+import { appointmentToRescheduleTarget } from '../../api/reschedule';
+import type { Checkout } from '../../types/multiTenancy';
 
 export function BookingsScreen() {
   const [appointments, setAppointments] = useState<AppointmentWithDetails[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<'today' | 'all'>('today');
   const [searchQuery, setSearchQuery] = useState('');
+  const [reschedulingAppointment, setReschedulingAppointment] = useState<AppointmentWithDetails | null>(null);
+  const [checkoutAppointment, setCheckoutAppointment] = useState<AppointmentWithDetails | null>(null);
+  const rescheduleTarget = useMemo(
+    () => reschedulingAppointment && appointmentToRescheduleTarget(reschedulingAppointment),
+    [reschedulingAppointment]
+  );
 
   useEffect(() => {
     loadAppointments();
@@ -57,14 +68,22 @@ export function BookingsScreen() {
             ? 'Appointment marked as done'
             : status === 'cancelled'
               ? 'Appointment rejected'
-              : 'Appointment updated'
+              : status === 'no_show'
+                ? 'Appointment marked as no-show'
+                : 'Appointment updated'
       );
     } catch (error) {
       console.error('Error updating status:', error);
-      glamError('Failed to update appointment status');
+      glamError(error instanceof Error ? error.message : 'Failed to update appointment status');
     }
   };
 
+  const handleCheckoutCompleted = (checkout: Checkout) => {
+    setAppointments(prev =>
+      prev.map(apt => apt.id === checkout.booking_id ? { ...apt, status: 'completed' } : apt)
+    );
+  };
+
   const requestStatusUpdate = async (id: number, status: AppointmentWithDetails['status']) => {
     const apt = appointments.find(a => a.id === id);
 
@@ -74,7 +93,9 @@ export function BookingsScreen() {
         ? 'Yes, mark done'
         : status === 'cancelled'
           ? 'Yes, reject'
-          : 'Confirm';
+          : status === 'no_show'
+            ? 'Yes, mark no-show'
+            : 'Confirm';
 
     const title = status === 'confirmed'
       ? 'Approve this appointment?'
@@ -82,12 +103,20 @@ export function BookingsScreen() {
         ? 'Mark this appointment as done?'
         : status === 'cancelled'
           ? 'Reject this appointment?'
-          : 'Update this appointment?';
+          : status === 'no_show'
+            ? 'Mark this client as a no-show?'
+            : 'Update this appointment?';
 
     const text = apt
       ? `${apt.client_name || 'Client'} • ${apt.service_name || 'Service'} • ${new Date(apt.start_at).toLocaleString()}`
       : 'Please confirm you want to proceed.';
 
+    // Completing an appointment goes through checkout
+    if (status === 'completed' && apt) {
+      setCheckoutAppointment(apt);
+      return;
+    }
+
     const ok = await glamConfirm({ title, text, confirmText });
     if (!ok) return;
 
@@ -105,6 +134,7 @@ export function BookingsScreen() {
       case 'pending': return 'bg-yellow-100 text-yellow-700 border-yellow-200';
       case 'completed': return 'bg-blue-100 text-blue-700 border-blue-200';
       case 'cancelled': return 'bg-red-100 text-red-700 border-red-200';
+      case 'no_show': return 'bg-gray-200 text-gray-800 border-gray-300';
       default: return 'bg-gray-100 text-gray-700 border-gray-200';
     }
   };
@@ -231,7 +261,7 @@ export function BookingsScreen() {
                   <div className="flex items-center gap-3 mb-2">
                     <h3 className="font-semibold text-gray-900">{apt.client_name}</h3>
                     <span className={`px-2 py-1 text-xs rounded-full border ${getStatusColor(apt.status)}`}>
-                      {apt.status}
+                      {formatBookingStatus(apt.status)}
                     </span>
                   </div>
                   <p className="text-sm text-gray-600 mb-1">{apt.service_name}</p>
@@ -277,6 +307,24 @@ export function BookingsScreen() {
                       Mark as Done
                     </button>
                   )}
+                  {(apt.status === 'pending' || apt.status === 'confirmed') && new Date(apt.start_at) <= new Date() && (
+                    <button
+                      onClick={() => requestStatusUpdate(apt.id, 'no_show')}
+                      className="p-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                      title="Mark No-show"
+                    >
+                      <UserX className="w-5 h-5" />
+                    </button>
+                  )}
+                  {(apt.status === 'pending' || apt.status === 'confirmed') && (
+                    <button
+                      onClick={() => setReschedulingAppointment(apt)}
+                      className="p-2 bg-purple-100 text-purple-700 rounded-lg hover:bg-purple-200 transition-colors"
+                      title="Reschedule"
+                    >
+                      <CalendarClock className="w-5 h-5" />
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
@@ -323,7 +371,7 @@ export function BookingsScreen() {
                     </div>
                   </div>
                   <span className={`px-2 py-1 text-xs rounded-full border ${getStatusColor(apt.status)}`}>
-                    {apt.status}
+                    {formatBookingStatus(apt.status)}
                   </span>
                 </div>
 
@@ -363,7 +411,25 @@ export function BookingsScreen() {
                       Mark as Done
                     </button>
                   )}
-                  {(apt.status === 'completed' || apt.status === 'cancelled') && (
+                  {(apt.status === 'pending' || apt.status === 'confirmed') && new Date(apt.start_at) <= new Date() && (
+                    <button
+                      onClick={() => requestStatusUpdate(apt.id, 'no_show')}
+                      className="px-3 py-2.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                      title="Mark No-show"
+                    >
+                      <UserX className="w-4 h-4" />
+                    </button>
+                  )}
+                  {(apt.status === 'pending' || apt.status === 'confirmed') && (
+                    <button
+                      onClick={() => setReschedulingAppointment(apt)}
+                      className="px-3 py-2.5 bg-purple-100 text-purple-700 rounded-lg hover:bg-purple-200 transition-colors"
+                      title="Reschedule"
+                    >
+                      <CalendarClock className="w-4 h-4" />
+                    </button>
+                  )}
+                  {(apt.status === 'completed' || apt.status === 'cancelled' || apt.status === 'no_show') && (
                     <div className="w-full py-2.5 text-center text-gray-400 text-sm">
                       No actions available
                     </div>
@@ -374,6 +440,20 @@ export function BookingsScreen() {
           ))
         )}
       </div>
+
+      <RescheduleModal
+        isOpen={!!rescheduleTarget}
+        booking={rescheduleTarget}
+        onClose={() => setReschedulingAppointment(null)}
+        onRescheduled={loadAppointments}
+      />
+
+      <CheckoutModal
+        isOpen={!!checkoutAppointment}
+        appointment={checkoutAppointment}
+        onClose={() => setCheckoutAppointment(null)}
+        onCompleted={handleCheckoutCompleted}
+      />
     </div>
   );
 }
@@ -0,0 +1,214 @@
+import { useState, useEffect } from 'react';
+import { CalendarOff, Clock, Send, Trash2 } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { getStaffShifts, getMyTimeOffRequests, requestTimeOff, cancelTimeOffRequest } from '../../api/roster';
+import { WEEKDAYS, WEEKDAY_LABELS, formatIntervals, toDateKey } from '../../utils/businessHours';
+import { shiftsToSchedule } from '../../utils/roster';
+import { glamConfirm, glamError, glamSuccess } from '../../lib/glamAlerts';
+import type { StaffShift, TimeOffRequest, TimeOffStatus } from '../../types/multiTenancy';
+
+export function TimeOffScreen() {
+  const [shifts, setShifts] = useState<StaffShift[]>([]);
+  const [requests, setRequests] = useState<TimeOffRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [form, setForm] = useState({ start_date: '', end_date: '', reason: '' });
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      const [shiftData, requestData] = await Promise.all([
+        getStaffShifts([user.id]),
+        getMyTimeOffRequests(),
+      ]);
+      setShifts(shiftData);
+      setRequests(requestData);
+    } catch (error) {
+      console.error('Error loading time off:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      await requestTimeOff({
+        start_date: form.start_date,
+        end_date: form.end_date || form.start_date,
+        reason: form.reason,
+      });
+      setForm({ start_date: '', end_date: '', reason: '' });
+      glamSuccess('Time off requested');
+      await loadData();
+    } catch (error) {
+      glamError(error instanceof Error ? error.message : 'Failed to request time off');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (request: TimeOffRequest) => {
+    const confirmed = await glamConfirm({
+      title: 'Withdraw request?',
+      text: 'Your manager will no longer see this time off request.',
+      confirmText: 'Withdraw',
+    });
+    if (!confirmed) return;
+
+    try {
+      await cancelTimeOffRequest(request.id);
+      setRequests(prev => prev.filter(r => r.id !== request.id));
+    } catch (error) {
+      console.error('Error cancelling time off:', error);
+      glamError('Failed to withdraw request');
+    }
+  };
+
+  const getStatusBadge = (status: TimeOffStatus) => {
+    switch (status) {
+      case 'approved': return 'bg-green-100 text-green-700';
+      case 'rejected': return 'bg-red-100 text-red-700';
+      default: return 'bg-yellow-100 text-yellow-700';
+    }
+  };
+
+  const formatDate = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500"></div>
+      </div>
+    );
+  }
+
+  const schedule = shiftsToSchedule(shifts);
+  const today = toDateKey(new Date());
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Shifts & Time Off</h1>
+        <p className="text-gray-600 mt-1">Your weekly roster and leave requests</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Weekly shifts */}
+        <div className="bg-white rounded-xl shadow-sm border border-pink-100 p-6">
+          <div className="flex items-center gap-2 mb-4">
+            <Clock className="w-5 h-5 text-pink-500" />
+            <h2 className="text-lg font-semibold text-gray-900">My Shifts</h2>
+          </div>
+          {shifts.length === 0 ? (
+            <p className="text-sm text-gray-500">Your manager hasn't set your shifts yet.</p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {WEEKDAYS.map(day => (
+                <div key={day} className="flex items-center justify-between py-2 text-sm">
+                  <span className="font-medium text-gray-700">{WEEKDAY_LABELS[day]}</span>
+                  <span className={schedule[day].length > 0 ? 'text-gray-900' : 'text-gray-400'}>
+                    {schedule[day].length > 0 ? formatIntervals(schedule[day]) : 'Off'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Request form */}
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm border border-pink-100 p-6 space-y-4">
+          <div className="flex items-center gap-2">
+            <CalendarOff className="w-5 h-5 text-pink-500" />
+            <h2 className="text-lg font-semibold text-gray-900">Request Time Off</h2>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <input
+                type="date"
+                min={today}
+                required
+                value={form.start_date}
+                onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">To (optional)</label>
+              <input
+                type="date"
+                min={form.start_date || today}
+                value={form.end_date}
+                onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+            <input
+              type="text"
+              value={form.reason}
+              onChange={(e) => setForm({ ...form, reason: e.target.value })}
+              placeholder="e.g., Family event"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full py-2 bg-pink-500 hover:bg-pink-600 text-white rounded-lg font-medium transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <Send className="w-4 h-4" />
+            {submitting ? 'Sending...' : 'Send Request'}
+          </button>
+        </form>
+      </div>
+
+      {/* My requests */}
+      <div className="bg-white rounded-xl shadow-sm border border-pink-100 p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">My Requests</h2>
+        {requests.length === 0 ? (
+          <p className="text-sm text-gray-500">No time off requests yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {requests.map(request => (
+              <div key={request.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {formatDate(request.start_date)}
+                    {request.end_date !== request.start_date && ` - ${formatDate(request.end_date)}`}
+                  </p>
+                  {request.reason && <p className="text-sm text-gray-500">{request.reason}</p>}
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`px-3 py-1 rounded-full text-xs font-semibold capitalize ${getStatusBadge(request.status)}`}>
+                    {request.status === 'rejected' ? 'Declined' : request.status}
+                  </span>
+                  {request.status === 'pending' && (
+                    <button
+                      onClick={() => handleCancel(request)}
+                      className="p-1 text-red-500 hover:bg-red-50 rounded"
+                      title="Withdraw request"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { useTenant } from './useTenant';
+import type { Permission } from '../types/multiTenancy';
+
+interface PermissionGuardProps {
+  permission: Permission;
+  // Shown instead of the children when the permission is missing
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+// Hides UI the user can't use. The server enforces the same permission, so
+// this is only about not offering actions that would be refused.
+export function PermissionGuard({ permission, fallback = null, children }: PermissionGuardProps) {
+  const { hasPermission } = useTenant();
+  return <>{hasPermission(permission) ? children : fallback}</>;
+}
@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '../auth/useAuth';
+import { getMyOrganization, getMyOrganizations, switchOrganization as switchOrganizationRpc } from '../api/multiTenancy';
+import { getMyPermissions } from '../api/permissions';
+import { TenantContext } from './TenantContextInstance';
+import type { Organization, OrganizationMember, OrganizationWithMembership, Permission } from '../types/multiTenancy';
+
+// The signed-in user's current organization, their membership there and what
+// they're allowed to do. Clients without an organization get empty values.
+export function TenantProvider({ children }: { children: React.ReactNode }) {
+  const { session } = useAuth();
+  const userId = session?.user.id ?? null;
+
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [membership, setMembership] = useState<OrganizationMember | null>(null);
+  const [organizations, setOrganizations] = useState<OrganizationWithMembership[]>([]);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshOrganization = useCallback(async () => {
+    if (!userId) {
+      setOrganization(null);
+      setMembership(null);
+      setOrganizations([]);
+      setPermissions([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [current, memberships] = await Promise.all([getMyOrganization(), getMyOrganizations()]);
+      const currentId = current.success ? current.organization?.id : undefined;
+      const match = memberships.find(m => m.organization.id === currentId) ?? null;
+
+      // Loaded first so the organization and its permissions change together
+      const nextPermissions = match ? await getMyPermissions(match.organization.id, match.membership.role) : [];
+
+      setOrganizations(memberships);
+      setOrganization(match?.organization ?? null);
+      setMembership(match?.membership ?? null);
+      setPermissions(nextPermissions);
+    } catch (err) {
+      console.error('Error loading organization:', err);
+      setError(err instanceof Error ? err.message : 'Could not load your organization');
+      setPermissions([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refreshOrganization();
+  }, [refreshOrganization]);
+
+  const switchOrganization = async (organizationId: string) => {
+    const result = await switchOrganizationRpc(organizationId);
+    if (!result.success) {
+      setError(result.error || 'Could not switch organization');
+      return false;
+    }
+    await refreshOrganization();
+    return true;
+  };
+
+  const role = membership?.role;
+
+  return (
+    <TenantContext.Provider
+      value={{
+        organization,
+        membership,
+        organizations,
+        permissions,
+        isLoading,
+        error,
+        isAdmin: () => role === 'admin',
+        isManager: () => role === 'manager',
+        isStaff: () => role === 'staff',
+        hasPermission: (permission: Permission) => permissions.includes(permission),
+        switchOrganization,
+        refreshOrganization,
+      }}
+    >
+      {children}
+    </TenantContext.Provider>
+  );
+}
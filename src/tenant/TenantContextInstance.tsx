@@ -0,0 +1,4 @@
+import { createContext } from 'react';
+import type { MultiTenantContextValue } from '../types/multiTenancy';
+
+export const TenantContext = createContext<MultiTenantContextValue | undefined>(undefined);
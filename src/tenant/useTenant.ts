@@ -0,0 +1,11 @@
+import { useContext } from 'react';
+import { TenantContext } from './TenantContextInstance';
+import type { Permission } from '../types/multiTenancy';
+
+export const useTenant = () => {
+  const ctx = useContext(TenantContext);
+  if (!ctx) throw new Error('useTenant must be used within TenantProvider');
+  return ctx;
+};
+
+export const usePermission = (permission: Permission) => useTenant().hasPermission(permission);
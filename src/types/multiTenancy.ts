@@ -21,6 +21,7 @@ export interface Organization {
   website: string | null;
   timezone: string;
   currency: string;
+  booking_policy: BookingPolicy | null; // NULL = default policy
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -49,6 +50,12 @@ export interface OrganizationMember {
   updated_at: string;
 }
 
+// One of the organizations the signed-in user belongs to
+export interface OrganizationWithMembership {
+  organization: Organization;
+  membership: OrganizationMember;
+}
+
 export interface OrganizationMemberWithProfile extends OrganizationMember {
   profile?: {
     name: string | null;
@@ -61,6 +68,47 @@ export type OrganizationMemberInsert = Pick<OrganizationMember, 'organization_id
   Partial<Pick<OrganizationMember, 'role' | 'job_title'>>;
 
 
+// ============================================================================
+// STAFF INVITES
+// ============================================================================
+
+export interface StaffInvite {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  email: string;
+  name: string | null;
+  phone: string | null;
+  role: OrganizationRole;
+  job_title: string | null;
+  is_new_user: boolean;
+  invited_by: string | null;
+  expires_at: string;
+  accepted_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface StaffInviteInput {
+  email: string;
+  name: string;
+  phone?: string;
+  role: OrganizationRole;
+  job_title?: string;
+}
+
+// What the invitee sees when opening the link
+export interface StaffInviteDetails {
+  email: string;
+  name: string | null;
+  role: OrganizationRole;
+  job_title: string | null;
+  organization_name: string | null;
+  needs_password: boolean; // false when the email already had an account
+  expires_at: string;
+}
+
+
 // ============================================================================
 // PROFILE (Updated with organization_id)
 // ============================================================================
@@ -102,7 +150,8 @@ export interface Shop {
   description: string | null;
   rating: number;
   review_count: number;
-  is_open: boolean;
+  is_open: boolean; // Manual override: false closes the shop regardless of hours
+  business_hours: WeeklySchedule | null; // NULL falls back to DEFAULT_WEEKLY_SCHEDULE
   image_url: string | null;
   created_at: string;
   updated_at: string;
@@ -118,10 +167,52 @@ export type ShopInsert = Pick<Shop, 'name' | 'address'> &
 export type ShopUpdate = Partial<Omit<Shop, 'id' | 'organization_id' | 'owner_id' | 'created_at' | 'updated_at'>>;
 
 
+// ============================================================================
+// BUSINESS HOURS & CLOSURES
+// ============================================================================
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+// "HH:mm" 24-hour strings; several intervals per day allow split shifts
+export interface OpeningInterval {
+  open: string;
+  close: string;
+}
+
+export type WeeklySchedule = Record<Weekday, OpeningInterval[]>;
+
+export type ShopClosureKind = 'holiday' | 'closure';
+
+export interface ShopClosure {
+  id: string;
+  shop_id: string;
+  organization_id: string | null;
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD, inclusive
+  kind: ShopClosureKind;
+  reason: string | null;
+  hours: OpeningInterval[] | null; // Special hours instead of a full-day closure
+  created_at: string;
+}
+
+export type ShopClosureInsert = Pick<ShopClosure, 'shop_id' | 'start_date' | 'end_date' | 'kind'> &
+  Partial<Pick<ShopClosure, 'reason' | 'hours' | 'organization_id'>>;
+
+export interface ShopCalendar {
+  shopId: string;
+  isOpen: boolean;
+  schedule: WeeklySchedule;
+  closures: ShopClosure[];
+}
+
+
 // ============================================================================
 // SERVICE (Updated with organization_id)
 // ============================================================================
 
+// How a service's booking deposit is worked out
+export type DepositType = 'none' | 'fixed' | 'percentage';
+
 export interface Service {
   id: string;
   organization_id: string | null; // Denormalized for RLS performance
@@ -134,6 +225,8 @@ export interface Service {
   image_url: string | null;
   rating: number;
   is_active: boolean;
+  deposit_type?: DepositType;
+  deposit_value?: number; // Amount in pesos, or percent of the price
   created_at: string;
   updated_at: string;
 }
@@ -154,7 +247,10 @@ export type ServiceUpdate = Partial<Omit<Service, 'id' | 'organization_id' | 'sh
 // BOOKING (Updated with organization_id)
 // ============================================================================
 
-export type BookingStatus = 'pending' | 'confirmed' | 'completed' | 'cancelled';
+export type BookingStatus = 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'no_show';
+
+// Who called off a cancelled booking
+export type CancellationActor = 'client' | 'salon';
 
 export interface Booking {
   id: number | string;
@@ -167,6 +263,17 @@ export interface Booking {
   end_at: string | null;
   status: BookingStatus;
   notes: string | null;
+  cancelled_by?: CancellationActor | null;
+  cancellation_reason?: string | null;
+  cancelled_at?: string | null;
+  late_cancellation?: boolean; // Client cancelled inside the policy window
+  cancellation_fee?: number | null; // Late-cancel or no-show fee owed
+  series_id?: string | null; // Set when the booking is one occurrence of a recurring series
+  visit_id?: string | null; // Shared by services booked back-to-back in one visit
+  client_package_id?: string | null; // Package this booking draws a use from
+  deposit_amount?: number; // Deposit due before the booking can be confirmed; 0 when none
+  deposit_paid_at?: string | null;
+  client_confirmed_at?: string | null; // Client confirmed from a reminder
   created_at: string;
   updated_at: string;
 }
@@ -184,6 +291,247 @@ export type BookingInsert = Pick<Booking, 'client_id' | 'service_id' | 'shop_id'
 export type BookingUpdate = Partial<Pick<Booking, 'status' | 'staff_id' | 'notes' | 'start_at' | 'end_at'>>;
 
 
+// ============================================================================
+// STAFF ROSTER & TIME OFF
+// ============================================================================
+
+// One recurring working block for a staff member at a branch
+export interface StaffShift {
+  id: string;
+  staff_id: string;
+  shop_id: string;
+  organization_id: string | null;
+  weekday: Weekday;
+  start_time: string; // "HH:mm"
+  end_time: string; // "HH:mm"
+  created_at: string;
+}
+
+export type StaffShiftInsert = Pick<StaffShift, 'staff_id' | 'shop_id' | 'weekday' | 'start_time' | 'end_time'> &
+  Partial<Pick<StaffShift, 'organization_id'>>;
+
+export type TimeOffStatus = 'pending' | 'approved' | 'rejected';
+
+export interface TimeOffRequest {
+  id: string;
+  staff_id: string;
+  organization_id: string | null;
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD, inclusive
+  reason: string | null;
+  status: TimeOffStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+export interface TimeOffRequestWithStaff extends TimeOffRequest {
+  staff_email?: string;
+  staff_name?: string;
+}
+
+// A service a staff member is trained to perform. Staff with no skills
+// recorded can perform every service.
+export interface StaffServiceSkill {
+  id: string;
+  staff_id: string;
+  service_id: string;
+  organization_id: string | null;
+  created_at: string;
+}
+
+// An assigned booking that falls outside a shift or inside approved time off
+export interface RosterConflict {
+  booking_id: number | string;
+  staff_id: string;
+  start_at: string;
+  end_at: string;
+  reason: 'off_shift' | 'time_off';
+}
+
+
+// ============================================================================
+// BOOKING POLICY & RESCHEDULES
+// ============================================================================
+
+// Per-organization rules for changing, cancelling and missing appointments
+export interface BookingPolicy {
+  reschedule_cutoff_hours: number; // No changes this close to the start; 0 = any time
+  max_reschedules: number | null; // Per booking; null = unlimited
+  cancellation_cutoff_hours: number; // Client cancellations inside this window are late; 0 = never late
+  late_cancel_fee_percent: number; // Of the service price
+  no_show_fee_percent: number; // Of the service price
+  prepay_after_no_shows: number | null; // Clients with this many no-shows must prepay; null = never
+}
+
+// No-show and late-cancellation history for one client
+export interface ClientAttendance {
+  client_id: string;
+  no_shows: number;
+  late_cancellations: number;
+  total_fees: number;
+}
+
+// Audit row written every time an appointment is moved
+export interface BookingReschedule {
+  id: string;
+  booking_id: number | string;
+  organization_id: string | null;
+  old_start_at: string;
+  old_end_at: string | null;
+  new_start_at: string;
+  new_end_at: string | null;
+  changed_by: string | null;
+  changed_by_role: UserRole | null;
+  reason: string | null;
+  created_at: string;
+}
+
+
+// ============================================================================
+// WAITLIST & NOTIFICATIONS
+// ============================================================================
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'booked' | 'expired' | 'cancelled';
+
+// A client waiting for an opening for a service at a shop within a date range
+export interface WaitlistEntry {
+  id: string;
+  client_id: string;
+  organization_id: string | null;
+  shop_id: string;
+  service_id: string;
+  staff_id: string | null; // Requested stylist; null = any
+  date_from: string; // YYYY-MM-DD
+  date_to: string; // YYYY-MM-DD
+  status: WaitlistStatus;
+  offered_start_at: string | null;
+  offered_end_at: string | null;
+  offered_staff_id: string | null;
+  offered_date: string | null; // YYYY-MM-DD
+  offer_expires_at: string | null; // The slot is held for this client until then
+  booking_id: number | string | null; // Set once the offer is claimed
+  created_at: string;
+  updated_at: string;
+}
+
+export type WaitlistEntryInsert = Pick<WaitlistEntry, 'shop_id' | 'service_id' | 'date_from' | 'date_to'> &
+  Partial<Pick<WaitlistEntry, 'staff_id'>>;
+
+export type NotificationType = 'waitlist_offer';
+
+// In-app notification shown in the bell dropdown
+export interface UserNotification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  data: Record<string, unknown> | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+
+// ============================================================================
+// RECURRING APPOINTMENTS
+// ============================================================================
+
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+// How a series repeats; it ends on `until_date` or after `count` occurrences
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  until_date?: string | null; // YYYY-MM-DD, inclusive
+  count?: number | null;
+}
+
+export interface BookingSeries {
+  id: string;
+  client_id: string;
+  organization_id: string | null;
+  shop_id: string;
+  service_id: string;
+  staff_id: string | null;
+  frequency: RecurrenceFrequency;
+  until_date: string | null;
+  occurrence_count: number | null;
+  first_start_at: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Apply a change to one occurrence, or to it and every later one in the series
+export type SeriesEditScope = 'this' | 'future';
+
+
+// ============================================================================
+// SERVICE PACKAGES
+// ============================================================================
+
+// A bundle mixes services ("Bridal Package"); a prepaid pack repeats one ("5 blowouts")
+export type PackageKind = 'bundle' | 'prepaid';
+
+export interface ServicePackageItem {
+  service_id: string;
+  quantity: number;
+  service?: {
+    id: string;
+    name: string;
+    price: number;
+    duration: number;
+  } | null;
+}
+
+export interface ServicePackage {
+  id: string;
+  organization_id: string | null;
+  shop_id: string;
+  name: string;
+  description: string | null;
+  kind: PackageKind;
+  price: number; // Bundle price for the whole package
+  validity_days: number | null; // Days a purchase stays usable; null = never expires
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  items: ServicePackageItem[];
+  shop?: { id: string; name: string } | null;
+}
+
+export type ServicePackageInput = Pick<ServicePackage, 'shop_id' | 'name' | 'description' | 'kind' | 'price' | 'validity_days'> & {
+  items: Pick<ServicePackageItem, 'service_id' | 'quantity'>[];
+};
+
+export type ClientPackageStatus = 'active' | 'used_up' | 'expired' | 'cancelled';
+
+// A package a client has bought; uses are drawn by bookings linked to it
+export interface ClientPackage {
+  id: string;
+  package_id: string;
+  client_id: string;
+  organization_id: string | null;
+  shop_id: string;
+  price_paid: number;
+  status: ClientPackageStatus;
+  purchased_at: string;
+  expires_at: string | null;
+  package?: ServicePackage | null;
+  redemptions?: PackageRedemption[];
+  bookings?: { id: number | string; service_id: string; status: string }[]; // Bookings drawing on the package
+}
+
+// One use of a package, recorded when its booking is completed
+export interface PackageRedemption {
+  id: string;
+  client_package_id: string;
+  booking_id: number | string;
+  service_id: string;
+  redeemed_at: string;
+  redeemed_by: string | null;
+}
+
+
 // ============================================================================
 // SUBSCRIPTION (Updated with organization_id)
 // ============================================================================
@@ -219,6 +567,426 @@ export interface SubscriptionWithOrganization extends Subscription {
 }
 
 
+// ============================================================================
+// PAYMENTS
+// ============================================================================
+
+// pending -> processing -> completed -> refunded; failed and cancelled are final
+export type PaymentStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'refunded' | 'cancelled';
+
+// A deposit holds a booking; everything else is a regular payment
+export type PaymentPurpose = 'payment' | 'deposit';
+
+// A charge for a booking or a subscription, moved along by provider events
+export interface Payment {
+  id: string;
+  subscription_id: string | null;
+  booking_id: number | string | null;
+  organization_id: string | null;
+  user_id: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  purpose?: PaymentPurpose;
+  payment_method: string; // card, gcash, maya, paypal, gift_card
+  payment_provider: string; // Provider that holds the intent, e.g. 'mock'
+  provider_intent_id: string | null;
+  transaction_id: string | null;
+  refunded_amount: number;
+  failure_reason: string | null;
+  card_last4: string | null;
+  card_brand: string | null;
+  card_expiry_month: number | null;
+  card_expiry_year: number | null;
+  billing_address: string | null;
+  billing_city: string | null;
+  billing_zip_code: string | null;
+  created_at: string;
+  updated_at: string;
+  processed_at: string | null;
+}
+
+
+// ============================================================================
+// CHECKOUT (point of sale)
+// ============================================================================
+
+export type CheckoutItemKind = 'service' | 'addon' | 'product';
+
+// How the amount due was settled at the counter
+export type TenderMethod = 'cash' | 'card' | 'gcash' | 'maya' | 'gift_card';
+
+export interface RetailProduct {
+  id: string;
+  organization_id: string;
+  name: string;
+  sku: string | null;
+  price: number;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface CheckoutItem {
+  id: string;
+  checkout_id: string;
+  kind: CheckoutItemKind;
+  service_id: string | null;
+  product_id: string | null;
+  description: string;
+  unit_price: number;
+  quantity: number;
+  line_total: number;
+}
+
+export interface CheckoutTender {
+  id: string;
+  checkout_id: string;
+  method: TenderMethod;
+  amount: number; // For cash, the amount handed over
+  reference: string | null; // Card last 4, wallet reference or gift card code
+}
+
+// What was charged when an appointment was completed
+export interface Checkout {
+  id: string;
+  receipt_number: string;
+  organization_id: string | null;
+  shop_id: string | null;
+  booking_id: number | null;
+  client_id: string | null;
+  staff_id: string | null;
+  processed_by: string | null;
+  subtotal: number;
+  discount_amount: number;
+  discount_reason: string | null;
+  tip_amount: number;
+  total: number;
+  prepaid_amount: number; // Paid online before the visit, e.g. a deposit
+  amount_due: number;
+  change_given: number;
+  created_at: string;
+  items?: CheckoutItem[];
+  tenders?: CheckoutTender[];
+  shop?: { name: string; address: string | null } | null;
+}
+
+export type CheckoutItemInput = Pick<CheckoutItem, 'kind' | 'description' | 'unit_price' | 'quantity'> &
+  Partial<Pick<CheckoutItem, 'service_id' | 'product_id'>>;
+
+export type CheckoutTenderInput = Pick<CheckoutTender, 'method' | 'amount'> & { reference?: string | null };
+
+
+// ============================================================================
+// GIFT CARDS
+// ============================================================================
+
+// Pending until an online purchase is paid for; void once refunded or cancelled
+export type GiftCardStatus = 'pending' | 'active' | 'void';
+
+export type GiftCardTransactionKind = 'issue' | 'redeem' | 'refund' | 'void';
+
+export interface GiftCard {
+  id: string;
+  organization_id: string;
+  code: string;
+  initial_balance: number;
+  balance: number;
+  status: GiftCardStatus;
+  expires_at: string | null;
+  purchaser_id: string | null;
+  sold_by: string | null;
+  sale_method: string | null; // A tender method for front desk sales, or 'online'
+  recipient_name: string | null;
+  recipient_email: string | null;
+  message: string | null;
+  created_at: string;
+  organization?: { name: string } | null;
+}
+
+// One change to a card's balance; `amount` is negative when spent
+export interface GiftCardTransaction {
+  id: string;
+  gift_card_id: string;
+  kind: GiftCardTransactionKind;
+  amount: number;
+  balance_after: number;
+  booking_id: number | null;
+  payment_id: string | null;
+  checkout_id: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// What anyone holding a code can look up
+export interface GiftCardBalance {
+  code: string;
+  balance: number;
+  status: GiftCardStatus;
+  expires_at: string | null;
+  organization_id: string;
+  organization_name: string;
+}
+
+
+// ============================================================================
+// PROMOTIONS
+// ============================================================================
+
+export type PromotionDiscountType = 'percentage' | 'fixed';
+
+// Which services a promotion covers
+export type PromotionScope = 'all' | 'services' | 'category';
+
+export interface Promotion {
+  id: string;
+  organization_id: string;
+  code: string;
+  title: string;
+  description: string | null;
+  discount_type: PromotionDiscountType;
+  discount_value: number;
+  scope: PromotionScope;
+  service_ids: string[];
+  categories: string[];
+  first_visit_only: boolean;
+  max_uses: number | null; // null = unlimited
+  max_uses_per_client: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  is_active: boolean;
+  created_at: string;
+  stats?: PromotionStats;
+}
+
+export type PromotionInput = Omit<Promotion, 'id' | 'organization_id' | 'created_at' | 'stats'>;
+
+// Redemptions that still count, i.e. the booking wasn't cancelled
+export interface PromotionStats {
+  uses: number;
+  clients: number;
+  discount_total: number;
+  revenue: number; // Discounted price of the completed bookings
+}
+
+// What a code takes off one booking, before it is redeemed
+export interface PromotionPreview {
+  promotion_id: string;
+  code: string;
+  title: string;
+  first_visit_only: boolean;
+  discount_amount: number;
+}
+
+
+// ============================================================================
+// LOYALTY POINTS
+// ============================================================================
+
+export type LoyaltyTierName = 'Bronze' | 'Silver' | 'Gold' | 'Platinum';
+
+// A tier is reached by points earned over time, not the current balance
+export interface LoyaltyTier {
+  tier: LoyaltyTierName;
+  min_points: number;
+  perks: string[];
+}
+
+export interface LoyaltyProgram {
+  organization_id: string;
+  is_active: boolean;
+  points_per_peso: number; // 0.1 = 1 point per ₱10
+  peso_per_point: number; // Discount a point buys
+  min_redeem_points: number;
+  points_expire_days: number | null; // null = never
+  tiers: LoyaltyTier[];
+  updated_at?: string;
+}
+
+export type LoyaltyTransactionKind = 'earn' | 'redeem' | 'refund' | 'expire' | 'reverse';
+
+// One change to a client's points; `points` is negative when they're used up
+export interface LoyaltyTransaction {
+  id: string;
+  organization_id: string;
+  client_id: string;
+  kind: LoyaltyTransactionKind;
+  points: number;
+  booking_id: number | null;
+  expires_at: string | null;
+  created_at: string;
+}
+
+// A client's standing with one salon
+export interface LoyaltyAccount {
+  organization_id: string;
+  organization_name?: string;
+  balance: number;
+  lifetime_points: number;
+  tier: LoyaltyTierName;
+  program: LoyaltyProgram;
+}
+
+
+// ============================================================================
+// MARKETING CAMPAIGNS
+// ============================================================================
+
+export type CampaignChannel = 'email' | 'sms';
+
+// Worked out from completed visits when the campaign is sent
+export type CampaignAudience = 'all' | 'new' | 'returning' | 'vip';
+
+export type CampaignStatus = 'scheduled' | 'sending' | 'sent' | 'failed' | 'cancelled';
+
+export interface Campaign {
+  id: string;
+  organization_id: string;
+  name: string;
+  channel: CampaignChannel;
+  subject: string | null; // Email only
+  message: string;
+  audience: CampaignAudience;
+  status: CampaignStatus;
+  scheduled_at: string;
+  sent_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  metrics?: CampaignMetrics;
+}
+
+export type CampaignInput = Pick<Campaign, 'name' | 'channel' | 'subject' | 'message' | 'audience'> & {
+  scheduled_at: string | null; // null = send now
+};
+
+// `booked` recipients made a booking within 7 days of being sent the campaign
+export interface CampaignMetrics {
+  recipients: number;
+  sent: number;
+  failed: number;
+  opened: number;
+  booked: number;
+  revenue: number;
+}
+
+
+// ============================================================================
+// APPOINTMENT REMINDERS
+// ============================================================================
+
+export type ReminderChannel = 'email' | 'sms';
+
+export interface ReminderSettings {
+  organization_id: string;
+  is_active: boolean;
+  offsets_minutes: number[]; // Minutes before start_at, e.g. 1440 = a day before
+  channels: ReminderChannel[];
+  // null = the built-in template
+  email_subject: string | null;
+  email_template: string | null;
+  sms_template: string | null;
+  updated_at?: string;
+}
+
+export type ReminderDeliveryStatus = 'pending' | 'sent' | 'failed';
+
+// One reminder in the delivery log
+export interface BookingReminder {
+  id: string;
+  booking_id: number;
+  booking_start_at: string;
+  offset_minutes: number;
+  channel: ReminderChannel;
+  destination: string;
+  status: ReminderDeliveryStatus;
+  error: string | null;
+  response: 'confirmed' | 'cancelled' | null;
+  responded_at: string | null;
+  created_at: string;
+  sent_at: string | null;
+  client_name?: string | null;
+  service_name?: string | null;
+}
+
+// The appointment behind a reminder's confirm/cancel link
+export interface ReminderAppointment {
+  service_name: string | null;
+  shop_name: string | null;
+  start_at: string;
+  status: BookingStatus;
+  client_confirmed: boolean;
+  can_respond: boolean;
+  late_cancel_fee: number;
+}
+
+
+// ============================================================================
+// REVIEW REQUESTS
+// ============================================================================
+
+export interface ReviewSettings {
+  organization_id: string;
+  is_active: boolean;
+  delay_minutes: number; // after the booking is completed
+  channel: ReminderChannel;
+  updated_at?: string;
+}
+
+// Response rates for one shop or staff member
+export interface ReviewRequestStats {
+  group_by: 'shop' | 'staff';
+  group_id: string;
+  group_name: string | null;
+  sent: number;
+  opened: number;
+  responded: number;
+  average_rating: number | null;
+}
+
+// The visit behind a review request's signed link
+export interface ReviewVisit {
+  booking_id: string;
+  service_id: string;
+  shop_id: string | null;
+  start_at: string;
+  service_name: string | null;
+  shop_name: string | null;
+  staff_name: string | null;
+  rating: number | null;
+}
+
+
+// ============================================================================
+// STAFF COMMISSION
+// ============================================================================
+
+export type CommissionType = 'none' | 'percentage' | 'flat';
+
+// `rate` percent of the period's service revenue above `from`
+export interface CommissionTier {
+  from: number;
+  rate: number;
+}
+
+export interface StaffCommissionRule {
+  staff_id: string;
+  organization_id: string;
+  commission_type: CommissionType;
+  tiers: CommissionTier[];
+  flat_fee: number; // Per service performed
+  updated_at?: string;
+}
+
+// One staff member's earnings for a payroll period
+export interface PayrollLine {
+  staff_id: string | null; // null for checkouts with no stylist assigned
+  staff_name: string;
+  services_count: number;
+  service_revenue: number; // After discounts, excluding retail and tips
+  commission: number;
+  tips: number;
+}
+
+
 // ============================================================================
 // RPC FUNCTION RESPONSES
 // ============================================================================
@@ -265,6 +1033,75 @@ export interface SwitchOrganizationResponse {
 }
 
 
+// ============================================================================
+// PERMISSIONS
+// ============================================================================
+
+export type Permission =
+  | 'bookings.refund'
+  | 'bookings.checkout'
+  | 'staff.manage'
+  | 'analytics.view_revenue'
+  | 'services.edit_price'
+  | 'permissions.manage'
+  | 'audit.view';
+
+// Admins always have every permission, so only these roles can be customized
+export type CustomizableRole = Exclude<OrganizationRole, 'admin'>;
+
+export type RolePermissionMap = Record<CustomizableRole, Permission[]>;
+
+export interface PermissionInfo {
+  label: string;
+  description: string;
+}
+
+
+// ============================================================================
+// AUDIT LOG
+// ============================================================================
+
+export type AuditAction =
+  | 'booking.deleted'
+  | 'service.price_changed'
+  | 'service.updated'
+  | 'service.deleted'
+  | 'member.removed'
+  | 'member.role_changed'
+  | 'member.updated'
+  | 'staff.updated'
+  | 'staff.invite_sent'
+  | 'staff.invite_revoked'
+  | 'staff.invite_accepted';
+
+export interface AuditChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  organization_id: string;
+  actor_id: string | null;
+  actor_name: string | null;
+  action: AuditAction;
+  target_type: 'booking' | 'service' | 'member' | 'staff';
+  target_id: string | null;
+  target_label: string | null;
+  changes: Record<string, AuditChange>;
+  client_ip: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+export interface AuditLogFilters {
+  action?: AuditAction;
+  actorId?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+}
+
+
 // ============================================================================
 // MULTI-TENANT CONTEXT
 // ============================================================================
@@ -272,6 +1109,7 @@ export interface SwitchOrganizationResponse {
 export interface TenantContext {
   organization: Organization | null;
   membership: OrganizationMember | null;
+  permissions: Permission[];
   isLoading: boolean;
   error: string | null;
   
@@ -279,10 +1117,12 @@ export interface TenantContext {
   isAdmin: () => boolean;
   isManager: () => boolean;
   isStaff: () => boolean;
-  hasPermission: (permission: string) => boolean;
+  hasPermission: (permission: Permission) => boolean;
 }
 
 export interface MultiTenantContextValue extends TenantContext {
+  // Every organization the user is an active member of, for switching
+  organizations: OrganizationWithMembership[];
   switchOrganization: (organizationId: string) => Promise<boolean>;
   refreshOrganization: () => Promise<void>;
 }
@@ -0,0 +1,52 @@
+// Audit log display and export. Entries are written by the triggers in
+// supabase-audit-log-setup.sql.
+import type { AuditAction, AuditChange, AuditLogEntry } from '../types/multiTenancy';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'booking.deleted': 'Booking deleted',
+  'service.price_changed': 'Price changed',
+  'service.updated': 'Service edited',
+  'service.deleted': 'Service deleted',
+  'member.removed': 'Member removed',
+  'member.role_changed': 'Role changed',
+  'member.updated': 'Member edited',
+  'staff.updated': 'Staff info edited',
+  'staff.invite_sent': 'Staff invited',
+  'staff.invite_revoked': 'Invite withdrawn',
+  'staff.invite_accepted': 'Invite accepted',
+};
+
+export const AUDIT_ACTIONS = Object.keys(AUDIT_ACTION_LABELS) as AuditAction[];
+
+function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// e.g. "price: 500 → 650"
+export function formatAuditChange(field: string, change: AuditChange): string {
+  return `${field.replace(/_/g, ' ')}: ${formatAuditValue(change.before)} → ${formatAuditValue(change.after)}`;
+}
+
+// Deletions carry the whole row; only the fields that had a value are worth showing
+export function getAuditChangeLines(entry: AuditLogEntry): string[] {
+  return Object.entries(entry.changes)
+    .filter(([, change]) => change.before !== null || change.after !== null)
+    .map(([field, change]) => formatAuditChange(field, change));
+}
+
+export function buildAuditLogCsv(entries: AuditLogEntry[]): (string | number)[][] {
+  return [
+    ['Time', 'Actor', 'Action', 'Target', 'Changes', 'IP address', 'Browser'],
+    ...entries.map(entry => [
+      new Date(entry.created_at).toISOString(),
+      entry.actor_name || 'System',
+      AUDIT_ACTION_LABELS[entry.action] ?? entry.action,
+      entry.target_label || entry.target_id || '',
+      getAuditChangeLines(entry).join('; '),
+      entry.client_ip || '',
+      entry.user_agent || '',
+    ]),
+  ];
+}
@@ -0,0 +1,241 @@
+// Availability engine shared by every booking flow (client, walk-in, admin)
+// Pure functions only - data fetching lives in src/api/availability.ts
+
+// Minutes since local midnight, e.g. 9:30 AM = 570
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// A staff member who can take appointments on the requested date.
+// When `hours` is omitted the staff member works the shop's opening hours.
+export interface RosterEntry {
+  staffId: string;
+  hours?: TimeRange[];
+}
+
+// Minimal booking shape needed to block time
+export interface BusyBooking {
+  start_at: string;
+  end_at: string | null;
+  staff_id: string | null;
+  duration?: number; // Fallback (minutes) when end_at is missing
+}
+
+export interface AvailabilitySlot {
+  start: Date;
+  end: Date;
+  time: string; // "09:30"
+  label: string; // "9:30 AM"
+  available: boolean;
+  staffIds: string[]; // Staff free for the whole slot
+}
+
+export interface AvailabilityInput {
+  date: Date;
+  openingHours: TimeRange[];
+  roster: RosterEntry[];
+  bookings: BusyBooking[];
+  durationMinutes: number;
+  slotInterval?: number;
+  staffId?: string | null; // Restrict to one stylist
+  startMinutes?: number[]; // Check exactly these start times instead of the slot grid
+  now?: Date;
+}
+
+// One service in a multi-service visit, booked back-to-back in the order given
+export interface VisitSegmentInput {
+  roster: RosterEntry[]; // Staff able to perform this service
+  durationMinutes: number;
+  staffId?: string | null;
+}
+
+export interface VisitSlot {
+  start: Date;
+  end: Date;
+  time: string;
+  label: string;
+  available: boolean;
+  segments: AvailabilitySlot[]; // Per service, in visit order
+}
+
+export const DEFAULT_SLOT_INTERVAL = 30;
+export const DEFAULT_BOOKING_DURATION = 60;
+
+// Placeholder resource used when a shop has no roster yet, so the shop is
+// treated as a single chair instead of being fully open or fully closed.
+export const SHOP_RESOURCE_ID = '__shop__';
+
+// Convert minutes since midnight to "9:30 AM"
+export function formatMinutes12Hour(minutes: number): string {
+  const hour24 = Math.floor(minutes / 60);
+  const minute = minutes % 60;
+  const period = hour24 >= 12 ? 'PM' : 'AM';
+  const hour12 = hour24 % 12 === 0 ? 12 : hour24 % 12;
+  return `${hour12}:${minute.toString().padStart(2, '0')} ${period}`;
+}
+
+// Convert minutes since midnight to "09:30"
+export function formatMinutes24Hour(minutes: number): string {
+  const hour = Math.floor(minutes / 60);
+  const minute = minutes % 60;
+  return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+}
+
+function atMinutes(date: Date, minutes: number): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  result.setMinutes(minutes);
+  return result;
+}
+
+function overlaps(aStart: number, aEnd: number, bStart: number, bEnd: number): boolean {
+  return aStart < bEnd && bStart < aEnd;
+}
+
+function fitsWithin(ranges: TimeRange[], start: number, end: number): boolean {
+  return ranges.some(range => start >= range.start && end <= range.end);
+}
+
+// Resolve the end of a booking, falling back to its service duration
+export function getBookingEnd(booking: BusyBooking): Date {
+  const start = new Date(booking.start_at);
+  if (booking.end_at) {
+    const end = new Date(booking.end_at);
+    if (end > start) return end;
+  }
+  return new Date(start.getTime() + (booking.duration || DEFAULT_BOOKING_DURATION) * 60000);
+}
+
+/**
+ * Compute every candidate start time for a date and mark which ones are bookable.
+ *
+ * A slot is bookable when it starts in the future, the whole service fits inside
+ * opening hours, and at least one rostered staff member is on shift and not
+ * already booked for the full duration. Bookings without a staff member still
+ * consume one free stylist each.
+ */
+export function computeAvailability(input: AvailabilityInput): AvailabilitySlot[] {
+  const {
+    date,
+    openingHours,
+    bookings,
+    durationMinutes,
+    slotInterval = DEFAULT_SLOT_INTERVAL,
+    staffId,
+    startMinutes,
+    now = new Date(),
+  } = input;
+
+  const roster = input.roster.length > 0 ? input.roster : [{ staffId: SHOP_RESOURCE_ID }];
+  const duration = durationMinutes > 0 ? durationMinutes : DEFAULT_BOOKING_DURATION;
+  const dayStart = atMinutes(date, 0).getTime();
+
+  // Pre-compute busy intervals in minutes for the selected day
+  const busy = bookings.map(booking => ({
+    staffId: booking.staff_id,
+    start: (new Date(booking.start_at).getTime() - dayStart) / 60000,
+    end: (getBookingEnd(booking).getTime() - dayStart) / 60000,
+  }));
+
+  const candidates = new Set<number>(startMinutes);
+  if (!startMinutes) {
+    openingHours.forEach(range => {
+      for (let minute = range.start; minute + duration <= range.end; minute += slotInterval) {
+        candidates.add(minute);
+      }
+    });
+  }
+
+  return [...candidates]
+    .sort((a, b) => a - b)
+    .map(minute => {
+      const slotEnd = minute + duration;
+      const start = atMinutes(date, minute);
+      const end = atMinutes(date, slotEnd);
+
+      const onShift = roster.filter(entry =>
+        fitsWithin(entry.hours ?? openingHours, minute, slotEnd)
+      );
+      const free = onShift.filter(entry =>
+        !busy.some(b => b.staffId === entry.staffId && overlaps(minute, slotEnd, b.start, b.end))
+      );
+      const unassigned = busy.filter(b =>
+        (!b.staffId || !roster.some(entry => entry.staffId === b.staffId)) &&
+        overlaps(minute, slotEnd, b.start, b.end)
+      ).length;
+
+      const candidatesForSlot = staffId ? free.filter(entry => entry.staffId === staffId) : free;
+      const capacity = staffId ? Math.min(candidatesForSlot.length, free.length - unassigned) : free.length - unassigned;
+      const available = start > now && capacity > 0;
+
+      return {
+        start,
+        end,
+        time: formatMinutes24Hour(minute),
+        label: formatMinutes12Hour(minute),
+        available,
+        staffIds: available
+          ? candidatesForSlot.map(entry => entry.staffId).filter(id => id !== SHOP_RESOURCE_ID)
+          : [],
+      };
+    });
+}
+
+/**
+ * Compute start times for several services booked back-to-back in one visit.
+ *
+ * The whole visit must fit inside one opening period, and each service must
+ * have a free stylist (the requested one, if any) for its own part of the visit.
+ */
+export function computeVisitAvailability(input: {
+  date: Date;
+  openingHours: TimeRange[];
+  bookings: BusyBooking[];
+  segments: VisitSegmentInput[];
+  slotInterval?: number;
+  now?: Date;
+}): VisitSlot[] {
+  const { date, openingHours, bookings, segments, slotInterval = DEFAULT_SLOT_INTERVAL, now = new Date() } = input;
+  if (segments.length === 0) return [];
+
+  const durations = segments.map(segment => (segment.durationMinutes > 0 ? segment.durationMinutes : DEFAULT_BOOKING_DURATION));
+  const total = durations.reduce((sum, minutes) => sum + minutes, 0);
+
+  const startSet = new Set<number>();
+  openingHours.forEach(range => {
+    for (let minute = range.start; minute + total <= range.end; minute += slotInterval) {
+      startSet.add(minute);
+    }
+  });
+  const starts = [...startSet].sort((a, b) => a - b);
+
+  // Evaluate each service at its offset from every visit start
+  let offset = 0;
+  const perSegment = segments.map((segment, index) => {
+    const slots = computeAvailability({
+      date,
+      openingHours,
+      roster: segment.roster,
+      bookings,
+      durationMinutes: durations[index],
+      staffId: segment.staffId,
+      startMinutes: starts.map(minute => minute + offset),
+      now,
+    });
+    offset += durations[index];
+    return slots;
+  });
+
+  return starts.map((minute, index) => {
+    const parts = perSegment.map(slots => slots[index]);
+    return {
+      start: atMinutes(date, minute),
+      end: atMinutes(date, minute + total),
+      time: formatMinutes24Hour(minute),
+      label: formatMinutes12Hour(minute),
+      available: parts.every(part => part.available),
+      segments: parts,
+    };
+  });
+}
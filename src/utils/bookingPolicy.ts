@@ -0,0 +1,72 @@
+// Booking policy helpers - pure checks shared by client and staff flows
+import type { BookingPolicy } from '../types/multiTenancy';
+
+export const DEFAULT_BOOKING_POLICY: BookingPolicy = {
+  reschedule_cutoff_hours: 12,
+  max_reschedules: null,
+  cancellation_cutoff_hours: 0,
+  late_cancel_fee_percent: 0,
+  no_show_fee_percent: 0,
+  prepay_after_no_shows: null,
+};
+
+// Fill in missing fields so older or partial policies are safe to read
+export function normalizeBookingPolicy(policy: Partial<BookingPolicy> | null | undefined): BookingPolicy {
+  return { ...DEFAULT_BOOKING_POLICY, ...(policy || {}) };
+}
+
+// Hours from `now` until the appointment starts (negative once it has started)
+export function hoursUntil(startAt: string | Date, now: Date = new Date()): number {
+  return (new Date(startAt).getTime() - now.getTime()) / 3600000;
+}
+
+/**
+ * Why a booking can't be rescheduled under the policy, or null when it can
+ */
+export function getRescheduleBlockReason(
+  policy: BookingPolicy,
+  booking: { start_at: string; status: string; reschedule_count?: number },
+  now: Date = new Date()
+): string | null {
+  if (booking.status !== 'pending' && booking.status !== 'confirmed') {
+    return `A ${booking.status} appointment can't be rescheduled`;
+  }
+
+  const hoursLeft = hoursUntil(booking.start_at, now);
+  if (hoursLeft <= 0) {
+    return 'This appointment has already started';
+  }
+  if (policy.reschedule_cutoff_hours > 0 && hoursLeft < policy.reschedule_cutoff_hours) {
+    return `Appointments can't be changed within ${policy.reschedule_cutoff_hours} hours of the start time`;
+  }
+  if (policy.max_reschedules !== null && (booking.reschedule_count || 0) >= policy.max_reschedules) {
+    return `This appointment has already been rescheduled the maximum of ${policy.max_reschedules} time${policy.max_reschedules === 1 ? '' : 's'}`;
+  }
+
+  return null;
+}
+
+// A client cancellation inside the cutoff window counts as late
+export function isLateCancellation(
+  policy: BookingPolicy,
+  booking: { start_at: string },
+  now: Date = new Date()
+): boolean {
+  return policy.cancellation_cutoff_hours > 0 && hoursUntil(booking.start_at, now) < policy.cancellation_cutoff_hours;
+}
+
+// Fee as a percentage of the service price, rounded to whole currency units
+export function getPolicyFee(percent: number, servicePrice: number | null | undefined): number {
+  if (!percent || percent <= 0 || !servicePrice) return 0;
+  return Math.round((servicePrice * Math.min(percent, 100)) / 100);
+}
+
+// Whether a client's no-show history means they must pay upfront
+export function requiresPrepayment(policy: BookingPolicy, noShows: number): boolean {
+  return policy.prepay_after_no_shows !== null && policy.prepay_after_no_shows > 0 && noShows >= policy.prepay_after_no_shows;
+}
+
+// "no_show" -> "no-show" for status badges (they capitalize the first letter)
+export function formatBookingStatus(status: string): string {
+  return status.replace(/_/g, '-');
+}
@@ -0,0 +1,118 @@
+// Business hours helpers - turns a shop's weekly schedule and closure calendar
+// into concrete opening ranges for a date
+import type { OpeningInterval, ShopCalendar, ShopClosure, Weekday, WeeklySchedule } from '../types/multiTenancy';
+import type { TimeRange } from './availability';
+
+export const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  sun: 'Sunday',
+  mon: 'Monday',
+  tue: 'Tuesday',
+  wed: 'Wednesday',
+  thu: 'Thursday',
+  fri: 'Friday',
+  sat: 'Saturday',
+};
+
+// Matches the 9 AM - 6 PM, seven-days-a-week hours every shop had before
+// business hours became configurable
+export const DEFAULT_WEEKLY_SCHEDULE: WeeklySchedule = {
+  sun: [{ open: '09:00', close: '18:00' }],
+  mon: [{ open: '09:00', close: '18:00' }],
+  tue: [{ open: '09:00', close: '18:00' }],
+  wed: [{ open: '09:00', close: '18:00' }],
+  thu: [{ open: '09:00', close: '18:00' }],
+  fri: [{ open: '09:00', close: '18:00' }],
+  sat: [{ open: '09:00', close: '18:00' }],
+};
+
+// "09:30" -> 570
+export function toMinutes(time: string): number {
+  const [hourStr, minuteStr] = time.split(':');
+  return parseInt(hourStr, 10) * 60 + parseInt(minuteStr || '0', 10);
+}
+
+// Format a Date as YYYY-MM-DD in local time
+export function toDateKey(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Fill in missing days so a partial or NULL schedule from the database is safe to read
+export function normalizeSchedule(schedule: Partial<WeeklySchedule> | null | undefined): WeeklySchedule {
+  if (!schedule) return DEFAULT_WEEKLY_SCHEDULE;
+  return WEEKDAYS.reduce((result, day) => {
+    result[day] = Array.isArray(schedule[day]) ? schedule[day] as OpeningInterval[] : [];
+    return result;
+  }, {} as WeeklySchedule);
+}
+
+/**
+ * Validate a schedule or special-hours list. Returns an error message or null.
+ */
+export function validateIntervals(intervals: OpeningInterval[]): string | null {
+  const ranges = intervals
+    .map(interval => ({ start: toMinutes(interval.open), end: toMinutes(interval.close) }))
+    .sort((a, b) => a.start - b.start);
+
+  for (let i = 0; i < ranges.length; i++) {
+    if (Number.isNaN(ranges[i].start) || Number.isNaN(ranges[i].end)) {
+      return 'Please enter valid opening and closing times';
+    }
+    if (ranges[i].end <= ranges[i].start) {
+      return 'Closing time must be after opening time';
+    }
+    if (i > 0 && ranges[i].start < ranges[i - 1].end) {
+      return 'Opening hours on the same day cannot overlap';
+    }
+  }
+  return null;
+}
+
+// Find the closure entry covering a date, if any
+export function getClosureForDate(closures: ShopClosure[], date: Date): ShopClosure | null {
+  const key = toDateKey(date);
+  return closures.find(closure => key >= closure.start_date && key <= closure.end_date) || null;
+}
+
+/**
+ * Opening ranges (minutes since midnight) for a specific date.
+ * Closures and holidays win over the weekly schedule; a closure with its own
+ * hours replaces the regular hours for that day.
+ */
+export function getOpeningHoursForDate(calendar: Pick<ShopCalendar, 'isOpen' | 'schedule' | 'closures'>, date: Date): TimeRange[] {
+  if (!calendar.isOpen) return [];
+
+  const closure = getClosureForDate(calendar.closures, date);
+  const intervals = closure
+    ? closure.hours || []
+    : calendar.schedule[WEEKDAYS[date.getDay()]] || [];
+
+  return intervals
+    .map(interval => ({ start: toMinutes(interval.open), end: toMinutes(interval.close) }))
+    .filter(range => range.end > range.start)
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Whether the shop is open at a specific moment (used for "Open now" badges)
+ */
+export function isShopOpenAt(calendar: Pick<ShopCalendar, 'isOpen' | 'schedule' | 'closures'>, moment: Date = new Date()): boolean {
+  const minutes = moment.getHours() * 60 + moment.getMinutes();
+  return getOpeningHoursForDate(calendar, moment).some(range => minutes >= range.start && minutes < range.end);
+}
+
+// "9:00 AM - 12:00 PM, 1:00 PM - 6:00 PM" or "Closed"
+export function formatIntervals(intervals: OpeningInterval[]): string {
+  if (intervals.length === 0) return 'Closed';
+  const format = (time: string) => {
+    const minutes = toMinutes(time);
+    const hour24 = Math.floor(minutes / 60);
+    const period = hour24 >= 12 ? 'PM' : 'AM';
+    const hour12 = hour24 % 12 === 0 ? 12 : hour24 % 12;
+    return `${hour12}:${(minutes % 60).toString().padStart(2, '0')} ${period}`;
+  };
+  return intervals.map(interval => `${format(interval.open)} - ${format(interval.close)}`).join(', ');
+}
@@ -0,0 +1,38 @@
+// Campaign rules - mirror resolve_campaign_audience() in
+// supabase-campaigns-setup.sql
+import type { CampaignAudience, CampaignChannel, CampaignInput, CampaignMetrics, CampaignStatus } from '../types/multiTenancy';
+
+export const CAMPAIGN_CHANNEL_LABELS: Record<CampaignChannel, string> = {
+  email: 'Email',
+  sms: 'SMS',
+};
+
+export const CAMPAIGN_STATUS_LABELS: Record<CampaignStatus, string> = {
+  scheduled: 'Scheduled',
+  sending: 'Sending',
+  sent: 'Sent',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+// Completed visits a client needs to be in each audience
+export const CAMPAIGN_AUDIENCE_RULES: Record<CampaignAudience, { label: string; minVisits: number; maxVisits: number | null }> = {
+  all: { label: 'All Clients', minVisits: 0, maxVisits: null },
+  new: { label: 'New Clients (0-1 visits)', minVisits: 0, maxVisits: 1 },
+  returning: { label: 'Returning Clients (2+ visits)', minVisits: 2, maxVisits: null },
+  vip: { label: 'VIP Clients (10+ visits)', minVisits: 10, maxVisits: null },
+};
+
+// SMS longer than this is sent as several messages
+export const SMS_SEGMENT_LENGTH = 160;
+
+export const getCampaignRate = (count: number, metrics: Pick<CampaignMetrics, 'sent'>) =>
+  metrics.sent > 0 ? (count / metrics.sent) * 100 : 0;
+
+export function validateCampaignInput(input: CampaignInput, now = new Date()): string | null {
+  if (!input.name.trim()) return 'Campaign name is required';
+  if (input.channel === 'email' && !input.subject?.trim()) return 'Email campaigns need a subject';
+  if (!input.message.trim()) return 'Message content is required';
+  if (input.scheduled_at && new Date(input.scheduled_at) < now) return 'The schedule time has already passed';
+  return null;
+}
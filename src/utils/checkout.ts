@@ -0,0 +1,123 @@
+// Checkout maths and receipts - totals mirror complete_checkout() in supabase-checkout-setup.sql
+import type { Checkout, CheckoutItemInput, CheckoutTenderInput, TenderMethod } from '../types/multiTenancy';
+
+export const TENDER_LABELS: Record<TenderMethod, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  gcash: 'GCash',
+  maya: 'Maya',
+  gift_card: 'Gift card',
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export function getLineTotal(item: Pick<CheckoutItemInput, 'unit_price' | 'quantity'>): number {
+  return roundMoney(item.unit_price * item.quantity);
+}
+
+export interface CheckoutTotals {
+  subtotal: number;
+  discount: number;
+  tip: number;
+  total: number;
+  prepaid: number;
+  amountDue: number;
+}
+
+export function calculateCheckoutTotals(params: {
+  items: Pick<CheckoutItemInput, 'unit_price' | 'quantity'>[];
+  discount: number;
+  tip: number;
+  prepaid: number; // Already paid online for this booking
+}): CheckoutTotals {
+  const subtotal = roundMoney(params.items.reduce((sum, item) => sum + getLineTotal(item), 0));
+  const discount = Math.min(Math.max(0, params.discount), subtotal);
+  const tip = Math.max(0, params.tip);
+  const total = roundMoney(subtotal - discount + tip);
+  const prepaid = Math.min(Math.max(0, params.prepaid), total);
+  return { subtotal, discount, tip, total, prepaid, amountDue: roundMoney(total - prepaid) };
+}
+
+// Change is only ever given back from cash
+export function getChangeDue(tenders: CheckoutTenderInput[], amountDue: number): number {
+  const tendered = tenders.reduce((sum, tender) => sum + tender.amount, 0);
+  return Math.max(0, roundMoney(tendered - amountDue));
+}
+
+export function validateTenders(tenders: CheckoutTenderInput[], amountDue: number): string | null {
+  if (tenders.some(tender => !(tender.amount > 0))) return 'Every payment needs an amount';
+  if (tenders.some(tender => tender.method === 'gift_card' && !tender.reference?.trim())) return 'Enter the gift card code';
+
+  const tendered = roundMoney(tenders.reduce((sum, tender) => sum + tender.amount, 0));
+  if (tendered < amountDue) return `Payments are ₱${(amountDue - tendered).toFixed(2)} short`;
+
+  const cash = tenders.filter(tender => tender.method === 'cash').reduce((sum, tender) => sum + tender.amount, 0);
+  if (tendered - amountDue > cash + 0.001) return 'Only cash can be more than the amount due';
+  return null;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char] ?? char);
+
+const money = (value: number) => `₱${Number(value).toFixed(2)}`;
+
+/**
+ * Standalone receipt page for printing. The send-receipt-email edge function
+ * has its own copy for email, as edge functions can't import from src/.
+ */
+export function buildReceiptHtml(checkout: Checkout): string {
+  const row = (label: string, value: string, bold = false) =>
+    `<tr${bold ? ' style="font-weight:bold"' : ''}><td>${escapeHtml(label)}</td><td style="text-align:right">${value}</td></tr>`;
+
+  const items = (checkout.items ?? [])
+    .map(item => row(`${item.description}${item.quantity > 1 ? ` × ${item.quantity}` : ''}`, money(item.line_total)))
+    .join('');
+  const tenders = (checkout.tenders ?? [])
+    .map(tender => row(`${TENDER_LABELS[tender.method]}${tender.reference ? ` (${tender.reference})` : ''}`, money(tender.amount)))
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>Receipt ${escapeHtml(checkout.receipt_number)}</title>
+    <style>
+      body { font-family: Arial, sans-serif; max-width: 320px; margin: 0 auto; padding: 16px; color: #111; font-size: 13px; }
+      h1 { font-size: 18px; text-align: center; margin: 0 0 4px; }
+      p { margin: 2px 0; text-align: center; color: #555; }
+      table { width: 100%; border-collapse: collapse; margin-top: 12px; }
+      td { padding: 3px 0; }
+      hr { border: none; border-top: 1px dashed #999; margin: 10px 0; }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeHtml(checkout.shop?.name || 'GlamQueue')}</h1>
+    ${checkout.shop?.address ? `<p>${escapeHtml(checkout.shop.address)}</p>` : ''}
+    <p>Receipt ${escapeHtml(checkout.receipt_number)}</p>
+    <p>${new Date(checkout.created_at).toLocaleString('en-US')}</p>
+    <table>${items}</table>
+    <hr>
+    <table>
+      ${row('Subtotal', money(checkout.subtotal))}
+      ${checkout.discount_amount > 0 ? row(`Discount${checkout.discount_reason ? ` (${checkout.discount_reason})` : ''}`, `−${money(checkout.discount_amount)}`) : ''}
+      ${checkout.tip_amount > 0 ? row('Tip', money(checkout.tip_amount)) : ''}
+      ${row('Total', money(checkout.total), true)}
+      ${checkout.prepaid_amount > 0 ? row('Paid online', `−${money(checkout.prepaid_amount)}`) : ''}
+    </table>
+    ${tenders ? `<hr><table>${tenders}${checkout.change_given > 0 ? row('Change', money(checkout.change_given)) : ''}</table>` : ''}
+    <hr>
+    <p>Thank you for visiting!</p>
+  </body>
+</html>`;
+}
+
+// Opens the receipt in a small window and prints it. False if pop-ups are blocked.
+export function printReceipt(checkout: Checkout): boolean {
+  const receiptWindow = window.open('', '_blank', 'width=400,height=640');
+  if (!receiptWindow) return false;
+  receiptWindow.document.write(buildReceiptHtml(checkout));
+  receiptWindow.document.close();
+  receiptWindow.focus();
+  receiptWindow.print();
+  return true;
+}
@@ -0,0 +1,76 @@
+// Commission maths for payroll - rules live in supabase-commission-setup.sql
+import type { Checkout, CommissionTier, CommissionType, StaffCommissionRule } from '../types/multiTenancy';
+
+export const COMMISSION_TYPE_LABELS: Record<CommissionType, string> = {
+  none: 'No commission',
+  percentage: 'Percentage of service revenue',
+  flat: 'Flat fee per service',
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+type CommissionRule = Pick<StaffCommissionRule, 'commission_type' | 'tiers' | 'flat_fee'>;
+
+const sortTiers = (tiers: CommissionTier[]) => [...tiers].sort((a, b) => a.from - b.from);
+
+/**
+ * Commission for a period. Tiers work like tax brackets: each rate applies
+ * only to the revenue between its `from` amount and the next tier's, so
+ * crossing a threshold never lowers what was already earned.
+ */
+export function calculateCommission(
+  rule: CommissionRule | null | undefined,
+  earnings: { serviceRevenue: number; servicesCount: number }
+): number {
+  if (!rule) return 0;
+  if (rule.commission_type === 'flat') return roundMoney(rule.flat_fee * earnings.servicesCount);
+  if (rule.commission_type !== 'percentage') return 0;
+
+  const tiers = sortTiers(rule.tiers);
+  const commission = tiers.reduce((sum, tier, index) => {
+    const upTo = tiers[index + 1]?.from ?? Infinity;
+    const band = Math.max(0, Math.min(earnings.serviceRevenue, upTo) - tier.from);
+    return sum + (band * tier.rate) / 100;
+  }, 0);
+  return roundMoney(commission);
+}
+
+/**
+ * Service and add-on revenue on a checkout, less their share of the
+ * discount. Retail products and tips don't earn commission.
+ */
+export function getCheckoutServiceRevenue(checkout: Pick<Checkout, 'items' | 'subtotal' | 'discount_amount'>): {
+  revenue: number;
+  count: number;
+} {
+  const serviceItems = (checkout.items ?? []).filter(item => item.kind !== 'product');
+  const serviceSubtotal = serviceItems.reduce((sum, item) => sum + item.line_total, 0);
+  const discountShare = checkout.subtotal > 0 ? (checkout.discount_amount * serviceSubtotal) / checkout.subtotal : 0;
+  return {
+    revenue: roundMoney(serviceSubtotal - discountShare),
+    count: serviceItems.reduce((sum, item) => sum + item.quantity, 0),
+  };
+}
+
+export function validateCommissionRule(rule: CommissionRule): string | null {
+  if (rule.commission_type === 'flat' && !(rule.flat_fee > 0)) return 'Enter a flat fee greater than zero';
+  if (rule.commission_type !== 'percentage') return null;
+
+  if (rule.tiers.length === 0) return 'Add at least one commission tier';
+  if (rule.tiers.some(tier => !(tier.rate >= 0 && tier.rate <= 100))) return 'Rates must be between 0% and 100%';
+  if (rule.tiers.some(tier => !(tier.from >= 0))) return 'Tier thresholds cannot be negative';
+  const starts = rule.tiers.map(tier => tier.from);
+  if (new Set(starts).size !== starts.length) return 'Two tiers start at the same amount';
+  if (!starts.includes(0)) return 'The first tier must start at ₱0';
+  return null;
+}
+
+// e.g. "10%", "10% → 15% over ₱50,000" or "₱150 per service"
+export function formatCommissionRule(rule: CommissionRule | null | undefined): string | null {
+  if (!rule) return null;
+  if (rule.commission_type === 'flat') return `₱${rule.flat_fee.toLocaleString()} per service`;
+  if (rule.commission_type !== 'percentage' || rule.tiers.length === 0) return null;
+
+  const [first, ...rest] = sortTiers(rule.tiers);
+  return [`${first.rate}%`, ...rest.map(tier => `${tier.rate}% over ₱${tier.from.toLocaleString()}`)].join(' → ');
+}
@@ -0,0 +1,26 @@
+// Spreadsheet exports
+
+// Spreadsheets run text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: string | number) => {
+  if (typeof value === 'string' && FORMULA_PREFIX.test(value)) {
+    return `"'${value.replace(/"/g, '""')}"`;
+  }
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(rows: (string | number)[][]): string {
+  return rows.map(row => row.map(escapeCell).join(',')).join('\n');
+}
+
+export function downloadCsv(filename: string, rows: (string | number)[][]): void {
+  const blob = new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
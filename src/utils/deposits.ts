@@ -0,0 +1,69 @@
+// Deposit rules - mirrors set_booking_deposit() in supabase-deposits-setup.sql
+import type { DepositType, Payment } from '../types/multiTenancy';
+
+export const DEPOSIT_TYPE_LABELS: Record<DepositType, string> = {
+  none: 'No deposit',
+  fixed: 'Fixed amount',
+  percentage: 'Percentage of price',
+};
+
+interface DepositRule {
+  price: number;
+  deposit_type?: DepositType;
+  deposit_value?: number;
+}
+
+export function getDepositAmount(service: DepositRule): number {
+  const value = Number(service.deposit_value ?? 0);
+  if (service.deposit_type === 'fixed') return Math.min(value, service.price);
+  if (service.deposit_type === 'percentage') return Math.round(service.price * value) / 100;
+  return 0;
+}
+
+// e.g. "₱500 deposit" or "30% deposit (₱450)"
+export function formatDepositRule(service: DepositRule): string | null {
+  const amount = getDepositAmount(service);
+  if (amount <= 0) return null;
+  if (service.deposit_type === 'percentage') {
+    return `${Number(service.deposit_value)}% deposit (₱${amount.toFixed(2)})`;
+  }
+  return `₱${amount.toFixed(2)} deposit`;
+}
+
+export function validateDepositRule(rule: { deposit_type: DepositType; deposit_value: number; price: number }): string | null {
+  if (rule.deposit_type === 'none') return null;
+  if (!(rule.deposit_value > 0)) return 'Enter a deposit greater than zero';
+  if (rule.deposit_type === 'percentage' && rule.deposit_value > 100) return 'A percentage deposit cannot exceed 100%';
+  if (rule.deposit_type === 'fixed' && rule.deposit_value > rule.price) return 'The deposit cannot be more than the price';
+  return null;
+}
+
+export function isDepositDue(booking: { status: string; deposit_amount?: number; deposit_paid_at?: string | null }): boolean {
+  return booking.status === 'pending' && (booking.deposit_amount ?? 0) > 0 && !booking.deposit_paid_at;
+}
+
+export interface BookingBill {
+  price: number;
+  depositPaid: number;
+  otherPaid: number;
+  balance: number;
+}
+
+/**
+ * What's left to pay on a booking once its deposit and any other completed
+ * payments (less refunds) are taken off the service price
+ */
+export function getBookingBill(price: number, payments: Pick<Payment, 'status' | 'amount' | 'refunded_amount' | 'purpose'>[]): BookingBill {
+  const netPaid = (payment: (typeof payments)[number]) =>
+    payment.status === 'completed' || payment.status === 'refunded' ? payment.amount - payment.refunded_amount : 0;
+
+  const depositPaid = payments.filter(p => p.purpose === 'deposit').reduce((sum, p) => sum + netPaid(p), 0);
+  const otherPaid = payments.filter(p => p.purpose !== 'deposit').reduce((sum, p) => sum + netPaid(p), 0);
+
+  return {
+    price,
+    depositPaid,
+    otherPaid,
+    balance: Math.max(0, Math.round((price - depositPaid - otherPaid) * 100) / 100),
+  };
+}
@@ -0,0 +1,85 @@
+// Loyalty rules - mirror apply_booking_loyalty_points() and
+// redeem_loyalty_points() in supabase-loyalty-setup.sql
+import type {
+  LoyaltyProgram,
+  LoyaltyTier,
+  LoyaltyTierName,
+  LoyaltyTransaction,
+} from '../types/multiTenancy';
+
+export const LOYALTY_TIER_NAMES: LoyaltyTierName[] = ['Bronze', 'Silver', 'Gold', 'Platinum'];
+
+// Used until an organization saves its own program
+export const DEFAULT_LOYALTY_PROGRAM: Omit<LoyaltyProgram, 'organization_id'> = {
+  is_active: true,
+  points_per_peso: 0.1,
+  peso_per_point: 1,
+  min_redeem_points: 100,
+  points_expire_days: null,
+  tiers: [
+    { tier: 'Bronze', min_points: 0, perks: [] },
+    { tier: 'Silver', min_points: 500, perks: [] },
+    { tier: 'Gold', min_points: 1500, perks: [] },
+    { tier: 'Platinum', min_points: 4000, perks: [] },
+  ],
+};
+
+const sortTiers = (tiers: LoyaltyTier[]) => [...tiers].sort((a, b) => a.min_points - b.min_points);
+
+export function getLoyaltyTier(lifetimePoints: number, tiers: LoyaltyTier[]): LoyaltyTierName {
+  const reached = sortTiers(tiers).filter(tier => lifetimePoints >= tier.min_points);
+  return reached[reached.length - 1]?.tier ?? 'Bronze';
+}
+
+// The next tier up and how many more points it needs, or null at the top
+export function getNextLoyaltyTier(
+  lifetimePoints: number,
+  tiers: LoyaltyTier[]
+): { tier: LoyaltyTier; pointsNeeded: number } | null {
+  const next = sortTiers(tiers).find(tier => tier.min_points > lifetimePoints);
+  return next ? { tier: next, pointsNeeded: next.min_points - lifetimePoints } : null;
+}
+
+/**
+ * How many points a client would spend on a booking and the discount that
+ * buys: never more than the balance, and no more than the price needs.
+ */
+export function getPointsRedemption(
+  program: Pick<LoyaltyProgram, 'peso_per_point' | 'min_redeem_points'>,
+  balance: number,
+  price: number
+): { points: number; discount: number } | null {
+  if (balance < program.min_redeem_points || price <= 0) return null;
+  const points = Math.min(balance, Math.ceil(price / program.peso_per_point));
+  return { points, discount: Math.min(Math.round(points * program.peso_per_point * 100) / 100, price) };
+}
+
+// Balance and points earned over time, from a client's ledger
+export function summarizeLoyaltyTransactions(
+  transactions: Pick<LoyaltyTransaction, 'kind' | 'points'>[]
+): { balance: number; lifetimePoints: number } {
+  return transactions.reduce(
+    (totals, t) => ({
+      balance: totals.balance + t.points,
+      lifetimePoints: totals.lifetimePoints + (t.kind === 'earn' || t.kind === 'reverse' ? t.points : 0),
+    }),
+    { balance: 0, lifetimePoints: 0 }
+  );
+}
+
+export function validateLoyaltyProgram(program: Omit<LoyaltyProgram, 'organization_id'>): string | null {
+  if (!(program.points_per_peso > 0)) return 'Points per peso must be greater than zero';
+  if (!(program.peso_per_point > 0)) return 'A point must be worth more than zero';
+  if (!(program.min_redeem_points >= 1)) return 'The minimum to redeem must be at least 1 point';
+  if (program.points_expire_days !== null && !(program.points_expire_days >= 1)) {
+    return 'Points must last at least one day';
+  }
+  if (program.tiers.some(tier => !(tier.min_points >= 0))) return 'Tier thresholds cannot be negative';
+  const bronze = program.tiers.find(tier => tier.tier === 'Bronze');
+  if (bronze && bronze.min_points !== 0) return 'Bronze must start at 0 points';
+  const ordered = LOYALTY_TIER_NAMES.map(name => program.tiers.find(tier => tier.tier === name)?.min_points ?? 0);
+  if (ordered.some((points, index) => index > 0 && points <= ordered[index - 1])) {
+    return 'Each tier needs more points than the one below it';
+  }
+  return null;
+}
@@ -0,0 +1,103 @@
+// Service package helpers - pure pricing and usage math shared by admin and client screens
+import type { ClientPackage, PackageKind, ServicePackage, ServicePackageInput, ServicePackageItem } from '../types/multiTenancy';
+
+export const PACKAGE_KIND_LABELS: Record<PackageKind, string> = {
+  bundle: 'Bundle',
+  prepaid: 'Prepaid pack',
+};
+
+// Booking statuses that hold or have used up one use of a package
+const USES_PACKAGE = new Set(['pending', 'confirmed', 'completed']);
+
+export interface PackagePricing {
+  regularPrice: number; // What the covered services cost when booked one by one
+  price: number;
+  savings: number; // Never negative
+  savingsPercent: number; // Whole percent off the regular price
+}
+
+/**
+ * Bundle price against the services' standalone prices
+ */
+export function getPackagePricing(pkg: Pick<ServicePackage, 'price' | 'items'>): PackagePricing {
+  const regularPrice = pkg.items.reduce(
+    (sum, item) => sum + (item.service?.price ?? 0) * item.quantity,
+    0
+  );
+  const savings = Math.max(0, regularPrice - pkg.price);
+  return {
+    regularPrice,
+    price: pkg.price,
+    savings,
+    savingsPercent: regularPrice > 0 ? Math.round((savings / regularPrice) * 100) : 0,
+  };
+}
+
+/**
+ * Why a package definition can't be saved, or null when it's valid
+ */
+export function validatePackageInput(input: ServicePackageInput): string | null {
+  if (!input.name.trim()) return 'Give the package a name';
+  if (!input.shop_id) return 'Choose the branch that sells this package';
+  if (!Number.isFinite(input.price) || input.price < 0) return 'Enter a valid package price';
+  if (input.validity_days !== null && (!Number.isInteger(input.validity_days) || input.validity_days < 1)) {
+    return 'Validity must be a whole number of days';
+  }
+  if (input.items.some(item => !Number.isInteger(item.quantity) || item.quantity < 1 || item.quantity > 50)) {
+    return 'Each service can be included 1 to 50 times';
+  }
+
+  if (input.kind === 'prepaid') {
+    if (input.items.length !== 1) return 'A prepaid pack covers exactly one service';
+    if (input.items[0].quantity < 2) return 'A prepaid pack needs at least 2 uses';
+  } else if (input.items.length < 2) {
+    return 'A bundle needs at least 2 different services';
+  }
+  return null;
+}
+
+// "Haircut, Color & Blow-dry" or "5× Blowout"
+export function formatPackageItems(items: ServicePackageItem[]): string {
+  const names = items.map(item =>
+    `${item.quantity > 1 ? `${item.quantity}× ` : ''}${item.service?.name ?? 'Service'}`
+  );
+  if (names.length <= 1) return names.join('');
+  return `${names.slice(0, -1).join(', ')} & ${names[names.length - 1]}`;
+}
+
+export function isClientPackageExpired(clientPackage: Pick<ClientPackage, 'status' | 'expires_at'>, now = new Date()): boolean {
+  return clientPackage.status === 'expired' ||
+    (!!clientPackage.expires_at && new Date(clientPackage.expires_at) <= now);
+}
+
+/**
+ * Uses left per service on a purchased package. Upcoming bookings hold a use
+ * until they are cancelled, so this is what can still be booked.
+ */
+export function getRemainingUses(clientPackage: ClientPackage): Map<string, number> {
+  const remaining = new Map<string, number>();
+  for (const item of clientPackage.package?.items ?? []) {
+    remaining.set(item.service_id, item.quantity);
+  }
+  for (const booking of clientPackage.bookings ?? []) {
+    if (!USES_PACKAGE.has(booking.status)) continue;
+    const left = remaining.get(booking.service_id);
+    if (left !== undefined) remaining.set(booking.service_id, Math.max(0, left - 1));
+  }
+  return remaining;
+}
+
+export function getTotalRemainingUses(clientPackage: ClientPackage): number {
+  let total = 0;
+  getRemainingUses(clientPackage).forEach(left => {
+    total += left;
+  });
+  return total;
+}
+
+// Whether a new booking for `serviceId` at `startAt` can draw on this package
+export function canUsePackageFor(clientPackage: ClientPackage, serviceId: string, startAt: Date): boolean {
+  if (clientPackage.status !== 'active') return false;
+  if (clientPackage.expires_at && startAt > new Date(clientPackage.expires_at)) return false;
+  return (getRemainingUses(clientPackage).get(serviceId) ?? 0) > 0;
+}
@@ -0,0 +1,46 @@
+// Payment status rules - mirrors the transition check in supabase-payments-setup.sql
+import type { Payment, PaymentStatus } from '../types/multiTenancy';
+
+export const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ['processing', 'completed', 'failed', 'cancelled'],
+  processing: ['completed', 'failed', 'cancelled'],
+  completed: ['refunded'],
+  failed: [],
+  refunded: [],
+  cancelled: [],
+};
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  pending: 'Awaiting payment',
+  processing: 'Processing',
+  completed: 'Paid',
+  failed: 'Failed',
+  refunded: 'Refunded',
+  cancelled: 'Cancelled',
+};
+
+// Readable text for provider failure codes
+const FAILURE_MESSAGES: Record<string, string> = {
+  card_declined: 'Your card was declined',
+  insufficient_funds: 'Your card has insufficient funds',
+  wallet_authorization_declined: 'The wallet payment was not authorized',
+};
+
+export function canTransitionPayment(from: PaymentStatus, to: PaymentStatus): boolean {
+  return from === to || PAYMENT_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Settled payments won't change again without a refund
+export function isPaymentSettled(status: PaymentStatus): boolean {
+  return status !== 'pending' && status !== 'processing';
+}
+
+export function getRefundableAmount(payment: Pick<Payment, 'status' | 'amount' | 'refunded_amount'>): number {
+  if (payment.status !== 'completed') return 0;
+  return Math.max(0, Math.round((payment.amount - payment.refunded_amount) * 100) / 100);
+}
+
+export function formatPaymentFailure(reason: string | null): string {
+  if (!reason) return 'The payment did not go through';
+  return FAILURE_MESSAGES[reason] ?? reason.replace(/_/g, ' ');
+}
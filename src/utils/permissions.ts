@@ -0,0 +1,64 @@
+// Permission rules - mirror default_role_permissions() and user_has_permission()
+// in supabase-permissions-setup.sql
+import type {
+  CustomizableRole,
+  OrganizationRole,
+  Permission,
+  PermissionInfo,
+  RolePermissionMap,
+} from '../types/multiTenancy';
+
+export const PERMISSION_CATALOGUE: Record<Permission, PermissionInfo> = {
+  'bookings.refund': {
+    label: 'Refund bookings',
+    description: 'Refund card and gift card payments',
+  },
+  'bookings.checkout': {
+    label: 'Check out appointments',
+    description: 'Ring up services, products and tips and take payment',
+  },
+  'staff.manage': {
+    label: 'Manage staff',
+    description: 'Invite staff, withdraw invites and set commission',
+  },
+  'analytics.view_revenue': {
+    label: 'View revenue',
+    description: 'See revenue totals and payment records',
+  },
+  'services.edit_price': {
+    label: 'Edit service prices',
+    description: 'Set and change what services cost',
+  },
+  'permissions.manage': {
+    label: 'Manage permissions',
+    description: 'Change what each role can do',
+  },
+  'audit.view': {
+    label: 'View audit log',
+    description: 'See who changed bookings, prices and staff',
+  },
+};
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSION_CATALOGUE) as Permission[];
+
+// Used until an organization customizes a role
+export const DEFAULT_ROLE_PERMISSIONS: RolePermissionMap = {
+  manager: ['bookings.refund', 'bookings.checkout', 'staff.manage', 'analytics.view_revenue', 'services.edit_price'],
+  staff: ['bookings.checkout'],
+};
+
+export const CUSTOMIZABLE_ROLES: CustomizableRole[] = ['manager', 'staff'];
+
+export function isPermission(value: string): value is Permission {
+  return value in PERMISSION_CATALOGUE;
+}
+
+// What a role may do, given the organization's customizations (if any)
+export function resolveRolePermissions(
+  role: OrganizationRole | null | undefined,
+  overrides: Partial<RolePermissionMap> = {}
+): Permission[] {
+  if (!role) return [];
+  if (role === 'admin') return ALL_PERMISSIONS;
+  return overrides[role] ?? DEFAULT_ROLE_PERMISSIONS[role];
+}
@@ -0,0 +1,55 @@
+// Promotion rules - mirrors check_promotion() in supabase-promotions-setup.sql
+import type { Promotion, PromotionDiscountType, PromotionInput, PromotionScope } from '../types/multiTenancy';
+
+export const PROMOTION_DISCOUNT_LABELS: Record<PromotionDiscountType, string> = {
+  percentage: 'Percentage off',
+  fixed: 'Fixed amount off',
+};
+
+export const PROMOTION_SCOPE_LABELS: Record<PromotionScope, string> = {
+  all: 'All services',
+  services: 'Selected services',
+  category: 'Service categories',
+};
+
+export type PromotionStatus = 'Active' | 'Scheduled' | 'Expired' | 'Paused' | 'Used up';
+
+export function getPromotionStatus(promotion: Promotion, uses: number, now = new Date()): PromotionStatus {
+  if (!promotion.is_active) return 'Paused';
+  if (promotion.ends_at && new Date(promotion.ends_at) < now) return 'Expired';
+  if (promotion.max_uses !== null && uses >= promotion.max_uses) return 'Used up';
+  if (promotion.starts_at && new Date(promotion.starts_at) > now) return 'Scheduled';
+  return 'Active';
+}
+
+export function getPromotionDiscount(
+  promotion: Pick<Promotion, 'discount_type' | 'discount_value'>,
+  price: number
+): number {
+  if (promotion.discount_type === 'percentage') return Math.round(price * promotion.discount_value) / 100;
+  return Math.min(promotion.discount_value, price);
+}
+
+// e.g. "20% off" or "₱200 off"
+export function formatPromotionDiscount(promotion: Pick<Promotion, 'discount_type' | 'discount_value'>): string {
+  return promotion.discount_type === 'percentage'
+    ? `${promotion.discount_value}% off`
+    : `₱${promotion.discount_value.toLocaleString()} off`;
+}
+
+export function validatePromotionInput(input: PromotionInput): string | null {
+  if (!/^[A-Z0-9_-]{3,20}$/.test(input.code)) {
+    return 'Codes are 3-20 letters, numbers, dashes or underscores';
+  }
+  if (!input.title.trim()) return 'Give the promotion a title';
+  if (!(input.discount_value > 0)) return 'Enter a discount greater than zero';
+  if (input.discount_type === 'percentage' && input.discount_value > 100) return 'A percentage discount cannot exceed 100%';
+  if (input.scope === 'services' && input.service_ids.length === 0) return 'Choose at least one service';
+  if (input.scope === 'category' && input.categories.length === 0) return 'Choose at least one category';
+  if (input.max_uses !== null && !(input.max_uses > 0)) return 'The usage limit must be at least 1';
+  if (input.max_uses_per_client !== null && !(input.max_uses_per_client > 0)) return 'The per-client limit must be at least 1';
+  if (input.starts_at && input.ends_at && new Date(input.starts_at) >= new Date(input.ends_at)) {
+    return 'The promotion must end after it starts';
+  }
+  return null;
+}
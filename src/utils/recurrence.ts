@@ -0,0 +1,84 @@
+// Recurring appointment helpers - pure date math shared by client and admin flows
+import { toDateKey } from './businessHours';
+import type { RecurrenceFrequency, RecurrenceRule } from '../types/multiTenancy';
+
+// Upper bound on occurrences in one series, whatever the end date says
+export const MAX_SERIES_OCCURRENCES = 26;
+
+export const RECURRENCE_LABELS: Record<RecurrenceFrequency, string> = {
+  weekly: 'Every week',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Every month',
+};
+
+// Start of the nth occurrence after `first`. Monthly series keep the day of
+// month, falling back to the last day in shorter months (Jan 31 -> Feb 28).
+function getOccurrenceStart(first: Date, frequency: RecurrenceFrequency, index: number): Date {
+  const next = new Date(first);
+  if (frequency === 'monthly') {
+    next.setDate(1);
+    next.setMonth(first.getMonth() + index);
+    const lastDay = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
+    next.setDate(Math.min(first.getDate(), lastDay));
+  } else {
+    next.setDate(first.getDate() + index * (frequency === 'weekly' ? 7 : 14));
+  }
+  return next;
+}
+
+/**
+ * Why a recurrence rule can't be used, or null when it's valid
+ */
+export function validateRecurrenceRule(rule: RecurrenceRule, first: Date): string | null {
+  if (!rule.until_date && !rule.count) {
+    return 'Choose an end date or a number of appointments';
+  }
+  if (rule.count !== null && rule.count !== undefined) {
+    if (!Number.isInteger(rule.count) || rule.count < 2) {
+      return 'A recurring series needs at least 2 appointments';
+    }
+    if (rule.count > MAX_SERIES_OCCURRENCES) {
+      return `A series can have at most ${MAX_SERIES_OCCURRENCES} appointments`;
+    }
+  }
+  if (rule.until_date && rule.until_date <= toDateKey(first)) {
+    return 'The end date must be after the first appointment';
+  }
+  return null;
+}
+
+// Start times for every occurrence in the series, the first one included
+export function getSeriesOccurrences(first: Date, rule: RecurrenceRule): Date[] {
+  const limit = Math.min(rule.count || MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const occurrences: Date[] = [];
+
+  for (let index = 0; occurrences.length < limit; index++) {
+    const start = getOccurrenceStart(first, rule.frequency, index);
+    if (rule.until_date && toDateKey(start) > rule.until_date) break;
+    occurrences.push(start);
+  }
+
+  return occurrences;
+}
+
+// "Every 2 weeks, 6 times" / "Every month until Mar 1, 2026"
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const label = RECURRENCE_LABELS[rule.frequency];
+  if (rule.count) return `${label}, ${rule.count} times`;
+  if (rule.until_date) {
+    const until = new Date(`${rule.until_date}T00:00:00`).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+    return `${label} until ${until}`;
+  }
+  return label;
+}
+
+// "Mar 3, Mar 17" - for telling the user which occurrences were skipped
+export function formatOccurrenceList(dates: (Date | string)[]): string {
+  return dates
+    .map(date => new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }))
+    .join(', ');
+}
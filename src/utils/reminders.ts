@@ -0,0 +1,84 @@
+// Reminder rules - mirror claim_due_reminders() in supabase-reminders-setup.sql
+// and the templates in supabase/functions/send-reminders
+import type { ReminderChannel, ReminderSettings } from '../types/multiTenancy';
+
+// Used until an organization saves its own settings
+export const DEFAULT_REMINDER_SETTINGS: Omit<ReminderSettings, 'organization_id'> = {
+  is_active: true,
+  offsets_minutes: [1440, 120],
+  channels: ['email'],
+  email_subject: null,
+  email_template: null,
+  sms_template: null,
+};
+
+export const DEFAULT_REMINDER_TEMPLATES: Record<'email_subject' | 'email_template' | 'sms_template', string> = {
+  email_subject: 'Reminder: {service} at {shop}',
+  email_template: `Hi {client_name},
+
+This is a reminder of your {service} appointment at {shop} on {date} at {time}.
+
+Confirm you're coming: {confirm_link}
+Can't make it? Cancel here: {cancel_link}
+
+See you soon!`,
+  sms_template: '{shop}: reminder of your {service} on {date} at {time}. Confirm: {confirm_link} Cancel: {cancel_link}',
+};
+
+export const REMINDER_CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  email: 'Email',
+  sms: 'SMS',
+};
+
+export const REMINDER_PLACEHOLDERS = [
+  '{client_name}',
+  '{service}',
+  '{shop}',
+  '{date}',
+  '{time}',
+  '{confirm_link}',
+  '{cancel_link}',
+];
+
+// Example values for previewing a template
+export const SAMPLE_REMINDER_VALUES: Record<string, string> = {
+  client_name: 'Maria',
+  service: 'Haircut & Blow-dry',
+  shop: 'GlamQueue Salon',
+  date: 'Fri, Oct 24',
+  time: '2:30 PM',
+  confirm_link: 'https://glamqueue.vercel.app/reminder?a=confirm',
+  cancel_link: 'https://glamqueue.vercel.app/reminder?a=cancel',
+};
+
+// Unknown placeholders are left as they are
+export function renderReminderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
+
+// e.g. "1 day", "2 hours", "30 minutes"
+export function formatMinutes(minutes: number): string {
+  const [value, unit] = minutes % 1440 === 0 && minutes > 0
+    ? [minutes / 1440, 'day']
+    : minutes % 60 === 0 && minutes > 0
+      ? [minutes / 60, 'hour']
+      : [minutes, 'minute'];
+  return `${value} ${unit}${value === 1 ? '' : 's'}`;
+}
+
+// e.g. "1 day before", "2 hours before", "30 minutes before"
+export function formatReminderOffset(minutes: number): string {
+  return `${formatMinutes(minutes)} before`;
+}
+
+export function validateReminderSettings(settings: Omit<ReminderSettings, 'organization_id'>): string | null {
+  if (settings.is_active && settings.channels.length === 0) return 'Choose at least one channel';
+  if (settings.is_active && settings.offsets_minutes.length === 0) return 'Add at least one reminder time';
+  if (settings.offsets_minutes.some(minutes => !Number.isInteger(minutes) || minutes <= 0)) {
+    return 'Reminder times must be a whole number of minutes before the appointment';
+  }
+  if (new Set(settings.offsets_minutes).size !== settings.offsets_minutes.length) {
+    return 'Each reminder time can only be used once';
+  }
+  return null;
+}
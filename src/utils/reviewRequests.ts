@@ -0,0 +1,25 @@
+// Review request rules - mirror schedule_review_request() in
+// supabase-review-requests-setup.sql
+import type { ReviewSettings } from '../types/multiTenancy';
+import { formatMinutes } from './reminders';
+
+// Used until an organization saves its own settings
+export const DEFAULT_REVIEW_SETTINGS: Omit<ReviewSettings, 'organization_id'> = {
+  is_active: true,
+  delay_minutes: 120,
+  channel: 'email',
+};
+
+export const REVIEW_DELAY_OPTIONS = [30, 60, 120, 240, 1440, 2880];
+
+// e.g. "2 hours after the visit"
+export function formatReviewDelay(minutes: number): string {
+  return minutes === 0 ? 'Right after the visit' : `${formatMinutes(minutes)} after the visit`;
+}
+
+export function validateReviewSettings(settings: Omit<ReviewSettings, 'organization_id'>): string | null {
+  if (!Number.isInteger(settings.delay_minutes) || settings.delay_minutes < 0) {
+    return 'The delay must be a whole number of minutes';
+  }
+  return null;
+}
@@ -0,0 +1,158 @@
+// Roster helpers - turns recurring shifts and time off into the staff who can
+// work a given date, and flags assigned bookings that no longer fit the roster
+import type { RosterConflict, StaffServiceSkill, StaffShift, TimeOffRequest, WeeklySchedule } from '../types/multiTenancy';
+import type { RosterEntry, TimeRange } from './availability';
+import { getBookingEnd } from './availability';
+import { WEEKDAYS, toDateKey, toMinutes } from './businessHours';
+
+// Minimal assigned-booking shape for conflict checks
+export interface RosterBooking {
+  id: number | string;
+  shop_id: string | null;
+  staff_id: string | null;
+  start_at: string;
+  end_at: string | null;
+  duration?: number;
+}
+
+export type RosterStatus = 'available' | 'busy' | 'break';
+
+// Group shift rows for one staff member at one branch into the weekly editor shape
+export function shiftsToSchedule(shifts: StaffShift[]): WeeklySchedule {
+  return WEEKDAYS.reduce((result, day) => {
+    result[day] = shifts
+      .filter(shift => shift.weekday === day)
+      .map(shift => ({ open: shift.start_time, close: shift.end_time }))
+      .sort((a, b) => a.open.localeCompare(b.open));
+    return result;
+  }, {} as WeeklySchedule);
+}
+
+// Staff with no skills recorded are treated as able to perform every service
+export function canPerformService(skills: StaffServiceSkill[], staffId: string, serviceId: string): boolean {
+  const staffSkills = skills.filter(skill => skill.staff_id === staffId);
+  return staffSkills.length === 0 || staffSkills.some(skill => skill.service_id === serviceId);
+}
+
+// Whether a time-off entry covers the given date
+export function coversDate(timeOff: Pick<TimeOffRequest, 'start_date' | 'end_date'>, date: Date): boolean {
+  const key = toDateKey(date);
+  return key >= timeOff.start_date && key <= timeOff.end_date;
+}
+
+// Shift hours (minutes since midnight) for one staff member at one branch on a date
+export function getShiftHoursForDate(shifts: StaffShift[], staffId: string, shopId: string, date: Date): TimeRange[] {
+  const weekday = WEEKDAYS[date.getDay()];
+  return shifts
+    .filter(shift => shift.staff_id === staffId && shift.shop_id === shopId && shift.weekday === weekday)
+    .map(shift => ({ start: toMinutes(shift.start_time), end: toMinutes(shift.end_time) }))
+    .filter(range => range.end > range.start)
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Build the availability roster for a branch on a date.
+ * Staff who are off (time off, or no shift here today) get empty hours rather
+ * than being dropped, so a fully-off day doesn't fall back to the single-chair
+ * default. Staff without any shifts yet keep working the shop's opening hours,
+ * so rostering can be rolled out gradually.
+ */
+export function buildRosterForDate(params: {
+  staffIds: string[];
+  shopId: string;
+  date: Date;
+  shifts: StaffShift[];
+  timeOff: TimeOffRequest[];
+}): RosterEntry[] {
+  const { staffIds, shopId, date, shifts, timeOff } = params;
+
+  return staffIds.map(staffId => {
+    const away = timeOff.some(entry =>
+      entry.staff_id === staffId && entry.status === 'approved' && coversDate(entry, date)
+    );
+    if (away) return { staffId, hours: [] };
+
+    if (!shifts.some(shift => shift.staff_id === staffId)) {
+      return { staffId };
+    }
+
+    return { staffId, hours: getShiftHoursForDate(shifts, staffId, shopId, date) };
+  });
+}
+
+/**
+ * Find assigned bookings that clash with the roster: they overlap the given
+ * time off, or fall outside the stylist's shifts at that branch.
+ * Pass only approved time off, or a single pending request to preview it.
+ */
+export function findRosterConflicts(
+  bookings: RosterBooking[],
+  shifts: StaffShift[],
+  timeOff: TimeOffRequest[]
+): RosterConflict[] {
+  const conflicts: RosterConflict[] = [];
+
+  bookings.forEach(booking => {
+    if (!booking.staff_id) return;
+    const start = new Date(booking.start_at);
+    const end = getBookingEnd(booking);
+    const base = {
+      booking_id: booking.id,
+      staff_id: booking.staff_id,
+      start_at: booking.start_at,
+      end_at: end.toISOString(),
+    };
+
+    if (timeOff.some(entry => entry.staff_id === booking.staff_id && coversDate(entry, start))) {
+      conflicts.push({ ...base, reason: 'time_off' });
+      return;
+    }
+
+    // Staff with no shifts at all are not rostered yet - nothing to check
+    if (!booking.shop_id || !shifts.some(shift => shift.staff_id === booking.staff_id)) return;
+
+    const startMinute = start.getHours() * 60 + start.getMinutes();
+    const endMinute = startMinute + Math.round((end.getTime() - start.getTime()) / 60000);
+    const hours = getShiftHoursForDate(shifts, booking.staff_id, booking.shop_id, start);
+    if (!hours.some(range => startMinute >= range.start && endMinute <= range.end)) {
+      conflicts.push({ ...base, reason: 'off_shift' });
+    }
+  });
+
+  return conflicts;
+}
+
+/**
+ * Live status for staff cards: busy during an appointment, on break when off
+ * shift or on approved time off, otherwise available.
+ */
+export function getRosterStatus(params: {
+  staffId: string;
+  shifts: StaffShift[];
+  timeOff: TimeOffRequest[];
+  bookings: RosterBooking[];
+  now?: Date;
+}): RosterStatus {
+  const { staffId, shifts, timeOff, bookings, now = new Date() } = params;
+
+  const inAppointment = bookings.some(booking =>
+    booking.staff_id === staffId &&
+    new Date(booking.start_at) <= now &&
+    getBookingEnd(booking) > now
+  );
+  if (inAppointment) return 'busy';
+
+  if (timeOff.some(entry => entry.staff_id === staffId && entry.status === 'approved' && coversDate(entry, now))) {
+    return 'break';
+  }
+
+  const staffShifts = shifts.filter(shift => shift.staff_id === staffId);
+  if (staffShifts.length === 0) return 'available';
+
+  const weekday = WEEKDAYS[now.getDay()];
+  const minute = now.getHours() * 60 + now.getMinutes();
+  const onShift = staffShifts.some(shift =>
+    shift.weekday === weekday && minute >= toMinutes(shift.start_time) && minute < toMinutes(shift.end_time)
+  );
+  return onShift ? 'available' : 'break';
+}
@@ -0,0 +1,287 @@
+-- ============================================
+-- AUDIT LOG
+-- ============================================
+-- An append-only record of sensitive changes per organization: who did it,
+-- what changed (before/after for each field) and from which browser/IP.
+-- Entries are written by triggers on bookings, services, organization_members
+-- and profiles, and by the staff-invite edge function. Nobody can edit or
+-- delete entries; viewing needs the audit.view permission.
+-- Run after supabase-permissions-setup.sql. Safe to run more than once.
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  -- Not a foreign key so entries outlive the people in them
+  actor_id UUID,
+  actor_name TEXT,
+  action TEXT NOT NULL,
+  target_type TEXT NOT NULL,
+  target_id TEXT,
+  target_label TEXT,
+  -- { field: { "before": ..., "after": ... } }
+  changes JSONB NOT NULL DEFAULT '{}',
+  client_ip TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_org ON audit_log(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_org_action ON audit_log(organization_id, action, created_at DESC);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org auditors view audit log" ON audit_log;
+CREATE POLICY "Org auditors view audit log"
+  ON audit_log FOR SELECT
+  USING (has_permission(audit_log.organization_id, 'audit.view'));
+
+-- Append-only: no client writes at all, and no updates even for the service
+-- role. Deletes only happen when the organization itself is deleted.
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON audit_log FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION prevent_audit_log_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log;
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE ON audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_audit_log_update();
+
+-- Fields that differ between two row snapshots. Either side may be NULL
+-- (inserts and deletes). updated_at is noise and left out.
+CREATE OR REPLACE FUNCTION audit_diff(p_before JSONB, p_after JSONB)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(
+    jsonb_object_agg(key, jsonb_build_object('before', p_before -> key, 'after', p_after -> key)),
+    '{}'::JSONB
+  )
+  FROM (
+    SELECT jsonb_object_keys(COALESCE(p_before, '{}'::JSONB)) AS key
+    UNION
+    SELECT jsonb_object_keys(COALESCE(p_after, '{}'::JSONB))
+  ) keys
+  WHERE key <> 'updated_at'
+    AND (p_before -> key) IS DISTINCT FROM (p_after -> key)
+    AND NOT (p_before -> key IS NULL AND p_after -> key = 'null'::JSONB)
+    AND NOT (p_after -> key IS NULL AND p_before -> key = 'null'::JSONB);
+$$;
+
+-- Record an entry as the signed-in user, with the browser and IP from the
+-- API request headers. Changes without a user (cron, service role) have no
+-- actor.
+CREATE OR REPLACE FUNCTION write_audit_log(
+  p_organization_id UUID,
+  p_action TEXT,
+  p_target_type TEXT,
+  p_target_id TEXT,
+  p_target_label TEXT,
+  p_changes JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_headers JSONB := NULLIF(current_setting('request.headers', true), '')::JSONB;
+BEGIN
+  IF p_organization_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO audit_log (
+    organization_id, actor_id, actor_name, action, target_type, target_id,
+    target_label, changes, client_ip, user_agent
+  )
+  VALUES (
+    p_organization_id,
+    auth.uid(),
+    (SELECT COALESCE(name, email) FROM profiles WHERE id = auth.uid()),
+    p_action,
+    p_target_type,
+    p_target_id,
+    p_target_label,
+    COALESCE(p_changes, '{}'::JSONB),
+    NULLIF(TRIM(split_part(v_headers ->> 'x-forwarded-for', ',', 1)), ''),
+    v_headers ->> 'user-agent'
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION write_audit_log(UUID, TEXT, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Bookings: deletions
+CREATE OR REPLACE FUNCTION audit_booking_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM write_audit_log(
+    COALESCE(OLD.organization_id, (SELECT organization_id FROM shops WHERE id = OLD.shop_id)),
+    'booking.deleted',
+    'booking',
+    OLD.id::TEXT,
+    CONCAT_WS(' · ',
+      (SELECT name FROM profiles WHERE id = OLD.client_id),
+      (SELECT name FROM services WHERE id = OLD.service_id),
+      to_jsonb(OLD) ->> 'booking_date'
+    ),
+    audit_diff(to_jsonb(OLD), NULL)
+  );
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_audit_delete ON bookings;
+CREATE TRIGGER bookings_audit_delete
+  AFTER DELETE ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_booking_delete();
+
+-- Services: price changes get their own action so they're easy to filter
+CREATE OR REPLACE FUNCTION audit_service_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row services%ROWTYPE;
+  v_changes JSONB;
+  v_action TEXT;
+BEGIN
+  v_row := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+
+  IF TG_OP = 'DELETE' THEN
+    v_changes := audit_diff(to_jsonb(OLD), NULL);
+    v_action := 'service.deleted';
+  ELSE
+    v_changes := audit_diff(to_jsonb(OLD), to_jsonb(NEW));
+    IF v_changes = '{}'::JSONB THEN
+      RETURN NEW;
+    END IF;
+    v_action := CASE WHEN v_changes ? 'price' THEN 'service.price_changed' ELSE 'service.updated' END;
+  END IF;
+
+  PERFORM write_audit_log(
+    (SELECT organization_id FROM shops WHERE id = v_row.shop_id),
+    v_action,
+    'service',
+    v_row.id::TEXT,
+    v_row.name,
+    v_changes
+  );
+  RETURN v_row;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS services_audit_change ON services;
+CREATE TRIGGER services_audit_change
+  AFTER UPDATE OR DELETE ON services
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_service_change();
+
+-- Organization members: removals and role changes. Changes without a
+-- signed-in user come from the staff-invite edge function, which records its
+-- own staff.invite_* entries.
+CREATE OR REPLACE FUNCTION audit_member_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row organization_members%ROWTYPE;
+  v_changes JSONB;
+  v_action TEXT;
+BEGIN
+  v_row := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  IF auth.uid() IS NULL THEN
+    RETURN v_row;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    v_changes := audit_diff(to_jsonb(OLD), NULL);
+    v_action := 'member.removed';
+  ELSE
+    v_changes := audit_diff(to_jsonb(OLD), to_jsonb(NEW));
+    IF v_changes = '{}'::JSONB THEN
+      RETURN NEW;
+    END IF;
+    v_action := CASE
+      WHEN OLD.is_active AND NOT NEW.is_active THEN 'member.removed'
+      WHEN v_changes ? 'role' THEN 'member.role_changed'
+      ELSE 'member.updated'
+    END;
+  END IF;
+
+  PERFORM write_audit_log(
+    v_row.organization_id,
+    v_action,
+    'member',
+    v_row.user_id::TEXT,
+    (SELECT COALESCE(name, email) FROM profiles WHERE id = v_row.user_id),
+    v_changes
+  );
+  RETURN v_row;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS organization_members_audit_change ON organization_members;
+CREATE TRIGGER organization_members_audit_change
+  AFTER UPDATE OR DELETE ON organization_members
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_member_change();
+
+-- Staff profiles edited by someone else (people editing their own profile
+-- aren't audited)
+CREATE OR REPLACE FUNCTION audit_staff_profile_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_changes JSONB;
+BEGIN
+  IF auth.uid() IS NULL OR auth.uid() = NEW.id
+    OR COALESCE(OLD.role, NEW.role) NOT IN ('admin', 'manager', 'staff')
+  THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(jsonb_object_agg(key, value), '{}'::JSONB) INTO v_changes
+  FROM jsonb_each(audit_diff(to_jsonb(OLD), to_jsonb(NEW)))
+  WHERE key IN ('name', 'full_name', 'email', 'phone', 'role', 'organization_id');
+
+  IF v_changes <> '{}'::JSONB THEN
+    PERFORM write_audit_log(
+      COALESCE(OLD.organization_id, NEW.organization_id),
+      'staff.updated',
+      'staff',
+      NEW.id::TEXT,
+      COALESCE(NEW.name, NEW.email),
+      v_changes
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_audit_staff_change ON profiles;
+CREATE TRIGGER profiles_audit_staff_change
+  AFTER UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_staff_profile_change();
@@ -0,0 +1,199 @@
+-- ============================================
+-- BOOKING POLICY & RESCHEDULE HISTORY
+-- ============================================
+-- Per-organization rules for changing appointments, plus an audit trail of
+-- every reschedule. Appointments are moved with reschedule_booking(), which
+-- checks the policy and records the move together. Safe to run more than once.
+
+-- { "reschedule_cutoff_hours": 12, "max_reschedules": null }
+-- NULL means the app default
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS booking_policy JSONB;
+
+CREATE TABLE IF NOT EXISTS booking_reschedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id BIGINT NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  old_start_at TIMESTAMPTZ NOT NULL,
+  old_end_at TIMESTAMPTZ,
+  new_start_at TIMESTAMPTZ NOT NULL,
+  new_end_at TIMESTAMPTZ,
+  changed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  changed_by_role TEXT,
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_reschedules_booking ON booking_reschedules(booking_id, created_at DESC);
+
+ALTER TABLE booking_reschedules ENABLE ROW LEVEL SECURITY;
+
+-- Clients see the history of their own bookings; org members see their org's
+DROP POLICY IF EXISTS "View reschedule history" ON booking_reschedules;
+CREATE POLICY "View reschedule history"
+  ON booking_reschedules FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM bookings b
+      WHERE b.id = booking_reschedules.booking_id
+        AND b.client_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = booking_reschedules.organization_id
+        AND p.role IN ('admin', 'manager', 'staff')
+    )
+  );
+
+-- reschedule_booking() writes the audit row; anyone else may only record
+-- their own change to a booking they can see, and rows are never edited
+DROP POLICY IF EXISTS "Record own reschedules" ON booking_reschedules;
+CREATE POLICY "Record own reschedules"
+  ON booking_reschedules FOR INSERT
+  WITH CHECK (
+    changed_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM bookings b
+      WHERE b.id = booking_reschedules.booking_id
+        AND (
+          b.client_id = auth.uid()
+          OR EXISTS (
+            SELECT 1 FROM profiles p
+            WHERE p.id = auth.uid()
+              AND p.organization_id = b.organization_id
+              AND p.role IN ('admin', 'manager', 'staff')
+          )
+        )
+    )
+  );
+
+-- Appointments are only moved by reschedule_booking() (running as the table
+-- owner), so the policy is always checked and every move is recorded
+CREATE OR REPLACE FUNCTION guard_booking_times()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') AND (
+    NEW.start_at IS DISTINCT FROM OLD.start_at
+    OR NEW.end_at IS DISTINCT FROM OLD.end_at
+  ) THEN
+    RAISE EXCEPTION 'RESCHEDULE_INVALID: Appointments are moved by rescheduling them';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_guard_times ON bookings;
+CREATE TRIGGER bookings_guard_times
+  BEFORE UPDATE OF start_at, end_at ON bookings
+  FOR EACH ROW EXECUTE FUNCTION guard_booking_times();
+
+-- Move an appointment to a new start time and record the move. Clients move
+-- their own bookings within the organization's policy (the same rules as
+-- getRescheduleBlockReason() in src/utils/bookingPolicy.ts); the salon's team
+-- moves any of theirs, and admins and managers may override the policy. The
+-- new end keeps the service's length. Free slots are checked by the app first.
+CREATE OR REPLACE FUNCTION reschedule_booking(
+  p_booking_id BIGINT,
+  p_new_start TIMESTAMPTZ,
+  p_reason TEXT DEFAULT NULL,
+  p_override BOOLEAN DEFAULT FALSE
+)
+RETURNS booking_reschedules
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_organization_id UUID;
+  v_role TEXT;
+  v_policy JSONB;
+  v_cutoff_hours NUMERIC;
+  v_max_reschedules INTEGER;
+  v_reschedules INTEGER;
+  v_block_reason TEXT;
+  v_duration INTEGER;
+  v_new_end TIMESTAMPTZ;
+  v_reschedule booking_reschedules%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RESCHEDULE_INVALID: Booking not found';
+  END IF;
+
+  v_organization_id := COALESCE(
+    v_booking.organization_id,
+    (SELECT organization_id FROM shops WHERE id = v_booking.shop_id)
+  );
+
+  SELECT role INTO v_role
+  FROM profiles
+  WHERE id = auth.uid()
+    AND organization_id = v_organization_id
+    AND role IN ('admin', 'manager', 'staff');
+
+  IF v_role IS NULL THEN
+    IF auth.uid() IS NULL OR v_booking.client_id IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'RESCHEDULE_INVALID: You can only reschedule your own appointments';
+    END IF;
+    v_role := 'client';
+  END IF;
+
+  IF p_new_start IS NULL OR p_new_start <= NOW() THEN
+    RAISE EXCEPTION 'RESCHEDULE_INVALID: Cannot move an appointment into the past';
+  END IF;
+  IF p_new_start = v_booking.start_at THEN
+    RAISE EXCEPTION 'RESCHEDULE_INVALID: Please pick a different time';
+  END IF;
+
+  SELECT booking_policy INTO v_policy FROM organizations WHERE id = v_organization_id;
+  v_cutoff_hours := COALESCE((v_policy ->> 'reschedule_cutoff_hours')::NUMERIC, 12);
+  v_max_reschedules := (v_policy ->> 'max_reschedules')::INTEGER;
+  SELECT COUNT(*) INTO v_reschedules FROM booking_reschedules WHERE booking_id = v_booking.id;
+
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    v_block_reason := format('A %s appointment can''t be rescheduled', v_booking.status);
+  ELSIF v_booking.start_at <= NOW() THEN
+    v_block_reason := 'This appointment has already started';
+  ELSIF v_cutoff_hours > 0 AND v_booking.start_at < NOW() + make_interval(secs => v_cutoff_hours * 3600) THEN
+    v_block_reason := format('Appointments can''t be changed within %s hours of the start time', v_cutoff_hours);
+  ELSIF v_max_reschedules IS NOT NULL AND v_reschedules >= v_max_reschedules THEN
+    v_block_reason := format(
+      'This appointment has already been rescheduled the maximum of %s time%s',
+      v_max_reschedules, CASE WHEN v_max_reschedules = 1 THEN '' ELSE 's' END
+    );
+  END IF;
+
+  IF v_block_reason IS NOT NULL AND NOT (COALESCE(p_override, FALSE) AND v_role IN ('admin', 'manager')) THEN
+    RAISE EXCEPTION 'RESCHEDULE_INVALID: %', v_block_reason;
+  END IF;
+
+  -- Service length, or the booking's current length, or an hour
+  SELECT NULLIF(duration, 0) INTO v_duration FROM services WHERE id = v_booking.service_id;
+  v_duration := COALESCE(
+    v_duration,
+    NULLIF(ROUND(EXTRACT(EPOCH FROM (v_booking.end_at - v_booking.start_at)) / 60)::INTEGER, 0),
+    60
+  );
+  v_new_end := p_new_start + make_interval(mins => v_duration);
+
+  UPDATE bookings
+  SET start_at = p_new_start, end_at = v_new_end, updated_at = NOW()
+  WHERE id = v_booking.id;
+
+  INSERT INTO booking_reschedules (
+    booking_id, organization_id, old_start_at, old_end_at, new_start_at, new_end_at,
+    changed_by, changed_by_role, reason
+  )
+  VALUES (
+    v_booking.id, v_organization_id, v_booking.start_at, v_booking.end_at, p_new_start, v_new_end,
+    auth.uid(), v_role, NULLIF(BTRIM(p_reason), '')
+  )
+  RETURNING * INTO v_reschedule;
+
+  RETURN v_reschedule;
+END;
+$$;
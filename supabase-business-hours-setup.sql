@@ -0,0 +1,56 @@
+-- ============================================
+-- BUSINESS HOURS & HOLIDAY CALENDAR
+-- ============================================
+-- Adds a configurable weekly schedule per shop and a table of closures /
+-- public holidays. Safe to run more than once.
+
+-- Weekly schedule: { "mon": [{ "open": "09:00", "close": "18:00" }], ... }
+-- NULL means the legacy default (9 AM - 6 PM every day)
+ALTER TABLE shops ADD COLUMN IF NOT EXISTS business_hours JSONB;
+
+CREATE TABLE IF NOT EXISTS shop_closures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'holiday' CHECK (kind IN ('holiday', 'closure')),
+  reason TEXT,
+  -- Special hours for the day(s); NULL = closed all day
+  hours JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT shop_closures_date_order CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shop_closures_shop_dates ON shop_closures(shop_id, end_date);
+
+ALTER TABLE shop_closures ENABLE ROW LEVEL SECURITY;
+
+-- Clients need closures to see which days are bookable
+DROP POLICY IF EXISTS "Anyone can view shop closures" ON shop_closures;
+CREATE POLICY "Anyone can view shop closures"
+  ON shop_closures FOR SELECT
+  USING (true);
+
+-- Admins and managers manage closures for their own organization
+DROP POLICY IF EXISTS "Org admins manage shop closures" ON shop_closures;
+CREATE POLICY "Org admins manage shop closures"
+  ON shop_closures FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops s
+      JOIN profiles p ON p.organization_id = s.organization_id
+      WHERE s.id = shop_closures.shop_id
+        AND p.id = auth.uid()
+        AND p.role IN ('admin', 'manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM shops s
+      JOIN profiles p ON p.organization_id = s.organization_id
+      WHERE s.id = shop_closures.shop_id
+        AND p.id = auth.uid()
+        AND p.role IN ('admin', 'manager')
+    )
+  );
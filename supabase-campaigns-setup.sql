@@ -0,0 +1,209 @@
+-- ============================================
+-- MARKETING CAMPAIGNS
+-- ============================================
+-- An email or SMS campaign goes to an audience worked out from booking
+-- history when it is sent. The send-campaigns edge function delivers due
+-- campaigns (call it on a schedule, or right away for "send now") through the
+-- configured transport, and campaign-open records email opens from a
+-- tracking pixel. A recipient counts as booked if they made a booking with
+-- the salon within 7 days of the campaign going out. Safe to run more than
+-- once.
+
+CREATE TABLE IF NOT EXISTS campaigns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms')),
+  subject TEXT, -- Email only
+  message TEXT NOT NULL,
+  audience TEXT NOT NULL DEFAULT 'all' CHECK (audience IN ('all', 'new', 'returning', 'vip')),
+  status TEXT NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'sending', 'sent', 'failed', 'cancelled')),
+  scheduled_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMPTZ,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (channel <> 'email' OR COALESCE(TRIM(subject), '') <> '')
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_org ON campaigns(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_campaigns_due ON campaigns(scheduled_at) WHERE status = 'scheduled';
+
+CREATE TABLE IF NOT EXISTS campaign_recipients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+  client_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  destination TEXT NOT NULL, -- Email address or phone number
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  error TEXT,
+  tracking_token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  sent_at TIMESTAMPTZ,
+  opened_at TIMESTAMPTZ,
+  UNIQUE (campaign_id, client_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_recipients_pending ON campaign_recipients(campaign_id) WHERE status = 'pending';
+
+ALTER TABLE campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE campaign_recipients ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org admins manage campaigns" ON campaigns;
+CREATE POLICY "Org admins manage campaigns"
+  ON campaigns FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = campaigns.organization_id
+        AND p.role IN ('admin', 'manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = campaigns.organization_id
+        AND p.role IN ('admin', 'manager')
+    )
+  );
+
+-- Recipients are written by the edge functions with the service role
+DROP POLICY IF EXISTS "Org admins view campaign recipients" ON campaign_recipients;
+CREATE POLICY "Org admins view campaign recipients"
+  ON campaign_recipients FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM campaigns c
+      JOIN profiles p ON p.organization_id = c.organization_id
+      WHERE c.id = campaign_recipients.campaign_id
+        AND p.id = auth.uid()
+        AND p.role IN ('admin', 'manager')
+    )
+  );
+
+-- Clients of the organization in an audience, by completed visits:
+-- new = at most one, returning = two or more, vip = ten or more.
+-- Mirrors CAMPAIGN_AUDIENCE_RULES in src/utils/campaigns.ts.
+CREATE OR REPLACE FUNCTION resolve_campaign_audience(p_organization_id UUID, p_audience TEXT)
+RETURNS TABLE (client_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.client_id
+  FROM bookings b
+  WHERE b.organization_id = p_organization_id
+    AND b.client_id IS NOT NULL
+  GROUP BY b.client_id
+  HAVING CASE p_audience
+    WHEN 'new' THEN COUNT(*) FILTER (WHERE b.status = 'completed') <= 1
+    WHEN 'returning' THEN COUNT(*) FILTER (WHERE b.status = 'completed') >= 2
+    WHEN 'vip' THEN COUNT(*) FILTER (WHERE b.status = 'completed') >= 10
+    ELSE TRUE
+  END;
+$$;
+
+-- How many clients a campaign would reach, for the admin screen
+CREATE OR REPLACE FUNCTION count_campaign_audience(p_organization_id UUID, p_audience TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM resolve_campaign_audience(p_organization_id, p_audience)
+  WHERE EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.organization_id = p_organization_id
+      AND p.role IN ('admin', 'manager')
+  );
+$$;
+
+-- Fill in a campaign's recipients from its audience, skipping anyone without
+-- an address for the channel. Profiles may not have a phone column, so it is
+-- read through to_jsonb().
+CREATE OR REPLACE FUNCTION prepare_campaign_recipients(p_campaign_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_campaign campaigns%ROWTYPE;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_campaign FROM campaigns WHERE id = p_campaign_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'CAMPAIGN_INVALID: Campaign not found';
+  END IF;
+
+  INSERT INTO campaign_recipients (campaign_id, client_id, destination)
+  SELECT v_campaign.id, a.client_id, d.destination
+  FROM resolve_campaign_audience(v_campaign.organization_id, v_campaign.audience) a
+  JOIN profiles p ON p.id = a.client_id
+  CROSS JOIN LATERAL (
+    SELECT NULLIF(TRIM(CASE WHEN v_campaign.channel = 'email' THEN p.email ELSE to_jsonb(p)->>'phone' END), '') AS destination
+  ) d
+  WHERE d.destination IS NOT NULL
+  ON CONFLICT (campaign_id, client_id) DO NOTHING;
+
+  SELECT COUNT(*) INTO v_count FROM campaign_recipients WHERE campaign_id = v_campaign.id;
+  RETURN v_count;
+END;
+$$;
+
+-- Audiences list client ids, so only the functions above and the edge
+-- functions (service role) may use these directly
+REVOKE EXECUTE ON FUNCTION resolve_campaign_audience(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION prepare_campaign_recipients(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Sent, opened and booked-after counts for the organization's campaigns.
+-- Booked revenue is the price of those bookings less any discount.
+CREATE OR REPLACE FUNCTION get_campaign_metrics(p_organization_id UUID)
+RETURNS TABLE (
+  campaign_id UUID,
+  recipients INTEGER,
+  sent INTEGER,
+  failed INTEGER,
+  opened INTEGER,
+  booked INTEGER,
+  revenue NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    COUNT(r.id)::INTEGER,
+    COUNT(r.id) FILTER (WHERE r.status = 'sent')::INTEGER,
+    COUNT(r.id) FILTER (WHERE r.status = 'failed')::INTEGER,
+    COUNT(r.id) FILTER (WHERE r.opened_at IS NOT NULL)::INTEGER,
+    COUNT(r.id) FILTER (WHERE b.bookings > 0)::INTEGER,
+    COALESCE(SUM(b.revenue), 0)
+  FROM campaigns c
+  LEFT JOIN campaign_recipients r ON r.campaign_id = c.id
+  LEFT JOIN LATERAL (
+    SELECT COUNT(*) AS bookings, SUM(s.price - COALESCE((to_jsonb(bk)->>'discount_amount')::NUMERIC, 0)) AS revenue
+    FROM bookings bk
+    JOIN services s ON s.id = bk.service_id
+    WHERE r.status = 'sent'
+      AND bk.client_id = r.client_id
+      AND bk.organization_id = c.organization_id
+      AND bk.status <> 'cancelled'
+      AND bk.created_at >= r.sent_at
+      AND bk.created_at < r.sent_at + INTERVAL '7 days'
+  ) b ON TRUE
+  WHERE c.organization_id = p_organization_id
+    AND EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = p_organization_id
+        AND p.role IN ('admin', 'manager')
+    )
+  GROUP BY c.id;
+$$;
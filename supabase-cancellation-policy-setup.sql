@@ -0,0 +1,208 @@
+-- ============================================
+-- CANCELLATIONS, LATE FEES & NO-SHOWS
+-- ============================================
+-- Records who cancelled a booking and why, any late-cancel or no-show fee,
+-- and allows the 'no_show' status. Cutoff windows and fee percentages live
+-- in organizations.booking_policy (see supabase-booking-policy-setup.sql):
+-- { "cancellation_cutoff_hours": 24, "late_cancel_fee_percent": 50,
+--   "no_show_fee_percent": 100, "prepay_after_no_shows": 2 }
+-- Bookings are cancelled with cancel_booking() and marked as no-shows with
+-- mark_booking_no_show(), which work out the fee on the server; clients can't
+-- write these columns themselves. Safe to run more than once.
+
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS booking_policy JSONB;
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS cancelled_by TEXT;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS cancellation_reason TEXT;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS late_cancellation BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS cancellation_fee NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_cancelled_by_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_cancelled_by_check
+  CHECK (cancelled_by IS NULL OR cancelled_by IN ('client', 'salon'));
+
+-- Widen the status list to include no_show
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_status_check
+  CHECK (status IN ('pending', 'confirmed', 'completed', 'cancelled', 'no_show'));
+
+-- Attendance lookups for the clients screen
+CREATE INDEX IF NOT EXISTS idx_bookings_client_attendance
+  ON bookings(client_id, status)
+  WHERE status IN ('cancelled', 'no_show');
+
+-- Mirrors getPolicyFee() in src/utils/bookingPolicy.ts
+CREATE OR REPLACE FUNCTION booking_policy_fee(p_percent NUMERIC, p_price NUMERIC)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN COALESCE(p_percent, 0) <= 0 OR COALESCE(p_price, 0) <= 0 THEN 0
+    ELSE ROUND(p_price * LEAST(p_percent, 100) / 100)
+  END;
+$$;
+
+-- Whether the signed-in user works for the organization that owns a booking
+CREATE OR REPLACE FUNCTION is_booking_salon_member(p_booking bookings)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.organization_id = COALESCE(
+        p_booking.organization_id,
+        (SELECT sh.organization_id FROM shops sh WHERE sh.id = p_booking.shop_id)
+      )
+      AND p.role IN ('admin', 'manager', 'staff')
+  );
+$$;
+
+-- Cancel a booking and record who cancelled it and why. Cancelling for the
+-- salon is free; a client cancelling inside the policy window is charged the
+-- late-cancel fee.
+CREATE OR REPLACE FUNCTION cancel_booking(p_booking_id BIGINT, p_reason TEXT DEFAULT NULL)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_actor TEXT;
+  v_policy JSONB;
+  v_cutoff_hours NUMERIC;
+  v_late BOOLEAN := FALSE;
+  v_fee NUMERIC := 0;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'CANCELLATION_INVALID: Booking not found';
+  END IF;
+
+  IF is_booking_salon_member(v_booking) THEN
+    v_actor := 'salon';
+  ELSIF auth.uid() IS NOT NULL AND v_booking.client_id = auth.uid() THEN
+    v_actor := 'client';
+  ELSE
+    RAISE EXCEPTION 'CANCELLATION_INVALID: You can only cancel your own appointments';
+  END IF;
+
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'CANCELLATION_INVALID: A % appointment can''t be cancelled', v_booking.status;
+  END IF;
+
+  IF v_actor = 'client' THEN
+    SELECT o.booking_policy INTO v_policy
+    FROM organizations o
+    WHERE o.id = COALESCE(v_booking.organization_id, (SELECT organization_id FROM shops WHERE id = v_booking.shop_id));
+
+    v_cutoff_hours := COALESCE((v_policy ->> 'cancellation_cutoff_hours')::NUMERIC, 0);
+    v_late := v_cutoff_hours > 0 AND v_booking.start_at < NOW() + make_interval(secs => v_cutoff_hours * 3600);
+    IF v_late THEN
+      SELECT booking_policy_fee((v_policy ->> 'late_cancel_fee_percent')::NUMERIC, s.price) INTO v_fee
+      FROM services s WHERE s.id = v_booking.service_id;
+    END IF;
+  END IF;
+
+  UPDATE bookings
+  SET status = 'cancelled',
+      cancelled_by = v_actor,
+      cancellation_reason = NULLIF(BTRIM(p_reason), ''),
+      cancelled_at = NOW(),
+      late_cancellation = v_late,
+      cancellation_fee = COALESCE(v_fee, 0),
+      updated_at = NOW()
+  WHERE id = v_booking.id
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$;
+
+-- Mark an appointment the client didn't turn up for, charging the no-show fee
+CREATE OR REPLACE FUNCTION mark_booking_no_show(p_booking_id BIGINT)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_fee NUMERIC;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+  IF NOT FOUND OR NOT is_booking_salon_member(v_booking) THEN
+    RAISE EXCEPTION 'CANCELLATION_INVALID: Only the salon can mark a no-show';
+  END IF;
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'CANCELLATION_INVALID: A % appointment can''t be marked as a no-show', v_booking.status;
+  END IF;
+  IF v_booking.start_at > NOW() THEN
+    RAISE EXCEPTION 'CANCELLATION_INVALID: An appointment can''t be marked as a no-show before it starts';
+  END IF;
+
+  SELECT booking_policy_fee((o.booking_policy ->> 'no_show_fee_percent')::NUMERIC, s.price) INTO v_fee
+  FROM services s
+  LEFT JOIN organizations o ON o.id = COALESCE(v_booking.organization_id, (SELECT organization_id FROM shops WHERE id = v_booking.shop_id))
+  WHERE s.id = v_booking.service_id;
+
+  UPDATE bookings
+  SET status = 'no_show', cancellation_fee = COALESCE(v_fee, 0), updated_at = NOW()
+  WHERE id = v_booking.id
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$;
+
+-- Cancellations, no-shows and their fees are only written by the functions
+-- above (running as the table owner) or the service role
+CREATE OR REPLACE FUNCTION guard_booking_cancellation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.cancelled_by := NULL;
+    NEW.cancellation_reason := NULL;
+    NEW.cancelled_at := NULL;
+    NEW.late_cancellation := FALSE;
+    NEW.cancellation_fee := 0;
+    RETURN NEW;
+  END IF;
+
+  -- Clients can delete old bookings, but not a no-show or a fee they owe
+  IF TG_OP = 'DELETE' THEN
+    IF (OLD.status = 'no_show' OR OLD.cancellation_fee > 0) AND NOT is_booking_salon_member(OLD) THEN
+      RAISE EXCEPTION 'CANCELLATION_LOCKED: Appointments with a no-show or cancellation fee can''t be deleted';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF (NEW.status IS DISTINCT FROM OLD.status AND (NEW.status IN ('cancelled', 'no_show') OR OLD.status = 'no_show'))
+    OR NEW.cancelled_by IS DISTINCT FROM OLD.cancelled_by
+    OR NEW.cancellation_reason IS DISTINCT FROM OLD.cancellation_reason
+    OR NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at
+    OR NEW.late_cancellation IS DISTINCT FROM OLD.late_cancellation
+    OR NEW.cancellation_fee IS DISTINCT FROM OLD.cancellation_fee THEN
+    RAISE EXCEPTION 'CANCELLATION_LOCKED: Appointments are cancelled and marked as no-shows through the cancellation policy';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_guard_cancellation ON bookings;
+CREATE TRIGGER bookings_guard_cancellation
+  BEFORE INSERT OR UPDATE OR DELETE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION guard_booking_cancellation();
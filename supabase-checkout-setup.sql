@@ -0,0 +1,343 @@
+-- ============================================
+-- POINT-OF-SALE CHECKOUT & RECEIPTS
+-- ============================================
+-- Records what was actually charged when an appointment is completed: line
+-- items (the service, add-ons, retail products), a discount, a tip and one or
+-- more tenders (e.g. part cash, part card). Anything the client already paid
+-- online, such as a deposit, is taken off the amount due. complete_checkout()
+-- writes the checkout and completes the booking in one transaction, so every
+-- completed appointment has a receipt. An unpaid deposit is settled by the
+-- checkout's tenders. Run after supabase-payments-setup.sql and
+-- supabase-deposits-setup.sql. Safe to run more than once.
+
+CREATE TABLE IF NOT EXISTS retail_products (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  sku TEXT,
+  price NUMERIC(10, 2) NOT NULL CHECK (price >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_retail_products_org ON retail_products(organization_id, is_active);
+
+CREATE SEQUENCE IF NOT EXISTS checkout_receipt_seq;
+
+CREATE TABLE IF NOT EXISTS checkouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  receipt_number TEXT NOT NULL UNIQUE,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  shop_id UUID REFERENCES shops(id) ON DELETE SET NULL,
+  booking_id BIGINT UNIQUE REFERENCES bookings(id) ON DELETE SET NULL,
+  client_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  staff_id UUID REFERENCES profiles(id) ON DELETE SET NULL, -- Who did the work
+  processed_by UUID REFERENCES profiles(id) ON DELETE SET NULL, -- Who rang it up
+  subtotal NUMERIC(10, 2) NOT NULL,
+  discount_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  discount_reason TEXT,
+  tip_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  total NUMERIC(10, 2) NOT NULL,
+  prepaid_amount NUMERIC(10, 2) NOT NULL DEFAULT 0, -- Paid online before the visit
+  amount_due NUMERIC(10, 2) NOT NULL,
+  change_given NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_checkouts_org_created ON checkouts(organization_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS checkout_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  checkout_id UUID NOT NULL REFERENCES checkouts(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('service', 'addon', 'product')),
+  service_id UUID REFERENCES services(id) ON DELETE SET NULL,
+  product_id UUID REFERENCES retail_products(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  unit_price NUMERIC(10, 2) NOT NULL CHECK (unit_price >= 0),
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  line_total NUMERIC(10, 2) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_checkout_items_checkout ON checkout_items(checkout_id);
+
+CREATE TABLE IF NOT EXISTS checkout_tenders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  checkout_id UUID NOT NULL REFERENCES checkouts(id) ON DELETE CASCADE,
+  method TEXT NOT NULL CHECK (method IN ('cash', 'card', 'gcash', 'maya')),
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0), -- For cash, the amount handed over
+  reference TEXT -- Terminal approval code, card last 4 or wallet reference
+);
+
+CREATE INDEX IF NOT EXISTS idx_checkout_tenders_checkout ON checkout_tenders(checkout_id);
+
+ALTER TABLE retail_products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE checkouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE checkout_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE checkout_tenders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members view retail products" ON retail_products;
+CREATE POLICY "Org members view retail products"
+  ON retail_products FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = retail_products.organization_id
+        AND p.role IN ('admin', 'manager', 'staff')
+    )
+  );
+
+DROP POLICY IF EXISTS "Org admins manage retail products" ON retail_products;
+CREATE POLICY "Org admins manage retail products"
+  ON retail_products FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = retail_products.organization_id
+        AND p.role IN ('admin', 'manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = retail_products.organization_id
+        AND p.role IN ('admin', 'manager')
+    )
+  );
+
+-- Clients see their own receipts; org members see their org's
+DROP POLICY IF EXISTS "View checkouts" ON checkouts;
+CREATE POLICY "View checkouts"
+  ON checkouts FOR SELECT
+  USING (
+    client_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = checkouts.organization_id
+        AND p.role IN ('admin', 'manager', 'staff')
+    )
+  );
+
+DROP POLICY IF EXISTS "View checkout items" ON checkout_items;
+CREATE POLICY "View checkout items"
+  ON checkout_items FOR SELECT
+  USING (EXISTS (SELECT 1 FROM checkouts c WHERE c.id = checkout_items.checkout_id));
+
+DROP POLICY IF EXISTS "View checkout tenders" ON checkout_tenders;
+CREATE POLICY "View checkout tenders"
+  ON checkout_tenders FOR SELECT
+  USING (EXISTS (SELECT 1 FROM checkouts c WHERE c.id = checkout_tenders.checkout_id));
+
+-- What a client has already paid online for a booking, for the checkout
+-- screen. Staff can't read `payments` directly.
+CREATE OR REPLACE FUNCTION get_booking_prepaid_amount(p_booking_id BIGINT)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(pay.amount - pay.refunded_amount), 0)
+  FROM payments pay
+  JOIN bookings b ON b.id = pay.booking_id
+  WHERE pay.booking_id = p_booking_id
+    AND pay.status IN ('completed', 'refunded')
+    AND EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = b.organization_id
+        AND p.role IN ('admin', 'manager', 'staff')
+    );
+$$;
+
+-- Revenue (totals less tips) from checkouts between two instants, either end
+-- open, summed here so dashboards don't download every receipt. Runs with the
+-- caller's rights, so it only counts checkouts they can see.
+CREATE OR REPLACE FUNCTION sum_checkout_revenue(
+  p_organization_id UUID DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(SUM(c.total - c.tip_amount), 0)
+  FROM checkouts c
+  WHERE (p_organization_id IS NULL OR c.organization_id = p_organization_id)
+    AND (p_from IS NULL OR c.created_at >= p_from)
+    AND (p_to IS NULL OR c.created_at < p_to);
+$$;
+
+-- Checkouts are only written here. The booked service, add-on services and
+-- products are priced from `services` and `retail_products` (a booking
+-- covered by a package rings up its service at 0); only custom add-ons and
+-- the discount come from the caller. Amounts are recalculated from the items,
+-- and the online prepayment is read from `payments`, so the client can't
+-- under-report what was charged.
+--   p_items:   [{ "kind": "service", "service_id": "...", "description": "...", "quantity": 1 },
+--               { "kind": "addon", "description": "...", "unit_price": 150, "quantity": 1 }]
+--   p_tenders: [{ "method": "cash", "amount": 500 }, { "method": "card", "amount": 300, "reference": "4242" }]
+CREATE OR REPLACE FUNCTION complete_checkout(
+  p_booking_id BIGINT,
+  p_items JSONB,
+  p_tenders JSONB,
+  p_discount NUMERIC DEFAULT 0,
+  p_discount_reason TEXT DEFAULT NULL,
+  p_tip NUMERIC DEFAULT 0
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_item JSONB;
+  v_items JSONB := '[]'::JSONB;
+  v_unit_price NUMERIC;
+  v_service_lines INTEGER := 0;
+  v_tender JSONB;
+  v_subtotal NUMERIC := 0;
+  v_total NUMERIC;
+  v_prepaid NUMERIC;
+  v_amount_due NUMERIC;
+  v_tendered NUMERIC := 0;
+  v_cash NUMERIC := 0;
+  v_change NUMERIC;
+  v_checkout_id UUID;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'CHECKOUT_INVALID: Booking not found';
+  END IF;
+
+  IF NOT has_permission(v_booking.organization_id, 'bookings.checkout') THEN
+    RAISE EXCEPTION 'CHECKOUT_INVALID: You do not have permission to check out appointments';
+  END IF;
+
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'CHECKOUT_INVALID: This appointment is already %', v_booking.status;
+  END IF;
+  IF EXISTS (SELECT 1 FROM checkouts WHERE booking_id = p_booking_id) THEN
+    RAISE EXCEPTION 'CHECKOUT_INVALID: This appointment has already been checked out';
+  END IF;
+
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'CHECKOUT_INVALID: Add at least one item';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items) LOOP
+    IF COALESCE((v_item->>'quantity')::INTEGER, 0) <= 0 THEN
+      RAISE EXCEPTION 'CHECKOUT_INVALID: Every item needs a price and a quantity';
+    END IF;
+
+    IF v_item->>'kind' = 'service' THEN
+      IF NULLIF(v_item->>'service_id', '')::UUID IS DISTINCT FROM v_booking.service_id
+        OR (v_item->>'quantity')::INTEGER <> 1 THEN
+        RAISE EXCEPTION 'CHECKOUT_INVALID: Ring up the booked service once';
+      END IF;
+      v_service_lines := v_service_lines + 1;
+      SELECT CASE WHEN v_booking.client_package_id IS NULL THEN COALESCE(s.price, 0) ELSE 0 END INTO v_unit_price
+      FROM services s WHERE s.id = v_booking.service_id;
+    ELSIF v_item->>'kind' = 'addon' AND NULLIF(v_item->>'service_id', '') IS NULL THEN
+      v_unit_price := (v_item->>'unit_price')::NUMERIC;
+    ELSIF v_item->>'kind' = 'addon' THEN
+      SELECT s.price INTO v_unit_price
+      FROM services s
+      JOIN shops sh ON sh.id = s.shop_id
+      WHERE s.id = (v_item->>'service_id')::UUID AND sh.organization_id = v_booking.organization_id;
+    ELSIF v_item->>'kind' = 'product' THEN
+      SELECT p.price INTO v_unit_price
+      FROM retail_products p
+      WHERE p.id = NULLIF(v_item->>'product_id', '')::UUID AND p.organization_id = v_booking.organization_id;
+    ELSE
+      RAISE EXCEPTION 'CHECKOUT_INVALID: Unknown item type';
+    END IF;
+
+    IF COALESCE(v_unit_price, -1) < 0 THEN
+      RAISE EXCEPTION 'CHECKOUT_INVALID: Every item needs a price and a quantity';
+    END IF;
+    v_items := v_items || jsonb_build_array(v_item || jsonb_build_object('unit_price', v_unit_price));
+    v_subtotal := v_subtotal + ROUND(v_unit_price * (v_item->>'quantity')::INTEGER, 2);
+  END LOOP;
+
+  IF v_service_lines <> 1 THEN
+    RAISE EXCEPTION 'CHECKOUT_INVALID: Ring up the booked service once';
+  END IF;
+
+  IF COALESCE(p_discount, 0) < 0 OR COALESCE(p_discount, 0) > v_subtotal THEN
+    RAISE EXCEPTION 'CHECKOUT_INVALID: The discount must be between 0 and the subtotal';
+  END IF;
+  IF COALESCE(p_tip, 0) < 0 THEN
+    RAISE EXCEPTION 'CHECKOUT_INVALID: The tip cannot be negative';
+  END IF;
+
+  v_total := v_subtotal - COALESCE(p_discount, 0) + COALESCE(p_tip, 0);
+
+  SELECT COALESCE(SUM(amount - refunded_amount), 0) INTO v_prepaid
+  FROM payments
+  WHERE booking_id = p_booking_id AND status IN ('completed', 'refunded');
+  v_prepaid := LEAST(v_prepaid, v_total);
+  v_amount_due := v_total - v_prepaid;
+
+  FOR v_tender IN SELECT * FROM jsonb_array_elements(COALESCE(p_tenders, '[]'::JSONB)) LOOP
+    IF COALESCE((v_tender->>'amount')::NUMERIC, 0) <= 0 THEN
+      RAISE EXCEPTION 'CHECKOUT_INVALID: Every payment needs an amount';
+    END IF;
+    v_tendered := v_tendered + (v_tender->>'amount')::NUMERIC;
+    IF v_tender->>'method' = 'cash' THEN
+      v_cash := v_cash + (v_tender->>'amount')::NUMERIC;
+    END IF;
+  END LOOP;
+
+  IF v_tendered < v_amount_due THEN
+    RAISE EXCEPTION 'CHECKOUT_INVALID: Payments are short by %', v_amount_due - v_tendered;
+  END IF;
+  -- Only cash can be over-tendered; the difference is handed back as change
+  v_change := v_tendered - v_amount_due;
+  IF v_change > v_cash THEN
+    RAISE EXCEPTION 'CHECKOUT_INVALID: Card and wallet payments cannot exceed the amount due';
+  END IF;
+
+  INSERT INTO checkouts (
+    receipt_number, organization_id, shop_id, booking_id, client_id, staff_id, processed_by,
+    subtotal, discount_amount, discount_reason, tip_amount, total, prepaid_amount, amount_due, change_given
+  )
+  VALUES (
+    'GQ-' || to_char(NOW(), 'YYMMDD') || '-' || lpad(nextval('checkout_receipt_seq')::TEXT, 5, '0'),
+    v_booking.organization_id, v_booking.shop_id, v_booking.id, v_booking.client_id, v_booking.staff_id, auth.uid(),
+    v_subtotal, COALESCE(p_discount, 0), NULLIF(TRIM(p_discount_reason), ''), COALESCE(p_tip, 0),
+    v_total, v_prepaid, v_amount_due, v_change
+  )
+  RETURNING id INTO v_checkout_id;
+
+  INSERT INTO checkout_items (checkout_id, kind, service_id, product_id, description, unit_price, quantity, line_total)
+  SELECT
+    v_checkout_id,
+    item->>'kind',
+    NULLIF(item->>'service_id', '')::UUID,
+    NULLIF(item->>'product_id', '')::UUID,
+    item->>'description',
+    (item->>'unit_price')::NUMERIC,
+    (item->>'quantity')::INTEGER,
+    ROUND((item->>'unit_price')::NUMERIC * (item->>'quantity')::INTEGER, 2)
+  FROM jsonb_array_elements(v_items) AS item;
+
+  INSERT INTO checkout_tenders (checkout_id, method, amount, reference)
+  SELECT v_checkout_id, tender->>'method', (tender->>'amount')::NUMERIC, NULLIF(tender->>'reference', '')
+  FROM jsonb_array_elements(COALESCE(p_tenders, '[]'::JSONB)) AS tender;
+
+  -- The tenders cover the whole bill, so an unpaid deposit is paid with it;
+  -- otherwise the deposit guard would refuse to complete the booking
+  UPDATE bookings
+  SET status = 'completed',
+      deposit_paid_at = CASE WHEN deposit_amount > 0 THEN COALESCE(deposit_paid_at, NOW()) ELSE deposit_paid_at END
+  WHERE id = p_booking_id;
+
+  RETURN v_checkout_id;
+END;
+$$;
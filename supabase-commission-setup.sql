@@ -0,0 +1,37 @@
+-- ============================================
+-- STAFF COMMISSION
+-- ============================================
+-- One commission rule per staff member: either a percentage of the service
+-- revenue they bring in (optionally tiered, like tax brackets) or a flat fee
+-- per service performed. Commission and tips are worked out from checkouts
+-- (supabase-checkout-setup.sql) for a payroll period in the app, so changing
+-- a rule re-prices any period that hasn't been paid yet. Run after
+-- supabase-checkout-setup.sql and supabase-permissions-setup.sql. Safe to run
+-- more than once.
+
+CREATE TABLE IF NOT EXISTS staff_commission_rules (
+  staff_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  commission_type TEXT NOT NULL DEFAULT 'none' CHECK (commission_type IN ('none', 'percentage', 'flat')),
+  -- Percentage tiers: [{ "from": 0, "rate": 10 }, { "from": 50000, "rate": 15 }]
+  -- Each rate applies to the period's service revenue above its "from" amount
+  tiers JSONB NOT NULL DEFAULT '[]'::JSONB CHECK (jsonb_typeof(tiers) = 'array'),
+  flat_fee NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (flat_fee >= 0), -- Per service performed
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_commission_rules_org ON staff_commission_rules(organization_id);
+
+ALTER TABLE staff_commission_rules ENABLE ROW LEVEL SECURITY;
+
+-- Staff can see their own rule; admins and managers see and set everyone's
+DROP POLICY IF EXISTS "Staff view own commission rule" ON staff_commission_rules;
+CREATE POLICY "Staff view own commission rule"
+  ON staff_commission_rules FOR SELECT
+  USING (staff_id = auth.uid());
+
+DROP POLICY IF EXISTS "Org admins manage commission rules" ON staff_commission_rules;
+CREATE POLICY "Org admins manage commission rules"
+  ON staff_commission_rules FOR ALL
+  USING (has_permission(staff_commission_rules.organization_id, 'staff.manage'))
+  WITH CHECK (has_permission(staff_commission_rules.organization_id, 'staff.manage'));
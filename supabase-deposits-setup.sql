@@ -0,0 +1,112 @@
+-- ============================================
+-- SERVICE DEPOSITS
+-- ============================================
+-- Services can require a fixed or percentage deposit. A client's own booking
+-- for such a service records the deposit due and stays `pending` until it is
+-- paid; the deposit is then taken off the final bill. Bookings made by the
+-- salon (walk-ins, admin bookings) and bookings covered by a package don't
+-- need one. Run after supabase-payments-setup.sql and
+-- supabase-packages-setup.sql. Safe to run more than once.
+
+ALTER TABLE services ADD COLUMN IF NOT EXISTS deposit_type TEXT NOT NULL DEFAULT 'none';
+ALTER TABLE services ADD COLUMN IF NOT EXISTS deposit_value NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE services DROP CONSTRAINT IF EXISTS services_deposit_check;
+ALTER TABLE services ADD CONSTRAINT services_deposit_check
+  CHECK (
+    deposit_type IN ('none', 'fixed', 'percentage')
+    AND deposit_value >= 0
+    AND (deposit_type <> 'percentage' OR deposit_value <= 100)
+  );
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS deposit_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS deposit_paid_at TIMESTAMPTZ;
+
+-- Deposits are paid like any other booking payment, tagged so the bill can
+-- show them separately
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS purpose TEXT NOT NULL DEFAULT 'payment';
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_purpose_check;
+ALTER TABLE payments ADD CONSTRAINT payments_purpose_check CHECK (purpose IN ('payment', 'deposit'));
+
+-- Work out the deposit from the service when a client books; clients can't
+-- set or clear it themselves. Runs as the caller so current_user tells a
+-- client's update apart from the payment trigger below.
+CREATE OR REPLACE FUNCTION set_booking_deposit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_service services%ROWTYPE;
+  v_price NUMERIC;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.deposit_amount := 0;
+    NEW.deposit_paid_at := NULL;
+
+    IF NEW.client_id = auth.uid() AND NEW.status = 'pending' AND NEW.client_package_id IS NULL THEN
+      SELECT * INTO v_service FROM services WHERE id = NEW.service_id;
+      v_price := COALESCE(v_service.price, 0);
+
+      IF v_service.deposit_type = 'fixed' THEN
+        NEW.deposit_amount := LEAST(v_service.deposit_value, v_price);
+      ELSIF v_service.deposit_type = 'percentage' THEN
+        NEW.deposit_amount := ROUND(v_price * v_service.deposit_value / 100, 2);
+      END IF;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Only the payment trigger below and gift card redemption (running as the
+  -- table owner) mark deposits paid
+  IF current_user IN ('authenticated', 'anon') AND (
+    NEW.deposit_amount IS DISTINCT FROM OLD.deposit_amount
+    OR NEW.deposit_paid_at IS DISTINCT FROM OLD.deposit_paid_at
+  ) THEN
+    RAISE EXCEPTION 'DEPOSIT_LOCKED: Deposits are updated by payments only';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NEW.status IN ('confirmed', 'completed')
+    AND NEW.deposit_amount > 0
+    AND NEW.deposit_paid_at IS NULL THEN
+    RAISE EXCEPTION 'DEPOSIT_REQUIRED: A deposit of ₱% must be paid before this booking can be confirmed', NEW.deposit_amount;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_set_deposit ON bookings;
+CREATE TRIGGER bookings_set_deposit
+  BEFORE INSERT OR UPDATE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION set_booking_deposit();
+
+-- A completed payment that covers the deposit (a deposit payment, or paying
+-- the full price up front) marks it paid, as long as it was settled by the
+-- service role or a real provider (or the mock gateway while it's enabled)
+CREATE OR REPLACE FUNCTION mark_booking_deposit_paid()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status <> 'completed' AND NEW.booking_id IS NOT NULL
+    AND payment_settlement_trusted(NEW.payment_provider)
+  THEN
+    UPDATE bookings
+    SET deposit_paid_at = NOW()
+    WHERE id = NEW.booking_id
+      AND deposit_amount > 0
+      AND deposit_paid_at IS NULL
+      AND NEW.amount >= deposit_amount;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS payments_mark_deposit_paid ON payments;
+CREATE TRIGGER payments_mark_deposit_paid
+  AFTER UPDATE OF status ON payments
+  FOR EACH ROW EXECUTE FUNCTION mark_booking_deposit_paid();
@@ -0,0 +1,480 @@
+-- ============================================
+-- GIFT CARDS & STORED-VALUE BALANCES
+-- ============================================
+-- A gift card is a code with a balance, an optional expiry and a ledger of
+-- every change to that balance. Cards are sold at the front desk
+-- (issue_gift_card) or bought online (purchase_gift_card, activated when the
+-- payment completes) and spent either online against bookings
+-- (redeem_gift_card_for_bookings) or as a `gift_card` tender at checkout.
+-- Every balance change locks the card row first, so two redemptions can't
+-- spend the same money. Run after supabase-checkout-setup.sql,
+-- supabase-deposits-setup.sql and supabase-promotions-setup.sql. Safe to run
+-- more than once.
+
+CREATE TABLE IF NOT EXISTS gift_cards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  code TEXT NOT NULL UNIQUE,
+  initial_balance NUMERIC(10, 2) NOT NULL CHECK (initial_balance > 0),
+  balance NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (balance >= 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'void')),
+  expires_at TIMESTAMPTZ,
+  purchaser_id UUID REFERENCES profiles(id) ON DELETE SET NULL, -- Online buyer
+  sold_by UUID REFERENCES profiles(id) ON DELETE SET NULL, -- Front desk seller
+  sale_method TEXT, -- How it was paid for: a tender method, or 'online'
+  recipient_name TEXT,
+  recipient_email TEXT,
+  message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_gift_cards_org ON gift_cards(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_gift_cards_purchaser ON gift_cards(purchaser_id) WHERE purchaser_id IS NOT NULL;
+
+-- amount is signed: positive adds to the balance, negative spends it
+CREATE TABLE IF NOT EXISTS gift_card_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  gift_card_id UUID NOT NULL REFERENCES gift_cards(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('issue', 'redeem', 'refund', 'void')),
+  amount NUMERIC(10, 2) NOT NULL,
+  balance_after NUMERIC(10, 2) NOT NULL,
+  booking_id BIGINT REFERENCES bookings(id) ON DELETE SET NULL,
+  payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+  checkout_id UUID REFERENCES checkouts(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_gift_card_transactions_card ON gift_card_transactions(gift_card_id, created_at);
+
+-- Online purchases are paid like any other payment
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS gift_card_id UUID REFERENCES gift_cards(id) ON DELETE SET NULL;
+
+-- Gift cards can be tendered at checkout; the code goes in `reference`
+ALTER TABLE checkout_tenders DROP CONSTRAINT IF EXISTS checkout_tenders_method_check;
+ALTER TABLE checkout_tenders ADD CONSTRAINT checkout_tenders_method_check
+  CHECK (method IN ('cash', 'card', 'gcash', 'maya', 'gift_card'));
+
+ALTER TABLE gift_cards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE gift_card_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Buyers see the cards they bought; salon staff see their org's. All writes
+-- go through the functions below.
+DROP POLICY IF EXISTS "View gift cards" ON gift_cards;
+CREATE POLICY "View gift cards"
+  ON gift_cards FOR SELECT
+  USING (
+    purchaser_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = gift_cards.organization_id
+        AND p.role IN ('admin', 'manager', 'staff')
+    )
+  );
+
+DROP POLICY IF EXISTS "View gift card transactions" ON gift_card_transactions;
+CREATE POLICY "View gift card transactions"
+  ON gift_card_transactions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM gift_cards g WHERE g.id = gift_card_transactions.gift_card_id));
+
+-- e.g. 7F3A-9C1B-42DE
+CREATE OR REPLACE FUNCTION generate_gift_card_code()
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_raw TEXT;
+  v_code TEXT;
+BEGIN
+  LOOP
+    v_raw := upper(substr(replace(gen_random_uuid()::TEXT, '-', ''), 1, 12));
+    v_code := substr(v_raw, 1, 4) || '-' || substr(v_raw, 5, 4) || '-' || substr(v_raw, 9, 4);
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM gift_cards WHERE code = v_code);
+  END LOOP;
+  RETURN v_code;
+END;
+$$;
+
+-- Lock a card for spending and check it can be used at this organization.
+-- Codes are matched case-insensitively, with or without dashes.
+CREATE OR REPLACE FUNCTION lock_gift_card_for_spend(p_code TEXT, p_organization_id UUID)
+RETURNS gift_cards
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_card gift_cards%ROWTYPE;
+BEGIN
+  SELECT * INTO v_card
+  FROM gift_cards
+  WHERE replace(code, '-', '') = upper(replace(trim(COALESCE(p_code, '')), '-', ''))
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_card.organization_id IS DISTINCT FROM p_organization_id THEN
+    RAISE EXCEPTION 'GIFT_CARD_INVALID: Gift card not found';
+  END IF;
+  IF v_card.status <> 'active' THEN
+    RAISE EXCEPTION 'GIFT_CARD_INVALID: This gift card is not active';
+  END IF;
+  IF v_card.expires_at IS NOT NULL AND v_card.expires_at < NOW() THEN
+    RAISE EXCEPTION 'GIFT_CARD_INVALID: This gift card expired on %', to_char(v_card.expires_at, 'Mon DD, YYYY');
+  END IF;
+
+  RETURN v_card;
+END;
+$$;
+
+-- Only for the spending functions below, which check who's asking first
+REVOKE EXECUTE ON FUNCTION lock_gift_card_for_spend(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Balance check by code, for anyone holding the card
+CREATE OR REPLACE FUNCTION get_gift_card_balance(p_code TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'code', g.code,
+    'balance', g.balance,
+    'status', g.status,
+    'expires_at', g.expires_at,
+    'organization_id', g.organization_id,
+    'organization_name', o.name
+  )
+  FROM gift_cards g
+  JOIN organizations o ON o.id = g.organization_id
+  WHERE replace(g.code, '-', '') = upper(replace(trim(COALESCE(p_code, '')), '-', ''))
+    AND auth.uid() IS NOT NULL;
+$$;
+
+-- Front desk sale: the card is paid for at the counter and active at once
+CREATE OR REPLACE FUNCTION issue_gift_card(
+  p_amount NUMERIC,
+  p_sale_method TEXT,
+  p_expires_at TIMESTAMPTZ DEFAULT NULL,
+  p_recipient_name TEXT DEFAULT NULL,
+  p_recipient_email TEXT DEFAULT NULL,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS gift_cards
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID;
+  v_card gift_cards%ROWTYPE;
+BEGIN
+  SELECT p.organization_id INTO v_organization_id
+  FROM profiles p
+  WHERE p.id = auth.uid() AND p.role IN ('admin', 'manager', 'staff');
+
+  IF v_organization_id IS NULL THEN
+    RAISE EXCEPTION 'GIFT_CARD_INVALID: Only salon staff can sell gift cards';
+  END IF;
+  IF COALESCE(p_amount, 0) <= 0 THEN
+    RAISE EXCEPTION 'GIFT_CARD_INVALID: Enter an amount greater than zero';
+  END IF;
+  IF p_sale_method NOT IN ('cash', 'card', 'gcash', 'maya') THEN
+    RAISE EXCEPTION 'GIFT_CARD_INVALID: Choose how the gift card was paid for';
+  END IF;
+
+  INSERT INTO gift_cards (
+    organization_id, code, initial_balance, balance, status, expires_at,
+    sold_by, sale_method, recipient_name, recipient_email, message
+  )
+  VALUES (
+    v_organization_id, generate_gift_card_code(), p_amount, p_amount, 'active', p_expires_at,
+    auth.uid(), p_sale_method, NULLIF(trim(p_recipient_name), ''), NULLIF(trim(p_recipient_email), ''), NULLIF(trim(p_message), '')
+  )
+  RETURNING * INTO v_card;
+
+  INSERT INTO gift_card_transactions (gift_card_id, kind, amount, balance_after, created_by)
+  VALUES (v_card.id, 'issue', p_amount, p_amount, auth.uid());
+
+  RETURN v_card;
+END;
+$$;
+
+-- Online purchase: creates a pending card for the buyer to pay for. It only
+-- gets its balance once the payment completes (see below).
+CREATE OR REPLACE FUNCTION purchase_gift_card(
+  p_organization_id UUID,
+  p_amount NUMERIC,
+  p_recipient_name TEXT DEFAULT NULL,
+  p_recipient_email TEXT DEFAULT NULL,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS gift_cards
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_card gift_cards%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'GIFT_CARD_INVALID: Please sign in to buy a gift card';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM organizations WHERE id = p_organization_id AND is_active) THEN
+    RAISE EXCEPTION 'GIFT_CARD_INVALID: This salon is not selling gift cards';
+  END IF;
+  IF COALESCE(p_amount, 0) < 100 OR p_amount > 50000 THEN
+    RAISE EXCEPTION 'GIFT_CARD_INVALID: Gift cards can be from ₱100 to ₱50,000';
+  END IF;
+
+  INSERT INTO gift_cards (
+    organization_id, code, initial_balance, balance, status, expires_at,
+    purchaser_id, sale_method, recipient_name, recipient_email, message
+  )
+  VALUES (
+    p_organization_id, generate_gift_card_code(), p_amount, 0, 'pending', NOW() + INTERVAL '1 year',
+    auth.uid(), 'online', NULLIF(trim(p_recipient_name), ''), NULLIF(trim(p_recipient_email), ''), NULLIF(trim(p_message), '')
+  )
+  RETURNING * INTO v_card;
+
+  RETURN v_card;
+END;
+$$;
+
+-- Settle online purchases: a completed payment loads the card, a failed one
+-- voids it, and a refunded one voids whatever balance is left. Only the
+-- buyer's own payment of the full amount, settled by a trusted provider,
+-- loads a card.
+CREATE OR REPLACE FUNCTION apply_gift_card_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_card gift_cards%ROWTYPE;
+BEGIN
+  IF NEW.gift_card_id IS NULL OR NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_card FROM gift_cards WHERE id = NEW.gift_card_id FOR UPDATE;
+
+  IF NEW.status = 'completed' AND v_card.status = 'pending' THEN
+    IF NEW.amount < v_card.initial_balance
+      OR NEW.user_id IS DISTINCT FROM v_card.purchaser_id
+      OR NOT payment_settlement_trusted(NEW.payment_provider)
+    THEN
+      RETURN NEW;
+    END IF;
+    UPDATE gift_cards SET status = 'active', balance = initial_balance WHERE id = v_card.id;
+    INSERT INTO gift_card_transactions (gift_card_id, kind, amount, balance_after, payment_id, created_by)
+    VALUES (v_card.id, 'issue', v_card.initial_balance, v_card.initial_balance, NEW.id, NEW.user_id);
+  ELSIF NEW.status IN ('failed', 'cancelled') AND v_card.status = 'pending' THEN
+    UPDATE gift_cards SET status = 'void' WHERE id = v_card.id;
+  ELSIF NEW.status = 'refunded' AND v_card.status = 'active' THEN
+    UPDATE gift_cards SET status = 'void', balance = 0 WHERE id = v_card.id;
+    INSERT INTO gift_card_transactions (gift_card_id, kind, amount, balance_after, payment_id)
+    VALUES (v_card.id, 'void', -v_card.balance, 0, NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS payments_apply_gift_card ON payments;
+CREATE TRIGGER payments_apply_gift_card
+  AFTER UPDATE OF status ON payments
+  FOR EACH ROW EXECUTE FUNCTION apply_gift_card_payment();
+
+-- Spend a card online on the caller's own bookings. Each booking takes what
+-- it still owes (or its unpaid deposit) until the balance runs out, and gets
+-- a completed `payments` row so checkout counts it as prepaid. Returns the
+-- amount applied, what's still owed and the balance left on the card.
+CREATE OR REPLACE FUNCTION redeem_gift_card_for_bookings(
+  p_code TEXT,
+  p_booking_ids BIGINT[],
+  p_purpose TEXT DEFAULT 'payment'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking RECORD;
+  v_card gift_cards%ROWTYPE;
+  v_organization_id UUID;
+  v_due NUMERIC;
+  v_apply NUMERIC;
+  v_applied NUMERIC := 0;
+  v_owed NUMERIC := 0;
+  v_payment_id UUID;
+BEGIN
+  IF p_purpose NOT IN ('payment', 'deposit') THEN
+    RAISE EXCEPTION 'GIFT_CARD_INVALID: Unknown payment purpose';
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT b.organization_id) FROM bookings b WHERE b.id = ANY(p_booking_ids)) > 1 THEN
+    RAISE EXCEPTION 'GIFT_CARD_INVALID: Pay for one salon''s bookings at a time';
+  END IF;
+
+  SELECT b.organization_id INTO v_organization_id
+  FROM bookings b
+  WHERE b.id = ANY(p_booking_ids)
+  LIMIT 1;
+
+  IF EXISTS (SELECT 1 FROM bookings b WHERE b.id = ANY(p_booking_ids) AND b.client_id IS DISTINCT FROM auth.uid()) THEN
+    RAISE EXCEPTION 'GIFT_CARD_INVALID: You can only pay for your own bookings';
+  END IF;
+
+  v_card := lock_gift_card_for_spend(p_code, v_organization_id);
+
+  FOR v_booking IN
+    SELECT b.*, COALESCE(s.price, 0) AS service_price, s.name AS service_name
+    FROM bookings b
+    LEFT JOIN services s ON s.id = b.service_id
+    WHERE b.id = ANY(p_booking_ids)
+    ORDER BY b.start_at
+    FOR UPDATE OF b
+  LOOP
+    IF p_purpose = 'deposit' THEN
+      v_due := CASE WHEN v_booking.deposit_paid_at IS NULL THEN v_booking.deposit_amount ELSE 0 END;
+      -- A part-paid deposit wouldn't confirm the booking
+      IF v_due > v_card.balance - v_applied THEN
+        RAISE EXCEPTION 'GIFT_CARD_INVALID: This gift card only has ₱% left', v_card.balance - v_applied;
+      END IF;
+    ELSIF v_booking.client_package_id IS NOT NULL THEN
+      v_due := 0;
+    ELSE
+      SELECT v_booking.service_price - v_booking.discount_amount - COALESCE(SUM(amount - refunded_amount), 0) INTO v_due
+      FROM payments
+      WHERE booking_id = v_booking.id AND status IN ('completed', 'refunded');
+    END IF;
+
+    v_owed := v_owed + GREATEST(v_due, 0);
+    v_apply := LEAST(GREATEST(v_due, 0), v_card.balance - v_applied);
+    CONTINUE WHEN v_apply <= 0;
+
+    -- Inserted pending then completed so the payment triggers see it settle
+    INSERT INTO payments (
+      user_id, booking_id, organization_id, amount, currency, status,
+      payment_method, payment_provider, provider_intent_id, purpose
+    )
+    VALUES (
+      auth.uid(), v_booking.id, v_organization_id, v_apply, 'PHP', 'pending',
+      'gift_card', 'gift_card', gen_random_uuid()::TEXT, p_purpose
+    )
+    RETURNING id INTO v_payment_id;
+
+    UPDATE payments
+    SET status = 'completed', transaction_id = v_card.code, processed_at = NOW()
+    WHERE id = v_payment_id;
+
+    -- The deposit trigger doesn't count gift card payments, so a deposit (or
+    -- full price) covered by the card is marked paid here
+    UPDATE bookings
+    SET deposit_paid_at = NOW()
+    WHERE id = v_booking.id
+      AND deposit_amount > 0
+      AND deposit_paid_at IS NULL
+      AND v_apply >= deposit_amount;
+
+    v_applied := v_applied + v_apply;
+    INSERT INTO gift_card_transactions (gift_card_id, kind, amount, balance_after, booking_id, payment_id, created_by)
+    VALUES (v_card.id, 'redeem', -v_apply, v_card.balance - v_applied, v_booking.id, v_payment_id, auth.uid());
+  END LOOP;
+
+  IF v_applied = 0 THEN
+    RAISE EXCEPTION 'GIFT_CARD_INVALID: Nothing is owed on these bookings';
+  END IF;
+
+  UPDATE gift_cards SET balance = balance - v_applied WHERE id = v_card.id;
+
+  RETURN jsonb_build_object(
+    'applied', v_applied,
+    'remaining', v_owed - v_applied,
+    'balance', v_card.balance - v_applied
+  );
+END;
+$$;
+
+-- Put a refunded gift card payment back on the card
+CREATE OR REPLACE FUNCTION refund_gift_card_payment(p_payment_id UUID, p_amount NUMERIC)
+RETURNS payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment payments%ROWTYPE;
+  v_card gift_cards%ROWTYPE;
+BEGIN
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF NOT FOUND OR v_payment.payment_provider <> 'gift_card' THEN
+    RAISE EXCEPTION 'GIFT_CARD_INVALID: Payment not found';
+  END IF;
+  IF NOT has_permission(v_payment.organization_id, 'bookings.refund') THEN
+    RAISE EXCEPTION 'GIFT_CARD_INVALID: You do not have permission to refund payments';
+  END IF;
+  IF v_payment.status <> 'completed' OR COALESCE(p_amount, 0) <= 0 OR p_amount > v_payment.amount - v_payment.refunded_amount THEN
+    RAISE EXCEPTION 'GIFT_CARD_INVALID: Refund must be between ₱0.01 and ₱%', v_payment.amount - v_payment.refunded_amount;
+  END IF;
+
+  SELECT g.* INTO v_card
+  FROM gift_cards g
+  JOIN gift_card_transactions t ON t.gift_card_id = g.id
+  WHERE t.payment_id = v_payment.id AND t.kind = 'redeem'
+  FOR UPDATE OF g;
+
+  UPDATE gift_cards SET balance = balance + p_amount WHERE id = v_card.id;
+  INSERT INTO gift_card_transactions (gift_card_id, kind, amount, balance_after, booking_id, payment_id, created_by)
+  VALUES (v_card.id, 'refund', p_amount, v_card.balance + p_amount, v_payment.booking_id, v_payment.id, auth.uid());
+
+  UPDATE payments
+  SET refunded_amount = refunded_amount + p_amount,
+      status = CASE WHEN refunded_amount + p_amount >= amount THEN 'refunded' ELSE status END,
+      updated_at = NOW()
+  WHERE id = v_payment.id
+  RETURNING * INTO v_payment;
+
+  RETURN v_payment;
+END;
+$$;
+
+-- Gift card tenders are spent as complete_checkout() writes them, inside the
+-- same transaction, so a short balance rolls the whole checkout back
+CREATE OR REPLACE FUNCTION redeem_gift_card_tender()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_checkout checkouts%ROWTYPE;
+  v_card gift_cards%ROWTYPE;
+BEGIN
+  IF NEW.method <> 'gift_card' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_checkout FROM checkouts WHERE id = NEW.checkout_id;
+  v_card := lock_gift_card_for_spend(NEW.reference, v_checkout.organization_id);
+
+  IF v_card.balance < NEW.amount THEN
+    RAISE EXCEPTION 'GIFT_CARD_INVALID: Gift card % only has ₱% left', v_card.code, v_card.balance;
+  END IF;
+
+  UPDATE gift_cards SET balance = balance - NEW.amount WHERE id = v_card.id;
+  INSERT INTO gift_card_transactions (gift_card_id, kind, amount, balance_after, booking_id, checkout_id, created_by)
+  VALUES (v_card.id, 'redeem', -NEW.amount, v_card.balance - NEW.amount, v_checkout.booking_id, v_checkout.id, auth.uid());
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS checkout_tenders_redeem_gift_card ON checkout_tenders;
+CREATE TRIGGER checkout_tenders_redeem_gift_card
+  AFTER INSERT ON checkout_tenders
+  FOR EACH ROW EXECUTE FUNCTION redeem_gift_card_tender();
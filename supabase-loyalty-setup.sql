@@ -0,0 +1,385 @@
+-- ============================================
+-- LOYALTY POINTS
+-- ============================================
+-- Clients earn points for every peso spent on a completed booking, climb
+-- tiers by the points they've earned over time, and spend points as a
+-- discount when they book. Every change is a row in loyalty_transactions, so
+-- a balance is the sum of its ledger. Points can expire a set number of days
+-- after they're earned; the oldest points are treated as spent first.
+-- Run after supabase-checkout-setup.sql and supabase-promotions-setup.sql.
+-- Safe to run more than once.
+
+CREATE TABLE IF NOT EXISTS loyalty_programs (
+  organization_id UUID PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  points_per_peso NUMERIC(6, 3) NOT NULL DEFAULT 0.1 CHECK (points_per_peso > 0), -- 0.1 = 1 point per ₱10
+  peso_per_point NUMERIC(6, 3) NOT NULL DEFAULT 1 CHECK (peso_per_point > 0), -- Value of a point when redeemed
+  min_redeem_points INTEGER NOT NULL DEFAULT 100 CHECK (min_redeem_points > 0),
+  points_expire_days INTEGER CHECK (points_expire_days > 0), -- NULL = never
+  -- [{ "tier": "Bronze", "min_points": 0, "perks": ["Birthday treat"] }, ...]
+  tiers JSONB NOT NULL DEFAULT '[
+    { "tier": "Bronze", "min_points": 0, "perks": [] },
+    { "tier": "Silver", "min_points": 500, "perks": [] },
+    { "tier": "Gold", "min_points": 1500, "perks": [] },
+    { "tier": "Platinum", "min_points": 4000, "perks": [] }
+  ]'::JSONB CHECK (jsonb_typeof(tiers) = 'array'),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- points is signed: earn and refund add, redeem, expire and reverse take away
+CREATE TABLE IF NOT EXISTS loyalty_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('earn', 'redeem', 'refund', 'expire', 'reverse')),
+  points INTEGER NOT NULL,
+  booking_id BIGINT REFERENCES bookings(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ, -- Earned points only
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_transactions_client ON loyalty_transactions(organization_id, client_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_loyalty_transactions_booking ON loyalty_transactions(booking_id) WHERE booking_id IS NOT NULL;
+
+-- Points spent on a booking; their value is included in discount_amount
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS loyalty_points_redeemed INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE loyalty_programs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE loyalty_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Earn rates and perks are shown to clients, so anyone signed in can read them
+DROP POLICY IF EXISTS "View loyalty programs" ON loyalty_programs;
+CREATE POLICY "View loyalty programs"
+  ON loyalty_programs FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Org admins manage loyalty programs" ON loyalty_programs;
+CREATE POLICY "Org admins manage loyalty programs"
+  ON loyalty_programs FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = loyalty_programs.organization_id
+        AND p.role IN ('admin', 'manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = loyalty_programs.organization_id
+        AND p.role IN ('admin', 'manager')
+    )
+  );
+
+-- All ledger writes go through the functions and triggers below
+DROP POLICY IF EXISTS "View loyalty transactions" ON loyalty_transactions;
+CREATE POLICY "View loyalty transactions"
+  ON loyalty_transactions FOR SELECT
+  USING (
+    client_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = loyalty_transactions.organization_id
+        AND p.role IN ('admin', 'manager', 'staff')
+    )
+  );
+
+-- Clients can't mark points as spent themselves; only
+-- redeem_loyalty_points() (running as the table owner) does
+CREATE OR REPLACE FUNCTION guard_booking_loyalty_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.loyalty_points_redeemed := 0;
+  ELSIF NEW.loyalty_points_redeemed IS DISTINCT FROM OLD.loyalty_points_redeemed THEN
+    RAISE EXCEPTION 'LOYALTY_INVALID: Points are redeemed through the loyalty program';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_guard_loyalty_points ON bookings;
+CREATE TRIGGER bookings_guard_loyalty_points
+  BEFORE INSERT OR UPDATE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION guard_booking_loyalty_points();
+
+-- Points are earned when a booking is completed, so only the salon's team
+-- marks bookings completed or as no-shows; clients can't close their own
+CREATE OR REPLACE FUNCTION guard_booking_outcome()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon')
+    OR NEW.status NOT IN ('completed', 'no_show')
+    OR (TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.organization_id = COALESCE(NEW.organization_id, (SELECT sh.organization_id FROM shops sh WHERE sh.id = NEW.shop_id))
+      AND p.role IN ('admin', 'manager', 'staff')
+  ) THEN
+    RAISE EXCEPTION 'BOOKING_LOCKED: Only the salon can mark an appointment completed or as a no-show';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_guard_outcome ON bookings;
+CREATE TRIGGER bookings_guard_outcome
+  BEFORE INSERT OR UPDATE OF status ON bookings
+  FOR EACH ROW EXECUTE FUNCTION guard_booking_outcome();
+
+CREATE OR REPLACE FUNCTION get_loyalty_balance(p_organization_id UUID, p_client_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(points), 0)::INTEGER
+  FROM loyalty_transactions
+  WHERE organization_id = p_organization_id AND client_id = p_client_id;
+$$;
+
+-- Write off earned points that have passed their expiry date and weren't
+-- spent. Spending uses the oldest points first, so what expires is whatever
+-- has expired beyond everything already spent, refunded or written off.
+-- Staff can run it for the whole organization; clients for themselves.
+CREATE OR REPLACE FUNCTION expire_loyalty_points(p_organization_id UUID, p_client_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client RECORD;
+  v_expired INTEGER;
+  v_total INTEGER := 0;
+BEGIN
+  IF (p_client_id IS NULL OR p_client_id <> auth.uid()) AND NOT EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = auth.uid()
+      AND p.organization_id = p_organization_id
+      AND p.role IN ('admin', 'manager', 'staff')
+  ) THEN
+    RAISE EXCEPTION 'LOYALTY_INVALID: Not allowed to update these points';
+  END IF;
+
+  FOR v_client IN
+    SELECT
+      t.client_id,
+      COALESCE(SUM(t.points) FILTER (WHERE t.kind = 'earn' AND t.expires_at <= NOW()), 0) AS expired_earned,
+      -COALESCE(SUM(t.points) FILTER (WHERE t.kind IN ('redeem', 'refund', 'expire', 'reverse')), 0) AS used,
+      COALESCE(SUM(t.points), 0) AS balance
+    FROM loyalty_transactions t
+    WHERE t.organization_id = p_organization_id
+      AND (p_client_id IS NULL OR t.client_id = p_client_id)
+    GROUP BY t.client_id
+  LOOP
+    v_expired := LEAST(v_client.expired_earned - v_client.used, v_client.balance);
+    CONTINUE WHEN v_expired <= 0;
+
+    INSERT INTO loyalty_transactions (organization_id, client_id, kind, points)
+    VALUES (p_organization_id, v_client.client_id, 'expire', -v_expired);
+    v_total := v_total + v_expired;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$;
+
+-- Award points when a booking is completed, take them back if it's reopened,
+-- and return spent points when a booking is cancelled. Points are earned on
+-- what the checkout charged before the tip, or the service price less any
+-- discount when there was no checkout.
+CREATE OR REPLACE FUNCTION apply_booking_loyalty_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_program loyalty_programs%ROWTYPE;
+  v_amount NUMERIC;
+  v_points INTEGER;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status OR NEW.client_id IS NULL OR NEW.organization_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'completed' THEN
+    SELECT * INTO v_program FROM loyalty_programs WHERE organization_id = NEW.organization_id AND is_active;
+    IF NOT FOUND THEN
+      RETURN NEW;
+    END IF;
+    -- Already holding points for this booking
+    IF COALESCE((
+      SELECT SUM(points) FROM loyalty_transactions
+      WHERE booking_id = NEW.id AND kind IN ('earn', 'reverse')
+    ), 0) > 0 THEN
+      RETURN NEW;
+    END IF;
+
+    SELECT c.subtotal - c.discount_amount INTO v_amount FROM checkouts c WHERE c.booking_id = NEW.id;
+    IF NOT FOUND THEN
+      SELECT CASE WHEN NEW.client_package_id IS NULL THEN s.price - NEW.discount_amount ELSE 0 END
+      INTO v_amount
+      FROM services s WHERE s.id = NEW.service_id;
+    END IF;
+
+    v_points := FLOOR(GREATEST(COALESCE(v_amount, 0), 0) * v_program.points_per_peso);
+    IF v_points > 0 THEN
+      INSERT INTO loyalty_transactions (organization_id, client_id, kind, points, booking_id, expires_at)
+      VALUES (
+        NEW.organization_id, NEW.client_id, 'earn', v_points, NEW.id,
+        CASE WHEN v_program.points_expire_days IS NOT NULL THEN NOW() + make_interval(days => v_program.points_expire_days) END
+      );
+    END IF;
+  ELSIF OLD.status = 'completed' THEN
+    SELECT COALESCE(SUM(points), 0) INTO v_points
+    FROM loyalty_transactions
+    WHERE booking_id = NEW.id AND kind IN ('earn', 'reverse');
+    IF v_points > 0 THEN
+      INSERT INTO loyalty_transactions (organization_id, client_id, kind, points, booking_id)
+      VALUES (NEW.organization_id, NEW.client_id, 'reverse', -v_points, NEW.id);
+    END IF;
+  END IF;
+
+  IF NEW.status = 'cancelled' THEN
+    SELECT -COALESCE(SUM(points), 0) INTO v_points
+    FROM loyalty_transactions
+    WHERE booking_id = NEW.id AND kind IN ('redeem', 'refund');
+    IF v_points > 0 THEN
+      INSERT INTO loyalty_transactions (organization_id, client_id, kind, points, booking_id)
+      VALUES (NEW.organization_id, NEW.client_id, 'refund', v_points, NEW.id);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_apply_loyalty_points ON bookings;
+CREATE TRIGGER bookings_apply_loyalty_points
+  AFTER UPDATE OF status ON bookings
+  FOR EACH ROW EXECUTE FUNCTION apply_booking_loyalty_points();
+
+-- Spend points as a discount on one of the caller's new bookings. Only as
+-- many points as the remaining price needs are used. Returns the points
+-- spent and the discount they bought.
+CREATE OR REPLACE FUNCTION redeem_loyalty_points(p_booking_id BIGINT, p_points INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking RECORD;
+  v_program loyalty_programs%ROWTYPE;
+  v_balance INTEGER;
+  v_remaining NUMERIC;
+  v_points INTEGER;
+  v_discount NUMERIC;
+BEGIN
+  SELECT b.*, COALESCE(s.price, 0) AS service_price INTO v_booking
+  FROM bookings b
+  JOIN services s ON s.id = b.service_id
+  WHERE b.id = p_booking_id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND
+    OR v_booking.client_id IS DISTINCT FROM auth.uid()
+    OR v_booking.status NOT IN ('pending', 'confirmed')
+    OR v_booking.loyalty_points_redeemed > 0 THEN
+    RAISE EXCEPTION 'LOYALTY_INVALID: Points can only be used on your own new bookings';
+  END IF;
+  IF v_booking.client_package_id IS NOT NULL THEN
+    RAISE EXCEPTION 'LOYALTY_INVALID: This booking is already paid for with a package';
+  END IF;
+
+  SELECT * INTO v_program FROM loyalty_programs WHERE organization_id = v_booking.organization_id AND is_active;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'LOYALTY_INVALID: This salon doesn''t have a loyalty program';
+  END IF;
+
+  -- Serialize spending per client so two bookings can't use the same points
+  PERFORM 1 FROM profiles WHERE id = auth.uid() FOR UPDATE;
+  PERFORM expire_loyalty_points(v_booking.organization_id, auth.uid());
+  v_balance := get_loyalty_balance(v_booking.organization_id, auth.uid());
+
+  IF COALESCE(p_points, 0) < v_program.min_redeem_points THEN
+    RAISE EXCEPTION 'LOYALTY_INVALID: Redeem at least % points', v_program.min_redeem_points;
+  END IF;
+  IF v_balance < p_points THEN
+    RAISE EXCEPTION 'LOYALTY_INVALID: You have % points', v_balance;
+  END IF;
+
+  v_remaining := v_booking.service_price - v_booking.discount_amount;
+  v_points := LEAST(p_points, CEIL(v_remaining / v_program.peso_per_point)::INTEGER);
+  v_discount := LEAST(ROUND(v_points * v_program.peso_per_point, 2), v_remaining);
+  IF v_points <= 0 THEN
+    RAISE EXCEPTION 'LOYALTY_INVALID: Nothing left to pay on this booking';
+  END IF;
+
+  UPDATE bookings
+  SET loyalty_points_redeemed = v_points,
+      discount_amount = discount_amount + v_discount,
+      -- The deposit can't be more than the discounted price
+      deposit_amount = LEAST(deposit_amount, v_remaining - v_discount)
+  WHERE id = v_booking.id;
+
+  INSERT INTO loyalty_transactions (organization_id, client_id, kind, points, booking_id)
+  VALUES (v_booking.organization_id, auth.uid(), 'redeem', -v_points, v_booking.id);
+
+  RETURN jsonb_build_object('points', v_points, 'discount_amount', v_discount);
+END;
+$$;
+
+-- The caller's points at every salon they've earned with, after expiring
+-- anything overdue
+CREATE OR REPLACE FUNCTION get_my_loyalty()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID;
+BEGIN
+  FOR v_organization_id IN
+    SELECT DISTINCT organization_id FROM loyalty_transactions WHERE client_id = auth.uid()
+  LOOP
+    PERFORM expire_loyalty_points(v_organization_id, auth.uid());
+  END LOOP;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(to_jsonb(accounts) ORDER BY accounts.organization_name)
+    FROM (
+      SELECT
+        t.organization_id,
+        o.name AS organization_name,
+        SUM(t.points) AS balance,
+        COALESCE(SUM(t.points) FILTER (WHERE t.kind IN ('earn', 'reverse')), 0) AS lifetime_points
+      FROM loyalty_transactions t
+      JOIN organizations o ON o.id = t.organization_id
+      WHERE t.client_id = auth.uid()
+      GROUP BY t.organization_id, o.name
+    ) accounts
+  ), '[]'::JSONB);
+END;
+$$;
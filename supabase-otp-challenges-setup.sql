@@ -0,0 +1,138 @@
+-- ============================================
+-- EMAIL OTP VERIFICATION
+-- ============================================
+-- Sign-up codes are issued and checked by the email-otp edge function. Only
+-- an HMAC of each code is stored, and the account (with its password) is only
+-- created once the code is verified. The limits below are enforced here so
+-- parallel requests can't get around them:
+--   - a code expires after 5 minutes
+--   - a new code can be sent once a minute, at most 5 times an hour
+--   - 5 wrong guesses lock the address for 15 minutes
+-- Once email-otp is deployed, delete the old send-otp-email and create-user
+-- functions: create-user made confirmed accounts without any code.
+-- Safe to run more than once.
+
+-- The old table kept the user's password in plain text next to the code
+DROP TABLE IF EXISTS email_otps;
+
+CREATE TABLE IF NOT EXISTS otp_challenges (
+  email TEXT PRIMARY KEY, -- lowercased
+  code_hash TEXT, -- NULL once used or locked out
+  expires_at TIMESTAMPTZ,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ,
+  last_sent_at TIMESTAMPTZ,
+  send_window_started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sends_in_window INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- No policies: only the edge function (service role) reads or writes codes
+ALTER TABLE otp_challenges ENABLE ROW LEVEL SECURITY;
+
+-- Store a new code for an address unless it is locked, inside the resend
+-- cooldown or over the hourly limit. retry_after_seconds says when the next
+-- code can be sent.
+CREATE OR REPLACE FUNCTION issue_otp_challenge(p_email TEXT, p_code_hash TEXT)
+RETURNS TABLE (issued BOOLEAN, reason TEXT, retry_after_seconds INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_challenge otp_challenges%ROWTYPE;
+  v_window_started_at TIMESTAMPTZ;
+  v_sends INTEGER;
+BEGIN
+  INSERT INTO otp_challenges (email) VALUES (p_email) ON CONFLICT (email) DO NOTHING;
+  SELECT * INTO v_challenge FROM otp_challenges WHERE email = p_email FOR UPDATE;
+
+  IF v_challenge.locked_until > NOW() THEN
+    RETURN QUERY SELECT FALSE, 'locked', CEIL(EXTRACT(EPOCH FROM v_challenge.locked_until - NOW()))::INTEGER;
+    RETURN;
+  END IF;
+
+  IF v_challenge.last_sent_at > NOW() - INTERVAL '1 minute' THEN
+    RETURN QUERY SELECT FALSE, 'cooldown',
+      CEIL(EXTRACT(EPOCH FROM v_challenge.last_sent_at + INTERVAL '1 minute' - NOW()))::INTEGER;
+    RETURN;
+  END IF;
+
+  v_window_started_at := v_challenge.send_window_started_at;
+  v_sends := v_challenge.sends_in_window;
+  IF v_window_started_at <= NOW() - INTERVAL '1 hour' THEN
+    v_window_started_at := NOW();
+    v_sends := 0;
+  END IF;
+
+  IF v_sends >= 5 THEN
+    RETURN QUERY SELECT FALSE, 'too_many_codes',
+      CEIL(EXTRACT(EPOCH FROM v_window_started_at + INTERVAL '1 hour' - NOW()))::INTEGER;
+    RETURN;
+  END IF;
+
+  UPDATE otp_challenges
+  SET code_hash = p_code_hash,
+      expires_at = NOW() + INTERVAL '5 minutes',
+      failed_attempts = 0,
+      locked_until = NULL,
+      last_sent_at = NOW(),
+      send_window_started_at = v_window_started_at,
+      sends_in_window = v_sends + 1
+  WHERE email = p_email;
+
+  RETURN QUERY SELECT TRUE, NULL::TEXT, 60;
+END;
+$$;
+
+-- Check a code. A match uses it up; a miss counts towards the lockout.
+CREATE OR REPLACE FUNCTION verify_otp_challenge(p_email TEXT, p_code_hash TEXT)
+RETURNS TABLE (verified BOOLEAN, reason TEXT, attempts_left INTEGER, retry_after_seconds INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_challenge otp_challenges%ROWTYPE;
+BEGIN
+  SELECT * INTO v_challenge FROM otp_challenges WHERE email = p_email FOR UPDATE;
+
+  IF v_challenge.locked_until > NOW() THEN
+    RETURN QUERY SELECT FALSE, 'locked', 0, CEIL(EXTRACT(EPOCH FROM v_challenge.locked_until - NOW()))::INTEGER;
+    RETURN;
+  END IF;
+
+  IF NOT FOUND OR v_challenge.code_hash IS NULL THEN
+    RETURN QUERY SELECT FALSE, 'no_code', NULL::INTEGER, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  IF v_challenge.expires_at < NOW() THEN
+    UPDATE otp_challenges SET code_hash = NULL WHERE email = p_email;
+    RETURN QUERY SELECT FALSE, 'expired', NULL::INTEGER, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  IF v_challenge.code_hash = p_code_hash THEN
+    UPDATE otp_challenges SET code_hash = NULL, failed_attempts = 0 WHERE email = p_email;
+    RETURN QUERY SELECT TRUE, NULL::TEXT, NULL::INTEGER, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  IF v_challenge.failed_attempts + 1 >= 5 THEN
+    UPDATE otp_challenges
+    SET code_hash = NULL,
+        failed_attempts = 0,
+        locked_until = NOW() + INTERVAL '15 minutes'
+    WHERE email = p_email;
+    RETURN QUERY SELECT FALSE, 'locked', 0, 15 * 60;
+    RETURN;
+  END IF;
+
+  UPDATE otp_challenges SET failed_attempts = failed_attempts + 1 WHERE email = p_email;
+  RETURN QUERY SELECT FALSE, 'invalid', 5 - (v_challenge.failed_attempts + 1), NULL::INTEGER;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION issue_otp_challenge(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION verify_otp_challenge(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,299 @@
+-- ============================================
+-- SERVICE PACKAGES & BUNDLES
+-- ============================================
+-- A package is sold per branch at one price and covers a set of services:
+-- a bundle ("Bridal Package": hair, makeup and nails) or a prepaid pack
+-- ("5 blowouts"). Clients buy a package, then book covered services against
+-- it via bookings.client_package_id. A use is redeemed when that booking is
+-- completed, whoever marks it so.
+-- Safe to run more than once.
+
+CREATE TABLE IF NOT EXISTS service_packages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  kind TEXT NOT NULL DEFAULT 'bundle' CHECK (kind IN ('bundle', 'prepaid')),
+  price NUMERIC(10, 2) NOT NULL CHECK (price >= 0),
+  validity_days INT CHECK (validity_days IS NULL OR validity_days > 0), -- NULL = never expires
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_packages_org ON service_packages(organization_id, is_active);
+CREATE INDEX IF NOT EXISTS idx_service_packages_shop ON service_packages(shop_id) WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS service_package_items (
+  package_id UUID NOT NULL REFERENCES service_packages(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+  quantity INT NOT NULL DEFAULT 1 CHECK (quantity BETWEEN 1 AND 50),
+  PRIMARY KEY (package_id, service_id)
+);
+
+CREATE TABLE IF NOT EXISTS client_packages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  package_id UUID NOT NULL REFERENCES service_packages(id) ON DELETE RESTRICT,
+  client_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  price_paid NUMERIC(10, 2) NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'used_up', 'expired', 'cancelled')),
+  purchased_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_packages_client ON client_packages(client_id, status);
+CREATE INDEX IF NOT EXISTS idx_client_packages_org ON client_packages(organization_id, purchased_at DESC);
+
+CREATE TABLE IF NOT EXISTS package_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_package_id UUID NOT NULL REFERENCES client_packages(id) ON DELETE CASCADE,
+  booking_id BIGINT NOT NULL UNIQUE REFERENCES bookings(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+  redeemed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  redeemed_by UUID REFERENCES profiles(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_package_redemptions_package ON package_redemptions(client_package_id);
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS client_package_id UUID REFERENCES client_packages(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_bookings_client_package ON bookings(client_package_id) WHERE client_package_id IS NOT NULL;
+
+ALTER TABLE service_packages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE service_package_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE client_packages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE package_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can browse active packages; buyers and org members also see retired ones
+DROP POLICY IF EXISTS "View service packages" ON service_packages;
+CREATE POLICY "View service packages"
+  ON service_packages FOR SELECT
+  USING (
+    is_active
+    OR EXISTS (
+      SELECT 1 FROM client_packages cp
+      WHERE cp.package_id = service_packages.id
+        AND cp.client_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = service_packages.organization_id
+        AND p.role IN ('admin', 'manager', 'staff')
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins manage service packages" ON service_packages;
+CREATE POLICY "Admins manage service packages"
+  ON service_packages FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = service_packages.organization_id
+        AND p.role IN ('admin', 'manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = service_packages.organization_id
+        AND p.role IN ('admin', 'manager')
+    )
+  );
+
+DROP POLICY IF EXISTS "View service package items" ON service_package_items;
+CREATE POLICY "View service package items"
+  ON service_package_items FOR SELECT
+  USING (EXISTS (SELECT 1 FROM service_packages sp WHERE sp.id = service_package_items.package_id));
+
+DROP POLICY IF EXISTS "Admins manage service package items" ON service_package_items;
+CREATE POLICY "Admins manage service package items"
+  ON service_package_items FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM service_packages sp
+      JOIN profiles p ON p.organization_id = sp.organization_id
+      WHERE sp.id = service_package_items.package_id
+        AND p.id = auth.uid()
+        AND p.role IN ('admin', 'manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM service_packages sp
+      JOIN profiles p ON p.organization_id = sp.organization_id
+      WHERE sp.id = service_package_items.package_id
+        AND p.id = auth.uid()
+        AND p.role IN ('admin', 'manager')
+    )
+  );
+
+-- Purchases go through purchase_service_package() so the price can't be set by the client
+DROP POLICY IF EXISTS "View client packages" ON client_packages;
+CREATE POLICY "View client packages"
+  ON client_packages FOR SELECT
+  USING (
+    client_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = client_packages.organization_id
+        AND p.role IN ('admin', 'manager', 'staff')
+    )
+  );
+
+DROP POLICY IF EXISTS "View package redemptions" ON package_redemptions;
+CREATE POLICY "View package redemptions"
+  ON package_redemptions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM client_packages cp
+      WHERE cp.id = package_redemptions.client_package_id
+    )
+  );
+
+-- Buy a package for the signed-in client at its current price
+CREATE OR REPLACE FUNCTION purchase_service_package(p_package_id UUID)
+RETURNS client_packages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_package service_packages%ROWTYPE;
+  v_row client_packages%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED';
+  END IF;
+
+  SELECT * INTO v_package FROM service_packages WHERE id = p_package_id AND is_active;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PACKAGE_NOT_AVAILABLE: This package is no longer on sale';
+  END IF;
+
+  INSERT INTO client_packages (package_id, client_id, organization_id, shop_id, price_paid, expires_at)
+  VALUES (
+    v_package.id,
+    auth.uid(),
+    v_package.organization_id,
+    v_package.shop_id,
+    v_package.price,
+    CASE WHEN v_package.validity_days IS NULL THEN NULL
+         ELSE NOW() + make_interval(days => v_package.validity_days) END
+  )
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$;
+
+-- A booking may only draw on the client's own, unexpired package, for a
+-- service it covers, while uses remain. Pending and confirmed bookings hold
+-- a use so a 5-pack can't be booked six times.
+CREATE OR REPLACE FUNCTION check_booking_client_package()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_package client_packages%ROWTYPE;
+  v_quantity INT;
+  v_used INT;
+BEGIN
+  IF NEW.client_package_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE'
+     AND NEW.client_package_id IS NOT DISTINCT FROM OLD.client_package_id
+     AND NEW.service_id IS NOT DISTINCT FROM OLD.service_id
+     AND NEW.start_at IS NOT DISTINCT FROM OLD.start_at THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_package FROM client_packages WHERE id = NEW.client_package_id;
+  IF NOT FOUND OR v_package.client_id <> NEW.client_id OR v_package.status <> 'active' THEN
+    RAISE EXCEPTION 'PACKAGE_NOT_USABLE: This package is not active';
+  END IF;
+  IF v_package.expires_at IS NOT NULL AND NEW.start_at > v_package.expires_at THEN
+    RAISE EXCEPTION 'PACKAGE_NOT_USABLE: This package expires before the appointment';
+  END IF;
+
+  SELECT i.quantity INTO v_quantity
+  FROM service_package_items i
+  WHERE i.package_id = v_package.package_id AND i.service_id = NEW.service_id;
+  IF v_quantity IS NULL THEN
+    RAISE EXCEPTION 'PACKAGE_NOT_USABLE: This package does not include the service';
+  END IF;
+
+  SELECT COUNT(*) INTO v_used
+  FROM bookings b
+  WHERE b.client_package_id = v_package.id
+    AND b.service_id = NEW.service_id
+    AND b.status IN ('pending', 'confirmed', 'completed')
+    AND b.id IS DISTINCT FROM NEW.id;
+  IF v_used >= v_quantity THEN
+    RAISE EXCEPTION 'PACKAGE_NOT_USABLE: No uses left for this service';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_check_client_package ON bookings;
+CREATE TRIGGER bookings_check_client_package
+  BEFORE INSERT OR UPDATE OF client_package_id, service_id, start_at ON bookings
+  FOR EACH ROW EXECUTE FUNCTION check_booking_client_package();
+
+-- Redeem a use when a package booking is completed (and give it back if the
+-- booking is moved off completed), then keep the package status in step.
+CREATE OR REPLACE FUNCTION redeem_booking_client_package()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_package_id UUID := COALESCE(NEW.client_package_id, OLD.client_package_id);
+  v_remaining INT;
+BEGIN
+  IF v_package_id IS NULL OR NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'completed' AND NEW.client_package_id IS NOT NULL THEN
+    INSERT INTO package_redemptions (client_package_id, booking_id, service_id, redeemed_by)
+    VALUES (NEW.client_package_id, NEW.id, NEW.service_id, auth.uid())
+    ON CONFLICT (booking_id) DO NOTHING;
+  ELSIF OLD.status = 'completed' THEN
+    DELETE FROM package_redemptions WHERE booking_id = NEW.id;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(SUM(i.quantity), 0) - (
+           SELECT COUNT(*) FROM package_redemptions r WHERE r.client_package_id = cp.id
+         )
+  INTO v_remaining
+  FROM client_packages cp
+  JOIN service_package_items i ON i.package_id = cp.package_id
+  WHERE cp.id = v_package_id
+  GROUP BY cp.id;
+
+  UPDATE client_packages
+  SET status = CASE WHEN v_remaining <= 0 THEN 'used_up' ELSE 'active' END
+  WHERE id = v_package_id AND status IN ('active', 'used_up');
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_redeem_client_package ON bookings;
+CREATE TRIGGER bookings_redeem_client_package
+  AFTER UPDATE OF status ON bookings
+  FOR EACH ROW EXECUTE FUNCTION redeem_booking_client_package();
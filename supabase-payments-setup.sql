@@ -0,0 +1,209 @@
+-- ============================================
+-- PAYMENTS: PROVIDER INTENTS, WEBHOOKS & REFUNDS
+-- ============================================
+-- Booking and subscription payments share the `payments` table. The app
+-- creates a pending row tied to a provider intent; after that the status only
+-- moves when apply_payment_event() records a provider webhook:
+--   pending -> processing -> completed -> refunded
+--   pending/processing -> failed | cancelled
+-- Repeat deliveries of the same webhook are ignored via payment_events.
+-- The mock gateway settles payments from the browser, so it is off unless the
+-- database opts in (development only):
+--   ALTER DATABASE postgres SET app.mock_payments = 'on';
+-- Run after supabase-permissions-setup.sql. Safe to run more than once.
+
+ALTER TABLE payments ALTER COLUMN subscription_id DROP NOT NULL;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS booking_id BIGINT REFERENCES bookings(id) ON DELETE SET NULL;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS provider_intent_id TEXT;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS failure_reason TEXT;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_status_check;
+ALTER TABLE payments ADD CONSTRAINT payments_status_check
+  CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'refunded', 'cancelled'));
+
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_refund_within_amount;
+ALTER TABLE payments ADD CONSTRAINT payments_refund_within_amount
+  CHECK (refunded_amount >= 0 AND refunded_amount <= amount);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_provider_intent
+  ON payments(payment_provider, provider_intent_id)
+  WHERE provider_intent_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_payments_booking ON payments(booking_id) WHERE booking_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_payments_org ON payments(organization_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS payment_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  payment_id UUID REFERENCES payments(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  amount NUMERIC(10, 2),
+  payload JSONB,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (provider, event_id)
+);
+
+-- Reject status changes that skip or reverse a step
+CREATE OR REPLACE FUNCTION enforce_payment_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('processing', 'completed', 'failed', 'cancelled'))
+    OR (OLD.status = 'processing' AND NEW.status IN ('completed', 'failed', 'cancelled'))
+    OR (OLD.status = 'completed' AND NEW.status = 'refunded')
+  ) THEN
+    RAISE EXCEPTION 'INVALID_PAYMENT_TRANSITION: % -> %', OLD.status, NEW.status;
+  END IF;
+
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS payments_status_transition ON payments;
+CREATE TRIGGER payments_status_transition
+  BEFORE UPDATE OF status ON payments
+  FOR EACH ROW EXECUTE FUNCTION enforce_payment_status_transition();
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users view their own payments" ON payments;
+CREATE POLICY "Users view their own payments"
+  ON payments FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Org admins view booking payments" ON payments;
+CREATE POLICY "Org admins view booking payments"
+  ON payments FOR SELECT
+  USING (
+    has_permission(payments.organization_id, 'analytics.view_revenue')
+    OR has_permission(payments.organization_id, 'bookings.refund')
+  );
+
+-- Whether mock payments may be opened and settled (see the note at the top)
+CREATE OR REPLACE FUNCTION mock_payments_enabled()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(current_setting('app.mock_payments', true), '') = 'on';
+$$;
+
+-- Whether a payment from this provider reaching `completed` means money really
+-- arrived: hosted providers are only settled by the payment-webhook function
+-- (service role), and mock payments only count while they are enabled
+CREATE OR REPLACE FUNCTION payment_settlement_trusted(p_provider TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(auth.role(), '') = 'service_role'
+    OR (p_provider IS NOT NULL AND p_provider NOT IN ('mock', 'gift_card'))
+    OR (p_provider = 'mock' AND mock_payments_enabled());
+$$;
+
+-- Users open payments for themselves; only apply_payment_event() moves them on.
+-- Gift card payments are only created by redeem_gift_card_for_bookings().
+DROP POLICY IF EXISTS "Users create pending payments" ON payments;
+CREATE POLICY "Users create pending payments"
+  ON payments FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND status = 'pending'
+    AND refunded_amount = 0
+    AND payment_provider IS NOT NULL
+    AND payment_provider <> 'gift_card'
+    AND (payment_provider <> 'mock' OR mock_payments_enabled())
+  );
+
+-- Record a provider webhook and move the payment along. Hosted providers are
+-- applied by the payment-webhook edge function (service role) after it checks
+-- the signature. Mock events are applied from the browser by the payer, or by
+-- someone with bookings.refund for refunds, and only while mock payments are
+-- enabled; they never involve real money.
+CREATE OR REPLACE FUNCTION apply_payment_event(
+  p_provider TEXT,
+  p_event_id TEXT,
+  p_type TEXT,
+  p_intent_id TEXT,
+  p_amount NUMERIC,
+  p_failure_reason TEXT DEFAULT NULL,
+  p_payload JSONB DEFAULT NULL
+)
+RETURNS payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment payments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_payment
+  FROM payments
+  WHERE payment_provider = p_provider AND provider_intent_id = p_intent_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PAYMENT_NOT_FOUND: %', p_intent_id;
+  END IF;
+
+  IF p_provider = 'mock' AND NOT mock_payments_enabled() THEN
+    RAISE EXCEPTION 'MOCK_PAYMENTS_DISABLED';
+  END IF;
+
+  IF COALESCE(auth.role(), '') <> 'service_role' THEN
+    IF p_provider <> 'mock' THEN
+      RAISE EXCEPTION 'PAYMENT_EVENT_FORBIDDEN';
+    END IF;
+    IF v_payment.user_id <> auth.uid() AND NOT has_permission(v_payment.organization_id, 'bookings.refund') THEN
+      RAISE EXCEPTION 'PAYMENT_EVENT_FORBIDDEN';
+    END IF;
+  END IF;
+
+  INSERT INTO payment_events (provider, event_id, payment_id, type, amount, payload)
+  VALUES (p_provider, p_event_id, v_payment.id, p_type, p_amount, p_payload)
+  ON CONFLICT (provider, event_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN v_payment; -- Already applied
+  END IF;
+
+  -- Late or out-of-order events are recorded but don't move a settled payment
+  IF p_type = 'payment.processing' AND v_payment.status = 'pending' THEN
+    UPDATE payments SET status = 'processing'
+    WHERE id = v_payment.id
+    RETURNING * INTO v_payment;
+  ELSIF p_type = 'payment.succeeded' AND v_payment.status IN ('pending', 'processing') THEN
+    UPDATE payments
+    SET status = 'completed', transaction_id = COALESCE(transaction_id, p_intent_id), processed_at = NOW()
+    WHERE id = v_payment.id
+    RETURNING * INTO v_payment;
+  ELSIF p_type = 'payment.failed' AND v_payment.status IN ('pending', 'processing') THEN
+    UPDATE payments
+    SET status = 'failed', failure_reason = COALESCE(p_failure_reason, 'payment_failed'), processed_at = NOW()
+    WHERE id = v_payment.id
+    RETURNING * INTO v_payment;
+  ELSIF p_type = 'refund.succeeded' AND v_payment.status = 'completed' THEN
+    UPDATE payments
+    SET refunded_amount = LEAST(amount, refunded_amount + p_amount),
+        status = CASE WHEN refunded_amount + p_amount >= amount THEN 'refunded' ELSE status END,
+        updated_at = NOW()
+    WHERE id = v_payment.id
+    RETURNING * INTO v_payment;
+  ELSIF p_type NOT IN ('payment.processing', 'payment.succeeded', 'payment.failed', 'refund.succeeded') THEN
+    RAISE EXCEPTION 'UNKNOWN_PAYMENT_EVENT: %', p_type;
+  END IF;
+
+  RETURN v_payment;
+END;
+$$;
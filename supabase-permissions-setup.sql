@@ -0,0 +1,141 @@
+-- ============================================
+-- ROLE PERMISSIONS
+-- ============================================
+-- Fine-grained permissions on top of the admin/manager/staff roles. Each
+-- organization can change what managers and staff may do; admins always have
+-- every permission so nobody can lock the salon out. Organizations that
+-- haven't customized a role get default_role_permissions(), which matches
+-- what managers could already do before permissions existed.
+-- has_permission() is used by the policies and functions that guard refunds,
+-- checkout, payments, prices, staff and the audit log (see the end of this
+-- file, and the gift cards, checkout, payments, commission, staff invites and
+-- audit log setups).
+-- Safe to run more than once.
+
+CREATE TABLE IF NOT EXISTS organization_role_permissions (
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('manager', 'staff')),
+  permissions TEXT[] NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (organization_id, role)
+);
+
+-- Mirror DEFAULT_ROLE_PERMISSIONS in src/utils/permissions.ts
+CREATE OR REPLACE FUNCTION default_role_permissions(p_role TEXT)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_role
+    WHEN 'admin' THEN ARRAY['bookings.refund', 'bookings.checkout', 'staff.manage', 'analytics.view_revenue', 'services.edit_price', 'permissions.manage', 'audit.view']
+    WHEN 'manager' THEN ARRAY['bookings.refund', 'bookings.checkout', 'staff.manage', 'analytics.view_revenue', 'services.edit_price']
+    WHEN 'staff' THEN ARRAY['bookings.checkout']
+    ELSE ARRAY[]::TEXT[]
+  END;
+$$;
+
+-- Whether a user has a permission in an organization, by their role there
+CREATE OR REPLACE FUNCTION user_has_permission(p_user_id UUID, p_organization_id UUID, p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role TEXT;
+  v_permissions TEXT[];
+BEGIN
+  SELECT role INTO v_role
+  FROM profiles
+  WHERE id = p_user_id AND organization_id = p_organization_id;
+
+  IF v_role IS NULL OR v_role NOT IN ('admin', 'manager', 'staff') THEN
+    RETURN FALSE;
+  END IF;
+  IF v_role = 'admin' THEN
+    RETURN TRUE;
+  END IF;
+
+  SELECT permissions INTO v_permissions
+  FROM organization_role_permissions
+  WHERE organization_id = p_organization_id AND role = v_role;
+
+  RETURN p_permission = ANY(COALESCE(v_permissions, default_role_permissions(v_role)));
+END;
+$$;
+
+-- The signed-in user's check, for policies and functions
+CREATE OR REPLACE FUNCTION has_permission(p_organization_id UUID, p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_has_permission(auth.uid(), p_organization_id, p_permission);
+$$;
+
+-- Everything the signed-in user may do in an organization
+CREATE OR REPLACE FUNCTION get_my_permissions(p_organization_id UUID)
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(ARRAY_AGG(permission), ARRAY[]::TEXT[])
+  FROM unnest(default_role_permissions('admin')) AS permission
+  WHERE user_has_permission(auth.uid(), p_organization_id, permission);
+$$;
+
+-- Other users' permissions are only checked by the service role
+REVOKE EXECUTE ON FUNCTION user_has_permission(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+ALTER TABLE organization_role_permissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members view role permissions" ON organization_role_permissions;
+CREATE POLICY "Org members view role permissions"
+  ON organization_role_permissions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = organization_role_permissions.organization_id
+    )
+  );
+
+DROP POLICY IF EXISTS "Permission managers edit role permissions" ON organization_role_permissions;
+CREATE POLICY "Permission managers edit role permissions"
+  ON organization_role_permissions FOR ALL
+  USING (has_permission(organization_id, 'permissions.manage'))
+  WITH CHECK (
+    has_permission(organization_id, 'permissions.manage')
+    AND permissions <@ default_role_permissions('admin')
+  );
+
+-- Setting a price, on a new service or an existing one, needs
+-- services.edit_price. The rest of a service can still be edited by anyone
+-- the services policies allow.
+CREATE OR REPLACE FUNCTION guard_service_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (TG_OP = 'INSERT' OR NEW.price IS DISTINCT FROM OLD.price)
+    AND auth.uid() IS NOT NULL
+    AND NOT has_permission((SELECT organization_id FROM shops WHERE id = NEW.shop_id), 'services.edit_price')
+  THEN
+    RAISE EXCEPTION 'PERMISSION_DENIED: services.edit_price';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS services_guard_price ON services;
+CREATE TRIGGER services_guard_price
+  BEFORE INSERT OR UPDATE OF price ON services
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_service_price();
@@ -0,0 +1,341 @@
+-- ============================================
+-- PROMOTIONS & PROMO CODES
+-- ============================================
+-- A promotion is a code clients enter when booking, worth a percentage or a
+-- fixed amount off. It can be limited to some services or categories, to a
+-- client's first visit, to a validity window, and to a number of uses
+-- overall and per client. Redeeming a code records the discount on each
+-- booking (bookings.discount_amount), which comes off online payments and is
+-- filled in at checkout. Cancelled bookings give their use back. Run after
+-- supabase-deposits-setup.sql and before supabase-gift-cards-setup.sql.
+-- Safe to run more than once.
+
+CREATE TABLE IF NOT EXISTS promotions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  code TEXT NOT NULL CHECK (code = upper(code) AND code ~ '^[A-Z0-9_-]{3,20}$'),
+  title TEXT NOT NULL,
+  description TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value NUMERIC(10, 2) NOT NULL CHECK (discount_value > 0),
+  scope TEXT NOT NULL DEFAULT 'all' CHECK (scope IN ('all', 'services', 'category')),
+  service_ids UUID[] NOT NULL DEFAULT '{}', -- When scope = 'services'
+  categories TEXT[] NOT NULL DEFAULT '{}', -- When scope = 'category'
+  first_visit_only BOOLEAN NOT NULL DEFAULT FALSE,
+  max_uses INTEGER CHECK (max_uses > 0), -- NULL = unlimited
+  max_uses_per_client INTEGER CHECK (max_uses_per_client > 0),
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (organization_id, code),
+  CHECK (discount_type <> 'percentage' OR discount_value <= 100),
+  CHECK (starts_at IS NULL OR ends_at IS NULL OR starts_at < ends_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotions_org ON promotions(organization_id, created_at DESC);
+
+-- One row per discounted booking. Rows outlive the booking (booking_id is
+-- cleared), so clients can't free up a use by deleting their bookings.
+CREATE TABLE IF NOT EXISTS promotion_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  promotion_id UUID NOT NULL REFERENCES promotions(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  client_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  booking_id BIGINT UNIQUE REFERENCES bookings(id) ON DELETE SET NULL,
+  discount_amount NUMERIC(10, 2) NOT NULL CHECK (discount_amount >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Older installs removed redemptions along with their booking
+ALTER TABLE promotion_redemptions ALTER COLUMN booking_id DROP NOT NULL;
+ALTER TABLE promotion_redemptions DROP CONSTRAINT IF EXISTS promotion_redemptions_booking_id_fkey;
+ALTER TABLE promotion_redemptions ADD CONSTRAINT promotion_redemptions_booking_id_fkey
+  FOREIGN KEY (booking_id) REFERENCES bookings(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_promotion_redemptions_promotion ON promotion_redemptions(promotion_id, client_id);
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS promotion_id UUID REFERENCES promotions(id) ON DELETE SET NULL;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS discount_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE promotions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promotion_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Codes are looked up through preview_promotion(), so clients never list
+-- them. Staff can see them to explain a discount at checkout.
+DROP POLICY IF EXISTS "Org staff view promotions" ON promotions;
+CREATE POLICY "Org staff view promotions"
+  ON promotions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = promotions.organization_id
+        AND p.role = 'staff'
+    )
+  );
+
+DROP POLICY IF EXISTS "Org admins manage promotions" ON promotions;
+CREATE POLICY "Org admins manage promotions"
+  ON promotions FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = promotions.organization_id
+        AND p.role IN ('admin', 'manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = promotions.organization_id
+        AND p.role IN ('admin', 'manager')
+    )
+  );
+
+DROP POLICY IF EXISTS "View promotion redemptions" ON promotion_redemptions;
+CREATE POLICY "View promotion redemptions"
+  ON promotion_redemptions FOR SELECT
+  USING (
+    client_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = promotion_redemptions.organization_id
+        AND p.role IN ('admin', 'manager', 'staff')
+    )
+  );
+
+-- Clients can't set their own discount; only redeem_promotion() (running as
+-- the table owner) does
+CREATE OR REPLACE FUNCTION guard_booking_discount()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.promotion_id := NULL;
+    NEW.discount_amount := 0;
+  ELSIF NEW.promotion_id IS DISTINCT FROM OLD.promotion_id
+    OR NEW.discount_amount IS DISTINCT FROM OLD.discount_amount THEN
+    RAISE EXCEPTION 'PROMO_INVALID: Discounts are applied with a promo code';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_guard_discount ON bookings;
+CREATE TRIGGER bookings_guard_discount
+  BEFORE INSERT OR UPDATE ON bookings
+  FOR EACH ROW EXECUTE FUNCTION guard_booking_discount();
+
+-- Uses that still count: the booking wasn't cancelled (a deleted booking's
+-- use still counts)
+CREATE OR REPLACE FUNCTION count_promotion_uses(p_promotion_id UUID, p_client_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM promotion_redemptions r
+  LEFT JOIN bookings b ON b.id = r.booking_id
+  WHERE r.promotion_id = p_promotion_id
+    AND b.status IS DISTINCT FROM 'cancelled'
+    AND (p_client_id IS NULL OR r.client_id = p_client_id);
+$$;
+
+-- Check a code for one booking of a service by the caller and return the
+-- promotion with the discount it gives. Raises PROMO_INVALID with the reason.
+-- p_exclude_booking_ids are the caller's bookings being redeemed right now,
+-- which don't count as earlier visits.
+CREATE OR REPLACE FUNCTION check_promotion(
+  p_code TEXT,
+  p_service_id UUID,
+  p_exclude_booking_ids BIGINT[] DEFAULT '{}'
+)
+RETURNS promotions
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_service RECORD;
+  v_promotion promotions%ROWTYPE;
+BEGIN
+  SELECT s.id, s.category, sh.organization_id INTO v_service
+  FROM services s
+  JOIN shops sh ON sh.id = s.shop_id
+  WHERE s.id = p_service_id;
+
+  SELECT * INTO v_promotion
+  FROM promotions
+  WHERE organization_id = v_service.organization_id
+    AND code = upper(trim(COALESCE(p_code, '')));
+
+  IF NOT FOUND OR NOT v_promotion.is_active THEN
+    RAISE EXCEPTION 'PROMO_INVALID: That promo code isn''t valid at this salon';
+  END IF;
+  IF v_promotion.starts_at IS NOT NULL AND v_promotion.starts_at > NOW() THEN
+    RAISE EXCEPTION 'PROMO_INVALID: This promo starts on %', to_char(v_promotion.starts_at, 'Mon DD, YYYY');
+  END IF;
+  IF v_promotion.ends_at IS NOT NULL AND v_promotion.ends_at < NOW() THEN
+    RAISE EXCEPTION 'PROMO_INVALID: This promo has ended';
+  END IF;
+  IF v_promotion.scope = 'services' AND NOT (p_service_id = ANY(v_promotion.service_ids)) THEN
+    RAISE EXCEPTION 'PROMO_INVALID: This promo doesn''t cover this service';
+  END IF;
+  IF v_promotion.scope = 'category' AND NOT (COALESCE(v_service.category, '') = ANY(v_promotion.categories)) THEN
+    RAISE EXCEPTION 'PROMO_INVALID: This promo doesn''t cover this service';
+  END IF;
+  -- Any other booking that isn't cancelled (including ones still pending) is
+  -- a visit, and so is an earlier use of this promo, even on a booking that
+  -- was later cancelled or deleted
+  IF v_promotion.first_visit_only AND (
+    EXISTS (
+      SELECT 1 FROM bookings b
+      WHERE b.client_id = auth.uid()
+        AND b.organization_id = v_promotion.organization_id
+        AND b.status <> 'cancelled'
+        AND NOT (b.id = ANY(p_exclude_booking_ids))
+    )
+    OR EXISTS (
+      SELECT 1 FROM promotion_redemptions r
+      WHERE r.promotion_id = v_promotion.id
+        AND r.client_id = auth.uid()
+        AND (r.booking_id IS NULL OR NOT (r.booking_id = ANY(p_exclude_booking_ids)))
+    )
+  ) THEN
+    RAISE EXCEPTION 'PROMO_INVALID: This promo is for first visits only';
+  END IF;
+  IF v_promotion.max_uses IS NOT NULL AND count_promotion_uses(v_promotion.id) >= v_promotion.max_uses THEN
+    RAISE EXCEPTION 'PROMO_INVALID: This promo has been fully redeemed';
+  END IF;
+  IF v_promotion.max_uses_per_client IS NOT NULL
+    AND count_promotion_uses(v_promotion.id, auth.uid()) >= v_promotion.max_uses_per_client THEN
+    RAISE EXCEPTION 'PROMO_INVALID: You''ve already used this promo';
+  END IF;
+
+  RETURN v_promotion;
+END;
+$$;
+
+-- What a code would take off one booking of a service, for the booking screen
+CREATE OR REPLACE FUNCTION preview_promotion(p_code TEXT, p_service_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_promotion promotions%ROWTYPE;
+  v_price NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'PROMO_INVALID: Please sign in to use a promo code';
+  END IF;
+
+  v_promotion := check_promotion(p_code, p_service_id);
+  SELECT COALESCE(price, 0) INTO v_price FROM services WHERE id = p_service_id;
+
+  RETURN jsonb_build_object(
+    'promotion_id', v_promotion.id,
+    'code', v_promotion.code,
+    'title', v_promotion.title,
+    'first_visit_only', v_promotion.first_visit_only,
+    'discount_amount', CASE
+      WHEN v_promotion.discount_type = 'percentage' THEN ROUND(v_price * v_promotion.discount_value / 100, 2)
+      ELSE LEAST(v_promotion.discount_value, v_price)
+    END
+  );
+END;
+$$;
+
+-- Apply a code to the caller's new bookings, earliest first. First-visit
+-- promotions only discount the earliest booking, and usage limits stop the
+-- discount once they're reached. The promotion row is locked so two clients
+-- can't both take the last use. Returns the bookings that were discounted.
+CREATE OR REPLACE FUNCTION redeem_promotion(p_code TEXT, p_booking_ids BIGINT[])
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking RECORD;
+  v_promotion promotions%ROWTYPE;
+  v_discount NUMERIC;
+  v_total NUMERIC := 0;
+  v_redeemed BIGINT[] := '{}';
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM bookings b
+    WHERE b.id = ANY(p_booking_ids)
+      AND (b.client_id IS DISTINCT FROM auth.uid() OR b.status NOT IN ('pending', 'confirmed') OR b.promotion_id IS NOT NULL)
+  ) THEN
+    RAISE EXCEPTION 'PROMO_INVALID: A promo code can only be added to your own new bookings';
+  END IF;
+
+  FOR v_booking IN
+    SELECT b.*, COALESCE(s.price, 0) AS service_price
+    FROM bookings b
+    JOIN services s ON s.id = b.service_id
+    WHERE b.id = ANY(p_booking_ids)
+      AND b.client_package_id IS NULL -- Already paid for
+    ORDER BY b.start_at
+    FOR UPDATE OF b
+  LOOP
+    -- Lock before checking the limits so concurrent redemptions queue up
+    PERFORM 1 FROM promotions
+    WHERE code = upper(trim(COALESCE(p_code, ''))) AND organization_id = v_booking.organization_id
+    FOR UPDATE;
+
+    BEGIN
+      v_promotion := check_promotion(p_code, v_booking.service_id, p_booking_ids);
+    EXCEPTION WHEN OTHERS THEN
+      -- Nothing redeemed yet: report why. Otherwise the limits were reached part way.
+      IF array_length(v_redeemed, 1) IS NULL THEN
+        RAISE;
+      END IF;
+      EXIT;
+    END;
+
+    v_discount := CASE
+      WHEN v_promotion.discount_type = 'percentage' THEN ROUND(v_booking.service_price * v_promotion.discount_value / 100, 2)
+      ELSE LEAST(v_promotion.discount_value, v_booking.service_price)
+    END;
+
+    UPDATE bookings
+    SET promotion_id = v_promotion.id,
+        discount_amount = discount_amount + v_discount,
+        -- The deposit can't be more than the discounted price
+        deposit_amount = LEAST(deposit_amount, v_booking.service_price - v_booking.discount_amount - v_discount)
+    WHERE id = v_booking.id;
+
+    INSERT INTO promotion_redemptions (promotion_id, organization_id, client_id, booking_id, discount_amount)
+    VALUES (v_promotion.id, v_promotion.organization_id, auth.uid(), v_booking.id, v_discount);
+
+    v_total := v_total + v_discount;
+    v_redeemed := v_redeemed || v_booking.id;
+
+    EXIT WHEN v_promotion.first_visit_only;
+  END LOOP;
+
+  IF array_length(v_redeemed, 1) IS NULL THEN
+    RAISE EXCEPTION 'PROMO_INVALID: This promo doesn''t apply to these bookings';
+  END IF;
+
+  RETURN jsonb_build_object('booking_ids', to_jsonb(v_redeemed), 'discount_amount', v_total);
+END;
+$$;
@@ -0,0 +1,65 @@
+-- ============================================
+-- RECURRING APPOINTMENTS
+-- ============================================
+-- A booking series records the repeat rule (weekly, biweekly or monthly,
+-- ending on a date or after a number of appointments). Each occurrence is a
+-- normal row in `bookings` linked by series_id, so availability, cancellation
+-- and reschedule rules apply to every occurrence on its own.
+-- Safe to run more than once.
+
+CREATE TABLE IF NOT EXISTS booking_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+  staff_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'biweekly', 'monthly')),
+  until_date DATE,
+  occurrence_count INT CHECK (occurrence_count IS NULL OR occurrence_count BETWEEN 2 AND 26),
+  first_start_at TIMESTAMPTZ NOT NULL,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT booking_series_has_end CHECK (until_date IS NOT NULL OR occurrence_count IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_series_client ON booking_series(client_id);
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES booking_series(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_bookings_series ON bookings(series_id, start_at) WHERE series_id IS NOT NULL;
+
+ALTER TABLE booking_series ENABLE ROW LEVEL SECURITY;
+
+-- Clients see their own series; org members see their org's
+DROP POLICY IF EXISTS "View booking series" ON booking_series;
+CREATE POLICY "View booking series"
+  ON booking_series FOR SELECT
+  USING (
+    client_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = booking_series.organization_id
+        AND p.role IN ('admin', 'manager', 'staff')
+    )
+  );
+
+-- Clients create series for themselves; admins and managers for any client
+DROP POLICY IF EXISTS "Create booking series" ON booking_series;
+CREATE POLICY "Create booking series"
+  ON booking_series FOR INSERT
+  WITH CHECK (
+    client_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = booking_series.organization_id
+        AND p.role IN ('admin', 'manager')
+    )
+  );
+
+-- Only the creator may remove a series (used to roll back a failed booking)
+DROP POLICY IF EXISTS "Delete own booking series" ON booking_series;
+CREATE POLICY "Delete own booking series"
+  ON booking_series FOR DELETE
+  USING (created_by = auth.uid());
@@ -0,0 +1,172 @@
+-- ============================================
+-- APPOINTMENT REMINDERS
+-- ============================================
+-- Each organization chooses when reminders go out (minutes before start_at),
+-- over which channels, and can override the built-in templates. The
+-- send-reminders edge function runs on a schedule, claims the reminders that
+-- are due with claim_due_reminders() and logs every delivery in
+-- booking_reminders. Each reminder carries confirm and cancel links, signed
+-- with the reminder id and expiring when the appointment starts; the
+-- reminder-response edge function acts on them, once per reminder. Safe to
+-- run more than once.
+
+-- Set when the client confirms from a reminder. Separate from status, which
+-- the salon (and the deposit rules) control.
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS client_confirmed_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS reminder_settings (
+  organization_id UUID PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  offsets_minutes INTEGER[] NOT NULL DEFAULT '{1440,120}',
+  channels TEXT[] NOT NULL DEFAULT '{email}',
+  -- NULL = the built-in template in send-reminders
+  email_subject TEXT,
+  email_template TEXT,
+  sms_template TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (channels <@ ARRAY['email', 'sms']::TEXT[]),
+  CHECK (0 < ALL (offsets_minutes))
+);
+
+CREATE TABLE IF NOT EXISTS booking_reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  booking_id BIGINT NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  booking_start_at TIMESTAMPTZ NOT NULL, -- A rescheduled booking is reminded again
+  offset_minutes INTEGER NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms')),
+  destination TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  error TEXT,
+  response TEXT CHECK (response IN ('confirmed', 'cancelled')),
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMPTZ,
+  UNIQUE (booking_id, booking_start_at, offset_minutes, channel)
+);
+
+-- Links are signed now (see send-reminders), so the old bearer token goes
+ALTER TABLE booking_reminders DROP COLUMN IF EXISTS action_token;
+
+CREATE INDEX IF NOT EXISTS idx_booking_reminders_org ON booking_reminders(organization_id, created_at DESC);
+
+-- Bookings still waiting for a reminder
+CREATE INDEX IF NOT EXISTS idx_bookings_upcoming_start
+  ON bookings(start_at)
+  WHERE status IN ('pending', 'confirmed');
+
+ALTER TABLE reminder_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE booking_reminders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org admins manage reminder settings" ON reminder_settings;
+CREATE POLICY "Org admins manage reminder settings"
+  ON reminder_settings FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = reminder_settings.organization_id
+        AND p.role IN ('admin', 'manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = reminder_settings.organization_id
+        AND p.role IN ('admin', 'manager')
+    )
+  );
+
+-- The log is written by the edge functions with the service role
+DROP POLICY IF EXISTS "Org admins view reminder log" ON booking_reminders;
+CREATE POLICY "Org admins view reminder log"
+  ON booking_reminders FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = booking_reminders.organization_id
+        AND p.role IN ('admin', 'manager')
+    )
+  );
+
+-- Log a pending reminder for every upcoming booking that has one due, and
+-- return them with what the message needs. Only the latest due offset is
+-- sent, so a missed 24-hour reminder isn't sent late next to the 2-hour one,
+-- and a booking made inside an offset skips it. Organizations without
+-- settings get the defaults. Clients without an address for a channel are
+-- left out.
+DROP FUNCTION IF EXISTS claim_due_reminders();
+CREATE OR REPLACE FUNCTION claim_due_reminders()
+RETURNS TABLE (
+  reminder_id UUID,
+  channel TEXT,
+  destination TEXT,
+  offset_minutes INTEGER,
+  start_at TIMESTAMPTZ,
+  client_name TEXT,
+  service_name TEXT,
+  shop_name TEXT,
+  email_subject TEXT,
+  email_template TEXT,
+  sms_template TEXT
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH due AS (
+    SELECT
+      b.id AS booking_id,
+      COALESCE(b.organization_id, sh.organization_id) AS organization_id,
+      b.start_at,
+      ch.channel,
+      MIN(o.offset_minutes) AS offset_minutes
+    FROM bookings b
+    JOIN shops sh ON sh.id = b.shop_id
+    LEFT JOIN reminder_settings rs ON rs.organization_id = COALESCE(b.organization_id, sh.organization_id)
+    CROSS JOIN LATERAL unnest(COALESCE(rs.offsets_minutes, '{1440,120}'::INTEGER[])) AS o(offset_minutes)
+    CROSS JOIN LATERAL unnest(COALESCE(rs.channels, '{email}'::TEXT[])) AS ch(channel)
+    WHERE b.status IN ('pending', 'confirmed')
+      AND COALESCE(rs.is_active, TRUE)
+      AND b.start_at > NOW()
+      AND b.start_at - make_interval(mins => o.offset_minutes) <= NOW()
+      AND b.created_at <= b.start_at - make_interval(mins => o.offset_minutes)
+    GROUP BY b.id, COALESCE(b.organization_id, sh.organization_id), b.start_at, ch.channel
+  ),
+  claimed AS (
+    INSERT INTO booking_reminders (organization_id, booking_id, booking_start_at, offset_minutes, channel, destination)
+    SELECT d.organization_id, d.booking_id, d.start_at, d.offset_minutes, d.channel, a.destination
+    FROM due d
+    JOIN bookings b ON b.id = d.booking_id
+    JOIN profiles p ON p.id = b.client_id
+    CROSS JOIN LATERAL (
+      SELECT NULLIF(TRIM(CASE WHEN d.channel = 'email' THEN p.email ELSE to_jsonb(p)->>'phone' END), '') AS destination
+    ) a
+    WHERE a.destination IS NOT NULL
+    ON CONFLICT (booking_id, booking_start_at, offset_minutes, channel) DO NOTHING
+    RETURNING *
+  )
+  SELECT
+    c.id,
+    c.channel,
+    c.destination,
+    c.offset_minutes,
+    c.booking_start_at,
+    p.name,
+    s.name,
+    sh.name,
+    rs.email_subject,
+    rs.email_template,
+    rs.sms_template
+  FROM claimed c
+  JOIN bookings b ON b.id = c.booking_id
+  LEFT JOIN profiles p ON p.id = b.client_id
+  LEFT JOIN services s ON s.id = b.service_id
+  LEFT JOIN shops sh ON sh.id = b.shop_id
+  LEFT JOIN reminder_settings rs ON rs.organization_id = c.organization_id;
+$$;
+
+-- Only the edge functions (service role) claim reminders
+REVOKE EXECUTE ON FUNCTION claim_due_reminders() FROM PUBLIC, anon, authenticated;
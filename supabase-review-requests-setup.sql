@@ -0,0 +1,256 @@
+-- ============================================
+-- POST-VISIT REVIEW REQUESTS
+-- ============================================
+-- When a booking is marked completed, a review request is scheduled for a
+-- configurable time later. The send-review-requests edge function sends the
+-- due ones with a signed link that opens the rating form without signing in
+-- (handled by the review-response edge function). Opens and ratings are
+-- tracked so response rates can be reported per shop and per staff member.
+-- Run after the ratings table exists. Safe to run more than once.
+
+CREATE TABLE IF NOT EXISTS review_settings (
+  organization_id UUID PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  delay_minutes INTEGER NOT NULL DEFAULT 120 CHECK (delay_minutes >= 0),
+  channel TEXT NOT NULL DEFAULT 'email' CHECK (channel IN ('email', 'sms')),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS review_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  booking_id BIGINT NOT NULL UNIQUE REFERENCES bookings(id) ON DELETE CASCADE,
+  client_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  shop_id UUID REFERENCES shops(id) ON DELETE SET NULL,
+  staff_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms')),
+  destination TEXT,
+  -- skipped = the visit was rated or un-completed before the request went out
+  status TEXT NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'sending', 'sent', 'failed', 'skipped')),
+  error TEXT,
+  send_after TIMESTAMPTZ NOT NULL,
+  sent_at TIMESTAMPTZ,
+  opened_at TIMESTAMPTZ,
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_requests_due ON review_requests(send_after) WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_review_requests_org ON review_requests(organization_id, created_at DESC);
+
+ALTER TABLE review_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE review_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org admins manage review settings" ON review_settings;
+CREATE POLICY "Org admins manage review settings"
+  ON review_settings FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = review_settings.organization_id
+        AND p.role IN ('admin', 'manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = review_settings.organization_id
+        AND p.role IN ('admin', 'manager')
+    )
+  );
+
+-- Requests are written by the trigger below and the edge functions
+DROP POLICY IF EXISTS "Org admins view review requests" ON review_requests;
+CREATE POLICY "Org admins view review requests"
+  ON review_requests FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = review_requests.organization_id
+        AND p.role IN ('admin', 'manager')
+    )
+  );
+
+-- Schedule a review request when a booking is completed. Organizations
+-- without settings get the defaults (email, 2 hours after).
+CREATE OR REPLACE FUNCTION schedule_review_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id UUID;
+  v_settings review_settings%ROWTYPE;
+BEGIN
+  IF NEW.status <> 'completed' OR OLD.status = 'completed' OR NEW.client_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_organization_id := COALESCE(NEW.organization_id, (SELECT organization_id FROM shops WHERE id = NEW.shop_id));
+  IF v_organization_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_settings FROM review_settings WHERE organization_id = v_organization_id;
+  IF FOUND AND NOT v_settings.is_active THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO review_requests (organization_id, booking_id, client_id, shop_id, staff_id, channel, send_after)
+  VALUES (
+    v_organization_id,
+    NEW.id,
+    NEW.client_id,
+    NEW.shop_id,
+    NEW.staff_id,
+    COALESCE(v_settings.channel, 'email'),
+    NOW() + make_interval(mins => COALESCE(v_settings.delay_minutes, 120))
+  )
+  ON CONFLICT (booking_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_schedule_review_request ON bookings;
+CREATE TRIGGER bookings_schedule_review_request
+  AFTER UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION schedule_review_request();
+
+-- A rating counts as a response however it was given (link or app)
+CREATE OR REPLACE FUNCTION mark_review_request_responded()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE review_requests
+  SET responded_at = NOW()
+  WHERE booking_id = NEW.booking_id
+    AND responded_at IS NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ratings_mark_review_request_responded ON ratings;
+CREATE TRIGGER ratings_mark_review_request_responded
+  AFTER INSERT OR UPDATE ON ratings
+  FOR EACH ROW
+  EXECUTE FUNCTION mark_review_request_responded();
+
+-- Claim the requests that are due and return what the message needs. Visits
+-- that were rated in the app or are no longer completed are skipped.
+CREATE OR REPLACE FUNCTION claim_due_review_requests()
+RETURNS TABLE (
+  request_id UUID,
+  channel TEXT,
+  destination TEXT,
+  client_name TEXT,
+  service_name TEXT,
+  shop_name TEXT,
+  staff_name TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  UPDATE review_requests rr
+  SET status = 'skipped'
+  FROM bookings b
+  WHERE b.id = rr.booking_id
+    AND rr.status = 'scheduled'
+    AND rr.send_after <= NOW()
+    AND (b.status <> 'completed' OR EXISTS (SELECT 1 FROM ratings r WHERE r.booking_id = rr.booking_id));
+
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE review_requests rr
+    SET status = 'sending'
+    WHERE rr.id IN (
+      SELECT id FROM review_requests
+      WHERE status = 'scheduled' AND send_after <= NOW()
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING rr.*
+  )
+  SELECT
+    c.id,
+    c.channel,
+    NULLIF(TRIM(CASE WHEN c.channel = 'email' THEN client.email ELSE to_jsonb(client)->>'phone' END), ''),
+    client.name,
+    s.name,
+    sh.name,
+    staff.name
+  FROM claimed c
+  JOIN bookings b ON b.id = c.booking_id
+  LEFT JOIN profiles client ON client.id = c.client_id
+  LEFT JOIN services s ON s.id = b.service_id
+  LEFT JOIN shops sh ON sh.id = c.shop_id
+  LEFT JOIN profiles staff ON staff.id = c.staff_id;
+END;
+$$;
+
+-- Only the edge functions (service role) claim requests
+REVOKE EXECUTE ON FUNCTION claim_due_review_requests() FROM PUBLIC, anon, authenticated;
+
+-- Sent, opened and rated counts with the average rating, per shop and per
+-- staff member. Visits without a staff member only count towards their shop.
+CREATE OR REPLACE FUNCTION get_review_request_stats(p_organization_id UUID)
+RETURNS TABLE (
+  group_by TEXT,
+  group_id UUID,
+  group_name TEXT,
+  sent INTEGER,
+  opened INTEGER,
+  responded INTEGER,
+  average_rating NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH requests AS (
+    SELECT rr.*, r.rating
+    FROM review_requests rr
+    LEFT JOIN LATERAL (
+      SELECT rating FROM ratings WHERE booking_id = rr.booking_id ORDER BY created_at DESC LIMIT 1
+    ) r ON TRUE
+    WHERE rr.organization_id = p_organization_id
+      AND rr.status = 'sent'
+      AND EXISTS (
+        SELECT 1 FROM profiles p
+        WHERE p.id = auth.uid()
+          AND p.organization_id = p_organization_id
+          AND p.role IN ('admin', 'manager')
+      )
+  )
+  SELECT 'shop', rq.shop_id, sh.name,
+    COUNT(*)::INTEGER,
+    COUNT(rq.opened_at)::INTEGER,
+    COUNT(rq.responded_at)::INTEGER,
+    ROUND(AVG(rq.rating), 1)
+  FROM requests rq
+  LEFT JOIN shops sh ON sh.id = rq.shop_id
+  WHERE rq.shop_id IS NOT NULL
+  GROUP BY rq.shop_id, sh.name
+  UNION ALL
+  SELECT 'staff', rq.staff_id, p.name,
+    COUNT(*)::INTEGER,
+    COUNT(rq.opened_at)::INTEGER,
+    COUNT(rq.responded_at)::INTEGER,
+    ROUND(AVG(rq.rating), 1)
+  FROM requests rq
+  LEFT JOIN profiles p ON p.id = rq.staff_id
+  WHERE rq.staff_id IS NOT NULL
+  GROUP BY rq.staff_id, p.name;
+$$;
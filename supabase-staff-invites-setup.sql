@@ -0,0 +1,44 @@
+-- ============================================
+-- STAFF INVITES
+-- ============================================
+-- Staff accounts are provisioned by the staff-invite edge function instead of
+-- the browser. Inviting creates the account without a password and an
+-- inactive (pending) organization membership, and emails a link that expires
+-- after 7 days. The invitee opens /invite, sets their own password and the
+-- membership becomes active with the chosen role. Only a hash of the link's
+-- token is stored. Inviting and viewing invites need staff.manage.
+-- Run after supabase-permissions-setup.sql. Safe to run more than once.
+
+CREATE TABLE IF NOT EXISTS staff_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  name TEXT,
+  phone TEXT,
+  role TEXT NOT NULL DEFAULT 'staff' CHECK (role IN ('admin', 'manager', 'staff')),
+  job_title TEXT,
+  -- FALSE when the email already had an account: they keep their password
+  is_new_user BOOLEAN NOT NULL DEFAULT TRUE,
+  token_hash TEXT NOT NULL UNIQUE,
+  invited_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  accepted_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_invites_org ON staff_invites(organization_id, created_at DESC);
+
+-- One open invite per person per organization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_staff_invites_open
+  ON staff_invites(organization_id, user_id)
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+ALTER TABLE staff_invites ENABLE ROW LEVEL SECURITY;
+
+-- Invites are written by the edge function (service role)
+DROP POLICY IF EXISTS "Org admins view staff invites" ON staff_invites;
+CREATE POLICY "Org admins view staff invites"
+  ON staff_invites FOR SELECT
+  USING (has_permission(staff_invites.organization_id, 'staff.manage'));
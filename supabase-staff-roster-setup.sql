@@ -0,0 +1,118 @@
+-- ============================================
+-- STAFF ROSTER & TIME OFF
+-- ============================================
+-- Recurring weekly shifts per staff member per branch, and time-off requests
+-- that staff submit and managers approve. Safe to run more than once.
+
+CREATE TABLE IF NOT EXISTS staff_shifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  staff_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  weekday TEXT NOT NULL CHECK (weekday IN ('sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat')),
+  start_time TEXT NOT NULL, -- "HH:mm"
+  end_time TEXT NOT NULL,   -- "HH:mm"
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT staff_shifts_time_order CHECK (end_time > start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_shifts_staff ON staff_shifts(staff_id);
+CREATE INDEX IF NOT EXISTS idx_staff_shifts_shop ON staff_shifts(shop_id, weekday);
+
+CREATE TABLE IF NOT EXISTS staff_time_off (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  staff_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT staff_time_off_date_order CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_time_off_staff ON staff_time_off(staff_id, end_date);
+
+ALTER TABLE staff_shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE staff_time_off ENABLE ROW LEVEL SECURITY;
+
+-- Shifts drive client-facing availability, so anyone can read them
+DROP POLICY IF EXISTS "Anyone can view staff shifts" ON staff_shifts;
+CREATE POLICY "Anyone can view staff shifts"
+  ON staff_shifts FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Org admins manage staff shifts" ON staff_shifts;
+CREATE POLICY "Org admins manage staff shifts"
+  ON staff_shifts FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM shops s
+      JOIN profiles p ON p.organization_id = s.organization_id
+      WHERE s.id = staff_shifts.shop_id
+        AND p.id = auth.uid()
+        AND p.role IN ('admin', 'manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM shops s
+      JOIN profiles p ON p.organization_id = s.organization_id
+      WHERE s.id = staff_shifts.shop_id
+        AND p.id = auth.uid()
+        AND p.role IN ('admin', 'manager')
+    )
+  );
+
+-- Approved time off also affects availability; readable like shifts
+DROP POLICY IF EXISTS "Anyone can view time off" ON staff_time_off;
+CREATE POLICY "Anyone can view time off"
+  ON staff_time_off FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Staff request their own time off" ON staff_time_off;
+CREATE POLICY "Staff request their own time off"
+  ON staff_time_off FOR INSERT
+  WITH CHECK (staff_id = auth.uid() AND status = 'pending');
+
+DROP POLICY IF EXISTS "Staff withdraw pending time off" ON staff_time_off;
+CREATE POLICY "Staff withdraw pending time off"
+  ON staff_time_off FOR DELETE
+  USING (staff_id = auth.uid() AND status = 'pending');
+
+DROP POLICY IF EXISTS "Managers review time off" ON staff_time_off;
+CREATE POLICY "Managers review time off"
+  ON staff_time_off FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = staff_time_off.organization_id
+        AND p.role IN ('admin', 'manager')
+    )
+  );
+
+-- Replace a staff member's shifts at one branch in a single transaction, so
+-- a failed save never leaves them with no shifts. Runs with the caller's
+-- rights, so the policies above still decide who may do it.
+--   p_shifts: [{ "weekday": "mon", "start_time": "09:00", "end_time": "17:00" }]
+CREATE OR REPLACE FUNCTION replace_staff_shifts(p_staff_id UUID, p_shop_id UUID, p_shifts JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM staff_shifts WHERE staff_id = p_staff_id AND shop_id = p_shop_id;
+
+  INSERT INTO staff_shifts (staff_id, shop_id, organization_id, weekday, start_time, end_time)
+  SELECT
+    p_staff_id,
+    p_shop_id,
+    (SELECT organization_id FROM shops WHERE id = p_shop_id),
+    shift->>'weekday',
+    shift->>'start_time',
+    shift->>'end_time'
+  FROM jsonb_array_elements(COALESCE(p_shifts, '[]'::JSONB)) AS shift;
+END;
+$$;
@@ -0,0 +1,44 @@
+-- ============================================
+-- STAFF SERVICE SKILLS
+-- ============================================
+-- Which services each staff member can perform. Staff with no rows can
+-- perform every service. Safe to run more than once.
+
+CREATE TABLE IF NOT EXISTS staff_service_skills (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  staff_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (staff_id, service_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_service_skills_service ON staff_service_skills(service_id);
+
+ALTER TABLE staff_service_skills ENABLE ROW LEVEL SECURITY;
+
+-- Clients see skills when choosing a stylist
+DROP POLICY IF EXISTS "Anyone can view staff skills" ON staff_service_skills;
+CREATE POLICY "Anyone can view staff skills"
+  ON staff_service_skills FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Org admins manage staff skills" ON staff_service_skills;
+CREATE POLICY "Org admins manage staff skills"
+  ON staff_service_skills FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = staff_service_skills.organization_id
+        AND p.role IN ('admin', 'manager')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = staff_service_skills.organization_id
+        AND p.role IN ('admin', 'manager')
+    )
+  );
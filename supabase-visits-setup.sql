@@ -0,0 +1,12 @@
+-- ============================================
+-- MULTI-SERVICE VISITS
+-- ============================================
+-- Clients can book several services at one shop in a single visit. Each
+-- service is its own row in `bookings`, scheduled back-to-back, and all rows
+-- of a visit share the same visit_id so they can be confirmed, paid for and
+-- shown together.
+-- Safe to run more than once.
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS visit_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_visit ON bookings(visit_id) WHERE visit_id IS NOT NULL;
@@ -0,0 +1,297 @@
+-- ============================================
+-- WAITLIST & IN-APP NOTIFICATIONS
+-- ============================================
+-- Clients join a waitlist for a service at a shop over a date range. When a
+-- booking is cancelled, a trigger offers the freed slot to the first matching
+-- client and holds it for them for a limited time. Offers are delivered as
+-- rows in `notifications` (shown in the bell dropdown) and by email from the
+-- send-waitlist-offer edge function, which runs on a schedule and also passes
+-- expired holds down the list. Slot dates use app.timezone (default
+-- Asia/Manila), like APP_TIMEZONE in the edge functions.
+-- Safe to run more than once.
+
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+  staff_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  date_from DATE NOT NULL,
+  date_to DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'offered', 'booked', 'expired', 'cancelled')),
+  offered_start_at TIMESTAMPTZ,
+  offered_end_at TIMESTAMPTZ,
+  offered_staff_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  offered_date DATE, -- Local date of the offered slot
+  offer_expires_at TIMESTAMPTZ,
+  booking_id BIGINT REFERENCES bookings(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT waitlist_entries_date_order CHECK (date_to >= date_from)
+);
+
+-- The cancelled booking an offer was made from, and when the client was emailed
+ALTER TABLE waitlist_entries ADD COLUMN IF NOT EXISTS offered_booking_id BIGINT REFERENCES bookings(id) ON DELETE SET NULL;
+ALTER TABLE waitlist_entries ADD COLUMN IF NOT EXISTS offer_notified_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_match
+  ON waitlist_entries(shop_id, service_id, status, created_at);
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_client ON waitlist_entries(client_id, status);
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_offered
+  ON waitlist_entries(shop_id, service_id, offered_start_at) WHERE status = 'offered';
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  data JSONB,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at DESC);
+
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Clients manage their own entries; org members can see their org's waitlist
+DROP POLICY IF EXISTS "View waitlist entries" ON waitlist_entries;
+CREATE POLICY "View waitlist entries"
+  ON waitlist_entries FOR SELECT
+  USING (
+    client_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM profiles p
+      WHERE p.id = auth.uid()
+        AND p.organization_id = waitlist_entries.organization_id
+        AND p.role IN ('admin', 'manager', 'staff')
+    )
+  );
+
+DROP POLICY IF EXISTS "Clients join the waitlist" ON waitlist_entries;
+CREATE POLICY "Clients join the waitlist"
+  ON waitlist_entries FOR INSERT
+  WITH CHECK (client_id = auth.uid() AND status = 'waiting');
+
+-- Clients can only leave or claim; offers are made by offer_waitlist_slot()
+DROP POLICY IF EXISTS "Clients update their own entries" ON waitlist_entries;
+CREATE POLICY "Clients update their own entries"
+  ON waitlist_entries FOR UPDATE
+  USING (client_id = auth.uid())
+  WITH CHECK (client_id = auth.uid() AND status IN ('cancelled', 'booked'));
+
+DROP POLICY IF EXISTS "Users read their own notifications" ON notifications;
+CREATE POLICY "Users read their own notifications"
+  ON notifications FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users mark their own notifications read" ON notifications;
+CREATE POLICY "Users mark their own notifications read"
+  ON notifications FOR UPDATE
+  USING (user_id = auth.uid());
+
+-- Offer the slot freed by a cancelled booking to the first matching client
+-- on the waitlist. Everything about the slot comes from the booking itself.
+-- A slot is only offered once at a time, and not at all if it has been
+-- booked again. Returns the waitlist entry that got the offer, or NULL.
+DROP FUNCTION IF EXISTS offer_waitlist_slot(UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID, DATE, INT);
+CREATE OR REPLACE FUNCTION offer_waitlist_slot(p_booking_id BIGINT, p_hold_minutes INT DEFAULT 30)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_entry waitlist_entries%ROWTYPE;
+  v_slot_date DATE;
+  v_expires TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+
+  IF NOT FOUND OR v_booking.status <> 'cancelled' OR v_booking.start_at <= NOW() THEN
+    RETURN NULL;
+  END IF;
+
+  -- Serialize offers for the same slot so two can't go out at once
+  PERFORM pg_advisory_xact_lock(hashtext('waitlist:' || v_booking.shop_id || ':' || v_booking.service_id || ':' || v_booking.start_at));
+
+  IF EXISTS (
+    SELECT 1 FROM waitlist_entries w
+    WHERE w.shop_id = v_booking.shop_id
+      AND w.service_id = v_booking.service_id
+      AND w.offered_start_at = v_booking.start_at
+      AND w.status = 'offered'
+      AND w.offer_expires_at > NOW()
+  ) OR EXISTS (
+    SELECT 1 FROM bookings b
+    WHERE b.shop_id = v_booking.shop_id
+      AND b.start_at = v_booking.start_at
+      AND b.status IN ('pending', 'confirmed')
+      AND (v_booking.staff_id IS NULL OR b.staff_id IS NULL OR b.staff_id = v_booking.staff_id)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  v_slot_date := (v_booking.start_at AT TIME ZONE COALESCE(NULLIF(current_setting('app.timezone', true), ''), 'Asia/Manila'))::DATE;
+  v_expires := LEAST(NOW() + make_interval(mins => p_hold_minutes), v_booking.start_at);
+
+  SELECT w.* INTO v_entry
+  FROM waitlist_entries w
+  WHERE w.shop_id = v_booking.shop_id
+    AND w.service_id = v_booking.service_id
+    AND w.status = 'waiting'
+    AND v_slot_date BETWEEN w.date_from AND w.date_to
+    AND (w.staff_id IS NULL OR v_booking.staff_id IS NULL OR w.staff_id = v_booking.staff_id)
+    AND w.client_id IS DISTINCT FROM v_booking.client_id
+  ORDER BY w.created_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE waitlist_entries
+  SET status = 'offered',
+      offered_booking_id = v_booking.id,
+      offered_start_at = v_booking.start_at,
+      offered_end_at = v_booking.end_at,
+      offered_staff_id = COALESCE(v_entry.staff_id, v_booking.staff_id),
+      offered_date = v_slot_date,
+      offer_expires_at = v_expires,
+      offer_notified_at = NULL,
+      updated_at = NOW()
+  WHERE id = v_entry.id;
+
+  INSERT INTO notifications (user_id, type, title, body, data)
+  SELECT v_entry.client_id,
+         'waitlist_offer',
+         'A slot opened up for ' || COALESCE(sv.name, 'your service'),
+         'We are holding it for you for ' || p_hold_minutes || ' minutes. Book it before someone else does!',
+         jsonb_build_object(
+           'waitlist_entry_id', v_entry.id,
+           'shop_id', v_booking.shop_id,
+           'service_id', v_booking.service_id,
+           'start_at', v_booking.start_at,
+           'end_at', v_booking.end_at,
+           'offer_expires_at', v_expires
+         )
+  FROM services sv
+  WHERE sv.id = v_booking.service_id;
+
+  RETURN v_entry.id;
+END;
+$$;
+
+-- Cancelling a booking (in the app or from a reminder) offers its slot. A
+-- failed offer mustn't undo the cancellation, so it is only logged.
+CREATE OR REPLACE FUNCTION offer_cancelled_booking_slot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  BEGIN
+    PERFORM offer_waitlist_slot(NEW.id);
+  EXCEPTION WHEN OTHERS THEN
+    RAISE WARNING 'Could not offer booking % to the waitlist: %', NEW.id, SQLERRM;
+  END;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_offer_freed_slot ON bookings;
+CREATE TRIGGER bookings_offer_freed_slot
+  AFTER UPDATE OF status ON bookings
+  FOR EACH ROW
+  WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+  EXECUTE FUNCTION offer_cancelled_booking_slot();
+
+-- Expire offers whose hold has run out and pass each slot to the next client.
+-- Returns how many holds expired.
+DROP FUNCTION IF EXISTS release_expired_waitlist_offers(INT);
+CREATE OR REPLACE FUNCTION release_expired_waitlist_offers(p_hold_minutes INT DEFAULT 30)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_expired waitlist_entries%ROWTYPE;
+  v_count INT := 0;
+BEGIN
+  FOR v_expired IN
+    UPDATE waitlist_entries
+    SET status = 'expired', updated_at = NOW()
+    WHERE status = 'offered' AND offer_expires_at <= NOW()
+    RETURNING *
+  LOOP
+    v_count := v_count + 1;
+    IF v_expired.offered_booking_id IS NOT NULL THEN
+      PERFORM offer_waitlist_slot(v_expired.offered_booking_id, p_hold_minutes);
+    END IF;
+  END LOOP;
+  RETURN v_count;
+END;
+$$;
+
+-- Offers the client hasn't been emailed about yet, claimed so each is only
+-- sent once
+CREATE OR REPLACE FUNCTION claim_waitlist_offer_emails()
+RETURNS TABLE (
+  entry_id UUID,
+  client_email TEXT,
+  service_name TEXT,
+  shop_name TEXT,
+  start_at TIMESTAMPTZ,
+  offer_expires_at TIMESTAMPTZ
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH claimed AS (
+    UPDATE waitlist_entries
+    SET offer_notified_at = NOW()
+    WHERE status = 'offered'
+      AND offer_notified_at IS NULL
+      AND offer_expires_at > NOW()
+    RETURNING *
+  )
+  SELECT c.id, pr.email::TEXT, sv.name::TEXT, sh.name::TEXT, c.offered_start_at, c.offer_expires_at
+  FROM claimed c
+  JOIN profiles pr ON pr.id = c.client_id
+  LEFT JOIN services sv ON sv.id = c.service_id
+  LEFT JOIN shops sh ON sh.id = c.shop_id
+  WHERE pr.email IS NOT NULL;
+$$;
+
+-- Slots currently held for other clients, so availability can block them
+-- without exposing who is on the waitlist
+CREATE OR REPLACE FUNCTION get_waitlist_holds(p_shop_id UUID, p_from TIMESTAMPTZ, p_to TIMESTAMPTZ)
+RETURNS TABLE (start_at TIMESTAMPTZ, end_at TIMESTAMPTZ, staff_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT w.offered_start_at, w.offered_end_at, w.offered_staff_id
+  FROM waitlist_entries w
+  WHERE w.shop_id = p_shop_id
+    AND w.status = 'offered'
+    AND w.offer_expires_at > NOW()
+    AND w.offered_start_at >= p_from
+    AND w.offered_start_at < p_to
+    AND w.client_id IS DISTINCT FROM auth.uid();
+$$;
+
+-- Offers are only made by the trigger and the send-waitlist-offer job
+REVOKE EXECUTE ON FUNCTION offer_waitlist_slot(BIGINT, INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_expired_waitlist_offers(INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_waitlist_offer_emails() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_waitlist_holds(UUID, TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated, anon;
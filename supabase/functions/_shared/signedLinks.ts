@@ -0,0 +1,51 @@
+// HMAC-signed link parameters, for links that act without signing in, and
+// the keyed hash behind them (also used for one-time codes).
+// LINK_SIGNING_SECRET should be set; the service role key is used otherwise
+// so links work out of the box (HMAC doesn't reveal the key).
+
+const SECRET = Deno.env.get('LINK_SIGNING_SECRET') || Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+
+export interface SignedLink {
+  id: string
+  exp: number // Unix seconds
+  sig: string
+}
+
+// base64url HMAC-SHA256 of the payload
+export async function sign(payload: string): Promise<string> {
+  if (!SECRET) throw new Error('LINK_SIGNING_SECRET is not set')
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(SECRET),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  )
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload)))
+  return btoa(String.fromCharCode(...signature)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+export async function signLink(id: string, ttlDays: number): Promise<SignedLink> {
+  return signLinkUntil(id, new Date(Date.now() + ttlDays * 86400000))
+}
+
+// For links that stop working at a fixed time, e.g. when an appointment starts
+export async function signLinkUntil(id: string, expiresAt: Date): Promise<SignedLink> {
+  const exp = Math.floor(expiresAt.getTime() / 1000)
+  return { id, exp, sig: await sign(`${id}.${exp}`) }
+}
+
+// True when the signature matches and the link hasn't expired
+export async function verifyLink(link: Partial<SignedLink>): Promise<boolean> {
+  if (!link.id || !link.exp || !link.sig) return false
+  if (Number(link.exp) < Date.now() / 1000) return false
+
+  const expected = await sign(`${link.id}.${link.exp}`)
+  if (expected.length !== link.sig.length) return false
+  // Compare in constant time
+  let diff = 0
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ link.sig.charCodeAt(i)
+  }
+  return diff === 0
+}
@@ -0,0 +1,87 @@
+// Delivery transports for outgoing email and SMS.
+//
+// EMAIL_TRANSPORT and SMS_TRANSPORT pick one per channel: 'brevo' sends for
+// real, 'file' appends each message as a JSON line to MESSAGE_OUTBOX_PATH so
+// the flow can be tried locally without sending anything. Each channel uses
+// Brevo when BREVO_API_KEY is set and falls back to the file otherwise.
+
+export type MessageChannel = 'email' | 'sms'
+
+export interface OutgoingMessage {
+  to: string
+  subject?: string
+  text: string
+  html?: string
+}
+
+export interface MessageTransport {
+  name: string
+  send(message: OutgoingMessage): Promise<void>
+}
+
+const BREVO_API_KEY = Deno.env.get('BREVO_API_KEY') || ''
+const FROM_EMAIL = Deno.env.get('FROM_EMAIL') || 'alegaspi_ccs@uspf.edu.ph'
+const FROM_NAME = Deno.env.get('FROM_NAME') || 'GlamQueue'
+// Brevo limits SMS senders to 11 alphanumeric characters
+const SMS_SENDER = Deno.env.get('SMS_SENDER') || 'GlamQueue'
+// Edge functions can only write under /tmp
+const OUTBOX_PATH = Deno.env.get('MESSAGE_OUTBOX_PATH') || '/tmp/glamqueue-outbox.jsonl'
+
+async function postToBrevo(path: string, body: Record<string, unknown>) {
+  const response = await fetch(`https://api.brevo.com/v3/${path}`, {
+    method: 'POST',
+    headers: {
+      'accept': 'application/json',
+      'api-key': BREVO_API_KEY,
+      'content-type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+  if (!response.ok) {
+    throw new Error(`Brevo ${response.status}: ${await response.text()}`)
+  }
+}
+
+const brevoEmailTransport: MessageTransport = {
+  name: 'brevo',
+  send: (message) => postToBrevo('smtp/email', {
+    sender: { name: FROM_NAME, email: FROM_EMAIL },
+    to: [{ email: message.to }],
+    subject: message.subject || FROM_NAME,
+    htmlContent: message.html || message.text,
+    textContent: message.text,
+  }),
+}
+
+const brevoSmsTransport: MessageTransport = {
+  name: 'brevo',
+  send: (message) => postToBrevo('transactionalSMS/sms', {
+    sender: SMS_SENDER,
+    recipient: message.to,
+    content: message.text,
+    type: 'marketing',
+  }),
+}
+
+function fileTransport(channel: MessageChannel): MessageTransport {
+  return {
+    name: 'file',
+    send: (message) => Deno.writeTextFile(
+      OUTBOX_PATH,
+      JSON.stringify({ channel, ...message, queued_at: new Date().toISOString() }) + '\n',
+      { append: true },
+    ),
+  }
+}
+
+export function getTransport(channel: MessageChannel): MessageTransport {
+  const configured = Deno.env.get(channel === 'email' ? 'EMAIL_TRANSPORT' : 'SMS_TRANSPORT')
+  const name = configured || (BREVO_API_KEY ? 'brevo' : 'file')
+
+  if (name === 'file') return fileTransport(channel)
+  if (name === 'brevo') {
+    if (!BREVO_API_KEY) throw new Error('BREVO_API_KEY is not set')
+    return channel === 'email' ? brevoEmailTransport : brevoSmsTransport
+  }
+  throw new Error(`Unknown ${channel} transport: ${name}`)
+}
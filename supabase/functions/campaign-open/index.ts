@@ -0,0 +1,50 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// 1x1 transparent GIF
+const PIXEL = Uint8Array.from(atob('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7'), c => c.charCodeAt(0))
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function pixelResponse() {
+  return new Response(PIXEL, {
+    headers: {
+      'Content-Type': 'image/gif',
+      'Cache-Control': 'no-store, no-cache, must-revalidate',
+    },
+  })
+}
+
+// Records the first time a campaign email is opened, from the tracking pixel
+// send-campaigns adds to each email. Mail clients load the image without a
+// Supabase token, so deploy with: supabase functions deploy campaign-open --no-verify-jwt
+serve(async (req) => {
+  const token = new URL(req.url).searchParams.get('t') || ''
+  if (!UUID_PATTERN.test(token)) {
+    return pixelResponse()
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    if (!supabaseUrl || !serviceRoleKey) {
+      console.error('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY')
+      return pixelResponse()
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    })
+
+    await supabaseAdmin
+      .from('campaign_recipients')
+      .update({ opened_at: new Date().toISOString() })
+      .eq('tracking_token', token)
+      .is('opened_at', null)
+  } catch (error) {
+    // The image is returned either way so the email still renders
+    console.error('Error in campaign-open function:', error)
+  }
+
+  return pixelResponse()
+})
@@ -1,89 +0,0 @@
-import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
-
-serve(async (req) => {
-  // Handle CORS preflight requests
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
-  }
-
-  try {
-    const { email, password } = await req.json()
-
-    if (!email || !password) {
-      return new Response(
-        JSON.stringify({ error: 'email and password are required' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    // Get environment variables (automatically provided by Supabase)
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')
-    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
-
-    // Log for debugging (remove in production)
-    console.log('Supabase URL:', supabaseUrl ? 'Set' : 'Missing')
-    console.log('Service Role Key:', serviceRoleKey ? 'Set' : 'Missing')
-    console.log('Email:', email)
-
-    if (!supabaseUrl || !serviceRoleKey) {
-      console.error('Missing required environment variables')
-      return new Response(
-        JSON.stringify({ 
-          error: 'Server configuration error: Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY',
-          details: {
-            hasUrl: !!supabaseUrl,
-            hasKey: !!serviceRoleKey
-          }
-        }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    // Create Supabase admin client
-    const supabaseAdmin = createClient(
-      supabaseUrl,
-      serviceRoleKey,
-      {
-        auth: {
-          autoRefreshToken: false,
-          persistSession: false
-        }
-      }
-    )
-
-    // Create user using Admin API (bypasses email provider requirement)
-    // This allows us to create users even when Email provider is disabled
-    const { data, error } = await supabaseAdmin.auth.admin.createUser({
-      email,
-      password,
-      email_confirm: true, // Confirm email immediately since we verified via OTP
-    })
-
-    if (error) {
-      console.error('Error creating user:', error)
-      return new Response(
-        JSON.stringify({ error: error.message, code: error.status }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    return new Response(
-      JSON.stringify({ success: true, user: data.user }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
-  } catch (error) {
-    console.error('Error:', error)
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
-  }
-})
-
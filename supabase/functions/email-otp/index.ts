@@ -0,0 +1,207 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getTransport } from '../_shared/transports.ts'
+import { sign } from '../_shared/signedLinks.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const MIN_PASSWORD_LENGTH = 6
+
+interface RequestBody {
+  action: 'send' | 'verify'
+  email: string
+  code?: string
+  password?: string
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+// Uniform 6-digit code; rejection sampling avoids modulo bias
+function generateCode(): string {
+  const limit = Math.floor(0x100000000 / 1000000) * 1000000
+  const value = new Uint32Array(1)
+  do {
+    crypto.getRandomValues(value)
+  } while (value[0] >= limit)
+  return String(value[0] % 1000000).padStart(6, '0')
+}
+
+// Keyed so a leaked table can't be brute-forced offline
+function hashCode(email: string, code: string) {
+  return sign(`otp:${email}:${code}`)
+}
+
+function formatWait(seconds: number) {
+  return seconds >= 60 ? `${Math.ceil(seconds / 60)} minute${Math.ceil(seconds / 60) === 1 ? '' : 's'}` : `${seconds} seconds`
+}
+
+function buildEmail(email: string, code: string) {
+  const year = new Date().getFullYear()
+  return {
+    to: email,
+    subject: 'Your GlamQueue Verification Code',
+    text: `
+GlamQueue Email Verification
+
+Thank you for signing up! Please use the following code to verify your email address:
+
+${code}
+
+This code will expire in 5 minutes.
+
+If you didn't request this code, please ignore this email.
+
+© ${year} GlamQueue. All rights reserved.
+    `,
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Your GlamQueue Verification Code</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #e91e8c 0%, #f06292 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+            <h1 style="color: white; margin: 0;">GlamQueue</h1>
+          </div>
+          <div style="background: #ffffff; padding: 40px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 10px 10px;">
+            <h2 style="color: #333; margin-top: 0;">Email Verification</h2>
+            <p style="color: #666; font-size: 16px;">Thank you for signing up! Please use the following code to verify your email address:</p>
+            <div style="background: #f9fafb; border: 2px dashed #e91e8c; border-radius: 8px; padding: 20px; text-align: center; margin: 30px 0;">
+              <div style="font-size: 36px; font-weight: bold; letter-spacing: 8px; color: #e91e8c; font-family: 'Courier New', monospace;">
+                ${code}
+              </div>
+            </div>
+            <p style="color: #666; font-size: 14px; margin-bottom: 0;">
+              This code will expire in <strong>5 minutes</strong>.
+            </p>
+            <p style="color: #999; font-size: 12px; margin-top: 30px;">
+              If you didn't request this code, please ignore this email.
+            </p>
+          </div>
+          <div style="text-align: center; margin-top: 20px; color: #999; font-size: 12px;">
+            <p>© ${year} GlamQueue. All rights reserved.</p>
+          </div>
+        </body>
+      </html>
+    `,
+  }
+}
+
+// Email sign-up verification. `send` emails a new code; `verify` checks it
+// and only then creates the account with the chosen password. Limits and
+// lockouts live in supabase-otp-challenges-setup.sql.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { action, email: rawEmail, code, password }: RequestBody = await req.json()
+    const email = (rawEmail || '').trim().toLowerCase()
+
+    if (!EMAIL_PATTERN.test(email)) {
+      return jsonResponse({ error: 'Please enter a valid email address' }, 400)
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    if (!supabaseUrl || !serviceRoleKey) {
+      return jsonResponse({ error: 'Server configuration error: Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY' }, 500)
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    })
+
+    if (action === 'send') {
+      const newCode = generateCode()
+      const { data, error } = await supabaseAdmin.rpc('issue_otp_challenge', {
+        p_email: email,
+        p_code_hash: await hashCode(email, newCode),
+      })
+      if (error) throw error
+
+      const result = data?.[0]
+      if (!result?.issued) {
+        const wait = formatWait(result?.retry_after_seconds ?? 60)
+        const message = result?.reason === 'locked'
+          ? `Too many wrong codes. Please try again in ${wait}.`
+          : result?.reason === 'too_many_codes'
+            ? `Too many codes requested. Please try again in ${wait}.`
+            : `Please wait ${wait} before requesting another code.`
+        return jsonResponse({ error: message, retry_after: result?.retry_after_seconds ?? 60 }, 429)
+      }
+
+      await getTransport('email').send(buildEmail(email, newCode))
+      return jsonResponse({ success: true, resend_after: result.retry_after_seconds })
+    }
+
+    if (action === 'verify') {
+      if (!code || !/^\d{6}$/.test(code)) {
+        return jsonResponse({ error: 'Please enter the 6-digit code' }, 400)
+      }
+      if (!password || password.length < MIN_PASSWORD_LENGTH) {
+        return jsonResponse({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long` }, 400)
+      }
+
+      const { data, error } = await supabaseAdmin.rpc('verify_otp_challenge', {
+        p_email: email,
+        p_code_hash: await hashCode(email, code),
+      })
+      if (error) throw error
+
+      const result = data?.[0]
+      if (!result?.verified) {
+        switch (result?.reason) {
+          case 'locked':
+            return jsonResponse({
+              error: `Too many wrong codes. Please try again in ${formatWait(result.retry_after_seconds)}.`,
+              retry_after: result.retry_after_seconds,
+            }, 429)
+          case 'expired':
+            return jsonResponse({ error: 'This code has expired. Please request a new one.' }, 400)
+          case 'invalid':
+            return jsonResponse({
+              error: `Incorrect code. ${result.attempts_left} attempt${result.attempts_left === 1 ? '' : 's'} left.`,
+              attempts_left: result.attempts_left,
+            }, 400)
+          default:
+            return jsonResponse({ error: 'No active code for this email. Please request a new one.' }, 400)
+        }
+      }
+
+      // The password is only ever handed to Auth, and only after verification
+      const { data: created, error: createError } = await supabaseAdmin.auth.admin.createUser({
+        email,
+        password,
+        email_confirm: true,
+      })
+      if (createError) {
+        console.error('Error creating user:', createError)
+        return jsonResponse({ error: createError.message }, 400)
+      }
+
+      return jsonResponse({ success: true, user: created.user })
+    }
+
+    return jsonResponse({ error: 'Unknown action' }, 400)
+  } catch (error) {
+    console.error('Error in email-otp function:', error)
+    return jsonResponse({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, 500)
+  }
+})
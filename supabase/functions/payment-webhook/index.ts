@@ -0,0 +1,109 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Server-side only. Without it mock webhooks are refused.
+const MOCK_WEBHOOK_SECRET = Deno.env.get('MOCK_PAYMENT_WEBHOOK_SECRET') || ''
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-payment-provider, x-payment-signature',
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+interface PaymentWebhookEvent {
+  id: string
+  type: string
+  intent_id: string
+  amount: number
+  failure_reason: string | null
+}
+
+async function hmacSha256Hex(secret: string, value: string) {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function timingSafeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  return diff === 0
+}
+
+// Signature checks per provider. A hosted gateway adds its verifier here.
+const verifiers: Record<string, (rawBody: string, signature: string) => Promise<PaymentWebhookEvent>> = {
+  // For exercising the endpoint in development: mock_sig_<HMAC-SHA256(secret, body)>
+  mock: async (rawBody, signature) => {
+    if (!MOCK_WEBHOOK_SECRET) {
+      throw new Error('MOCK_PAYMENT_WEBHOOK_SECRET is not configured')
+    }
+    if (!timingSafeEqual(signature, `mock_sig_${await hmacSha256Hex(MOCK_WEBHOOK_SECRET, rawBody)}`)) {
+      throw new Error('Invalid webhook signature')
+    }
+    return JSON.parse(rawBody) as PaymentWebhookEvent
+  },
+}
+
+// Receives payment provider webhooks, checks the signature and applies the
+// event with apply_payment_event(), which ignores repeat deliveries.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const provider = req.headers.get('x-payment-provider') || new URL(req.url).searchParams.get('provider') || ''
+  const signature = req.headers.get('x-payment-signature') || ''
+  const verify = verifiers[provider]
+  if (!verify) {
+    return jsonResponse({ error: `Unsupported payment provider: ${provider || 'none'}` }, 400)
+  }
+
+  const rawBody = await req.text()
+  let event: PaymentWebhookEvent
+  try {
+    event = await verify(rawBody, signature)
+  } catch (error) {
+    console.error('Rejected payment webhook:', error)
+    return jsonResponse({ error: 'Invalid signature' }, 401)
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  if (!supabaseUrl || !serviceRoleKey) {
+    return jsonResponse({ error: 'Server configuration error: Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY' }, 500)
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey)
+  const { data, error } = await supabase.rpc('apply_payment_event', {
+    p_provider: provider,
+    p_event_id: event.id,
+    p_type: event.type,
+    p_intent_id: event.intent_id,
+    p_amount: event.amount,
+    p_failure_reason: event.failure_reason,
+    p_payload: event,
+  })
+
+  if (error) {
+    console.error('Error applying payment event:', error)
+    // 404 for unknown intents so the provider stops retrying; 500 retries later
+    const status = error.message?.includes('PAYMENT_NOT_FOUND') ? 404 : 500
+    return jsonResponse({ error: error.message }, status)
+  }
+
+  return jsonResponse({ received: true, payment_id: data?.id, status: data?.status })
+})
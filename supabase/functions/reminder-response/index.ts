@@ -0,0 +1,173 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { verifyLink } from '../_shared/signedLinks.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const OPEN_STATUSES = ['pending', 'confirmed']
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+// Mirrors isLateCancellation() and getPolicyFee() in src/utils/bookingPolicy.ts
+function getLateCancelFee(policy: Record<string, unknown> | null, startAt: string, servicePrice: number) {
+  const cutoffHours = Number(policy?.cancellation_cutoff_hours) || 0
+  const feePercent = Number(policy?.late_cancel_fee_percent) || 0
+  const hoursLeft = (new Date(startAt).getTime() - Date.now()) / 3600000
+  const isLate = cutoffHours > 0 && hoursLeft < cutoffHours
+  const fee = isLate && feePercent > 0 && servicePrice
+    ? Math.round((servicePrice * Math.min(feePercent, 100)) / 100)
+    : 0
+  return { isLate, fee }
+}
+
+// Backs the confirm and cancel links in appointment reminders. The signed
+// link ({ r, e, s }) is the only credential, so the client doesn't need to
+// sign in; it expires when the appointment starts and works for one response.
+// Called with just the link it describes the appointment; with
+// action: 'confirm' | 'cancel' it updates the booking.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { r, e, s, action } = await req.json()
+    if (!(await verifyLink({ id: r, exp: Number(e), sig: s }))) {
+      return jsonResponse({ error: 'This link is invalid or has expired' }, 403)
+    }
+    if (action && action !== 'confirm' && action !== 'cancel') {
+      return jsonResponse({ error: 'Unknown action' }, 400)
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    if (!supabaseUrl || !serviceRoleKey) {
+      return jsonResponse({ error: 'Server configuration error: Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY' }, 500)
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    })
+
+    const { data: reminder, error: reminderError } = await supabaseAdmin
+      .from('booking_reminders')
+      .select('id, organization_id, booking_start_at, response, booking:bookings(id, shop_id, service_id, staff_id, start_at, end_at, status, client_confirmed_at, service:services(name, price), shop:shops(name))')
+      .eq('id', r)
+      .maybeSingle()
+
+    if (reminderError) throw reminderError
+    const booking = reminder?.booking
+    if (!reminder || !booking) {
+      return jsonResponse({ error: 'This link is no longer valid' }, 404)
+    }
+
+    const { data: organization } = await supabaseAdmin
+      .from('organizations')
+      .select('booking_policy')
+      .eq('id', reminder.organization_id)
+      .maybeSingle()
+    const cancellation = getLateCancelFee(organization?.booking_policy ?? null, booking.start_at, Number(booking.service?.price) || 0)
+
+    // Only the appointment the reminder was sent for can be changed from it,
+    // and only once
+    const isOpen = !reminder.response
+      && OPEN_STATUSES.includes(booking.status)
+      && new Date(booking.start_at) > new Date()
+      && new Date(booking.start_at).getTime() === new Date(reminder.booking_start_at).getTime()
+
+    const appointment = {
+      service_name: booking.service?.name || null,
+      shop_name: booking.shop?.name || null,
+      start_at: booking.start_at,
+      status: booking.status,
+      client_confirmed: !!booking.client_confirmed_at,
+      can_respond: isOpen,
+      late_cancel_fee: cancellation.fee,
+    }
+
+    if (!action) {
+      return jsonResponse({ appointment })
+    }
+    if (!isOpen) {
+      return jsonResponse({ error: 'This appointment can no longer be changed from the reminder. Please open the app.' }, 409)
+    }
+
+    const now = new Date().toISOString()
+
+    // Claim the reminder first so the link can't be used twice
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('booking_reminders')
+      .update({ response: action === 'confirm' ? 'confirmed' : 'cancelled', responded_at: now })
+      .eq('id', reminder.id)
+      .is('response', null)
+      .select('id')
+    if (claimError) throw claimError
+    if (!claimed?.length) {
+      return jsonResponse({ error: 'This reminder has already been answered. Please open the app.' }, 409)
+    }
+    const releaseClaim = () => supabaseAdmin
+      .from('booking_reminders')
+      .update({ response: null, responded_at: null })
+      .eq('id', reminder.id)
+
+    try {
+      if (action === 'confirm') {
+        const { error } = await supabaseAdmin
+          .from('bookings')
+          .update({ client_confirmed_at: booking.client_confirmed_at || now })
+          .eq('id', booking.id)
+        if (error) throw error
+      } else {
+        const { data: cancelled, error } = await supabaseAdmin
+          .from('bookings')
+          .update({
+            status: 'cancelled',
+            cancelled_by: 'client',
+            cancellation_reason: 'Cancelled from reminder',
+            cancelled_at: now,
+            late_cancellation: cancellation.isLate,
+            cancellation_fee: cancellation.fee,
+            updated_at: now,
+          })
+          .eq('id', booking.id)
+          .in('status', OPEN_STATUSES)
+          .select('id')
+        if (error) throw error
+        if (!cancelled?.length) {
+          await releaseClaim()
+          return jsonResponse({ error: 'This appointment has already changed. Please open the app.' }, 409)
+        }
+
+        // The database offers the freed slot to the waitlist
+      }
+    } catch (actionError) {
+      await releaseClaim()
+      throw actionError
+    }
+
+    return jsonResponse({
+      success: true,
+      appointment: {
+        ...appointment,
+        status: action === 'cancel' ? 'cancelled' : appointment.status,
+        client_confirmed: action === 'confirm' || appointment.client_confirmed,
+        can_respond: false,
+      },
+    })
+  } catch (error) {
+    console.error('Error in reminder-response function:', error)
+    return jsonResponse({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, 500)
+  }
+})
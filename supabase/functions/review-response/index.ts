@@ -0,0 +1,129 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { verifyLink } from '../_shared/signedLinks.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+// Shop rating = average of the ratings for its services, as
+// updateShopRating() in src/client/api/ratings.ts
+async function updateShopRating(supabaseAdmin: SupabaseClient, shopId: string) {
+  const { data: services } = await supabaseAdmin.from('services').select('id').eq('shop_id', shopId)
+  const serviceIds = (services || []).map((service: { id: string }) => service.id)
+  const { data: ratings } = serviceIds.length
+    ? await supabaseAdmin.from('ratings').select('rating').in('service_id', serviceIds)
+    : { data: [] }
+
+  const values = (ratings || []).map((r: { rating: number }) => r.rating || 0)
+  const average = values.length ? values.reduce((sum: number, r: number) => sum + r, 0) / values.length : 0
+  await supabaseAdmin
+    .from('shops')
+    .update({ rating: Math.round(average * 10) / 10, review_count: values.length })
+    .eq('id', shopId)
+}
+
+// Backs the signed link in review requests, so a client can rate a visit
+// without signing in. Called with just the link ({ r, e, s }) it describes the
+// visit and records that the link was opened; with a rating it saves it.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { r, e, s, rating, comment } = await req.json()
+    if (!(await verifyLink({ id: r, exp: Number(e), sig: s }))) {
+      return jsonResponse({ error: 'This review link is invalid or has expired' }, 403)
+    }
+    if (rating !== undefined && !(Number.isInteger(rating) && rating >= 1 && rating <= 5)) {
+      return jsonResponse({ error: 'Rating must be between 1 and 5' }, 400)
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    if (!supabaseUrl || !serviceRoleKey) {
+      return jsonResponse({ error: 'Server configuration error: Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY' }, 500)
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    })
+
+    const { data: request, error: requestError } = await supabaseAdmin
+      .from('review_requests')
+      .select('id, booking_id, client_id, shop_id, opened_at, booking:bookings(id, service_id, start_at, service:services(name), shop:shops(name), staff:profiles!staff_id(name))')
+      .eq('id', r)
+      .maybeSingle()
+
+    if (requestError) throw requestError
+    const booking = request?.booking
+    if (!request || !booking || !request.client_id) {
+      return jsonResponse({ error: 'This visit could not be found' }, 404)
+    }
+
+    const { data: existing } = await supabaseAdmin
+      .from('ratings')
+      .select('id, rating, comment')
+      .eq('booking_id', request.booking_id)
+      .eq('client_id', request.client_id)
+      .maybeSingle()
+
+    const visit = {
+      booking_id: String(booking.id),
+      service_id: booking.service_id,
+      shop_id: request.shop_id,
+      start_at: booking.start_at,
+      service_name: booking.service?.name || null,
+      shop_name: booking.shop?.name || null,
+      staff_name: booking.staff?.name || null,
+      rating: existing?.rating ?? null,
+    }
+
+    if (rating === undefined) {
+      if (!request.opened_at) {
+        await supabaseAdmin
+          .from('review_requests')
+          .update({ opened_at: new Date().toISOString() })
+          .eq('id', request.id)
+      }
+      return jsonResponse({ visit })
+    }
+
+    const ratingData = {
+      booking_id: request.booking_id,
+      service_id: booking.service_id,
+      shop_id: request.shop_id,
+      client_id: request.client_id,
+      rating,
+      comment: typeof comment === 'string' && comment.trim() ? comment.trim() : null,
+    }
+    // The ratings trigger marks the request as responded
+    const { error: saveError } = existing
+      ? await supabaseAdmin.from('ratings').update(ratingData).eq('id', existing.id)
+      : await supabaseAdmin.from('ratings').insert(ratingData)
+    if (saveError) throw saveError
+
+    if (request.shop_id) {
+      await updateShopRating(supabaseAdmin, request.shop_id).catch((shopError) =>
+        console.error('Error updating shop rating:', shopError))
+    }
+
+    return jsonResponse({ success: true, visit: { ...visit, rating } })
+  } catch (error) {
+    console.error('Error in review-response function:', error)
+    return jsonResponse({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, 500)
+  }
+})
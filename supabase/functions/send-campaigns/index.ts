@@ -0,0 +1,199 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getTransport } from '../_shared/transports.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface Campaign {
+  id: string
+  organization_id: string
+  channel: 'email' | 'sms'
+  subject: string | null
+  message: string
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function campaignHtml(campaign: Campaign, organizationName: string, pixelUrl: string) {
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${escapeHtml(campaign.subject || organizationName)}</title>
+      </head>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background: linear-gradient(135deg, #e91e8c 0%, #f06292 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+          <h1 style="color: white; margin: 0;">${escapeHtml(organizationName)}</h1>
+        </div>
+        <div style="background: #ffffff; padding: 40px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 10px 10px;">
+          <p style="color: #444; font-size: 16px;">${escapeHtml(campaign.message).replace(/\n/g, '<br>')}</p>
+          <p style="color: #999; font-size: 12px; margin-top: 30px;">
+            You're receiving this because you've booked with ${escapeHtml(organizationName)} on GlamQueue.
+          </p>
+        </div>
+        <img src="${pixelUrl}" width="1" height="1" alt="" style="display: block;">
+      </body>
+    </html>
+  `
+}
+
+// Claims a scheduled campaign, fills in its audience and sends to everyone
+// still pending. Returns the final status.
+async function deliverCampaign(supabaseAdmin: SupabaseClient, supabaseUrl: string, campaignId: string) {
+  const { data: campaign, error: claimError } = await supabaseAdmin
+    .from('campaigns')
+    .update({ status: 'sending' })
+    .eq('id', campaignId)
+    .eq('status', 'scheduled')
+    .select('id, organization_id, channel, subject, message, organization:organizations(name)')
+    .maybeSingle()
+
+  if (claimError) throw claimError
+  // Already picked up by another run, or cancelled
+  if (!campaign) return null
+
+  let sent = 0
+  let failed = 0
+  try {
+    const { error: prepareError } = await supabaseAdmin.rpc('prepare_campaign_recipients', {
+      p_campaign_id: campaign.id,
+    })
+    if (prepareError) throw prepareError
+
+    const { data: recipients, error: recipientsError } = await supabaseAdmin
+      .from('campaign_recipients')
+      .select('id, destination, tracking_token')
+      .eq('campaign_id', campaign.id)
+      .eq('status', 'pending')
+    if (recipientsError) throw recipientsError
+
+    const transport = getTransport(campaign.channel)
+    const organizationName = (campaign.organization as { name?: string } | null)?.name || 'GlamQueue'
+
+    for (const recipient of recipients || []) {
+      const pixelUrl = `${supabaseUrl}/functions/v1/campaign-open?t=${recipient.tracking_token}`
+      try {
+        await transport.send({
+          to: recipient.destination,
+          subject: campaign.subject || undefined,
+          text: campaign.message,
+          html: campaign.channel === 'email' ? campaignHtml(campaign, organizationName, pixelUrl) : undefined,
+        })
+        sent += 1
+        await supabaseAdmin
+          .from('campaign_recipients')
+          .update({ status: 'sent', sent_at: new Date().toISOString() })
+          .eq('id', recipient.id)
+      } catch (sendError) {
+        failed += 1
+        await supabaseAdmin
+          .from('campaign_recipients')
+          .update({ status: 'failed', error: sendError instanceof Error ? sendError.message : String(sendError) })
+          .eq('id', recipient.id)
+      }
+    }
+  } catch (error) {
+    console.error(`Campaign ${campaign.id} could not be sent:`, error)
+    await supabaseAdmin.from('campaigns').update({ status: 'failed' }).eq('id', campaign.id)
+    return 'failed'
+  }
+
+  const status = sent === 0 && failed > 0 ? 'failed' : 'sent'
+  await supabaseAdmin
+    .from('campaigns')
+    .update({ status, sent_at: new Date().toISOString() })
+    .eq('id', campaign.id)
+  return status
+}
+
+// Sends marketing campaigns. Called with the service role key (e.g. from a
+// cron job) it sends every campaign that is due; an admin or manager can pass
+// a campaignId to send one of their organization's campaigns right away.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    if (!supabaseUrl || !serviceRoleKey) {
+      return jsonResponse({ error: 'Server configuration error: Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY' }, 500)
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    })
+
+    const token = (req.headers.get('Authorization') || '').replace('Bearer ', '')
+    const { campaignId } = await req.json().catch(() => ({}))
+
+    let campaignIds: string[]
+    if (token === serviceRoleKey) {
+      if (campaignId) {
+        campaignIds = [campaignId]
+      } else {
+        const { data: due, error: dueError } = await supabaseAdmin
+          .from('campaigns')
+          .select('id')
+          .eq('status', 'scheduled')
+          .lte('scheduled_at', new Date().toISOString())
+          .order('scheduled_at')
+        if (dueError) throw dueError
+        campaignIds = (due || []).map((campaign: { id: string }) => campaign.id)
+      }
+    } else {
+      const { data: { user } } = await supabaseAdmin.auth.getUser(token)
+      if (!user) {
+        return jsonResponse({ error: 'Not signed in' }, 401)
+      }
+      if (!campaignId) {
+        return jsonResponse({ error: 'campaignId is required' }, 400)
+      }
+
+      const [{ data: caller }, { data: campaign }] = await Promise.all([
+        supabaseAdmin.from('profiles').select('organization_id, role').eq('id', user.id).maybeSingle(),
+        supabaseAdmin.from('campaigns').select('organization_id').eq('id', campaignId).maybeSingle(),
+      ])
+      if (!campaign) {
+        return jsonResponse({ error: 'Campaign not found' }, 404)
+      }
+      if (!caller || caller.organization_id !== campaign.organization_id || !['admin', 'manager'].includes(caller.role)) {
+        return jsonResponse({ error: 'You cannot send this campaign' }, 403)
+      }
+      campaignIds = [campaignId]
+    }
+
+    const results: Record<string, string | null> = {}
+    for (const id of campaignIds) {
+      results[id] = await deliverCampaign(supabaseAdmin, supabaseUrl, id)
+    }
+
+    return jsonResponse({ success: true, results })
+  } catch (error) {
+    console.error('Error in send-campaigns function:', error)
+    return jsonResponse({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, 500)
+  }
+})
@@ -0,0 +1,217 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Brevo API configuration (same secrets as _shared/transports.ts)
+const BREVO_API_KEY = Deno.env.get('BREVO_API_KEY') || ''
+const FROM_EMAIL = Deno.env.get('FROM_EMAIL') || 'alegaspi_ccs@uspf.edu.ph'
+const FROM_NAME = Deno.env.get('FROM_NAME') || 'GlamQueue'
+// Receipts are dated in the salon's local time
+const APP_TIMEZONE = Deno.env.get('APP_TIMEZONE') || 'Asia/Manila'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const TENDER_LABELS: Record<string, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  gcash: 'GCash',
+  maya: 'Maya',
+  gift_card: 'Gift card',
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+const money = (value: number | string) => `₱${Number(value).toFixed(2)}`
+
+// Emails the receipt for a checkout. Salon staff can send it to any address
+// (e.g. for a walk-in); a client can only have their own receipt sent to them.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { checkoutId, email } = await req.json()
+    if (!checkoutId) {
+      return jsonResponse({ error: 'checkoutId is required' }, 400)
+    }
+
+    if (!BREVO_API_KEY) {
+      console.error('BREVO_API_KEY environment variable is not set')
+      return jsonResponse({ error: 'Email service not configured' }, 500)
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    if (!supabaseUrl || !serviceRoleKey) {
+      return jsonResponse({ error: 'Server configuration error: Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY' }, 500)
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    })
+
+    const token = (req.headers.get('Authorization') || '').replace('Bearer ', '')
+    const { data: { user } } = await supabaseAdmin.auth.getUser(token)
+    if (!user) {
+      return jsonResponse({ error: 'Not signed in' }, 401)
+    }
+
+    const { data: checkout, error: checkoutError } = await supabaseAdmin
+      .from('checkouts')
+      .select('*, items:checkout_items(*), tenders:checkout_tenders(*), shop:shops(name, address)')
+      .eq('id', checkoutId)
+      .maybeSingle()
+
+    if (checkoutError) throw checkoutError
+    if (!checkout) {
+      return jsonResponse({ error: 'Receipt not found' }, 404)
+    }
+
+    const { data: caller } = await supabaseAdmin
+      .from('profiles')
+      .select('organization_id, role')
+      .eq('id', user.id)
+      .maybeSingle()
+
+    const isSalonStaff = !!caller
+      && caller.organization_id === checkout.organization_id
+      && ['admin', 'manager', 'staff'].includes(caller.role)
+    const isOwnReceipt = checkout.client_id === user.id
+    if (!isSalonStaff && !isOwnReceipt) {
+      return jsonResponse({ error: 'You cannot send this receipt' }, 403)
+    }
+
+    let recipient = isSalonStaff && typeof email === 'string' ? email.trim() : ''
+    if (!recipient && checkout.client_id) {
+      const { data: client } = await supabaseAdmin
+        .from('profiles')
+        .select('email')
+        .eq('id', checkout.client_id)
+        .maybeSingle()
+      recipient = client?.email || ''
+    }
+    if (!recipient) {
+      return jsonResponse({ error: 'No email address to send the receipt to' }, 400)
+    }
+
+    const shopName = checkout.shop?.name || 'GlamQueue'
+    const dateLabel = new Date(checkout.created_at).toLocaleString('en-US', { timeZone: APP_TIMEZONE })
+
+    const row = (label: string, value: string, bold = false) => `
+      <tr${bold ? ' style="font-weight: bold;"' : ''}>
+        <td style="padding: 4px 0;">${escapeHtml(label)}</td>
+        <td style="padding: 4px 0; text-align: right;">${value}</td>
+      </tr>`
+
+    const itemRows = (checkout.items || [])
+      .map((item: { description: string; quantity: number; line_total: number }) =>
+        row(`${item.description}${item.quantity > 1 ? ` × ${item.quantity}` : ''}`, money(item.line_total)))
+      .join('')
+    const tenderRows = (checkout.tenders || [])
+      .map((tender: { method: string; amount: number; reference: string | null }) =>
+        row(`${TENDER_LABELS[tender.method] || tender.method}${tender.reference ? ` (${tender.reference})` : ''}`, money(tender.amount)))
+      .join('')
+
+    const totalsRows = [
+      row('Subtotal', money(checkout.subtotal)),
+      Number(checkout.discount_amount) > 0
+        ? row(`Discount${checkout.discount_reason ? ` (${checkout.discount_reason})` : ''}`, `−${money(checkout.discount_amount)}`)
+        : '',
+      Number(checkout.tip_amount) > 0 ? row('Tip', money(checkout.tip_amount)) : '',
+      row('Total', money(checkout.total), true),
+      Number(checkout.prepaid_amount) > 0 ? row('Paid online', `−${money(checkout.prepaid_amount)}`) : '',
+    ].join('')
+
+    const emailHtml = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Your receipt</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #e91e8c 0%, #f06292 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+            <h1 style="color: white; margin: 0;">${escapeHtml(shopName)}</h1>
+          </div>
+          <div style="background: #ffffff; padding: 40px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 10px 10px;">
+            <h2 style="color: #333; margin-top: 0;">Thank you for visiting!</h2>
+            <p style="color: #666; font-size: 14px; margin: 0;">Receipt ${escapeHtml(checkout.receipt_number)}</p>
+            <p style="color: #666; font-size: 14px; margin: 0;">${escapeHtml(dateLabel)}</p>
+            ${checkout.shop?.address ? `<p style="color: #666; font-size: 14px; margin: 0;">${escapeHtml(checkout.shop.address)}</p>` : ''}
+            <table style="width: 100%; border-collapse: collapse; margin-top: 24px; font-size: 14px;">${itemRows}</table>
+            <hr style="border: none; border-top: 1px dashed #ccc; margin: 12px 0;">
+            <table style="width: 100%; border-collapse: collapse; font-size: 14px;">${totalsRows}</table>
+            ${tenderRows ? `
+            <hr style="border: none; border-top: 1px dashed #ccc; margin: 12px 0;">
+            <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+              ${tenderRows}
+              ${Number(checkout.change_given) > 0 ? row('Change', money(checkout.change_given)) : ''}
+            </table>` : ''}
+          </div>
+          <div style="text-align: center; margin-top: 20px; color: #999; font-size: 12px;">
+            <p>© ${new Date().getFullYear()} GlamQueue. All rights reserved.</p>
+          </div>
+        </body>
+      </html>
+    `
+
+    const emailText = `
+${shopName} - Receipt ${checkout.receipt_number}
+${dateLabel}
+
+Total: ${money(checkout.total)}
+
+Thank you for visiting!
+
+© ${new Date().getFullYear()} GlamQueue. All rights reserved.
+    `
+
+    const response = await fetch('https://api.brevo.com/v3/smtp/email', {
+      method: 'POST',
+      headers: {
+        'accept': 'application/json',
+        'api-key': BREVO_API_KEY,
+        'content-type': 'application/json',
+      },
+      body: JSON.stringify({
+        sender: { name: FROM_NAME, email: FROM_EMAIL },
+        to: [{ email: recipient }],
+        subject: `Your receipt from ${shopName}`,
+        htmlContent: emailHtml,
+        textContent: emailText,
+      }),
+    })
+
+    if (!response.ok) {
+      const details = await response.text()
+      console.error('Brevo API error:', response.status, details)
+      return jsonResponse({ error: 'Failed to send email', details }, 500)
+    }
+
+    return jsonResponse({ success: true })
+  } catch (error) {
+    console.error('Error in send-receipt-email function:', error)
+    return jsonResponse({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, 500)
+  }
+})
@@ -0,0 +1,180 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getTransport, MessageChannel, MessageTransport } from '../_shared/transports.ts'
+import { signLinkUntil } from '../_shared/signedLinks.ts'
+
+// Appointment times are shown in the salon's local time
+const APP_TIMEZONE = Deno.env.get('APP_TIMEZONE') || 'Asia/Manila'
+// Where the confirm and cancel links open
+const APP_URL = (Deno.env.get('APP_URL') || 'https://glamqueue.vercel.app').replace(/\/$/, '')
+
+// Used when an organization hasn't written its own.
+// Mirrors DEFAULT_REMINDER_TEMPLATES in src/utils/reminders.ts.
+const DEFAULT_EMAIL_SUBJECT = 'Reminder: {service} at {shop}'
+const DEFAULT_EMAIL_TEMPLATE = `Hi {client_name},
+
+This is a reminder of your {service} appointment at {shop} on {date} at {time}.
+
+Confirm you're coming: {confirm_link}
+Can't make it? Cancel here: {cancel_link}
+
+See you soon!`
+const DEFAULT_SMS_TEMPLATE = '{shop}: reminder of your {service} on {date} at {time}. Confirm: {confirm_link} Cancel: {cancel_link}'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface DueReminder {
+  reminder_id: string
+  channel: MessageChannel
+  destination: string
+  offset_minutes: number
+  start_at: string
+  client_name: string | null
+  service_name: string | null
+  shop_name: string | null
+  email_subject: string | null
+  email_template: string | null
+  sms_template: string | null
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Mirrors renderReminderTemplate() in src/utils/reminders.ts
+function renderTemplate(template: string, values: Record<string, string>) {
+  return template.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match)
+}
+
+// The links are signed and stop working when the appointment starts
+async function buildMessage(reminder: DueReminder) {
+  const start = new Date(reminder.start_at)
+  const link = await signLinkUntil(reminder.reminder_id, start)
+  const query = `r=${link.id}&e=${link.exp}&s=${link.sig}`
+  const links = {
+    confirm_link: `${APP_URL}/reminder?${query}&a=confirm`,
+    cancel_link: `${APP_URL}/reminder?${query}&a=cancel`,
+  }
+  const values = {
+    client_name: reminder.client_name || 'there',
+    service: reminder.service_name || 'your appointment',
+    shop: reminder.shop_name || 'the salon',
+    date: start.toLocaleDateString('en-US', { timeZone: APP_TIMEZONE, weekday: 'short', month: 'short', day: 'numeric' }),
+    time: start.toLocaleTimeString('en-US', { timeZone: APP_TIMEZONE, hour: 'numeric', minute: '2-digit', hour12: true }),
+    ...links,
+  }
+
+  if (reminder.channel === 'sms') {
+    return { to: reminder.destination, text: renderTemplate(reminder.sms_template || DEFAULT_SMS_TEMPLATE, values) }
+  }
+
+  const text = renderTemplate(reminder.email_template || DEFAULT_EMAIL_TEMPLATE, values)
+  // Escape first, then turn the two links back into anchors
+  let body = escapeHtml(text).replace(/\n/g, '<br>')
+  for (const url of Object.values(links)) {
+    const escaped = escapeHtml(url)
+    body = body.split(escaped).join(`<a href="${escaped}" style="color: #e91e8c;">${escaped}</a>`)
+  }
+
+  return {
+    to: reminder.destination,
+    subject: renderTemplate(reminder.email_subject || DEFAULT_EMAIL_SUBJECT, values),
+    text,
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #e91e8c 0%, #f06292 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+            <h1 style="color: white; margin: 0;">${escapeHtml(values.shop)}</h1>
+          </div>
+          <div style="background: #ffffff; padding: 40px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 10px 10px;">
+            <p style="color: #444; font-size: 16px;">${body}</p>
+          </div>
+          <div style="text-align: center; margin-top: 20px; color: #999; font-size: 12px;">
+            <p>Sent by GlamQueue for ${escapeHtml(values.shop)}.</p>
+          </div>
+        </body>
+      </html>
+    `,
+  }
+}
+
+// Sends the appointment reminders that are due and records each delivery.
+// Run it on a schedule (every 5-15 minutes) with the service role key.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    if (!supabaseUrl || !serviceRoleKey) {
+      return jsonResponse({ error: 'Server configuration error: Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY' }, 500)
+    }
+
+    const token = (req.headers.get('Authorization') || '').replace('Bearer ', '')
+    if (token !== serviceRoleKey) {
+      return jsonResponse({ error: 'Reminders can only be sent by the scheduler' }, 403)
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    })
+
+    const { data, error } = await supabaseAdmin.rpc('claim_due_reminders')
+    if (error) throw error
+
+    const transports = new Map<MessageChannel, MessageTransport>()
+    let sent = 0
+    let failed = 0
+
+    for (const reminder of (data || []) as DueReminder[]) {
+      try {
+        if (!transports.has(reminder.channel)) {
+          transports.set(reminder.channel, getTransport(reminder.channel))
+        }
+        await transports.get(reminder.channel)!.send(await buildMessage(reminder))
+        sent += 1
+        await supabaseAdmin
+          .from('booking_reminders')
+          .update({ status: 'sent', sent_at: new Date().toISOString() })
+          .eq('id', reminder.reminder_id)
+      } catch (sendError) {
+        failed += 1
+        console.error(`Reminder ${reminder.reminder_id} failed:`, sendError)
+        await supabaseAdmin
+          .from('booking_reminders')
+          .update({ status: 'failed', error: sendError instanceof Error ? sendError.message : String(sendError) })
+          .eq('id', reminder.reminder_id)
+      }
+    }
+
+    return jsonResponse({ success: true, sent, failed })
+  } catch (error) {
+    console.error('Error in send-reminders function:', error)
+    return jsonResponse({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, 500)
+  }
+})
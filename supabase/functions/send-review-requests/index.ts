@@ -0,0 +1,153 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getTransport, MessageChannel, MessageTransport } from '../_shared/transports.ts'
+import { signLink } from '../_shared/signedLinks.ts'
+
+// Where the review link opens
+const APP_URL = (Deno.env.get('APP_URL') || 'https://glamqueue.vercel.app').replace(/\/$/, '')
+// How long a review link keeps working
+const REVIEW_LINK_TTL_DAYS = 30
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface DueRequest {
+  request_id: string
+  channel: MessageChannel
+  destination: string | null
+  client_name: string | null
+  service_name: string | null
+  shop_name: string | null
+  staff_name: string | null
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+async function buildMessage(request: DueRequest) {
+  const link = await signLink(request.request_id, REVIEW_LINK_TTL_DAYS)
+  const url = `${APP_URL}/review?r=${link.id}&e=${link.exp}&s=${link.sig}`
+  const shop = request.shop_name || 'the salon'
+  const service = request.service_name || 'visit'
+  const withStaff = request.staff_name ? ` with ${request.staff_name}` : ''
+
+  if (request.channel === 'sms') {
+    return { to: request.destination!, text: `${shop}: how was your ${service}${withStaff}? Rate your visit: ${url}` }
+  }
+
+  return {
+    to: request.destination!,
+    subject: `How was your ${service} at ${shop}?`,
+    text: `Hi ${request.client_name || 'there'},
+
+Thanks for visiting ${shop}! How was your ${service}${withStaff}? It only takes a moment to rate your visit:
+
+${url}`,
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #e91e8c 0%, #f06292 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+            <h1 style="color: white; margin: 0;">${escapeHtml(shop)}</h1>
+          </div>
+          <div style="background: #ffffff; padding: 40px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 10px 10px; text-align: center;">
+            <h2 style="color: #333; margin-top: 0;">How was your ${escapeHtml(service)}?</h2>
+            <p style="color: #666; font-size: 16px;">
+              Hi ${escapeHtml(request.client_name || 'there')}, thanks for visiting${escapeHtml(withStaff)}. Your rating helps the salon and other clients.
+            </p>
+            <a href="${url}" style="display: inline-block; margin: 20px 0; padding: 14px 28px; background: #e91e8c; color: white; text-decoration: none; border-radius: 8px; font-weight: bold;">
+              ★★★★★ Rate your visit
+            </a>
+            <p style="color: #999; font-size: 12px;">No sign-in needed. The link works for ${REVIEW_LINK_TTL_DAYS} days.</p>
+          </div>
+        </body>
+      </html>
+    `,
+  }
+}
+
+// Sends the review requests that are due. Run it on a schedule with the
+// service role key.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    if (!supabaseUrl || !serviceRoleKey) {
+      return jsonResponse({ error: 'Server configuration error: Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY' }, 500)
+    }
+
+    const token = (req.headers.get('Authorization') || '').replace('Bearer ', '')
+    if (token !== serviceRoleKey) {
+      return jsonResponse({ error: 'Review requests can only be sent by the scheduler' }, 403)
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    })
+
+    const { data, error } = await supabaseAdmin.rpc('claim_due_review_requests')
+    if (error) throw error
+
+    const transports = new Map<MessageChannel, MessageTransport>()
+    let sent = 0
+    let failed = 0
+
+    for (const request of (data || []) as DueRequest[]) {
+      try {
+        if (!request.destination) {
+          throw new Error(request.channel === 'email' ? 'Client has no email address' : 'Client has no phone number')
+        }
+        if (!transports.has(request.channel)) {
+          transports.set(request.channel, getTransport(request.channel))
+        }
+        await transports.get(request.channel)!.send(await buildMessage(request))
+        sent += 1
+        await supabaseAdmin
+          .from('review_requests')
+          .update({ status: 'sent', destination: request.destination, sent_at: new Date().toISOString() })
+          .eq('id', request.request_id)
+      } catch (sendError) {
+        failed += 1
+        await supabaseAdmin
+          .from('review_requests')
+          .update({
+            status: 'failed',
+            destination: request.destination,
+            error: sendError instanceof Error ? sendError.message : String(sendError),
+          })
+          .eq('id', request.request_id)
+      }
+    }
+
+    return jsonResponse({ success: true, sent, failed })
+  } catch (error) {
+    console.error('Error in send-review-requests function:', error)
+    return jsonResponse({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, 500)
+  }
+})
@@ -0,0 +1,163 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getTransport } from '../_shared/transports.ts'
+
+// Slot times are shown in the salon's local time
+const APP_TIMEZONE = Deno.env.get('APP_TIMEZONE') || 'Asia/Manila'
+// How long a slot passed down the waitlist is held for the next client
+const WAITLIST_HOLD_MINUTES = 30
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface WaitlistOfferEmail {
+  entry_id: string
+  client_email: string
+  service_name: string | null
+  shop_name: string | null
+  start_at: string
+  offer_expires_at: string
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString('en-US', {
+    timeZone: APP_TIMEZONE,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  })
+}
+
+function buildMessage(offer: WaitlistOfferEmail) {
+  const serviceName = offer.service_name || 'your service'
+  const shopName = offer.shop_name || 'the salon'
+  const slotLabel = formatDateTime(offer.start_at)
+  const expiresLabel = formatDateTime(offer.offer_expires_at)
+
+  const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>A slot opened up for you</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #e91e8c 0%, #f06292 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+            <h1 style="color: white; margin: 0;">GlamQueue</h1>
+          </div>
+          <div style="background: #ffffff; padding: 40px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 10px 10px;">
+            <h2 style="color: #333; margin-top: 0;">Good news - a slot opened up!</h2>
+            <p style="color: #666; font-size: 16px;">A <strong>${escapeHtml(serviceName)}</strong> appointment at <strong>${escapeHtml(shopName)}</strong> is now available:</p>
+            <div style="background: #f9fafb; border: 2px dashed #e91e8c; border-radius: 8px; padding: 20px; text-align: center; margin: 30px 0;">
+              <div style="font-size: 22px; font-weight: bold; color: #e91e8c;">${slotLabel}</div>
+            </div>
+            <p style="color: #666; font-size: 14px;">
+              We're holding it for you until <strong>${expiresLabel}</strong>. Open GlamQueue and tap the notification bell to book it.
+            </p>
+            <p style="color: #999; font-size: 12px; margin-top: 30px;">
+              You're receiving this because you joined the waitlist. If you no longer need it, you can leave the waitlist in the app.
+            </p>
+          </div>
+          <div style="text-align: center; margin-top: 20px; color: #999; font-size: 12px;">
+            <p>© ${new Date().getFullYear()} GlamQueue. All rights reserved.</p>
+          </div>
+        </body>
+      </html>
+    `
+
+  const text = `
+GlamQueue - a slot opened up!
+
+A ${serviceName} appointment at ${shopName} is now available:
+
+${slotLabel}
+
+We're holding it for you until ${expiresLabel}. Open GlamQueue and tap the notification bell to book it.
+
+© ${new Date().getFullYear()} GlamQueue. All rights reserved.
+    `
+
+  return {
+    to: offer.client_email,
+    subject: `A ${serviceName} slot opened up for you`,
+    text,
+    html,
+  }
+}
+
+// Passes expired waitlist holds to the next client and emails every client
+// with a new offer. Offers themselves are made by the database when a booking
+// is cancelled. Run it on a schedule (every few minutes) with the service
+// role key.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    if (!supabaseUrl || !serviceRoleKey) {
+      return jsonResponse({ error: 'Server configuration error: Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY' }, 500)
+    }
+
+    const token = (req.headers.get('Authorization') || '').replace('Bearer ', '')
+    if (token !== serviceRoleKey) {
+      return jsonResponse({ error: 'Waitlist offers can only be sent by the scheduler' }, 403)
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    })
+
+    const { data: expired, error: releaseError } = await supabaseAdmin.rpc('release_expired_waitlist_offers', {
+      p_hold_minutes: WAITLIST_HOLD_MINUTES,
+    })
+    if (releaseError) throw releaseError
+
+    const { data, error } = await supabaseAdmin.rpc('claim_waitlist_offer_emails')
+    if (error) throw error
+
+    const transport = getTransport('email')
+    let sent = 0
+    let failed = 0
+
+    // The in-app notification is already there, so a failed email is only logged
+    for (const offer of (data || []) as WaitlistOfferEmail[]) {
+      try {
+        await transport.send(buildMessage(offer))
+        sent += 1
+      } catch (sendError) {
+        failed += 1
+        console.error(`Waitlist offer email for ${offer.entry_id} failed:`, sendError)
+      }
+    }
+
+    return jsonResponse({ success: true, expired: expired ?? 0, sent, failed })
+  } catch (error) {
+    console.error('Error in send-waitlist-offer function:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
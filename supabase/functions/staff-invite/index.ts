@@ -0,0 +1,443 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getTransport } from '../_shared/transports.ts'
+
+// Where the invite link opens
+const APP_URL = (Deno.env.get('APP_URL') || 'https://glamqueue.vercel.app').replace(/\/$/, '')
+const INVITE_TTL_DAYS = 7
+const MIN_PASSWORD_LENGTH = 6
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const ROLES = ['admin', 'manager', 'staff']
+const ROLE_LABELS: Record<string, string> = { admin: 'Admin', manager: 'Manager', staff: 'Staff' }
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface Invite {
+  id: string
+  organization_id: string
+  user_id: string
+  email: string
+  name: string | null
+  role: string
+  job_title: string | null
+  is_new_user: boolean
+  expires_at: string
+  accepted_at: string | null
+  revoked_at: string | null
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function generateToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+// Tokens are random and long, so a plain hash is enough
+async function hashToken(token: string) {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token)))
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// Audit entries for supabase-audit-log-setup.sql. The members trigger skips
+// service-role changes, so invites are recorded here. Failures never block
+// the invite itself.
+async function recordAudit(
+  supabaseAdmin: SupabaseClient,
+  req: Request,
+  entry: { organization_id: string; actor_id: string; actor_name: string | null; action: string; invite: Pick<Invite, 'user_id' | 'email' | 'name' | 'role'> },
+) {
+  const { error } = await supabaseAdmin.from('audit_log').insert({
+    organization_id: entry.organization_id,
+    actor_id: entry.actor_id,
+    actor_name: entry.actor_name,
+    action: entry.action,
+    target_type: 'member',
+    target_id: entry.invite.user_id,
+    target_label: entry.invite.name || entry.invite.email,
+    changes: { role: { before: null, after: entry.invite.role } },
+    client_ip: req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+    user_agent: req.headers.get('user-agent'),
+  })
+  if (error) console.error('Failed to write audit log:', error)
+}
+
+function expiresAt() {
+  return new Date(Date.now() + INVITE_TTL_DAYS * 86400000).toISOString()
+}
+
+async function sendInviteEmail(
+  supabaseAdmin: SupabaseClient,
+  invite: Pick<Invite, 'organization_id' | 'email' | 'name' | 'role'>,
+  token: string,
+  inviterName: string | null,
+) {
+  const { data: organization } = await supabaseAdmin
+    .from('organizations')
+    .select('name')
+    .eq('id', invite.organization_id)
+    .maybeSingle()
+  const orgName = organization?.name || 'a salon'
+  const url = `${APP_URL}/invite?token=${token}`
+  const invitedBy = inviterName ? `${inviterName} has invited you` : "You've been invited"
+  const role = ROLE_LABELS[invite.role] || invite.role
+
+  await getTransport('email').send({
+    to: invite.email,
+    subject: `You're invited to join ${orgName} on GlamQueue`,
+    text: `Hi ${invite.name || 'there'},
+
+${invitedBy} to join ${orgName} on GlamQueue as ${role}.
+
+Accept the invite and set up your account:
+${url}
+
+This link expires in ${INVITE_TTL_DAYS} days.`,
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #e91e8c 0%, #f06292 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+            <h1 style="color: white; margin: 0;">GlamQueue</h1>
+          </div>
+          <div style="background: #ffffff; padding: 40px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 10px 10px; text-align: center;">
+            <h2 style="color: #333; margin-top: 0;">Join ${escapeHtml(orgName)}</h2>
+            <p style="color: #666; font-size: 16px;">
+              Hi ${escapeHtml(invite.name || 'there')}, ${escapeHtml(invitedBy)} to join the team as <strong>${escapeHtml(role)}</strong>.
+            </p>
+            <a href="${url}" style="display: inline-block; margin: 20px 0; padding: 14px 28px; background: #e91e8c; color: white; text-decoration: none; border-radius: 8px; font-weight: bold;">
+              Accept Invite
+            </a>
+            <p style="color: #999; font-size: 12px;">This link expires in ${INVITE_TTL_DAYS} days. If you weren't expecting it, you can ignore this email.</p>
+          </div>
+        </body>
+      </html>
+    `,
+  })
+}
+
+// Finds an open invite by its link token, or says why it can't be used
+async function findInviteByToken(supabaseAdmin: SupabaseClient, token: unknown) {
+  if (typeof token !== 'string' || !token) {
+    return { error: jsonResponse({ error: 'This invite link is incomplete' }, 400) }
+  }
+  const { data, error } = await supabaseAdmin
+    .from('staff_invites')
+    .select('*, organization:organizations(name)')
+    .eq('token_hash', await hashToken(token))
+    .maybeSingle()
+  if (error) throw error
+
+  if (!data) return { error: jsonResponse({ error: 'This invite link is not valid' }, 404) }
+  if (data.accepted_at) return { error: jsonResponse({ error: 'This invite has already been accepted. Please sign in.' }, 410) }
+  if (data.revoked_at) return { error: jsonResponse({ error: 'This invite has been withdrawn' }, 410) }
+  if (new Date(data.expires_at) < new Date()) {
+    return { error: jsonResponse({ error: 'This invite has expired. Ask the salon to send a new one.' }, 410) }
+  }
+  return { invite: data as Invite & { organization: { name: string } | null } }
+}
+
+// Staff account invites. Admins and managers call invite/resend/revoke; the
+// invitee calls lookup/accept with the token from the emailed link.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    const anonKey = Deno.env.get('SUPABASE_ANON_KEY')
+    if (!supabaseUrl || !serviceRoleKey || !anonKey) {
+      return jsonResponse({ error: 'Server configuration error: Missing SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY or SUPABASE_ANON_KEY' }, 500)
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    })
+
+    const body = await req.json()
+    const { action } = body
+
+    if (action === 'lookup') {
+      const { invite, error } = await findInviteByToken(supabaseAdmin, body.token)
+      if (error) return error
+      return jsonResponse({
+        invite: {
+          email: invite.email,
+          name: invite.name,
+          role: invite.role,
+          job_title: invite.job_title,
+          organization_name: invite.organization?.name ?? null,
+          needs_password: invite.is_new_user,
+          expires_at: invite.expires_at,
+        },
+      })
+    }
+
+    if (action === 'accept') {
+      const { invite, error } = await findInviteByToken(supabaseAdmin, body.token)
+      if (error) return error
+      if (invite.is_new_user && (typeof body.password !== 'string' || body.password.length < MIN_PASSWORD_LENGTH)) {
+        return jsonResponse({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long` }, 400)
+      }
+
+      // Claim the invite first so the link can only be used once
+      const { data: claimed, error: claimError } = await supabaseAdmin
+        .from('staff_invites')
+        .update({ accepted_at: new Date().toISOString() })
+        .eq('id', invite.id)
+        .is('accepted_at', null)
+        .select('id')
+      if (claimError) throw claimError
+      if (!claimed?.length) {
+        return jsonResponse({ error: 'This invite has already been accepted. Please sign in.' }, 410)
+      }
+
+      try {
+        // People who already had an account keep their own password
+        if (invite.is_new_user) {
+          const { error: passwordError } = await supabaseAdmin.auth.admin.updateUserById(invite.user_id, {
+            password: body.password,
+            email_confirm: true,
+          })
+          if (passwordError) throw passwordError
+        }
+
+        const { error: memberError } = await supabaseAdmin
+          .from('organization_members')
+          .update({ is_active: true, role: invite.role, job_title: invite.job_title })
+          .eq('organization_id', invite.organization_id)
+          .eq('user_id', invite.user_id)
+        if (memberError) throw memberError
+
+        const { error: profileError } = await supabaseAdmin
+          .from('profiles')
+          .update({ organization_id: invite.organization_id, role: invite.role })
+          .eq('id', invite.user_id)
+        if (profileError) throw profileError
+      } catch (acceptError) {
+        await supabaseAdmin.from('staff_invites').update({ accepted_at: null }).eq('id', invite.id)
+        throw acceptError
+      }
+
+      await recordAudit(supabaseAdmin, req, {
+        organization_id: invite.organization_id,
+        actor_id: invite.user_id,
+        actor_name: invite.name || invite.email,
+        action: 'staff.invite_accepted',
+        invite,
+      })
+
+      return jsonResponse({ success: true, email: invite.email })
+    }
+
+    // Everything else needs staff.manage in the inviter's organization
+    const authHeader = req.headers.get('Authorization') || ''
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(authHeader.replace('Bearer ', ''))
+    if (authError || !user) {
+      return jsonResponse({ error: 'Please sign in again' }, 401)
+    }
+
+    const { data: inviter } = await supabaseAdmin
+      .from('profiles')
+      .select('id, name, role, organization_id')
+      .eq('id', user.id)
+      .maybeSingle()
+    if (!inviter?.organization_id) {
+      return jsonResponse({ error: 'You do not have permission to manage staff' }, 403)
+    }
+    const { data: canManageStaff, error: permissionError } = await supabaseAdmin.rpc('user_has_permission', {
+      p_user_id: inviter.id,
+      p_organization_id: inviter.organization_id,
+      p_permission: 'staff.manage',
+    })
+    // Before supabase-permissions-setup.sql is run, fall back to the roles
+    const allowed = permissionError ? ['admin', 'manager'].includes(inviter.role) : canManageStaff === true
+    if (!allowed) {
+      return jsonResponse({ error: 'You do not have permission to manage staff' }, 403)
+    }
+
+    if (action === 'invite') {
+      const email = String(body.email || '').trim().toLowerCase()
+      const name = String(body.name || '').trim()
+      const role = body.role || 'staff'
+      if (!EMAIL_PATTERN.test(email)) return jsonResponse({ error: 'Please enter a valid email address' }, 400)
+      if (!name) return jsonResponse({ error: 'Please enter a name' }, 400)
+      if (!ROLES.includes(role)) return jsonResponse({ error: 'Unknown role' }, 400)
+      if (inviter.role !== 'admin' && role !== 'staff') {
+        return jsonResponse({ error: 'Only admins can invite managers and admins' }, 403)
+      }
+
+      // Reuse the account if this email already has one
+      let userId: string
+      let isNewUser = false
+      const { data: existingProfile } = await supabaseAdmin
+        .from('profiles')
+        .select('id')
+        .ilike('email', email)
+        .maybeSingle()
+
+      if (existingProfile) {
+        userId = existingProfile.id
+        const { data: membership } = await supabaseAdmin
+          .from('organization_members')
+          .select('is_active')
+          .eq('organization_id', inviter.organization_id)
+          .eq('user_id', userId)
+          .maybeSingle()
+        if (membership?.is_active) {
+          return jsonResponse({ error: 'This person is already on your team' }, 409)
+        }
+        // Accounts from an earlier, unaccepted invite still need a password
+        const { data: authUser } = await supabaseAdmin.auth.admin.getUserById(userId)
+        isNewUser = !authUser?.user?.last_sign_in_at
+      } else {
+        // No password yet - the invitee sets it when accepting
+        const { data: created, error: createError } = await supabaseAdmin.auth.admin.createUser({
+          email,
+          user_metadata: { name },
+        })
+        if (createError || !created.user) {
+          return jsonResponse({ error: createError?.message || 'Failed to create the account' }, 400)
+        }
+        userId = created.user.id
+        isNewUser = true
+        const { error: profileError } = await supabaseAdmin
+          .from('profiles')
+          .upsert({ id: userId, email, name }, { onConflict: 'id' })
+        if (profileError) throw profileError
+      }
+
+      // Same RPC as addOrganizationMember() in src/api/multiTenancy.ts, run as
+      // the inviter so its own permission checks apply
+      const supabaseAsInviter = createClient(supabaseUrl, anonKey, {
+        global: { headers: { Authorization: authHeader } },
+        auth: { autoRefreshToken: false, persistSession: false },
+      })
+      const { data: added, error: addError } = await supabaseAsInviter.rpc('add_organization_member', {
+        p_organization_id: inviter.organization_id,
+        p_user_id: userId,
+        p_role: role,
+        p_job_title: body.job_title || null,
+      })
+      if (addError || added?.success === false) {
+        return jsonResponse({ error: addError?.message || added?.error || 'Failed to add the team member' }, 400)
+      }
+
+      // Pending until the invite is accepted
+      await supabaseAdmin
+        .from('organization_members')
+        .update({ is_active: false })
+        .eq('organization_id', inviter.organization_id)
+        .eq('user_id', userId)
+
+      // A new invite replaces any earlier one for the same person
+      await supabaseAdmin
+        .from('staff_invites')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('organization_id', inviter.organization_id)
+        .eq('user_id', userId)
+        .is('accepted_at', null)
+        .is('revoked_at', null)
+
+      const token = generateToken()
+      const invite = {
+        organization_id: inviter.organization_id,
+        user_id: userId,
+        email,
+        name,
+        phone: body.phone ? String(body.phone).trim() : null,
+        role,
+        job_title: body.job_title || null,
+        is_new_user: isNewUser,
+        token_hash: await hashToken(token),
+        invited_by: inviter.id,
+        expires_at: expiresAt(),
+      }
+      const { data: saved, error: inviteError } = await supabaseAdmin
+        .from('staff_invites')
+        .insert(invite)
+        .select('id')
+        .single()
+      if (inviteError) throw inviteError
+
+      await sendInviteEmail(supabaseAdmin, invite, token, inviter.name)
+      await recordAudit(supabaseAdmin, req, {
+        organization_id: inviter.organization_id,
+        actor_id: inviter.id,
+        actor_name: inviter.name,
+        action: 'staff.invite_sent',
+        invite,
+      })
+      return jsonResponse({ success: true, invite_id: saved.id })
+    }
+
+    if (action === 'resend' || action === 'revoke') {
+      const { data: invite } = await supabaseAdmin
+        .from('staff_invites')
+        .select('*')
+        .eq('id', body.invite_id)
+        .eq('organization_id', inviter.organization_id)
+        .is('accepted_at', null)
+        .is('revoked_at', null)
+        .maybeSingle()
+      if (!invite) return jsonResponse({ error: 'This invite is no longer open' }, 404)
+
+      if (action === 'revoke') {
+        await supabaseAdmin
+          .from('staff_invites')
+          .update({ revoked_at: new Date().toISOString() })
+          .eq('id', invite.id)
+        await recordAudit(supabaseAdmin, req, {
+          organization_id: inviter.organization_id,
+          actor_id: inviter.id,
+          actor_name: inviter.name,
+          action: 'staff.invite_revoked',
+          invite,
+        })
+        return jsonResponse({ success: true })
+      }
+
+      // A fresh token, so earlier links stop working
+      const token = generateToken()
+      const { error: updateError } = await supabaseAdmin
+        .from('staff_invites')
+        .update({ token_hash: await hashToken(token), expires_at: expiresAt() })
+        .eq('id', invite.id)
+      if (updateError) throw updateError
+
+      await sendInviteEmail(supabaseAdmin, invite, token, inviter.name)
+      return jsonResponse({ success: true })
+    }
+
+    return jsonResponse({ error: 'Unknown action' }, 400)
+  } catch (error) {
+    console.error('Error in staff-invite function:', error)
+    return jsonResponse({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, 500)
+  }
+})